@@ -0,0 +1,309 @@
+import { describe, expect, it } from 'vitest';
+import { claim, type InferClaims } from '../claims.js';
+import { createApiKeyService } from '../server/api-keys.js';
+import { createPolicies } from '../server/policy/predicates.js';
+import { createPolicyRegistry } from '../server/policy/registry.js';
+import { createPolicyGuard } from '../server/policy/guard.js';
+import type { Session } from '../server/session-engine.js';
+import type { SessionId } from '../contract.js';
+import { createMemoryApiKeyStore, createTestClock } from '../testing/index.js';
+
+const shape = {
+	role: claim.enum(['admin', 'member']),
+};
+
+type Shape = typeof shape;
+
+const harness = (options: { readonly maxTtlMs?: number } = {}) => {
+	const clock = createTestClock();
+	const store = createMemoryApiKeyStore();
+	const users = new Map<string, InferClaims<Shape>>([
+		['u_1', { role: 'admin' }],
+	]);
+	const keys = createApiKeyService<Shape>({
+		store,
+		clock,
+		resolveUser: (subject) => Promise.resolve(users.get(subject)),
+		...options,
+	});
+	return { clock, store, users, keys };
+};
+
+const bearer = (key: string, path = '/api/reports'): Request =>
+	new Request(`https://app.example.com${path}`, {
+		headers: { Authorization: `Bearer ${key}` },
+	});
+
+describe('issuing keys', () => {
+	it('shows the key once and stores only a digest', async () => {
+		const { keys, store } = harness();
+		const { key, info } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: ['reports:read'],
+		});
+
+		expect(key).toMatch(/^efk_[0-9a-f]{24}_[A-Za-z0-9_-]{43}$/);
+		expect(key).toContain(info.id);
+		expect(info).not.toHaveProperty('digest');
+
+		const [stored] = store.snapshot();
+		expect(stored?.digest).toMatch(/^[0-9a-f]{64}$/);
+		expect(JSON.stringify(store.snapshot())).not.toContain(
+			key.slice(`efk_${info.id}_`.length)
+		);
+	});
+
+	it('rejects malformed scopes and names', async () => {
+		const { keys } = harness();
+
+		await expect(
+			keys.issue({ subject: 'u_1', name: 'CI', scopes: ['reports read'] })
+		).rejects.toThrow(/apiKeys\.scopes/);
+		await expect(
+			keys.issue({ subject: 'u_1', name: ' ', scopes: [] })
+		).rejects.toThrow(/apiKeys\.name/);
+	});
+
+	it('requires an expiry within the configured maximum', async () => {
+		const { keys } = harness({ maxTtlMs: 60_000 });
+
+		await expect(
+			keys.issue({ subject: 'u_1', name: 'CI', scopes: [] })
+		).rejects.toThrow(/apiKeys\.ttlMs/);
+		await expect(
+			keys.issue({ subject: 'u_1', name: 'CI', scopes: [], ttlMs: 60_000 })
+		).resolves.toBeDefined();
+	});
+
+	it('rejects a prefix secret scanners could not anchor on', () => {
+		expect(() =>
+			createApiKeyService<Shape>({
+				store: createMemoryApiKeyStore(),
+				clock: createTestClock(),
+				resolveUser: () => Promise.resolve(undefined),
+				prefix: 'EF_',
+			})
+		).toThrow(/apiKeys\.prefix/);
+	});
+});
+
+describe('verifying keys', () => {
+	it('yields a session with the owner claims and key scopes', async () => {
+		const { keys } = harness();
+		const { key, info } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: ['reports:read'],
+		});
+
+		const result = await keys.verify(key);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.session.subject).toBe('u_1');
+		expect(result.session.claims).toEqual({ role: 'admin' });
+		expect(result.session.apiKey).toEqual({
+			id: info.id,
+			scopes: ['reports:read'],
+		});
+	});
+
+	it('refuses a key whose secret half was altered', async () => {
+		const { keys } = harness();
+		const { key } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+		});
+		const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+		const result = await keys.verify(tampered);
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('InvalidTokenError');
+	});
+
+	it('refuses an expired key at its expiry instant', async () => {
+		const { keys, clock } = harness();
+		const { key } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+			ttlMs: 60_000,
+		});
+
+		clock.advance(60_000);
+		const result = await keys.verify(key);
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('SessionExpiredError');
+	});
+
+	it('refuses a key once its owner revokes it, and only its owner', async () => {
+		const { keys } = harness();
+		const { key, info } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+		});
+
+		expect(await keys.revoke('u_2', info.id)).toBe(false);
+		expect((await keys.verify(key)).ok).toBe(true);
+
+		expect(await keys.revoke('u_1', info.id)).toBe(true);
+		const result = await keys.verify(key);
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('SessionRevokedError');
+	});
+
+	it('refuses a key whose owner no longer resolves', async () => {
+		const { keys, users } = harness();
+		const { key } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+		});
+
+		users.delete('u_1');
+
+		expect((await keys.verify(key)).ok).toBe(false);
+	});
+
+	it('tracks last use without writing on every request', async () => {
+		const { keys, clock } = harness();
+		const { key, info } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+		});
+		const lastUsed = async () =>
+			(await keys.list('u_1')).find((candidate) => candidate.id === info.id)
+				?.lastUsedAt;
+
+		await keys.verify(key);
+		const first = clock.now();
+		expect(await lastUsed()).toBe(first);
+
+		clock.advance(30_000);
+		await keys.verify(key);
+		expect(await lastUsed()).toBe(first);
+
+		clock.advance(30_000);
+		await keys.verify(key);
+		expect(await lastUsed()).toBe(clock.now());
+	});
+});
+
+describe('bearer requests', () => {
+	it('ignores requests without a key of this prefix', async () => {
+		const { keys } = harness();
+
+		expect(
+			await keys.fromRequest(new Request('https://app.example.com/'))
+		).toBeUndefined();
+		expect(
+			await keys.fromRequest(bearer('eyJhbGciOi.jwt.token'))
+		).toBeUndefined();
+	});
+
+	it('accepts the scheme in any case', async () => {
+		const { keys } = harness();
+		const { key } = await keys.issue({
+			subject: 'u_1',
+			name: 'CI',
+			scopes: [],
+		});
+
+		const result = await keys.fromRequest(
+			new Request('https://app.example.com/', {
+				headers: { Authorization: `bearer ${key}` },
+			})
+		);
+
+		expect(result?.ok).toBe(true);
+	});
+});
+
+describe('guarding routes with keys', () => {
+	const p = createPolicies<Shape>();
+
+	const browserSession: Session<Shape> = {
+		id: 'sid' as SessionId,
+		subject: 'u_1',
+		claims: { role: 'admin' },
+		createdAt: 0,
+		lastSeenAt: 0,
+		absoluteExpiresAt: Number.MAX_SAFE_INTEGER,
+	};
+
+	const setup = async (scopes: readonly string[]) => {
+		const { keys } = harness();
+		const { key } = await keys.issue({ subject: 'u_1', name: 'CI', scopes });
+		const registry = createPolicyRegistry<Shape>()
+			.protect({ path: '/api/*', policy: p.authenticated() })
+			.protect({ path: '/api/reports', policy: p.scope('reports:read') });
+		const guard = createPolicyGuard<Shape>({
+			registry,
+			resolveSession: keys.sessionResolver(() =>
+				Promise.resolve({ session: browserSession })
+			),
+		});
+		return { key, guard };
+	};
+
+	it('admits a key on a route that grants its scope', async () => {
+		const { key, guard } = await setup(['reports:read']);
+
+		const outcome = await guard.check(bearer(key));
+
+		expect(outcome.allowed).toBe(true);
+		expect(outcome.session?.apiKey).toBeDefined();
+	});
+
+	it('refuses a key lacking the scope with 403', async () => {
+		const { key, guard } = await setup([]);
+
+		const outcome = await guard.check(bearer(key));
+
+		expect(outcome.allowed).toBe(false);
+		if (outcome.allowed) return;
+		expect(outcome.status).toBe(403);
+	});
+
+	it('refuses a key on a route no scope opened', async () => {
+		// `authenticated()` alone admits the owner's browser, not their scripts.
+		const { key, guard } = await setup(['reports:read']);
+
+		const outcome = await guard.check(bearer(key, '/api/settings'));
+
+		expect(outcome.allowed).toBe(false);
+		if (outcome.allowed) return;
+		expect(outcome.status).toBe(403);
+	});
+
+	it('never falls back to the browser session for a bad key', async () => {
+		const { key, guard } = await setup(['reports:read']);
+
+		const outcome = await guard.check(bearer(`${key.slice(0, -2)}xx`));
+
+		expect(outcome.allowed).toBe(false);
+		if (outcome.allowed) return;
+		expect(outcome.status).toBe(401);
+		expect(outcome.session).toBeUndefined();
+	});
+
+	it('resolves requests without a key as before', async () => {
+		const { guard } = await setup([]);
+
+		const outcome = await guard.check(
+			new Request('https://app.example.com/api/settings')
+		);
+
+		expect(outcome.allowed).toBe(true);
+		expect(outcome.session?.apiKey).toBeUndefined();
+	});
+});
@@ -0,0 +1,586 @@
+import { describe, expect, it } from 'vitest';
+import {
+	createAuthorizationServer,
+	type AuthorizationServerOptions,
+} from '../server/authorization-server/server.js';
+import {
+	createClientRegistry,
+	digestClientSecret,
+	type RegisteredClient,
+} from '../server/authorization-server/clients.js';
+import { generateSigningKey } from '../server/authorization-server/keys.js';
+import { createOAuthClient } from '../server/oauth/flow.js';
+import { createPkcePair } from '../server/oauth/pkce.js';
+import { createRedirectValidator } from '../server/oauth/redirect.js';
+import { createMemoryAuthStorage } from '../testing/storage.js';
+import {
+	createMemoryAuthorizationServerStore,
+	createTestClock,
+	type TestClock,
+} from '../testing/index.js';
+
+const ISSUER = 'https://id.example.com';
+const CLIENT_URL = 'https://app.example.com';
+const REDIRECT_URI = `${CLIENT_URL}/auth/callback`;
+const CLIENT_SECRET = 'client-secret';
+
+const thirdParty: RegisteredClient = {
+	clientId: 'notes',
+	name: 'Notes',
+	redirectUris: [REDIRECT_URI],
+	secretDigest: digestClientSecret(CLIENT_SECRET),
+	scopes: ['openid', 'email', 'offline_access'],
+};
+
+const harness = (
+	options: Partial<Omit<AuthorizationServerOptions, 'store' | 'clock'>> & {
+		readonly client?: Partial<RegisteredClient>;
+		readonly clock?: TestClock;
+	} = {}
+) => {
+	const {
+		client: clientOverrides,
+		clock = createTestClock(),
+		...serverOptions
+	} = options;
+	const store = createMemoryAuthorizationServerStore();
+	const reuse: unknown[] = [];
+	const server = createAuthorizationServer({
+		issuer: ISSUER,
+		clients: createClientRegistry([{ ...thirdParty, ...clientOverrides }]),
+		store,
+		storage: createMemoryAuthStorage(clock),
+		keys: [generateSigningKey({ kid: 'k1' })],
+		clock,
+		// The test browser names its user in a cookie.
+		resolveUser: (request) => {
+			const subject = /user=(\w+)/.exec(request.headers.get('cookie') ?? '');
+			return Promise.resolve(
+				subject?.[1] === undefined
+					? undefined
+					: { subject: subject[1], authenticatedAt: clock.now() }
+			);
+		},
+		signInUrl: (returnTo) =>
+			`${ISSUER}/sign-in?return=${encodeURIComponent(returnTo)}`,
+		idTokenClaims: ({ subject }) =>
+			Promise.resolve({ email: `${subject}@example.com`, iss: 'forged' }),
+		onRefreshTokenReuse: (event) => {
+			reuse.push(event);
+		},
+		...serverOptions,
+	});
+
+	const fetch = async (
+		input: string | URL | Request,
+		init?: RequestInit
+	): Promise<Response> =>
+		(await server.handle(new Request(input, init))) ??
+		new Response(null, { status: 404 });
+
+	const client = createOAuthClient({
+		provider: {
+			id: 'effuse',
+			clientId: thirdParty.clientId,
+			clientSecret: CLIENT_SECRET,
+			issuer: ISSUER,
+			scopes: ['openid', 'email', 'offline_access'],
+			profile: (claims) => claims,
+		},
+		redirectUri: REDIRECT_URI,
+		storage: createMemoryAuthStorage(clock),
+		clock,
+		redirects: createRedirectValidator({ baseUrl: CLIENT_URL }),
+		fetch,
+	});
+
+	/** Fetches as a browser signed in as `user`, without following redirects. */
+	const browse = (url: string, user?: string, init: RequestInit = {}) =>
+		fetch(url, {
+			...init,
+			headers: {
+				...(init.headers as Record<string, string> | undefined),
+				...(user === undefined ? {} : { cookie: `user=${user}` }),
+			},
+		});
+
+	/** Runs a client sign-in through consent, returning the client's callback result. */
+	const signIn = async (user = 'ada') => {
+		const started = await client.start();
+		if (!started.ok) throw new Error('start refused');
+		let response = await browse(started.authorizationUrl, user);
+		const location = response.headers.get('location') ?? '';
+		const requestId = new URL(location).searchParams.get('request');
+		if (requestId !== null) {
+			response = await browse(`${ISSUER}/oauth/consent/decision`, user, {
+				method: 'POST',
+				headers: { 'content-type': 'application/x-www-form-urlencoded' },
+				body: new URLSearchParams({ request: requestId, decision: 'allow' }),
+			});
+		}
+		return client.callback(
+			new Request(response.headers.get('location') ?? '', {
+				headers: {
+					cookie: started.setCookies
+						.map((header) => header.split(';')[0])
+						.join('; '),
+				},
+			})
+		);
+	};
+
+	const refresh = (refreshToken: string, extra: Record<string, string> = {}) =>
+		fetch(`${ISSUER}/oauth/token`, {
+			method: 'POST',
+			headers: {
+				authorization: `Basic ${btoa(`notes:${CLIENT_SECRET}`)}`,
+				'content-type': 'application/x-www-form-urlencoded',
+			},
+			body: new URLSearchParams({
+				grant_type: 'refresh_token',
+				refresh_token: refreshToken,
+				...extra,
+			}),
+		});
+
+	/** A hand-built authorization URL, for requests the client would never send. */
+	const authorizeUrl = async (overrides: Record<string, string> = {}) => {
+		const { challenge } = await createPkcePair();
+		const params = new URLSearchParams({
+			response_type: 'code',
+			client_id: 'notes',
+			redirect_uri: REDIRECT_URI,
+			scope: 'openid',
+			state: 'xyz',
+			code_challenge: challenge,
+			code_challenge_method: 'S256',
+			...overrides,
+		});
+		for (const [key, value] of [...params]) {
+			if (value === '') params.delete(key);
+		}
+		return `${ISSUER}/oauth/authorize?${params.toString()}`;
+	};
+
+	return {
+		clock,
+		store,
+		server,
+		reuse,
+		fetch,
+		browse,
+		signIn,
+		refresh,
+		authorizeUrl,
+	};
+};
+
+describe('discovery', () => {
+	it('publishes metadata an OpenID client accepts', async () => {
+		const { fetch } = harness();
+
+		const metadata = (await (
+			await fetch(`${ISSUER}/.well-known/openid-configuration`)
+		).json()) as Record<string, unknown>;
+
+		expect(metadata).toMatchObject({
+			issuer: ISSUER,
+			authorization_endpoint: `${ISSUER}/oauth/authorize`,
+			token_endpoint: `${ISSUER}/oauth/token`,
+			jwks_uri: `${ISSUER}/oauth/jwks`,
+			code_challenge_methods_supported: ['S256'],
+			id_token_signing_alg_values_supported: ['ES256'],
+		});
+	});
+
+	it('publishes public keys only', async () => {
+		const { fetch } = harness();
+
+		const jwks = (await (await fetch(`${ISSUER}/oauth/jwks`)).json()) as {
+			keys: Record<string, unknown>[];
+		};
+
+		expect(jwks.keys).toHaveLength(1);
+		expect(jwks.keys[0]).toMatchObject({ kid: 'k1', alg: 'ES256', use: 'sig' });
+		expect(jwks.keys[0]).not.toHaveProperty('d');
+	});
+
+	it('refuses an issuer clients could not verify against', () => {
+		expect(() => harness({ issuer: 'http://id.example.com' })).toThrow(
+			/authorizationServer\.issuer/
+		);
+		expect(() => harness({ issuer: `${ISSUER}/` })).toThrow(
+			/authorizationServer\.issuer/
+		);
+	});
+});
+
+describe('authorization requests', () => {
+	it('never redirects to an unregistered URI', async () => {
+		const { browse, authorizeUrl } = harness();
+
+		const response = await browse(
+			await authorizeUrl({ redirect_uri: 'https://evil.example.com/cb' }),
+			'ada'
+		);
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get('location')).toBeNull();
+	});
+
+	it('refuses a request without PKCE', async () => {
+		const { browse, authorizeUrl } = harness();
+
+		const response = await browse(
+			await authorizeUrl({ code_challenge: '', code_challenge_method: '' }),
+			'ada'
+		);
+		const location = new URL(response.headers.get('location') ?? '');
+
+		expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+		expect(location.searchParams.get('error')).toBe('invalid_request');
+		expect(location.searchParams.get('code')).toBeNull();
+		expect(location.searchParams.get('state')).toBe('xyz');
+	});
+
+	it('refuses scopes the client was not registered for', async () => {
+		const { browse, authorizeUrl } = harness();
+
+		const response = await browse(
+			await authorizeUrl({ scope: 'openid admin' }),
+			'ada'
+		);
+
+		expect(
+			new URL(response.headers.get('location') ?? '').searchParams.get('error')
+		).toBe('invalid_scope');
+	});
+
+	it('sends a signed-out browser to sign in and back', async () => {
+		const { browse, authorizeUrl } = harness();
+		const url = await authorizeUrl();
+
+		const response = await browse(url);
+
+		expect(response.headers.get('location')).toBe(
+			`${ISSUER}/sign-in?return=${encodeURIComponent(url)}`
+		);
+	});
+
+	it('answers prompt=none without showing anything', async () => {
+		const { browse, authorizeUrl } = harness();
+		const error = async (user?: string) =>
+			new URL(
+				(
+					await browse(await authorizeUrl({ prompt: 'none' }), user)
+				).headers.get('location') ?? ''
+			).searchParams.get('error');
+
+		expect(await error()).toBe('login_required');
+		expect(await error('ada')).toBe('consent_required');
+	});
+});
+
+describe('consent', () => {
+	it('asks once, then remembers the scopes granted', async () => {
+		const { browse, authorizeUrl, server } = harness();
+
+		const first = await browse(await authorizeUrl(), 'ada');
+		const requestId =
+			new URL(first.headers.get('location') ?? '').searchParams.get(
+				'request'
+			) ?? '';
+		expect(requestId).not.toBe('');
+
+		const request = new Request(`${ISSUER}/`, {
+			headers: { cookie: 'user=ada' },
+		});
+		expect(await server.consentRequest(request, requestId)).toEqual({
+			requestId,
+			client: { clientId: 'notes', name: 'Notes' },
+			scopes: ['openid'],
+		});
+
+		await server.decideConsent(request, { requestId, allow: true });
+		const second = await browse(await authorizeUrl(), 'ada');
+
+		expect(
+			new URL(second.headers.get('location') ?? '').searchParams.get('code')
+		).not.toBeNull();
+	});
+
+	it('shows a pending request only to the user it belongs to', async () => {
+		const { browse, authorizeUrl, server } = harness();
+		const first = await browse(await authorizeUrl(), 'ada');
+		const requestId =
+			new URL(first.headers.get('location') ?? '').searchParams.get(
+				'request'
+			) ?? '';
+		const eve = new Request(`${ISSUER}/`, { headers: { cookie: 'user=eve' } });
+
+		expect(await server.consentRequest(eve, requestId)).toBeUndefined();
+		expect(
+			(await server.decideConsent(eve, { requestId, allow: true })).status
+		).toBe(400);
+	});
+
+	it('returns access_denied when the user declines', async () => {
+		const { browse, authorizeUrl, server, store } = harness();
+		const first = await browse(await authorizeUrl(), 'ada');
+		const requestId =
+			new URL(first.headers.get('location') ?? '').searchParams.get(
+				'request'
+			) ?? '';
+
+		const response = await server.decideConsent(
+			new Request(`${ISSUER}/`, { headers: { cookie: 'user=ada' } }),
+			{ requestId, allow: false }
+		);
+
+		expect(response.status).toBe(303);
+		expect(
+			new URL(response.headers.get('location') ?? '').searchParams.get('error')
+		).toBe('access_denied');
+		expect(store.snapshot().consents).toEqual([]);
+	});
+
+	it('skips the screen for a first-party client', async () => {
+		const { browse, authorizeUrl } = harness({ client: { firstParty: true } });
+
+		const response = await browse(await authorizeUrl(), 'ada');
+
+		expect(
+			new URL(response.headers.get('location') ?? '').searchParams.get('code')
+		).not.toBeNull();
+	});
+});
+
+describe('signing in with the existing OAuth client', () => {
+	it('completes discovery, PKCE, and ID token verification', async () => {
+		const { signIn, server } = harness();
+
+		const result = await signIn('ada');
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.claims).toMatchObject({
+			sub: 'ada',
+			email: 'ada@example.com',
+			iss: ISSUER,
+		});
+		expect(result.tokens.refreshToken).toBeDefined();
+		expect(server.verifyAccessToken(result.tokens.accessToken)).toMatchObject({
+			subject: 'ada',
+			clientId: 'notes',
+			scopes: ['openid', 'email', 'offline_access'],
+		});
+	});
+
+	it('redeems a code once', async () => {
+		const { browse, authorizeUrl, fetch } = harness({
+			client: { firstParty: true },
+		});
+		const { verifier, challenge } = await createPkcePair();
+		const response = await browse(
+			await authorizeUrl({ code_challenge: challenge }),
+			'ada'
+		);
+		const code =
+			new URL(response.headers.get('location') ?? '').searchParams.get(
+				'code'
+			) ?? '';
+		const exchange = () =>
+			fetch(`${ISSUER}/oauth/token`, {
+				method: 'POST',
+				body: new URLSearchParams({
+					grant_type: 'authorization_code',
+					code,
+					redirect_uri: REDIRECT_URI,
+					code_verifier: verifier,
+					client_id: 'notes',
+					client_secret: CLIENT_SECRET,
+				}),
+			});
+
+		expect((await exchange()).status).toBe(200);
+		expect(await (await exchange()).json()).toEqual({ error: 'invalid_grant' });
+	});
+
+	it('refuses a code presented with the wrong verifier', async () => {
+		const { browse, authorizeUrl, fetch } = harness({
+			client: { firstParty: true },
+		});
+		const response = await browse(await authorizeUrl(), 'ada');
+		const code =
+			new URL(response.headers.get('location') ?? '').searchParams.get(
+				'code'
+			) ?? '';
+		const { verifier } = await createPkcePair();
+
+		const exchanged = await fetch(`${ISSUER}/oauth/token`, {
+			method: 'POST',
+			body: new URLSearchParams({
+				grant_type: 'authorization_code',
+				code,
+				redirect_uri: REDIRECT_URI,
+				code_verifier: verifier,
+				client_id: 'notes',
+				client_secret: CLIENT_SECRET,
+			}),
+		});
+
+		expect(exchanged.status).toBe(400);
+	});
+
+	it('refuses a client that cannot prove its secret', async () => {
+		const { fetch } = harness();
+
+		const response = await fetch(`${ISSUER}/oauth/token`, {
+			method: 'POST',
+			headers: { authorization: `Basic ${btoa('notes:wrong')}` },
+			body: new URLSearchParams({ grant_type: 'refresh_token' }),
+		});
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ error: 'invalid_client' });
+	});
+});
+
+describe('refresh tokens', () => {
+	const tokensFor = async (h: ReturnType<typeof harness>) => {
+		const result = await h.signIn('ada');
+		if (!result.ok || result.tokens.refreshToken === undefined) {
+			throw new Error('sign-in failed');
+		}
+		return result.tokens.refreshToken;
+	};
+
+	it('rotates on every use', async () => {
+		const h = harness();
+		const first = await tokensFor(h);
+
+		const body = (await (await h.refresh(first)).json()) as {
+			refresh_token?: string;
+			access_token?: string;
+		};
+
+		expect(body.access_token).toBeDefined();
+		expect(body.refresh_token).toBeDefined();
+		expect(body.refresh_token).not.toBe(first);
+	});
+
+	it('revokes the whole family when a used token comes back', async () => {
+		const h = harness();
+		const stolen = await tokensFor(h);
+		const { refresh_token: successor = '' } = (await (
+			await h.refresh(stolen)
+		).json()) as { refresh_token?: string };
+
+		const replayed = await h.refresh(stolen);
+
+		expect(replayed.status).toBe(400);
+		expect(h.reuse).toHaveLength(1);
+		// The legitimate holder of the successor is cut off too.
+		expect((await h.refresh(successor)).status).toBe(400);
+	});
+
+	it('keeps the family lifetime across rotations', async () => {
+		const h = harness({ refreshTokenTtlMs: 60 * 60_000 });
+		let token = await tokensFor(h);
+		for (let step = 0; step < 3; step += 1) {
+			h.clock.advance(20 * 60_000 - 1);
+			const body = (await (await h.refresh(token)).json()) as {
+				refresh_token: string;
+			};
+			token = body.refresh_token;
+		}
+
+		h.clock.advance(10);
+		expect((await h.refresh(token)).status).toBe(400);
+	});
+
+	it('may narrow the access token but never widen the grant', async () => {
+		const h = harness();
+		const token = await tokensFor(h);
+
+		const narrowed = (await (
+			await h.refresh(token, { scope: 'openid' })
+		).json()) as { scope: string; refresh_token: string };
+		const widened = await h.refresh(narrowed.refresh_token, {
+			scope: 'openid admin',
+		});
+
+		expect(narrowed.scope).toBe('openid');
+		expect(await widened.json()).toEqual({ error: 'invalid_scope' });
+	});
+
+	it('stops once the user withdraws consent', async () => {
+		const h = harness();
+		const token = await tokensFor(h);
+
+		expect(await h.server.revokeConsent('ada', 'notes')).toBe(true);
+
+		expect((await h.refresh(token)).status).toBe(400);
+	});
+});
+
+describe('access tokens and key rotation', () => {
+	it('rejects an expired or tampered access token', async () => {
+		const h = harness();
+		const result = await h.signIn('ada');
+		if (!result.ok) throw new Error('sign-in failed');
+		const { accessToken } = result.tokens;
+		const [header, payload, signature] = accessToken.split('.');
+		const forged = JSON.parse(
+			Buffer.from(payload ?? '', 'base64url').toString()
+		) as Record<string, unknown>;
+		forged['scope'] = 'admin';
+		const tampered = [
+			header,
+			Buffer.from(JSON.stringify(forged)).toString('base64url'),
+			signature,
+		].join('.');
+
+		expect(h.server.verifyAccessToken(tampered)).toBeUndefined();
+		// ID tokens are not access tokens, though the same key signs both.
+		expect(
+			h.server.verifyAccessToken(result.tokens.idToken ?? '')
+		).toBeUndefined();
+
+		h.clock.advance(10 * 60_000);
+		expect(h.server.verifyAccessToken(accessToken)).toBeUndefined();
+	});
+
+	it('publishes a scheduled key before signing with it', async () => {
+		const clock = createTestClock();
+		const next = generateSigningKey({
+			kid: 'k2',
+			activeFrom: clock.now() + 5 * 60_000,
+		});
+		const h = harness({
+			clock,
+			keys: [next, generateSigningKey({ kid: 'k1' })],
+		});
+		const kidOf = (token: string) =>
+			(
+				JSON.parse(
+					Buffer.from(token.split('.')[0] ?? '', 'base64url').toString()
+				) as { kid: string }
+			).kid;
+
+		const jwks = (await (await h.fetch(`${ISSUER}/oauth/jwks`)).json()) as {
+			keys: { kid: string }[];
+		};
+		const before = await h.signIn('ada');
+		h.clock.advance(5 * 60_000);
+		const after = await h.signIn('ada');
+
+		expect(jwks.keys.map((key) => key.kid).sort()).toEqual(['k1', 'k2']);
+		if (!before.ok || !after.ok) throw new Error('sign-in failed');
+		expect(kidOf(before.tokens.accessToken)).toBe('k1');
+		expect(kidOf(after.tokens.accessToken)).toBe('k2');
+		expect(h.server.verifyAccessToken(after.tokens.accessToken)).toBeDefined();
+		// Tokens signed before the switch still verify until they expire.
+		expect(h.server.verifyAccessToken(before.tokens.accessToken)).toBeDefined();
+	});
+});
@@ -1,8 +1,15 @@
 import { describe, expect, it } from 'vitest';
 import {
+	runApiKeyStoreConformance,
+	runAuthorizationServerStoreConformance,
+	runMfaStoreConformance,
+	runPasskeyStoreConformance,
 	runPasswordHasherConformance,
 	runPasswordResetStoreConformance,
+	runPasswordlessStoreConformance,
+	runIdentityLinkStoreConformance,
 	runRateLimiterConformance,
+	runRelationStoreConformance,
 	runSessionStoreConformance,
 	runTokenCodecConformance,
 	runUserStoreConformance,
@@ -11,7 +18,14 @@ import {
 import { createScryptHasher } from '../server/password-hasher.js';
 import { createTokenCodec } from '../server/token-codec.js';
 import {
+	createMemoryApiKeyStore,
+	createMemoryAuthorizationServerStore,
+	createMemoryMfaStore,
+	createMemoryPasskeyStore,
 	createMemoryPasswordResetStore,
+	createMemoryIdentityLinkStore,
+	createMemoryPasswordlessStore,
+	createMemoryRelationStore,
 	createMemoryUserStore,
 } from '../testing/index.js';
 import { createStorageSessionStore } from '../server/storage-session-store.js';
@@ -118,3 +132,52 @@ describe('memory password reset store', () => {
 		createStore: createMemoryPasswordResetStore,
 	});
 });
+
+describe('memory mfa store', () => {
+	runMfaStoreConformance({
+		harness,
+		createStore: createMemoryMfaStore,
+	});
+});
+
+describe('memory passwordless store', () => {
+	runPasswordlessStoreConformance({
+		harness,
+		createStore: createMemoryPasswordlessStore,
+	});
+});
+
+describe('memory api key store', () => {
+	runApiKeyStoreConformance({
+		harness,
+		createStore: createMemoryApiKeyStore,
+	});
+});
+
+describe('memory identity link store', () => {
+	runIdentityLinkStoreConformance({
+		harness,
+		createStore: () => createMemoryIdentityLinkStore(),
+	});
+});
+
+describe('memory relation store', () => {
+	runRelationStoreConformance({
+		harness,
+		createStore: () => createMemoryRelationStore(),
+	});
+});
+
+describe('memory authorization server store', () => {
+	runAuthorizationServerStoreConformance({
+		harness,
+		createStore: () => createMemoryAuthorizationServerStore(),
+	});
+});
+
+describe('memory passkey store', () => {
+	runPasskeyStoreConformance({
+		harness,
+		createStore: createMemoryPasskeyStore,
+	});
+});
@@ -3,8 +3,10 @@ import {
 	AccountLockedError,
 	CsrfMismatchError,
 	ForbiddenError,
+	IdentityLinkError,
 	InvalidCredentialsError,
 	InvalidResetTokenError,
+	InvalidSignInLinkError,
 	PasswordPolicyError,
 	RateLimitedError,
 	SessionExpiredError,
@@ -41,6 +43,14 @@ describe('AuthError', () => {
 					return 'token';
 				case 'InvalidResetTokenError':
 					return 'reset-token';
+				case 'InvalidOtpError':
+					return 'otp';
+				case 'InvalidSignInLinkError':
+					return 'sign-in-link';
+				case 'PasskeyVerificationError':
+					return 'passkey';
+				case 'IdentityLinkError':
+					return 'identity-link';
 				case 'TokenSignatureMismatchError':
 					return 'signature';
 				case 'CsrfMismatchError':
@@ -105,6 +115,12 @@ describe('toSafeResponseInit', () => {
 		);
 		expect(toSafeResponseInit(new SessionRevokedError()).status).toBe(401);
 		expect(toSafeResponseInit(new InvalidResetTokenError()).status).toBe(400);
+		expect(toSafeResponseInit(new InvalidSignInLinkError()).status).toBe(401);
+		expect(
+			toSafeResponseInit(
+				new IdentityLinkError({ reason: 'last-sign-in-method' })
+			).status
+		).toBe(409);
 		expect(
 			toSafeResponseInit(
 				new PasswordPolicyError({ reason: 'Use at least 12 characters.' })
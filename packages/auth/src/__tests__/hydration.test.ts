@@ -338,6 +338,7 @@ describe('what the client is not', () => {
 		expect(Object.keys(client).sort()).toEqual([
 			'clear',
 			'current',
+			'dispose',
 			'publish',
 			'subscribe',
 		]);
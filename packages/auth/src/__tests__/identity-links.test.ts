@@ -0,0 +1,406 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+	createIdentityLinkService,
+	identityFromCallback,
+	type EmailAccount,
+	type IdentityLinkServiceOptions,
+	type LinkableIdentity,
+	type LinkingSession,
+} from '../server/identity-links.js';
+import { createOAuthClient } from '../server/oauth/flow.js';
+import { createRedirectValidator } from '../server/oauth/redirect.js';
+import { toSafeResponseInit } from '../errors.js';
+import {
+	accountTakeoverScenarios,
+	createFakeIdp,
+} from '../testing/fake-idp.js';
+import { createMemoryAuthStorage } from '../testing/storage.js';
+import {
+	createMemoryIdentityLinkStore,
+	createTestClock,
+} from '../testing/index.js';
+
+beforeAll(() => {
+	createFakeIdp();
+});
+
+const VICTIM_EMAIL = 'ada@example.com';
+
+const harness = (
+	options: Partial<Omit<IdentityLinkServiceOptions, 'store' | 'clock'>> = {}
+) => {
+	const clock = createTestClock();
+	const store = createMemoryIdentityLinkStore();
+	const accounts = new Map<string, EmailAccount>([
+		[VICTIM_EMAIL, { subject: 'u_ada', emailVerified: true }],
+	]);
+	const links = createIdentityLinkService({
+		store,
+		clock,
+		findAccountByEmail: (email) => Promise.resolve(accounts.get(email)),
+		...options,
+	});
+
+	/** A browser session that proved a factor `ageMs` ago. */
+	const sessionFor = (subject: string, ageMs = 0): LinkingSession => ({
+		subject,
+		createdAt: clock.now() - ageMs,
+		authenticatedAt: clock.now() - ageMs,
+	});
+
+	return { clock, store, accounts, links, sessionFor };
+};
+
+const google = (
+	providerSubject: string,
+	overrides: Partial<LinkableIdentity> = {}
+): LinkableIdentity => ({
+	provider: 'google',
+	providerSubject,
+	email: VICTIM_EMAIL,
+	emailVerified: true,
+	...overrides,
+});
+
+describe('signing in with a linked identity', () => {
+	it('resolves to the subject it was linked to', async () => {
+		const { links, sessionFor } = harness();
+		await links.link({ session: sessionFor('u_ada'), identity: google('g1') });
+
+		const resolved = await links.resolve(google('g1'));
+
+		expect(resolved).toMatchObject({
+			ok: true,
+			subject: 'u_ada',
+			autoLinked: false,
+		});
+	});
+
+	it('lets one subject sign in through several providers', async () => {
+		const { links, sessionFor } = harness();
+		const session = sessionFor('u_ada');
+		await links.link({ session, identity: google('g1') });
+		await links.link({
+			session,
+			identity: google('h1', { provider: 'github' }),
+		});
+
+		expect((await links.resolve(google('g1'))).ok).toBe(true);
+		expect((await links.resolve(google('h1', { provider: 'github' }))).ok).toBe(
+			true
+		);
+		expect(
+			(await links.list('u_ada')).map((link) => link.provider).sort()
+		).toEqual(['github', 'google']);
+	});
+
+	it('tells an unknown identity apart from one whose email is taken', async () => {
+		const { links } = harness();
+
+		const unknown = await links.resolve(
+			google('g1', { email: 'grace@example.com' })
+		);
+		const taken = await links.resolve(google('g1'));
+
+		expect(unknown.ok || unknown.error.reason).toBe('not-linked');
+		expect(taken.ok || taken.error.reason).toBe('email-in-use');
+		// The application can branch on the reason; the client cannot.
+		if (unknown.ok || taken.ok) return;
+		expect(toSafeResponseInit(unknown.error)).toEqual(
+			toSafeResponseInit(taken.error)
+		);
+	});
+});
+
+describe('automatic linking', () => {
+	it('is off unless enabled, even for a verified email', async () => {
+		const { links, store } = harness();
+
+		const resolved = await links.resolve(google('g1'));
+
+		expect(resolved.ok).toBe(false);
+		expect(store.snapshot()).toEqual([]);
+	});
+
+	it('links when both sides verified the email', async () => {
+		const { links } = harness({ autoLinkVerifiedEmail: true });
+
+		const resolved = await links.resolve(google('g1'));
+
+		expect(resolved).toMatchObject({
+			ok: true,
+			subject: 'u_ada',
+			autoLinked: true,
+		});
+		expect(await links.resolve(google('g1'))).toMatchObject({
+			autoLinked: false,
+		});
+	});
+
+	it('refuses an email the provider did not verify', async () => {
+		const { links, store } = harness({ autoLinkVerifiedEmail: true });
+
+		const resolved = await links.resolve(
+			google('attacker', { emailVerified: false })
+		);
+
+		expect(resolved.ok || resolved.error.reason).toBe('email-in-use');
+		expect(store.snapshot()).toEqual([]);
+	});
+
+	it('refuses an email the application did not verify', async () => {
+		// Otherwise whoever registered an address they never confirmed here could
+		// have it claimed by its real owner's Google account, or the reverse.
+		const { links, accounts } = harness({ autoLinkVerifiedEmail: true });
+		accounts.set(VICTIM_EMAIL, { subject: 'u_ada', emailVerified: false });
+
+		expect((await links.resolve(google('g1'))).ok).toBe(false);
+	});
+
+	it('needs a way to find accounts by email', () => {
+		expect(() =>
+			createIdentityLinkService({
+				store: createMemoryIdentityLinkStore(),
+				clock: createTestClock(),
+				autoLinkVerifiedEmail: true,
+			})
+		).toThrow(/identityLinks\.findAccountByEmail/);
+	});
+});
+
+describe('account takeover through a real provider callback', () => {
+	const REDIRECT_URI = 'https://app.example.com/auth/callback';
+
+	const signInThroughIdp = async (
+		scenario: ReturnType<typeof accountTakeoverScenarios>[number]
+	) => {
+		const { links, store, clock } = harness({ autoLinkVerifiedEmail: true });
+		const idp = createFakeIdp({ now: () => clock.now() });
+		const client = createOAuthClient({
+			provider: {
+				id: 'fake',
+				clientId: idp.audience,
+				clientSecret: 'client-secret',
+				issuer: idp.issuer,
+				profile: (claims) => claims,
+			},
+			redirectUri: REDIRECT_URI,
+			storage: createMemoryAuthStorage(clock),
+			clock,
+			redirects: createRedirectValidator({
+				baseUrl: 'https://app.example.com',
+			}),
+			fetch: idp.fetch(),
+		});
+
+		const started = await client.start();
+		if (!started.ok) throw new Error('start refused');
+		idp.setNextIdTokenOverrides(scenario.overrides);
+		const { callbackUrl } = idp.authorize(started.authorizationUrl);
+		const callback = await client.callback(
+			new Request(callbackUrl, {
+				headers: {
+					cookie: started.setCookies
+						.map((header) => header.split(';')[0])
+						.join('; '),
+				},
+			})
+		);
+		if (!callback.ok) throw new Error('callback refused');
+
+		return {
+			store,
+			resolved: await links.resolve(identityFromCallback('fake', callback)),
+		};
+	};
+
+	it.each(accountTakeoverScenarios(VICTIM_EMAIL).map((s) => [s.name, s]))(
+		'refuses: %s',
+		async (_name, scenario) => {
+			const { resolved, store } = await signInThroughIdp(scenario);
+
+			expect(resolved.ok).toBe(false);
+			expect(store.snapshot()).toEqual([]);
+		}
+	);
+
+	it('links the same flow once the provider verifies the email', async () => {
+		const { resolved } = await signInThroughIdp({
+			name: 'verified',
+			overrides: {
+				subject: 'ada-sub',
+				claims: { email: VICTIM_EMAIL, email_verified: true },
+			},
+		});
+
+		expect(resolved).toMatchObject({ ok: true, subject: 'u_ada' });
+	});
+});
+
+describe('linking while signed in', () => {
+	it('requires a recently authenticated session', async () => {
+		const { links, sessionFor } = harness();
+
+		const stale = await links.link({
+			session: sessionFor('u_ada', 11 * 60_000),
+			identity: google('g1'),
+		});
+
+		expect(stale.ok || stale.error.reason).toBe('reauthentication-required');
+		expect(
+			(
+				await links.link({
+					session: sessionFor('u_ada', 60_000),
+					identity: google('g1'),
+				})
+			).ok
+		).toBe(true);
+	});
+
+	it('refuses a session authenticated by an API key', async () => {
+		const { links, sessionFor } = harness();
+
+		const result = await links.link({
+			session: { ...sessionFor('u_ada'), apiKey: { id: 'k1', scopes: [] } },
+			identity: google('g1'),
+		});
+
+		expect(result.ok).toBe(false);
+	});
+
+	it('refuses an impersonated session, however fresh', async () => {
+		const { links, sessionFor } = harness();
+
+		const result = await links.link({
+			session: {
+				...sessionFor('u_ada'),
+				impersonation: {
+					actor: 'admin_1',
+					reason: 'Ticket #4411',
+					startedAt: 0,
+				},
+			},
+			identity: google('g1'),
+		});
+
+		expect(result.ok || result.error.reason).toBe('reauthentication-required');
+		expect(await links.list('u_ada')).toEqual([]);
+	});
+
+	it('refuses an identity linked to someone else, and repeats idempotently', async () => {
+		const { links, sessionFor } = harness();
+		await links.link({ session: sessionFor('u_ada'), identity: google('g1') });
+
+		const again = await links.link({
+			session: sessionFor('u_ada'),
+			identity: google('g1'),
+		});
+		const stolen = await links.link({
+			session: sessionFor('u_eve'),
+			identity: google('g1'),
+		});
+
+		expect(again.ok).toBe(true);
+		expect(stolen.ok || stolen.error.reason).toBe('linked-elsewhere');
+		expect(await links.resolve(google('g1'))).toMatchObject({
+			subject: 'u_ada',
+		});
+	});
+
+	it('lets exactly one of two concurrent claims on an identity win', async () => {
+		const { links, sessionFor } = harness();
+
+		const [ada, eve] = await Promise.all([
+			links.link({ session: sessionFor('u_ada'), identity: google('g1') }),
+			links.link({ session: sessionFor('u_eve'), identity: google('g1') }),
+		]);
+
+		expect([ada.ok, eve.ok].filter(Boolean)).toHaveLength(1);
+	});
+});
+
+describe('unlinking', () => {
+	it('refuses to remove the last way to sign in', async () => {
+		const { links, sessionFor } = harness();
+		const session = sessionFor('u_ada');
+		await links.link({ session, identity: google('g1') });
+		await links.link({
+			session,
+			identity: google('h1', { provider: 'github' }),
+		});
+
+		expect(
+			(
+				await links.unlink({
+					session,
+					provider: 'github',
+					providerSubject: 'h1',
+				})
+			).ok
+		).toBe(true);
+
+		const last = await links.unlink({
+			session,
+			provider: 'google',
+			providerSubject: 'g1',
+		});
+		expect(last.ok || last.error.reason).toBe('last-sign-in-method');
+		expect(await links.list('u_ada')).toHaveLength(1);
+	});
+
+	it('removes the last link when another method remains', async () => {
+		const { links, sessionFor } = harness({
+			hasOtherSignInMethod: (subject) => Promise.resolve(subject === 'u_ada'),
+		});
+		const session = sessionFor('u_ada');
+		await links.link({ session, identity: google('g1') });
+
+		const result = await links.unlink({
+			session,
+			provider: 'google',
+			providerSubject: 'g1',
+		});
+
+		expect(result.ok).toBe(true);
+		expect(await links.list('u_ada')).toEqual([]);
+	});
+
+	it('keeps at least one link when the last two are removed at once', async () => {
+		const { links, sessionFor } = harness();
+		const session = sessionFor('u_ada');
+		await links.link({ session, identity: google('g1') });
+		await links.link({
+			session,
+			identity: google('h1', { provider: 'github' }),
+		});
+
+		await Promise.all([
+			links.unlink({ session, provider: 'google', providerSubject: 'g1' }),
+			links.unlink({ session, provider: 'github', providerSubject: 'h1' }),
+		]);
+
+		expect((await links.list('u_ada')).length).toBeGreaterThan(0);
+	});
+
+	it('only unlinks the caller’s own identities, and only when fresh', async () => {
+		const { links, sessionFor } = harness({
+			hasOtherSignInMethod: () => Promise.resolve(true),
+		});
+		await links.link({ session: sessionFor('u_ada'), identity: google('g1') });
+
+		const foreign = await links.unlink({
+			session: sessionFor('u_eve'),
+			provider: 'google',
+			providerSubject: 'g1',
+		});
+		const stale = await links.unlink({
+			session: sessionFor('u_ada', 60 * 60_000),
+			provider: 'google',
+			providerSubject: 'g1',
+		});
+
+		expect(foreign.ok || foreign.error.reason).toBe('not-linked');
+		expect(stale.ok || stale.error.reason).toBe('reauthentication-required');
+		expect(await links.list('u_ada')).toHaveLength(1);
+	});
+});
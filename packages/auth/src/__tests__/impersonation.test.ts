@@ -0,0 +1,452 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { claim } from '../claims.js';
+import { ConfigError, ForbiddenError, StoreError } from '../errors.js';
+import { parseSessionPayload } from '../client/index.js';
+import { toHydrationPayload } from '../server/hydration.js';
+import { createPolicyGuard } from '../server/policy/guard.js';
+import { createPolicies } from '../server/policy/predicates.js';
+import { createPolicyRegistry } from '../server/policy/registry.js';
+import {
+	createSessionEngine,
+	MAX_IMPERSONATION_TTL_MS,
+	type ImpersonationEvent,
+	type Session,
+	type SessionStrategy,
+} from '../server/session-engine.js';
+import { createTokenCodec } from '../server/token-codec.js';
+import {
+	createMemorySessionStore,
+	createTestClock,
+	type MemorySessionStore,
+	type TestClock,
+} from '../testing/index.js';
+
+const SECRET = 's'.repeat(32);
+
+const shape = {
+	role: claim.enum(['admin', 'member']),
+	email: claim.string({ expose: false }),
+};
+
+type Shape = typeof shape;
+
+const ABSOLUTE_TTL = 8 * 60 * 60_000;
+
+const build = (
+	strategy: SessionStrategy,
+	clock: TestClock,
+	store: MemorySessionStore | undefined,
+	events: ImpersonationEvent[] = [],
+	onImpersonation: (event: ImpersonationEvent) => Promise<void> | void = (
+		event
+	) => {
+		events.push(event);
+	}
+) =>
+	createSessionEngine({
+		strategy,
+		claims: shape,
+		codec: createTokenCodec({ secrets: [SECRET] }),
+		clock,
+		...(store === undefined ? {} : { store }),
+		idleTtlMs: 30 * 60_000,
+		absoluteTtlMs: ABSOLUTE_TTL,
+		onImpersonation,
+	});
+
+const customer = { role: 'member', email: 'c@example.com' } as const;
+
+describe.each<SessionStrategy>(['stateless', 'stateful'])(
+	'impersonation (%s)',
+	(strategy) => {
+		let clock: TestClock;
+		let store: MemorySessionStore;
+		let events: ImpersonationEvent[];
+		let engine: ReturnType<typeof build>;
+		let admin: Session<Shape>;
+
+		beforeEach(async () => {
+			clock = createTestClock();
+			store = createMemorySessionStore(clock);
+			events = [];
+			engine = build(strategy, clock, store, events);
+
+			const issued = await engine.issue({
+				subject: 'admin_1',
+				claims: { role: 'admin', email: 'a@example.com' },
+				authenticated: { method: 'otp', secondFactor: true },
+			});
+			if (!issued.ok) throw new Error('issue failed');
+			admin = issued.session;
+		});
+
+		it('issues a session for the target that names the actor', async () => {
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!result.ok) throw new Error('impersonate failed');
+
+			const read = await engine.read(result.token);
+			if (!read.ok) throw new Error('read failed');
+
+			expect(read.session.subject).toBe('cus_1');
+			expect(read.session.claims).toEqual(customer);
+			expect(read.session.impersonation).toEqual({
+				actor: 'admin_1',
+				reason: 'Ticket #4411',
+				startedAt: clock.now(),
+			});
+		});
+
+		it("carries none of the administrator's factors", async () => {
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!result.ok) throw new Error('impersonate failed');
+
+			expect(result.session.amr).toEqual([]);
+			expect(result.session.mfaAt).toBeUndefined();
+		});
+
+		it('does not count as a recent sign-in', async () => {
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!result.ok) throw new Error('impersonate failed');
+			const read = await engine.read(result.token);
+			if (!read.ok) throw new Error('read failed');
+
+			const decision = await createPolicies<Shape>({ clock })
+				.recentlyAuthenticated(5 * 60_000)
+				.evaluate({ session: read.session, method: 'POST', path: '/' });
+
+			expect(decision).toMatchObject({ allowed: false, status: 403 });
+		});
+
+		it('expires after its own short lifetime', async () => {
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+				ttlMs: 5 * 60_000,
+			});
+			if (!result.ok) throw new Error('impersonate failed');
+
+			clock.advance(5 * 60_000);
+
+			expect((await engine.read(result.token)).ok).toBe(false);
+		});
+
+		it("never outlives the administrator's session", async () => {
+			clock.advance(ABSOLUTE_TTL - 60_000);
+
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!result.ok) throw new Error('impersonate failed');
+
+			expect(result.session.absoluteExpiresAt).toBe(admin.absoluteExpiresAt);
+		});
+
+		it('keeps the impersonation across a rotation', async () => {
+			const started = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!started.ok) throw new Error('impersonate failed');
+
+			const rotated = await engine.rotate(started.token);
+			if (!rotated.ok) throw new Error('rotate failed');
+
+			expect(rotated.session.impersonation?.actor).toBe('admin_1');
+		});
+
+		it('reports the start and the stop', async () => {
+			const started = await engine.impersonate(admin, 'cus_1', {
+				reason: '  Ticket #4411  ',
+				claims: customer,
+			});
+			if (!started.ok) throw new Error('impersonate failed');
+			const startedAt = clock.now();
+
+			clock.advance(60_000);
+			await expect(engine.endImpersonation(started.token)).resolves.toBe(true);
+
+			const common = {
+				actor: 'admin_1',
+				subject: 'cus_1',
+				reason: 'Ticket #4411',
+				startedAt,
+				expiresAt: started.session.absoluteExpiresAt,
+			};
+			expect(events).toEqual([
+				{ type: 'impersonation.started', ...common, at: startedAt },
+				{ type: 'impersonation.stopped', ...common, at: startedAt + 60_000 },
+			]);
+			expect((await engine.read(started.token)).ok).toBe(false);
+		});
+
+		it('leaves the administrator signed in after stopping', async () => {
+			const adminToken = await engine.issue({
+				subject: 'admin_1',
+				claims: { role: 'admin', email: 'a@example.com' },
+			});
+			if (!adminToken.ok) throw new Error('issue failed');
+			const started = await engine.impersonate(adminToken.session, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!started.ok) throw new Error('impersonate failed');
+
+			await engine.endImpersonation(started.token);
+
+			expect((await engine.read(adminToken.token)).ok).toBe(true);
+		});
+
+		it('will not end an ordinary session', async () => {
+			const own = await engine.issue({ subject: 'cus_1', claims: customer });
+			if (!own.ok) throw new Error('issue failed');
+
+			await expect(engine.endImpersonation(own.token)).resolves.toBe(false);
+			expect((await engine.read(own.token)).ok).toBe(true);
+			expect(events).toEqual([]);
+		});
+
+		it('refuses a start the audit sink did not record, and ends the session', async () => {
+			engine = build(strategy, clock, store, [], () => {
+				throw new Error('audit log unavailable');
+			});
+
+			const result = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+
+			expect(result.ok).toBe(false);
+			if (result.ok) return;
+			expect(result.error).toBeInstanceOf(StoreError);
+			const listed = await engine.list('cus_1');
+			expect(listed.ok && listed.sessions).toEqual([]);
+		});
+
+		it('still stops when the audit sink fails on the way out', async () => {
+			let fail = false;
+			engine = build(strategy, clock, store, [], () => {
+				if (fail) throw new Error('audit log unavailable');
+			});
+			const started = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!started.ok) throw new Error('impersonate failed');
+
+			fail = true;
+
+			await expect(engine.endImpersonation(started.token)).resolves.toBe(true);
+			expect((await engine.read(started.token)).ok).toBe(false);
+		});
+
+		it('marks the session on the devices list', async () => {
+			const started = await engine.impersonate(admin, 'cus_1', {
+				reason: 'Ticket #4411',
+				claims: customer,
+			});
+			if (!started.ok) throw new Error('impersonate failed');
+
+			const listed = await engine.list('cus_1');
+			if (!listed.ok) throw new Error('list failed');
+
+			expect(listed.sessions.map((session) => session.impersonation?.actor)).toEqual([
+				'admin_1',
+			]);
+		});
+
+		describe('refusals', () => {
+			const refusedWith = async (
+				actor: Session<Shape>,
+				target: string,
+				options: { readonly reason: string; readonly ttlMs?: number }
+			) => {
+				const result = await engine.impersonate(actor, target, {
+					claims: customer,
+					...options,
+				});
+				expect(result.ok).toBe(false);
+				expect(events).toEqual([]);
+				return result.ok ? undefined : result.error;
+			};
+
+			it('requires a reason', async () => {
+				expect(await refusedWith(admin, 'cus_1', { reason: '   ' })).toBeInstanceOf(
+					ForbiddenError
+				);
+			});
+
+			it('refuses to impersonate yourself', async () => {
+				expect(
+					await refusedWith(admin, 'admin_1', { reason: 'Ticket #4411' })
+				).toBeInstanceOf(ForbiddenError);
+			});
+
+			it('refuses to impersonate from an impersonated session', async () => {
+				const started = await engine.impersonate(admin, 'cus_1', {
+					reason: 'Ticket #4411',
+					claims: customer,
+				});
+				if (!started.ok) throw new Error('impersonate failed');
+				events.length = 0;
+
+				expect(
+					await refusedWith(started.session, 'cus_2', { reason: 'Ticket #4412' })
+				).toBeInstanceOf(ForbiddenError);
+			});
+
+			it('refuses an API key', async () => {
+				const keyed = { ...admin, apiKey: { id: 'key_1', scopes: ['*'] } };
+
+				expect(
+					await refusedWith(keyed, 'cus_1', { reason: 'Ticket #4411' })
+				).toBeInstanceOf(ForbiddenError);
+			});
+
+			it('refuses a lifetime above the ceiling', async () => {
+				expect(
+					await refusedWith(admin, 'cus_1', {
+						reason: 'Ticket #4411',
+						ttlMs: MAX_IMPERSONATION_TTL_MS + 1,
+					})
+				).toBeInstanceOf(ConfigError);
+			});
+		});
+	}
+);
+
+it('refuses to impersonate without a store to end it early', async () => {
+	const clock = createTestClock();
+	const events: ImpersonationEvent[] = [];
+	const engine = build('stateless', clock, undefined, events);
+	const admin = await engine.issue({
+		subject: 'admin_1',
+		claims: { role: 'admin', email: 'a@example.com' },
+	});
+	if (!admin.ok) throw new Error('issue failed');
+
+	const result = await engine.impersonate(admin.session, 'cus_1', {
+		reason: 'Ticket #4411',
+		claims: customer,
+	});
+
+	expect(result.ok).toBe(false);
+	if (result.ok) return;
+	expect(result.error).toBeInstanceOf(ConfigError);
+	expect(events).toEqual([]);
+});
+
+describe('notImpersonating', () => {
+	const p = createPolicies<Shape>();
+	const base: Session<Shape> = {
+		id: 'sid' as Session<Shape>['id'],
+		subject: 'cus_1',
+		claims: customer,
+		createdAt: 0,
+		lastSeenAt: 0,
+		absoluteExpiresAt: Number.MAX_SAFE_INTEGER,
+	};
+	const evaluate = (session: Session<Shape> | undefined) =>
+		p.notImpersonating().evaluate({ session, method: 'POST', path: '/' });
+
+	it("allows the customer's own session", async () => {
+		expect(await evaluate(base)).toEqual({ allowed: true });
+	});
+
+	it('forbids an impersonated one', async () => {
+		const decision = await evaluate({
+			...base,
+			impersonation: { actor: 'admin_1', reason: 'Ticket #4411', startedAt: 0 },
+		});
+
+		expect(decision).toMatchObject({ allowed: false, status: 403 });
+	});
+
+	it('asks an anonymous caller to sign in', async () => {
+		expect(await evaluate(undefined)).toMatchObject({ allowed: false, status: 401 });
+	});
+	describe('with an API key', () => {
+		const keyed = (scopes: readonly string[]): Session<Shape> => ({
+			...base,
+			claims: { role: 'admin', email: 'a@example.com' },
+			apiKey: { id: 'key_1', scopes },
+		});
+		const guardFor = (
+			policy: ReturnType<typeof p.all>,
+			session: Session<Shape>
+		) =>
+			createPolicyGuard<Shape>({
+				registry: createPolicyRegistry<Shape>().protect({
+					path: '/admin/*',
+					policy,
+				}),
+				resolveSession: () => Promise.resolve({ session }),
+			});
+
+		it('does not open a conjunction to an unscoped key', async () => {
+			const guard = guardFor(
+				p.all(p.claim('role', 'admin'), p.notImpersonating()),
+				keyed([])
+			);
+
+			const outcome = await guard.check(
+				new Request('https://app.example.com/admin/users', { method: 'POST' })
+			);
+
+			expect(outcome.allowed).toBe(false);
+			if (outcome.allowed) return;
+			expect(outcome.status).toBe(403);
+		});
+
+		it('lets a scoped member admit the key', async () => {
+			const guard = guardFor(
+				p.all(p.scope('admin:write'), p.notImpersonating()),
+				keyed(['admin:write'])
+			);
+
+			const outcome = await guard.check(
+				new Request('https://app.example.com/admin/users', { method: 'POST' })
+			);
+
+			expect(outcome.allowed).toBe(true);
+		});
+	});
+});
+
+describe('hydration', () => {
+	it('flags an impersonated session without naming the actor', () => {
+		const payload = toHydrationPayload(shape, {
+			id: 'sid' as Session<Shape>['id'],
+			subject: 'cus_1',
+			claims: customer,
+			createdAt: 0,
+			lastSeenAt: 0,
+			absoluteExpiresAt: 1_000,
+			impersonation: { actor: 'admin_1', reason: 'Ticket #4411', startedAt: 0 },
+		});
+
+		expect(payload).toEqual({
+			status: 'authenticated',
+			claims: { role: 'member' },
+			expiresAt: 1_000,
+			impersonated: true,
+		});
+		expect(JSON.stringify(payload)).not.toContain('admin_1');
+		expect(parseSessionPayload(payload)).toMatchObject({ impersonated: true });
+	});
+
+	it('leaves an ordinary session unflagged', () => {
+		const client = parseSessionPayload({ status: 'authenticated', claims: {} });
+
+		expect(client).not.toHaveProperty('impersonated');
+	});
+});
@@ -0,0 +1,677 @@
+import { describe, expect, it } from 'vitest';
+import { createPasskey, getPasskey } from '../client/passkey.js';
+import type { PasskeyCredentials } from '../client/passkey.js';
+import { parseAuthenticatorData } from '../server/passkey/authenticator-data.js';
+import { decodeCbor, encodeCbor } from '../server/passkey/cbor.js';
+import {
+	createPasskeyProvider,
+	type PasskeyProviderOptions,
+	type SignCountRegressionEvent,
+} from '../server/passkey/provider.js';
+import {
+	createMemoryPasskeyStore,
+	createSoftwareAuthenticator,
+	createTestClock,
+	type SoftwareAuthenticatorOptions,
+} from '../testing/index.js';
+
+const ORIGIN = 'https://app.example.com';
+
+const harness = (
+	authenticatorOptions: Partial<SoftwareAuthenticatorOptions> = {},
+	providerOptions: Partial<PasskeyProviderOptions> = {}
+) => {
+	const clock = createTestClock();
+	const store = createMemoryPasskeyStore();
+	const regressions: SignCountRegressionEvent[] = [];
+	const provider = createPasskeyProvider({
+		store,
+		clock,
+		rpId: 'example.com',
+		rpName: 'Example',
+		origins: [ORIGIN],
+		onSignCountRegression: (event) => {
+			regressions.push(event);
+		},
+		...providerOptions,
+	});
+	const authenticator = createSoftwareAuthenticator({
+		origin: ORIGIN,
+		...authenticatorOptions,
+	});
+
+	const register = async (subject = 'u_1') => {
+		const options = await provider.startRegistration({
+			subject,
+			userName: `${subject}@example.com`,
+		});
+		return provider.finishRegistration({
+			subject,
+			response: authenticator.register(options),
+		});
+	};
+
+	const registered = async (subject = 'u_1') => {
+		const result = await register(subject);
+		if (!result.ok) throw new Error(result.error.detail);
+		return result.credential;
+	};
+
+	return {
+		clock,
+		store,
+		provider,
+		authenticator,
+		regressions,
+		register,
+		registered,
+	};
+};
+
+describe('registration', () => {
+	it.each(['ES256', 'EdDSA', 'RS256'] as const)(
+		'registers and signs in with an %s credential',
+		async (algorithm) => {
+			const { provider, authenticator, registered } = harness({ algorithm });
+			const credential = await registered();
+
+			const options = await provider.startAuthentication({ subject: 'u_1' });
+			expect(options.allowCredentials.map((entry) => entry.id)).toEqual([
+				credential.credentialId,
+			]);
+			const result = await provider.finishAuthentication({
+				response: authenticator.authenticate(options),
+			});
+
+			expect(result.ok).toBe(true);
+			if (!result.ok) return;
+			expect(result.subject).toBe('u_1');
+			expect(result.credential.signCount).toBe(1);
+			expect(result.authentication).toEqual({
+				method: 'hwk',
+				secondFactor: true,
+			});
+		}
+	);
+
+	it.each([
+		['none', 'none'],
+		['packed', 'self'],
+		['packed-x5c', 'basic'],
+	] as const)('verifies %s attestation as %s', async (attestation, type) => {
+		const { register } = harness(
+			{ attestation },
+			{ attestation: attestation === 'none' ? 'none' : 'direct' }
+		);
+		const result = await register();
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.attestation.type).toBe(type);
+		expect(result.attestation.certificates?.length).toBe(
+			type === 'basic' ? 1 : undefined
+		);
+	});
+
+	it('keeps the subject out of the user handle', async () => {
+		const { provider } = harness();
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'ada@example.com',
+		});
+
+		expect(options.user.id).not.toContain('u_1');
+		expect(options.user.displayName).toBe('ada@example.com');
+		expect(options.authenticatorSelection.userVerification).toBe('required');
+	});
+
+	it('excludes credentials the subject already holds', async () => {
+		const { provider, authenticator, registered } = harness();
+		await registered();
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'u_1@example.com',
+		});
+
+		expect(options.excludeCredentials).toHaveLength(1);
+		expect(() => authenticator.register(options)).toThrow(/InvalidState/);
+	});
+
+	it('refuses to register a credential id that is already taken', async () => {
+		const { provider, authenticator, store } = harness();
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'u_1@example.com',
+		});
+		const response = authenticator.register(options);
+		await provider.finishRegistration({ subject: 'u_1', response });
+
+		const stolen = await provider.startRegistration({
+			subject: 'u_2',
+			userName: 'u_2@example.com',
+		});
+		const replayedId = authenticator.register(stolen);
+		const result = await provider.finishRegistration({
+			subject: 'u_2',
+			response: { ...replayedId, id: response.id, rawId: response.rawId },
+		});
+
+		expect(result.ok).toBe(false);
+		expect((await store.findByCredentialId(response.id))?.subject).toBe('u_1');
+	});
+});
+
+describe('hostile registrations', () => {
+	const refused = async (
+		overrides: Parameters<
+			ReturnType<typeof createSoftwareAuthenticator>['register']
+		>[1],
+		authenticatorOptions: Partial<SoftwareAuthenticatorOptions> = {}
+	) => {
+		const { provider, authenticator, store } = harness(authenticatorOptions);
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'u_1@example.com',
+		});
+		const result = await provider.finishRegistration({
+			subject: 'u_1',
+			response: authenticator.register(options, overrides),
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) expect(result.error._tag).toBe('PasskeyVerificationError');
+		expect(store.snapshot()).toEqual([]);
+	};
+
+	it('refuses a ceremony run on another origin', async () => {
+		await refused({ origin: 'https://example.com.evil.test' });
+	});
+
+	it('refuses client data for the wrong ceremony', async () => {
+		await refused({ type: 'webauthn.get' });
+	});
+
+	it('refuses a challenge the server never issued', async () => {
+		await refused({ challenge: 'bm90LWlzc3VlZA' });
+	});
+
+	it('refuses a cross-origin iframe ceremony', async () => {
+		await refused({ crossOrigin: true });
+	});
+
+	it('refuses authenticator data scoped to another RP ID', async () => {
+		await refused({ rpId: 'evil.test' });
+	});
+
+	it('refuses a registration without user presence', async () => {
+		await refused({ userPresent: false });
+	});
+
+	it('refuses a registration without user verification when it is required', async () => {
+		await refused({ userVerified: false });
+	});
+
+	it('refuses a tampered self attestation', async () => {
+		await refused({ tamperSignature: true }, { attestation: 'packed' });
+	});
+
+	it('refuses an attestation certificate that did not sign', async () => {
+		await refused({ foreignKey: true }, { attestation: 'packed-x5c' });
+	});
+
+	it('refuses an expired attestation certificate', async () => {
+		await refused(
+			{},
+			{
+				attestation: 'packed-x5c',
+				certificateValidity: {
+					notBefore: Date.UTC(2001, 0, 1),
+					notAfter: Date.UTC(2002, 0, 1),
+				},
+			}
+		);
+	});
+
+	it('refuses a challenge issued to another subject', async () => {
+		const { provider, authenticator } = harness();
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'u_1@example.com',
+		});
+		const result = await provider.finishRegistration({
+			subject: 'u_2',
+			response: authenticator.register(options),
+		});
+
+		expect(result.ok).toBe(false);
+	});
+
+	it('spends the challenge even when verification fails', async () => {
+		const { provider, authenticator } = harness();
+		const options = await provider.startRegistration({
+			subject: 'u_1',
+			userName: 'u_1@example.com',
+		});
+		await provider.finishRegistration({
+			subject: 'u_1',
+			response: authenticator.register(options, { userVerified: false }),
+		});
+		const retried = await provider.finishRegistration({
+			subject: 'u_1',
+			response: authenticator.register(options),
+		});
+
+		expect(retried.ok).toBe(false);
+	});
+});
+
+describe('authentication', () => {
+	it('signs in without a username step', async () => {
+		const { provider, authenticator, registered } = harness();
+		await registered();
+
+		const options = await provider.startAuthentication();
+		expect(options.allowCredentials).toEqual([]);
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(options),
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) expect(result.subject).toBe('u_1');
+	});
+
+	it('reports a synced passkey as a software key', async () => {
+		const { provider, authenticator, registered } = harness({ backedUp: true });
+		const credential = await registered();
+		expect(credential.backedUp).toBe(true);
+
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication()
+			),
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) expect(result.authentication.method).toBe('swk');
+	});
+
+	it('claims no second factor when the user was not verified', async () => {
+		const { provider, authenticator, registered } = harness(
+			{ userVerification: false },
+			{ userVerification: 'preferred' }
+		);
+		await registered();
+
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication()
+			),
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) expect(result.authentication.secondFactor).toBe(false);
+	});
+
+	it('accepts a counter that stays at zero', async () => {
+		const { provider, authenticator, registered } = harness({ counter: false });
+		await registered();
+
+		for (let attempt = 0; attempt < 2; attempt += 1) {
+			const result = await provider.finishAuthentication({
+				response: authenticator.authenticate(
+					await provider.startAuthentication()
+				),
+			});
+			expect(result.ok).toBe(true);
+		}
+	});
+
+	it('refuses a replayed assertion', async () => {
+		const { provider, authenticator, registered } = harness();
+		await registered();
+		const response = authenticator.authenticate(
+			await provider.startAuthentication()
+		);
+
+		expect((await provider.finishAuthentication({ response })).ok).toBe(true);
+		expect((await provider.finishAuthentication({ response })).ok).toBe(false);
+	});
+
+	it('refuses an expired challenge', async () => {
+		const { provider, authenticator, registered, clock } = harness();
+		await registered();
+		const options = await provider.startAuthentication();
+		clock.advance(5 * 60_000);
+
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(options),
+		});
+
+		expect(result.ok).toBe(false);
+	});
+
+	it('refuses a credential other than the challenged subject’s', async () => {
+		const { provider, authenticator, registered } = harness();
+		await registered('u_1');
+		await registered('u_2');
+		const options = await provider.startAuthentication({ subject: 'u_2' });
+
+		// With no allow-list the authenticator answers with u_1's credential,
+		// which signs correctly but was not the one asked for.
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate({
+				...options,
+				allowCredentials: [],
+			}),
+		});
+
+		expect(result.ok).toBe(false);
+	});
+
+	it.each([
+		['a forged signature', { tamperSignature: true }],
+		['a key the server never saw', { foreignKey: true }],
+		['another origin', { origin: 'https://evil.test' }],
+		['registration client data', { type: 'webauthn.create' }],
+		['another RP ID', { rpId: 'evil.test' }],
+		['no user presence', { userPresent: false }],
+		['no user verification', { userVerified: false }],
+		['a swapped user handle', { userHandle: 'c29tZW9uZS1lbHNl' }],
+	] as const)('refuses an assertion with %s', async (_, overrides) => {
+		const { provider, authenticator, registered, store } = harness();
+		const credential = await registered();
+
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication(),
+				overrides
+			),
+		});
+
+		expect(result.ok).toBe(false);
+		expect(
+			(await store.findByCredentialId(credential.credentialId))?.signCount
+		).toBe(0);
+	});
+
+	it('refuses a credential that was removed', async () => {
+		const { provider, authenticator, registered } = harness();
+		const credential = await registered();
+
+		expect(
+			await provider.removeCredential('u_2', credential.credentialId)
+		).toBe(false);
+		expect(
+			await provider.removeCredential('u_1', credential.credentialId)
+		).toBe(true);
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication()
+			),
+		});
+
+		expect(result.ok).toBe(false);
+	});
+});
+
+describe('cloned authenticators', () => {
+	it('refuses a counter that went backwards and reports it', async () => {
+		const { provider, authenticator, registered, regressions } = harness();
+		const credential = await registered();
+
+		for (let attempt = 0; attempt < 3; attempt += 1) {
+			await provider.finishAuthentication({
+				response: authenticator.authenticate(
+					await provider.startAuthentication()
+				),
+			});
+		}
+
+		// A copy of the key, last used when the counter stood at 1.
+		authenticator.setSignCount(credential.credentialId, 1);
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication()
+			),
+		});
+
+		expect(result.ok).toBe(false);
+		expect(regressions).toEqual([
+			expect.objectContaining({
+				subject: 'u_1',
+				credentialId: credential.credentialId,
+				storedCount: 3,
+				presentedCount: 2,
+			}),
+		]);
+	});
+
+	it('refuses a counter that did not advance', async () => {
+		const { provider, authenticator, registered, regressions } = harness();
+		await registered();
+		await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication()
+			),
+		});
+
+		const result = await provider.finishAuthentication({
+			response: authenticator.authenticate(
+				await provider.startAuthentication(),
+				{ signCount: 1 }
+			),
+		});
+
+		expect(result.ok).toBe(false);
+		expect(regressions).toHaveLength(1);
+	});
+
+	it('lets one of two concurrent assertions at the same counter win', async () => {
+		const { provider, authenticator, registered } = harness();
+		const credential = await registered();
+		const first = authenticator.authenticate(
+			await provider.startAuthentication()
+		);
+		authenticator.setSignCount(credential.credentialId, 0);
+		const second = authenticator.authenticate(
+			await provider.startAuthentication()
+		);
+
+		const results = await Promise.all([
+			provider.finishAuthentication({ response: first }),
+			provider.finishAuthentication({ response: second }),
+		]);
+
+		expect(results.filter((result) => result.ok)).toHaveLength(1);
+	});
+});
+
+describe('parsing', () => {
+	it('round-trips CBOR and refuses trailing bytes', () => {
+		const value = new Map<never, never>([
+			['a', [1, -2, new Uint8Array([3])]] as never,
+		]);
+		const encoded = encodeCbor(value);
+
+		expect(decodeCbor(encoded)).toEqual(value);
+		expect(decodeCbor(Uint8Array.of(...encoded, 0))).toBeUndefined();
+	});
+
+	it('refuses duplicate map keys', () => {
+		// {1: 1, 1: 2}
+		expect(decodeCbor(Uint8Array.of(0xa2, 1, 1, 1, 2))).toBeUndefined();
+	});
+
+	it('refuses indefinite lengths and tags', () => {
+		expect(decodeCbor(Uint8Array.of(0x9f, 0xff))).toBeUndefined();
+		expect(decodeCbor(Uint8Array.of(0xc1, 0x00))).toBeUndefined();
+	});
+
+	it('refuses authenticator data claiming backup without eligibility', () => {
+		const bytes = new Uint8Array(37);
+		bytes[32] = 0x01 | 0x10;
+
+		expect(parseAuthenticatorData(bytes)).toBeUndefined();
+		expect(parseAuthenticatorData(bytes.subarray(0, 36))).toBeUndefined();
+	});
+});
+
+describe('configuration', () => {
+	const base = (): PasskeyProviderOptions => ({
+		store: createMemoryPasskeyStore(),
+		clock: createTestClock(),
+		rpId: 'example.com',
+		rpName: 'Example',
+		origins: [ORIGIN],
+	});
+
+	it('rejects an origin outside the RP ID', () => {
+		expect(() =>
+			createPasskeyProvider({ ...base(), origins: ['https://example.org'] })
+		).toThrow(/passkey\.rpId/);
+	});
+
+	it('rejects a plain-http origin other than localhost', () => {
+		expect(() =>
+			createPasskeyProvider({ ...base(), origins: ['http://example.com'] })
+		).toThrow(/passkey\.origins/);
+		expect(() =>
+			createPasskeyProvider({
+				...base(),
+				rpId: 'localhost',
+				origins: ['http://localhost:5173'],
+			})
+		).not.toThrow();
+	});
+
+	it('rejects an unbounded challenge lifetime', () => {
+		expect(() =>
+			createPasskeyProvider({ ...base(), challengeTtlMs: 60 * 60_000 })
+		).toThrow(/passkey\.challengeTtlMs/);
+	});
+});
+
+describe('browser helper', () => {
+	/** Stands in for `navigator.credentials`, backed by the software authenticator. */
+	const fakeCredentials = (
+		authenticator: ReturnType<typeof createSoftwareAuthenticator>
+	) => {
+		const text = (value: BufferSource | undefined): string =>
+			Buffer.from(value as ArrayBuffer).toString('base64url');
+		const bytes = (value: string): ArrayBuffer => {
+			const buffer = Buffer.from(value, 'base64url');
+			return buffer.buffer.slice(
+				buffer.byteOffset,
+				buffer.byteOffset + buffer.byteLength
+			);
+		};
+
+		const credentials: PasskeyCredentials = {
+			create: (options) => {
+				const publicKey = options.publicKey;
+				if (publicKey === undefined) return Promise.resolve(null);
+				const response = authenticator.register({
+					challenge: text(publicKey.challenge),
+					rp: { id: publicKey.rp.id ?? '', name: publicKey.rp.name },
+					user: {
+						id: text(publicKey.user.id),
+						name: publicKey.user.name,
+						displayName: publicKey.user.displayName,
+					},
+					pubKeyCredParams: publicKey.pubKeyCredParams.map((param) => ({
+						type: 'public-key',
+						alg: param.alg as -7,
+					})),
+					timeout: publicKey.timeout ?? 0,
+					excludeCredentials: (publicKey.excludeCredentials ?? []).map(
+						(entry) => ({ type: 'public-key', id: text(entry.id) })
+					),
+					authenticatorSelection: {
+						residentKey: 'required',
+						userVerification: 'required',
+					},
+					attestation: 'none',
+				});
+				return Promise.resolve({
+					id: response.id,
+					type: 'public-key',
+					rawId: bytes(response.rawId),
+					response: {
+						clientDataJSON: bytes(response.response.clientDataJSON),
+						attestationObject: bytes(response.response.attestationObject),
+						getTransports: () => ['internal'],
+					},
+				} as unknown as Credential);
+			},
+			get: (options) => {
+				const publicKey = options.publicKey;
+				if (publicKey === undefined) return Promise.resolve(null);
+				const response = authenticator.authenticate({
+					challenge: text(publicKey.challenge),
+					rpId: publicKey.rpId ?? '',
+					timeout: publicKey.timeout ?? 0,
+					allowCredentials: (publicKey.allowCredentials ?? []).map((entry) => ({
+						type: 'public-key',
+						id: text(entry.id),
+					})),
+					userVerification: 'required',
+				});
+				return Promise.resolve({
+					id: response.id,
+					type: 'public-key',
+					rawId: bytes(response.rawId),
+					response: {
+						clientDataJSON: bytes(response.response.clientDataJSON),
+						authenticatorData: bytes(response.response.authenticatorData),
+						signature: bytes(response.response.signature),
+						userHandle: bytes(response.response.userHandle ?? ''),
+					},
+				} as unknown as Credential);
+			},
+		};
+		return credentials;
+	};
+
+	it('runs both ceremonies through navigator.credentials shapes', async () => {
+		const { provider, authenticator } = harness();
+		const credentials = fakeCredentials(authenticator);
+
+		const registration = await createPasskey(
+			await provider.startRegistration({
+				subject: 'u_1',
+				userName: 'u_1@example.com',
+			}),
+			{ credentials }
+		);
+		expect(registration.response.transports).toEqual(['internal']);
+		expect(
+			(
+				await provider.finishRegistration({
+					subject: 'u_1',
+					response: registration,
+				})
+			).ok
+		).toBe(true);
+
+		const assertion = await getPasskey(
+			await provider.startAuthentication({ subject: 'u_1' }),
+			{ credentials }
+		);
+		const result = await provider.finishAuthentication({ response: assertion });
+
+		expect(result.ok).toBe(true);
+		if (result.ok) expect(result.subject).toBe('u_1');
+	});
+
+	it('rejects when the browser returns no credential', async () => {
+		const { provider } = harness();
+		const credentials: PasskeyCredentials = {
+			create: () => Promise.resolve(null),
+			get: () => Promise.resolve(null),
+		};
+
+		await expect(
+			getPasskey(await provider.startAuthentication(), { credentials })
+		).rejects.toThrow(/no public-key credential/);
+	});
+});
@@ -0,0 +1,421 @@
+import { describe, expect, it } from 'vitest';
+import { claim } from '../claims.js';
+import { createPasswordlessService } from '../server/passwordless.js';
+import { createSessionEngine } from '../server/session-engine.js';
+import { createTokenCodec } from '../server/token-codec.js';
+import {
+	createMemoryPasswordlessStore,
+	createMemoryRateLimiter,
+	createMemorySessionStore,
+	createTestClock,
+	createTestOutbox,
+} from '../testing/index.js';
+
+const shape = { role: claim.enum(['admin', 'member']) };
+
+const harness = (
+	options: { readonly limit?: number; readonly maxCodeAttempts?: number } = {}
+) => {
+	const clock = createTestClock();
+	const store = createMemoryPasswordlessStore();
+	const outbox = createTestOutbox();
+	const engine = createSessionEngine({
+		strategy: 'stateful',
+		claims: shape,
+		codec: createTokenCodec({ secrets: ['s'.repeat(32)] }),
+		clock,
+		store: createMemorySessionStore(clock),
+		idleTtlMs: 30 * 60_000,
+		absoluteTtlMs: 8 * 60 * 60_000,
+	});
+	const service = createPasswordlessService({
+		store,
+		engine,
+		limiter: createMemoryRateLimiter(
+			{ limit: options.limit ?? 100, windowMs: 60_000 },
+			clock
+		),
+		clock,
+		deliver: outbox.deliver,
+		resolveUser: (identifier) =>
+			Promise.resolve(
+				identifier === 'ada@example.com'
+					? { subject: 'u_1', claims: { role: 'member' as const } }
+					: undefined
+			),
+		linkUrl: 'https://app.example.com/auth/link',
+		...(options.maxCodeAttempts === undefined
+			? {}
+			: { maxCodeAttempts: options.maxCodeAttempts }),
+	});
+
+	/** A request carrying the cookies an issue response set. */
+	const browser = (setCookies: readonly string[]) =>
+		new Request('https://app.example.com/auth/link', {
+			headers: {
+				cookie: setCookies
+					.map((header) => header.split(';')[0] ?? '')
+					.join('; '),
+			},
+		});
+
+	const issue = async (
+		method: 'link' | 'code',
+		identifier = 'ada@example.com'
+	) => {
+		const issued = await service.issue({
+			identifier,
+			method,
+			clientIp: '203.0.113.1',
+		});
+		if (!issued.ok) throw new Error('issue refused');
+		return browser(issued.setCookies);
+	};
+
+	return { clock, store, outbox, engine, service, browser, issue };
+};
+
+describe('links', () => {
+	it('signs in from a link opened in the browser that asked for it', async () => {
+		const { service, outbox, engine, issue } = harness();
+		const request = await issue('link');
+		const message = outbox.latest('ada@example.com');
+		expect(message?.method).toBe('link');
+		if (message?.method !== 'link') return;
+		expect(message.url).toMatch(
+			/^https:\/\/app\.example\.com\/auth\/link\?token=[\w-]{43}$/
+		);
+
+		const result = await service.redeemLink({
+			token: outbox.latestLinkToken('ada@example.com') ?? '',
+			request,
+			clientIp: '203.0.113.1',
+		});
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.subject).toBe('u_1');
+		expect(result.session.amr).toEqual(['otp']);
+		expect(result.setCookies.join()).toContain('Max-Age=0');
+		expect((await engine.read(result.token)).ok).toBe(true);
+	});
+
+	it('refuses and spends a link opened in another browser', async () => {
+		const { service, outbox, issue } = harness();
+		const request = await issue('link');
+		const token = outbox.latestLinkToken('ada@example.com') ?? '';
+
+		const forwarded = await service.redeemLink({
+			token,
+			request: new Request('https://app.example.com/auth/link'),
+			clientIp: '198.51.100.7',
+		});
+		expect(forwarded.ok).toBe(false);
+		if (forwarded.ok) return;
+		expect(forwarded.error._tag).toBe('InvalidSignInLinkError');
+
+		const original = await service.redeemLink({
+			token,
+			request,
+			clientIp: '203.0.113.1',
+		});
+		expect(original.ok).toBe(false);
+	});
+
+	it('refuses a link carrying another request’s binding', async () => {
+		const { service, outbox, issue } = harness();
+		await issue('link', 'mallory@example.com');
+		const attacker = await issue('link', 'mallory@example.com');
+		await issue('link');
+
+		const result = await service.redeemLink({
+			token: outbox.latestLinkToken('ada@example.com') ?? '',
+			request: attacker,
+			clientIp: '198.51.100.7',
+		});
+
+		expect(result.ok).toBe(false);
+	});
+
+	it('refuses a replayed, replaced or expired link', async () => {
+		const { service, outbox, issue, clock } = harness();
+		const request = await issue('link');
+		const first = outbox.latestLinkToken('ada@example.com') ?? '';
+		const again = await issue('link');
+
+		expect(
+			(await service.redeemLink({ token: first, request, clientIp: 'ip' })).ok
+		).toBe(false);
+
+		const second = outbox.latestLinkToken('ada@example.com') ?? '';
+		clock.advance(10 * 60_000);
+		expect(
+			(
+				await service.redeemLink({
+					token: second,
+					request: again,
+					clientIp: 'ip',
+				})
+			).ok
+		).toBe(false);
+	});
+
+	it('fails the same way for an identifier with no account', async () => {
+		const { service, outbox, issue } = harness();
+		const request = await issue('link', 'nobody@example.com');
+		expect(outbox.messages()).toHaveLength(1);
+
+		const result = await service.redeemLink({
+			token: outbox.latestLinkToken('nobody@example.com') ?? '',
+			request,
+			clientIp: 'ip',
+		});
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('InvalidSignInLinkError');
+	});
+});
+
+describe('codes', () => {
+	it('signs in with the delivered code, ignoring identifier case', async () => {
+		const { service, outbox, issue } = harness();
+		const request = await issue('code', ' Ada@Example.com ');
+		const code = outbox.latestCode('ada@example.com') ?? '';
+		expect(code).toMatch(/^\d{6}$/);
+
+		const result = await service.redeemCode({
+			identifier: 'ADA@example.com',
+			code,
+			request,
+			clientIp: 'ip',
+		});
+
+		expect(result.ok).toBe(true);
+	});
+
+	it('discards the code after too many wrong guesses', async () => {
+		const { service, outbox, issue } = harness({ maxCodeAttempts: 3 });
+		const request = await issue('code');
+		const code = outbox.latestCode('ada@example.com') ?? '';
+		const wrong = code === '000000' ? '111111' : '000000';
+
+		for (let attempt = 0; attempt < 3; attempt += 1) {
+			const guess = await service.redeemCode({
+				identifier: 'ada@example.com',
+				code: wrong,
+				request,
+				clientIp: 'ip',
+			});
+			expect(guess.ok).toBe(false);
+			if (!guess.ok) expect(guess.error._tag).toBe('InvalidOtpError');
+		}
+
+		const late = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code,
+			request,
+			clientIp: 'ip',
+		});
+		expect(late.ok).toBe(false);
+	});
+
+	it('spends no attempt on a guess from a browser without the binding', async () => {
+		const { service, outbox, issue } = harness({ maxCodeAttempts: 1 });
+		const request = await issue('code');
+		const code = outbox.latestCode('ada@example.com') ?? '';
+
+		const elsewhere = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code: '123456',
+			request: new Request('https://app.example.com/'),
+			clientIp: 'ip',
+		});
+		expect(elsewhere.ok).toBe(false);
+
+		const result = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code,
+			request,
+			clientIp: 'ip',
+		});
+		expect(result.ok).toBe(true);
+	});
+
+	it('spends no attempt on a guess carrying another browser’s binding', async () => {
+		const { service, outbox, issue } = harness({ maxCodeAttempts: 1 });
+		const request = await issue('code');
+		const code = outbox.latestCode('ada@example.com') ?? '';
+		const forged = new Request('https://app.example.com/', {
+			headers: { cookie: 'effuse.passwordless=forged' },
+		});
+
+		for (const guess of ['123456', code]) {
+			const elsewhere = await service.redeemCode({
+				identifier: 'ada@example.com',
+				code: guess,
+				request: forged,
+				clientIp: 'ip',
+			});
+			expect(elsewhere.ok).toBe(false);
+		}
+
+		const result = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code,
+			request,
+			clientIp: 'ip',
+		});
+		expect(result.ok).toBe(true);
+	});
+
+	it('lets exactly one of several concurrent redemptions win', async () => {
+		const { service, outbox, issue } = harness();
+		const request = await issue('code');
+		const code = outbox.latestCode('ada@example.com') ?? '';
+
+		const results = await Promise.all(
+			Array.from({ length: 5 }, async () =>
+				service.redeemCode({
+					identifier: 'ada@example.com',
+					code,
+					request,
+					clientIp: 'ip',
+				})
+			)
+		);
+
+		expect(results.filter((result) => result.ok)).toHaveLength(1);
+	});
+});
+
+describe('sessions', () => {
+	it('rotates a session the same subject already holds', async () => {
+		const { service, outbox, engine, issue } = harness();
+		const existing = await engine.issue({
+			subject: 'u_1',
+			claims: { role: 'member' },
+		});
+		if (!existing.ok) return;
+		const request = await issue('code');
+
+		const result = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code: outbox.latestCode('ada@example.com') ?? '',
+			request,
+			clientIp: 'ip',
+			currentToken: existing.token,
+		});
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.session.createdAt).toBe(existing.session.createdAt);
+		expect(result.token).not.toBe(existing.token);
+	});
+
+	it('destroys a session belonging to someone else', async () => {
+		const { service, outbox, engine, issue, clock } = harness();
+		const other = await engine.issue({
+			subject: 'u_2',
+			claims: { role: 'admin' },
+		});
+		if (!other.ok) return;
+		const request = await issue('link');
+		clock.advance(1_000);
+
+		const result = await service.redeemLink({
+			token: outbox.latestLinkToken('ada@example.com') ?? '',
+			request,
+			clientIp: 'ip',
+			currentToken: other.token,
+		});
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.session.subject).toBe('u_1');
+		expect(result.session.createdAt).toBe(clock.now());
+		expect((await engine.read(other.token)).ok).toBe(false);
+	});
+});
+
+describe('rate limiting', () => {
+	it('throttles issuing per identifier', async () => {
+		const { service } = harness({ limit: 2 });
+		let address = 0;
+		const issue = () =>
+			service.issue({
+				identifier: 'ada@example.com',
+				method: 'link',
+				clientIp: `198.51.100.${String((address += 1))}`,
+			});
+
+		await issue();
+		await issue();
+		const limited = await issue();
+
+		expect(limited.ok).toBe(false);
+		if (limited.ok) return;
+		expect(limited.error.scope).toBe('passwordless:issue:identifier');
+	});
+
+	it('throttles code guessing per identifier across addresses', async () => {
+		const { service, issue } = harness({ limit: 3, maxCodeAttempts: 10 });
+		const request = await issue('code');
+
+		for (let attempt = 0; attempt < 3; attempt += 1) {
+			await service.redeemCode({
+				identifier: 'ada@example.com',
+				code: '000000',
+				request,
+				clientIp: `198.51.100.${String(attempt)}`,
+			});
+		}
+		const limited = await service.redeemCode({
+			identifier: 'ada@example.com',
+			code: '000000',
+			request,
+			clientIp: '198.51.100.99',
+		});
+
+		expect(limited.ok).toBe(false);
+		if (limited.ok) return;
+		expect(limited.error._tag).toBe('RateLimitedError');
+	});
+});
+
+describe('configuration', () => {
+	const base = () => ({
+		store: createMemoryPasswordlessStore(),
+		engine: createSessionEngine({
+			strategy: 'stateless' as const,
+			claims: shape,
+			codec: createTokenCodec({ secrets: ['s'.repeat(32)] }),
+			clock: createTestClock(),
+			idleTtlMs: 60_000,
+			absoluteTtlMs: 120_000,
+		}),
+		limiter: createMemoryRateLimiter({ limit: 5, windowMs: 60_000 }),
+		clock: createTestClock(),
+		deliver: () => undefined,
+		resolveUser: () => Promise.resolve(undefined),
+		linkUrl: 'https://app.example.com/auth/link',
+	});
+
+	it('rejects a plain-http link outside localhost', () => {
+		expect(() =>
+			createPasswordlessService({ ...base(), linkUrl: 'http://example.com/l' })
+		).toThrow(/passwordless\.linkUrl/);
+		expect(() =>
+			createPasswordlessService({
+				...base(),
+				linkUrl: 'http://localhost:3000/l',
+			})
+		).not.toThrow();
+	});
+
+	it('rejects an unbounded attempt budget', () => {
+		expect(() =>
+			createPasswordlessService({ ...base(), maxCodeAttempts: 100 })
+		).toThrow(/passwordless\.maxCodeAttempts/);
+	});
+});
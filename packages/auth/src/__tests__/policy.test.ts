@@ -9,8 +9,10 @@ import {
 	formatCoverageReport,
 } from '../server/policy/audit.js';
 import { createPolicyGuard } from '../server/policy/guard.js';
+import { createPolicyCache } from '../server/policy/cache.js';
 import type { Session } from '../server/session-engine.js';
 import type { SessionId } from '../contract.js';
+import { createMemoryRelationStore } from '../testing/index.js';
 
 const shape = {
 	role: claim.enum(['admin', 'editor', 'member']),
@@ -179,6 +181,76 @@ describe('composition', () => {
 	});
 });
 
+describe('step-up', () => {
+	let now = 1_000_000;
+	const stepUp = createPolicies<Shape>({ clock: { now: () => now } });
+
+	it('requires a verified second factor for mfa()', async () => {
+		expect(await stepUp.mfa().evaluate(context(sessionWith()))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+		expect(
+			await stepUp.mfa().evaluate(context({ ...sessionWith(), mfaAt: 500_000 }))
+		).toEqual({ allowed: true });
+		expect(await stepUp.mfa().evaluate(context(undefined))).toMatchObject({
+			allowed: false,
+			status: 401,
+		});
+	});
+
+	it('measures recentlyAuthenticated() from the last proof', async () => {
+		const policy = stepUp.recentlyAuthenticated(60_000);
+		const proved = { ...sessionWith(), authenticatedAt: 950_000 };
+
+		expect(await policy.evaluate(context(proved))).toEqual({ allowed: true });
+
+		now = 1_010_001;
+		expect(await policy.evaluate(context(proved))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+		expect(await policy.evaluate(context(undefined))).toMatchObject({
+			allowed: false,
+			status: 401,
+		});
+	});
+
+	it('falls back to creation time for sessions without one', async () => {
+		now = 30_000;
+		const policy = stepUp.recentlyAuthenticated(60_000);
+
+		expect(await policy.evaluate(context(sessionWith()))).toEqual({
+			allowed: true,
+		});
+	});
+
+	it('denies an API key however recently it was issued', async () => {
+		now = 30_000;
+		const policy = stepUp.all(
+			stepUp.scope('reports:read'),
+			stepUp.recentlyAuthenticated(60_000)
+		);
+		const keyed: Session<Shape> = {
+			...sessionWith(),
+			createdAt: now,
+			authenticatedAt: now,
+			apiKey: { id: 'k1', scopes: ['reports:read'] },
+		};
+
+		expect(await policy.evaluate(context(keyed))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+	});
+
+	it('rejects a non-positive age at construction', () => {
+		expect(() => stepUp.recentlyAuthenticated(0)).toThrow(
+			/policies\.recentlyAuthenticated/
+		);
+	});
+});
+
 describe('custom predicates', () => {
 	it('permits when the predicate holds', async () => {
 		const policy = p.custom(
@@ -211,6 +283,216 @@ describe('custom predicates', () => {
 	});
 });
 
+describe('api key scopes', () => {
+	const keyed = (scopes: readonly string[]): Session<Shape> => ({
+		...sessionWith({ role: 'admin' }),
+		apiKey: { id: 'k1', scopes },
+	});
+
+	it('holds a key to its scopes and lets a browser session through', async () => {
+		const policy = p.scope('reports:read');
+
+		expect((await policy.evaluate(context(keyed(['reports:read'])))).allowed).toBe(true);
+		expect((await policy.evaluate(context(sessionWith()))).allowed).toBe(true);
+
+		const missing = await policy.evaluate(context(keyed(['reports:write'])));
+		expect(missing).toMatchObject({ allowed: false, status: 403 });
+		expect(await policy.evaluate(context(undefined))).toMatchObject({
+			allowed: false,
+			status: 401,
+		});
+	});
+
+	it('admits keys only where a scoped member does', () => {
+		expect(p.scope('reports:read').acceptsApiKeys).toBe(true);
+		expect(p.authenticated().acceptsApiKeys).toBeUndefined();
+		expect(p.all(p.authenticated(), p.scope('reports:read')).acceptsApiKeys).toBe(true);
+		// Otherwise a public member would open its guarded neighbours to any key.
+		expect(p.all(p.public(), p.authenticated()).acceptsApiKeys).toBe(false);
+		expect(p.not(p.scope('reports:read')).acceptsApiKeys).toBeUndefined();
+	});
+
+	it('offers a key only the alternatives that accept keys', async () => {
+		// The owner is an admin, but the key was not granted admin scope.
+		const policy = p.any(p.claim('role', 'admin'), p.scope('reports:read'));
+
+		expect((await policy.evaluate(context(keyed([])))).allowed).toBe(false);
+		expect((await policy.evaluate(context(keyed(['reports:read'])))).allowed).toBe(true);
+		expect((await policy.evaluate(context(sessionWith({ role: 'admin' })))).allowed).toBe(true);
+	});
+
+	it('rejects a malformed scope at build time', () => {
+		expect(() => p.scope('reports read')).toThrow(/policies\.scope/);
+	});
+});
+
+describe('resource policies', () => {
+	interface Doc {
+		readonly id: string;
+		readonly ownerId: string;
+		readonly locked: boolean;
+	}
+
+	const docs = new Map<string, Doc>([
+		['d1', { id: 'd1', ownerId: 'u_1', locked: false }],
+		['d2', { id: 'd2', ownerId: 'u_2', locked: false }],
+	]);
+
+	const loadDoc = (params: { readonly id?: string }) =>
+		params.id === undefined ? undefined : docs.get(params.id);
+	const isOwner = (doc: Doc, ctx: { readonly session: Session<Shape> }) =>
+		doc.ownerId === ctx.session.subject;
+
+	it('decides against the loaded resource', async () => {
+		const policy = p.resource(loadDoc, isOwner);
+
+		expect((await policy.evaluate(context(sessionWith(), { params: { id: 'd1' } }))).allowed).toBe(true);
+		expect(await policy.evaluate(context(sessionWith(), { params: { id: 'd2' } }))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+	});
+
+	it('answers a missing resource exactly as it answers a foreign one', async () => {
+		// Otherwise a 404 against a 403 would enumerate which ids exist.
+		const policy = p.resource(loadDoc, isOwner);
+
+		expect(await policy.evaluate(context(sessionWith(), { params: { id: 'nope' } }))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+		expect(await policy.evaluate(context(undefined, { params: { id: 'd1' } }))).toMatchObject({
+			allowed: false,
+			status: 401,
+		});
+	});
+
+	it('denies when the loader throws', async () => {
+		const policy = p.resource(
+			() => Promise.reject(new Error('database down')),
+			() => true,
+			{ name: 'doc' }
+		);
+
+		const decision = await policy.evaluate(context(sessionWith(), { params: { id: 'd1' } }));
+		expect(decision).toMatchObject({ allowed: false, status: 403 });
+		expect(policy.name).toBe('resource:doc');
+	});
+
+	it('types params from the route pattern', () => {
+		p.resource<Doc, '/teams/:team/docs/:id'>(
+			(params) => {
+				expectTypeOf(params).toEqualTypeOf<{
+					readonly team: string;
+					readonly id: string;
+				}>();
+				return docs.get(params.id);
+			},
+			() => true
+		);
+	});
+
+	it('loads once and decides once per request', async () => {
+		let loads = 0;
+		const countingLoad = (params: { readonly id?: string }) => {
+			loads += 1;
+			return loadDoc(params);
+		};
+		const owned = p.resource(countingLoad, isOwner);
+		const unlocked = p.resource(countingLoad, (doc) => !doc.locked);
+		const policy = p.all(owned, unlocked, p.any(owned, p.claim('role', 'admin')));
+
+		const cache = createPolicyCache();
+		const ctx = context(sessionWith(), { params: { id: 'd1' }, cache });
+		expect((await policy.evaluate(ctx)).allowed).toBe(true);
+		expect((await policy.evaluate(ctx)).allowed).toBe(true);
+		expect(loads).toBe(1);
+
+		// A fresh request starts cold: nothing leaks between requests.
+		await policy.evaluate(context(sessionWith(), { params: { id: 'd1' }, cache: createPolicyCache() }));
+		expect(loads).toBe(2);
+	});
+
+	it('marks compositions that check a resource', () => {
+		const owned = p.resource(loadDoc, isOwner);
+
+		expect(owned.checksResource).toBe(true);
+		expect(p.all(p.authenticated(), owned).checksResource).toBe(true);
+		expect(p.any(p.claim('role', 'admin'), owned).checksResource).toBe(true);
+		expect(p.not(owned).checksResource).toBe(true);
+		expect(p.authenticated().checksResource).toBeUndefined();
+	});
+});
+
+describe('relationship policies', () => {
+	const setup = () => {
+		const relations = createMemoryRelationStore([
+			{ subject: 'u_1', relation: 'editor', objectType: 'doc', objectId: 'd1' },
+			{ subject: 'u_1', relation: 'viewer', objectType: 'doc', objectId: 'd2' },
+		]);
+		return { relations, policies: createPolicies<Shape>({ relations }) };
+	};
+
+	it('requires the relation on the addressed object', async () => {
+		const { policies } = setup();
+		const policy = policies.relation('editor', 'doc', (params) => params.id);
+
+		expect((await policy.evaluate(context(sessionWith(), { params: { id: 'd1' } }))).allowed).toBe(true);
+		expect(await policy.evaluate(context(sessionWith(), { params: { id: 'd2' } }))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+		expect(await policy.evaluate(context(undefined, { params: { id: 'd1' } }))).toMatchObject({
+			allowed: false,
+			status: 401,
+		});
+		expect(policy.name).toBe('relation:editor@doc:<param>');
+	});
+
+	it('accepts any of several relations', async () => {
+		const { policies } = setup();
+		const policy = policies.relation(['editor', 'viewer'], 'doc', (params) => params.id);
+
+		expect((await policy.evaluate(context(sessionWith(), { params: { id: 'd2' } }))).allowed).toBe(true);
+	});
+
+	it('denies a route that supplies no object id', async () => {
+		const { policies } = setup();
+		const policy = policies.relation('editor', 'doc', (params) => params.id);
+
+		expect(await policy.evaluate(context(sessionWith()))).toMatchObject({
+			allowed: false,
+			status: 403,
+		});
+	});
+
+	it('sees a revoked grant on the next request', async () => {
+		const { policies, relations } = setup();
+		const policy = policies.relation('editor', 'doc', 'd1');
+
+		expect((await policy.evaluate(context(sessionWith(), { cache: createPolicyCache() }))).allowed).toBe(true);
+		await relations.delete({ subject: 'u_1', relation: 'editor', objectType: 'doc', objectId: 'd1' });
+		expect((await policy.evaluate(context(sessionWith(), { cache: createPolicyCache() }))).allowed).toBe(false);
+	});
+
+	it('denies when the store fails', async () => {
+		const policies = createPolicies<Shape>({
+			relations: {
+				...createMemoryRelationStore(),
+				check: () => Promise.reject(new Error('store down')),
+			},
+		});
+
+		const decision = await policies.relation('editor', 'doc', 'd1').evaluate(context(sessionWith()));
+		expect(decision).toMatchObject({ allowed: false, status: 403 });
+	});
+
+	it('refuses to build without a store or a relation', () => {
+		expect(() => p.relation('editor', 'doc', 'd1')).toThrow(/policies\.relations/);
+		expect(() => setup().policies.relation([], 'doc', 'd1')).toThrow(/policies\.relation\b/);
+	});
+});
+
 describe('registry matching', () => {
 	it('matches an exact path', () => {
 		const registry = createPolicyRegistry<Shape>().protect({
@@ -245,6 +527,22 @@ describe('registry matching', () => {
 		expect(registry.resolve('/users/42/posts', 'GET').policy).toBeUndefined();
 	});
 
+	it('captures decoded parameters from every matched pattern', () => {
+		const registry = createPolicyRegistry<Shape>()
+			.protect({ path: '/teams/:team/*', policy: p.authenticated() })
+			.protect({ path: '/teams/:team/docs/:id', policy: p.authenticated() });
+
+		expect(registry.resolve('/teams/core/docs/a%20b', 'GET').params).toEqual({
+			team: 'core',
+			id: 'a b',
+		});
+		expect(registry.resolve('/teams/core/docs/%E0%A4%A', 'GET').params).toEqual({
+			team: 'core',
+			id: '%E0%A4%A',
+		});
+		expect(registry.resolve('/elsewhere', 'GET').params).toEqual({});
+	});
+
 	it('applies to every method when none are declared', () => {
 		// Guarding only the methods someone remembered to list is how a route ends
 		// up with a protected GET and an open POST.
@@ -427,6 +725,41 @@ describe('coverage audit', () => {
 
 		expect(entry?.rules).toEqual(['authenticated', 'claim:role=admin']);
 	});
+
+	it('reports which routes API keys can reach', () => {
+		const registry = createPolicyRegistry<Shape>()
+			.protect({ path: '/api/*', policy: p.authenticated() })
+			.protect({ path: '/api/profile', policy: p.scope('profile:read') })
+			.protect({ path: '/health', policy: p.public() });
+
+		const report = auditPolicyCoverage(manifest, registry);
+
+		expect(report.apiKeyEntries.map((entry) => `${entry.method} ${entry.path}`)).toEqual([
+			'GET /api/profile',
+		]);
+		expect(report.totals.apiKey).toBe(1);
+		expect(formatCoverageReport(report)).toContain('1 reachable by API keys');
+	});
+
+	it('lists the routes that check the resource addressed', () => {
+		const relations = createMemoryRelationStore();
+		const policies = createPolicies<Shape>({ relations });
+		const registry = createPolicyRegistry<Shape>()
+			.protect({ path: '/api/*', policy: p.authenticated() })
+			.protect({
+				path: '/api/admin/users',
+				methods: ['POST'],
+				policy: policies.relation('admin', 'tenant', 'root'),
+			});
+
+		const report = auditPolicyCoverage(manifest, registry);
+
+		expect(report.resourceEntries.map((entry) => `${entry.method} ${entry.path}`)).toEqual([
+			'POST /api/admin/users',
+		]);
+		expect(report.totals.resource).toBe(1);
+		expect(formatCoverageReport(report)).toContain('1 resource-guarded');
+	});
 });
 
 describe('deny by default', () => {
@@ -634,6 +967,43 @@ describe('the request guard', () => {
 		expect((await guard.check(request('/anything'))).allowed).toBe(false);
 	});
 
+	it('hands policies the route params and loads each resource once', async () => {
+		let loads = 0;
+		const load = ({ id }: { readonly id: string }) => {
+			loads += 1;
+			return { id, ownerId: id === 'mine' ? 'u_1' : 'u_2' };
+		};
+		const registry = createPolicyRegistry<Shape>()
+			.protect({
+				path: '/docs/:id',
+				policy: p.resource<{ readonly ownerId: string }, '/docs/:id'>(
+					load,
+					(doc, ctx) => doc.ownerId === ctx.session.subject
+				),
+			})
+			.protect({
+				path: '/docs/:id',
+				methods: ['DELETE'],
+				policy: p.resource<{ readonly ownerId: string }, '/docs/:id'>(
+					load,
+					(doc) => doc.ownerId !== ''
+				),
+			});
+		const guard = createPolicyGuard<Shape>({
+			registry,
+			resolveSession: () => Promise.resolve({ session: sessionWith() }),
+		});
+
+		expect((await guard.check(request('/docs/mine', 'DELETE'))).allowed).toBe(true);
+		expect(loads).toBe(1);
+
+		const foreign = await guard.check(request('/docs/theirs'));
+		expect(foreign.allowed).toBe(false);
+		if (foreign.allowed) return;
+		expect(foreign.status).toBe(403);
+		expect(loads).toBe(2);
+	});
+
 	it('evaluates internal and external callers identically', async () => {
 		// Confused deputy: an internal caller must not reach a resource the
 		// external path guards. There is no "trusted" flag to set.
@@ -46,6 +46,7 @@ describe('backend failures', () => {
 		write: () => Promise.reject(new Error(message)),
 		destroy: () => Promise.reject(new Error(message)),
 		destroyForSubject: () => Promise.reject(new Error(message)),
+		listForSubject: () => Promise.reject(new Error(message)),
 		acquireLock: () => Promise.reject(new Error(message)),
 	});
 
@@ -119,6 +120,21 @@ describe('backend failures', () => {
 		await expect(broken.destroy(issued.token)).resolves.toBe(false);
 		await expect(broken.destroyForSubject('u_1')).resolves.toBe(0);
 	});
+
+	it('reports a store failure on listing rather than an empty device list', async () => {
+		// "No other devices" is a security claim. Saying it because the store was
+		// unreachable would tell a user their account is clean when it may not be.
+		const engine = engineOver(failing('ECONNRESET'), createTestClock());
+
+		const result = await engine.list('u_1');
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('StoreError');
+		await expect(engine.destroyOne('u_1', 'sid' as SessionId)).resolves.toBe(
+			false
+		);
+	});
 });
 
 describe('corrupted store records', () => {
@@ -129,6 +145,7 @@ describe('corrupted store records', () => {
 		write: () => Promise.resolve(),
 		destroy: () => Promise.resolve(),
 		destroyForSubject: () => Promise.resolve(0),
+		listForSubject: () => Promise.resolve([record as StoredSession]),
 		acquireLock: () => Promise.resolve(undefined),
 	});
 
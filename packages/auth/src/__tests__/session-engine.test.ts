@@ -205,6 +205,93 @@ describe.each<SessionStrategy>(['stateless', 'stateful'])(
 			});
 		});
 
+		describe('step-up', () => {
+			it('records the sign-in methods and when they were proved', async () => {
+				const issued = await engine.issue({
+					subject: 'u_1',
+					claims: { role: 'admin', email: 'a@example.com' },
+					amr: ['pwd'],
+				});
+				expect(issued.ok).toBe(true);
+				if (!issued.ok) return;
+
+				const read = await engine.read(issued.token);
+				expect(read.ok).toBe(true);
+				if (!read.ok) return;
+				expect(read.session.amr).toEqual(['pwd']);
+				expect(read.session.authenticatedAt).toBe(clock.now());
+				expect(read.session.mfaAt).toBeUndefined();
+			});
+
+			it('records a sign-in that proved both factors at once', async () => {
+				const issued = await engine.issue({
+					subject: 'u_1',
+					claims: { role: 'admin', email: 'a@example.com' },
+					authenticated: { method: 'hwk', secondFactor: true },
+				});
+				expect(issued.ok).toBe(true);
+				if (!issued.ok) return;
+
+				const read = await engine.read(issued.token);
+				expect(read.ok).toBe(true);
+				if (!read.ok) return;
+				expect(read.session.amr).toEqual(['hwk', 'mfa']);
+				expect(read.session.mfaAt).toBe(clock.now());
+			});
+
+			it('records a second factor on rotation and carries it forward', async () => {
+				const issued = await engine.issue({
+					subject: 'u_1',
+					claims: { role: 'admin', email: 'a@example.com' },
+					amr: ['pwd'],
+				});
+				if (!issued.ok) return;
+
+				clock.advance(60_000);
+				const stepped = await engine.rotate(issued.token, {
+					authenticated: { method: 'otp', secondFactor: true },
+				});
+				expect(stepped.ok).toBe(true);
+				if (!stepped.ok) return;
+				expect(stepped.session.amr).toEqual(['pwd', 'otp', 'mfa']);
+				expect(stepped.session.mfaAt).toBe(clock.now());
+				expect(stepped.session.authenticatedAt).toBe(clock.now());
+
+				const steppedAt = clock.now();
+				clock.advance(60_000);
+				const rotated = await engine.rotate(stepped.token);
+				if (!rotated.ok) return;
+				const read = await engine.read(rotated.token);
+
+				expect(read.ok).toBe(true);
+				if (!read.ok) return;
+				// A plain rotation is not a new proof, so neither timestamp moves.
+				expect(read.session.amr).toEqual(['pwd', 'otp', 'mfa']);
+				expect(read.session.mfaAt).toBe(steppedAt);
+				expect(read.session.authenticatedAt).toBe(steppedAt);
+			});
+
+			it('refreshes authentication time without claiming a second factor', async () => {
+				const issued = await engine.issue({
+					subject: 'u_1',
+					claims: { role: 'admin', email: 'a@example.com' },
+					amr: ['pwd'],
+				});
+				if (!issued.ok) return;
+
+				clock.advance(60_000);
+				const reauthenticated = await engine.rotate(issued.token, {
+					authenticated: { method: 'pwd' },
+				});
+
+				expect(reauthenticated.ok).toBe(true);
+				if (!reauthenticated.ok) return;
+				expect(reauthenticated.session.amr).toEqual(['pwd']);
+				expect(reauthenticated.session.authenticatedAt).toBe(clock.now());
+				expect(reauthenticated.session.mfaAt).toBeUndefined();
+			});
+		});
+
 		describe('rotation races', () => {
 			it('resolves the superseded token to the successor inside the overlap window', async () => {
 				// A request already in flight when rotation happens must not be signed
@@ -298,6 +385,94 @@ describe.each<SessionStrategy>(['stateless', 'stateful'])(
 				expect((await engine.read(theirs.token)).ok).toBe(true);
 			});
 		});
+
+		describe('signed-in devices', () => {
+			const issueFrom = (userAgent: string) =>
+				engine.issue({
+					subject: 'u_1',
+					claims: { role: 'admin', email: 'a@example.com' },
+					device: { userAgent, ipAddress: '203.0.113.7' },
+				});
+
+			it('lists live sessions with their device, most recent first', async () => {
+				await issueFrom('Firefox');
+				clock.advance(1_000);
+				const phone = await issueFrom('Safari on iPhone');
+
+				const listed = await engine.list('u_1');
+
+				expect(listed.ok).toBe(true);
+				if (!listed.ok) return;
+				expect(listed.sessions.map((entry) => entry.userAgent)).toEqual([
+					'Safari on iPhone',
+					'Firefox',
+				]);
+				expect(listed.sessions[0]?.id).toBe(phone.session.id);
+				expect(listed.sessions[0]?.ipAddress).toBe('203.0.113.7');
+			});
+
+			it('lists a rotated session once, keeping its device', async () => {
+				const { token } = await issueFrom('Firefox');
+				const rotated = await engine.rotate(token);
+
+				const listed = await engine.list('u_1');
+
+				expect(listed.ok).toBe(true);
+				if (!listed.ok || !rotated.ok) return;
+				expect(listed.sessions.map((entry) => entry.id)).toEqual([
+					rotated.session.id,
+				]);
+				expect(listed.sessions[0]?.userAgent).toBe('Firefox');
+			});
+
+			it('records the device a rotation names', async () => {
+				const { token } = await issueFrom('Firefox');
+				await engine.rotate(token, { device: { userAgent: 'Firefox 2' } });
+
+				const listed = await engine.list('u_1');
+
+				expect(listed.ok && listed.sessions[0]?.userAgent).toBe('Firefox 2');
+			});
+
+			it('leaves out sessions that have expired', async () => {
+				await issueFrom('Firefox');
+				clock.advance(IDLE_TTL + 1);
+
+				const listed = await engine.list('u_1');
+
+				expect(listed.ok && listed.sessions).toEqual([]);
+			});
+
+			it('ends one session and leaves the others', async () => {
+				const laptop = await issueFrom('Firefox');
+				const phone = await issueFrom('Safari on iPhone');
+
+				expect(await engine.destroyOne('u_1', phone.session.id)).toBe(true);
+
+				expect((await engine.read(phone.token)).ok).toBe(false);
+				expect((await engine.read(laptop.token)).ok).toBe(true);
+			});
+
+			it("refuses to end another subject's session", async () => {
+				// The id comes from the client. Without the subject check, a devices
+				// page is a way to sign out anyone whose session id leaks.
+				const theirs = await engine.issue({
+					subject: 'u_2',
+					claims: { role: 'member', email: 'b@example.com' },
+				});
+
+				expect(await engine.destroyOne('u_1', theirs.session.id)).toBe(false);
+				expect((await engine.read(theirs.token)).ok).toBe(true);
+			});
+
+			it('bounds a client-supplied user agent', async () => {
+				await issueFrom('x'.repeat(10_000));
+
+				const listed = await engine.list('u_1');
+
+				expect(listed.ok && listed.sessions[0]?.userAgent?.length).toBe(512);
+			});
+		});
 	}
 );
 
@@ -368,4 +543,15 @@ describe('stateless without a store', () => {
 		expect(engine.supportsRevocation).toBe(false);
 		await expect(engine.destroy(token)).resolves.toBe(false);
 	});
+
+	it('lists no devices, having recorded none', async () => {
+		const engine = engineFor(createTestClock());
+		const { session } = await engine.issue({
+			subject: 'u_1',
+			claims: { role: 'admin', email: 'a@example.com' },
+		});
+
+		expect(await engine.list('u_1')).toEqual({ ok: true, sessions: [] });
+		await expect(engine.destroyOne('u_1', session.id)).resolves.toBe(false);
+	});
 });
@@ -0,0 +1,335 @@
+import { describe, expect, it } from 'vitest';
+import {
+	createLeaderElection,
+	createMemoryTransportHub,
+	type LeaderElection,
+} from '@effuse/core';
+import type { ClaimsShape } from '../claims.js';
+import {
+	createSessionClient,
+	parseSessionPayload,
+	type ClientSession,
+	type SessionClientOptions,
+} from '../client/index.js';
+
+const START = 1_700_000_000_000;
+
+/** Timers that only fire when the test moves time. */
+const createScheduler = () => {
+	let time = START;
+	let timers: { at: number; fn: () => void }[] = [];
+
+	return {
+		now: () => time,
+		schedule: (fn: () => void, ms: number) => {
+			const timer = { at: time + ms, fn };
+			timers.push(timer);
+			return () => {
+				timers = timers.filter((candidate) => candidate !== timer);
+			};
+		},
+		/** Advances time, firing due timers in order and settling their promises. */
+		advance: async (ms: number) => {
+			const until = time + ms;
+			for (;;) {
+				const due = timers
+					.filter((timer) => timer.at <= until)
+					.sort((a, b) => a.at - b.at)[0];
+				if (due === undefined) break;
+				timers = timers.filter((timer) => timer !== due);
+				time = due.at;
+				due.fn();
+				await Promise.resolve();
+				await Promise.resolve();
+			}
+			time = until;
+			await Promise.resolve();
+		},
+	};
+};
+
+const signedIn = (
+	expiresAt: number,
+	role = 'member'
+): ClientSession<ClaimsShape> => ({
+	status: 'authenticated',
+	claims: { role } as never,
+	expiresAt,
+});
+
+const anonymous: ClientSession<ClaimsShape> = {
+	status: 'anonymous',
+	claims: undefined,
+	expiresAt: undefined,
+};
+
+/** Opens `count` tabs on one channel, each with its own leader election. */
+const openTabs = (
+	count: number,
+	options: Omit<SessionClientOptions<ClaimsShape>, 'transport' | 'leader'> = {},
+	initial?: ClientSession<ClaimsShape>
+) => {
+	const hub = createMemoryTransportHub();
+	const scheduler = createScheduler();
+	const elections: LeaderElection[] = [];
+
+	const tabs = Array.from({ length: count }, () => {
+		const transport = hub.connect();
+		const leader = createLeaderElection({
+			name: 'auth-refresh',
+			transport,
+			preferHeartbeat: true,
+			now: scheduler.now,
+			schedule: scheduler.schedule,
+		});
+		elections.push(leader);
+		return createSessionClient(initial, {
+			transport,
+			leader,
+			now: scheduler.now,
+			schedule: scheduler.schedule,
+			...options,
+		});
+	});
+
+	return { hub, scheduler, elections, tabs };
+};
+
+describe('cross-tab publishing', () => {
+	it('signs out every tab when one signs out', () => {
+		const { tabs } = openTabs(3, {}, signedIn(1e15));
+		const seen: string[] = [];
+		for (const tab of tabs) {
+			tab.subscribe((session) => seen.push(session.status));
+		}
+
+		tabs[0]?.clear();
+
+		expect(tabs.map((tab) => tab.current().status)).toEqual([
+			'anonymous',
+			'anonymous',
+			'anonymous',
+		]);
+		expect(seen).toEqual(['anonymous', 'anonymous', 'anonymous']);
+	});
+
+	it('carries a sign-in, claims and expiry included', () => {
+		const { tabs } = openTabs(2);
+		const session = signedIn(START + 10 * 60_000, 'admin');
+
+		tabs[1]?.publish(session);
+
+		expect(tabs[0]?.current()).toEqual(session);
+	});
+
+	it('reads a malformed message as signed out rather than throwing', () => {
+		const hub = createMemoryTransportHub();
+		const tab = createSessionClient(signedIn(1e15), {
+			transport: hub.connect(),
+		});
+
+		hub.connect().post({ type: 'effuse.auth.session', session: 'garbage' });
+
+		expect(tab.current().status).toBe('anonymous');
+	});
+
+	it('stops listening once disposed', () => {
+		const { tabs } = openTabs(2, {}, signedIn(1e15));
+
+		tabs[1]?.dispose();
+		tabs[0]?.clear();
+
+		expect(tabs[1]?.current().status).toBe('authenticated');
+	});
+});
+
+describe('leader-only refresh', () => {
+	it('refreshes once, ahead of expiry, and shares the result', async () => {
+		const expiresAt = START + 10 * 60_000;
+		let calls = 0;
+		const refresh = () => {
+			calls += 1;
+			return Promise.resolve(signedIn(expiresAt + 10 * 60_000));
+		};
+		const { tabs, elections, scheduler } = openTabs(
+			3,
+			{ refresh },
+			signedIn(expiresAt)
+		);
+		// Elect a leader: one heartbeat to notice the vacancy, one to claim it.
+		await scheduler.advance(2_000);
+		expect(elections.filter((election) => election.isLeader)).toHaveLength(1);
+
+		await scheduler.advance(10 * 60_000 - 60_000 - 2_000 - 1);
+		expect(calls).toBe(0);
+
+		await scheduler.advance(1);
+
+		expect(calls).toBe(1);
+		expect(tabs.map((tab) => tab.current().expiresAt)).toEqual([
+			expiresAt + 10 * 60_000,
+			expiresAt + 10 * 60_000,
+			expiresAt + 10 * 60_000,
+		]);
+	});
+
+	it('hands refreshing to the next leader when the first one leaves', async () => {
+		let calls = 0;
+		const { tabs, elections, scheduler } = openTabs(
+			2,
+			{
+				refresh: () => {
+					calls += 1;
+					return Promise.resolve(signedIn(scheduler.now() + 10 * 60_000));
+				},
+			},
+			signedIn(START + 30 * 60_000)
+		);
+		await scheduler.advance(2_000);
+		const first = elections.findIndex((election) => election.isLeader);
+
+		tabs[first]?.dispose();
+		elections[first]?.dispose();
+		await scheduler.advance(30 * 60_000);
+
+		expect(elections[1 - first]?.isLeader).toBe(true);
+		expect(calls).toBeGreaterThan(0);
+		expect(tabs[1 - first]?.current().status).toBe('authenticated');
+	});
+
+	it('never lets a refresh in flight undo a sign-out', async () => {
+		let resolve: ((session: ClientSession<ClaimsShape>) => void) | undefined;
+		const { tabs, scheduler } = openTabs(
+			2,
+			{
+				refresh: () =>
+					new Promise((done) => {
+						resolve = done;
+					}),
+			},
+			signedIn(START + 5 * 60_000)
+		);
+		await scheduler.advance(4 * 60_000);
+
+		// The refresh is out; a tab signs out before it answers.
+		expect(resolve).toBeDefined();
+		tabs[0]?.clear();
+		resolve?.(signedIn(START + 15 * 60_000));
+		await scheduler.advance(0);
+
+		expect(tabs.map((tab) => tab.current().status)).toEqual([
+			'anonymous',
+			'anonymous',
+		]);
+	});
+
+	it('stops refreshing once a refresh no longer moves the expiry', async () => {
+		const expiresAt = START + 5 * 60_000;
+		let calls = 0;
+		const { scheduler } = openTabs(
+			1,
+			{
+				refresh: () => {
+					calls += 1;
+					// Fails past a few calls, so a refresh loop ends instead of hanging.
+					return calls > 3
+						? Promise.reject(new Error('refreshed in a loop'))
+						: Promise.resolve(signedIn(expiresAt));
+				},
+			},
+			signedIn(expiresAt)
+		);
+
+		await scheduler.advance(10 * 60_000);
+
+		expect(calls).toBe(1);
+	});
+
+	it('waits out an expiry beyond what one timer can hold', async () => {
+		const day = 24 * 60 * 60_000;
+		const scheduler = createScheduler();
+		const delays: number[] = [];
+		let calls = 0;
+		createSessionClient(signedIn(START + 30 * day), {
+			refresh: () => {
+				calls += 1;
+				return Promise.resolve(signedIn(scheduler.now() + 30 * day));
+			},
+			now: scheduler.now,
+			schedule: (fn, ms) => {
+				delays.push(ms);
+				return scheduler.schedule(fn, ms);
+			},
+		});
+
+		await scheduler.advance(29 * day);
+		expect(calls).toBe(0);
+
+		await scheduler.advance(day);
+		expect(calls).toBe(1);
+		expect(Math.max(...delays)).toBeLessThanOrEqual(2_147_483_647);
+	});
+
+	it('retries a failed refresh until the session expires', async () => {
+		let calls = 0;
+		const { scheduler } = openTabs(
+			1,
+			{
+				refresh: () => {
+					calls += 1;
+					return Promise.reject(new Error('offline'));
+				},
+				retryMs: 20_000,
+			},
+			signedIn(START + 5 * 60_000)
+		);
+
+		await scheduler.advance(10 * 60_000);
+
+		// At 4:00, 4:20, and 4:40; a retry at 5:00 would be past expiry.
+		expect(calls).toBe(3);
+	});
+
+	it('refreshes in every tab when no leader is given', async () => {
+		const hub = createMemoryTransportHub();
+		const scheduler = createScheduler();
+		let calls = 0;
+		const options = {
+			transport: hub.connect(),
+			refresh: () => {
+				calls += 1;
+				return Promise.resolve(
+					parseSessionPayload({
+						status: 'authenticated',
+						expiresAt: scheduler.now() + 60 * 60_000,
+					})
+				);
+			},
+			now: scheduler.now,
+			schedule: scheduler.schedule,
+		};
+		createSessionClient(signedIn(scheduler.now() + 2 * 60_000), options);
+
+		await scheduler.advance(60_000);
+
+		expect(calls).toBe(1);
+	});
+
+	it('does nothing for a signed-out tab', async () => {
+		let calls = 0;
+		const { scheduler } = openTabs(
+			2,
+			{
+				refresh: () => {
+					calls += 1;
+					return Promise.resolve(anonymous);
+				},
+			},
+			anonymous
+		);
+
+		await scheduler.advance(60 * 60_000);
+
+		expect(calls).toBe(0);
+	});
+});
@@ -0,0 +1,303 @@
+import { describe, expect, it } from 'vitest';
+import {
+	DEFAULT_RECOVERY_CODE_COUNT,
+	createTotpService,
+	createTotpUri,
+	generateTotpCode,
+} from '../server/totp.js';
+import {
+	createMemoryMfaStore,
+	createMemoryRateLimiter,
+	createTestClock,
+} from '../testing/index.js';
+
+// The RFC 6238 appendix B secret, "12345678901234567890", in base32.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const harness = (options: { readonly limit?: number } = {}) => {
+	const clock = createTestClock();
+	const store = createMemoryMfaStore();
+	const limiter = createMemoryRateLimiter(
+		{ limit: options.limit ?? 100, windowMs: 60_000 },
+		clock
+	);
+	const service = createTotpService({
+		store,
+		limiter,
+		clock,
+		issuer: 'Effuse',
+	});
+
+	const codeFor = (secret: string, offsetMs = 0) =>
+		generateTotpCode(secret, { atMs: clock.now() + offsetMs });
+
+	/** Enrols and confirms, leaving the clock on the next step. */
+	const enrolled = async () => {
+		const started = await service.enroll({
+			subject: 'u_1',
+			accountName: 'ada@example.com',
+		});
+		if (!started.ok) throw new Error('enrolment refused');
+		const confirmed = await service.confirm({
+			subject: 'u_1',
+			code: codeFor(started.secret),
+		});
+		if (!confirmed.ok) throw new Error('confirmation refused');
+		clock.advance(30_000);
+		return { secret: started.secret, recoveryCodes: confirmed.recoveryCodes };
+	};
+
+	return { clock, store, service, codeFor, enrolled };
+};
+
+describe('RFC 6238 codes', () => {
+	it.each([
+		[59, '94287082'],
+		[1_111_111_109, '07081804'],
+		[1_111_111_111, '14050471'],
+		[1_234_567_890, '89005924'],
+		[2_000_000_000, '69279037'],
+	])('matches the SHA-1 test vector at T=%i', (seconds, expected) => {
+		expect(
+			generateTotpCode(RFC_SECRET, { atMs: seconds * 1000, digits: 8 })
+		).toBe(expected);
+	});
+
+	it('builds a key URI authenticator apps accept', () => {
+		expect(
+			createTotpUri({
+				secret: 'JBSWY3DPEHPK3PXP',
+				issuer: 'Acme Co',
+				accountName: 'ada@example.com',
+			})
+		).toBe(
+			'otpauth://totp/Acme%20Co:ada%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme%20Co&algorithm=SHA1&digits=6&period=30'
+		);
+	});
+});
+
+describe('enrolment', () => {
+	it('confirms with the first code and issues recovery codes', async () => {
+		const { service, codeFor } = harness();
+		const started = await service.enroll({
+			subject: 'u_1',
+			accountName: 'ada@example.com',
+		});
+		expect(started.ok).toBe(true);
+		if (!started.ok) return;
+		expect(started.uri).toContain(`secret=${started.secret}`);
+		expect(await service.isEnrolled('u_1')).toBe(false);
+
+		const confirmed = await service.confirm({
+			subject: 'u_1',
+			code: codeFor(started.secret),
+		});
+
+		expect(confirmed.ok).toBe(true);
+		if (!confirmed.ok) return;
+		expect(confirmed.recoveryCodes).toHaveLength(DEFAULT_RECOVERY_CODE_COUNT);
+		expect(confirmed.recoveryCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+		expect(confirmed.authentication).toEqual({
+			method: 'otp',
+			secondFactor: true,
+		});
+		expect(await service.isEnrolled('u_1')).toBe(true);
+	});
+
+	it('leaves a wrongly confirmed enrolment pending', async () => {
+		const { service, codeFor } = harness();
+		const started = await service.enroll({
+			subject: 'u_1',
+			accountName: 'ada@example.com',
+		});
+		if (!started.ok) return;
+
+		const wrong = await service.confirm({
+			subject: 'u_1',
+			code: codeFor(started.secret, 5 * 60_000),
+		});
+
+		expect(wrong.ok).toBe(false);
+		if (wrong.ok) return;
+		expect(wrong.error._tag).toBe('InvalidOtpError');
+		expect(await service.isEnrolled('u_1')).toBe(false);
+	});
+
+	it('refuses to replace a confirmed enrolment until it is disabled', async () => {
+		const { service, enrolled } = harness();
+		await enrolled();
+
+		const again = await service.enroll({
+			subject: 'u_1',
+			accountName: 'ada@example.com',
+		});
+		expect(again.ok).toBe(false);
+
+		await service.disable('u_1');
+		expect(await service.isEnrolled('u_1')).toBe(false);
+		expect(
+			(await service.enroll({ subject: 'u_1', accountName: 'ada@example.com' }))
+				.ok
+		).toBe(true);
+	});
+});
+
+describe('verification', () => {
+	it('accepts a code one step either side of now, and not two', async () => {
+		const { service, enrolled, codeFor, clock } = harness();
+		const { secret } = await enrolled();
+		// Clear of the step spent on confirmation, so only the window decides.
+		clock.advance(60_000);
+
+		const at = async (offsetMs: number) =>
+			(
+				await service.verify({
+					subject: 'u_1',
+					code: codeFor(secret, offsetMs),
+				})
+			).ok;
+
+		expect(await at(-30_000)).toBe(true);
+		expect(await at(30_000)).toBe(true);
+
+		clock.advance(120_000);
+		expect(await at(-60_000)).toBe(false);
+		expect(await at(60_000)).toBe(false);
+	});
+
+	it('refuses a replayed code', async () => {
+		const { service, enrolled, codeFor } = harness();
+		const { secret } = await enrolled();
+		const code = codeFor(secret);
+
+		expect((await service.verify({ subject: 'u_1', code })).ok).toBe(true);
+
+		const replayed = await service.verify({ subject: 'u_1', code });
+		expect(replayed.ok).toBe(false);
+		if (replayed.ok) return;
+		expect(replayed.error._tag).toBe('InvalidOtpError');
+	});
+
+	it('lets exactly one of several concurrent uses of a code win', async () => {
+		const { service, enrolled, codeFor } = harness();
+		const { secret } = await enrolled();
+		const code = codeFor(secret);
+
+		const results = await Promise.all(
+			Array.from({ length: 5 }, async () =>
+				service.verify({ subject: 'u_1', code })
+			)
+		);
+
+		expect(results.filter((result) => result.ok)).toHaveLength(1);
+	});
+
+	it('fails identically for a subject with no enrolment', async () => {
+		const { service } = harness();
+		const result = await service.verify({ subject: 'u_2', code: '123456' });
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error._tag).toBe('InvalidOtpError');
+	});
+
+	it('throttles guessing per subject and clears the budget on success', async () => {
+		const { service, enrolled, codeFor } = harness({ limit: 3 });
+		const { secret } = await enrolled();
+
+		for (let attempt = 0; attempt < 2; attempt += 1) {
+			await service.verify({ subject: 'u_1', code: '000000' });
+		}
+		expect(
+			(await service.verify({ subject: 'u_1', code: codeFor(secret) })).ok
+		).toBe(true);
+
+		for (let attempt = 0; attempt < 3; attempt += 1) {
+			await service.verify({ subject: 'u_1', code: '000000' });
+		}
+		const limited = await service.verify({ subject: 'u_1', code: '000000' });
+
+		expect(limited.ok).toBe(false);
+		if (limited.ok) return;
+		expect(limited.error._tag).toBe('RateLimitedError');
+	});
+});
+
+describe('recovery codes', () => {
+	it('spends each code once, ignoring case and the display hyphen', async () => {
+		const { service, enrolled } = harness();
+		const { recoveryCodes } = await enrolled();
+		const code = recoveryCodes[0] ?? '';
+
+		const redeemed = await service.redeemRecoveryCode({
+			subject: 'u_1',
+			code: code.replace('-', '').toLowerCase(),
+		});
+		expect(redeemed).toEqual({
+			ok: true,
+			authentication: { method: 'recovery', secondFactor: true },
+			remaining: DEFAULT_RECOVERY_CODE_COUNT - 1,
+		});
+
+		const again = await service.redeemRecoveryCode({ subject: 'u_1', code });
+		expect(again.ok).toBe(false);
+	});
+
+	it('stores digests, never the codes themselves', async () => {
+		const { store, enrolled } = harness();
+		const { recoveryCodes } = await enrolled();
+
+		// Presenting the raw code to the store misses: only its digest was kept.
+		expect(await store.consumeRecoveryCode('u_1', recoveryCodes[0] ?? '')).toBe(
+			false
+		);
+		expect(await store.countRecoveryCodes('u_1')).toBe(
+			DEFAULT_RECOVERY_CODE_COUNT
+		);
+	});
+
+	it('invalidates every earlier code on regeneration', async () => {
+		const { service, enrolled } = harness();
+		const { recoveryCodes } = await enrolled();
+
+		const fresh = await service.regenerateRecoveryCodes('u_1');
+
+		expect(
+			(
+				await service.redeemRecoveryCode({
+					subject: 'u_1',
+					code: recoveryCodes[0] ?? '',
+				})
+			).ok
+		).toBe(false);
+		expect(
+			(
+				await service.redeemRecoveryCode({
+					subject: 'u_1',
+					code: fresh[0] ?? '',
+				})
+			).ok
+		).toBe(true);
+	});
+});
+
+describe('configuration', () => {
+	const base = () => ({
+		store: createMemoryMfaStore(),
+		limiter: createMemoryRateLimiter({ limit: 5, windowMs: 60_000 }),
+		clock: createTestClock(),
+		issuer: 'Effuse',
+	});
+
+	it('rejects an issuer the key URI cannot carry', () => {
+		expect(() => createTotpService({ ...base(), issuer: 'a:b' })).toThrow(
+			/totp\.issuer/
+		);
+	});
+
+	it('rejects an unbounded drift window', () => {
+		expect(() => createTotpService({ ...base(), window: 11 })).toThrow(
+			/totp\.window/
+		);
+	});
+});
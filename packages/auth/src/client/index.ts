@@ -40,6 +40,11 @@
  * permit. Authorization is a server concern; a check that exists only here is one
  * an attacker skips by not running your JavaScript.
  *
+ * Tabs stay in step when the client is given a cross-tab transport: a sign-out
+ * in one reaches them all, and one elected tab refreshes the session ahead of
+ * expiry on everyone's behalf. The refresh itself is the application's to
+ * supply, so the only request this module ever causes is one it was handed.
+ *
  * No `node:` builtin is reachable from this file, and a test walks the real
  * import closure to prove it.
  */
@@ -52,6 +57,8 @@ export type ClientSession<Shape extends ClaimsShape> =
 			readonly status: 'authenticated';
 			readonly claims: Partial<InferClaims<Shape>>;
 			readonly expiresAt: number | undefined;
+			/** Set while an administrator is viewing as this user. */
+			readonly impersonated?: true;
 	  }
 	| {
 			readonly status: 'anonymous';
@@ -78,6 +85,55 @@ export interface SessionClient<Shape extends ClaimsShape> {
 	readonly publish: (session: ClientSession<Shape>) => void;
 	/** Convenience for the sign-out case. */
 	readonly clear: () => void;
+	/** Stops syncing and cancels any scheduled refresh. Idempotent. */
+	readonly dispose: () => void;
+}
+
+/**
+ * The cross-tab channel, described structurally so this package need not
+ * depend on `@effuse/core`. `createBroadcastTransport` from `@effuse/core`
+ * satisfies it.
+ */
+export interface SessionSyncTransport {
+	post(message: Readonly<Record<string, unknown>>): void;
+	subscribe(
+		handler: (message: Readonly<Record<string, unknown>>) => void
+	): () => void;
+	readonly connected: boolean;
+}
+
+/** Leader election, as `createLeaderElection` from `@effuse/core` provides it. */
+export interface SessionLeaderElection {
+	readonly isLeader: boolean;
+	/** Must call the handler at once with the current state, then on changes. */
+	subscribe(handler: (isLeader: boolean) => void): () => void;
+}
+
+export interface SessionClientOptions<Shape extends ClaimsShape> {
+	/**
+	 * Shares `publish` and `clear` with every other tab on the same channel.
+	 * Without it, each tab is on its own.
+	 */
+	readonly transport?: SessionSyncTransport;
+	/**
+	 * Decides which tab refreshes. Without it every tab with a `refresh`
+	 * refreshes for itself, which is right only when there is one tab.
+	 */
+	readonly leader?: SessionLeaderElection;
+	/**
+	 * Renews the session with the server and returns the new snapshot —
+	 * typically a request to an endpoint answering with `toHydrationPayload`,
+	 * read back through {@link parseSessionPayload}.
+	 */
+	readonly refresh?: () => Promise<ClientSession<Shape>>;
+	/** How long before `expiresAt` to refresh. Defaults to one minute. */
+	readonly refreshAheadMs?: number;
+	/** Wait before retrying a failed refresh. Defaults to 10 seconds. */
+	readonly retryMs?: number;
+	/** Injected for tests. Defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Injected for tests. Defaults to `setTimeout`. */
+	readonly schedule?: (fn: () => void, ms: number) => () => void;
 }
 
 const ANONYMOUS = {
@@ -89,6 +145,14 @@ const ANONYMOUS = {
 /** The anonymous snapshot, for callers that need to reset explicitly. */
 export const anonymousSession: ClientSession<ClaimsShape> = ANONYMOUS;
 
+export const DEFAULT_REFRESH_AHEAD_MS = 60_000;
+export const DEFAULT_REFRESH_RETRY_MS = 10_000;
+
+/** `setTimeout` overflows past this; longer waits are taken in steps. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+const SESSION_MESSAGE = 'effuse.auth.session';
+
 /** The element id the server writes the payload to. */
 export const SESSION_SCRIPT_ID = 'effuse-auth-session';
 
@@ -136,6 +200,17 @@ export const readHydratedSession = <Shape extends ClaimsShape>(
 		return ANONYMOUS;
 	}
 
+	return parseSessionPayload<Shape>(parsed);
+};
+
+/**
+ * Reads an already-decoded payload, as a refresh endpoint or another tab
+ * delivers it. Anything unreadable is the anonymous snapshot, for the same
+ * reason as {@link readHydratedSession}.
+ */
+export const parseSessionPayload = <Shape extends ClaimsShape>(
+	parsed: unknown
+): ClientSession<Shape> => {
 	if (!isRecord(parsed)) return ANONYMOUS;
 	if (parsed['status'] !== 'authenticated') return ANONYMOUS;
 
@@ -146,6 +221,14 @@ export const readHydratedSession = <Shape extends ClaimsShape>(
 		claims: (isRecord(claims) ? claims : {}) as Partial<InferClaims<Shape>>,
 		expiresAt:
 			typeof parsed['expiresAt'] === 'number' ? parsed['expiresAt'] : undefined,
+		...(parsed['impersonated'] === true ? { impersonated: true } : {}),
+	};
+};
+
+const defaultSchedule = (fn: () => void, ms: number): (() => void) => {
+	const timer = setTimeout(fn, ms);
+	return () => {
+		clearTimeout(timer);
 	};
 };
 
@@ -155,16 +238,44 @@ export const readHydratedSession = <Shape extends ClaimsShape>(
  * `initial` normally comes from {@link readHydratedSession}, which contains only
  * the claims the server marked for exposure. Anything not marked never reaches
  * the browser, so this module cannot leak what it was never given.
+ *
+ * With a `transport`, every snapshot published in one tab is applied in the
+ * others. With `refresh` as well, the leader renews the session shortly before
+ * it expires and the result reaches every tab by the same route, so ten open
+ * tabs cost one request rather than ten racing ones.
  */
 export const createSessionClient = <Shape extends ClaimsShape>(
-	initial?: ClientSession<Shape>
+	initial?: ClientSession<Shape>,
+	options: SessionClientOptions<Shape> = {}
 ): SessionClient<Shape> => {
+	const {
+		transport,
+		leader,
+		refresh,
+		refreshAheadMs = DEFAULT_REFRESH_AHEAD_MS,
+		retryMs = DEFAULT_REFRESH_RETRY_MS,
+		now = () => Date.now(),
+		schedule = defaultSchedule,
+	} = options;
+
 	let snapshot: ClientSession<Shape> = initial ?? ANONYMOUS;
+	// Bumped on every change, local or remote. A refresh that finds it moved
+	// on return lost a race — most often with a sign-out in another tab — and
+	// its result is discarded rather than signing everyone back in.
+	let generation = 0;
+	let isLeader = leader === undefined;
+	let disposed = false;
+	let cancelRefresh: (() => void) | undefined;
+	// The expiry a refresh has already answered. A session whose expiry a
+	// refresh cannot move (an absolute lifetime) is refreshed once, not in a
+	// loop until it ends.
+	let refreshedExpiresAt: number | undefined;
 
 	const listeners = new Set<SessionListener<Shape>>();
 
-	const publish = (session: ClientSession<Shape>): void => {
+	const apply = (session: ClientSession<Shape>): void => {
 		snapshot = session;
+		generation += 1;
 
 		// Iterated over a copy: a listener that unsubscribes during notification
 		// would otherwise mutate the set mid-iteration and silently skip a peer.
@@ -177,8 +288,74 @@ export const createSessionClient = <Shape extends ClaimsShape>(
 				// a UI where half the components think the user is still signed in.
 			}
 		}
+
+		scheduleRefresh();
+	};
+
+	const publish = (session: ClientSession<Shape>): void => {
+		if (!disposed) transport?.post({ type: SESSION_MESSAGE, session });
+		apply(session);
 	};
 
+	const scheduleRefresh = (delayMs?: number): void => {
+		cancelRefresh?.();
+		cancelRefresh = undefined;
+		if (
+			disposed ||
+			refresh === undefined ||
+			!isLeader ||
+			snapshot.status !== 'authenticated' ||
+			snapshot.expiresAt === undefined ||
+			(refreshedExpiresAt !== undefined &&
+				snapshot.expiresAt <= refreshedExpiresAt)
+		) {
+			return;
+		}
+
+		const expiresAt = snapshot.expiresAt;
+		const wait = delayMs ?? Math.max(0, expiresAt - refreshAheadMs - now());
+		if (wait > MAX_TIMER_DELAY_MS) {
+			// Beyond one timer: wait as long as one allows, then look again.
+			cancelRefresh = schedule(() => {
+				cancelRefresh = undefined;
+				scheduleRefresh();
+			}, MAX_TIMER_DELAY_MS);
+			return;
+		}
+		cancelRefresh = schedule(() => {
+			cancelRefresh = undefined;
+			const started = generation;
+
+			refresh().then(
+				(session) => {
+					if (disposed || generation !== started) return;
+					refreshedExpiresAt = expiresAt;
+					publish(session);
+				},
+				() => {
+					// Retried until the session actually expires; past that point the
+					// server has already ended it and a refresh cannot bring it back.
+					if (disposed || generation !== started) return;
+					if (now() + retryMs < expiresAt) scheduleRefresh(retryMs);
+				}
+			);
+		}, wait);
+	};
+
+	const unsubscribeTransport = transport?.subscribe((message) => {
+		if (disposed || message['type'] !== SESSION_MESSAGE) return;
+		// Re-read rather than trusted: the channel is shared with any script on
+		// the origin, and a malformed message must not break the view.
+		apply(parseSessionPayload<Shape>(message['session']));
+	});
+
+	const unsubscribeLeader = leader?.subscribe((next) => {
+		isLeader = next;
+		scheduleRefresh();
+	});
+
+	scheduleRefresh();
+
 	return {
 		current: () => snapshot,
 
@@ -194,6 +371,15 @@ export const createSessionClient = <Shape extends ClaimsShape>(
 		clear: () => {
 			publish(ANONYMOUS);
 		},
+
+		dispose: () => {
+			if (disposed) return;
+			disposed = true;
+			cancelRefresh?.();
+			cancelRefresh = undefined;
+			unsubscribeTransport?.();
+			unsubscribeLeader?.();
+		},
 	};
 };
 
@@ -206,9 +392,10 @@ export const createSessionClient = <Shape extends ClaimsShape>(
  * close.
  */
 export const hydrateSessionClient = <Shape extends ClaimsShape>(
-	elementId: string = SESSION_SCRIPT_ID
+	elementId: string = SESSION_SCRIPT_ID,
+	options?: SessionClientOptions<Shape>
 ): SessionClient<Shape> =>
-	createSessionClient<Shape>(readHydratedSession<Shape>(elementId));
+	createSessionClient<Shape>(readHydratedSession<Shape>(elementId), options);
 
 /** True when the session is past the expiry the server reported. */
 export const isExpired = <Shape extends ClaimsShape>(
@@ -220,3 +407,18 @@ export const isExpired = <Shape extends ClaimsShape>(
 	now >= session.expiresAt;
 
 export type { ClaimsShape, InferClaims } from '../claims.js';
+
+export {
+	createPasskey,
+	getPasskey,
+	isPasskeySupported,
+	type GetPasskeyOptions,
+	type PasskeyCeremonyOptions,
+	type PasskeyCredentials,
+} from './passkey.js';
+export type {
+	PasskeyAuthenticationOptions,
+	PasskeyAuthenticationResponse,
+	PasskeyRegistrationOptions,
+	PasskeyRegistrationResponse,
+} from '../passkey.js';
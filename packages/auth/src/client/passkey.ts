@@ -0,0 +1,198 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Browser side of the passkey ceremonies.
+ *
+ * `navigator.credentials` speaks `ArrayBuffer`; the server speaks JSON. These
+ * helpers are the translation and nothing else — they take the options the
+ * server issued, run the ceremony, and hand back a response to post unchanged.
+ * Every decision about whether that response is any good is the server's.
+ */
+
+import type {
+	PasskeyAuthenticationOptions,
+	PasskeyAuthenticationResponse,
+	PasskeyCredentialDescriptor,
+	PasskeyRegistrationOptions,
+	PasskeyRegistrationResponse,
+} from '../passkey.js';
+
+/** The slice of `CredentialsContainer` these helpers call. */
+export interface PasskeyCredentials {
+	create(options: CredentialCreationOptions): Promise<Credential | null>;
+	get(options: CredentialRequestOptions): Promise<Credential | null>;
+}
+
+export interface PasskeyCeremonyOptions {
+	/** Defaults to `navigator.credentials`. */
+	readonly credentials?: PasskeyCredentials;
+	readonly signal?: AbortSignal;
+}
+
+export interface GetPasskeyOptions extends PasskeyCeremonyOptions {
+	/**
+	 * `conditional` offers passkeys in the autofill menu of an input marked
+	 * `autocomplete="username webauthn"` instead of opening a modal.
+	 */
+	readonly mediation?: CredentialMediationRequirement;
+}
+
+const toBuffer = (value: string): ArrayBuffer => {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+	const bytes = new Uint8Array(binary.length);
+	for (let index = 0; index < binary.length; index += 1) {
+		bytes[index] = binary.charCodeAt(index);
+	}
+	return bytes.buffer;
+};
+
+const fromBuffer = (value: ArrayBuffer | ArrayBufferView): string => {
+	const bytes =
+		value instanceof ArrayBuffer
+			? new Uint8Array(value)
+			: new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return btoa(binary)
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+};
+
+const toDescriptors = (
+	descriptors: readonly PasskeyCredentialDescriptor[]
+): PublicKeyCredentialDescriptor[] =>
+	descriptors.map((descriptor) => ({
+		type: descriptor.type,
+		id: toBuffer(descriptor.id),
+		...(descriptor.transports === undefined
+			? {}
+			: { transports: [...descriptor.transports] as AuthenticatorTransport[] }),
+	}));
+
+const resolveCredentials = (
+	credentials: PasskeyCredentials | undefined
+): PasskeyCredentials => {
+	if (credentials !== undefined) return credentials;
+	if (typeof navigator === 'undefined' || !('credentials' in navigator)) {
+		throw new Error('Passkeys are not available in this environment.');
+	}
+	return navigator.credentials;
+};
+
+const expectPublicKey = (
+	credential: Credential | null
+): PublicKeyCredential => {
+	if (credential?.type !== 'public-key') {
+		throw new Error('The authenticator returned no public-key credential.');
+	}
+	return credential as PublicKeyCredential;
+};
+
+/**
+ * True when this browser can run a passkey ceremony at all.
+ *
+ * A capability check for choosing which button to render, not a promise that
+ * the user has a passkey — that is only known by asking.
+ */
+export const isPasskeySupported = (): boolean =>
+	typeof window !== 'undefined' &&
+	typeof window.PublicKeyCredential === 'function' &&
+	typeof navigator !== 'undefined' &&
+	'credentials' in navigator;
+
+/** Runs a registration ceremony with the server's options. */
+export const createPasskey = async (
+	options: PasskeyRegistrationOptions,
+	ceremony: PasskeyCeremonyOptions = {}
+): Promise<PasskeyRegistrationResponse> => {
+	const credential = expectPublicKey(
+		await resolveCredentials(ceremony.credentials).create({
+			publicKey: {
+				challenge: toBuffer(options.challenge),
+				rp: options.rp,
+				user: { ...options.user, id: toBuffer(options.user.id) },
+				pubKeyCredParams: [...options.pubKeyCredParams],
+				timeout: options.timeout,
+				excludeCredentials: toDescriptors(options.excludeCredentials),
+				authenticatorSelection: options.authenticatorSelection,
+				attestation: options.attestation,
+			},
+			...(ceremony.signal === undefined ? {} : { signal: ceremony.signal }),
+		})
+	);
+	const response = credential.response as AuthenticatorAttestationResponse;
+
+	return {
+		id: credential.id,
+		rawId: fromBuffer(credential.rawId),
+		type: 'public-key',
+		response: {
+			clientDataJSON: fromBuffer(response.clientDataJSON),
+			attestationObject: fromBuffer(response.attestationObject),
+			// Older engines lack getTransports; the server treats it as optional.
+			...(typeof response.getTransports === 'function'
+				? { transports: response.getTransports() }
+				: {}),
+		},
+	};
+};
+
+/** Runs an authentication ceremony with the server's options. */
+export const getPasskey = async (
+	options: PasskeyAuthenticationOptions,
+	ceremony: GetPasskeyOptions = {}
+): Promise<PasskeyAuthenticationResponse> => {
+	const credential = expectPublicKey(
+		await resolveCredentials(ceremony.credentials).get({
+			publicKey: {
+				challenge: toBuffer(options.challenge),
+				rpId: options.rpId,
+				timeout: options.timeout,
+				allowCredentials: toDescriptors(options.allowCredentials),
+				userVerification: options.userVerification,
+			},
+			...(ceremony.mediation === undefined
+				? {}
+				: { mediation: ceremony.mediation }),
+			...(ceremony.signal === undefined ? {} : { signal: ceremony.signal }),
+		})
+	);
+	const response = credential.response as AuthenticatorAssertionResponse;
+
+	return {
+		id: credential.id,
+		rawId: fromBuffer(credential.rawId),
+		type: 'public-key',
+		response: {
+			clientDataJSON: fromBuffer(response.clientDataJSON),
+			authenticatorData: fromBuffer(response.authenticatorData),
+			signature: fromBuffer(response.signature),
+			userHandle:
+				response.userHandle === null ? null : fromBuffer(response.userHandle),
+		},
+	};
+};
@@ -37,15 +37,30 @@
  */
 
 import type {
+	ApiKeyRecord,
+	ApiKeyStore,
+	AuthorizationCodeRecord,
+	AuthorizationServerStore,
 	CredentialRecord,
+	IdentityLinkRecord,
+	IdentityLinkStore,
+	MfaStore,
+	PasskeyCredentialRecord,
+	PasskeyStore,
 	PasswordHasher,
 	PasswordResetRecord,
 	PasswordResetStore,
+	PasswordlessRecord,
+	PasswordlessStore,
 	RateLimiter,
+	RefreshGrantRecord,
+	RelationStore,
+	RelationTuple,
 	SessionId,
 	SessionStore,
 	StoredSession,
 	TokenCodec,
+	TotpEnrollmentRecord,
 	UserStore,
 } from './contract.js';
 
@@ -136,6 +151,948 @@ export const runPasswordResetStoreConformance = (
 	});
 };
 
+export interface MfaStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => MfaStore | Promise<MfaStore>;
+}
+
+const enrollment = (
+	subject: string,
+	overrides: Partial<TotpEnrollmentRecord> = {}
+): TotpEnrollmentRecord => ({
+	subject,
+	secret: 'JBSWY3DPEHPK3PXP',
+	createdAt: 1_000,
+	...overrides,
+});
+
+/** Proves monotonic step claims, confirmation, and single-use recovery codes. */
+export const runMfaStoreConformance = (
+	options: MfaStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('MfaStore conformance', () => {
+		describe('TOTP enrolment', () => {
+			it('reads back what was written and nothing else', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1'));
+
+				expect(await store.readTotp('u1')).toEqual(enrollment('u1'));
+				expect(await store.readTotp('u2')).toBeUndefined();
+			});
+
+			it('replaces an existing enrolment', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1', { confirmedAt: 2_000 }));
+				await store.writeTotp(enrollment('u1', { secret: 'KRSXG5CTMVRXEZLU' }));
+
+				const stored = await store.readTotp('u1');
+				expect(stored?.secret).toBe('KRSXG5CTMVRXEZLU');
+				expect(stored?.confirmedAt).toBeUndefined();
+			});
+
+			it('confirms a pending enrolment on its first claim, once', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1'));
+
+				expect(await store.claimTotpStep('u1', 10, 5_000)).toBe(true);
+				expect(await store.claimTotpStep('u1', 11, 6_000)).toBe(true);
+
+				const stored = await store.readTotp('u1');
+				expect(stored?.confirmedAt).toBe(5_000);
+				expect(stored?.lastUsedStep).toBe(11);
+			});
+
+			it('refuses a replayed or older step', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1'));
+				await store.claimTotpStep('u1', 10, 5_000);
+
+				expect(await store.claimTotpStep('u1', 10, 5_000)).toBe(false);
+				expect(await store.claimTotpStep('u1', 9, 5_000)).toBe(false);
+			});
+
+			it('refuses a claim without an enrolment', async () => {
+				const store = await createStore();
+
+				expect(await store.claimTotpStep('u1', 10, 5_000)).toBe(false);
+			});
+
+			it('allows exactly one of many concurrent claims of a step', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1'));
+				const results = await Promise.all(
+					Array.from({ length: 10 }, async () =>
+						store.claimTotpStep('u1', 10, 5_000)
+					)
+				);
+
+				expect(results.filter(Boolean).length).toBe(1);
+			});
+
+			it('deletes an enrolment', async () => {
+				const store = await createStore();
+				await store.writeTotp(enrollment('u1'));
+				await store.deleteTotp('u1');
+
+				expect(await store.readTotp('u1')).toBeUndefined();
+				expect(await store.claimTotpStep('u1', 10, 5_000)).toBe(false);
+			});
+
+			it('isolates persisted records from caller mutation', async () => {
+				const store = await createStore();
+				const record = enrollment('u1');
+				await store.writeTotp(record);
+				(record as { secret: string }).secret = 'MUTATED';
+
+				expect((await store.readTotp('u1'))?.secret).toBe('JBSWY3DPEHPK3PXP');
+			});
+		});
+
+		describe('recovery codes', () => {
+			it('consumes each code exactly once', async () => {
+				const store = await createStore();
+				await store.replaceRecoveryCodes('u1', ['a', 'b']);
+
+				expect(await store.countRecoveryCodes('u1')).toBe(2);
+				expect(await store.consumeRecoveryCode('u1', 'a')).toBe(true);
+				expect(await store.consumeRecoveryCode('u1', 'a')).toBe(false);
+				expect(await store.countRecoveryCodes('u1')).toBe(1);
+			});
+
+			it('keeps subjects independent', async () => {
+				const store = await createStore();
+				await store.replaceRecoveryCodes('u1', ['a']);
+
+				expect(await store.consumeRecoveryCode('u2', 'a')).toBe(false);
+				expect(await store.countRecoveryCodes('u2')).toBe(0);
+			});
+
+			it('discards every earlier code on replacement', async () => {
+				const store = await createStore();
+				await store.replaceRecoveryCodes('u1', ['a', 'b']);
+				await store.replaceRecoveryCodes('u1', ['c']);
+
+				expect(await store.consumeRecoveryCode('u1', 'a')).toBe(false);
+				expect(await store.consumeRecoveryCode('u1', 'c')).toBe(true);
+			});
+
+			it('allows exactly one of many concurrent consumers to win', async () => {
+				const store = await createStore();
+				await store.replaceRecoveryCodes('u1', ['a']);
+				const results = await Promise.all(
+					Array.from({ length: 10 }, async () =>
+						store.consumeRecoveryCode('u1', 'a')
+					)
+				);
+
+				expect(results.filter(Boolean).length).toBe(1);
+			});
+		});
+	});
+};
+
+export interface PasswordlessStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => PasswordlessStore | Promise<PasswordlessStore>;
+}
+
+const pending = (
+	identifier: string,
+	overrides: Partial<PasswordlessRecord> = {}
+): PasswordlessRecord => ({
+	digest: `digest-${identifier}`,
+	method: 'link',
+	identifier,
+	bindingDigest: 'binding',
+	expiresAt: 2_000,
+	attemptsRemaining: 1,
+	...overrides,
+});
+
+/** Proves replacement, single-use links, and atomically spent code attempts. */
+export const runPasswordlessStoreConformance = (
+	options: PasswordlessStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('PasswordlessStore conformance', () => {
+		describe('links', () => {
+			it('consumes a live link exactly once', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x'));
+
+				expect(await store.consumeLink('digest-a@x', 1_000)).toEqual(
+					pending('a@x')
+				);
+				expect(await store.consumeLink('digest-a@x', 1_000)).toBeUndefined();
+			});
+
+			it('treats a link as expired at its expiry instant', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x'));
+
+				expect(await store.consumeLink('digest-a@x', 2_000)).toBeUndefined();
+			});
+
+			it('invalidates the earlier record on replacement', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x', { digest: 'first' }));
+				await store.replace(pending('a@x', { digest: 'second' }));
+
+				expect(await store.consumeLink('first', 1_000)).toBeUndefined();
+				expect(await store.consumeLink('second', 1_000)).toBeDefined();
+			});
+
+			it('never redeems a code record as a link', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x', { method: 'code' }));
+
+				expect(await store.consumeLink('digest-a@x', 1_000)).toBeUndefined();
+			});
+
+			it('allows exactly one of many concurrent consumers to win', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x'));
+				const results = await Promise.all(
+					Array.from({ length: 10 }, async () =>
+						store.consumeLink('digest-a@x', 1_000)
+					)
+				);
+
+				expect(results.filter((result) => result !== undefined).length).toBe(1);
+			});
+
+			it('revokes the pending record for an identifier', async () => {
+				const store = await createStore();
+				await store.replace(pending('a@x'));
+				await store.revokeForIdentifier('a@x');
+
+				expect(await store.consumeLink('digest-a@x', 1_000)).toBeUndefined();
+			});
+		});
+
+		describe('codes', () => {
+			const code = (attemptsRemaining = 3) =>
+				pending('a@x', { method: 'code', attemptsRemaining });
+
+			it('consumes a matching code once', async () => {
+				const store = await createStore();
+				await store.replace(code());
+
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toEqual(code());
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toBeUndefined();
+			});
+
+			it('keeps identifiers independent', async () => {
+				const store = await createStore();
+				await store.replace(code());
+
+				expect(
+					await store.consumeCode('b@x', 'digest-a@x', 'binding', 1_000)
+				).toBeUndefined();
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toBeDefined();
+			});
+
+			it('discards the record once its attempts are spent', async () => {
+				const store = await createStore();
+				await store.replace(code(2));
+
+				expect(
+					await store.consumeCode('a@x', 'wrong', 'binding', 1_000)
+				).toBeUndefined();
+				expect(
+					await store.consumeCode('a@x', 'wrong', 'binding', 1_000)
+				).toBeUndefined();
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toBeUndefined();
+			});
+
+			it('still accepts the right code before the attempts run out', async () => {
+				const store = await createStore();
+				await store.replace(code(2));
+
+				await store.consumeCode('a@x', 'wrong', 'binding', 1_000);
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toBeDefined();
+			});
+
+			it('spends one attempt per concurrent wrong guess', async () => {
+				const store = await createStore();
+				await store.replace(code(3));
+				await Promise.all(
+					Array.from({ length: 3 }, async () =>
+						store.consumeCode('a@x', 'wrong', 'binding', 1_000)
+					)
+				);
+
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toBeUndefined();
+			});
+
+			it('spends nothing for a request with another binding', async () => {
+				const store = await createStore();
+				await store.replace(code(1));
+
+				expect(
+					await store.consumeCode('a@x', 'wrong', 'elsewhere', 1_000)
+				).toBeUndefined();
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'elsewhere', 1_000)
+				).toBeUndefined();
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 1_000)
+				).toEqual(code(1));
+			});
+
+			it('refuses an expired code', async () => {
+				const store = await createStore();
+				await store.replace(code());
+
+				expect(
+					await store.consumeCode('a@x', 'digest-a@x', 'binding', 2_000)
+				).toBeUndefined();
+			});
+		});
+
+		it('isolates persisted records from caller mutation', async () => {
+			const store = await createStore();
+			const record = pending('a@x');
+			await store.replace(record);
+			(record as { expiresAt: number }).expiresAt = 500;
+
+			expect(await store.consumeLink('digest-a@x', 1_000)).toBeDefined();
+		});
+	});
+};
+
+export interface ApiKeyStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => ApiKeyStore | Promise<ApiKeyStore>;
+}
+
+const apiKey = (
+	id: string,
+	subject: string,
+	overrides: Partial<ApiKeyRecord> = {}
+): ApiKeyRecord => ({
+	id,
+	subject,
+	name: `key ${id}`,
+	digest: `digest-${id}`,
+	scopes: ['reports:read'],
+	createdAt: 1_000,
+	...overrides,
+});
+
+/** Proves unique ids, monotonic last-used tracking, and one-way revocation. */
+export const runApiKeyStoreConformance = (
+	options: ApiKeyStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('ApiKeyStore conformance', () => {
+		it('finds a created key by id and by subject', async () => {
+			const store = await createStore();
+			expect(await store.create(apiKey('k1', 'u1'))).toBe(true);
+			await store.create(apiKey('k2', 'u1'));
+			await store.create(apiKey('k3', 'u2'));
+
+			expect(await store.findById('k1')).toEqual(apiKey('k1', 'u1'));
+			expect(await store.findById('missing')).toBeUndefined();
+			expect(
+				(await store.listForSubject('u1')).map((record) => record.id).sort()
+			).toEqual(['k1', 'k2']);
+		});
+
+		it('refuses a duplicate id without overwriting it', async () => {
+			const store = await createStore();
+			await store.create(apiKey('k1', 'u1'));
+
+			expect(await store.create(apiKey('k1', 'u2'))).toBe(false);
+			expect((await store.findById('k1'))?.subject).toBe('u1');
+		});
+
+		it('records use without moving it backwards', async () => {
+			const store = await createStore();
+			await store.create(apiKey('k1', 'u1'));
+
+			await store.touch('k1', 3_000);
+			await store.touch('k1', 2_000);
+
+			expect((await store.findById('k1'))?.lastUsedAt).toBe(3_000);
+		});
+
+		it('revokes a key once', async () => {
+			const store = await createStore();
+			await store.create(apiKey('k1', 'u1'));
+
+			expect(await store.revoke('k1', 2_000)).toBe(true);
+			expect(await store.revoke('k1', 3_000)).toBe(false);
+			expect(await store.revoke('missing', 3_000)).toBe(false);
+			expect((await store.findById('k1'))?.revokedAt).toBe(2_000);
+		});
+
+		it('allows exactly one of many concurrent revocations to win', async () => {
+			const store = await createStore();
+			await store.create(apiKey('k1', 'u1'));
+			const results = await Promise.all(
+				Array.from({ length: 10 }, async (_, index) =>
+					store.revoke('k1', 2_000 + index)
+				)
+			);
+
+			expect(results.filter(Boolean).length).toBe(1);
+		});
+
+		it('ignores use of an unknown key without throwing', async () => {
+			const store = await createStore();
+
+			await store.touch('missing', 2_000);
+			expect(await store.findById('missing')).toBeUndefined();
+		});
+
+		it('isolates persisted records from caller mutation', async () => {
+			const store = await createStore();
+			const record = apiKey('k1', 'u1', { scopes: ['reports:read'] });
+			await store.create(record);
+			(record.scopes as string[]).push('reports:write');
+
+			expect((await store.findById('k1'))?.scopes).toEqual(['reports:read']);
+		});
+	});
+};
+
+export interface IdentityLinkStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => IdentityLinkStore | Promise<IdentityLinkStore>;
+}
+
+const identityLink = (
+	provider: string,
+	providerSubject: string,
+	subject: string
+): IdentityLinkRecord => ({
+	provider,
+	providerSubject,
+	subject,
+	email: 'ada@example.com',
+	linkedAt: 1_000,
+});
+
+/** Proves one subject per provider identity, including under concurrency. */
+export const runIdentityLinkStoreConformance = (
+	options: IdentityLinkStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('IdentityLinkStore conformance', () => {
+		it('finds a link by provider identity and by subject', async () => {
+			const store = await createStore();
+			expect(await store.create(identityLink('google', 'g1', 'u1'))).toBe(true);
+			await store.create(identityLink('github', 'h1', 'u1'));
+			await store.create(identityLink('google', 'g2', 'u2'));
+
+			expect(await store.find('google', 'g1')).toEqual(
+				identityLink('google', 'g1', 'u1')
+			);
+			expect(
+				(await store.listForSubject('u1')).map((link) => link.provider).sort()
+			).toEqual(['github', 'google']);
+		});
+
+		it('keeps the same subject at two providers apart', async () => {
+			const store = await createStore();
+			await store.create(identityLink('google', 'same', 'u1'));
+
+			expect(await store.find('github', 'same')).toBeUndefined();
+			expect(await store.create(identityLink('github', 'same', 'u2'))).toBe(
+				true
+			);
+		});
+
+		it('refuses to link one identity twice without overwriting it', async () => {
+			const store = await createStore();
+			await store.create(identityLink('google', 'g1', 'u1'));
+
+			expect(await store.create(identityLink('google', 'g1', 'u2'))).toBe(
+				false
+			);
+			expect((await store.find('google', 'g1'))?.subject).toBe('u1');
+		});
+
+		it('lets exactly one of many concurrent links win', async () => {
+			const store = await createStore();
+			const results = await Promise.all(
+				Array.from({ length: 10 }, async (_, index) =>
+					store.create(identityLink('google', 'g1', `u${String(index)}`))
+				)
+			);
+
+			expect(results.filter(Boolean).length).toBe(1);
+		});
+
+		it('deletes a link once', async () => {
+			const store = await createStore();
+			await store.create(identityLink('google', 'g1', 'u1'));
+
+			expect(await store.delete('google', 'g1')).toBe(true);
+			expect(await store.delete('google', 'g1')).toBe(false);
+			expect(await store.find('google', 'g1')).toBeUndefined();
+			expect(await store.listForSubject('u1')).toEqual([]);
+		});
+
+		it('isolates persisted records from caller mutation', async () => {
+			const store = await createStore();
+			const record = identityLink('google', 'g1', 'u1');
+			await store.create(record);
+			(record as { subject: string }).subject = 'u2';
+
+			expect((await store.find('google', 'g1'))?.subject).toBe('u1');
+		});
+	});
+};
+
+export interface RelationStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => RelationStore | Promise<RelationStore>;
+}
+
+const tuple = (
+	subject: string,
+	relation: string,
+	objectId = '42'
+): RelationTuple => ({ subject, relation, objectType: 'doc', objectId });
+
+/** Proves exact matching, idempotent writes, and that deletes take effect. */
+export const runRelationStoreConformance = (
+	options: RelationStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	const query = (
+		subject: string,
+		relations: readonly string[],
+		objectId = '42'
+	) => ({
+		subject,
+		relations,
+		objectType: 'doc',
+		objectId,
+	});
+
+	describe('RelationStore conformance', () => {
+		it('answers for a written tuple and nothing near it', async () => {
+			const store = await createStore();
+			await store.write(tuple('u1', 'editor'));
+
+			expect(await store.check(query('u1', ['editor']))).toBe(true);
+			expect(await store.check(query('u2', ['editor']))).toBe(false);
+			expect(await store.check(query('u1', ['owner']))).toBe(false);
+			expect(await store.check(query('u1', ['editor'], '43'))).toBe(false);
+			expect(
+				await store.check({ ...query('u1', ['editor']), objectType: 'folder' })
+			).toBe(false);
+		});
+
+		it('accepts any of several relations', async () => {
+			const store = await createStore();
+			await store.write(tuple('u1', 'viewer'));
+
+			expect(await store.check(query('u1', ['editor', 'viewer']))).toBe(true);
+			expect(await store.check(query('u1', []))).toBe(false);
+		});
+
+		it('does not imply one relation from another', async () => {
+			// Implication belongs in the policy, where a reviewer can see it.
+			const store = await createStore();
+			await store.write(tuple('u1', 'owner'));
+
+			expect(await store.check(query('u1', ['editor']))).toBe(false);
+		});
+
+		it('writes idempotently and deletes once', async () => {
+			const store = await createStore();
+			await store.write(tuple('u1', 'editor'));
+			await store.write(tuple('u1', 'editor'));
+
+			expect(await store.listForObject('doc', '42')).toEqual([
+				tuple('u1', 'editor'),
+			]);
+			expect(await store.delete(tuple('u1', 'editor'))).toBe(true);
+			expect(await store.delete(tuple('u1', 'editor'))).toBe(false);
+			expect(await store.check(query('u1', ['editor']))).toBe(false);
+		});
+
+		it('lists the tuples on one object only', async () => {
+			const store = await createStore();
+			await store.write(tuple('u1', 'editor'));
+			await store.write(tuple('u2', 'viewer'));
+			await store.write(tuple('u1', 'editor', '43'));
+
+			const listed = await store.listForObject('doc', '42');
+			expect(listed.map((entry) => entry.subject).sort()).toEqual(['u1', 'u2']);
+			expect(await store.listForObject('doc', 'missing')).toEqual([]);
+		});
+
+		it('isolates persisted tuples from caller mutation', async () => {
+			const store = await createStore();
+			const written = tuple('u1', 'editor');
+			await store.write(written);
+			(written as { relation: string }).relation = 'owner';
+
+			expect(await store.check(query('u1', ['editor']))).toBe(true);
+			expect(await store.check(query('u1', ['owner']))).toBe(false);
+		});
+	});
+};
+
+export interface AuthorizationServerStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () =>
+		| AuthorizationServerStore
+		| Promise<AuthorizationServerStore>;
+}
+
+const NOW = 1_700_000_000_000;
+
+const authorizationCode = (
+	overrides: Partial<AuthorizationCodeRecord> = {}
+): AuthorizationCodeRecord => ({
+	digest: 'c'.repeat(64),
+	clientId: 'client',
+	subject: 'u1',
+	redirectUri: 'https://client.example.com/callback',
+	scopes: ['openid'],
+	codeChallenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+	authTime: NOW,
+	expiresAt: NOW + 60_000,
+	...overrides,
+});
+
+const refreshGrant = (
+	overrides: Partial<RefreshGrantRecord> = {}
+): RefreshGrantRecord => ({
+	digest: 'r'.repeat(64),
+	familyId: 'family',
+	clientId: 'client',
+	subject: 'u1',
+	scopes: ['openid', 'offline_access'],
+	authTime: NOW,
+	issuedAt: NOW,
+	expiresAt: NOW + 86_400_000,
+	...overrides,
+});
+
+/**
+ * Proves single-winner code redemption and refresh-token use, family-wide
+ * revocation, and that consent is replaced rather than merged.
+ */
+export const runAuthorizationServerStoreConformance = (
+	options: AuthorizationServerStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('AuthorizationServerStore conformance', () => {
+		it('redeems a code once', async () => {
+			const store = await createStore();
+			await store.saveCode(authorizationCode());
+
+			expect(await store.consumeCode('c'.repeat(64), NOW)).toEqual(
+				authorizationCode()
+			);
+			expect(await store.consumeCode('c'.repeat(64), NOW)).toBeUndefined();
+		});
+
+		it('lets exactly one of many concurrent redemptions win', async () => {
+			const store = await createStore();
+			await store.saveCode(authorizationCode());
+
+			const results = await Promise.all(
+				Array.from({ length: 10 }, async () =>
+					store.consumeCode('c'.repeat(64), NOW)
+				)
+			);
+
+			expect(results.filter((result) => result !== undefined).length).toBe(1);
+		});
+
+		it('refuses a code at its expiry instant', async () => {
+			const store = await createStore();
+			await store.saveCode(authorizationCode());
+
+			expect(
+				await store.consumeCode('c'.repeat(64), NOW + 60_000)
+			).toBeUndefined();
+		});
+
+		it('reports first use, then reuse, of a refresh token', async () => {
+			const store = await createStore();
+			await store.saveRefreshGrant(refreshGrant());
+
+			const first = await store.useRefreshGrant('r'.repeat(64), NOW + 1);
+			const second = await store.useRefreshGrant('r'.repeat(64), NOW + 2);
+
+			expect(first?.outcome).toBe('first');
+			expect(first?.record.usedAt).toBe(NOW + 1);
+			expect(second?.outcome).toBe('reused');
+			expect(second?.record.usedAt).toBe(NOW + 1);
+			expect(await store.useRefreshGrant('x'.repeat(64), NOW)).toBeUndefined();
+		});
+
+		it('lets exactly one of many concurrent refreshes win', async () => {
+			const store = await createStore();
+			await store.saveRefreshGrant(refreshGrant());
+
+			const results = await Promise.all(
+				Array.from({ length: 10 }, async () =>
+					store.useRefreshGrant('r'.repeat(64), NOW)
+				)
+			);
+
+			expect(
+				results.filter((result) => result?.outcome === 'first').length
+			).toBe(1);
+		});
+
+		it('revokes every token in a family and no other', async () => {
+			const store = await createStore();
+			await store.saveRefreshGrant(refreshGrant({ digest: 'a'.repeat(64) }));
+			await store.saveRefreshGrant(refreshGrant({ digest: 'b'.repeat(64) }));
+			await store.saveRefreshGrant(
+				refreshGrant({ digest: 'd'.repeat(64), familyId: 'other' })
+			);
+			await store.useRefreshGrant('a'.repeat(64), NOW);
+
+			await store.revokeRefreshFamily('family', NOW + 5);
+
+			expect(
+				(await store.useRefreshGrant('a'.repeat(64), NOW))?.record.revokedAt
+			).toBe(NOW + 5);
+			expect(
+				(await store.useRefreshGrant('b'.repeat(64), NOW))?.record.revokedAt
+			).toBe(NOW + 5);
+			expect(
+				(await store.useRefreshGrant('d'.repeat(64), NOW))?.record.revokedAt
+			).toBeUndefined();
+		});
+
+		it('replaces consent for a pair and revokes it once', async () => {
+			const store = await createStore();
+			const consent = {
+				subject: 'u1',
+				clientId: 'client',
+				scopes: ['openid', 'email'],
+				grantedAt: NOW,
+			};
+			await store.saveConsent(consent);
+			await store.saveConsent({ ...consent, scopes: ['openid'] });
+
+			expect((await store.findConsent('u1', 'client'))?.scopes).toEqual([
+				'openid',
+			]);
+			expect(await store.findConsent('u1', 'other')).toBeUndefined();
+			expect(await store.revokeConsent('u1', 'client')).toBe(true);
+			expect(await store.revokeConsent('u1', 'client')).toBe(false);
+			expect(await store.findConsent('u1', 'client')).toBeUndefined();
+		});
+
+		it('isolates persisted records from caller mutation', async () => {
+			const store = await createStore();
+			const code = authorizationCode();
+			const consent = {
+				subject: 'u1',
+				clientId: 'client',
+				scopes: ['openid'],
+				grantedAt: NOW,
+			};
+			await store.saveCode(code);
+			await store.saveConsent(consent);
+			(code as { subject: string }).subject = 'u2';
+			consent.scopes.push('admin');
+
+			expect((await store.consumeCode('c'.repeat(64), NOW))?.subject).toBe(
+				'u1'
+			);
+			expect((await store.findConsent('u1', 'client'))?.scopes).toEqual([
+				'openid',
+			]);
+		});
+	});
+};
+
+export interface PasskeyStoreConformanceOptions {
+	readonly harness: ConformanceHarness;
+	/** Produces a fresh, empty store for each test. */
+	readonly createStore: () => PasskeyStore | Promise<PasskeyStore>;
+}
+
+const passkey = (
+	credentialId: string,
+	subject: string,
+	overrides: Partial<PasskeyCredentialRecord> = {}
+): PasskeyCredentialRecord => ({
+	credentialId,
+	subject,
+	userHandle: `handle-${subject}`,
+	publicKey: 'pQECAyYgASFYIA',
+	algorithm: -7,
+	signCount: 0,
+	backedUp: false,
+	createdAt: 1_000,
+	...overrides,
+});
+
+/** Proves unique credential ids, counter compare-and-set, and single-use challenges. */
+export const runPasskeyStoreConformance = (
+	options: PasskeyStoreConformanceOptions
+): void => {
+	const { harness, createStore } = options;
+	const { describe, it, expect } = harness;
+
+	describe('PasskeyStore conformance', () => {
+		describe('credentials', () => {
+			it('finds a created credential by id and by subject', async () => {
+				const store = await createStore();
+				expect(await store.create(passkey('c1', 'u1'))).toBe(true);
+				await store.create(passkey('c2', 'u1'));
+				await store.create(passkey('c3', 'u2'));
+
+				expect(await store.findByCredentialId('c1')).toEqual(
+					passkey('c1', 'u1')
+				);
+				expect(await store.findByCredentialId('missing')).toBeUndefined();
+				expect(
+					(await store.listForSubject('u1'))
+						.map((record) => record.credentialId)
+						.sort()
+				).toEqual(['c1', 'c2']);
+			});
+
+			it('refuses a duplicate credential id without overwriting it', async () => {
+				const store = await createStore();
+				await store.create(passkey('c1', 'u1'));
+
+				expect(await store.create(passkey('c1', 'u2'))).toBe(false);
+				expect((await store.findByCredentialId('c1'))?.subject).toBe('u1');
+			});
+
+			it('advances the counter only from the expected value', async () => {
+				const store = await createStore();
+				await store.create(passkey('c1', 'u1', { signCount: 5 }));
+
+				expect(await store.updateSignCount('c1', 4, 6, 2_000)).toBe(false);
+				expect(await store.updateSignCount('c1', 5, 6, 2_000)).toBe(true);
+
+				const stored = await store.findByCredentialId('c1');
+				expect(stored?.signCount).toBe(6);
+				expect(stored?.lastUsedAt).toBe(2_000);
+			});
+
+			it('allows exactly one of many concurrent counter updates to win', async () => {
+				const store = await createStore();
+				await store.create(passkey('c1', 'u1', { signCount: 5 }));
+				const results = await Promise.all(
+					Array.from({ length: 10 }, async (_, index) =>
+						store.updateSignCount('c1', 5, 6 + index, 2_000)
+					)
+				);
+
+				expect(results.filter(Boolean).length).toBe(1);
+			});
+
+			it('refuses a counter update for an unknown credential', async () => {
+				const store = await createStore();
+
+				expect(await store.updateSignCount('c1', 0, 1, 2_000)).toBe(false);
+			});
+
+			it('deletes a credential', async () => {
+				const store = await createStore();
+				await store.create(passkey('c1', 'u1'));
+				await store.delete('c1');
+
+				expect(await store.findByCredentialId('c1')).toBeUndefined();
+				expect(await store.listForSubject('u1')).toEqual([]);
+			});
+
+			it('isolates persisted records from caller mutation', async () => {
+				const store = await createStore();
+				const record = passkey('c1', 'u1');
+				await store.create(record);
+				(record as { signCount: number }).signCount = 99;
+
+				expect((await store.findByCredentialId('c1'))?.signCount).toBe(0);
+			});
+		});
+
+		describe('challenges', () => {
+			it('returns a live challenge once', async () => {
+				const store = await createStore();
+				const record = {
+					challenge: 'ch1',
+					ceremony: 'registration',
+					subject: 'u1',
+					expiresAt: 2_000,
+				} as const;
+				await store.saveChallenge(record);
+
+				expect(await store.consumeChallenge('ch1', 1_000)).toEqual(record);
+				expect(await store.consumeChallenge('ch1', 1_000)).toBeUndefined();
+			});
+
+			it('treats a challenge as expired at its expiry instant', async () => {
+				const store = await createStore();
+				await store.saveChallenge({
+					challenge: 'ch1',
+					ceremony: 'authentication',
+					expiresAt: 2_000,
+				});
+
+				expect(await store.consumeChallenge('ch1', 2_000)).toBeUndefined();
+			});
+
+			it('allows exactly one of many concurrent consumers to win', async () => {
+				const store = await createStore();
+				await store.saveChallenge({
+					challenge: 'ch1',
+					ceremony: 'authentication',
+					expiresAt: 2_000,
+				});
+				const results = await Promise.all(
+					Array.from({ length: 10 }, async () =>
+						store.consumeChallenge('ch1', 1_000)
+					)
+				);
+
+				expect(results.filter((result) => result !== undefined).length).toBe(1);
+			});
+		});
+	});
+};
+
 /** The minimal test-runner surface a suite needs. Satisfied by vitest, jest, and node:test. */
 export interface ConformanceHarness {
 	// Declared as properties holding functions rather than methods, so callers
@@ -278,6 +1235,57 @@ export const runSessionStoreConformance = (
 			});
 		});
 
+		describe('listing by subject', () => {
+			it('returns every record for the subject and no others', async () => {
+				const store = await createStore();
+				await store.write(session('s1', 'u1', { userAgent: 'Firefox' }));
+				await store.write(session('s2', 'u1', { supersededAt: 123 }));
+				await store.write(session('s3', 'u2'));
+
+				const listed = await store.listForSubject('u1');
+
+				expect(listed.map((record) => record.id).sort()).toEqual(['s1', 's2']);
+				expect(listed.find((record) => record.id === 's1')?.userAgent).toBe(
+					'Firefox'
+				);
+			});
+
+			it('forgets a destroyed session', async () => {
+				const store = await createStore();
+				await store.write(session('s1', 'u1'));
+				await store.write(session('s2', 'u1'));
+				await store.destroy('s1' as SessionId);
+
+				expect(
+					(await store.listForSubject('u1')).map((record) => record.id)
+				).toEqual(['s2']);
+			});
+
+			it('returns nothing after every session is destroyed', async () => {
+				const store = await createStore();
+				await store.write(session('s1', 'u1'));
+				await store.destroyForSubject('u1');
+
+				expect(await store.listForSubject('u1')).toEqual([]);
+				expect(await store.listForSubject('nobody')).toEqual([]);
+			});
+
+			it('lists a rewritten session once', async () => {
+				// Every idle-window slide is a write. An index that appended on each
+				// one would list an active session many times over.
+				const store = await createStore();
+				await store.write(session('s1', 'u1'));
+				await store.write(
+					session('s1', 'u1', { lastSeenAt: 1_700_000_060_000 })
+				);
+
+				const listed = await store.listForSubject('u1');
+				expect(listed.map((record) => record.lastSeenAt)).toEqual([
+					1_700_000_060_000,
+				]);
+			});
+		});
+
 		describe('locking', () => {
 			it('grants a lock that is not currently held', async () => {
 				const store = await createStore();
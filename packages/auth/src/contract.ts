@@ -85,6 +85,11 @@ export interface SessionStore {
 	destroy(id: SessionId): Promise<void>;
 	/** Removes every session belonging to a subject. Used on password change and on refresh-token reuse. */
 	destroyForSubject(subject: string): Promise<number>;
+	/**
+	 * Every record belonging to a subject, superseded and lapsed ones included.
+	 * The engine decides which are live; the store only has to find them.
+	 */
+	listForSubject(subject: string): Promise<readonly StoredSession[]>;
 	/**
 	 * Acquires an exclusive lock, or resolves `undefined` if it is already held.
 	 *
@@ -117,6 +122,20 @@ export interface StoredSession {
 	readonly lastSeenAt: number;
 	/** Epoch millis after which the session is dead regardless of activity. */
 	readonly absoluteExpiresAt: number;
+	/**
+	 * Authentication methods proven during this session, as RFC 8176 `amr`
+	 * values such as `pwd` and `otp`. Absent on records written before the
+	 * engine tracked them, which read as "nothing beyond sign-in".
+	 */
+	readonly amr?: readonly string[];
+	/** Epoch millis the subject last proved any factor. Defaults to `createdAt`. */
+	readonly authenticatedAt?: number;
+	/** Epoch millis a second factor was last verified. Absent until one is. */
+	readonly mfaAt?: number;
+	/** The `User-Agent` seen when the session was issued or last rotated. */
+	readonly userAgent?: string;
+	/** The client address seen when the session was issued or last rotated. */
+	readonly ipAddress?: string;
 	/**
 	 * Set when this session has been rotated away from. The old id stays valid
 	 * until this instant so concurrent in-flight requests converge instead of
@@ -125,6 +144,17 @@ export interface StoredSession {
 	readonly supersededAt?: number;
 	/** The session that replaced this one, for rotation-race convergence. */
 	readonly supersededBy?: SessionId;
+	/** Set when an administrator is acting as {@link subject}. */
+	readonly impersonation?: SessionImpersonation;
+}
+
+/** Who is impersonating a subject, and why. */
+export interface SessionImpersonation {
+	/** The administrator's own subject. */
+	readonly actor: string;
+	readonly reason: string;
+	/** Epoch millis the impersonation began. */
+	readonly startedAt: number;
 }
 
 /**
@@ -241,3 +271,373 @@ export interface PasswordResetStore {
 	/** Revokes the subject's current reset capability, if one exists. */
 	revokeForSubject(subject: string): Promise<void>;
 }
+
+/**
+ * A TOTP enrolment as persisted.
+ *
+ * The secret is stored as-is because RFC 6238 needs it to compute codes; it
+ * cannot be hashed the way a password or reset token is. Encrypt it at rest
+ * where the backend allows.
+ */
+export interface TotpEnrollmentRecord {
+	readonly subject: string;
+	/** Base32-encoded shared secret. */
+	readonly secret: string;
+	/** Epoch millis the enrolment was started. */
+	readonly createdAt: number;
+	/** Epoch millis the first valid code confirmed it. Absent while pending. */
+	readonly confirmedAt?: number;
+	/** The highest RFC 6238 time step accepted so far. */
+	readonly lastUsedStep?: number;
+}
+
+/**
+ * Atomic persistence for second factors.
+ *
+ * Step claims and recovery-code consumption are named operations for the same
+ * reason {@link PasswordResetStore}'s are: a code is single-use, and composing
+ * "read the last step, compare, write" from key-value calls lets two replicas
+ * accept the same code. Implementations should use a transaction or
+ * compare-and-set; the conformance suite proves the visible contract.
+ */
+export interface MfaStore {
+	readTotp(subject: string): Promise<TotpEnrollmentRecord | undefined>;
+	/** Replaces any enrolment for the subject, pending or confirmed. */
+	writeTotp(record: TotpEnrollmentRecord): Promise<void>;
+	/**
+	 * Atomically records `step` as used when it is greater than the last used
+	 * step, confirming a pending enrolment at `now`. Resolves false for a replay,
+	 * an older step, or a missing enrolment. Exactly one concurrent caller may
+	 * win a given step.
+	 */
+	claimTotpStep(subject: string, step: number, now: number): Promise<boolean>;
+	deleteTotp(subject: string): Promise<void>;
+	/** Atomically replaces every recovery-code digest the subject holds. */
+	replaceRecoveryCodes(
+		subject: string,
+		digests: readonly string[]
+	): Promise<void>;
+	/** Atomically removes one digest. Exactly one concurrent caller may win. */
+	consumeRecoveryCode(subject: string, digest: string): Promise<boolean>;
+	countRecoveryCodes(subject: string): Promise<number>;
+}
+
+/** A registered passkey as persisted. Only public material is stored. */
+export interface PasskeyCredentialRecord {
+	/** base64url credential id, unique across every subject. */
+	readonly credentialId: string;
+	readonly subject: string;
+	/** base64url user handle the authenticator holds for the subject. */
+	readonly userHandle: string;
+	/** base64url COSE public key, exactly as the authenticator reported it. */
+	readonly publicKey: string;
+	/** COSE algorithm identifier. */
+	readonly algorithm: number;
+	/** The authenticator's signature counter at the last accepted use. */
+	readonly signCount: number;
+	readonly transports?: readonly string[];
+	/** True when the credential is synced between devices (backup state). */
+	readonly backedUp: boolean;
+	readonly createdAt: number;
+	readonly lastUsedAt?: number;
+}
+
+/** An issued WebAuthn challenge, awaiting its single response. */
+export interface PasskeyChallengeRecord {
+	/** base64url challenge, as sent to the browser. */
+	readonly challenge: string;
+	readonly ceremony: 'registration' | 'authentication';
+	/** Set for registration, and for sign-ins restricted to one subject. */
+	readonly subject?: string;
+	/** Epoch millis. The challenge is invalid at and after this instant. */
+	readonly expiresAt: number;
+}
+
+/**
+ * Atomic persistence for passkeys and their ceremony challenges.
+ *
+ * Challenge consumption and sign-count advancement are named atomic operations.
+ * A challenge answered twice is a replay, and a counter updated by
+ * read-then-write lets a cloned authenticator slip through while the original
+ * is in use on another replica.
+ */
+export interface PasskeyStore {
+	/** Stores a new credential. Resolves false if the credential id already exists. */
+	create(record: PasskeyCredentialRecord): Promise<boolean>;
+	findByCredentialId(
+		credentialId: string
+	): Promise<PasskeyCredentialRecord | undefined>;
+	listForSubject(subject: string): Promise<readonly PasskeyCredentialRecord[]>;
+	/**
+	 * Atomically sets the counter and last-use time, only if the stored counter
+	 * still equals `expected`. Resolves false when another writer got there first.
+	 */
+	updateSignCount(
+		credentialId: string,
+		expected: number,
+		next: number,
+		usedAt: number
+	): Promise<boolean>;
+	delete(credentialId: string): Promise<void>;
+	saveChallenge(record: PasskeyChallengeRecord): Promise<void>;
+	/** Atomically returns and removes one live challenge. Exactly one concurrent caller may win. */
+	consumeChallenge(
+		challenge: string,
+		now: number
+	): Promise<PasskeyChallengeRecord | undefined>;
+}
+
+/**
+ * A pending passwordless sign-in as persisted.
+ *
+ * Neither the link token, the code, nor the browser-binding value is stored,
+ * only digests of them.
+ */
+export interface PasswordlessRecord {
+	/**
+	 * Lowercase SHA-256 digest of the link token, or of the identifier and code
+	 * together for a code sign-in.
+	 */
+	readonly digest: string;
+	readonly method: 'link' | 'code';
+	/** The normalised identifier, typically an email address. */
+	readonly identifier: string;
+	/** Lowercase SHA-256 digest of the value held in the requesting browser. */
+	readonly bindingDigest: string;
+	/** Epoch millis. The record is invalid at and after this instant. */
+	readonly expiresAt: number;
+	/** Wrong codes left before the record is discarded. */
+	readonly attemptsRemaining: number;
+}
+
+/**
+ * Atomic persistence for passwordless sign-ins.
+ *
+ * Shaped like {@link PasswordResetStore}, plus a code path: a six-digit code
+ * is guessable, so a wrong guess must spend an attempt in the same atomic
+ * operation that would have redeemed a right one.
+ */
+export interface PasswordlessStore {
+	/** Atomically revokes any pending record for the identifier and stores this one. */
+	replace(record: PasswordlessRecord): Promise<void>;
+	/** Atomically returns and removes one live link record. Exactly one concurrent caller may win. */
+	consumeLink(
+		digest: string,
+		now: number
+	): Promise<PasswordlessRecord | undefined>;
+	/**
+	 * Atomically returns and removes the identifier's live code record if its
+	 * digest matches. A mismatch spends one attempt, and the record is removed
+	 * when none remain. A record whose `bindingDigest` differs is left
+	 * untouched: a browser that did not request the code cannot spend it.
+	 */
+	consumeCode(
+		identifier: string,
+		digest: string,
+		bindingDigest: string,
+		now: number
+	): Promise<PasswordlessRecord | undefined>;
+	/** Revokes the identifier's pending record, if one exists. */
+	revokeForIdentifier(identifier: string): Promise<void>;
+}
+
+/** An API key as persisted. The secret half is never stored, only its digest. */
+export interface ApiKeyRecord {
+	/** The public half, embedded in the key and safe to display. */
+	readonly id: string;
+	readonly subject: string;
+	/** A label the owner chose, e.g. "CI deploys". */
+	readonly name: string;
+	/** Lowercase SHA-256 digest of the secret half. */
+	readonly digest: string;
+	readonly scopes: readonly string[];
+	readonly createdAt: number;
+	/** Epoch millis. The key is invalid at and after this instant. */
+	readonly expiresAt?: number;
+	readonly lastUsedAt?: number;
+	readonly revokedAt?: number;
+}
+
+/**
+ * Persistence for API keys.
+ *
+ * Keys are looked up by their public id and the digest compared afterwards, so
+ * an implementation never needs an index over secrets.
+ */
+export interface ApiKeyStore {
+	/** Stores a new key. Resolves false if the id already exists. */
+	create(record: ApiKeyRecord): Promise<boolean>;
+	findById(id: string): Promise<ApiKeyRecord | undefined>;
+	/** Every key the subject owns, revoked and expired ones included. */
+	listForSubject(subject: string): Promise<readonly ApiKeyRecord[]>;
+	/** Records a use. Never moves `lastUsedAt` backwards. */
+	touch(id: string, usedAt: number): Promise<void>;
+	/** Marks a key revoked. Resolves false if it was unknown or already revoked. */
+	revoke(id: string, revokedAt: number): Promise<boolean>;
+}
+
+/**
+ * A relationship between a subject and an object, in the Zanzibar style:
+ * `u_1` is an `editor` of `doc:42`.
+ */
+export interface RelationTuple {
+	readonly subject: string;
+	readonly relation: string;
+	readonly objectType: string;
+	readonly objectId: string;
+}
+
+/** The question a relationship policy asks. */
+export interface RelationQuery {
+	readonly subject: string;
+	/** Any one of these relations satisfies the check. */
+	readonly relations: readonly string[];
+	readonly objectType: string;
+	readonly objectId: string;
+}
+
+/**
+ * Persistence for relationship tuples.
+ *
+ * Deliberately flat: no relation implies another here. A policy that should
+ * admit owners as editors says so by asking for both, which keeps every grant
+ * visible at the point it is checked.
+ */
+export interface RelationStore {
+	/** Records a tuple. Writing one that already exists changes nothing. */
+	write(tuple: RelationTuple): Promise<void>;
+	/** Removes a tuple. Resolves false if it was not there. */
+	delete(tuple: RelationTuple): Promise<boolean>;
+	check(query: RelationQuery): Promise<boolean>;
+	/** Every tuple on an object, for a sharing dialog. */
+	listForObject(
+		objectType: string,
+		objectId: string
+	): Promise<readonly RelationTuple[]>;
+}
+
+/** One external identity linked to a local subject. */
+export interface IdentityLinkRecord {
+	/** The provider's `id`, as configured on the OAuth client. */
+	readonly provider: string;
+	/** The provider's stable `sub` for this person. */
+	readonly providerSubject: string;
+	readonly subject: string;
+	/** The address the provider reported at linking time, for display. */
+	readonly email?: string;
+	readonly linkedAt: number;
+}
+
+/**
+ * Persistence for external identities linked to local subjects.
+ *
+ * `(provider, providerSubject)` is unique: one Google account signs in to one
+ * local account. A subject may hold any number of links.
+ */
+export interface IdentityLinkStore {
+	/**
+	 * Stores a link. Resolves false, changing nothing, if that provider
+	 * identity is already linked to any subject.
+	 */
+	create(record: IdentityLinkRecord): Promise<boolean>;
+	find(
+		provider: string,
+		providerSubject: string
+	): Promise<IdentityLinkRecord | undefined>;
+	listForSubject(subject: string): Promise<readonly IdentityLinkRecord[]>;
+	/** Removes a link. Resolves false if it was not there. */
+	delete(provider: string, providerSubject: string): Promise<boolean>;
+}
+
+/**
+ * An authorization code issued by this application acting as an authorization
+ * server. Only a digest of the code is stored.
+ */
+export interface AuthorizationCodeRecord {
+	/** Lowercase SHA-256 digest of the code. */
+	readonly digest: string;
+	readonly clientId: string;
+	readonly subject: string;
+	/** Exactly as sent to `/authorize`; the token request must repeat it. */
+	readonly redirectUri: string;
+	readonly scopes: readonly string[];
+	/** The S256 PKCE challenge the token request must answer. */
+	readonly codeChallenge: string;
+	readonly nonce?: string;
+	/** Epoch millis the subject last proved a factor, for `auth_time`. */
+	readonly authTime: number;
+	/** Epoch millis. The code is invalid at and after this instant. */
+	readonly expiresAt: number;
+}
+
+/** One refresh token in a rotation family. Only a digest is stored. */
+export interface RefreshGrantRecord {
+	/** Lowercase SHA-256 digest of the refresh token. */
+	readonly digest: string;
+	/** Shared by every token rotated from one authorization. */
+	readonly familyId: string;
+	readonly clientId: string;
+	readonly subject: string;
+	readonly scopes: readonly string[];
+	readonly authTime: number;
+	readonly issuedAt: number;
+	/** Epoch millis. Inherited by rotated tokens, so a family cannot live forever. */
+	readonly expiresAt: number;
+	/** Set once the token has been exchanged for its successor. */
+	readonly usedAt?: number;
+	readonly revokedAt?: number;
+}
+
+/** Scopes a subject has allowed a client to receive. */
+export interface ConsentRecord {
+	readonly subject: string;
+	readonly clientId: string;
+	readonly scopes: readonly string[];
+	readonly grantedAt: number;
+}
+
+/**
+ * Persistence for an authorization server's codes, refresh tokens, and consent.
+ *
+ * Code redemption and refresh-token use are single named operations because
+ * both must have exactly one winner under concurrency: two redemptions of one
+ * code, or two uses of one refresh token, is the attack being detected.
+ */
+export interface AuthorizationServerStore {
+	saveCode(record: AuthorizationCodeRecord): Promise<void>;
+	/**
+	 * Atomically returns and removes a code that has not expired. Exactly one
+	 * concurrent caller may receive it.
+	 */
+	consumeCode(
+		digest: string,
+		now: number
+	): Promise<AuthorizationCodeRecord | undefined>;
+	saveRefreshGrant(record: RefreshGrantRecord): Promise<void>;
+	/**
+	 * Atomically marks a refresh token used. Resolves `first` with the record
+	 * for the one caller that used it first, `reused` for every later caller,
+	 * and undefined for an unknown digest. Expiry and revocation are left to
+	 * the caller to judge from the record.
+	 */
+	useRefreshGrant(
+		digest: string,
+		now: number
+	): Promise<
+		| {
+				readonly outcome: 'first' | 'reused';
+				readonly record: RefreshGrantRecord;
+		  }
+		| undefined
+	>;
+	/** Revokes every token in a family, used or not. */
+	revokeRefreshFamily(familyId: string, revokedAt: number): Promise<void>;
+	findConsent(
+		subject: string,
+		clientId: string
+	): Promise<ConsentRecord | undefined>;
+	/** Stores consent, replacing any earlier record for the pair. */
+	saveConsent(record: ConsentRecord): Promise<void>;
+	/** Removes consent. Resolves false if there was none. */
+	revokeConsent(subject: string, clientId: string): Promise<boolean>;
+}
@@ -164,6 +164,94 @@ export class InvalidResetTokenError extends Data.TaggedError(
 	readonly safeMessage = 'This password reset link is invalid or expired.';
 }
 
+/**
+ * A one-time code or recovery code was wrong, replayed, or not expected.
+ *
+ * One member for every case, for the same reason sign-in has one: telling a
+ * caller "no authenticator is enrolled" or "that code was already used" hands
+ * a prober facts about the account.
+ */
+export class InvalidOtpError extends Data.TaggedError(
+	'InvalidOtpError'
+)<SafeErrorFields> {
+	constructor(args: SafeErrorFields = {}) {
+		super(args);
+	}
+
+	readonly safeMessage = 'Invalid verification code.';
+}
+
+/** A sign-in link is malformed, expired, replaced, consumed, or opened elsewhere. */
+export class InvalidSignInLinkError extends Data.TaggedError(
+	'InvalidSignInLinkError'
+)<SafeErrorFields> {
+	constructor(args: SafeErrorFields = {}) {
+		super(args);
+	}
+
+	// Opened in another browser reads the same as expired, so a forwarded link
+	// tells whoever received it nothing about why it failed.
+	readonly safeMessage = 'This sign-in link is invalid or expired.';
+}
+
+/**
+ * A WebAuthn registration or assertion failed verification.
+ *
+ * Wrong origin, replayed challenge, bad signature, and a cloned authenticator's
+ * stale counter all surface as this one member. Which check failed is in
+ * `detail`; a client learning it would learn which forgery to refine.
+ */
+export class PasskeyVerificationError extends Data.TaggedError(
+	'PasskeyVerificationError'
+)<SafeErrorFields> {
+	constructor(args: SafeErrorFields = {}) {
+		super(args);
+	}
+
+	readonly safeMessage = 'Passkey verification failed.';
+}
+
+/** Why an external identity could not be linked, used, or removed. */
+export type IdentityLinkFailure =
+	/** No local account is linked to this identity. */
+	| 'not-linked'
+	/**
+	 * A local account has this identity's email, but the identity is not linked
+	 * to it and automatic linking did not apply.
+	 */
+	| 'email-in-use'
+	/** The identity is already linked to a different account. */
+	| 'linked-elsewhere'
+	/** The session is too old to change how the account signs in. */
+	| 'reauthentication-required'
+	/** Removing the link would leave the account with no way to sign in. */
+	| 'last-sign-in-method';
+
+/**
+ * Linking, signing in with, or unlinking an external identity was refused.
+ *
+ * `not-linked` and `email-in-use` share one message. Telling a stranger that
+ * an address has an account here is enumeration; the application can still
+ * branch on `reason` to offer "sign in another way, then link".
+ */
+export class IdentityLinkError extends Data.TaggedError('IdentityLinkError')<
+	SafeErrorFields & { readonly reason: IdentityLinkFailure }
+> {
+	get safeMessage(): string {
+		switch (this.reason) {
+			case 'not-linked':
+			case 'email-in-use':
+				return 'No account is linked to this sign-in.';
+			case 'linked-elsewhere':
+				return 'This sign-in is already linked to another account.';
+			case 'reauthentication-required':
+				return 'Sign in again to continue.';
+			case 'last-sign-in-method':
+				return 'Add another way to sign in before removing this one.';
+		}
+	}
+}
+
 /**
  * A token's signature did not verify under any configured secret.
  *
@@ -278,6 +366,10 @@ export type AuthError =
 	| SessionRevokedError
 	| InvalidTokenError
 	| InvalidResetTokenError
+	| InvalidOtpError
+	| InvalidSignInLinkError
+	| PasskeyVerificationError
+	| IdentityLinkError
 	| TokenSignatureMismatchError
 	| CsrfMismatchError
 	| ForbiddenError
@@ -295,6 +387,10 @@ const AUTH_ERROR_TAGS: ReadonlySet<string> = new Set([
 	'SessionRevokedError',
 	'InvalidTokenError',
 	'InvalidResetTokenError',
+	'InvalidOtpError',
+	'InvalidSignInLinkError',
+	'PasskeyVerificationError',
+	'IdentityLinkError',
 	'TokenSignatureMismatchError',
 	'CsrfMismatchError',
 	'ForbiddenError',
@@ -334,6 +430,9 @@ const statusFor = (error: AuthError): number => {
 		case 'SessionRevokedError':
 		case 'InvalidTokenError':
 		case 'TokenSignatureMismatchError':
+		case 'InvalidOtpError':
+		case 'InvalidSignInLinkError':
+		case 'PasskeyVerificationError':
 			return 401;
 		case 'PasswordPolicyError':
 		case 'InvalidResetTokenError':
@@ -341,6 +440,13 @@ const statusFor = (error: AuthError): number => {
 		case 'CsrfMismatchError':
 		case 'ForbiddenError':
 			return 403;
+		case 'IdentityLinkError':
+			// A conflict with the account's current links; signing in again does
+			// not resolve it, so it is not a 401.
+			return error.reason === 'linked-elsewhere' ||
+				error.reason === 'last-sign-in-method'
+				? 409
+				: 401;
 		case 'AccountLockedError':
 			// 423 Locked, rather than 403, so operators can separate a policy
 			// refusal from an account-state refusal in logs and dashboards.
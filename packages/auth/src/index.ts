@@ -59,9 +59,13 @@ export {
 	ConfigError,
 	CsrfMismatchError,
 	ForbiddenError,
+	IdentityLinkError,
 	InvalidCredentialsError,
+	InvalidOtpError,
 	InvalidResetTokenError,
+	InvalidSignInLinkError,
 	InvalidTokenError,
+	PasskeyVerificationError,
 	PasswordPolicyError,
 	ProviderError,
 	RateLimitedError,
@@ -73,22 +77,52 @@ export {
 	isAuthError,
 	toSafeResponseInit,
 	type AuthError,
+	type IdentityLinkFailure,
 	type SafeResponseInit,
 } from './errors.js';
 
 export type {
+	ApiKeyRecord,
+	ApiKeyStore,
 	AuthStorage,
+	AuthorizationCodeRecord,
+	AuthorizationServerStore,
 	Clock,
+	ConsentRecord,
 	CredentialRecord,
+	IdentityLinkRecord,
+	IdentityLinkStore,
 	LockHandle,
+	MfaStore,
+	PasskeyChallengeRecord,
+	PasskeyCredentialRecord,
+	PasskeyStore,
 	PasswordHasher,
 	PasswordResetRecord,
 	PasswordResetStore,
+	PasswordlessRecord,
+	PasswordlessStore,
 	RateLimitVerdict,
 	RateLimiter,
+	RefreshGrantRecord,
+	RelationQuery,
+	RelationStore,
+	RelationTuple,
 	SessionId,
+	SessionImpersonation,
 	SessionStore,
 	StoredSession,
 	TokenCodec,
+	TotpEnrollmentRecord,
 	UserStore,
 } from './contract.js';
+
+export type {
+	PasskeyAlgorithm,
+	PasskeyAuthenticationOptions,
+	PasskeyAuthenticationResponse,
+	PasskeyCredentialDescriptor,
+	PasskeyRegistrationOptions,
+	PasskeyRegistrationResponse,
+	PasskeyUserVerification,
+} from './passkey.js';
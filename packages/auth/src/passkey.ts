@@ -0,0 +1,103 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * The WebAuthn wire shapes passed between server and browser.
+ *
+ * These are the JSON forms of the `navigator.credentials` options and
+ * responses, with every binary field as base64url. They live in the isomorphic
+ * root so the server provider and the client helper agree on one definition,
+ * and so neither side has to import the other to get it.
+ */
+
+/** COSE algorithm identifiers this package verifies: ES256, EdDSA, RS256. */
+export type PasskeyAlgorithm = -7 | -8 | -257;
+
+export type PasskeyUserVerification = 'required' | 'preferred' | 'discouraged';
+
+export interface PasskeyCredentialDescriptor {
+	readonly type: 'public-key';
+	/** base64url credential id. */
+	readonly id: string;
+	readonly transports?: readonly string[];
+}
+
+/** Options for `navigator.credentials.create`, as issued by the server. */
+export interface PasskeyRegistrationOptions {
+	readonly challenge: string;
+	readonly rp: { readonly id: string; readonly name: string };
+	readonly user: {
+		/** base64url user handle. Opaque, never the subject itself. */
+		readonly id: string;
+		readonly name: string;
+		readonly displayName: string;
+	};
+	readonly pubKeyCredParams: readonly {
+		readonly type: 'public-key';
+		readonly alg: PasskeyAlgorithm;
+	}[];
+	readonly timeout: number;
+	/** The subject's existing credentials, so an authenticator is not enrolled twice. */
+	readonly excludeCredentials: readonly PasskeyCredentialDescriptor[];
+	readonly authenticatorSelection: {
+		readonly residentKey: 'required' | 'preferred' | 'discouraged';
+		readonly userVerification: PasskeyUserVerification;
+	};
+	readonly attestation: 'none' | 'direct';
+}
+
+/** Options for `navigator.credentials.get`, as issued by the server. */
+export interface PasskeyAuthenticationOptions {
+	readonly challenge: string;
+	readonly rpId: string;
+	readonly timeout: number;
+	/** Empty for a discoverable ("usernameless") sign-in. */
+	readonly allowCredentials: readonly PasskeyCredentialDescriptor[];
+	readonly userVerification: PasskeyUserVerification;
+}
+
+/** A new credential, as the browser returns it to the server. */
+export interface PasskeyRegistrationResponse {
+	readonly id: string;
+	readonly rawId: string;
+	readonly type: 'public-key';
+	readonly response: {
+		readonly clientDataJSON: string;
+		readonly attestationObject: string;
+		readonly transports?: readonly string[];
+	};
+}
+
+/** An assertion, as the browser returns it to the server. */
+export interface PasskeyAuthenticationResponse {
+	readonly id: string;
+	readonly rawId: string;
+	readonly type: 'public-key';
+	readonly response: {
+		readonly clientDataJSON: string;
+		readonly authenticatorData: string;
+		readonly signature: string;
+		readonly userHandle?: string | null;
+	};
+}
@@ -0,0 +1,343 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * API keys for machine clients.
+ *
+ * A key is `<prefix>_<id>_<secret>`. The id is public — it is what the store is
+ * indexed by and what a key list displays — and the secret is random and never
+ * stored: only its SHA-256 digest is. A full-entropy secret needs no slow hash,
+ * because there is no dictionary to run against it. The prefix exists so a
+ * leaked key is recognisable to secret scanners and to whoever finds it in a
+ * log.
+ *
+ * A verified key becomes an ordinary `Session<Shape>` carrying `apiKey`, so the
+ * policy guard needs no second code path. What a key may reach is decided by
+ * the policies: a route only admits keys through a `scope(...)` rule, so adding
+ * key support to an application does not quietly open every route a signed-in
+ * user could reach.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { ClaimsShape, InferClaims } from '../claims.js';
+import type {
+	ApiKeyRecord,
+	ApiKeyStore,
+	Clock,
+	SessionId,
+} from '../contract.js';
+import {
+	ConfigError,
+	InvalidTokenError,
+	SessionExpiredError,
+	SessionRevokedError,
+	type AuthError,
+} from '../errors.js';
+import type { Session } from './session-engine.js';
+
+export const DEFAULT_API_KEY_PREFIX = 'efk';
+export const DEFAULT_API_KEY_TOUCH_INTERVAL_MS = 60_000;
+
+const ID_BYTES = 12;
+const SECRET_BYTES = 32;
+const PREFIX_PATTERN = /^[a-z][a-z0-9]{1,15}$/;
+const SCOPE_PATTERN = /^[A-Za-z0-9_.-]+(?::[A-Za-z0-9_.-]+)*$/;
+const MAX_NAME_LENGTH = 100;
+
+/** A key as shown to its owner: the record without its digest. */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'digest'>;
+
+export interface ApiKeyServiceOptions<Shape extends ClaimsShape> {
+	readonly store: ApiKeyStore;
+	readonly clock: Clock;
+	/**
+	 * Loads the owner's current claims each time a key is used, so a role
+	 * removed from the user is removed from their keys at once. Return
+	 * `undefined` to refuse the key, for example when the account is disabled.
+	 */
+	readonly resolveUser: (
+		subject: string
+	) => Promise<InferClaims<Shape> | undefined>;
+	/** Leads every key. Lowercase letters and digits. Defaults to `efk`. */
+	readonly prefix?: string;
+	/**
+	 * The longest lifetime a key may be issued with. Unset allows keys that
+	 * never expire.
+	 */
+	readonly maxTtlMs?: number;
+	/**
+	 * How stale `lastUsedAt` may get before a use writes it again. Defaults to a
+	 * minute, which keeps a busy key from costing a store write per request.
+	 */
+	readonly touchIntervalMs?: number;
+}
+
+export interface IssueApiKeyInput {
+	readonly subject: string;
+	readonly name: string;
+	readonly scopes: readonly string[];
+	/** Lifetime from now. Required when `maxTtlMs` is configured. */
+	readonly ttlMs?: number;
+}
+
+export interface IssueApiKeyResult {
+	/** The full key. Shown to the owner once; it cannot be recovered later. */
+	readonly key: string;
+	readonly info: ApiKeyInfo;
+}
+
+export type VerifyApiKeyResult<Shape extends ClaimsShape> =
+	| {
+			readonly ok: true;
+			readonly session: Session<Shape>;
+			readonly info: ApiKeyInfo;
+	  }
+	| { readonly ok: false; readonly error: AuthError };
+
+type SessionResolver<Shape extends ClaimsShape> = (
+	request: Request
+) => Promise<{
+	readonly session: Session<Shape> | undefined;
+	readonly setCookies?: readonly string[];
+}>;
+
+export interface ApiKeyService<Shape extends ClaimsShape> {
+	issue(input: IssueApiKeyInput): Promise<IssueApiKeyResult>;
+	/** Verifies a raw key and builds the session it stands for. */
+	verify(key: string): Promise<VerifyApiKeyResult<Shape>>;
+	/**
+	 * Reads `Authorization: Bearer` from a request. Resolves `undefined` when the
+	 * request carries no bearer token with this service's prefix, so other
+	 * bearer schemes can share the header.
+	 */
+	fromRequest(request: Request): Promise<VerifyApiKeyResult<Shape> | undefined>;
+	/**
+	 * Wraps a guard's `resolveSession` so that requests presenting a key are
+	 * resolved by it and all others fall through to `fallback`.
+	 *
+	 * A request that presents a key is never also resolved by cookie: a key that
+	 * fails is anonymous, not a browser session, so a bad key in a script never
+	 * borrows the developer's own sign-in.
+	 */
+	sessionResolver(fallback: SessionResolver<Shape>): SessionResolver<Shape>;
+	list(subject: string): Promise<readonly ApiKeyInfo[]>;
+	/** Revokes one of the subject's keys. Resolves false if it was not theirs. */
+	revoke(subject: string, id: string): Promise<boolean>;
+}
+
+const sha256 = (value: string): Buffer =>
+	createHash('sha256').update(value, 'utf8').digest();
+
+// Built field by field, so a field later added to the record is not shown to
+// owners until someone decides it should be.
+const toInfo = (record: ApiKeyRecord): ApiKeyInfo => ({
+	id: record.id,
+	subject: record.subject,
+	name: record.name,
+	scopes: record.scopes,
+	createdAt: record.createdAt,
+	...(record.expiresAt === undefined ? {} : { expiresAt: record.expiresAt }),
+	...(record.lastUsedAt === undefined ? {} : { lastUsedAt: record.lastUsedAt }),
+	...(record.revokedAt === undefined ? {} : { revokedAt: record.revokedAt }),
+});
+
+const bearerToken = (request: Request): string | undefined => {
+	const header = request.headers.get('authorization');
+	if (header === null) return undefined;
+	// RFC 6750 §2.1: the scheme is case-insensitive, the token is not.
+	const match = /^Bearer +(\S+) *$/i.exec(header);
+	return match?.[1];
+};
+
+export const createApiKeyService = <Shape extends ClaimsShape>(
+	options: ApiKeyServiceOptions<Shape>
+): ApiKeyService<Shape> => {
+	const {
+		store,
+		clock,
+		resolveUser,
+		prefix = DEFAULT_API_KEY_PREFIX,
+		maxTtlMs,
+		touchIntervalMs = DEFAULT_API_KEY_TOUCH_INTERVAL_MS,
+	} = options;
+
+	if (!PREFIX_PATTERN.test(prefix)) {
+		throw new ConfigError({
+			path: 'apiKeys.prefix',
+			reason:
+				'Expected 2 to 16 lowercase letters and digits, starting with a letter.',
+		});
+	}
+	if (maxTtlMs !== undefined && (!Number.isFinite(maxTtlMs) || maxTtlMs <= 0)) {
+		throw new ConfigError({
+			path: 'apiKeys.maxTtlMs',
+			reason: 'Expected a positive finite duration.',
+		});
+	}
+	if (!Number.isFinite(touchIntervalMs) || touchIntervalMs < 0) {
+		throw new ConfigError({
+			path: 'apiKeys.touchIntervalMs',
+			reason: 'Expected a non-negative finite duration.',
+		});
+	}
+
+	const keyPattern = new RegExp(
+		`^${prefix}_([0-9a-f]{${String(ID_BYTES * 2)}})_([A-Za-z0-9_-]{43})$`
+	);
+
+	const invalid = (detail: string) =>
+		({
+			ok: false,
+			error: new InvalidTokenError({ kind: 'api-key', detail }),
+		}) as const;
+
+	const verify = async (key: string): Promise<VerifyApiKeyResult<Shape>> => {
+		const parsed = keyPattern.exec(key);
+		const id = parsed?.[1];
+		const secret = parsed?.[2];
+		if (id === undefined || secret === undefined) {
+			return invalid('Malformed API key.');
+		}
+
+		const record = await store.findById(id);
+		// Digests are compared even when the id is unknown, so the response time
+		// does not say which half of a guessed key was wrong.
+		const expected = Buffer.from(record?.digest ?? '0'.repeat(64), 'hex');
+		const presented = sha256(secret);
+		const matches =
+			expected.length === presented.length &&
+			timingSafeEqual(expected, presented);
+		if (record === undefined || !matches) return invalid('Unknown API key.');
+
+		const now = clock.now();
+		if (record.revokedAt !== undefined) {
+			return {
+				ok: false,
+				error: new SessionRevokedError({ detail: 'API key revoked.' }),
+			};
+		}
+		if (record.expiresAt !== undefined && record.expiresAt <= now) {
+			return {
+				ok: false,
+				error: new SessionExpiredError({ detail: 'API key expired.' }),
+			};
+		}
+
+		const claims = await resolveUser(record.subject);
+		if (claims === undefined) return invalid('Key owner refused.');
+
+		if (
+			record.lastUsedAt === undefined ||
+			now - record.lastUsedAt >= touchIntervalMs
+		) {
+			await store.touch(id, now);
+		}
+
+		const session: Session<Shape> = {
+			id: `apikey:${id}` as SessionId,
+			subject: record.subject,
+			claims,
+			createdAt: record.createdAt,
+			lastSeenAt: now,
+			absoluteExpiresAt: record.expiresAt ?? Number.MAX_SAFE_INTEGER,
+			apiKey: { id, scopes: record.scopes },
+		};
+		return { ok: true, session, info: toInfo({ ...record, lastUsedAt: now }) };
+	};
+
+	const fromRequest = async (
+		request: Request
+	): Promise<VerifyApiKeyResult<Shape> | undefined> => {
+		const token = bearerToken(request);
+		if (token?.startsWith(`${prefix}_`) !== true) return undefined;
+		return verify(token);
+	};
+
+	return {
+		issue: async ({ subject, name, scopes, ttlMs }) => {
+			if (name.trim() === '' || name.length > MAX_NAME_LENGTH) {
+				throw new ConfigError({
+					path: 'apiKeys.name',
+					reason: `Expected 1 to ${String(MAX_NAME_LENGTH)} characters.`,
+				});
+			}
+			const invalidScope = scopes.find((scope) => !SCOPE_PATTERN.test(scope));
+			if (invalidScope !== undefined) {
+				throw new ConfigError({
+					path: 'apiKeys.scopes',
+					reason: `"${invalidScope}" is not a valid scope.`,
+				});
+			}
+			if (ttlMs !== undefined && (!Number.isFinite(ttlMs) || ttlMs <= 0)) {
+				throw new ConfigError({
+					path: 'apiKeys.ttlMs',
+					reason: 'Expected a positive finite duration.',
+				});
+			}
+			if (maxTtlMs !== undefined && (ttlMs === undefined || ttlMs > maxTtlMs)) {
+				throw new ConfigError({
+					path: 'apiKeys.ttlMs',
+					reason: `Keys must expire within ${String(maxTtlMs)}ms.`,
+				});
+			}
+
+			const createdAt = clock.now();
+			const secret = randomBytes(SECRET_BYTES).toString('base64url');
+			for (;;) {
+				const id = randomBytes(ID_BYTES).toString('hex');
+				const record: ApiKeyRecord = {
+					id,
+					subject,
+					name: name.trim(),
+					digest: sha256(secret).toString('hex'),
+					scopes: [...new Set(scopes)],
+					createdAt,
+					...(ttlMs === undefined ? {} : { expiresAt: createdAt + ttlMs }),
+				};
+				// 96 random bits collide in practice never; the loop is for a store
+				// that reports one anyway rather than overwriting.
+				if (await store.create(record)) {
+					return { key: `${prefix}_${id}_${secret}`, info: toInfo(record) };
+				}
+			}
+		},
+
+		verify,
+		fromRequest,
+
+		sessionResolver: (fallback) => async (request) => {
+			const result = await fromRequest(request);
+			if (result === undefined) return fallback(request);
+			return { session: result.ok ? result.session : undefined };
+		},
+
+		list: async (subject) => (await store.listForSubject(subject)).map(toInfo),
+
+		revoke: async (subject, id) => {
+			const record = await store.findById(id);
+			if (record?.subject !== subject) return false;
+			return store.revoke(id, clock.now());
+		},
+	};
+};
@@ -0,0 +1,139 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * The applications allowed to sign users in through this server.
+ *
+ * Redirect URIs are compared exactly — no prefix, no wildcard, no ignoring the
+ * query. Every looser comparison has been an open redirect somewhere, and an
+ * open redirect on an authorization server delivers codes to an attacker.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { ConfigError } from '../../errors.js';
+import { isSafeOAuthEndpoint } from '../oauth/utils.js';
+
+export interface RegisteredClient {
+	readonly clientId: string;
+	/** Shown on the consent screen. */
+	readonly name: string;
+	readonly redirectUris: readonly string[];
+	/**
+	 * Lowercase SHA-256 digest of the client secret, from
+	 * {@link digestClientSecret}. Omit for a public client — a native or
+	 * browser app that cannot keep a secret. PKCE is required either way.
+	 */
+	readonly secretDigest?: string;
+	/** The scopes this client may request. `openid` is needed for ID tokens. */
+	readonly scopes: readonly string[];
+	/**
+	 * Skips the consent screen. For your own first-party apps only: consent is
+	 * what stops a third party from reading data the user never agreed to share.
+	 */
+	readonly firstParty?: boolean;
+}
+
+export interface ClientRegistry {
+	find(clientId: string): Promise<RegisteredClient | undefined>;
+}
+
+/** Digests a client secret for {@link RegisteredClient.secretDigest}. */
+export const digestClientSecret = (secret: string): string =>
+	createHash('sha256').update(secret).digest('hex');
+
+/** Compares a presented secret with a stored digest in constant time. */
+export const clientSecretMatches = (
+	client: RegisteredClient,
+	presented: string
+): boolean => {
+	if (client.secretDigest === undefined) return false;
+	const expected = Buffer.from(client.secretDigest, 'hex');
+	const actual = Buffer.from(digestClientSecret(presented), 'hex');
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const SCOPE_PATTERN = /^[\x21\x23-\x5b\x5d-\x7e]+$/;
+
+const validateRedirectUri = (clientId: string, uri: string): void => {
+	const fail = (reason: string) =>
+		new ConfigError({
+			path: `authorizationServer.clients.${clientId}.redirectUris`,
+			reason,
+		});
+
+	if (!isSafeOAuthEndpoint(uri)) {
+		throw fail(`"${uri}" must be https, or http on a loopback host.`);
+	}
+	if (new URL(uri).hash !== '') {
+		throw fail(`"${uri}" must not carry a fragment.`);
+	}
+};
+
+/** A fixed registry, validated once at startup. */
+export const createClientRegistry = (
+	clients: readonly RegisteredClient[]
+): ClientRegistry => {
+	const byId = new Map<string, RegisteredClient>();
+
+	for (const client of clients) {
+		const path = `authorizationServer.clients.${client.clientId}`;
+		if (client.clientId.length === 0 || byId.has(client.clientId)) {
+			throw new ConfigError({
+				path: 'authorizationServer.clients',
+				reason: `Client ids must be unique and non-empty; "${client.clientId}" is not.`,
+			});
+		}
+		if (client.redirectUris.length === 0) {
+			throw new ConfigError({
+				path: `${path}.redirectUris`,
+				reason: 'Expected at least one redirect URI.',
+			});
+		}
+		for (const uri of client.redirectUris) {
+			validateRedirectUri(client.clientId, uri);
+		}
+		if (
+			client.secretDigest !== undefined &&
+			!/^[0-9a-f]{64}$/.test(client.secretDigest)
+		) {
+			throw new ConfigError({
+				path: `${path}.secretDigest`,
+				reason:
+					'Expected a digest from digestClientSecret, not the secret itself.',
+			});
+		}
+		for (const scope of client.scopes) {
+			if (!SCOPE_PATTERN.test(scope)) {
+				throw new ConfigError({
+					path: `${path}.scopes`,
+					reason: `"${scope}" is not a valid scope token.`,
+				});
+			}
+		}
+		byId.set(client.clientId, structuredClone(client));
+	}
+
+	return {
+		find: (clientId) => Promise.resolve(byId.get(clientId)),
+	};
+};
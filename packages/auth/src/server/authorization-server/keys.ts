@@ -0,0 +1,244 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * Signing keys for an authorization server, and the JWS they produce.
+ *
+ * Rotation is scheduled rather than switched. Every configured key is
+ * published in the JWKS from the moment it is configured, but a key signs only
+ * from its `activeFrom` instant. Adding the next key a day ahead gives every
+ * relying party's JWKS cache time to pick it up before the first token signed
+ * with it arrives — switching outright would fail verification at every client
+ * still holding yesterday's key set. The old key stays published until the
+ * last token it signed has expired, and is then removed from configuration.
+ */
+
+import {
+	createPublicKey,
+	generateKeyPairSync,
+	randomBytes,
+	sign as cryptoSign,
+	verify as cryptoVerify,
+	type KeyObject,
+} from 'node:crypto';
+import { ConfigError } from '../../errors.js';
+
+export type SigningAlgorithm = 'ES256' | 'RS256';
+
+export interface SigningKey {
+	/** Published as `kid`. Must be unique within the key set. */
+	readonly kid: string;
+	readonly alg: SigningAlgorithm;
+	readonly privateKey: KeyObject;
+	/** Epoch millis this key starts signing. Defaults to immediately. */
+	readonly activeFrom?: number;
+}
+
+export interface SigningKeySet {
+	/** The newest key whose `activeFrom` has passed. */
+	signer(now: number): SigningKey;
+	/** Every configured key's public half, as the `jwks_uri` serves it. */
+	jwks(): { readonly keys: readonly Record<string, unknown>[] };
+	/** The algorithms any configured key signs with. */
+	readonly algorithms: readonly SigningAlgorithm[];
+	/** Signs a payload as a compact JWS with the current key. */
+	sign(payload: Record<string, unknown>, now: number, type?: string): string;
+	/**
+	 * Verifies a compact JWS issued by this key set and returns its payload.
+	 * Resolves undefined for anything else: a foreign key, a different `typ`,
+	 * an algorithm the key does not use.
+	 */
+	verify(token: string, type?: string): Record<string, unknown> | undefined;
+}
+
+const DIGEST = 'sha256';
+
+const KEY_TYPE: Readonly<Record<SigningAlgorithm, string>> = {
+	ES256: 'ec',
+	RS256: 'rsa',
+};
+
+/** Generates a fresh key. Persist `privateKey` yourself; it is not stored. */
+export const generateSigningKey = (
+	options: {
+		readonly alg?: SigningAlgorithm;
+		readonly kid?: string;
+		readonly activeFrom?: number;
+	} = {}
+): SigningKey => {
+	const alg = options.alg ?? 'ES256';
+	const { privateKey } =
+		alg === 'ES256'
+			? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+			: generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+	return {
+		kid: options.kid ?? randomBytes(8).toString('hex'),
+		alg,
+		privateKey,
+		...(options.activeFrom === undefined
+			? {}
+			: { activeFrom: options.activeFrom }),
+	};
+};
+
+const encode = (value: unknown): string =>
+	Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decode = (segment: string): unknown => {
+	try {
+		return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+	} catch {
+		return undefined;
+	}
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ECDSA JWS signatures are raw r||s, not the DER Node produces by default.
+const signingKey = (key: SigningKey) =>
+	key.alg === 'ES256'
+		? { key: key.privateKey, dsaEncoding: 'ieee-p1363' as const }
+		: key.privateKey;
+
+export const createSigningKeySet = (
+	keys: readonly SigningKey[]
+): SigningKeySet => {
+	if (keys.length === 0) {
+		throw new ConfigError({
+			path: 'authorizationServer.keys',
+			reason: 'Expected at least one signing key.',
+		});
+	}
+
+	const byKid = new Map<string, { key: SigningKey; publicKey: KeyObject }>();
+	for (const key of keys) {
+		if (byKid.has(key.kid)) {
+			throw new ConfigError({
+				path: 'authorizationServer.keys',
+				reason: `Duplicate kid "${key.kid}".`,
+			});
+		}
+		if (key.privateKey.asymmetricKeyType !== KEY_TYPE[key.alg]) {
+			throw new ConfigError({
+				path: 'authorizationServer.keys',
+				reason: `Key "${key.kid}" is not a ${key.alg} key.`,
+			});
+		}
+		byKid.set(key.kid, { key, publicKey: createPublicKey(key.privateKey) });
+	}
+
+	const signer = (now: number): SigningKey => {
+		// Newest activation first; among keys active from the same instant, the
+		// one listed first wins, so prepending a key is how it takes over.
+		let current: SigningKey | undefined;
+		for (const key of keys) {
+			const from = key.activeFrom ?? -Infinity;
+			if (from > now) continue;
+			if (current === undefined || from > (current.activeFrom ?? -Infinity)) {
+				current = key;
+			}
+		}
+		if (current === undefined) {
+			// Every key is scheduled for the future. Signing early would hand out
+			// tokens under a key clients may not have fetched yet.
+			throw new ConfigError({
+				path: 'authorizationServer.keys',
+				reason:
+					'No key is active yet; one must have no activeFrom or one in the past.',
+			});
+		}
+		return current;
+	};
+
+	const jwks = () => ({
+		keys: [...byKid.values()].map(({ key, publicKey }) => ({
+			...(publicKey.export({ format: 'jwk' }) as Record<string, unknown>),
+			kid: key.kid,
+			alg: key.alg,
+			use: 'sig',
+		})),
+	});
+
+	return {
+		signer,
+		jwks,
+		algorithms: [...new Set(keys.map((key) => key.alg))],
+
+		sign: (payload, now, type = 'JWT') => {
+			const key = signer(now);
+			const input = `${encode({ alg: key.alg, typ: type, kid: key.kid })}.${encode(payload)}`;
+			const signature = cryptoSign(
+				DIGEST,
+				Buffer.from(input),
+				signingKey(key)
+			).toString('base64url');
+			return `${input}.${signature}`;
+		},
+
+		verify: (token, type = 'JWT') => {
+			const [header, payload, signature, ...rest] = token.split('.');
+			if (
+				header === undefined ||
+				payload === undefined ||
+				signature === undefined ||
+				rest.length > 0
+			) {
+				return undefined;
+			}
+
+			const parsedHeader = decode(header);
+			if (!isRecord(parsedHeader) || parsedHeader['typ'] !== type) {
+				return undefined;
+			}
+			const entry =
+				typeof parsedHeader['kid'] === 'string'
+					? byKid.get(parsedHeader['kid'])
+					: undefined;
+			// The algorithm comes from the key, never from the header. A header
+			// that disagrees is refused rather than obeyed.
+			if (entry === undefined || parsedHeader['alg'] !== entry.key.alg) {
+				return undefined;
+			}
+
+			let valid = false;
+			try {
+				valid = cryptoVerify(
+					DIGEST,
+					Buffer.from(`${header}.${payload}`),
+					entry.key.alg === 'ES256'
+						? { key: entry.publicKey, dsaEncoding: 'ieee-p1363' }
+						: entry.publicKey,
+					Buffer.from(signature, 'base64url')
+				);
+			} catch {
+				return undefined;
+			}
+			if (!valid) return undefined;
+
+			const claims = decode(payload);
+			return isRecord(claims) ? claims : undefined;
+		},
+	};
+};
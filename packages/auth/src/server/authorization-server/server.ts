@@ -0,0 +1,843 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * An OAuth 2.1 / OpenID Connect authorization server, so one Effuse app can be
+ * the identity provider for the others.
+ *
+ * The server side of everything `oauth/flow.ts` checks as a client, and the
+ * same rules hold from this side:
+ *
+ * - **Authorization code with PKCE only.** No implicit flow, no password
+ *   grant, and no `plain` challenge. A code without a verifier is worthless to
+ *   whoever intercepts it, for public and confidential clients alike.
+ * - **Redirect URIs match exactly.** An unknown client or unregistered URI is
+ *   answered with an error page, never a redirect: redirecting to an
+ *   unverified URI is how an authorization server becomes an open redirect.
+ * - **Codes are single-use** and live for a minute.
+ * - **Refresh tokens rotate**, and presenting a used one revokes its whole
+ *   family. Unlike a client, the server sees which token was presented, so it
+ *   can attribute reuse: either the legitimate client or a thief is holding a
+ *   stale copy, and cutting the family off ends both.
+ * - **Consent is remembered per client and scope**, and first-party clients
+ *   may skip it.
+ *
+ * Access tokens are short-lived JWTs (RFC 9068) so resource servers verify them
+ * without a store lookup. The flip side is that revoking a family stops the
+ * next refresh, not the access token already issued — hence the short default
+ * lifetime.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type {
+	AuthStorage,
+	AuthorizationServerStore,
+	Clock,
+	ConsentRecord,
+} from '../../contract.js';
+import { ConfigError } from '../../errors.js';
+import { PKCE_METHOD } from '../oauth/constants.js';
+import { verifyPkce } from '../oauth/pkce.js';
+import { isSafeOAuthEndpoint } from '../oauth/utils.js';
+import {
+	clientSecretMatches,
+	type ClientRegistry,
+	type RegisteredClient,
+} from './clients.js';
+import { createSigningKeySet, type SigningKey } from './keys.js';
+
+export const DEFAULT_AUTHORIZATION_CODE_TTL_MS = 60_000;
+export const MAX_AUTHORIZATION_CODE_TTL_MS = 10 * 60_000;
+export const DEFAULT_ACCESS_TOKEN_TTL_MS = 10 * 60_000;
+export const DEFAULT_REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60_000;
+
+const CONSENT_REQUEST_TTL_MS = 10 * 60_000;
+const CONSENT_NAMESPACE = 'authorization-server-consent';
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+const OFFLINE_ACCESS = 'offline_access';
+const CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const MAX_PARAMETER_LENGTH = 512;
+
+/** The signed-in user asking to authorize a client. */
+export interface AuthorizingUser {
+	readonly subject: string;
+	/** Epoch millis the user last proved a factor. Becomes `auth_time`. */
+	readonly authenticatedAt: number;
+}
+
+export interface RefreshTokenReuseEvent {
+	readonly familyId: string;
+	readonly clientId: string;
+	readonly subject: string;
+	readonly detectedAt: number;
+}
+
+export interface AuthorizationServerOptions {
+	/**
+	 * The issuer identifier: an https URL with no trailing slash, query, or
+	 * fragment. Endpoints are served beneath its path.
+	 */
+	readonly issuer: string;
+	readonly clients: ClientRegistry;
+	readonly store: AuthorizationServerStore;
+	/** Holds authorization requests while the user is on the consent screen. */
+	readonly storage: AuthStorage;
+	/** Newest first. See `createSigningKeySet` for how rotation is scheduled. */
+	readonly keys: readonly SigningKey[];
+	readonly clock: Clock;
+	/** Resolves the signed-in user from the browser's request, if there is one. */
+	readonly resolveUser: (
+		request: Request
+	) => Promise<AuthorizingUser | undefined>;
+	/** Where to send a browser with no session. It must return to `returnTo`. */
+	readonly signInUrl: (returnTo: string) => string;
+	/**
+	 * The application's consent page. Receives the pending request's id, and
+	 * should render `consentRequest(...)` and post the decision back.
+	 * Defaults to `<issuer>/oauth/consent?request=<id>`.
+	 */
+	readonly consentUrl?: (requestId: string) => string;
+	/**
+	 * Extra ID token claims, such as `email` and `name`. Registered claims —
+	 * `iss`, `sub`, `aud`, `exp`, `nonce` and the rest — cannot be overridden.
+	 */
+	readonly idTokenClaims?: (input: {
+		readonly subject: string;
+		readonly clientId: string;
+		readonly scopes: readonly string[];
+	}) => Promise<Readonly<Record<string, unknown>>>;
+	/** Defaults to one minute and cannot exceed ten. */
+	readonly codeTtlMs?: number;
+	/** Lifetime of access and ID tokens. Defaults to 10 minutes. */
+	readonly accessTokenTtlMs?: number;
+	/**
+	 * Lifetime of a refresh token family, counted from the original
+	 * authorization. Rotation does not extend it. Defaults to 30 days.
+	 */
+	readonly refreshTokenTtlMs?: number;
+	/** Called when a used refresh token is presented again. Alert on it. */
+	readonly onRefreshTokenReuse?: (
+		event: RefreshTokenReuseEvent
+	) => Promise<void> | void;
+}
+
+/** What the consent page shows. */
+export interface ConsentRequest {
+	readonly requestId: string;
+	readonly client: { readonly clientId: string; readonly name: string };
+	readonly scopes: readonly string[];
+}
+
+/** A verified access token, for resource servers. */
+export interface AccessTokenClaims {
+	readonly subject: string;
+	readonly clientId: string;
+	readonly scopes: readonly string[];
+	readonly expiresAt: number;
+}
+
+export type AuthorizationServerRouteHandler = (context: {
+	readonly request: Request;
+}) => Promise<Response>;
+
+/**
+ * Endpoints keyed by path, in the shape a layer's `server.api` accepts:
+ * `defineLayer({ server: { api: authorizationServer.routes } })`.
+ */
+export type AuthorizationServerRoutes = Readonly<
+	Record<
+		string,
+		{
+			readonly GET?: AuthorizationServerRouteHandler;
+			readonly POST?: AuthorizationServerRouteHandler;
+		}
+	>
+>;
+
+export interface AuthorizationServer {
+	readonly issuer: string;
+	readonly routes: AuthorizationServerRoutes;
+	/** Routes a request to its endpoint. Resolves undefined for other paths. */
+	handle(request: Request): Promise<Response | undefined>;
+	/** The pending request a consent page is about, if it belongs to this user. */
+	consentRequest(
+		request: Request,
+		requestId: string
+	): Promise<ConsentRequest | undefined>;
+	/** Records the user's decision and redirects back to the client. */
+	decideConsent(
+		request: Request,
+		decision: { readonly requestId: string; readonly allow: boolean }
+	): Promise<Response>;
+	verifyAccessToken(token: string): AccessTokenClaims | undefined;
+	/** Withdraws consent, so the client's next refresh fails. */
+	revokeConsent(subject: string, clientId: string): Promise<boolean>;
+}
+
+/** An authorization request that passed validation and awaits a code. */
+interface PendingAuthorization {
+	readonly clientId: string;
+	readonly redirectUri: string;
+	readonly scopes: readonly string[];
+	readonly codeChallenge: string;
+	readonly nonce?: string;
+	readonly state?: string;
+	readonly subject: string;
+	readonly authTime: number;
+}
+
+interface Grant {
+	readonly clientId: string;
+	readonly subject: string;
+	/** Scopes for this access token. */
+	readonly scopes: readonly string[];
+	/** Scopes the refresh family carries; a refresh may narrow, never widen. */
+	readonly grantScopes: readonly string[];
+	readonly authTime: number;
+	readonly nonce?: string;
+	readonly family?: { readonly id: string; readonly expiresAt: number };
+}
+
+const digest = (value: string): string =>
+	createHash('sha256').update(value).digest('hex');
+
+const randomToken = (): string => randomBytes(32).toString('base64url');
+
+const noStore = {
+	'Cache-Control': 'no-store',
+	Pragma: 'no-cache',
+};
+
+const json = (
+	body: unknown,
+	status = 200,
+	headers: Readonly<Record<string, string>> = noStore
+): Response =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+
+/** An RFC 6749 error response from the token endpoint. */
+const tokenError = (error: string, description?: string): Response =>
+	json(
+		{
+			error,
+			...(description === undefined ? {} : { error_description: description }),
+		},
+		error === 'invalid_client' ? 401 : 400,
+		error === 'invalid_client'
+			? { ...noStore, 'WWW-Authenticate': 'Basic realm="token"' }
+			: noStore
+	);
+
+const redirect = (location: string, status = 302): Response =>
+	new Response(null, { status, headers: { Location: location, ...noStore } });
+
+/** Space-separated scopes, deduplicated. Undefined when malformed. */
+const parseScopes = (value: string | undefined): string[] | undefined => {
+	if (value === undefined || value.trim() === '') return [];
+	const scopes = value.split(' ').filter((scope) => scope.length > 0);
+	return scopes.every((scope) => /^[\x21\x23-\x5b\x5d-\x7e]+$/.test(scope))
+		? [...new Set(scopes)]
+		: undefined;
+};
+
+const covers = (
+	consent: ConsentRecord | undefined,
+	scopes: readonly string[]
+): boolean =>
+	consent !== undefined &&
+	scopes.every((scope) => consent.scopes.includes(scope));
+
+const readBasicCredentials = (
+	header: string | null
+): { readonly id: string; readonly secret: string } | undefined => {
+	const match = /^Basic\s+([A-Za-z0-9+/=]+)$/i.exec(header ?? '');
+	if (match?.[1] === undefined) return undefined;
+	const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+	const separator = decoded.indexOf(':');
+	if (separator < 0) return undefined;
+	try {
+		// RFC 6749 §2.3.1: both halves are form-urlencoded before joining.
+		return {
+			id: decodeURIComponent(decoded.slice(0, separator)),
+			secret: decodeURIComponent(decoded.slice(separator + 1)),
+		};
+	} catch {
+		return undefined;
+	}
+};
+
+const validateTtl = (
+	path: string,
+	value: number,
+	max = Number.MAX_SAFE_INTEGER
+): void => {
+	if (!Number.isFinite(value) || value <= 0 || value > max) {
+		throw new ConfigError({
+			path: `authorizationServer.${path}`,
+			reason: `Expected a positive number of milliseconds no greater than ${String(max)}.`,
+		});
+	}
+};
+
+export const createAuthorizationServer = (
+	options: AuthorizationServerOptions
+): AuthorizationServer => {
+	const {
+		issuer,
+		clients,
+		store,
+		storage,
+		clock,
+		resolveUser,
+		signInUrl,
+		idTokenClaims,
+		codeTtlMs = DEFAULT_AUTHORIZATION_CODE_TTL_MS,
+		accessTokenTtlMs = DEFAULT_ACCESS_TOKEN_TTL_MS,
+		refreshTokenTtlMs = DEFAULT_REFRESH_TOKEN_TTL_MS,
+		onRefreshTokenReuse,
+	} = options;
+
+	let issuerUrl: URL | undefined;
+	try {
+		issuerUrl = new URL(issuer);
+	} catch {
+		issuerUrl = undefined;
+	}
+	if (
+		issuerUrl === undefined ||
+		!isSafeOAuthEndpoint(issuer) ||
+		issuerUrl.search !== '' ||
+		issuerUrl.hash !== '' ||
+		issuer.endsWith('/')
+	) {
+		throw new ConfigError({
+			path: 'authorizationServer.issuer',
+			reason:
+				'Expected an https URL with no trailing slash, query, or fragment.',
+		});
+	}
+	validateTtl('codeTtlMs', codeTtlMs, MAX_AUTHORIZATION_CODE_TTL_MS);
+	validateTtl('accessTokenTtlMs', accessTokenTtlMs);
+	validateTtl('refreshTokenTtlMs', refreshTokenTtlMs);
+
+	const keys = createSigningKeySet(options.keys);
+	const pending = storage.namespace(CONSENT_NAMESPACE);
+
+	const basePath = issuerUrl.pathname.replace(/\/$/, '');
+	const paths = {
+		discovery: `${basePath}/.well-known/openid-configuration`,
+		authorize: `${basePath}/oauth/authorize`,
+		token: `${basePath}/oauth/token`,
+		jwks: `${basePath}/oauth/jwks`,
+		consentRequest: `${basePath}/oauth/consent/request`,
+		consentDecision: `${basePath}/oauth/consent/decision`,
+	};
+	const endpoint = (path: string): string => `${issuerUrl.origin}${path}`;
+	const consentUrl =
+		options.consentUrl ??
+		((requestId: string) =>
+			`${issuer}/oauth/consent?request=${encodeURIComponent(requestId)}`);
+
+	/** Sends the browser back to the client, always with `state` and `iss`. */
+	const back = (
+		target: { readonly redirectUri: string; readonly state?: string },
+		params: Readonly<Record<string, string>>,
+		status = 302
+	): Response => {
+		const url = new URL(target.redirectUri);
+		for (const [key, value] of Object.entries(params)) {
+			url.searchParams.set(key, value);
+		}
+		if (target.state !== undefined) url.searchParams.set('state', target.state);
+		// RFC 9207, so the client can detect an authorization server mix-up.
+		url.searchParams.set('iss', issuer);
+		return redirect(url.toString(), status);
+	};
+
+	const errorPage = (description: string): Response =>
+		json({ error: 'invalid_request', error_description: description }, 400);
+
+	const issueCode = async (
+		grant: PendingAuthorization,
+		status?: number
+	): Promise<Response> => {
+		const code = randomToken();
+		await store.saveCode({
+			digest: digest(code),
+			clientId: grant.clientId,
+			subject: grant.subject,
+			redirectUri: grant.redirectUri,
+			scopes: grant.scopes,
+			codeChallenge: grant.codeChallenge,
+			...(grant.nonce === undefined ? {} : { nonce: grant.nonce }),
+			authTime: grant.authTime,
+			expiresAt: clock.now() + codeTtlMs,
+		});
+		return back(grant, { code }, status);
+	};
+
+	const hasConsent = async (
+		client: RegisteredClient,
+		subject: string,
+		scopes: readonly string[]
+	): Promise<boolean> =>
+		client.firstParty === true ||
+		covers(await store.findConsent(subject, client.clientId), scopes);
+
+	const authorize = async (request: Request): Promise<Response> => {
+		const url = new URL(request.url);
+		const param = (name: string): string | undefined => {
+			const value = url.searchParams.get(name);
+			return value === null || value.length > MAX_PARAMETER_LENGTH
+				? undefined
+				: value;
+		};
+
+		const clientId = param('client_id');
+		const redirectUri = param('redirect_uri');
+		const client =
+			clientId === undefined ? undefined : await clients.find(clientId);
+
+		// Nothing about this request can be trusted to redirect to until the
+		// client and URI are known to belong together.
+		if (
+			client === undefined ||
+			redirectUri === undefined ||
+			!client.redirectUris.includes(redirectUri)
+		) {
+			return errorPage('Unknown client or unregistered redirect URI.');
+		}
+
+		const state = param('state');
+		const target = {
+			redirectUri,
+			...(state === undefined ? {} : { state }),
+		};
+
+		if (param('response_type') !== 'code') {
+			return back(target, { error: 'unsupported_response_type' });
+		}
+
+		const codeChallenge = param('code_challenge');
+		if (
+			codeChallenge === undefined ||
+			param('code_challenge_method') !== PKCE_METHOD.S256 ||
+			!CHALLENGE_PATTERN.test(codeChallenge)
+		) {
+			return back(target, {
+				error: 'invalid_request',
+				error_description: 'PKCE with S256 is required.',
+			});
+		}
+
+		const scopes = parseScopes(param('scope'));
+		if (
+			scopes === undefined ||
+			!scopes.every((scope) => client.scopes.includes(scope))
+		) {
+			return back(target, { error: 'invalid_scope' });
+		}
+
+		const prompt = param('prompt');
+		const user = await resolveUser(request);
+		if (user === undefined) {
+			return prompt === 'none'
+				? back(target, { error: 'login_required' })
+				: redirect(signInUrl(request.url));
+		}
+
+		const nonce = param('nonce');
+		const grant: PendingAuthorization = {
+			clientId: client.clientId,
+			redirectUri,
+			scopes,
+			codeChallenge,
+			...(nonce === undefined ? {} : { nonce }),
+			...(state === undefined ? {} : { state }),
+			subject: user.subject,
+			authTime: user.authenticatedAt,
+		};
+
+		if (await hasConsent(client, user.subject, scopes)) {
+			return issueCode(grant);
+		}
+		if (prompt === 'none') {
+			return back(target, { error: 'consent_required' });
+		}
+
+		const requestId = randomToken();
+		await pending.set(requestId, grant, { ttlMs: CONSENT_REQUEST_TTL_MS });
+		return redirect(consentUrl(requestId));
+	};
+
+	/** The pending request, only for the user it was created for. */
+	const pendingFor = async (
+		request: Request,
+		requestId: string
+	): Promise<PendingAuthorization | undefined> => {
+		const [user, grant] = await Promise.all([
+			resolveUser(request),
+			pending.get<PendingAuthorization>(requestId),
+		]);
+		return user !== undefined && grant?.subject === user.subject
+			? grant
+			: undefined;
+	};
+
+	const consentRequest = async (
+		request: Request,
+		requestId: string
+	): Promise<ConsentRequest | undefined> => {
+		const grant = await pendingFor(request, requestId);
+		const client =
+			grant === undefined ? undefined : await clients.find(grant.clientId);
+		if (grant === undefined || client === undefined) return undefined;
+		return {
+			requestId,
+			client: { clientId: client.clientId, name: client.name },
+			scopes: grant.scopes,
+		};
+	};
+
+	const decideConsent = async (
+		request: Request,
+		decision: { readonly requestId: string; readonly allow: boolean }
+	): Promise<Response> => {
+		const grant = await pendingFor(request, decision.requestId);
+		if (grant === undefined) {
+			return errorPage('Unknown or expired authorization request.');
+		}
+		// Single-use, so a replayed form post cannot mint a second code.
+		await pending.delete(decision.requestId);
+
+		// 303, so the browser follows the POST with a GET.
+		if (!decision.allow) return back(grant, { error: 'access_denied' }, 303);
+
+		const existing = await store.findConsent(grant.subject, grant.clientId);
+		await store.saveConsent({
+			subject: grant.subject,
+			clientId: grant.clientId,
+			scopes: [...new Set([...(existing?.scopes ?? []), ...grant.scopes])],
+			grantedAt: clock.now(),
+		});
+		return issueCode(grant, 303);
+	};
+
+	const issueTokens = async (grant: Grant): Promise<Response> => {
+		const now = clock.now();
+		const issuedAt = Math.floor(now / 1000);
+		const expiresIn = Math.floor(accessTokenTtlMs / 1000);
+
+		const accessToken = keys.sign(
+			{
+				iss: issuer,
+				sub: grant.subject,
+				aud: grant.clientId,
+				client_id: grant.clientId,
+				scope: grant.scopes.join(' '),
+				iat: issuedAt,
+				exp: issuedAt + expiresIn,
+				jti: randomBytes(16).toString('base64url'),
+			},
+			now,
+			ACCESS_TOKEN_TYPE
+		);
+
+		let idToken: string | undefined;
+		if (grant.scopes.includes('openid')) {
+			const extra =
+				(await idTokenClaims?.({
+					subject: grant.subject,
+					clientId: grant.clientId,
+					scopes: grant.scopes,
+				})) ?? {};
+			idToken = keys.sign(
+				{
+					...extra,
+					iss: issuer,
+					sub: grant.subject,
+					aud: grant.clientId,
+					iat: issuedAt,
+					exp: issuedAt + expiresIn,
+					auth_time: Math.floor(grant.authTime / 1000),
+					...(grant.nonce === undefined ? {} : { nonce: grant.nonce }),
+					at_hash: createHash('sha256')
+						.update(accessToken)
+						.digest()
+						.subarray(0, 16)
+						.toString('base64url'),
+				},
+				now
+			);
+		}
+
+		let refreshToken: string | undefined;
+		if (grant.grantScopes.includes(OFFLINE_ACCESS)) {
+			refreshToken = randomToken();
+			await store.saveRefreshGrant({
+				digest: digest(refreshToken),
+				familyId: grant.family?.id ?? randomBytes(16).toString('hex'),
+				clientId: grant.clientId,
+				subject: grant.subject,
+				scopes: grant.grantScopes,
+				authTime: grant.authTime,
+				issuedAt: now,
+				expiresAt: grant.family?.expiresAt ?? now + refreshTokenTtlMs,
+			});
+		}
+
+		return json({
+			access_token: accessToken,
+			token_type: 'Bearer',
+			expires_in: expiresIn,
+			scope: grant.scopes.join(' '),
+			...(idToken === undefined ? {} : { id_token: idToken }),
+			...(refreshToken === undefined ? {} : { refresh_token: refreshToken }),
+		});
+	};
+
+	const authenticateClient = async (
+		request: Request,
+		form: URLSearchParams
+	): Promise<RegisteredClient | undefined> => {
+		const basic = readBasicCredentials(request.headers.get('authorization'));
+		const id = basic?.id ?? form.get('client_id') ?? undefined;
+		const secret = basic?.secret ?? form.get('client_secret') ?? undefined;
+		const client = id === undefined ? undefined : await clients.find(id);
+		if (client === undefined) return undefined;
+
+		// A confidential client must prove its secret. A public client has none
+		// to prove; the PKCE verifier is what binds the code to it.
+		if (client.secretDigest !== undefined) {
+			return secret !== undefined && clientSecretMatches(client, secret)
+				? client
+				: undefined;
+		}
+		return secret === undefined ? client : undefined;
+	};
+
+	const exchangeCode = async (
+		client: RegisteredClient,
+		form: URLSearchParams
+	): Promise<Response> => {
+		const code = form.get('code');
+		const record =
+			code === null
+				? undefined
+				: await store.consumeCode(digest(code), clock.now());
+		if (
+			record === undefined ||
+			record.clientId !== client.clientId ||
+			record.redirectUri !== form.get('redirect_uri')
+		) {
+			return tokenError('invalid_grant');
+		}
+		if (
+			!(await verifyPkce(
+				form.get('code_verifier'),
+				record.codeChallenge,
+				PKCE_METHOD.S256
+			))
+		) {
+			return tokenError('invalid_grant', 'PKCE verification failed.');
+		}
+
+		return issueTokens({
+			clientId: client.clientId,
+			subject: record.subject,
+			scopes: record.scopes,
+			grantScopes: record.scopes,
+			authTime: record.authTime,
+			...(record.nonce === undefined ? {} : { nonce: record.nonce }),
+		});
+	};
+
+	const refresh = async (
+		client: RegisteredClient,
+		form: URLSearchParams
+	): Promise<Response> => {
+		const presented = form.get('refresh_token');
+		const now = clock.now();
+		const used =
+			presented === null
+				? undefined
+				: await store.useRefreshGrant(digest(presented), now);
+		if (used === undefined) return tokenError('invalid_grant');
+
+		const { record } = used;
+		// A token presented twice, or by a client it was not issued to, has
+		// leaked. Whoever holds the live successor loses it too.
+		if (used.outcome === 'reused' || record.clientId !== client.clientId) {
+			await store.revokeRefreshFamily(record.familyId, now);
+			await onRefreshTokenReuse?.({
+				familyId: record.familyId,
+				clientId: record.clientId,
+				subject: record.subject,
+				detectedAt: now,
+			});
+			return tokenError('invalid_grant');
+		}
+		if (record.revokedAt !== undefined || now >= record.expiresAt) {
+			return tokenError('invalid_grant');
+		}
+		if (!(await hasConsent(client, record.subject, record.scopes))) {
+			await store.revokeRefreshFamily(record.familyId, now);
+			return tokenError('invalid_grant', 'Consent was withdrawn.');
+		}
+
+		const requested = parseScopes(form.get('scope') ?? undefined);
+		if (
+			requested === undefined ||
+			!requested.every((scope) => record.scopes.includes(scope))
+		) {
+			return tokenError('invalid_scope');
+		}
+
+		return issueTokens({
+			clientId: client.clientId,
+			subject: record.subject,
+			scopes: requested.length === 0 ? record.scopes : requested,
+			grantScopes: record.scopes,
+			authTime: record.authTime,
+			family: { id: record.familyId, expiresAt: record.expiresAt },
+		});
+	};
+
+	const token = async (request: Request): Promise<Response> => {
+		const form = new URLSearchParams(await request.text());
+		const client = await authenticateClient(request, form);
+		if (client === undefined) return tokenError('invalid_client');
+
+		switch (form.get('grant_type')) {
+			case 'authorization_code':
+				return exchangeCode(client, form);
+			case 'refresh_token':
+				return refresh(client, form);
+			default:
+				return tokenError('unsupported_grant_type');
+		}
+	};
+
+	const discovery = (): Response =>
+		json(
+			{
+				issuer,
+				authorization_endpoint: endpoint(paths.authorize),
+				token_endpoint: endpoint(paths.token),
+				jwks_uri: endpoint(paths.jwks),
+				response_types_supported: ['code'],
+				response_modes_supported: ['query'],
+				grant_types_supported: ['authorization_code', 'refresh_token'],
+				subject_types_supported: ['public'],
+				id_token_signing_alg_values_supported: keys.algorithms,
+				code_challenge_methods_supported: [PKCE_METHOD.S256],
+				token_endpoint_auth_methods_supported: [
+					'client_secret_basic',
+					'client_secret_post',
+					'none',
+				],
+				authorization_response_iss_parameter_supported: true,
+			},
+			200,
+			{ 'Cache-Control': 'public, max-age=300' }
+		);
+
+	const routes: AuthorizationServerRoutes = {
+		[paths.discovery]: { GET: () => Promise.resolve(discovery()) },
+		[paths.jwks]: {
+			GET: () =>
+				Promise.resolve(
+					json(keys.jwks(), 200, { 'Cache-Control': 'public, max-age=300' })
+				),
+		},
+		[paths.authorize]: { GET: ({ request }) => authorize(request) },
+		[paths.token]: { POST: ({ request }) => token(request) },
+		[paths.consentRequest]: {
+			GET: async ({ request }) => {
+				const details = await consentRequest(
+					request,
+					new URL(request.url).searchParams.get('request') ?? ''
+				);
+				return details === undefined
+					? json({ error: 'not_found' }, 404)
+					: json(details);
+			},
+		},
+		[paths.consentDecision]: {
+			POST: async ({ request }) => {
+				const form = new URLSearchParams(await request.text());
+				return decideConsent(request, {
+					requestId: form.get('request') ?? '',
+					allow: form.get('decision') === 'allow',
+				});
+			},
+		},
+	};
+
+	return {
+		issuer,
+		routes,
+
+		handle: async (request) => {
+			const route = routes[new URL(request.url).pathname];
+			if (route === undefined) return undefined;
+			const handler = request.method === 'POST' ? route.POST : route.GET;
+			if (handler === undefined) {
+				return new Response(null, {
+					status: 405,
+					headers: { Allow: route.POST === undefined ? 'GET' : 'POST' },
+				});
+			}
+			return handler({ request });
+		},
+
+		consentRequest,
+		decideConsent,
+
+		verifyAccessToken: (accessToken) => {
+			const claims = keys.verify(accessToken, ACCESS_TOKEN_TYPE);
+			if (
+				claims?.['iss'] !== issuer ||
+				typeof claims['sub'] !== 'string' ||
+				typeof claims['client_id'] !== 'string' ||
+				typeof claims['scope'] !== 'string' ||
+				typeof claims['exp'] !== 'number' ||
+				clock.now() >= claims['exp'] * 1000
+			) {
+				return undefined;
+			}
+			return {
+				subject: claims['sub'],
+				clientId: claims['client_id'],
+				scopes: claims['scope'].split(' ').filter((scope) => scope.length > 0),
+				expiresAt: claims['exp'] * 1000,
+			};
+		},
+
+		revokeConsent: (subject, clientId) =>
+			store.revokeConsent(subject, clientId),
+	};
+};
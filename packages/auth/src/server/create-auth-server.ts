@@ -45,7 +45,13 @@
  * ```
  */
 
-import { createSessionEngine, type Session, type SessionEngine } from './session-engine.js';
+import {
+	createSessionEngine,
+	type ImpersonationEvent,
+	type Session,
+	type SessionDevice,
+	type SessionEngine,
+} from './session-engine.js';
 import { createTokenCodec } from './token-codec.js';
 import { createCsrfGuard, type CsrfGuard } from './csrf.js';
 import { createStorageSessionStore } from './storage-session-store.js';
@@ -74,6 +80,8 @@ export interface CreateAuthServerOptions {
 	readonly store?: SessionStore;
 	/** Defaults to the system clock. Inject a test clock to control expiry. */
 	readonly clock?: Clock;
+	/** Audit sink for `engine.impersonate` and `engine.endImpersonation`. */
+	readonly onImpersonation?: (event: ImpersonationEvent) => Promise<void> | void;
 }
 
 /** The result of resolving a session from an incoming request. */
@@ -108,6 +116,8 @@ export interface AuthServer<Shape extends ClaimsShape> {
 	signIn(input: {
 		readonly subject: string;
 		readonly claims: InferClaims<Shape>;
+		/** Recorded for the signed-in devices list. */
+		readonly device?: SessionDevice;
 	}): Promise<{
 		readonly setCookies: readonly string[];
 		readonly session: Session<Shape> | undefined;
@@ -159,6 +169,9 @@ export const createAuthServer = <Shape extends ClaimsShape>(
 		idleTtlMs: config.session.idleTtlMs,
 		absoluteTtlMs: config.session.absoluteTtlMs,
 		rotationOverlapMs: config.session.rotationOverlapMs,
+		...(options.onImpersonation === undefined
+			? {}
+			: { onImpersonation: options.onImpersonation }),
 	});
 
 	const csrf = createCsrfGuard({ secrets: config.secrets, clock });
@@ -200,8 +213,12 @@ export const createAuthServer = <Shape extends ClaimsShape>(
 			};
 		},
 
-		signIn: async ({ subject, claims }) => {
-			const issued = await engine.issue({ subject, claims });
+		signIn: async ({ subject, claims, device }) => {
+			const issued = await engine.issue({
+				subject,
+				claims,
+				...(device === undefined ? {} : { device }),
+			});
 
 			if (!issued.ok) {
 				return { setCookies: [], session: undefined, error: issued.error };
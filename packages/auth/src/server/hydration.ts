@@ -63,6 +63,11 @@ export interface SessionHydrationPayload<Shape extends ClaimsShape> {
 	 * enforces expiry regardless of what the client believes.
 	 */
 	readonly expiresAt?: number;
+	/**
+	 * True when an administrator is viewing as this subject, so the page can
+	 * show a banner. Who is impersonating stays on the server.
+	 */
+	readonly impersonated?: true;
 }
 
 /** The default element id the client reads from. */
@@ -86,6 +91,7 @@ export const toHydrationPayload = <Shape extends ClaimsShape>(
 		status: 'authenticated',
 		claims: exposedClaims(shape, session.claims),
 		expiresAt: session.absoluteExpiresAt,
+		...(session.impersonation === undefined ? {} : { impersonated: true }),
 	};
 };
 
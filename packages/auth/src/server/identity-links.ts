@@ -0,0 +1,333 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+/**
+ * Several external identities on one account.
+ *
+ * Someone who signs in with Google on Monday and GitHub on Tuesday should land
+ * in the same account, and the link that makes that happen is a credential: it
+ * grants whoever controls the external identity full access. Each way a link
+ * can come to exist is therefore guarded:
+ *
+ * - **Linking while signed in** proves control of both sides, but only if the
+ *   local session is recent. A session left open on a shared computer must not
+ *   be enough to attach a stranger's Google account to it.
+ * - **Automatic linking by email** is off unless enabled, and then applies only
+ *   when the provider *and* the application have verified the address. Linking
+ *   on an unverified provider email is the classic OAuth account takeover:
+ *   register the victim's address at a lax provider, sign in, own the account.
+ * - **Unlinking** refuses to remove the account's last way to sign in.
+ */
+
+import type {
+	Clock,
+	IdentityLinkRecord,
+	IdentityLinkStore,
+} from '../contract.js';
+import { ConfigError, IdentityLinkError } from '../errors.js';
+import type { OAuthIdentityClaims } from './oauth/flow.js';
+import type { Session } from './session-engine.js';
+import type { ClaimsShape } from '../claims.js';
+
+export const DEFAULT_LINK_MAX_AUTHENTICATION_AGE_MS = 10 * 60_000;
+
+/** An external identity as a provider asserted it on one callback. */
+export interface LinkableIdentity {
+	/** The provider's `id`, as configured on the OAuth client. */
+	readonly provider: string;
+	/** The provider's stable `sub`. */
+	readonly providerSubject: string;
+	readonly email?: string;
+	/** Whether the provider asserts `email` is verified. */
+	readonly emailVerified: boolean;
+}
+
+/** The account an email address belongs to, as the application knows it. */
+export interface EmailAccount {
+	readonly subject: string;
+	/** True only if the application itself verified the address. */
+	readonly emailVerified: boolean;
+}
+
+export interface IdentityLinkServiceOptions {
+	readonly store: IdentityLinkStore;
+	readonly clock: Clock;
+	/**
+	 * How recently the session must have proved a factor to link or unlink.
+	 * Defaults to 10 minutes.
+	 */
+	readonly maxAuthenticationAgeMs?: number;
+	/**
+	 * Finds the account using an address. When given, an unlinked identity whose
+	 * email matches an account is refused as `email-in-use` rather than
+	 * `not-linked`, so the application can offer "sign in, then link" instead
+	 * of creating a duplicate account.
+	 */
+	readonly findAccountByEmail?: (
+		email: string
+	) => Promise<EmailAccount | undefined>;
+	/**
+	 * Links an unlinked identity to the account with its email, when both the
+	 * provider and the application verified the address. Defaults to false.
+	 * Requires `findAccountByEmail`.
+	 */
+	readonly autoLinkVerifiedEmail?: boolean;
+	/**
+	 * Whether the subject can sign in without any linked identity: a password,
+	 * a passkey, a magic link. Without it, only other links count, and the last
+	 * one can never be removed.
+	 */
+	readonly hasOtherSignInMethod?: (subject: string) => Promise<boolean>;
+}
+
+/** The parts of a session that decide whether it may change sign-in methods. */
+export type LinkingSession = Pick<
+	Session<ClaimsShape>,
+	'subject' | 'createdAt' | 'authenticatedAt' | 'apiKey' | 'impersonation'
+>;
+
+export type ResolveIdentityResult =
+	| {
+			readonly ok: true;
+			readonly subject: string;
+			readonly link: IdentityLinkRecord;
+			/** True when this sign-in created the link. Worth telling the user. */
+			readonly autoLinked: boolean;
+	  }
+	| { readonly ok: false; readonly error: IdentityLinkError };
+
+export type LinkIdentityResult =
+	| { readonly ok: true; readonly link: IdentityLinkRecord }
+	| { readonly ok: false; readonly error: IdentityLinkError };
+
+export type UnlinkIdentityResult =
+	| { readonly ok: true }
+	| { readonly ok: false; readonly error: IdentityLinkError };
+
+export interface IdentityLinkService {
+	/**
+	 * Maps an identity to the account it signs in to, after an OAuth callback.
+	 * Refused as `not-linked` or `email-in-use` when there is none; the
+	 * application decides whether to create an account.
+	 */
+	resolve(identity: LinkableIdentity): Promise<ResolveIdentityResult>;
+	/** Links an identity to the signed-in subject. Linking it again is a no-op. */
+	link(input: {
+		readonly session: LinkingSession;
+		readonly identity: LinkableIdentity;
+	}): Promise<LinkIdentityResult>;
+	unlink(input: {
+		readonly session: LinkingSession;
+		readonly provider: string;
+		readonly providerSubject: string;
+	}): Promise<UnlinkIdentityResult>;
+	list(subject: string): Promise<readonly IdentityLinkRecord[]>;
+}
+
+/**
+ * Reads a {@link LinkableIdentity} out of a successful OAuth callback.
+ *
+ * `provider` must be the provider's configured id: the same `sub` at two
+ * providers is two different people.
+ */
+export const identityFromCallback = (
+	provider: string,
+	callback: {
+		readonly claims: OAuthIdentityClaims;
+		readonly emailVerified: boolean;
+	}
+): LinkableIdentity => {
+	const email = callback.claims['email'];
+	return {
+		provider,
+		providerSubject: callback.claims.sub,
+		...(typeof email === 'string' && email.length > 0 ? { email } : {}),
+		emailVerified: callback.emailVerified,
+	};
+};
+
+const refuse = (
+	reason: IdentityLinkError['reason'],
+	detail?: string
+): { readonly ok: false; readonly error: IdentityLinkError } => ({
+	ok: false,
+	error: new IdentityLinkError({
+		reason,
+		...(detail === undefined ? {} : { detail }),
+	}),
+});
+
+export const createIdentityLinkService = (
+	options: IdentityLinkServiceOptions
+): IdentityLinkService => {
+	const {
+		store,
+		clock,
+		maxAuthenticationAgeMs = DEFAULT_LINK_MAX_AUTHENTICATION_AGE_MS,
+		findAccountByEmail,
+		autoLinkVerifiedEmail = false,
+		hasOtherSignInMethod,
+	} = options;
+
+	if (!Number.isFinite(maxAuthenticationAgeMs) || maxAuthenticationAgeMs <= 0) {
+		throw new ConfigError({
+			path: 'identityLinks.maxAuthenticationAgeMs',
+			reason: 'Expected a positive number of milliseconds.',
+		});
+	}
+	if (autoLinkVerifiedEmail && findAccountByEmail === undefined) {
+		throw new ConfigError({
+			path: 'identityLinks.findAccountByEmail',
+			reason: 'autoLinkVerifiedEmail needs a way to find accounts by email.',
+		});
+	}
+
+	// An API key session is never fresh: a script cannot prove it is the person
+	// at the keyboard, whatever its key allows. Nor is an impersonated one: the
+	// person at the keyboard is not the account's owner, and a link outlives
+	// the impersonation.
+	const isFresh = (session: LinkingSession): boolean =>
+		session.apiKey === undefined &&
+		session.impersonation === undefined &&
+		clock.now() - (session.authenticatedAt ?? session.createdAt) <=
+			maxAuthenticationAgeMs;
+
+	const recordFor = (
+		subject: string,
+		identity: LinkableIdentity
+	): IdentityLinkRecord => ({
+		provider: identity.provider,
+		providerSubject: identity.providerSubject,
+		subject,
+		...(identity.email === undefined ? {} : { email: identity.email }),
+		linkedAt: clock.now(),
+	});
+
+	/**
+	 * Creates the link, or returns whichever link won a concurrent race for the
+	 * same identity. The caller checks the subject it comes back with.
+	 */
+	const createOrFind = async (
+		record: IdentityLinkRecord
+	): Promise<IdentityLinkRecord | undefined> =>
+		(await store.create(record))
+			? record
+			: store.find(record.provider, record.providerSubject);
+
+	const canSignInWithout = async (
+		subject: string,
+		removed: IdentityLinkRecord
+	): Promise<boolean> => {
+		const remaining = (await store.listForSubject(subject)).filter(
+			(link) =>
+				link.provider !== removed.provider ||
+				link.providerSubject !== removed.providerSubject
+		);
+		return remaining.length > 0;
+	};
+
+	return {
+		resolve: async (identity) => {
+			const existing = await store.find(
+				identity.provider,
+				identity.providerSubject
+			);
+			if (existing !== undefined) {
+				return {
+					ok: true,
+					subject: existing.subject,
+					link: existing,
+					autoLinked: false,
+				};
+			}
+
+			const account =
+				identity.email === undefined || findAccountByEmail === undefined
+					? undefined
+					: await findAccountByEmail(identity.email);
+			if (account === undefined) return refuse('not-linked');
+
+			// Both sides must have verified the address. The provider's word alone
+			// is the takeover; the application's alone means the account's owner
+			// may never have controlled that mailbox either.
+			if (
+				!autoLinkVerifiedEmail ||
+				!identity.emailVerified ||
+				!account.emailVerified
+			) {
+				return refuse(
+					'email-in-use',
+					`${identity.provider} identity shares an email with an account but was not linked.`
+				);
+			}
+
+			const link = await createOrFind(recordFor(account.subject, identity));
+			if (link === undefined || link.subject !== account.subject) {
+				return refuse('linked-elsewhere');
+			}
+			return { ok: true, subject: link.subject, link, autoLinked: true };
+		},
+
+		link: async ({ session, identity }) => {
+			if (!isFresh(session)) return refuse('reauthentication-required');
+
+			const link = await createOrFind(recordFor(session.subject, identity));
+			if (link === undefined || link.subject !== session.subject) {
+				return refuse('linked-elsewhere');
+			}
+			return { ok: true, link };
+		},
+
+		unlink: async ({ session, provider, providerSubject }) => {
+			if (!isFresh(session)) return refuse('reauthentication-required');
+
+			const existing = await store.find(provider, providerSubject);
+			if (existing === undefined || existing.subject !== session.subject) {
+				return refuse('not-linked');
+			}
+
+			const otherMethod =
+				(await hasOtherSignInMethod?.(session.subject)) ?? false;
+			if (otherMethod) {
+				await store.delete(provider, providerSubject);
+				return { ok: true };
+			}
+
+			if (!(await canSignInWithout(session.subject, existing))) {
+				return refuse('last-sign-in-method');
+			}
+
+			// Two concurrent unlinks of an account's last two identities each see
+			// the other one remaining. Checking again after the delete, and putting
+			// the link back if nothing is left, means at worst both are refused.
+			await store.delete(provider, providerSubject);
+			if ((await store.listForSubject(session.subject)).length === 0) {
+				await store.create(existing);
+				return refuse('last-sign-in-method');
+			}
+			return { ok: true };
+		},
+
+		list: (subject) => store.listForSubject(subject),
+	};
+};
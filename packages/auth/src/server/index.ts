@@ -39,10 +39,17 @@ export { appendAuthCookies } from './http.js';
 
 export {
 	createSessionEngine,
+	DEFAULT_IMPERSONATION_TTL_MS,
+	MAX_IMPERSONATION_TTL_MS,
+	type ActiveSession,
+	type AuthenticationEvent,
+	type ImpersonationEvent,
 	type Session,
+	type SessionDevice,
 	type SessionEngine,
 	type SessionEngineOptions,
 	type SessionIssueResult,
+	type SessionListResult,
 	type SessionReadResult,
 	type SessionStrategy,
 } from './session-engine.js';
@@ -89,6 +96,106 @@ export {
 	type RedeemPasswordResetResult,
 } from './password-reset.js';
 
+export {
+	createTotpService,
+	createTotpUri,
+	generateTotpCode,
+	DEFAULT_RECOVERY_CODE_COUNT,
+	DEFAULT_TOTP_DIGITS,
+	DEFAULT_TOTP_PERIOD_SECONDS,
+	DEFAULT_TOTP_WINDOW,
+	type ConfirmTotpResult,
+	type EnrollTotpResult,
+	type RedeemRecoveryCodeResult,
+	type TotpService,
+	type TotpServiceOptions,
+	type VerifyTotpResult,
+} from './totp.js';
+
+export {
+	createPasswordlessService,
+	DEFAULT_PASSWORDLESS_CODE_ATTEMPTS,
+	DEFAULT_PASSWORDLESS_TTL_MS,
+	MAX_PASSWORDLESS_TTL_MS,
+	type IssuePasswordlessResult,
+	type PasswordlessDelivery,
+	type PasswordlessMethod,
+	type PasswordlessService,
+	type PasswordlessServiceOptions,
+	type PasswordlessUser,
+	type RedeemPasswordlessResult,
+} from './passwordless.js';
+
+export {
+	createApiKeyService,
+	DEFAULT_API_KEY_PREFIX,
+	DEFAULT_API_KEY_TOUCH_INTERVAL_MS,
+	type ApiKeyInfo,
+	type ApiKeyService,
+	type ApiKeyServiceOptions,
+	type IssueApiKeyInput,
+	type IssueApiKeyResult,
+	type VerifyApiKeyResult,
+} from './api-keys.js';
+
+export {
+	createIdentityLinkService,
+	DEFAULT_LINK_MAX_AUTHENTICATION_AGE_MS,
+	identityFromCallback,
+	type EmailAccount,
+	type IdentityLinkService,
+	type IdentityLinkServiceOptions,
+	type LinkIdentityResult,
+	type LinkableIdentity,
+	type LinkingSession,
+	type ResolveIdentityResult,
+	type UnlinkIdentityResult,
+} from './identity-links.js';
+
+export {
+	createAuthorizationServer,
+	DEFAULT_ACCESS_TOKEN_TTL_MS,
+	DEFAULT_AUTHORIZATION_CODE_TTL_MS,
+	DEFAULT_REFRESH_TOKEN_TTL_MS,
+	MAX_AUTHORIZATION_CODE_TTL_MS,
+	type AccessTokenClaims,
+	type AuthorizationServer,
+	type AuthorizationServerOptions,
+	type AuthorizationServerRouteHandler,
+	type AuthorizationServerRoutes,
+	type AuthorizingUser,
+	type ConsentRequest,
+	type RefreshTokenReuseEvent,
+} from './authorization-server/server.js';
+export {
+	createClientRegistry,
+	digestClientSecret,
+	type ClientRegistry,
+	type RegisteredClient,
+} from './authorization-server/clients.js';
+export {
+	createSigningKeySet,
+	generateSigningKey,
+	type SigningAlgorithm,
+	type SigningKey,
+	type SigningKeySet,
+} from './authorization-server/keys.js';
+
+export {
+	createPasskeyProvider,
+	DEFAULT_PASSKEY_CHALLENGE_TTL_MS,
+	MAX_PASSKEY_CHALLENGE_TTL_MS,
+	type FinishPasskeyAuthenticationResult,
+	type FinishPasskeyRegistrationResult,
+	type PasskeyProvider,
+	type PasskeyProviderOptions,
+	type SignCountRegressionEvent,
+} from './passkey/provider.js';
+export type {
+	PasskeyAttestation,
+	PasskeyAttestationType,
+} from './passkey/attestation.js';
+
 export {
 	createStorageSessionStore,
 	type StorageSessionStoreOptions,
@@ -186,10 +293,14 @@ export {
 	createPolicies,
 	type Policy,
 	type PolicyBuilders,
+	type PolicyBuildersOptions,
 	type PolicyContext,
 	type PolicyDecision,
+	type RouteParams,
 } from './policy/predicates.js';
 
+export { createPolicyCache, type PolicyCache } from './policy/cache.js';
+
 export {
 	createPolicyRegistry,
 	type PolicyMatch,
@@ -0,0 +1,179 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Attestation statement verification for the `none` and `packed` formats.
+ *
+ * What is proved here is integrity: the statement was produced over exactly
+ * this authenticator data and client data, by the credential key itself (self
+ * attestation) or by the certificate it presents (basic attestation). Whether
+ * that certificate chains to a vendor root worth trusting is a policy decision
+ * that needs a metadata source this package does not ship, so the chain is
+ * returned for the application to judge rather than judged here.
+ */
+
+import { X509Certificate } from 'node:crypto';
+import type { PasskeyAlgorithm } from '../../passkey.js';
+import { isCborMap, type CborValue } from './cbor.js';
+import {
+	SUPPORTED_PASSKEY_ALGORITHMS,
+	verifyPasskeySignature,
+	type CosePublicKey,
+} from './cose.js';
+
+export type PasskeyAttestationType = 'none' | 'self' | 'basic';
+
+export interface PasskeyAttestation {
+	readonly format: 'none' | 'packed';
+	readonly type: PasskeyAttestationType;
+	/** base64 DER certificates, leaf first, for basic attestation. */
+	readonly certificates?: readonly string[];
+}
+
+export type AttestationResult =
+	| { readonly ok: true; readonly attestation: PasskeyAttestation }
+	| { readonly ok: false; readonly reason: string };
+
+const fail = (reason: string): AttestationResult => ({ ok: false, reason });
+
+/** The subject OU every packed attestation certificate must carry (§8.2.1). */
+const ATTESTATION_OU = 'OU=Authenticator Attestation';
+
+const verifyCertificateAttestation = (
+	chain: readonly CborValue[],
+	algorithm: PasskeyAlgorithm,
+	signature: Uint8Array,
+	signed: Uint8Array,
+	now: number
+): AttestationResult => {
+	if (!chain.every((entry) => entry instanceof Uint8Array)) {
+		return fail('Attestation certificate chain is malformed.');
+	}
+	const certificates = chain as readonly Uint8Array[];
+
+	let leaf: X509Certificate;
+	try {
+		leaf = new X509Certificate(certificates[0] ?? new Uint8Array());
+	} catch {
+		return fail('Attestation certificate could not be parsed.');
+	}
+
+	if (now < Date.parse(leaf.validFrom) || now > Date.parse(leaf.validTo)) {
+		return fail('Attestation certificate is outside its validity period.');
+	}
+	if (leaf.ca) return fail('Attestation certificate is a CA certificate.');
+	if (!leaf.subject.split('\n').includes(ATTESTATION_OU)) {
+		return fail('Attestation certificate subject lacks the required OU.');
+	}
+
+	if (!verifyPasskeySignature(algorithm, leaf.publicKey, signed, signature)) {
+		return fail('Attestation signature did not verify.');
+	}
+
+	return {
+		ok: true,
+		attestation: {
+			format: 'packed',
+			type: 'basic',
+			certificates: certificates.map((der) =>
+				Buffer.from(der).toString('base64')
+			),
+		},
+	};
+};
+
+/** Verifies an attestation statement against the data it claims to cover. */
+export const verifyAttestation = (input: {
+	readonly format: CborValue | undefined;
+	readonly statement: CborValue | undefined;
+	readonly authenticatorData: Uint8Array;
+	readonly clientDataHash: Uint8Array;
+	readonly credential: CosePublicKey;
+	readonly now: number;
+}): AttestationResult => {
+	const { format, statement } = input;
+	if (!isCborMap(statement)) {
+		return fail('Attestation statement is not a map.');
+	}
+
+	if (format === 'none') {
+		// A `none` statement carrying fields is not `none`; something is being
+		// smuggled past a format that verifies nothing.
+		return statement.size === 0
+			? { ok: true, attestation: { format: 'none', type: 'none' } }
+			: fail('A none attestation statement must be empty.');
+	}
+
+	if (format !== 'packed') {
+		return fail(
+			typeof format === 'string'
+				? `Unsupported attestation format "${format}".`
+				: 'Attestation format is missing.'
+		);
+	}
+
+	const algorithm = statement.get('alg');
+	const signature = statement.get('sig');
+	const chain = statement.get('x5c');
+	if (
+		typeof algorithm !== 'number' ||
+		!SUPPORTED_PASSKEY_ALGORITHMS.includes(algorithm as PasskeyAlgorithm) ||
+		!(signature instanceof Uint8Array)
+	) {
+		return fail('Packed attestation statement is malformed.');
+	}
+
+	const signed = Buffer.concat([input.authenticatorData, input.clientDataHash]);
+
+	if (chain !== undefined) {
+		if (!Array.isArray(chain) || chain.length === 0) {
+			return fail('Attestation certificate chain is malformed.');
+		}
+		return verifyCertificateAttestation(
+			chain as readonly CborValue[],
+			algorithm as PasskeyAlgorithm,
+			signature,
+			signed,
+			input.now
+		);
+	}
+
+	// Self attestation: the new credential signs its own registration, under the
+	// algorithm it was created for and no other.
+	if (algorithm !== input.credential.algorithm) {
+		return fail('Self attestation algorithm does not match the credential.');
+	}
+	if (
+		!verifyPasskeySignature(
+			input.credential.algorithm,
+			input.credential.key,
+			signed,
+			signature
+		)
+	) {
+		return fail('Self attestation signature did not verify.');
+	}
+
+	return { ok: true, attestation: { format: 'packed', type: 'self' } };
+};
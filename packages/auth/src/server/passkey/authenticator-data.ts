@@ -0,0 +1,119 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Authenticator data, the signed structure at the heart of every ceremony.
+ *
+ * Layout (WebAuthn §6.1): a 32-byte RP ID hash, a flags byte, a 32-bit
+ * big-endian signature counter, then — when flagged — attested credential data
+ * and a CBOR extensions map. Parsing refuses trailing bytes so the signed bytes
+ * and the interpreted bytes are always the same bytes.
+ */
+
+import { decodeCborPrefix, isCborMap } from './cbor.js';
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED = 0x40;
+const FLAG_EXTENSIONS = 0x80;
+
+const HEADER_LENGTH = 37;
+const AAGUID_LENGTH = 16;
+const MAX_CREDENTIAL_ID_LENGTH = 1023;
+
+export interface AttestedCredential {
+	readonly aaguid: Uint8Array;
+	readonly credentialId: Uint8Array;
+	/** COSE-encoded public key bytes. */
+	readonly publicKey: Uint8Array;
+}
+
+export interface AuthenticatorData {
+	readonly rpIdHash: Uint8Array;
+	readonly userPresent: boolean;
+	readonly userVerified: boolean;
+	readonly backupEligible: boolean;
+	readonly backedUp: boolean;
+	readonly signCount: number;
+	readonly attested?: AttestedCredential;
+}
+
+/** Parses authenticator data, or returns `undefined` if it is malformed. */
+export const parseAuthenticatorData = (
+	bytes: Uint8Array
+): AuthenticatorData | undefined => {
+	if (bytes.length < HEADER_LENGTH) return undefined;
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const flags = bytes[32] ?? 0;
+	const base = {
+		rpIdHash: bytes.subarray(0, 32),
+		userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+		userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+		backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+		backedUp: (flags & FLAG_BACKED_UP) !== 0,
+		signCount: view.getUint32(33),
+	};
+
+	// Backed up without being eligible for backup is a contradiction the spec
+	// tells relying parties to reject.
+	if (base.backedUp && !base.backupEligible) return undefined;
+
+	let offset = HEADER_LENGTH;
+	let attested: AttestedCredential | undefined;
+
+	if ((flags & FLAG_ATTESTED) !== 0) {
+		if (bytes.length < offset + AAGUID_LENGTH + 2) return undefined;
+		const aaguid = bytes.subarray(offset, offset + AAGUID_LENGTH);
+		offset += AAGUID_LENGTH;
+
+		const idLength = view.getUint16(offset);
+		offset += 2;
+		if (idLength === 0 || idLength > MAX_CREDENTIAL_ID_LENGTH) return undefined;
+		if (bytes.length < offset + idLength) return undefined;
+		const credentialId = bytes.subarray(offset, offset + idLength);
+		offset += idLength;
+
+		const key = decodeCborPrefix(bytes.subarray(offset));
+		if (key === undefined) return undefined;
+		const publicKey = bytes.subarray(offset, offset + key.length);
+		offset += key.length;
+
+		attested = { aaguid, credentialId, publicKey };
+	}
+
+	if ((flags & FLAG_EXTENSIONS) !== 0) {
+		const extensions = decodeCborPrefix(bytes.subarray(offset));
+		if (extensions === undefined || !isCborMap(extensions.value)) {
+			return undefined;
+		}
+		offset += extensions.length;
+	}
+
+	if (offset !== bytes.length) return undefined;
+
+	return attested === undefined ? base : { ...base, attested };
+};
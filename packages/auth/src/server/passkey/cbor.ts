@@ -0,0 +1,219 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * The subset of CBOR (RFC 8949) WebAuthn uses.
+ *
+ * Attestation objects and COSE keys arrive as CBOR from an untrusted browser,
+ * so the decoder is strict rather than general: definite lengths only, no
+ * floats, no tags, bounded nesting, and integers within JavaScript's safe
+ * range. CTAP2's canonical encoding never needs more, and every feature left
+ * out is parsing surface an attacker cannot reach.
+ */
+
+export type CborValue =
+	| number
+	| string
+	| boolean
+	| null
+	| Uint8Array
+	| readonly CborValue[]
+	| ReadonlyMap<CborValue, CborValue>;
+
+/** Narrows a decoded value to a map without widening its entries to `any`. */
+export const isCborMap = (
+	value: CborValue | undefined
+): value is ReadonlyMap<CborValue, CborValue> => value instanceof Map;
+
+/** Deep enough for any attestation object; shallow enough to bound recursion. */
+const MAX_DEPTH = 16;
+
+class CborDecodeError extends Error {}
+
+interface Cursor {
+	readonly bytes: Uint8Array;
+	offset: number;
+}
+
+const take = (cursor: Cursor, length: number): Uint8Array => {
+	if (cursor.offset + length > cursor.bytes.length) {
+		throw new CborDecodeError('Unexpected end of input.');
+	}
+	const slice = cursor.bytes.subarray(cursor.offset, cursor.offset + length);
+	cursor.offset += length;
+	return slice;
+};
+
+const readArgument = (cursor: Cursor, info: number): number => {
+	if (info < 24) return info;
+
+	const width =
+		info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+	// 28–30 are reserved and 31 is indefinite length; neither occurs in CTAP2.
+	if (width === 0) throw new CborDecodeError('Unsupported length encoding.');
+
+	let value = 0;
+	for (const byte of take(cursor, width)) value = value * 256 + byte;
+
+	if (!Number.isSafeInteger(value)) {
+		throw new CborDecodeError('Integer exceeds the safe range.');
+	}
+	return value;
+};
+
+const readItem = (cursor: Cursor, depth: number): CborValue => {
+	if (depth > MAX_DEPTH) throw new CborDecodeError('Nesting too deep.');
+
+	const [initial] = take(cursor, 1);
+	const major = (initial ?? 0) >> 5;
+	const info = (initial ?? 0) & 0x1f;
+
+	switch (major) {
+		case 0:
+			return readArgument(cursor, info);
+		case 1:
+			return -1 - readArgument(cursor, info);
+		case 2:
+			return Uint8Array.from(take(cursor, readArgument(cursor, info)));
+		case 3:
+			return new TextDecoder('utf-8', { fatal: true }).decode(
+				take(cursor, readArgument(cursor, info))
+			);
+		case 4: {
+			const length = readArgument(cursor, info);
+			const items: CborValue[] = [];
+			for (let index = 0; index < length; index += 1) {
+				items.push(readItem(cursor, depth + 1));
+			}
+			return items;
+		}
+		case 5: {
+			const length = readArgument(cursor, info);
+			const entries = new Map<CborValue, CborValue>();
+			for (let index = 0; index < length; index += 1) {
+				const key = readItem(cursor, depth + 1);
+				// A duplicated key is how two parsers are made to disagree about the
+				// same bytes; refuse it rather than pick a winner.
+				if (entries.has(key)) throw new CborDecodeError('Duplicate map key.');
+				entries.set(key, readItem(cursor, depth + 1));
+			}
+			return entries;
+		}
+		case 7:
+			if (info === 20) return false;
+			if (info === 21) return true;
+			if (info === 22) return null;
+			throw new CborDecodeError('Unsupported simple value.');
+		default:
+			throw new CborDecodeError('Tags are not supported.');
+	}
+};
+
+/**
+ * Decodes one item from the start of `bytes` and reports where it ended.
+ *
+ * Authenticator data embeds a COSE key followed by optional extensions, with no
+ * length prefix, so the caller needs the offset to find what comes next.
+ * Resolves `undefined` rather than throwing on malformed input.
+ */
+export const decodeCborPrefix = (
+	bytes: Uint8Array
+): { readonly value: CborValue; readonly length: number } | undefined => {
+	const cursor: Cursor = { bytes, offset: 0 };
+	try {
+		const value = readItem(cursor, 0);
+		return { value, length: cursor.offset };
+	} catch (error) {
+		if (error instanceof CborDecodeError || error instanceof TypeError) {
+			return undefined;
+		}
+		throw error;
+	}
+};
+
+/** Decodes exactly one item. Trailing bytes are malformed input. */
+export const decodeCbor = (bytes: Uint8Array): CborValue | undefined => {
+	const decoded = decodeCborPrefix(bytes);
+	return decoded === undefined || decoded.length !== bytes.length
+		? undefined
+		: decoded.value;
+};
+
+const header = (major: number, argument: number): Uint8Array => {
+	const prefix = major << 5;
+	if (argument < 24) return Uint8Array.of(prefix | argument);
+	if (argument < 0x100) return Uint8Array.of(prefix | 24, argument);
+	if (argument < 0x10000) {
+		return Uint8Array.of(prefix | 25, argument >> 8, argument & 0xff);
+	}
+	const bytes = new Uint8Array(5);
+	bytes[0] = prefix | 26;
+	new DataView(bytes.buffer).setUint32(1, argument);
+	return bytes;
+};
+
+const concat = (parts: readonly Uint8Array[]): Uint8Array => {
+	const output = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0)
+	);
+	let offset = 0;
+	for (const part of parts) {
+		output.set(part, offset);
+		offset += part.length;
+	}
+	return output;
+};
+
+/**
+ * Encodes a value, preserving map insertion order.
+ *
+ * Used to build authenticator output in `@effuse/auth/testing`; the server only
+ * ever decodes.
+ */
+export const encodeCbor = (value: CborValue): Uint8Array => {
+	if (typeof value === 'number') {
+		if (!Number.isSafeInteger(value)) {
+			throw new TypeError('Only safe integers are encodable.');
+		}
+		return value >= 0 ? header(0, value) : header(1, -1 - value);
+	}
+	if (typeof value === 'string') {
+		const bytes = new TextEncoder().encode(value);
+		return concat([header(3, bytes.length), bytes]);
+	}
+	if (typeof value === 'boolean') return Uint8Array.of(value ? 0xf5 : 0xf4);
+	if (value === null) return Uint8Array.of(0xf6);
+	if (value instanceof Uint8Array)
+		return concat([header(2, value.length), value]);
+	if (Array.isArray(value)) {
+		const items = value as readonly CborValue[];
+		return concat([header(4, items.length), ...items.map(encodeCbor)]);
+	}
+
+	const entries = [...(value as ReadonlyMap<CborValue, CborValue>)];
+	return concat([
+		header(5, entries.length),
+		...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+	]);
+};
@@ -0,0 +1,159 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * COSE public keys (RFC 9053) as WebAuthn authenticators report them.
+ *
+ * Each accepted algorithm is pinned to one key type and curve. A key is never
+ * used with an algorithm other than the one it was registered under, which is
+ * the WebAuthn equivalent of refusing a JWS header's choice of `alg`.
+ */
+
+import {
+	createPublicKey,
+	verify as cryptoVerify,
+	type KeyObject,
+} from 'node:crypto';
+import type { PasskeyAlgorithm } from '../../passkey.js';
+import { decodeCbor, isCborMap, type CborValue } from './cbor.js';
+
+/** Preference order for registration: ES256 is universal, EdDSA and RS256 follow. */
+export const SUPPORTED_PASSKEY_ALGORITHMS: readonly PasskeyAlgorithm[] = [
+	-7, -8, -257,
+];
+
+/** 2048 bits. Anything shorter is below every current recommendation. */
+const MIN_RSA_MODULUS_BYTES = 256;
+
+export interface CosePublicKey {
+	readonly algorithm: PasskeyAlgorithm;
+	readonly key: KeyObject;
+}
+
+const bytesAt = (
+	map: ReadonlyMap<CborValue, CborValue>,
+	label: number,
+	length?: number
+): Uint8Array | undefined => {
+	const value = map.get(label);
+	if (!(value instanceof Uint8Array)) return undefined;
+	if (length !== undefined && value.length !== length) return undefined;
+	return value;
+};
+
+const b64 = (bytes: Uint8Array): string =>
+	Buffer.from(bytes).toString('base64url');
+
+const jwkFor = (
+	map: ReadonlyMap<CborValue, CborValue>,
+	algorithm: PasskeyAlgorithm
+): Record<string, string> | undefined => {
+	const kty = map.get(1);
+	const crv = map.get(-1);
+
+	switch (algorithm) {
+		case -7: {
+			const x = bytesAt(map, -2, 32);
+			const y = bytesAt(map, -3, 32);
+			if (kty !== 2 || crv !== 1 || x === undefined || y === undefined) {
+				return undefined;
+			}
+			return { kty: 'EC', crv: 'P-256', x: b64(x), y: b64(y) };
+		}
+		case -8: {
+			const x = bytesAt(map, -2, 32);
+			if (kty !== 1 || crv !== 6 || x === undefined) return undefined;
+			return { kty: 'OKP', crv: 'Ed25519', x: b64(x) };
+		}
+		case -257: {
+			const n = bytesAt(map, -1);
+			const e = bytesAt(map, -2);
+			if (
+				kty !== 3 ||
+				n === undefined ||
+				e === undefined ||
+				n.length < MIN_RSA_MODULUS_BYTES
+			) {
+				return undefined;
+			}
+			return { kty: 'RSA', n: b64(n), e: b64(e) };
+		}
+	}
+};
+
+/** Imports a COSE-encoded public key, or `undefined` for anything unsupported. */
+export const importCoseKey = (bytes: Uint8Array): CosePublicKey | undefined => {
+	const decoded = decodeCbor(bytes);
+	if (!isCborMap(decoded)) return undefined;
+
+	const algorithm = decoded.get(3);
+	if (
+		typeof algorithm !== 'number' ||
+		!SUPPORTED_PASSKEY_ALGORITHMS.includes(algorithm as PasskeyAlgorithm)
+	) {
+		return undefined;
+	}
+
+	const jwk = jwkFor(decoded, algorithm as PasskeyAlgorithm);
+	if (jwk === undefined) return undefined;
+
+	try {
+		return {
+			algorithm: algorithm as PasskeyAlgorithm,
+			key: createPublicKey({ key: jwk, format: 'jwk' }),
+		};
+	} catch {
+		// Coordinates not on the curve, or a modulus Node refuses.
+		return undefined;
+	}
+};
+
+/**
+ * Verifies a WebAuthn signature. ECDSA signatures are DER-encoded here, unlike
+ * JWS, and Ed25519 takes no separate digest.
+ */
+export const verifyPasskeySignature = (
+	algorithm: PasskeyAlgorithm,
+	key: KeyObject,
+	data: Uint8Array,
+	signature: Uint8Array
+): boolean => {
+	try {
+		switch (algorithm) {
+			case -7:
+				return cryptoVerify(
+					'sha256',
+					data,
+					{ key, dsaEncoding: 'der' },
+					signature
+				);
+			case -8:
+				return cryptoVerify(null, data, key, signature);
+			case -257:
+				return cryptoVerify('sha256', data, key, signature);
+		}
+	} catch {
+		return false;
+	}
+};
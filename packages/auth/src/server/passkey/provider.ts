@@ -0,0 +1,589 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Passkey (WebAuthn) registration and sign-in.
+ *
+ * A third provider beside credentials and OAuth, and the only one whose secret
+ * never leaves the user's device: the server stores a public key and checks
+ * signatures over challenges it issued. What the server still has to get right
+ * is everything around the signature, and every one of those checks is here:
+ *
+ * - **Challenges are single-use and short-lived**, consumed atomically before
+ *   anything else is checked, so a captured response cannot be replayed.
+ * - **Origin and RP ID are pinned**, so a phishing site's ceremony produces a
+ *   response this server refuses — the property that makes passkeys
+ *   phishing-resistant in the first place.
+ * - **Sign counters must advance.** A counter that goes backwards means two
+ *   copies of one private key exist; the assertion is refused and the
+ *   regression reported.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type {
+	Clock,
+	PasskeyCredentialRecord,
+	PasskeyStore,
+} from '../../contract.js';
+import { ConfigError, PasskeyVerificationError } from '../../errors.js';
+import type {
+	PasskeyAuthenticationOptions,
+	PasskeyAuthenticationResponse,
+	PasskeyCredentialDescriptor,
+	PasskeyRegistrationOptions,
+	PasskeyRegistrationResponse,
+	PasskeyUserVerification,
+} from '../../passkey.js';
+import type { AuthenticationEvent } from '../session-engine.js';
+import { verifyAttestation, type PasskeyAttestation } from './attestation.js';
+import {
+	parseAuthenticatorData,
+	type AuthenticatorData,
+} from './authenticator-data.js';
+import { decodeCbor, isCborMap } from './cbor.js';
+import {
+	SUPPORTED_PASSKEY_ALGORITHMS,
+	importCoseKey,
+	verifyPasskeySignature,
+} from './cose.js';
+
+export const DEFAULT_PASSKEY_CHALLENGE_TTL_MS = 5 * 60_000;
+export const MAX_PASSKEY_CHALLENGE_TTL_MS = 15 * 60_000;
+
+const CHALLENGE_BYTES = 32;
+const BASE64URL = /^[A-Za-z0-9_-]*$/;
+
+export interface SignCountRegressionEvent {
+	readonly subject: string;
+	readonly credentialId: string;
+	readonly storedCount: number;
+	readonly presentedCount: number;
+	readonly detectedAt: number;
+}
+
+export interface PasskeyProviderOptions {
+	readonly store: PasskeyStore;
+	readonly clock: Clock;
+	/** The relying party id: a registrable domain such as `example.com`. */
+	readonly rpId: string;
+	/** Shown by the browser and authenticator during registration. */
+	readonly rpName: string;
+	/** Exact origins allowed to run ceremonies, e.g. `https://example.com`. */
+	readonly origins: readonly string[];
+	/**
+	 * Defaults to `required`, so a successful sign-in proves possession and
+	 * the user's PIN or biometric together.
+	 */
+	readonly userVerification?: PasskeyUserVerification;
+	/** Defaults to `none`. `direct` asks for a verifiable attestation chain. */
+	readonly attestation?: 'none' | 'direct';
+	/** Defaults to 5 minutes and cannot exceed 15. */
+	readonly challengeTtlMs?: number;
+	/**
+	 * Called when an assertion's counter failed to advance — evidence of a
+	 * cloned authenticator. Alert on it; the assertion is refused regardless.
+	 */
+	readonly onSignCountRegression?: (
+		event: SignCountRegressionEvent
+	) => Promise<void> | void;
+}
+
+export type FinishPasskeyRegistrationResult =
+	| {
+			readonly ok: true;
+			readonly credential: PasskeyCredentialRecord;
+			readonly attestation: PasskeyAttestation;
+	  }
+	| { readonly ok: false; readonly error: PasskeyVerificationError };
+
+export type FinishPasskeyAuthenticationResult =
+	| {
+			readonly ok: true;
+			readonly subject: string;
+			readonly credential: PasskeyCredentialRecord;
+			/** Pass to `SessionEngine.issue` or `rotate`. */
+			readonly authentication: AuthenticationEvent;
+	  }
+	| { readonly ok: false; readonly error: PasskeyVerificationError };
+
+export interface PasskeyProvider {
+	startRegistration(input: {
+		readonly subject: string;
+		readonly userName: string;
+		readonly displayName?: string;
+	}): Promise<PasskeyRegistrationOptions>;
+	finishRegistration(input: {
+		readonly subject: string;
+		readonly response: PasskeyRegistrationResponse;
+	}): Promise<FinishPasskeyRegistrationResult>;
+	/** Omit `subject` for a discoverable sign-in with no username step. */
+	startAuthentication(input?: {
+		readonly subject?: string;
+	}): Promise<PasskeyAuthenticationOptions>;
+	finishAuthentication(input: {
+		readonly response: PasskeyAuthenticationResponse;
+	}): Promise<FinishPasskeyAuthenticationResult>;
+	listCredentials(subject: string): Promise<readonly PasskeyCredentialRecord[]>;
+	/** Removes a credential only if it belongs to `subject`. */
+	removeCredential(subject: string, credentialId: string): Promise<boolean>;
+}
+
+const sha256 = (data: Uint8Array | string): Buffer =>
+	createHash('sha256').update(data).digest();
+
+const decode = (value: unknown): Buffer | undefined =>
+	typeof value === 'string' && BASE64URL.test(value)
+		? Buffer.from(value, 'base64url')
+		: undefined;
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean =>
+	a.length === b.length && timingSafeEqual(a, b);
+
+const reject = (detail: string) =>
+	({ ok: false, error: new PasskeyVerificationError({ detail }) }) as const;
+
+const isLocalhost = (hostname: string): boolean =>
+	hostname === 'localhost' || hostname.endsWith('.localhost');
+
+const validateOrigins = (rpId: string, origins: readonly string[]): void => {
+	if (origins.length === 0) {
+		throw new ConfigError({
+			path: 'passkey.origins',
+			reason: 'Expected at least one allowed origin.',
+		});
+	}
+
+	for (const origin of origins) {
+		let url: URL;
+		try {
+			url = new URL(origin);
+		} catch {
+			throw new ConfigError({
+				path: 'passkey.origins',
+				reason: `"${origin}" is not a URL.`,
+			});
+		}
+
+		// Browsers only run WebAuthn in secure contexts, so an http origin other
+		// than localhost is a configuration that can never succeed.
+		const secure =
+			url.protocol === 'https:' ||
+			(url.protocol === 'http:' && isLocalhost(url.hostname));
+		if (!secure || url.origin !== origin) {
+			throw new ConfigError({
+				path: 'passkey.origins',
+				reason: `"${origin}" must be a bare https origin.`,
+			});
+		}
+
+		if (url.hostname !== rpId && !url.hostname.endsWith(`.${rpId}`)) {
+			throw new ConfigError({
+				path: 'passkey.rpId',
+				reason: `"${rpId}" is not a registrable suffix of "${origin}".`,
+			});
+		}
+	}
+};
+
+export const createPasskeyProvider = (
+	options: PasskeyProviderOptions
+): PasskeyProvider => {
+	const {
+		store,
+		clock,
+		rpId,
+		rpName,
+		origins,
+		userVerification = 'required',
+		attestation = 'none',
+		challengeTtlMs = DEFAULT_PASSKEY_CHALLENGE_TTL_MS,
+		onSignCountRegression,
+	} = options;
+
+	validateOrigins(rpId, origins);
+	if (
+		!Number.isFinite(challengeTtlMs) ||
+		challengeTtlMs <= 0 ||
+		challengeTtlMs > MAX_PASSKEY_CHALLENGE_TTL_MS
+	) {
+		throw new ConfigError({
+			path: 'passkey.challengeTtlMs',
+			reason: `Expected a positive finite duration no greater than ${String(MAX_PASSKEY_CHALLENGE_TTL_MS)}ms.`,
+		});
+	}
+
+	const rpIdHash = sha256(rpId);
+	const allowedOrigins = new Set(origins);
+
+	/**
+	 * The user handle an authenticator stores for a subject. Derived rather than
+	 * the subject itself, because authenticators display and sync it and the
+	 * spec forbids putting identifying information there.
+	 */
+	const userHandleFor = (subject: string): string =>
+		sha256(`${rpId}\u0000${subject}`).toString('base64url');
+
+	const issueChallenge = async (
+		ceremony: 'registration' | 'authentication',
+		subject: string | undefined
+	): Promise<string> => {
+		const challenge = randomBytes(CHALLENGE_BYTES).toString('base64url');
+		await store.saveChallenge({
+			challenge,
+			ceremony,
+			...(subject === undefined ? {} : { subject }),
+			expiresAt: clock.now() + challengeTtlMs,
+		});
+		return challenge;
+	};
+
+	const descriptorsFor = async (
+		subject: string
+	): Promise<readonly PasskeyCredentialDescriptor[]> =>
+		(await store.listForSubject(subject)).map((credential) => ({
+			type: 'public-key',
+			id: credential.credentialId,
+			...(credential.transports === undefined
+				? {}
+				: { transports: credential.transports }),
+		}));
+
+	type ClientDataCheck =
+		| {
+				readonly ok: true;
+				readonly hash: Buffer;
+				readonly challenge: string;
+		  }
+		| { readonly ok: false; readonly reason: string };
+
+	const checkClientData = (
+		encoded: string,
+		type: 'webauthn.create' | 'webauthn.get'
+	): ClientDataCheck => {
+		const raw = decode(encoded);
+		if (raw === undefined)
+			return { ok: false, reason: 'Client data is not base64url.' };
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(raw.toString('utf8'));
+		} catch {
+			return { ok: false, reason: 'Client data is not JSON.' };
+		}
+		if (typeof parsed !== 'object' || parsed === null) {
+			return { ok: false, reason: 'Client data is not an object.' };
+		}
+
+		const data = parsed as Record<string, unknown>;
+		if (data['type'] !== type) {
+			return { ok: false, reason: `Client data type is not ${type}.` };
+		}
+		if (
+			typeof data['origin'] !== 'string' ||
+			!allowedOrigins.has(data['origin'])
+		) {
+			return { ok: false, reason: 'Client data origin is not allowed.' };
+		}
+		// A ceremony run inside a cross-origin iframe is one another site framed.
+		if (data['crossOrigin'] === true) {
+			return { ok: false, reason: 'Cross-origin ceremonies are not accepted.' };
+		}
+		if (typeof data['challenge'] !== 'string') {
+			return { ok: false, reason: 'Client data carries no challenge.' };
+		}
+
+		return { ok: true, hash: sha256(raw), challenge: data['challenge'] };
+	};
+
+	const checkFlags = (data: AuthenticatorData): string | undefined => {
+		if (!sameBytes(data.rpIdHash, rpIdHash))
+			return 'RP ID hash does not match.';
+		if (!data.userPresent) return 'User presence was not asserted.';
+		if (userVerification === 'required' && !data.userVerified) {
+			return 'User verification was required but not performed.';
+		}
+		return undefined;
+	};
+
+	return {
+		startRegistration: async ({ subject, userName, displayName }) => ({
+			challenge: await issueChallenge('registration', subject),
+			rp: { id: rpId, name: rpName },
+			user: {
+				id: userHandleFor(subject),
+				name: userName,
+				displayName: displayName ?? userName,
+			},
+			pubKeyCredParams: SUPPORTED_PASSKEY_ALGORITHMS.map((alg) => ({
+				type: 'public-key',
+				alg,
+			})),
+			timeout: challengeTtlMs,
+			excludeCredentials: await descriptorsFor(subject),
+			authenticatorSelection: { residentKey: 'required', userVerification },
+			attestation,
+		}),
+
+		finishRegistration: async ({ subject, response }) => {
+			// The response is typed, but it arrived as JSON from the client, so its
+			// literal fields are checked like any other untrusted input.
+			const rawId = decode(response.rawId);
+			if (
+				(response.type as string) !== 'public-key' ||
+				rawId === undefined ||
+				response.id !== response.rawId
+			) {
+				return reject('Credential id or type is malformed.');
+			}
+
+			const clientData = checkClientData(
+				response.response.clientDataJSON,
+				'webauthn.create'
+			);
+			if (!clientData.ok) return reject(clientData.reason);
+
+			// Consumed before any further check, so a response that fails for any
+			// reason has still spent its challenge and cannot be retried.
+			const challenge = await store.consumeChallenge(
+				clientData.challenge,
+				clock.now()
+			);
+			if (
+				challenge?.ceremony !== 'registration' ||
+				challenge.subject !== subject
+			) {
+				return reject(
+					'Challenge is unknown, expired, spent, or for another ceremony.'
+				);
+			}
+
+			const attestationBytes = decode(response.response.attestationObject);
+			const attestationObject =
+				attestationBytes === undefined
+					? undefined
+					: decodeCbor(attestationBytes);
+			if (!isCborMap(attestationObject)) {
+				return reject('Attestation object is malformed.');
+			}
+
+			const authData = attestationObject.get('authData');
+			const parsed =
+				authData instanceof Uint8Array
+					? parseAuthenticatorData(authData)
+					: undefined;
+			if (authData === undefined || parsed === undefined) {
+				return reject('Authenticator data is malformed.');
+			}
+
+			const flagFailure = checkFlags(parsed);
+			if (flagFailure !== undefined) return reject(flagFailure);
+
+			const attested = parsed.attested;
+			if (attested === undefined || !sameBytes(attested.credentialId, rawId)) {
+				return reject('Attested credential does not match the response id.');
+			}
+
+			const credentialKey = importCoseKey(attested.publicKey);
+			if (credentialKey === undefined) {
+				return reject('Credential public key is unsupported or malformed.');
+			}
+
+			const now = clock.now();
+			const verified = verifyAttestation({
+				format: attestationObject.get('fmt'),
+				statement: attestationObject.get('attStmt'),
+				authenticatorData: authData as Uint8Array,
+				clientDataHash: clientData.hash,
+				credential: credentialKey,
+				now,
+			});
+			if (!verified.ok) return reject(verified.reason);
+
+			const transports = response.response.transports?.filter(
+				(transport) => typeof transport === 'string'
+			);
+			const credential: PasskeyCredentialRecord = {
+				credentialId: response.id,
+				subject,
+				userHandle: userHandleFor(subject),
+				publicKey: Buffer.from(attested.publicKey).toString('base64url'),
+				algorithm: credentialKey.algorithm,
+				signCount: parsed.signCount,
+				...(transports === undefined ? {} : { transports }),
+				backedUp: parsed.backedUp,
+				createdAt: now,
+			};
+
+			// A credential id already on file — for this subject or another — is
+			// refused rather than overwritten. Accepting it would let one account
+			// take over another's passkey by re-registering its id.
+			if (!(await store.create(credential))) {
+				return reject('Credential id is already registered.');
+			}
+
+			return { ok: true, credential, attestation: verified.attestation };
+		},
+
+		startAuthentication: async (input = {}) => ({
+			challenge: await issueChallenge('authentication', input.subject),
+			rpId,
+			timeout: challengeTtlMs,
+			allowCredentials:
+				input.subject === undefined ? [] : await descriptorsFor(input.subject),
+			userVerification,
+		}),
+
+		finishAuthentication: async ({ response }) => {
+			const rawId = decode(response.rawId);
+			if (
+				(response.type as string) !== 'public-key' ||
+				rawId === undefined ||
+				response.id !== response.rawId
+			) {
+				return reject('Credential id or type is malformed.');
+			}
+
+			const clientData = checkClientData(
+				response.response.clientDataJSON,
+				'webauthn.get'
+			);
+			if (!clientData.ok) return reject(clientData.reason);
+
+			const challenge = await store.consumeChallenge(
+				clientData.challenge,
+				clock.now()
+			);
+			if (challenge?.ceremony !== 'authentication') {
+				return reject(
+					'Challenge is unknown, expired, spent, or for another ceremony.'
+				);
+			}
+
+			const credential = await store.findByCredentialId(response.id);
+			if (credential === undefined)
+				return reject('Credential is not registered.');
+			if (
+				challenge.subject !== undefined &&
+				challenge.subject !== credential.subject
+			) {
+				return reject(
+					'Credential belongs to a different subject than was challenged.'
+				);
+			}
+
+			const userHandle = response.response.userHandle;
+			if (
+				userHandle !== undefined &&
+				userHandle !== null &&
+				userHandle !== credential.userHandle
+			) {
+				return reject('User handle does not match the credential.');
+			}
+
+			const authData = decode(response.response.authenticatorData);
+			const parsed =
+				authData === undefined ? undefined : parseAuthenticatorData(authData);
+			if (authData === undefined || parsed === undefined) {
+				return reject('Authenticator data is malformed.');
+			}
+
+			const flagFailure = checkFlags(parsed);
+			if (flagFailure !== undefined) return reject(flagFailure);
+
+			const storedKey = decode(credential.publicKey);
+			const key =
+				storedKey === undefined ? undefined : importCoseKey(storedKey);
+			const signature = decode(response.response.signature);
+			if (key?.algorithm !== credential.algorithm || signature === undefined) {
+				return reject('Stored credential key is unusable.');
+			}
+
+			if (
+				!verifyPasskeySignature(
+					key.algorithm,
+					key.key,
+					Buffer.concat([authData, clientData.hash]),
+					signature
+				)
+			) {
+				return reject('Assertion signature did not verify.');
+			}
+
+			const now = clock.now();
+
+			// Authenticators that do not keep a counter report zero forever; only
+			// when either side is non-zero does "did not advance" mean anything.
+			if (
+				(parsed.signCount !== 0 || credential.signCount !== 0) &&
+				parsed.signCount <= credential.signCount
+			) {
+				await onSignCountRegression?.({
+					subject: credential.subject,
+					credentialId: credential.credentialId,
+					storedCount: credential.signCount,
+					presentedCount: parsed.signCount,
+					detectedAt: now,
+				});
+				return reject(
+					'Signature counter did not advance; possible cloned authenticator.'
+				);
+			}
+
+			const advanced = await store.updateSignCount(
+				credential.credentialId,
+				credential.signCount,
+				parsed.signCount,
+				now
+			);
+			if (!advanced) {
+				return reject('Signature counter changed concurrently.');
+			}
+
+			return {
+				ok: true,
+				subject: credential.subject,
+				credential: {
+					...credential,
+					signCount: parsed.signCount,
+					lastUsedAt: now,
+				},
+				// RFC 8176 separates hardware-held keys from software ones. A synced
+				// passkey lives in a cloud keychain, so it reports as the latter.
+				authentication: {
+					method: parsed.backedUp ? 'swk' : 'hwk',
+					secondFactor: parsed.userVerified,
+				},
+			};
+		},
+
+		listCredentials: (subject) => store.listForSubject(subject),
+
+		removeCredential: async (subject, credentialId) => {
+			const credential = await store.findByCredentialId(credentialId);
+			if (credential?.subject !== subject) return false;
+			await store.delete(credentialId);
+			return true;
+		},
+	};
+};
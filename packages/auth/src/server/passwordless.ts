@@ -0,0 +1,504 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Passwordless sign-in by emailed link or one-time code.
+ *
+ * The token mechanics are the password-reset ones — random, single-use,
+ * stored only as a digest, time-boxed — applied to sign-in. Two things are
+ * added because a sign-in token is worth more than a reset token to whoever
+ * holds it:
+ *
+ * - **It only works in the browser that asked for it.** Issuing sets an
+ *   HttpOnly cookie, and redemption requires it. A link forwarded, scraped by
+ *   a mail scanner, or phished out of an inbox is spent and refused anywhere
+ *   else.
+ * - **A code has a fixed number of guesses.** Six digits are guessable; the
+ *   attempt budget is spent atomically with the check, so concurrent guesses
+ *   cannot share one allowance.
+ *
+ * Issuing never looks the identifier up, so its response cannot reveal whether
+ * an account exists. Mapping a proven identifier to an account is
+ * `resolveUser`'s job, at redemption.
+ */
+
+import { createHash, randomBytes, randomInt } from 'node:crypto';
+import type { ClaimsShape, InferClaims } from '../claims.js';
+import type { Clock, PasswordlessStore, RateLimiter } from '../contract.js';
+import {
+	ConfigError,
+	InvalidOtpError,
+	InvalidSignInLinkError,
+	RateLimitedError,
+	type AuthError,
+} from '../errors.js';
+import {
+	clearCookieChunks,
+	parseCookieHeader,
+	serializeCookieChunks,
+	type CookieOptions,
+} from './cookies.js';
+import type { Session, SessionEngine } from './session-engine.js';
+
+export const DEFAULT_PASSWORDLESS_TTL_MS = 10 * 60_000;
+export const MAX_PASSWORDLESS_TTL_MS = 60 * 60_000;
+export const DEFAULT_PASSWORDLESS_CODE_ATTEMPTS = 5;
+
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const CODE_DIGITS = 6;
+const CODE_PATTERN = /^\d{6}$/;
+const MAX_CODE_ATTEMPTS = 10;
+const SCOPE_ISSUE_IDENTIFIER = 'passwordless:issue:identifier';
+const SCOPE_ISSUE_IP = 'passwordless:issue:ip';
+const SCOPE_REDEEM_IDENTIFIER = 'passwordless:redeem:identifier';
+const SCOPE_REDEEM_IP = 'passwordless:redeem:ip';
+
+export type PasswordlessMethod = 'link' | 'code';
+
+/** What the application's mailer is asked to send. */
+export type PasswordlessDelivery =
+	| {
+			readonly method: 'link';
+			readonly identifier: string;
+			/** `linkUrl` with the token appended as `?token=`. */
+			readonly url: string;
+			readonly expiresAt: number;
+	  }
+	| {
+			readonly method: 'code';
+			readonly identifier: string;
+			readonly code: string;
+			readonly expiresAt: number;
+	  };
+
+export interface PasswordlessUser<Shape extends ClaimsShape> {
+	readonly subject: string;
+	readonly claims: InferClaims<Shape>;
+}
+
+export interface PasswordlessServiceOptions<Shape extends ClaimsShape> {
+	readonly store: PasswordlessStore;
+	readonly engine: SessionEngine<Shape>;
+	readonly limiter: RateLimiter;
+	readonly clock: Clock;
+	/**
+	 * Sends the link or code. Anything that throws here propagates from
+	 * `issue`, so a mail outage is an error the caller sees, not a silent drop.
+	 */
+	readonly deliver: (message: PasswordlessDelivery) => Promise<void> | void;
+	/**
+	 * Maps an identifier whose ownership was just proven to an account.
+	 * Return `undefined` to refuse; create the account here to allow sign-up.
+	 */
+	readonly resolveUser: (
+		identifier: string
+	) => Promise<PasswordlessUser<Shape> | undefined>;
+	/**
+	 * The absolute URL links point at, e.g. `https://example.com/auth/link`.
+	 * Configured rather than derived from the request, so an untrusted Host
+	 * header can never choose where a sign-in link sends its token.
+	 */
+	readonly linkUrl: string;
+	/** Defaults to 10 minutes and cannot exceed an hour. */
+	readonly ttlMs?: number;
+	/** Wrong codes tolerated per issued code. Defaults to 5, at most 10. */
+	readonly maxCodeAttempts?: number;
+	/** Cookie name carrying the browser binding. Defaults to `effuse.passwordless`. */
+	readonly cookieName?: string;
+	/** Set false only for local http development. */
+	readonly secureCookies?: boolean;
+}
+
+export type IssuePasswordlessResult =
+	| {
+			readonly ok: true;
+			readonly expiresAt: number;
+			/** The browser binding. Must be applied to the response. */
+			readonly setCookies: readonly string[];
+	  }
+	| { readonly ok: false; readonly error: RateLimitedError };
+
+export type RedeemPasswordlessResult<Shape extends ClaimsShape> =
+	| {
+			readonly ok: true;
+			readonly subject: string;
+			/** The new session token. Write it to the session cookie. */
+			readonly token: string;
+			readonly session: Session<Shape>;
+			/** Clears the binding cookie. Apply alongside the session cookie. */
+			readonly setCookies: readonly string[];
+	  }
+	| {
+			readonly ok: false;
+			readonly error: AuthError;
+			readonly setCookies: readonly string[];
+	  };
+
+interface RedeemContext {
+	/** The incoming request, for the binding cookie. */
+	readonly request: Request;
+	readonly clientIp: string;
+	/**
+	 * The session token the request already carried, if any. A session for the
+	 * same subject is rotated; any other is destroyed before the new one is
+	 * issued, so no pre-sign-in identifier survives the privilege change.
+	 */
+	readonly currentToken?: string;
+}
+
+export interface PasswordlessService<Shape extends ClaimsShape> {
+	/** Sends a link or code, replacing any pending one for the identifier. */
+	issue(input: {
+		readonly identifier: string;
+		readonly method: PasswordlessMethod;
+		readonly clientIp: string;
+	}): Promise<IssuePasswordlessResult>;
+	/** Signs in from the `token` query parameter of a link. */
+	redeemLink(
+		input: RedeemContext & { readonly token: string }
+	): Promise<RedeemPasswordlessResult<Shape>>;
+	/** Signs in from a code typed back into the page that requested it. */
+	redeemCode(
+		input: RedeemContext & {
+			readonly identifier: string;
+			readonly code: string;
+		}
+	): Promise<RedeemPasswordlessResult<Shape>>;
+	/** Revokes a pending link or code, for example after an administrator action. */
+	revoke(identifier: string): Promise<void>;
+}
+
+const sha256 = (value: string): string =>
+	createHash('sha256').update(value, 'utf8').digest('hex');
+
+// A six-digit code has a million values, so its digest protects nothing from
+// offline guessing. Hashing keeps it out of backups and query logs in the
+// clear; the expiry and attempt budget are what actually protect it.
+const codeDigest = (identifier: string, code: string): string =>
+	sha256(`${identifier}\u0000${code}`);
+
+const normaliseIdentifier = (identifier: string): string =>
+	identifier.trim().toLowerCase();
+
+const rateLimitError = (
+	verdict: { readonly retryAfterMs: number },
+	scope: string
+): RateLimitedError =>
+	new RateLimitedError({ retryAfterMs: verdict.retryAfterMs, scope });
+
+const validateLinkUrl = (linkUrl: string): URL => {
+	let url: URL;
+	try {
+		url = new URL(linkUrl);
+	} catch {
+		throw new ConfigError({
+			path: 'passwordless.linkUrl',
+			reason: 'Expected an absolute URL.',
+		});
+	}
+
+	const local = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+	if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+		throw new ConfigError({
+			path: 'passwordless.linkUrl',
+			reason: 'Sign-in links must use https outside localhost.',
+		});
+	}
+	if (url.searchParams.has('token') || url.hash !== '') {
+		throw new ConfigError({
+			path: 'passwordless.linkUrl',
+			reason: 'The URL must not carry its own token parameter or fragment.',
+		});
+	}
+	return url;
+};
+
+export const createPasswordlessService = <Shape extends ClaimsShape>(
+	options: PasswordlessServiceOptions<Shape>
+): PasswordlessService<Shape> => {
+	const {
+		store,
+		engine,
+		limiter,
+		clock,
+		deliver,
+		resolveUser,
+		ttlMs = DEFAULT_PASSWORDLESS_TTL_MS,
+		maxCodeAttempts = DEFAULT_PASSWORDLESS_CODE_ATTEMPTS,
+		cookieName = 'effuse.passwordless',
+		secureCookies = true,
+	} = options;
+
+	const linkUrl = validateLinkUrl(options.linkUrl);
+	if (
+		!Number.isFinite(ttlMs) ||
+		ttlMs <= 0 ||
+		ttlMs > MAX_PASSWORDLESS_TTL_MS
+	) {
+		throw new ConfigError({
+			path: 'passwordless.ttlMs',
+			reason: `Expected a positive finite duration no greater than ${String(MAX_PASSWORDLESS_TTL_MS)}ms.`,
+		});
+	}
+	if (
+		!Number.isInteger(maxCodeAttempts) ||
+		maxCodeAttempts < 1 ||
+		maxCodeAttempts > MAX_CODE_ATTEMPTS
+	) {
+		throw new ConfigError({
+			path: 'passwordless.maxCodeAttempts',
+			reason: `Expected an integer from 1 to ${String(MAX_CODE_ATTEMPTS)}.`,
+		});
+	}
+
+	const cookieOptions: CookieOptions = {
+		name: cookieName,
+		path: '/',
+		secure: secureCookies,
+		// A link is opened by a top-level navigation from a mail client or
+		// webmail origin, on which a Strict cookie is not sent.
+		sameSite: 'lax',
+		maxAgeSeconds: Math.floor(ttlMs / 1000),
+		hostPrefix: true,
+	};
+
+	const bindingOf = (request: Request): string | undefined => {
+		const jar = parseCookieHeader(request.headers.get('cookie'));
+		return jar[cookieName] ?? jar[`__Host-${cookieName}`];
+	};
+
+	const clearing = (request: Request): readonly string[] =>
+		clearCookieChunks(
+			parseCookieHeader(request.headers.get('cookie')),
+			cookieOptions
+		);
+
+	/** Issues the session, rotating or replacing the one already held. */
+	const signIn = async (
+		identifier: string,
+		context: RedeemContext,
+		failure: () => AuthError
+	): Promise<RedeemPasswordlessResult<Shape>> => {
+		const setCookies = clearing(context.request);
+		const user = await resolveUser(identifier);
+		if (user === undefined) {
+			return { ok: false, error: failure(), setCookies };
+		}
+
+		// RFC 8176 has no value for email; both a link and a code are one-time
+		// secrets delivered out of band, which is what `otp` names.
+		const authenticated = { method: 'otp' } as const;
+		const device = {
+			userAgent: context.request.headers.get('user-agent'),
+			ipAddress: context.clientIp,
+		};
+
+		let issued: Awaited<ReturnType<SessionEngine<Shape>['issue']>> | undefined;
+		if (context.currentToken !== undefined) {
+			const current = await engine.read(context.currentToken);
+			if (current.ok && current.session.subject === user.subject) {
+				issued = await engine.rotate(context.currentToken, {
+					claims: user.claims,
+					authenticated,
+					device,
+				});
+			} else {
+				await engine.destroy(context.currentToken);
+			}
+		}
+		issued ??= await engine.issue({
+			subject: user.subject,
+			claims: user.claims,
+			authenticated,
+			device,
+		});
+
+		if (!issued.ok) return { ok: false, error: issued.error, setCookies };
+		return {
+			ok: true,
+			subject: user.subject,
+			token: issued.token,
+			session: issued.session,
+			setCookies,
+		};
+	};
+
+	const redeemBudget = async (
+		clientIp: string
+	): Promise<RateLimitedError | undefined> => {
+		const rate = await limiter.consume(SCOPE_REDEEM_IP, clientIp);
+		return rate.allowed ? undefined : rateLimitError(rate, SCOPE_REDEEM_IP);
+	};
+
+	return {
+		issue: async ({ identifier, method, clientIp }) => {
+			const normalised = normaliseIdentifier(identifier);
+			const [byIdentifier, byIp] = await Promise.all([
+				limiter.consume(SCOPE_ISSUE_IDENTIFIER, normalised),
+				limiter.consume(SCOPE_ISSUE_IP, clientIp),
+			]);
+			if (!byIdentifier.allowed) {
+				return {
+					ok: false,
+					error: rateLimitError(byIdentifier, SCOPE_ISSUE_IDENTIFIER),
+				};
+			}
+			if (!byIp.allowed) {
+				return { ok: false, error: rateLimitError(byIp, SCOPE_ISSUE_IP) };
+			}
+
+			const binding = randomBytes(TOKEN_BYTES).toString('base64url');
+			const expiresAt = clock.now() + ttlMs;
+			const record = {
+				method,
+				identifier: normalised,
+				bindingDigest: sha256(binding),
+				expiresAt,
+				attemptsRemaining: method === 'code' ? maxCodeAttempts : 1,
+			};
+
+			if (method === 'link') {
+				const token = randomBytes(TOKEN_BYTES).toString('base64url');
+				const url = new URL(linkUrl);
+				url.searchParams.set('token', token);
+				await store.replace({ ...record, digest: sha256(token) });
+				await deliver({
+					method,
+					identifier: normalised,
+					url: url.toString(),
+					expiresAt,
+				});
+			} else {
+				const code = String(randomInt(0, 10 ** CODE_DIGITS)).padStart(
+					CODE_DIGITS,
+					'0'
+				);
+				await store.replace({
+					...record,
+					digest: codeDigest(normalised, code),
+				});
+				await deliver({ method, identifier: normalised, code, expiresAt });
+			}
+
+			return {
+				ok: true,
+				expiresAt,
+				setCookies: serializeCookieChunks(binding, cookieOptions),
+			};
+		},
+
+		redeemLink: async (input) => {
+			const { token, request, clientIp } = input;
+			const invalid = (detail: string) =>
+				({
+					ok: false,
+					error: new InvalidSignInLinkError({ detail }),
+					setCookies: clearing(request),
+				}) as const;
+
+			const limited = await redeemBudget(clientIp);
+			if (limited !== undefined) {
+				return { ok: false, error: limited, setCookies: [] };
+			}
+			if (!TOKEN_PATTERN.test(token)) return invalid('Malformed link token.');
+
+			const record = await store.consumeLink(sha256(token), clock.now());
+			if (record === undefined) {
+				return invalid('Link is absent, expired, replaced, or consumed.');
+			}
+
+			// Checked after consumption on purpose: a link opened in the wrong
+			// browser is spent, so forwarding it on again achieves nothing.
+			const binding = bindingOf(request);
+			if (binding === undefined || sha256(binding) !== record.bindingDigest) {
+				return invalid('Link was opened in a browser that did not request it.');
+			}
+
+			return signIn(
+				record.identifier,
+				input,
+				() =>
+					new InvalidSignInLinkError({ detail: 'No account for identifier.' })
+			);
+		},
+
+		redeemCode: async (input) => {
+			const { identifier, code, request, clientIp } = input;
+			const normalised = normaliseIdentifier(identifier);
+			const invalid = (detail: string) =>
+				({
+					ok: false,
+					error: new InvalidOtpError({ detail }),
+					setCookies: [],
+				}) as const;
+
+			const [byIdentifier, limited] = await Promise.all([
+				limiter.consume(SCOPE_REDEEM_IDENTIFIER, normalised),
+				redeemBudget(clientIp),
+			]);
+			if (limited !== undefined) {
+				return { ok: false, error: limited, setCookies: [] };
+			}
+			if (!byIdentifier.allowed) {
+				return {
+					ok: false,
+					error: rateLimitError(byIdentifier, SCOPE_REDEEM_IDENTIFIER),
+					setCookies: [],
+				};
+			}
+
+			// Without the binding there is nothing to redeem against, and the store
+			// only charges a record bound to this browser: a request from another
+			// browser cannot burn the user's attempts or their code.
+			const binding = bindingOf(request);
+			if (binding === undefined) {
+				return invalid(
+					'Code was entered in a browser that did not request it.'
+				);
+			}
+			if (!CODE_PATTERN.test(code)) return invalid('Malformed code.');
+
+			const record = await store.consumeCode(
+				normalised,
+				codeDigest(normalised, code),
+				sha256(binding),
+				clock.now()
+			);
+			if (record === undefined) {
+				return invalid('Code is wrong, expired, replaced, or consumed.');
+			}
+
+			await limiter.reset(SCOPE_REDEEM_IDENTIFIER, normalised);
+			return signIn(
+				normalised,
+				input,
+				() => new InvalidOtpError({ detail: 'No account for identifier.' })
+			);
+		},
+
+		revoke: (identifier) =>
+			store.revokeForIdentifier(normaliseIdentifier(identifier)),
+	};
+};
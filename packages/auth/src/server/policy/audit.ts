@@ -71,6 +71,10 @@ export interface CoverageEntry {
 	readonly unprotected: boolean;
 	/** True when the effective policy deliberately permits anonymous access. */
 	readonly isPublic: boolean;
+	/** True when a request authenticated by an API key can pass the guard. */
+	readonly reachableByApiKeys: boolean;
+	/** True when the decision looks at the addressed resource, not only the caller. */
+	readonly resourceGuarded: boolean;
 }
 
 export interface CoverageReport {
@@ -79,11 +83,20 @@ export interface CoverageReport {
 	readonly unprotected: readonly CoverageEntry[];
 	/** Entries explicitly declared public. */
 	readonly publicEntries: readonly CoverageEntry[];
+	/**
+	 * Non-public entries an API key can reach — the machine-facing surface, and
+	 * the list to review when a key leaks.
+	 */
+	readonly apiKeyEntries: readonly CoverageEntry[];
+	/** Entries whose policy loads the resource or checks a relationship to it. */
+	readonly resourceEntries: readonly CoverageEntry[];
 	readonly totals: {
 		readonly routes: number;
 		readonly protected: number;
 		readonly public: number;
 		readonly unprotected: number;
+		readonly apiKey: number;
+		readonly resource: number;
 	};
 }
 
@@ -137,6 +150,8 @@ export const auditPolicyCoverage = <Shape extends ClaimsShape>(
 			// signed off.
 			unprotected: match.policy === undefined && !matchesAny(exempt, path),
 			isPublic: match.policy?.isPublic ?? false,
+			reachableByApiKeys: match.policy?.acceptsApiKeys === true,
+			resourceGuarded: match.policy?.checksResource === true,
 		});
 	};
 
@@ -156,16 +171,24 @@ export const auditPolicyCoverage = <Shape extends ClaimsShape>(
 
 	const unprotected = entries.filter((entry) => entry.unprotected);
 	const publicEntries = entries.filter((entry) => entry.isPublic);
+	const apiKeyEntries = entries.filter(
+		(entry) => entry.reachableByApiKeys && !entry.isPublic
+	);
+	const resourceEntries = entries.filter((entry) => entry.resourceGuarded);
 
 	return {
 		entries,
 		unprotected,
 		publicEntries,
+		apiKeyEntries,
+		resourceEntries,
 		totals: {
 			routes: entries.length,
 			protected: entries.length - unprotected.length - publicEntries.length,
 			public: publicEntries.length,
 			unprotected: unprotected.length,
+			apiKey: apiKeyEntries.length,
+			resource: resourceEntries.length,
 		},
 	};
 };
@@ -219,12 +242,19 @@ export const formatCoverageReport = (report: CoverageReport): string => {
 				? 'public'
 				: 'protected';
 
-		return `${entry.method.padEnd(7)} ${entry.path.padEnd(40)} ${status.padEnd(12)} ${entry.rules.join(' + ')}`;
+		const flags = [
+			entry.reachableByApiKeys && !entry.isPublic ? 'api-key' : undefined,
+			entry.resourceGuarded ? 'resource' : undefined,
+		]
+			.filter((flag) => flag !== undefined)
+			.join(',');
+
+		return `${entry.method.padEnd(7)} ${entry.path.padEnd(40)} ${status.padEnd(12)} ${flags.padEnd(16)} ${entry.rules.join(' + ')}`;
 	});
 
 	return [
 		...rows,
 		'',
-		`${String(report.totals.routes)} route(s): ${String(report.totals.protected)} protected, ${String(report.totals.public)} public, ${String(report.totals.unprotected)} unprotected.`,
+		`${String(report.totals.routes)} route(s): ${String(report.totals.protected)} protected, ${String(report.totals.public)} public, ${String(report.totals.unprotected)} unprotected; ${String(report.totals.apiKey)} reachable by API keys, ${String(report.totals.resource)} resource-guarded.`,
 	].join('\n');
 };
@@ -0,0 +1,76 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Per-request memoisation for policy evaluation.
+ *
+ * A route guarded by `all(resource(loadDoc, isOwner), resource(loadDoc,
+ * isUnlocked))` should fetch the document once, and a page that asks the same
+ * relationship question from three places should ask the store once. The cache
+ * lives exactly as long as one guard check, so nothing it holds can outlive
+ * the request that loaded it — a revoked grant is seen on the next request,
+ * not after some TTL.
+ */
+
+export interface PolicyCache {
+	/**
+	 * Runs `compute` once per `owner` and `key` for the life of this cache, and
+	 * shares the result — including a rejection — with every later caller.
+	 */
+	remember<Value>(
+		owner: object,
+		key: string,
+		compute: () => Value | Promise<Value>
+	): Promise<Value>;
+}
+
+export const createPolicyCache = (): PolicyCache => {
+	// Keyed by owner first, so two loaders that happen to share a parameter
+	// string never see each other's results.
+	const entries = new WeakMap<object, Map<string, Promise<unknown>>>();
+
+	return {
+		remember: <Value>(
+			owner: object,
+			key: string,
+			compute: () => Value | Promise<Value>
+		): Promise<Value> => {
+			let byKey = entries.get(owner);
+			if (byKey === undefined) {
+				byKey = new Map();
+				entries.set(owner, byKey);
+			}
+
+			const existing = byKey.get(key) as Promise<Value> | undefined;
+			if (existing !== undefined) return existing;
+
+			// Stored before it settles, so concurrent evaluations of sibling
+			// policies join the one computation instead of racing to start their
+			// own.
+			const pending = Promise.resolve().then(compute);
+			byKey.set(key, pending);
+			return pending;
+		},
+	};
+};
@@ -44,6 +44,7 @@ import {
 } from '../../errors.js';
 import type { ClaimsShape } from '../../claims.js';
 import type { Session } from '../session-engine.js';
+import { createPolicyCache } from './cache.js';
 import type { PolicyDecision } from './predicates.js';
 import type { PolicyRegistry } from './registry.js';
 
@@ -124,7 +125,9 @@ export const createPolicyGuard = <Shape extends ClaimsShape>(
 			const setCookies = resolved.setCookies ?? [];
 
 			if (match.policy === undefined) {
-				if (unmatched === 'allow') {
+				// `allow` is for adopting the guard under existing browser routes;
+				// it never opens them to keys.
+				if (unmatched === 'allow' && resolved.session?.apiKey === undefined) {
 					return { allowed: true, session: resolved.session, setCookies };
 				}
 
@@ -141,6 +144,24 @@ export const createPolicyGuard = <Shape extends ClaimsShape>(
 				};
 			}
 
+			// Keys reach only what a policy explicitly opened to them. Checked here
+			// rather than in each predicate, so a hand-written policy that never
+			// heard of keys cannot be passed by one.
+			if (
+				resolved.session?.apiKey !== undefined &&
+				match.policy.acceptsApiKeys !== true
+			) {
+				const reason = `API keys are not accepted for ${method} ${url.pathname}.`;
+				return {
+					allowed: false,
+					error: denialError(403, reason),
+					status: 403,
+					reason,
+					setCookies,
+					session: resolved.session,
+				};
+			}
+
 			let decision: PolicyDecision;
 			try {
 				decision = await match.policy.evaluate({
@@ -148,6 +169,8 @@ export const createPolicyGuard = <Shape extends ClaimsShape>(
 					method,
 					path: url.pathname,
 					request,
+					params: match.params,
+					cache: createPolicyCache(),
 				});
 			} catch {
 				// A throwing policy denies. Failing open would turn any bug in a
@@ -38,7 +38,28 @@
  */
 
 import type { ClaimsShape, InferClaims } from '../../claims.js';
+import type { Clock, RelationStore } from '../../contract.js';
+import { ConfigError } from '../../errors.js';
 import type { Session } from '../session-engine.js';
+import type { PolicyCache } from './cache.js';
+
+type ParamNames<Path extends string> =
+	Path extends `${string}:${infer Rest}`
+		? Rest extends `${infer Name}/${infer Tail}`
+			? Name | ParamNames<Tail>
+			: Rest
+		: never;
+
+/**
+ * Route parameters, typed from a registry pattern when one is given.
+ *
+ * `RouteParams<'/docs/:id'>` is `{ id: string }`. Without a pattern every key
+ * is possibly absent, which is the honest type for a policy that does not know
+ * which route it will be attached to.
+ */
+export type RouteParams<Path extends string = string> = string extends Path
+	? Readonly<Record<string, string | undefined>>
+	: { readonly [Name in ParamNames<Path>]: string };
 
 /** What a policy is given to decide with. */
 export interface PolicyContext<Shape extends ClaimsShape> {
@@ -55,6 +76,13 @@ export interface PolicyContext<Shape extends ClaimsShape> {
 	 * internal caller reaching a resource the external path guards.
 	 */
 	readonly request?: Request;
+	/** Parameters of the matched route pattern, URI-decoded. */
+	readonly params?: RouteParams;
+	/**
+	 * Memoises loads and decisions for one request. The guard supplies a fresh
+	 * one per check; without it every evaluation starts cold.
+	 */
+	readonly cache?: PolicyCache;
 }
 
 export type PolicyDecision =
@@ -77,6 +105,19 @@ export interface Policy<Shape extends ClaimsShape> {
 	 * public" from "nobody got round to it" — the whole point of the mode.
 	 */
 	readonly isPublic: boolean;
+	/**
+	 * True when a session backed by an API key may pass this policy.
+	 *
+	 * Absent means false, so a hand-written policy never admits keys by
+	 * accident. Only `scope` and `public` set it; `all` and `any` inherit it
+	 * from their members.
+	 */
+	readonly acceptsApiKeys?: boolean;
+	/**
+	 * True when the decision depends on the resource being addressed rather than
+	 * only on who is asking. Reported by the coverage audit.
+	 */
+	readonly checksResource?: boolean;
 	evaluate(
 		context: PolicyContext<Shape>
 	): PolicyDecision | Promise<PolicyDecision>;
@@ -84,6 +125,32 @@ export interface Policy<Shape extends ClaimsShape> {
 
 const ALLOW: PolicyDecision = { allowed: true };
 
+/** A stable cache key for a set of params, independent of key order. */
+const paramsKey = (params: RouteParams): string =>
+	JSON.stringify(
+		Object.entries(params).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+	);
+
+const remember = <Value>(
+	context: { readonly cache?: PolicyCache },
+	owner: object,
+	key: string,
+	compute: () => Value | Promise<Value>
+): Promise<Value> =>
+	context.cache === undefined
+		? Promise.resolve().then(compute)
+		: context.cache.remember(owner, key, compute);
+
+/**
+ * Whether a conjunction of policies admits API keys: it does when it is public
+ * outright, or when a non-public member accepts them.
+ */
+export const admitsApiKeys = <Shape extends ClaimsShape>(
+	policies: readonly Policy<Shape>[]
+): boolean =>
+	(policies.length > 0 && policies.every((policy) => policy.isPublic)) ||
+	policies.some((policy) => policy.acceptsApiKeys === true && !policy.isPublic);
+
 const deny = (reason: string, status: 401 | 403): PolicyDecision => ({
 	allowed: false,
 	reason,
@@ -117,9 +184,81 @@ export interface PolicyBuilders<Shape extends ClaimsShape> {
 	/** Every policy must permit. Denies with the first failure's status. */
 	all(...policies: readonly Policy<Shape>[]): Policy<Shape>;
 
-	/** At least one policy must permit. */
+	/**
+	 * At least one policy must permit. A key-backed session is only offered to
+	 * the members that accept keys.
+	 */
 	any(...policies: readonly Policy<Shape>[]): Policy<Shape>;
 
+	/**
+	 * Requires a second factor verified during this session.
+	 *
+	 * Denies a password-only session with 403, so the client can prompt for a
+	 * code rather than bouncing the user back to sign-in.
+	 */
+	mfa(): Policy<Shape>;
+
+	/**
+	 * Requires the subject to have proved a factor within `maxAgeMs`.
+	 *
+	 * For step-up before sensitive actions: a session can be days old and still
+	 * valid, but changing an email address should not be one stolen cookie away.
+	 * Impersonated sessions and API keys never pass: neither involved anyone
+	 * signing in.
+	 */
+	recentlyAuthenticated(maxAgeMs: number): Policy<Shape>;
+
+	/**
+	 * Refuses a session opened by `SessionEngine.impersonate`.
+	 *
+	 * For the routes support staff must not use on a customer's behalf —
+	 * changing a password, reading payment details, starting another
+	 * impersonation.
+	 */
+	notImpersonating(): Policy<Shape>;
+
+	/**
+	 * Requires a scope of an API key, and is the only way a route admits keys.
+	 *
+	 * A browser session passes: the scope limits what a key may do on its
+	 * owner's behalf, not what the owner may do. Combine it with the owner's own
+	 * requirement, as in `all(claim('role', 'analyst'), scope('reports:read'))`,
+	 * and both the person and the key are held to it.
+	 */
+	scope(scope: string): Policy<Shape>;
+
+	/**
+	 * Loads the addressed resource and decides against it — "only the owner may
+	 * edit this document".
+	 *
+	 * Pass the route pattern as the second type argument for typed params:
+	 * `resource<Doc, '/docs/:id'>(({ id }) => docs.get(id), isOwner)`. A load
+	 * that finds nothing denies with 403, the same answer a non-owner gets, so
+	 * the response does not reveal which ids exist.
+	 */
+	resource<Resource, Path extends string = string>(
+		load: (
+			params: RouteParams<Path>,
+			context: PolicyContext<Shape>
+		) => Resource | undefined | Promise<Resource | undefined>,
+		check: (
+			resource: Resource,
+			context: PolicyContext<Shape> & { readonly session: Session<Shape> }
+		) => boolean | Promise<boolean>,
+		options?: { readonly name?: string }
+	): Policy<Shape>;
+
+	/**
+	 * Requires the subject to hold a relation to an object, as recorded in the
+	 * configured {@link RelationStore}: `relation('editor', 'doc', (params) =>
+	 * params.id)`. Pass several relations to accept any of them.
+	 */
+	relation<Path extends string = string>(
+		relation: string | readonly string[],
+		objectType: string,
+		objectId: string | ((params: RouteParams<Path>) => string | undefined)
+	): Policy<Shape>;
+
 	/** Inverts a policy. Requires a session, so it cannot accidentally open a route. */
 	not(policy: Policy<Shape>): Policy<Shape>;
 
@@ -140,9 +279,25 @@ export interface PolicyBuilders<Shape extends ClaimsShape> {
 	public(): Policy<Shape>;
 }
 
-export const createPolicies = <
-	Shape extends ClaimsShape,
->(): PolicyBuilders<Shape> => {
+export interface PolicyBuildersOptions {
+	/** Time source for age-based predicates. Defaults to the system clock. */
+	readonly clock?: Clock;
+	/** Backs `relation`. Required only if that builder is used. */
+	readonly relations?: RelationStore;
+}
+
+const systemClock: Clock = { now: () => Date.now() };
+
+export const createPolicies = <Shape extends ClaimsShape>(
+	options: PolicyBuildersOptions = {}
+): PolicyBuilders<Shape> => {
+	const clock = options.clock ?? systemClock;
+	const { relations } = options;
+
+	const checksResource = (policies: readonly Policy<Shape>[]): boolean =>
+		policies.some((policy) => policy.checksResource === true);
+
+
 	const authenticated = (): Policy<Shape> => ({
 		name: 'authenticated',
 		isPublic: false,
@@ -185,6 +340,11 @@ export const createPolicies = <
 			// A conjunction is public only if every member is. Anything else would
 			// let one public member open a route its neighbours meant to guard.
 			isPublic: policies.length > 0 && policies.every((policy) => policy.isPublic),
+			// One scoped member is enough: the others still evaluate against the
+			// key's owner, so `all(claim(...), scope(...))` holds both. A public
+			// member does not count, or it would admit keys unscoped.
+			acceptsApiKeys: admitsApiKeys(policies),
+			checksResource: checksResource(policies),
 			evaluate: async (context) => {
 				for (const policy of policies) {
 					const decision = await policy.evaluate(context);
@@ -199,8 +359,17 @@ export const createPolicies = <
 		any: (...policies) => ({
 			name: `any(${policies.map((policy) => policy.name).join(', ')})`,
 			isPublic: policies.some((policy) => policy.isPublic),
+			acceptsApiKeys: policies.some((policy) => policy.acceptsApiKeys === true),
+			checksResource: checksResource(policies),
 			evaluate: async (context) => {
-				if (policies.length === 0) {
+				// Otherwise a key with no scopes would pass through the alternative
+				// written for its owner's browser session.
+				const alternatives =
+					context.session?.apiKey === undefined
+						? policies
+						: policies.filter((policy) => policy.acceptsApiKeys === true);
+
+				if (alternatives.length === 0) {
 					// An empty disjunction permits nothing. Returning ALLOW here would
 					// mean `any()` silently opened a route.
 					return deny('No alternative policy permitted this request.', 403);
@@ -208,7 +377,7 @@ export const createPolicies = <
 
 				let last: PolicyDecision = deny('Denied.', 403);
 
-				for (const policy of policies) {
+				for (const policy of alternatives) {
 					const decision = await policy.evaluate(context);
 					if (decision.allowed) return ALLOW;
 					last = decision;
@@ -218,9 +387,197 @@ export const createPolicies = <
 			},
 		}),
 
+		mfa: () => ({
+			name: 'mfa',
+			isPublic: false,
+			evaluate: ({ session }) => {
+				if (session === undefined) return deny('No session.', 401);
+
+				return session.mfaAt === undefined
+					? deny('No second factor verified in this session.', 403)
+					: ALLOW;
+			},
+		}),
+
+		recentlyAuthenticated: (maxAgeMs) => {
+			if (!Number.isFinite(maxAgeMs) || maxAgeMs <= 0) {
+				throw new ConfigError({
+					path: 'policies.recentlyAuthenticated',
+					reason: 'Expected a positive finite duration in milliseconds.',
+				});
+			}
+
+			return {
+				name: `recentlyAuthenticated(${String(maxAgeMs)}ms)`,
+				isPublic: false,
+				evaluate: ({ session }) => {
+					if (session === undefined) return deny('No session.', 401);
+					// An impersonation is issued fresh, but nobody reauthenticated as
+					// the account's owner.
+					if (session.impersonation !== undefined) {
+						return deny('Not available while impersonating.', 403);
+					}
+					// A key's session dates from when the key was made, and nobody
+					// proved anything to make it.
+					if (session.apiKey !== undefined) {
+						return deny('Not available to API keys.', 403);
+					}
+
+					// Sessions issued before authentication time was tracked fall back
+					// to their creation time, which is when the subject last signed in.
+					const authenticatedAt = session.authenticatedAt ?? session.createdAt;
+
+					return clock.now() - authenticatedAt <= maxAgeMs
+						? ALLOW
+						: deny('Authentication is older than this route allows.', 403);
+				},
+			};
+		},
+
+		notImpersonating: () => ({
+			name: 'notImpersonating',
+			// Keys never carry an impersonation, so this lets one through, but it
+			// leaves `acceptsApiKeys` unset: only a `scope` member opens a
+			// conjunction to keys, so `all(scope(...), notImpersonating())` still
+			// admits them and `all(claim(...), notImpersonating())` does not.
+			isPublic: false,
+			evaluate: ({ session }) => {
+				if (session === undefined) return deny('No session.', 401);
+
+				return session.impersonation === undefined
+					? ALLOW
+					: deny('Not available while impersonating.', 403);
+			},
+		}),
+
+		scope: (scope) => {
+			if (!/^[A-Za-z0-9_.-]+(?::[A-Za-z0-9_.-]+)*$/.test(scope)) {
+				throw new ConfigError({
+					path: 'policies.scope',
+					reason: `"${scope}" is not a valid scope.`,
+				});
+			}
+
+			return {
+				name: `scope:${scope}`,
+				isPublic: false,
+				acceptsApiKeys: true,
+				evaluate: ({ session }) => {
+					if (session === undefined) return deny('No session.', 401);
+					if (session.apiKey === undefined) return ALLOW;
+
+					return session.apiKey.scopes.includes(scope)
+						? ALLOW
+						: deny(`API key lacks scope "${scope}".`, 403);
+				},
+			};
+		},
+
+		resource: (load, check, resourceOptions = {}) => {
+			const name = `resource:${resourceOptions.name ?? (load.name || 'load')}`;
+
+			const policy: Policy<Shape> = {
+				name,
+				isPublic: false,
+				checksResource: true,
+				evaluate: async (context) => {
+					const { session } = context;
+					if (session === undefined) return deny('No session.', 401);
+
+					const params = context.params ?? {};
+					const decide = async (): Promise<PolicyDecision> => {
+						try {
+							// Keyed on the loader, not the policy, so two checks against the
+							// same document share one fetch.
+							const resource = await remember(
+								context,
+								load,
+								paramsKey(params),
+								() => load(params as never, context)
+							);
+							if (resource === undefined) {
+								return deny(`${name} found no resource.`, 403);
+							}
+
+							return (await check(resource, { ...context, session }))
+								? ALLOW
+								: deny(`${name} denied the request.`, 403);
+						} catch {
+							// A failing load denies, like a throwing custom predicate.
+							return deny(`${name} threw; denying.`, 403);
+						}
+					};
+
+					return remember(context, policy, paramsKey(params), decide);
+				},
+			};
+
+			return policy;
+		},
+
+		relation: (relation, objectType, objectId) => {
+			const wanted = typeof relation === 'string' ? [relation] : [...relation];
+			if (wanted.length === 0) {
+				throw new ConfigError({
+					path: 'policies.relation',
+					reason: 'Expected at least one relation.',
+				});
+			}
+			if (relations === undefined) {
+				throw new ConfigError({
+					path: 'policies.relations',
+					reason: 'relation() needs a RelationStore. Pass `relations` to createPolicies.',
+				});
+			}
+			const store = relations;
+			const label = typeof objectId === 'string' ? objectId : '<param>';
+
+			return {
+				name: `relation:${wanted.join('|')}@${objectType}:${label}`,
+				isPublic: false,
+				checksResource: true,
+				evaluate: async (context) => {
+					const { session } = context;
+					if (session === undefined) return deny('No session.', 401);
+
+					const id =
+						typeof objectId === 'string'
+							? objectId
+							: objectId((context.params ?? {}) as never);
+					if (id === undefined || id === '') {
+						return deny(`No ${objectType} id for this route.`, 403);
+					}
+
+					const query = {
+						subject: session.subject,
+						relations: wanted,
+						objectType,
+						objectId: id,
+					};
+
+					try {
+						// Keyed on the store, so every relation policy in the request
+						// shares answers to the same question.
+						const holds = await remember(
+							context,
+							store,
+							JSON.stringify(query),
+							() => store.check(query)
+						);
+						return holds
+							? ALLOW
+							: deny(`Subject is not ${wanted.join(' or ')} of ${objectType}.`, 403);
+					} catch {
+						return deny('Relation check failed; denying.', 403);
+					}
+				},
+			};
+		},
+
 		not: (policy) => ({
 			name: `not(${policy.name})`,
 			isPublic: false,
+			checksResource: policy.checksResource === true,
 			evaluate: async (context) => {
 				// Negation still requires a session. Without this, `not(claim('role',
 				// 'banned'))` would permit anonymous callers, because an absent
@@ -254,6 +611,9 @@ export const createPolicies = <
 		public: () => ({
 			name: 'public',
 			isPublic: true,
+			// A client that sends its key everywhere must not be refused what an
+			// anonymous one is given.
+			acceptsApiKeys: true,
 			evaluate: () => ALLOW,
 		}),
 	};
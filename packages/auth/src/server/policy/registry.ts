@@ -42,7 +42,7 @@
  */
 
 import type { ClaimsShape } from '../../claims.js';
-import type { Policy } from './predicates.js';
+import { admitsApiKeys, type Policy, type RouteParams } from './predicates.js';
 
 /** An HTTP method, or `*` for all of them. */
 export type PolicyMethod = string;
@@ -73,6 +73,11 @@ export interface PolicyMatch<Shape extends ClaimsShape> {
 	readonly rules: readonly PolicyRule<Shape>[];
 	/** The single policy to evaluate, already combined. */
 	readonly policy: Policy<Shape> | undefined;
+	/**
+	 * Parameters captured by every matched pattern. Where two patterns name the
+	 * same parameter, the more specific one's value is kept.
+	 */
+	readonly params: RouteParams;
 }
 
 export interface PolicyRegistry<Shape extends ClaimsShape> {
@@ -130,6 +135,32 @@ const matchesPath = (pattern: CompiledPattern, path: string): boolean => {
 	});
 };
 
+const decodeSegment = (segment: string): string => {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		// A malformed escape is passed through as-is. The loader sees exactly
+		// what was requested and finds nothing, rather than the guard throwing.
+		return segment;
+	}
+};
+
+const captureParams = (
+	pattern: CompiledPattern,
+	path: string
+): Record<string, string> => {
+	const segments = path.split('/').filter((segment) => segment.length > 0);
+	const params: Record<string, string> = {};
+
+	pattern.segments.forEach((expected, index) => {
+		if (expected.startsWith(':')) {
+			params[expected.slice(1)] = decodeSegment(segments[index] ?? '');
+		}
+	});
+
+	return params;
+};
+
 const matchesMethod = (
 	methods: readonly PolicyMethod[] | undefined,
 	method: string
@@ -172,6 +203,8 @@ const combine = <Shape extends ClaimsShape>(
 	return {
 		name: `all(${policies.map((policy) => policy.name).join(', ')})`,
 		isPublic: policies.every((policy) => policy.isPublic),
+		acceptsApiKeys: admitsApiKeys(policies),
+		checksResource: policies.some((policy) => policy.checksResource === true),
 		evaluate: async (context) => {
 			for (const policy of policies) {
 				const decision = await policy.evaluate(context);
@@ -204,10 +237,15 @@ export const createPolicyRegistry = <
 				)
 				// Least specific first, so conjunction reads outside-in and an
 				// override discards exactly the rules broader than itself.
-				.sort((a, b) => a.pattern.specificity - b.pattern.specificity)
-				.map((entry) => entry.rule);
+				.sort((a, b) => a.pattern.specificity - b.pattern.specificity);
+
+			const params = matched.reduce<Record<string, string>>(
+				(found, entry) => ({ ...found, ...captureParams(entry.pattern, path) }),
+				{}
+			);
+			const rules = matched.map((entry) => entry.rule);
 
-			return { rules: matched, policy: combine(matched) };
+			return { rules, policy: combine(rules), params };
 		},
 	};
 
@@ -48,9 +48,9 @@
  */
 
 import { randomBytes } from 'node:crypto';
-import { ConfigError, InvalidTokenError, SessionExpiredError, SessionNotFoundError, SessionRevokedError, StoreError, TokenSignatureMismatchError, type AuthError } from '../errors.js';
+import { ConfigError, ForbiddenError, InvalidTokenError, SessionExpiredError, SessionNotFoundError, SessionRevokedError, StoreError, TokenSignatureMismatchError, type AuthError } from '../errors.js';
 import { decodeClaims, type ClaimsShape, type InferClaims } from '../claims.js';
-import type { Clock, SessionId, SessionStore, StoredSession, TokenCodec } from '../contract.js';
+import type { Clock, SessionId, SessionImpersonation, SessionStore, StoredSession, TokenCodec } from '../contract.js';
 
 export type SessionStrategy = 'stateless' | 'stateful';
 
@@ -62,8 +62,90 @@ export interface Session<Shape extends ClaimsShape> {
 	readonly createdAt: number;
 	readonly lastSeenAt: number;
 	readonly absoluteExpiresAt: number;
+	/** RFC 8176 methods proven during this session, e.g. `pwd`, `otp`, `mfa`. */
+	readonly amr?: readonly string[];
+	/** Epoch millis the subject last proved any factor. */
+	readonly authenticatedAt?: number;
+	/** Epoch millis a second factor was last verified. Absent until one is. */
+	readonly mfaAt?: number;
+	/**
+	 * Present when the request authenticated with an API key rather than a
+	 * browser session. Policies read it to hold the key to its scopes.
+	 */
+	readonly apiKey?: {
+		readonly id: string;
+		readonly scopes: readonly string[];
+	};
+	/**
+	 * Present when someone else is acting as {@link subject}: `actor` is the
+	 * administrator, `subject` the customer whose view they are seeing.
+	 */
+	readonly impersonation?: SessionImpersonation;
+}
+
+/** An impersonation starting or ending, for an audit log. */
+export interface ImpersonationEvent {
+	readonly type: 'impersonation.started' | 'impersonation.stopped';
+	/** The administrator acting. */
+	readonly actor: string;
+	/** The subject being impersonated. */
+	readonly subject: string;
+	readonly reason: string;
+	readonly startedAt: number;
+	readonly expiresAt: number;
+	/** When this event happened. Equal to `startedAt` for a start. */
+	readonly at: number;
+}
+
+/**
+ * A factor the subject has just proved, recorded onto the session by
+ * {@link SessionEngine.rotate}. The MFA services return one on success so it
+ * can be passed straight through.
+ */
+export interface AuthenticationEvent {
+	/** RFC 8176 method reference, e.g. `pwd`, `otp`, `hwk`. */
+	readonly method: string;
+	/**
+	 * True when the proof satisfies a multi-factor requirement: a code on top of
+	 * a password, or a user-verified passkey, which is both factors at once.
+	 */
+	readonly secondFactor?: boolean;
 }
 
+/**
+ * Where a session is being used from, recorded for a signed-in devices list.
+ *
+ * Informational only. Neither value is checked on later requests: both change
+ * legitimately — a browser update, a phone moving between networks — and
+ * binding to them signs people out for nothing.
+ */
+export interface SessionDevice {
+	readonly userAgent?: string | null;
+	readonly ipAddress?: string | null;
+}
+
+/** A live session as shown on a signed-in devices page. Claims are left out. */
+export interface ActiveSession {
+	readonly id: SessionId;
+	readonly createdAt: number;
+	/**
+	 * Epoch millis of the last recorded request. Stateful sessions write it at
+	 * most once per renewal interval, so it is approximate by that much.
+	 */
+	readonly lastSeenAt: number;
+	readonly absoluteExpiresAt: number;
+	readonly amr: readonly string[];
+	readonly authenticatedAt: number;
+	readonly userAgent?: string;
+	readonly ipAddress?: string;
+	/** Set for a support session, so the page can say who opened it. */
+	readonly impersonation?: SessionImpersonation;
+}
+
+export type SessionListResult =
+	| { readonly ok: true; readonly sessions: readonly ActiveSession[] }
+	| { readonly ok: false; readonly error: AuthError };
+
 export type SessionReadResult<Shape extends ClaimsShape> =
 	| {
 		readonly ok: true;
@@ -107,6 +189,12 @@ export interface SessionEngineOptions<Shape extends ClaimsShape> {
 	 * response for no benefit.
 	 */
 	readonly renewAfterMs?: number;
+	/**
+	 * Receives every impersonation start and stop. A start is refused, and its
+	 * session destroyed, if this rejects: an impersonation nobody recorded is
+	 * the thing an audit trail exists to rule out.
+	 */
+	readonly onImpersonation?: (event: ImpersonationEvent) => Promise<void> | void;
 }
 
 export interface SessionEngine<Shape extends ClaimsShape> {
@@ -117,26 +205,139 @@ export interface SessionEngine<Shape extends ClaimsShape> {
 	issue(input: {
 		readonly subject: string;
 		readonly claims: InferClaims<Shape>;
+		/** Methods used to sign in, e.g. `['pwd']`. */
+		readonly amr?: readonly string[];
+		/** A sign-in proof that may itself be multi-factor, such as a passkey. */
+		readonly authenticated?: AuthenticationEvent;
+		readonly device?: SessionDevice;
 	}): Promise<SessionIssueResult<Shape>>;
 
 	read(token: string | undefined | null): Promise<SessionReadResult<Shape>>;
 
 	/**
 	 * Regenerates the session identifier, preserving creation time and absolute
-	 * expiry. Call on every privilege change — sign-in above all.
+	 * expiry. Call on every privilege change — sign-in above all, and a
+	 * step-up, which is what `authenticated` records.
 	 */
 	rotate(
 		token: string,
-		changes?: { readonly claims?: InferClaims<Shape> }
+		changes?: {
+			readonly claims?: InferClaims<Shape>;
+			readonly authenticated?: AuthenticationEvent;
+			/** Replaces the recorded device. Omitted, the previous one carries over. */
+			readonly device?: SessionDevice;
+		}
 	): Promise<SessionIssueResult<Shape>>;
 
 	/** Returns false when the configuration cannot revoke server-side. */
 	destroy(token: string): Promise<boolean>;
 
 	destroyForSubject(subject: string): Promise<number>;
+
+	/**
+	 * The subject's live sessions, most recently used first. Empty without a
+	 * store, since a stateless token is recorded nowhere but its cookie.
+	 */
+	list(subject: string): Promise<SessionListResult>;
+
+	/**
+	 * Ends one of the subject's sessions by id, as listed by {@link list}.
+	 * Resolves false when the id is unknown or belongs to someone else, so a
+	 * devices page cannot be used to sign out another user.
+	 */
+	destroyOne(subject: string, sessionId: SessionId): Promise<boolean>;
+
+	/**
+	 * Issues a short-lived session for `targetSubject` on behalf of `actor`,
+	 * for support staff seeing the app as a customer does.
+	 *
+	 * Who may call this is a policy decision for the route in front of it. The
+	 * engine refuses what no policy should allow: impersonating yourself,
+	 * impersonating from an impersonated or key-backed session, and doing it
+	 * without a store to end it early. The session carries no factors and is
+	 * never treated as a recent sign-in, so `mfa()` and
+	 * `recentlyAuthenticated()` routes and identity linking stay closed to it,
+	 * and it never outlives the administrator's own session.
+	 */
+	impersonate(
+		actor: Session<Shape>,
+		targetSubject: string,
+		options: {
+			/** Why, in words an auditor can read. Required. */
+			readonly reason: string;
+			/** The target's claims, as they would be at their own sign-in. */
+			readonly claims: InferClaims<Shape>;
+			/** Defaults to 15 minutes and cannot exceed one hour. */
+			readonly ttlMs?: number;
+		}
+	): Promise<SessionIssueResult<Shape>>;
+
+	/**
+	 * Ends an impersonation session and reports the stop. Resolves false when
+	 * the token is not a live impersonation. The administrator's own session
+	 * is untouched.
+	 */
+	endImpersonation(token: string): Promise<boolean>;
 }
 
 const DEFAULT_ROTATION_OVERLAP_MS = 10_000;
+export const DEFAULT_IMPERSONATION_TTL_MS = 15 * 60_000;
+export const MAX_IMPERSONATION_TTL_MS = 60 * 60_000;
+const MAX_USER_AGENT_LENGTH = 512;
+const MAX_IP_ADDRESS_LENGTH = 64;
+
+/**
+ * The device fields to store. Both values come from the client, so they are
+ * trimmed and bounded rather than trusted to be short.
+ */
+const deviceFields = (
+	device: SessionDevice
+): Pick<StoredSession, 'userAgent' | 'ipAddress'> => {
+	const userAgent = device.userAgent?.trim().slice(0, MAX_USER_AGENT_LENGTH);
+	const ipAddress = device.ipAddress?.trim().slice(0, MAX_IP_ADDRESS_LENGTH);
+
+	return {
+		...(userAgent === undefined || userAgent === '' ? {} : { userAgent }),
+		...(ipAddress === undefined || ipAddress === '' ? {} : { ipAddress }),
+	};
+};
+
+/**
+ * The authentication fields a rotation carries forward.
+ *
+ * Methods accumulate rather than replace: a session that signed in with a
+ * password and then stepped up with a code has proved both. RFC 8176's `mfa`
+ * value is added alongside a second factor so downstream token consumers that
+ * only look for it still see the step-up.
+ */
+const authenticationAfter = (
+	session: Pick<
+		Session<ClaimsShape>,
+		'amr' | 'authenticatedAt' | 'createdAt' | 'mfaAt'
+	>,
+	event: AuthenticationEvent | undefined,
+	now: number
+): Pick<StoredSession, 'amr' | 'authenticatedAt' | 'mfaAt'> => {
+	const amr = session.amr ?? [];
+	const authenticatedAt = session.authenticatedAt ?? session.createdAt;
+
+	if (event === undefined) {
+		return {
+			amr,
+			authenticatedAt,
+			...(session.mfaAt === undefined ? {} : { mfaAt: session.mfaAt }),
+		};
+	}
+
+	const methods = event.secondFactor === true ? [event.method, 'mfa'] : [event.method];
+	const mfaAt = event.secondFactor === true ? now : session.mfaAt;
+
+	return {
+		amr: [...new Set([...amr, ...methods])],
+		authenticatedAt: now,
+		...(mfaAt === undefined ? {} : { mfaAt }),
+	};
+};
 
 /**
  * 32 bytes of CSPRNG output, base64url-encoded to 43 characters.
@@ -154,8 +355,14 @@ interface TokenPayload {
 	readonly lsa?: number;
 	readonly aex?: number;
 	readonly claims?: unknown;
+	readonly amr?: readonly string[];
+	readonly aat?: number;
+	readonly mfa?: number;
 }
 
+const isStringArray = (value: unknown): value is readonly string[] =>
+	Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
 const readTokenPayload = (payload: Record<string, unknown>): TokenPayload | undefined => {
 	const sid = payload['sid'];
 	if (typeof sid !== 'string' || sid.length === 0) return undefined;
@@ -167,6 +374,9 @@ const readTokenPayload = (payload: Record<string, unknown>): TokenPayload | unde
 		...(typeof payload['lsa'] === 'number' ? { lsa: payload['lsa'] } : {}),
 		...(typeof payload['aex'] === 'number' ? { aex: payload['aex'] } : {}),
 		...('claims' in payload ? { claims: payload['claims'] } : {}),
+		...(isStringArray(payload['amr']) ? { amr: payload['amr'] } : {}),
+		...(typeof payload['aat'] === 'number' ? { aat: payload['aat'] } : {}),
+		...(typeof payload['mfa'] === 'number' ? { mfa: payload['mfa'] } : {}),
 	};
 };
 
@@ -182,6 +392,7 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 		idleTtlMs,
 		absoluteTtlMs,
 		rotationOverlapMs = DEFAULT_ROTATION_OVERLAP_MS,
+		onImpersonation,
 	} = options;
 
 	const renewAfterMs = options.renewAfterMs ?? Math.floor(idleTtlMs / 2);
@@ -242,6 +453,18 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 		}
 	};
 
+	const isImpersonation = (value: unknown): value is SessionImpersonation => {
+		if (typeof value !== 'object' || value === null) return false;
+
+		const record = value as Record<string, unknown>;
+
+		return (
+			typeof record['actor'] === 'string' &&
+			typeof record['reason'] === 'string' &&
+			Number.isFinite(record['startedAt'])
+		);
+	};
+
 	/**
 	 * Validates a record coming back from the store.
 	 *
@@ -262,7 +485,14 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 			!Array.isArray(record['claims']) &&
 			Number.isFinite(record['createdAt']) &&
 			Number.isFinite(record['lastSeenAt']) &&
-			Number.isFinite(record['absoluteExpiresAt'])
+			Number.isFinite(record['absoluteExpiresAt']) &&
+			(record['amr'] === undefined || isStringArray(record['amr'])) &&
+			(record['authenticatedAt'] === undefined ||
+				Number.isFinite(record['authenticatedAt'])) &&
+			(record['mfaAt'] === undefined || Number.isFinite(record['mfaAt'])) &&
+			(record['userAgent'] === undefined || typeof record['userAgent'] === 'string') &&
+			(record['ipAddress'] === undefined || typeof record['ipAddress'] === 'string') &&
+			(record['impersonation'] === undefined || isImpersonation(record['impersonation']))
 		);
 	};
 
@@ -295,6 +525,11 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 				lsa: session.lastSeenAt,
 				aex: session.absoluteExpiresAt,
 				claims: session.claims,
+				...(session.amr === undefined ? {} : { amr: session.amr }),
+				...(session.authenticatedAt === undefined
+					? {}
+					: { aat: session.authenticatedAt }),
+				...(session.mfaAt === undefined ? {} : { mfa: session.mfaAt }),
 			});
 
 	const toSession = (stored: StoredSession, claims: InferClaims<Shape>): Session<Shape> => ({
@@ -304,8 +539,32 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 		createdAt: stored.createdAt,
 		lastSeenAt: stored.lastSeenAt,
 		absoluteExpiresAt: stored.absoluteExpiresAt,
+		amr: stored.amr ?? [],
+		authenticatedAt: stored.authenticatedAt ?? stored.createdAt,
+		...(stored.mfaAt === undefined ? {} : { mfaAt: stored.mfaAt }),
+		...(stored.impersonation === undefined
+			? {}
+			: { impersonation: stored.impersonation }),
 	});
 
+	const report = async (
+		type: ImpersonationEvent['type'],
+		session: Pick<StoredSession, 'subject' | 'absoluteExpiresAt'> & {
+			readonly impersonation: SessionImpersonation;
+		},
+		at: number
+	): Promise<void> => {
+		await onImpersonation?.({
+			type,
+			actor: session.impersonation.actor,
+			subject: session.subject,
+			reason: session.impersonation.reason,
+			startedAt: session.impersonation.startedAt,
+			expiresAt: session.absoluteExpiresAt,
+			at,
+		});
+	};
+
 	/** Rebuilds a stored record from a token, for the stateless strategy. */
 	const storedFromPayload = (payload: TokenPayload): StoredSession | undefined => {
 		if (
@@ -324,6 +583,9 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 			createdAt: payload.iat,
 			lastSeenAt: payload.lsa,
 			absoluteExpiresAt: payload.aex,
+			...(payload.amr === undefined ? {} : { amr: payload.amr }),
+			...(payload.aat === undefined ? {} : { authenticatedAt: payload.aat }),
+			...(payload.mfa === undefined ? {} : { mfaAt: payload.mfa }),
 		};
 	};
 
@@ -405,7 +667,7 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 		strategy,
 		supportsRevocation,
 
-		issue: async ({ subject, claims }) => {
+		issue: async ({ subject, claims, amr = [], authenticated, device }) => {
 			const decoded = decodeClaims(shape, claims);
 			if (!decoded.ok) {
 				return {
@@ -422,6 +684,12 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 				createdAt: now,
 				lastSeenAt: now,
 				absoluteExpiresAt: now + absoluteTtlMs,
+				...authenticationAfter(
+					{ amr: [...new Set(amr)], authenticatedAt: now, createdAt: now },
+					authenticated,
+					now
+				),
+				...(device === undefined ? {} : deviceFields(device)),
 			};
 
 			return issueFrom(stored, decoded.value);
@@ -541,6 +809,15 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 			}
 
 			const now = clock.now();
+
+			// Read before the successor is built, so the device it was recorded
+			// under carries over when the caller has nothing newer.
+			const predecessor: Resolved =
+				store === undefined
+					? { ok: true, value: undefined }
+					: await readRecord(current.session.id);
+			if (!predecessor.ok) return { ok: false, error: predecessor.error };
+
 			const successor: StoredSession = {
 				id: newSessionId(),
 				subject: current.session.subject,
@@ -551,22 +828,24 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 				// can trigger rotations extend a session indefinitely, which is
 				// exactly what the absolute lifetime exists to prevent.
 				absoluteExpiresAt: current.session.absoluteExpiresAt,
+				...authenticationAfter(current.session, changes?.authenticated, now),
+				...deviceFields(changes?.device ?? predecessor.value ?? {}),
+				// A rotation must not turn an impersonation into the customer's own
+				// session, or the flag and the audit trail would both fall away.
+				...(current.session.impersonation === undefined
+					? {}
+					: { impersonation: current.session.impersonation }),
 			};
 
 			// Mark the predecessor superseded rather than deleting it, so a request
 			// already in flight with the old token converges instead of 401-ing.
-			if (store !== undefined) {
-				const predecessor = await readRecord(current.session.id);
-				if (!predecessor.ok) return { ok: false, error: predecessor.error };
-
-				if (predecessor.value !== undefined) {
-					const marked = await persist({
-						...predecessor.value,
-						supersededAt: now + rotationOverlapMs,
-						supersededBy: successor.id,
-					});
-					if (marked !== undefined) return { ok: false, error: marked };
-				}
+			if (predecessor.value !== undefined) {
+				const marked = await persist({
+					...predecessor.value,
+					supersededAt: now + rotationOverlapMs,
+					supersededBy: successor.id,
+				});
+				if (marked !== undefined) return { ok: false, error: marked };
 			}
 
 			return issueFrom(successor, decoded.value);
@@ -599,6 +878,171 @@ export const createSessionEngine = <Shape extends ClaimsShape>(
 			);
 			return removed.ok ? removed.value : 0;
 		},
+
+		list: async (subject) => {
+			if (store === undefined) return { ok: true, sessions: [] };
+
+			const found = await attempt('listForSubject', async () =>
+				store.listForSubject(subject)
+			);
+			if (!found.ok) return { ok: false, error: found.error };
+
+			const now = clock.now();
+			const records: readonly unknown[] = found.value;
+
+			// The same liveness rules `read` applies, so the page never lists a
+			// session that would be refused if its owner came back to it. A
+			// superseded record is left out because its successor is listed.
+			const sessions = records
+				.filter(isStoredSession)
+				.filter(
+					(record) =>
+						record.subject === subject &&
+						record.supersededAt === undefined &&
+						now < record.absoluteExpiresAt &&
+						now - record.lastSeenAt <= idleTtlMs
+				)
+				.sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+				.map((record): ActiveSession => ({
+					id: record.id,
+					createdAt: record.createdAt,
+					lastSeenAt: record.lastSeenAt,
+					absoluteExpiresAt: record.absoluteExpiresAt,
+					amr: record.amr ?? [],
+					authenticatedAt: record.authenticatedAt ?? record.createdAt,
+					...(record.userAgent === undefined ? {} : { userAgent: record.userAgent }),
+					...(record.ipAddress === undefined ? {} : { ipAddress: record.ipAddress }),
+					...(record.impersonation === undefined
+						? {}
+						: { impersonation: record.impersonation }),
+				}));
+
+			return { ok: true, sessions };
+		},
+
+		destroyOne: async (subject, sessionId) => {
+			if (store === undefined) return false;
+
+			const found = await readRecord(sessionId);
+			if (!found.ok || found.value?.subject !== subject) return false;
+
+			// A predecessor still inside its overlap window resolves to this record,
+			// and so stops resolving the moment it is gone.
+			const removed = await attempt('destroy', async () => store.destroy(sessionId));
+			return removed.ok;
+		},
+
+		impersonate: async (actor, targetSubject, { reason, claims, ttlMs }) => {
+			const refuse = (detail: string): SessionIssueResult<Shape> => ({
+				ok: false,
+				error: new ForbiddenError({ policy: 'impersonate', detail }),
+			});
+
+			if (store === undefined) {
+				return {
+					ok: false,
+					error: new ConfigError({
+						path: 'store',
+						reason:
+							'Impersonation needs a SessionStore. Without one an impersonation cannot be ended before it expires.',
+					}),
+				};
+			}
+
+			const ttl = ttlMs ?? DEFAULT_IMPERSONATION_TTL_MS;
+			if (!Number.isFinite(ttl) || ttl <= 0 || ttl > MAX_IMPERSONATION_TTL_MS) {
+				return {
+					ok: false,
+					error: new ConfigError({
+						path: 'impersonate.ttlMs',
+						reason: `Expected a positive duration of at most ${String(MAX_IMPERSONATION_TTL_MS)}ms.`,
+					}),
+				};
+			}
+
+			const trimmedReason = reason.trim();
+			if (trimmedReason === '') return refuse('No reason given.');
+			if (targetSubject === '') return refuse('No target subject.');
+			if (targetSubject === actor.subject) return refuse('Cannot impersonate yourself.');
+			if (actor.impersonation !== undefined) {
+				// Otherwise the audit trail would name the customer as the actor of
+				// whatever the second impersonation did.
+				return refuse('Already impersonating.');
+			}
+			if (actor.apiKey !== undefined) return refuse('API keys cannot impersonate.');
+
+			const decoded = decodeClaims(shape, claims);
+			if (!decoded.ok) {
+				return {
+					ok: false,
+					error: new InvalidTokenError({ kind: 'claims', detail: decoded.reason }),
+				};
+			}
+
+			const now = clock.now();
+			const impersonation: SessionImpersonation = {
+				actor: actor.subject,
+				reason: trimmedReason,
+				startedAt: now,
+			};
+			const stored: StoredSession & { readonly impersonation: SessionImpersonation } = {
+				id: newSessionId(),
+				subject: targetSubject,
+				claims: decoded.value as Readonly<Record<string, unknown>>,
+				createdAt: now,
+				lastSeenAt: now,
+				absoluteExpiresAt: Math.min(now + ttl, actor.absoluteExpiresAt),
+				// No factors. The administrator proved theirs, not the customer's.
+				amr: [],
+				authenticatedAt: now,
+				impersonation,
+			};
+
+			const issued = await issueFrom(stored, decoded.value);
+			if (!issued.ok) return issued;
+
+			try {
+				await report('impersonation.started', stored, now);
+			} catch (cause) {
+				await attempt('destroy', async () => store.destroy(stored.id));
+				return {
+					ok: false,
+					error: new StoreError({
+						operation: 'onImpersonation',
+						cause,
+						detail: cause instanceof Error ? cause.message : String(cause),
+					}),
+				};
+			}
+
+			return issued;
+		},
+
+		endImpersonation: async (token) => {
+			if (store === undefined) return false;
+
+			const current = await engine.read(token);
+			if (!current.ok) return false;
+
+			const { session } = current;
+			if (session.impersonation === undefined) return false;
+
+			const removed = await attempt('destroy', async () => store.destroy(session.id));
+			if (!removed.ok) return false;
+
+			// Reported after the session is gone, so a failing audit sink cannot
+			// leave an administrator stuck inside someone else's account.
+			try {
+				await report(
+					'impersonation.stopped',
+					{ ...session, impersonation: session.impersonation },
+					clock.now()
+				);
+			} catch {
+				// The stop happened; there is nothing left to refuse.
+			}
+			return true;
+		},
 	};
 
 	return engine;
@@ -73,9 +73,10 @@ interface LockRecord {
  * Builds a {@link SessionStore} on top of {@link AuthStorage}.
  *
  * Three namespaces: the sessions themselves, a subject-to-session-ids index,
- * and locks. The index exists so `destroyForSubject` is a keyed lookup rather
- * than a scan of every session in the store — the difference between an
- * instant "sign out everywhere" and one that degrades as the product grows.
+ * and locks. The index exists so `destroyForSubject` and `listForSubject` are
+ * keyed lookups rather than a scan of every session in the store — the
+ * difference between an instant "sign out everywhere" and one that degrades as
+ * the product grows.
  */
 export const createStorageSessionStore = (
 	options: StorageSessionStoreOptions
@@ -130,6 +131,26 @@ export const createStorageSessionStore = (
 			return ids.length;
 		},
 
+		listForSubject: async (subject) => {
+			const ids = (await subjects.get<readonly string[]>(subject)) ?? [];
+			const found = await Promise.all(
+				ids.map(async (id) => sessions.get<StoredSession>(id))
+			);
+			const live = found.filter(
+				(session): session is StoredSession => session !== undefined
+			);
+
+			// Records the backend expired by TTL leave their ids behind in the
+			// index. Listing is the natural moment to drop them.
+			if (live.length < ids.length) {
+				const remaining = live.map((session) => session.id);
+				if (remaining.length === 0) await subjects.delete(subject);
+				else await subjects.set(subject, remaining, { ttlMs });
+			}
+
+			return live;
+		},
+
 		acquireLock: async (key, lockTtlMs) => {
 			const held = await locks.get<LockRecord>(key);
 
@@ -0,0 +1,488 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Time-based one-time passwords (RFC 6238) and recovery codes.
+ *
+ * Like the password-reset service, this starts after the subject is known: the
+ * caller has a session, or a sign-in that has passed its first factor. What
+ * happens on success is the caller's decision too — the returned
+ * {@link AuthenticationEvent} goes to `SessionEngine.rotate`, which records the
+ * step-up the `mfa()` and `recentlyAuthenticated()` policies read.
+ *
+ * Three properties carry the security weight. A code is accepted at most once,
+ * enforced by an atomic step claim rather than a read-then-write. Guessing is
+ * bounded by a per-subject budget, because a six-digit code falls to a million
+ * unthrottled requests. And recovery codes are stored only as digests, so a
+ * leaked table does not hand out second factors.
+ */
+
+import {
+	createHash,
+	createHmac,
+	randomBytes,
+	timingSafeEqual,
+} from 'node:crypto';
+import type { Clock, MfaStore, RateLimiter } from '../contract.js';
+import {
+	ConfigError,
+	ForbiddenError,
+	InvalidOtpError,
+	RateLimitedError,
+} from '../errors.js';
+import type { AuthenticationEvent } from './session-engine.js';
+
+export const DEFAULT_TOTP_DIGITS = 6;
+export const DEFAULT_TOTP_PERIOD_SECONDS = 30;
+export const DEFAULT_TOTP_WINDOW = 1;
+export const DEFAULT_RECOVERY_CODE_COUNT = 10;
+
+/** 160 bits, the HMAC-SHA1 block-aligned length RFC 4226 recommends. */
+const SECRET_BYTES = 20;
+const MAX_TOTP_WINDOW = 10;
+const MAX_RECOVERY_CODE_COUNT = 50;
+const RECOVERY_CODE_LENGTH = 10;
+const SCOPE_VERIFY_SUBJECT = 'mfa:verify:subject';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpServiceOptions {
+	readonly store: MfaStore;
+	readonly limiter: RateLimiter;
+	readonly clock: Clock;
+	/** Shown by the authenticator app beside the account name. */
+	readonly issuer: string;
+	/** Defaults to 6. */
+	readonly digits?: 6 | 8;
+	/** Defaults to 30 seconds, which is what every mainstream app assumes. */
+	readonly periodSeconds?: number;
+	/**
+	 * Steps of clock drift tolerated either side of now. Defaults to 1.
+	 *
+	 * Each extra step multiplies the codes a guess can match, so this stays
+	 * small and is capped at 10.
+	 */
+	readonly window?: number;
+	/** Recovery codes issued per set. Defaults to 10. */
+	readonly recoveryCodeCount?: number;
+}
+
+export type EnrollTotpResult =
+	| {
+			readonly ok: true;
+			/** Base32 secret, for manual entry. */
+			readonly secret: string;
+			/** `otpauth://` URI, for rendering as a QR code. */
+			readonly uri: string;
+	  }
+	| { readonly ok: false; readonly error: ForbiddenError };
+
+export type ConfirmTotpResult =
+	| {
+			readonly ok: true;
+			/** Shown once. Only digests are kept. */
+			readonly recoveryCodes: readonly string[];
+			readonly authentication: AuthenticationEvent;
+	  }
+	| {
+			readonly ok: false;
+			readonly error: InvalidOtpError | RateLimitedError;
+	  };
+
+export type VerifyTotpResult =
+	| { readonly ok: true; readonly authentication: AuthenticationEvent }
+	| {
+			readonly ok: false;
+			readonly error: InvalidOtpError | RateLimitedError;
+	  };
+
+export type RedeemRecoveryCodeResult =
+	| {
+			readonly ok: true;
+			readonly authentication: AuthenticationEvent;
+			/** Codes left, so the application can nudge the user to regenerate. */
+			readonly remaining: number;
+	  }
+	| {
+			readonly ok: false;
+			readonly error: InvalidOtpError | RateLimitedError;
+	  };
+
+export interface TotpService {
+	/**
+	 * Starts an enrolment with a fresh secret. Refused while a confirmed one
+	 * exists: replacing a working authenticator goes through `disable`, which
+	 * the application should guard with a step-up policy.
+	 */
+	enroll(input: {
+		readonly subject: string;
+		readonly accountName: string;
+	}): Promise<EnrollTotpResult>;
+	/** Confirms a pending enrolment with its first code and issues recovery codes. */
+	confirm(input: {
+		readonly subject: string;
+		readonly code: string;
+	}): Promise<ConfirmTotpResult>;
+	/** Verifies a code against a confirmed enrolment. */
+	verify(input: {
+		readonly subject: string;
+		readonly code: string;
+	}): Promise<VerifyTotpResult>;
+	/** Spends one recovery code in place of a TOTP code. */
+	redeemRecoveryCode(input: {
+		readonly subject: string;
+		readonly code: string;
+	}): Promise<RedeemRecoveryCodeResult>;
+	/** Replaces the subject's recovery codes, invalidating every earlier one. */
+	regenerateRecoveryCodes(subject: string): Promise<readonly string[]>;
+	/** True once an enrolment has been confirmed. */
+	isEnrolled(subject: string): Promise<boolean>;
+	/** Removes the enrolment and every recovery code. */
+	disable(subject: string): Promise<void>;
+}
+
+const encodeBase32 = (bytes: Uint8Array): string => {
+	let output = '';
+	let buffer = 0;
+	let bits = 0;
+
+	for (const byte of bytes) {
+		buffer = (buffer << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET.charAt((buffer >>> (bits - 5)) & 31);
+			bits -= 5;
+		}
+	}
+	if (bits > 0) output += BASE32_ALPHABET.charAt((buffer << (5 - bits)) & 31);
+
+	return output;
+};
+
+const decodeBase32 = (encoded: string): Buffer | undefined => {
+	const normalised = encoded.replace(/[\s=]/g, '').toUpperCase();
+	const bytes: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+
+	for (const character of normalised) {
+		const value = BASE32_ALPHABET.indexOf(character);
+		if (value === -1) return undefined;
+		buffer = (buffer << 5) | value;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((buffer >>> (bits - 8)) & 255);
+			bits -= 8;
+		}
+	}
+
+	return bytes.length === 0 ? undefined : Buffer.from(bytes);
+};
+
+/** RFC 4226 HOTP: HMAC-SHA1 over the big-endian counter, dynamically truncated. */
+const hotp = (key: Buffer, counter: number, digits: number): string => {
+	const message = Buffer.alloc(8);
+	message.writeBigUInt64BE(BigInt(counter));
+
+	const mac = createHmac('sha1', key).update(message).digest();
+	const offset = (mac[mac.length - 1] ?? 0) & 0x0f;
+	const binary = mac.readUInt32BE(offset) & 0x7fffffff;
+
+	return String(binary % 10 ** digits).padStart(digits, '0');
+};
+
+/**
+ * Computes the code a base32 secret produces at an instant.
+ *
+ * Exported for tests and for tooling that seeds authenticators; the service
+ * never needs a caller to compute one.
+ */
+export const generateTotpCode = (
+	secret: string,
+	options: {
+		readonly atMs: number;
+		readonly digits?: 6 | 8;
+		readonly periodSeconds?: number;
+	}
+): string => {
+	const key = decodeBase32(secret);
+	if (key === undefined) {
+		throw new ConfigError({
+			path: 'totp.secret',
+			reason: 'Expected a non-empty base32 string.',
+		});
+	}
+
+	const periodSeconds = options.periodSeconds ?? DEFAULT_TOTP_PERIOD_SECONDS;
+	return hotp(
+		key,
+		Math.floor(options.atMs / 1000 / periodSeconds),
+		options.digits ?? DEFAULT_TOTP_DIGITS
+	);
+};
+
+/**
+ * Builds the `otpauth://totp/` URI authenticator apps scan.
+ *
+ * Encoded by hand rather than with `URLSearchParams`, which writes spaces as
+ * `+` — and several apps display that `+` literally in the issuer name.
+ */
+export const createTotpUri = (input: {
+	readonly secret: string;
+	readonly issuer: string;
+	readonly accountName: string;
+	readonly digits?: 6 | 8;
+	readonly periodSeconds?: number;
+}): string => {
+	const issuer = encodeURIComponent(input.issuer);
+	const label = `${issuer}:${encodeURIComponent(input.accountName)}`;
+	const digits = String(input.digits ?? DEFAULT_TOTP_DIGITS);
+	const period = String(input.periodSeconds ?? DEFAULT_TOTP_PERIOD_SECONDS);
+
+	return `otpauth://totp/${label}?secret=${input.secret}&issuer=${issuer}&algorithm=SHA1&digits=${digits}&period=${period}`;
+};
+
+/** Case, spaces, and the display hyphen are not part of a recovery code. */
+const digestRecoveryCode = (code: string): string =>
+	createHash('sha256')
+		.update(code.replace(/[\s-]/g, '').toUpperCase(), 'utf8')
+		.digest('hex');
+
+const newRecoveryCode = (): string => {
+	// 64 random bits, of which the first 50 are kept: ample behind a rate limit,
+	// and short enough to type from a printout.
+	const raw = encodeBase32(randomBytes(8)).slice(0, RECOVERY_CODE_LENGTH);
+	return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+const codesMatch = (expected: string, actual: string): boolean =>
+	expected.length === actual.length &&
+	timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+
+const invalidOtp = (detail: string): InvalidOtpError =>
+	new InvalidOtpError({ detail });
+
+export const createTotpService = (options: TotpServiceOptions): TotpService => {
+	const {
+		store,
+		limiter,
+		clock,
+		issuer,
+		digits = DEFAULT_TOTP_DIGITS,
+		periodSeconds = DEFAULT_TOTP_PERIOD_SECONDS,
+		window = DEFAULT_TOTP_WINDOW,
+		recoveryCodeCount = DEFAULT_RECOVERY_CODE_COUNT,
+	} = options;
+
+	// The key URI format separates issuer and account with a colon, and some
+	// apps split on the first one they find even when it is percent-encoded.
+	if (issuer.trim().length === 0 || issuer.includes(':')) {
+		throw new ConfigError({
+			path: 'totp.issuer',
+			reason: 'Expected a non-empty issuer without a colon.',
+		});
+	}
+	if (!Number.isInteger(periodSeconds) || periodSeconds <= 0) {
+		throw new ConfigError({
+			path: 'totp.periodSeconds',
+			reason: 'Expected a positive whole number of seconds.',
+		});
+	}
+	if (!Number.isInteger(window) || window < 0 || window > MAX_TOTP_WINDOW) {
+		throw new ConfigError({
+			path: 'totp.window',
+			reason: `Expected a whole number of steps from 0 to ${String(MAX_TOTP_WINDOW)}.`,
+		});
+	}
+	if (
+		!Number.isInteger(recoveryCodeCount) ||
+		recoveryCodeCount <= 0 ||
+		recoveryCodeCount > MAX_RECOVERY_CODE_COUNT
+	) {
+		throw new ConfigError({
+			path: 'totp.recoveryCodeCount',
+			reason: `Expected a whole number from 1 to ${String(MAX_RECOVERY_CODE_COUNT)}.`,
+		});
+	}
+
+	const codePattern = new RegExp(`^\\d{${String(digits)}}$`);
+
+	/** Spends one attempt from the subject's budget, shared by every factor. */
+	const throttle = async (
+		subject: string
+	): Promise<RateLimitedError | undefined> => {
+		const verdict = await limiter.consume(SCOPE_VERIFY_SUBJECT, subject);
+		return verdict.allowed
+			? undefined
+			: new RateLimitedError({
+					retryAfterMs: verdict.retryAfterMs,
+					scope: SCOPE_VERIFY_SUBJECT,
+				});
+	};
+
+	/**
+	 * Checks a code against every step in the drift window and claims the one
+	 * it matched. Every step is computed even after a match, so the time taken
+	 * does not reveal which offset the code came from.
+	 */
+	const acceptCode = async (
+		subject: string,
+		secret: string,
+		code: string
+	): Promise<InvalidOtpError | undefined> => {
+		const normalised = code.replace(/\s/g, '');
+		if (!codePattern.test(normalised)) return invalidOtp('Malformed code.');
+
+		const key = decodeBase32(secret);
+		if (key === undefined) return invalidOtp('Stored secret is unreadable.');
+
+		const now = clock.now();
+		const current = Math.floor(now / 1000 / periodSeconds);
+		let matched: number | undefined;
+
+		for (let offset = -window; offset <= window; offset += 1) {
+			const step = current + offset;
+			if (step < 0) continue;
+			if (codesMatch(hotp(key, step, digits), normalised)) matched = step;
+		}
+
+		if (matched === undefined) return invalidOtp('Code did not match.');
+
+		// The atomic claim is the replay protection: a step at or below the last
+		// accepted one is refused, so a code observed over a shoulder or phished
+		// in real time is worthless once the user has spent it.
+		const claimed = await store.claimTotpStep(subject, matched, now);
+		return claimed ? undefined : invalidOtp('Code was already used.');
+	};
+
+	const issueRecoveryCodes = async (
+		subject: string
+	): Promise<readonly string[]> => {
+		const codes = Array.from({ length: recoveryCodeCount }, newRecoveryCode);
+		await store.replaceRecoveryCodes(subject, codes.map(digestRecoveryCode));
+		return codes;
+	};
+
+	return {
+		enroll: async ({ subject, accountName }) => {
+			const existing = await store.readTotp(subject);
+			if (existing?.confirmedAt !== undefined) {
+				return {
+					ok: false,
+					error: new ForbiddenError({
+						detail: 'A confirmed TOTP enrolment exists; disable it first.',
+					}),
+				};
+			}
+
+			const secret = encodeBase32(randomBytes(SECRET_BYTES));
+			await store.writeTotp({ subject, secret, createdAt: clock.now() });
+
+			return {
+				ok: true,
+				secret,
+				uri: createTotpUri({
+					secret,
+					issuer,
+					accountName,
+					digits,
+					periodSeconds,
+				}),
+			};
+		},
+
+		confirm: async ({ subject, code }) => {
+			const limited = await throttle(subject);
+			if (limited !== undefined) return { ok: false, error: limited };
+
+			const pending = await store.readTotp(subject);
+			if (pending === undefined || pending.confirmedAt !== undefined) {
+				return { ok: false, error: invalidOtp('No pending enrolment.') };
+			}
+
+			const rejected = await acceptCode(subject, pending.secret, code);
+			if (rejected !== undefined) return { ok: false, error: rejected };
+
+			await limiter.reset(SCOPE_VERIFY_SUBJECT, subject);
+			return {
+				ok: true,
+				recoveryCodes: await issueRecoveryCodes(subject),
+				authentication: { method: 'otp', secondFactor: true },
+			};
+		},
+
+		verify: async ({ subject, code }) => {
+			const limited = await throttle(subject);
+			if (limited !== undefined) return { ok: false, error: limited };
+
+			const enrolled = await store.readTotp(subject);
+			if (enrolled?.confirmedAt === undefined) {
+				return { ok: false, error: invalidOtp('No confirmed enrolment.') };
+			}
+
+			const rejected = await acceptCode(subject, enrolled.secret, code);
+			if (rejected !== undefined) return { ok: false, error: rejected };
+
+			await limiter.reset(SCOPE_VERIFY_SUBJECT, subject);
+			return {
+				ok: true,
+				authentication: { method: 'otp', secondFactor: true },
+			};
+		},
+
+		redeemRecoveryCode: async ({ subject, code }) => {
+			// The same budget as TOTP codes. Separate budgets would double the
+			// guesses an attacker gets against one account's second factor.
+			const limited = await throttle(subject);
+			if (limited !== undefined) return { ok: false, error: limited };
+
+			const consumed = await store.consumeRecoveryCode(
+				subject,
+				digestRecoveryCode(code)
+			);
+			if (!consumed) {
+				return {
+					ok: false,
+					error: invalidOtp('Recovery code is unknown or already used.'),
+				};
+			}
+
+			await limiter.reset(SCOPE_VERIFY_SUBJECT, subject);
+			return {
+				ok: true,
+				authentication: { method: 'recovery', secondFactor: true },
+				remaining: await store.countRecoveryCodes(subject),
+			};
+		},
+
+		regenerateRecoveryCodes: issueRecoveryCodes,
+
+		isEnrolled: async (subject) =>
+			(await store.readTotp(subject))?.confirmedAt !== undefined,
+
+		disable: async (subject) => {
+			await store.deleteTotp(subject);
+			await store.replaceRecoveryCodes(subject, []);
+		},
+	};
+};
@@ -33,6 +33,10 @@
  * It can also produce deliberately malformed tokens — wrong issuer, wrong
  * audience, `alg: none`, a signature from a key it does not publish — so the
  * hostile cases are generated rather than hand-written.
+ *
+ * {@link accountTakeoverScenarios} does the same for account linking: validly
+ * signed tokens from an attacker who claims the victim's email without the
+ * provider having verified it.
  */
 
 import {
@@ -388,6 +392,53 @@ export const createFakeIdp = (options: FakeIdpOptions = {}): FakeIdp => {
 	};
 };
 
+/**
+ * A validly signed sign-in by someone who is not the victim but claims their
+ * email. Apply `overrides` with {@link FakeIdp.setNextIdTokenOverrides}.
+ */
+export interface AccountTakeoverScenario {
+	readonly name: string;
+	readonly overrides: MintOptions;
+}
+
+/**
+ * Attempts to sign in to the account owning `victimEmail` through an email the
+ * provider never verified. None of them may reach the account, whatever
+ * linking settings are enabled.
+ */
+export const accountTakeoverScenarios = (
+	victimEmail: string,
+	attackerSubject = 'attacker-sub'
+): readonly AccountTakeoverScenario[] => [
+	{
+		name: 'email marked unverified',
+		overrides: {
+			subject: attackerSubject,
+			claims: { email: victimEmail, email_verified: false },
+		},
+	},
+	{
+		name: 'email with no verification claim',
+		overrides: { subject: attackerSubject, claims: { email: victimEmail } },
+	},
+	{
+		// Some providers have sent the claim as a string. Only boolean true
+		// counts; anything truthy would let a lax provider vouch by accident.
+		name: 'verification claim as the string "true"',
+		overrides: {
+			subject: attackerSubject,
+			claims: { email: victimEmail, email_verified: 'true' },
+		},
+	},
+	{
+		name: 'unverified email differing only in case',
+		overrides: {
+			subject: attackerSubject,
+			claims: { email: victimEmail.toUpperCase(), email_verified: false },
+		},
+	},
+];
+
 /** Converts a published JWK into a usable public key, for assertions in tests. */
 export const publicKeyFromJwk = (jwk: Record<string, unknown>): KeyObject =>
 	createPublicKey({ key: jwk as never, format: 'jwk' });
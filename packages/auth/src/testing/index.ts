@@ -37,18 +37,36 @@
  */
 
 import type {
+	ApiKeyRecord,
+	ApiKeyStore,
+	AuthorizationCodeRecord,
+	AuthorizationServerStore,
 	Clock,
+	ConsentRecord,
 	CredentialRecord,
+	IdentityLinkRecord,
+	IdentityLinkStore,
 	LockHandle,
+	MfaStore,
+	PasskeyChallengeRecord,
+	PasskeyCredentialRecord,
+	PasskeyStore,
 	PasswordResetRecord,
 	PasswordResetStore,
+	PasswordlessRecord,
+	PasswordlessStore,
 	RateLimitVerdict,
 	RateLimiter,
+	RefreshGrantRecord,
+	RelationStore,
+	RelationTuple,
 	SessionId,
 	SessionStore,
 	StoredSession,
+	TotpEnrollmentRecord,
 	UserStore,
 } from '../contract.js';
+import type { PasswordlessDelivery } from '../server/passwordless.js';
 
 /** A {@link Clock} whose time only moves when a test moves it. */
 export interface TestClock extends Clock {
@@ -147,6 +165,13 @@ export const createMemorySessionStore = (
 			return Promise.resolve(removed);
 		},
 
+		listForSubject: (subject) =>
+			Promise.resolve(
+				[...sessions.values()]
+					.filter((session) => session.subject === subject)
+					.map((session) => structuredClone(session))
+			),
+
 		acquireLock: (key, ttlMs) => {
 			const held = locks.get(key);
 
@@ -426,18 +451,569 @@ export const createMemoryPasswordResetStore = (): MemoryPasswordResetStore => {
 	};
 };
 
+/** An in-memory second-factor store with observable enrolments. */
+export interface MemoryMfaStore extends MfaStore {
+	readonly snapshot: () => readonly TotpEnrollmentRecord[];
+	readonly reset: () => void;
+}
+
+/**
+ * Reference implementation of the atomic second-factor persistence contract.
+ *
+ * As with the password-reset store, every check-and-write happens
+ * synchronously before its promise resolves, so concurrent claims in one
+ * process race exactly as a database adapter's transactions must.
+ */
+export const createMemoryMfaStore = (): MemoryMfaStore => {
+	const enrollments = new Map<string, TotpEnrollmentRecord>();
+	const recoveryCodes = new Map<string, Set<string>>();
+
+	return {
+		readTotp: (subject) => {
+			const found = enrollments.get(subject);
+			return Promise.resolve(
+				found === undefined ? undefined : structuredClone(found)
+			);
+		},
+
+		writeTotp: (record) => {
+			enrollments.set(record.subject, structuredClone(record));
+			return Promise.resolve();
+		},
+
+		claimTotpStep: (subject, step, now) => {
+			const existing = enrollments.get(subject);
+			if (
+				existing === undefined ||
+				(existing.lastUsedStep !== undefined && step <= existing.lastUsedStep)
+			) {
+				return Promise.resolve(false);
+			}
+
+			enrollments.set(subject, {
+				...existing,
+				confirmedAt: existing.confirmedAt ?? now,
+				lastUsedStep: step,
+			});
+			return Promise.resolve(true);
+		},
+
+		deleteTotp: (subject) => {
+			enrollments.delete(subject);
+			return Promise.resolve();
+		},
+
+		replaceRecoveryCodes: (subject, digests) => {
+			if (digests.length === 0) recoveryCodes.delete(subject);
+			else recoveryCodes.set(subject, new Set(digests));
+			return Promise.resolve();
+		},
+
+		consumeRecoveryCode: (subject, digest) =>
+			Promise.resolve(recoveryCodes.get(subject)?.delete(digest) ?? false),
+
+		countRecoveryCodes: (subject) =>
+			Promise.resolve(recoveryCodes.get(subject)?.size ?? 0),
+
+		snapshot: () =>
+			[...enrollments.values()].map((record) => structuredClone(record)),
+		reset: () => {
+			enrollments.clear();
+			recoveryCodes.clear();
+		},
+	};
+};
+
+/** An in-memory passwordless store with observable pending sign-ins. */
+export interface MemoryPasswordlessStore extends PasswordlessStore {
+	readonly snapshot: () => readonly PasswordlessRecord[];
+	readonly reset: () => void;
+}
+
+/**
+ * Reference implementation of the passwordless persistence contract.
+ *
+ * One pending record per identifier. A wrong code decrements the record's
+ * attempts in the same synchronous step that would have consumed it, so
+ * concurrent guesses cannot each see the same remaining budget.
+ */
+export const createMemoryPasswordlessStore = (): MemoryPasswordlessStore => {
+	const byIdentifier = new Map<string, PasswordlessRecord>();
+
+	const live = (
+		record: PasswordlessRecord | undefined,
+		now: number
+	): record is PasswordlessRecord =>
+		record !== undefined && record.expiresAt > now;
+
+	return {
+		replace: (record) => {
+			byIdentifier.set(record.identifier, structuredClone(record));
+			return Promise.resolve();
+		},
+
+		consumeLink: (digest, now) => {
+			const record = [...byIdentifier.values()].find(
+				(candidate) =>
+					candidate.method === 'link' && candidate.digest === digest
+			);
+			if (record === undefined) return Promise.resolve(undefined);
+
+			byIdentifier.delete(record.identifier);
+			return Promise.resolve(live(record, now) ? record : undefined);
+		},
+
+		consumeCode: (identifier, digest, bindingDigest, now) => {
+			const record = byIdentifier.get(identifier);
+			if (record?.method !== 'code') return Promise.resolve(undefined);
+			if (record.bindingDigest !== bindingDigest) {
+				return Promise.resolve(undefined);
+			}
+			if (!live(record, now)) {
+				byIdentifier.delete(identifier);
+				return Promise.resolve(undefined);
+			}
+
+			if (record.digest === digest) {
+				byIdentifier.delete(identifier);
+				return Promise.resolve(record);
+			}
+
+			const attemptsRemaining = record.attemptsRemaining - 1;
+			if (attemptsRemaining <= 0) byIdentifier.delete(identifier);
+			else byIdentifier.set(identifier, { ...record, attemptsRemaining });
+			return Promise.resolve(undefined);
+		},
+
+		revokeForIdentifier: (identifier) => {
+			byIdentifier.delete(identifier);
+			return Promise.resolve();
+		},
+
+		snapshot: () =>
+			[...byIdentifier.values()].map((record) => structuredClone(record)),
+		reset: () => {
+			byIdentifier.clear();
+		},
+	};
+};
+
+/** An in-memory passkey store with observable credentials. */
+export interface MemoryPasskeyStore extends PasskeyStore {
+	readonly snapshot: () => readonly PasskeyCredentialRecord[];
+	readonly reset: () => void;
+}
+
+/**
+ * Reference implementation of the passkey persistence contract.
+ *
+ * The counter update is a compare-and-set and the challenge consumption a
+ * delete-and-return, both completed synchronously, which is the atomicity a
+ * database adapter must reproduce with a conditional update.
+ */
+export const createMemoryPasskeyStore = (): MemoryPasskeyStore => {
+	const credentials = new Map<string, PasskeyCredentialRecord>();
+	const challenges = new Map<string, PasskeyChallengeRecord>();
+
+	return {
+		create: (record) => {
+			if (credentials.has(record.credentialId)) return Promise.resolve(false);
+			credentials.set(record.credentialId, structuredClone(record));
+			return Promise.resolve(true);
+		},
+
+		findByCredentialId: (credentialId) => {
+			const found = credentials.get(credentialId);
+			return Promise.resolve(
+				found === undefined ? undefined : structuredClone(found)
+			);
+		},
+
+		listForSubject: (subject) =>
+			Promise.resolve(
+				[...credentials.values()]
+					.filter((record) => record.subject === subject)
+					.map((record) => structuredClone(record))
+			),
+
+		updateSignCount: (credentialId, expected, next, usedAt) => {
+			const existing = credentials.get(credentialId);
+			if (existing?.signCount !== expected) return Promise.resolve(false);
+
+			credentials.set(credentialId, {
+				...existing,
+				signCount: next,
+				lastUsedAt: usedAt,
+			});
+			return Promise.resolve(true);
+		},
+
+		delete: (credentialId) => {
+			credentials.delete(credentialId);
+			return Promise.resolve();
+		},
+
+		saveChallenge: (record) => {
+			challenges.set(record.challenge, structuredClone(record));
+			return Promise.resolve();
+		},
+
+		consumeChallenge: (challenge, now) => {
+			const record = challenges.get(challenge);
+			challenges.delete(challenge);
+			return Promise.resolve(
+				record === undefined || record.expiresAt <= now ? undefined : record
+			);
+		},
+
+		snapshot: () =>
+			[...credentials.values()].map((record) => structuredClone(record)),
+		reset: () => {
+			credentials.clear();
+			challenges.clear();
+		},
+	};
+};
+
+/** An in-memory API key store with observable records. */
+export interface MemoryApiKeyStore extends ApiKeyStore {
+	readonly snapshot: () => readonly ApiKeyRecord[];
+	readonly reset: () => void;
+}
+
+/** Reference implementation of the API key persistence contract. */
+export const createMemoryApiKeyStore = (): MemoryApiKeyStore => {
+	const keys = new Map<string, ApiKeyRecord>();
+
+	return {
+		create: (record) => {
+			if (keys.has(record.id)) return Promise.resolve(false);
+			keys.set(record.id, structuredClone(record));
+			return Promise.resolve(true);
+		},
+
+		findById: (id) => {
+			const found = keys.get(id);
+			return Promise.resolve(
+				found === undefined ? undefined : structuredClone(found)
+			);
+		},
+
+		listForSubject: (subject) =>
+			Promise.resolve(
+				[...keys.values()]
+					.filter((record) => record.subject === subject)
+					.map((record) => structuredClone(record))
+			),
+
+		touch: (id, usedAt) => {
+			const existing = keys.get(id);
+			if (
+				existing !== undefined &&
+				(existing.lastUsedAt ?? -Infinity) < usedAt
+			) {
+				keys.set(id, { ...existing, lastUsedAt: usedAt });
+			}
+			return Promise.resolve();
+		},
+
+		revoke: (id, revokedAt) => {
+			const existing = keys.get(id);
+			if (existing === undefined || existing.revokedAt !== undefined) {
+				return Promise.resolve(false);
+			}
+			keys.set(id, { ...existing, revokedAt });
+			return Promise.resolve(true);
+		},
+
+		snapshot: () => [...keys.values()].map((record) => structuredClone(record)),
+		reset: () => {
+			keys.clear();
+		},
+	};
+};
+
+/** An in-memory identity link store with observable records. */
+export interface MemoryIdentityLinkStore extends IdentityLinkStore {
+	readonly snapshot: () => readonly IdentityLinkRecord[];
+	readonly reset: () => void;
+}
+
+/** Reference implementation of the identity link contract. */
+export const createMemoryIdentityLinkStore = (): MemoryIdentityLinkStore => {
+	const links = new Map<string, IdentityLinkRecord>();
+	const keyOf = (provider: string, providerSubject: string): string =>
+		JSON.stringify([provider, providerSubject]);
+
+	return {
+		create: (record) => {
+			const key = keyOf(record.provider, record.providerSubject);
+			if (links.has(key)) return Promise.resolve(false);
+			links.set(key, structuredClone(record));
+			return Promise.resolve(true);
+		},
+
+		find: (provider, providerSubject) => {
+			const found = links.get(keyOf(provider, providerSubject));
+			return Promise.resolve(
+				found === undefined ? undefined : structuredClone(found)
+			);
+		},
+
+		listForSubject: (subject) =>
+			Promise.resolve(
+				[...links.values()]
+					.filter((record) => record.subject === subject)
+					.map((record) => structuredClone(record))
+			),
+
+		delete: (provider, providerSubject) =>
+			Promise.resolve(links.delete(keyOf(provider, providerSubject))),
+
+		snapshot: () =>
+			[...links.values()].map((record) => structuredClone(record)),
+		reset: () => {
+			links.clear();
+		},
+	};
+};
+
+/** An in-memory relationship store with observable tuples. */
+export interface MemoryRelationStore extends RelationStore {
+	readonly snapshot: () => readonly RelationTuple[];
+	readonly reset: () => void;
+}
+
+/** Reference implementation of the relationship tuple contract. */
+export const createMemoryRelationStore = (
+	seed: readonly RelationTuple[] = []
+): MemoryRelationStore => {
+	const tuples = new Map<string, RelationTuple>();
+
+	// Built from the four fields in a fixed order, so a tuple written with its
+	// properties in a different order is still the same tuple.
+	const keyOf = (tuple: RelationTuple): string =>
+		JSON.stringify([
+			tuple.subject,
+			tuple.relation,
+			tuple.objectType,
+			tuple.objectId,
+		]);
+
+	const copy = (tuple: RelationTuple): RelationTuple => ({
+		subject: tuple.subject,
+		relation: tuple.relation,
+		objectType: tuple.objectType,
+		objectId: tuple.objectId,
+	});
+
+	for (const tuple of seed) tuples.set(keyOf(tuple), copy(tuple));
+
+	return {
+		write: (tuple) => {
+			tuples.set(keyOf(tuple), copy(tuple));
+			return Promise.resolve();
+		},
+
+		delete: (tuple) => Promise.resolve(tuples.delete(keyOf(tuple))),
+
+		check: ({ subject, relations, objectType, objectId }) =>
+			Promise.resolve(
+				relations.some((relation) =>
+					tuples.has(keyOf({ subject, relation, objectType, objectId }))
+				)
+			),
+
+		listForObject: (objectType, objectId) =>
+			Promise.resolve(
+				[...tuples.values()]
+					.filter(
+						(tuple) =>
+							tuple.objectType === objectType && tuple.objectId === objectId
+					)
+					.map(copy)
+			),
+
+		snapshot: () => [...tuples.values()].map(copy),
+		reset: () => {
+			tuples.clear();
+		},
+	};
+};
+
+/** An in-memory authorization server store with observable state. */
+export interface MemoryAuthorizationServerStore extends AuthorizationServerStore {
+	readonly snapshot: () => {
+		readonly codes: readonly AuthorizationCodeRecord[];
+		readonly refreshGrants: readonly RefreshGrantRecord[];
+		readonly consents: readonly ConsentRecord[];
+	};
+	readonly reset: () => void;
+}
+
+/** Reference implementation of the authorization server store contract. */
+export const createMemoryAuthorizationServerStore =
+	(): MemoryAuthorizationServerStore => {
+		const codes = new Map<string, AuthorizationCodeRecord>();
+		const refreshGrants = new Map<string, RefreshGrantRecord>();
+		const consents = new Map<string, ConsentRecord>();
+		const consentKey = (subject: string, clientId: string): string =>
+			JSON.stringify([subject, clientId]);
+
+		return {
+			saveCode: (record) => {
+				codes.set(record.digest, structuredClone(record));
+				return Promise.resolve();
+			},
+
+			consumeCode: (digest, now) => {
+				const found = codes.get(digest);
+				// Spent even when expired, so a late retry cannot find it either.
+				codes.delete(digest);
+				return Promise.resolve(
+					found === undefined || now >= found.expiresAt ? undefined : found
+				);
+			},
+
+			saveRefreshGrant: (record) => {
+				refreshGrants.set(record.digest, structuredClone(record));
+				return Promise.resolve();
+			},
+
+			useRefreshGrant: (digest, now) => {
+				const found = refreshGrants.get(digest);
+				if (found === undefined) return Promise.resolve(undefined);
+				if (found.usedAt !== undefined) {
+					return Promise.resolve({
+						outcome: 'reused' as const,
+						record: structuredClone(found),
+					});
+				}
+				const used = { ...found, usedAt: now };
+				refreshGrants.set(digest, used);
+				return Promise.resolve({
+					outcome: 'first' as const,
+					record: structuredClone(used),
+				});
+			},
+
+			revokeRefreshFamily: (familyId, revokedAt) => {
+				for (const [digest, record] of refreshGrants) {
+					if (record.familyId === familyId && record.revokedAt === undefined) {
+						refreshGrants.set(digest, { ...record, revokedAt });
+					}
+				}
+				return Promise.resolve();
+			},
+
+			findConsent: (subject, clientId) => {
+				const found = consents.get(consentKey(subject, clientId));
+				return Promise.resolve(
+					found === undefined ? undefined : structuredClone(found)
+				);
+			},
+
+			saveConsent: (record) => {
+				consents.set(
+					consentKey(record.subject, record.clientId),
+					structuredClone(record)
+				);
+				return Promise.resolve();
+			},
+
+			revokeConsent: (subject, clientId) =>
+				Promise.resolve(consents.delete(consentKey(subject, clientId))),
+
+			snapshot: () => ({
+				codes: [...codes.values()].map((record) => structuredClone(record)),
+				refreshGrants: [...refreshGrants.values()].map((record) =>
+					structuredClone(record)
+				),
+				consents: [...consents.values()].map((record) =>
+					structuredClone(record)
+				),
+			}),
+			reset: () => {
+				codes.clear();
+				refreshGrants.clear();
+				consents.clear();
+			},
+		};
+	};
+
+/** Captures passwordless deliveries instead of sending them. */
+export interface TestOutbox {
+	/** Pass as the service's `deliver` option. */
+	readonly deliver: (message: PasswordlessDelivery) => void;
+	readonly messages: () => readonly PasswordlessDelivery[];
+	/** The most recent message for an identifier, if any. */
+	readonly latest: (identifier: string) => PasswordlessDelivery | undefined;
+	/** The token from the most recent link sent to an identifier. */
+	readonly latestLinkToken: (identifier: string) => string | undefined;
+	/** The most recent code sent to an identifier. */
+	readonly latestCode: (identifier: string) => string | undefined;
+	readonly clear: () => void;
+}
+
+/**
+ * A stand-in for the mailer.
+ *
+ * Tests read the link or code out of it the way a user reads their inbox, so
+ * a sign-in test exercises the real issue-and-redeem path rather than a token
+ * reached into the store for.
+ */
+export const createTestOutbox = (): TestOutbox => {
+	const sent: PasswordlessDelivery[] = [];
+
+	const latest = (identifier: string): PasswordlessDelivery | undefined =>
+		[...sent].reverse().find((message) => message.identifier === identifier);
+
+	return {
+		deliver: (message) => {
+			sent.push(message);
+		},
+		messages: () => [...sent],
+		latest,
+		latestLinkToken: (identifier) => {
+			const message = latest(identifier);
+			return message?.method === 'link'
+				? (new URL(message.url).searchParams.get('token') ?? undefined)
+				: undefined;
+		},
+		latestCode: (identifier) => {
+			const message = latest(identifier);
+			return message?.method === 'code' ? message.code : undefined;
+		},
+		clear: () => {
+			sent.length = 0;
+		},
+	};
+};
+
 /** Narrows a string to a {@link SessionId} in test fixtures. */
 export const asSessionId = (value: string): SessionId => value as SessionId;
 
 export {
+	accountTakeoverScenarios,
 	createFakeIdp,
 	publicKeyFromJwk,
+	type AccountTakeoverScenario,
 	type AuthorizeOptions,
 	type FakeIdp,
 	type FakeIdpOptions,
 	type MintOptions,
 } from './fake-idp.js';
 
+export {
+	createSoftwareAuthenticator,
+	type SoftwareAssertionOverrides,
+	type SoftwareAuthenticator,
+	type SoftwareAuthenticatorAlgorithm,
+	type SoftwareAuthenticatorOptions,
+	type SoftwareCeremonyOverrides,
+	type SoftwareCredential,
+} from './software-authenticator.js';
+
 export { createMemoryAuthStorage } from './storage.js';
 
 export {
@@ -0,0 +1,523 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * A software WebAuthn authenticator for tests.
+ *
+ * The passkey counterpart of the fake IdP: it holds real key pairs and produces
+ * real attestation objects and signed assertions, so the provider's checks run
+ * against genuine cryptography with no browser and no hardware. It plays the
+ * browser's part too, writing the client data a user agent would.
+ *
+ * Every field a hostile client controls can be overridden per ceremony — origin,
+ * type, challenge, RP ID, flags, counter, signature, signing key — so each
+ * refusal the provider owes has a test that can provoke it.
+ */
+
+import {
+	createHash,
+	generateKeyPairSync,
+	randomBytes,
+	sign as cryptoSign,
+	type KeyObject,
+} from 'node:crypto';
+import type {
+	PasskeyAlgorithm,
+	PasskeyAuthenticationOptions,
+	PasskeyAuthenticationResponse,
+	PasskeyRegistrationOptions,
+	PasskeyRegistrationResponse,
+} from '../passkey.js';
+import { encodeCbor, type CborValue } from '../server/passkey/cbor.js';
+
+export type SoftwareAuthenticatorAlgorithm = 'ES256' | 'EdDSA' | 'RS256';
+
+export interface SoftwareAuthenticatorOptions {
+	/** The origin written into client data, as a browser on that page would. */
+	readonly origin: string;
+	/** Defaults to `ES256`. */
+	readonly algorithm?: SoftwareAuthenticatorAlgorithm;
+	/**
+	 * `none` (the default), `packed` self attestation, or `packed-x5c` with a
+	 * generated attestation certificate.
+	 */
+	readonly attestation?: 'none' | 'packed' | 'packed-x5c';
+	/** Whether the authenticator verifies its user. Defaults to true. */
+	readonly userVerification?: boolean;
+	/** Report credentials as synced (backup eligible and backed up). */
+	readonly backedUp?: boolean;
+	/**
+	 * Whether assertions advance a signature counter. Defaults to true; false
+	 * mimics the many synced authenticators that always report zero.
+	 */
+	readonly counter?: boolean;
+	/** Epoch-millis validity of the `packed-x5c` certificate. */
+	readonly certificateValidity?: {
+		readonly notBefore: number;
+		readonly notAfter: number;
+	};
+}
+
+/** Per-ceremony overrides that make the output deliberately wrong. */
+export interface SoftwareCeremonyOverrides {
+	readonly origin?: string;
+	readonly type?: string;
+	readonly challenge?: string;
+	readonly crossOrigin?: boolean;
+	/** Hash this RP ID into authenticator data instead of the requested one. */
+	readonly rpId?: string;
+	readonly userPresent?: boolean;
+	readonly userVerified?: boolean;
+	/** Flip a bit in the signature after signing. */
+	readonly tamperSignature?: boolean;
+	/** Sign with a freshly generated key the server has never seen. */
+	readonly foreignKey?: boolean;
+}
+
+export interface SoftwareAssertionOverrides extends SoftwareCeremonyOverrides {
+	/** Report this counter instead of advancing the stored one. */
+	readonly signCount?: number;
+	readonly userHandle?: string | null;
+}
+
+export interface SoftwareCredential {
+	readonly credentialId: string;
+	readonly rpId: string;
+	readonly userHandle: string;
+	readonly signCount: number;
+}
+
+export interface SoftwareAuthenticator {
+	register(
+		options: PasskeyRegistrationOptions,
+		overrides?: SoftwareCeremonyOverrides
+	): PasskeyRegistrationResponse;
+	authenticate(
+		options: PasskeyAuthenticationOptions,
+		overrides?: SoftwareAssertionOverrides
+	): PasskeyAuthenticationResponse;
+	credentials(): readonly SoftwareCredential[];
+	/**
+	 * Rewinds or advances a credential's counter, as a cloned copy of its key
+	 * would have it.
+	 */
+	setSignCount(credentialId: string, signCount: number): void;
+}
+
+const COSE_ALGORITHM: Record<SoftwareAuthenticatorAlgorithm, PasskeyAlgorithm> =
+	{ ES256: -7, EdDSA: -8, RS256: -257 };
+
+/** An AAGUID that is recognisably not a real vendor's. */
+const SOFTWARE_AAGUID = Buffer.from('effuse0software0', 'latin1');
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED = 0x40;
+
+interface HeldCredential {
+	readonly id: Buffer;
+	readonly rpId: string;
+	readonly userHandle: string;
+	readonly algorithm: SoftwareAuthenticatorAlgorithm;
+	readonly privateKey: KeyObject;
+	signCount: number;
+}
+
+const sha256 = (data: Uint8Array | string): Buffer =>
+	createHash('sha256').update(data).digest();
+
+const generateKey = (
+	algorithm: SoftwareAuthenticatorAlgorithm
+): { readonly publicKey: KeyObject; readonly privateKey: KeyObject } => {
+	switch (algorithm) {
+		case 'ES256':
+			return generateKeyPairSync('ec', { namedCurve: 'P-256' });
+		case 'EdDSA':
+			return generateKeyPairSync('ed25519');
+		case 'RS256':
+			return generateKeyPairSync('rsa', { modulusLength: 2048 });
+	}
+};
+
+const signWith = (
+	algorithm: SoftwareAuthenticatorAlgorithm,
+	key: KeyObject,
+	data: Uint8Array
+): Buffer => {
+	switch (algorithm) {
+		case 'ES256':
+			return cryptoSign('sha256', data, { key, dsaEncoding: 'der' });
+		case 'EdDSA':
+			return cryptoSign(null, data, key);
+		case 'RS256':
+			return cryptoSign('sha256', data, key);
+	}
+};
+
+const coseKey = (
+	algorithm: SoftwareAuthenticatorAlgorithm,
+	publicKey: KeyObject
+): Uint8Array => {
+	const jwk = publicKey.export({ format: 'jwk' });
+	const bytes = (value: string | undefined): Uint8Array =>
+		Buffer.from(value ?? '', 'base64url');
+
+	const entries: [CborValue, CborValue][] =
+		algorithm === 'ES256'
+			? [
+					[1, 2],
+					[3, -7],
+					[-1, 1],
+					[-2, bytes(jwk.x)],
+					[-3, bytes(jwk.y)],
+				]
+			: algorithm === 'EdDSA'
+				? [
+						[1, 1],
+						[3, -8],
+						[-1, 6],
+						[-2, bytes(jwk.x)],
+					]
+				: [
+						[1, 3],
+						[3, -257],
+						[-1, bytes(jwk.n)],
+						[-2, bytes(jwk.e)],
+					];
+	return encodeCbor(new Map(entries));
+};
+
+// --- A minimal DER writer, enough for one self-issued certificate ----------
+
+const der = (tag: number, content: Uint8Array): Buffer => {
+	const length =
+		content.length < 0x80
+			? Uint8Array.of(content.length)
+			: content.length < 0x100
+				? Uint8Array.of(0x81, content.length)
+				: Uint8Array.of(0x82, content.length >> 8, content.length & 0xff);
+	return Buffer.concat([Uint8Array.of(tag), length, content]);
+};
+
+const sequence = (...items: Uint8Array[]): Buffer =>
+	der(0x30, Buffer.concat(items));
+
+const oid = (dotted: string): Buffer => {
+	const [first = 0, second = 0, ...rest] = dotted.split('.').map(Number);
+	const body = [40 * first + second];
+	for (const arc of rest) {
+		const chunk = [arc & 0x7f];
+		for (let value = arc >> 7; value > 0; value >>= 7) {
+			chunk.unshift((value & 0x7f) | 0x80);
+		}
+		body.push(...chunk);
+	}
+	return der(0x06, Uint8Array.from(body));
+};
+
+const utcTime = (epochMs: number): Buffer => {
+	const iso = new Date(epochMs).toISOString();
+	const compact = `${iso.slice(2, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z`;
+	return der(0x17, Buffer.from(compact, 'latin1'));
+};
+
+const name = (attributes: readonly (readonly [string, string])[]): Buffer =>
+	sequence(
+		...attributes.map(([type, value]) =>
+			der(0x31, sequence(oid(type), der(0x0c, Buffer.from(value, 'utf8'))))
+		)
+	);
+
+const ECDSA_WITH_SHA256 = sequence(oid('1.2.840.10045.4.3.2'));
+
+/** UTCTime cannot express 2050 or later, so the default stops just short. */
+const DEFAULT_VALIDITY = {
+	notBefore: Date.UTC(2000, 0, 1),
+	notAfter: Date.UTC(2049, 11, 31),
+};
+
+/**
+ * A self-issued P-256 attestation certificate with the subject fields packed
+ * attestation requires and `cA` false.
+ */
+const attestationCertificate = (
+	key: { readonly publicKey: KeyObject; readonly privateKey: KeyObject },
+	validity: { readonly notBefore: number; readonly notAfter: number }
+): Buffer => {
+	const subject = name([
+		['2.5.4.6', 'US'],
+		['2.5.4.10', 'Effuse Test'],
+		['2.5.4.11', 'Authenticator Attestation'],
+		['2.5.4.3', 'Effuse Software Authenticator'],
+	]);
+	const basicConstraints = sequence(
+		oid('2.5.29.19'),
+		der(0x01, Uint8Array.of(0xff)),
+		der(0x04, sequence())
+	);
+	const tbs = sequence(
+		der(0xa0, der(0x02, Uint8Array.of(2))),
+		der(0x02, Uint8Array.of(0x01, ...randomBytes(8))),
+		ECDSA_WITH_SHA256,
+		subject,
+		sequence(utcTime(validity.notBefore), utcTime(validity.notAfter)),
+		subject,
+		key.publicKey.export({ type: 'spki', format: 'der' }),
+		der(0xa3, sequence(basicConstraints))
+	);
+	const signature = cryptoSign('sha256', tbs, {
+		key: key.privateKey,
+		dsaEncoding: 'der',
+	});
+	return sequence(
+		tbs,
+		ECDSA_WITH_SHA256,
+		der(0x03, Buffer.concat([Uint8Array.of(0), signature]))
+	);
+};
+
+export const createSoftwareAuthenticator = (
+	options: SoftwareAuthenticatorOptions
+): SoftwareAuthenticator => {
+	const {
+		origin,
+		algorithm = 'ES256',
+		attestation = 'none',
+		userVerification = true,
+		backedUp = false,
+		counter = true,
+		certificateValidity = DEFAULT_VALIDITY,
+	} = options;
+
+	const held = new Map<string, HeldCredential>();
+	const attestationKey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+	let certificate: Buffer | undefined;
+
+	const clientData = (
+		type: string,
+		challenge: string,
+		overrides: SoftwareCeremonyOverrides
+	): Buffer =>
+		Buffer.from(
+			JSON.stringify({
+				type: overrides.type ?? type,
+				challenge: overrides.challenge ?? challenge,
+				origin: overrides.origin ?? origin,
+				crossOrigin: overrides.crossOrigin ?? false,
+			}),
+			'utf8'
+		);
+
+	const flagsFor = (overrides: SoftwareCeremonyOverrides): number =>
+		((overrides.userPresent ?? true) ? FLAG_USER_PRESENT : 0) |
+		((overrides.userVerified ?? userVerification) ? FLAG_USER_VERIFIED : 0) |
+		(backedUp ? FLAG_BACKUP_ELIGIBLE | FLAG_BACKED_UP : 0);
+
+	const header = (rpId: string, flags: number, signCount: number): Buffer => {
+		const bytes = Buffer.alloc(37);
+		sha256(rpId).copy(bytes, 0);
+		bytes[32] = flags;
+		bytes.writeUInt32BE(signCount, 33);
+		return bytes;
+	};
+
+	const finishSignature = (
+		signature: Buffer,
+		overrides: SoftwareCeremonyOverrides
+	): Buffer => {
+		if (overrides.tamperSignature === true) {
+			signature[signature.length - 1] = (signature.at(-1) ?? 0) ^ 0x01;
+		}
+		return signature;
+	};
+
+	return {
+		register: (request, overrides = {}) => {
+			const alg = COSE_ALGORITHM[algorithm];
+			if (!request.pubKeyCredParams.some((param) => param.alg === alg)) {
+				throw new Error(`NotSupportedError: ${algorithm} was not offered.`);
+			}
+			for (const excluded of request.excludeCredentials) {
+				if (held.has(excluded.id)) {
+					throw new Error('InvalidStateError: credential already registered.');
+				}
+			}
+
+			const id = randomBytes(16);
+			const keyPair = generateKey(algorithm);
+			const rpId = request.rp.id;
+			const publicKey = coseKey(algorithm, keyPair.publicKey);
+			const credentialIdLength = Buffer.alloc(2);
+			credentialIdLength.writeUInt16BE(id.length);
+
+			const authData = Buffer.concat([
+				header(overrides.rpId ?? rpId, flagsFor(overrides) | FLAG_ATTESTED, 0),
+				SOFTWARE_AAGUID,
+				credentialIdLength,
+				id,
+				publicKey,
+			]);
+			const clientDataJSON = clientData(
+				'webauthn.create',
+				request.challenge,
+				overrides
+			);
+			const signed = Buffer.concat([authData, sha256(clientDataJSON)]);
+
+			let statement: Map<CborValue, CborValue> = new Map();
+			if (attestation === 'packed') {
+				const signer =
+					overrides.foreignKey === true
+						? generateKey(algorithm).privateKey
+						: keyPair.privateKey;
+				statement = new Map<CborValue, CborValue>([
+					['alg', alg],
+					[
+						'sig',
+						finishSignature(signWith(algorithm, signer, signed), overrides),
+					],
+				]);
+			} else if (attestation === 'packed-x5c') {
+				certificate ??= attestationCertificate(
+					attestationKey,
+					certificateValidity
+				);
+				const signer =
+					overrides.foreignKey === true
+						? generateKey('ES256').privateKey
+						: attestationKey.privateKey;
+				statement = new Map<CborValue, CborValue>([
+					['alg', -7],
+					[
+						'sig',
+						finishSignature(signWith('ES256', signer, signed), overrides),
+					],
+					['x5c', [certificate]],
+				]);
+			}
+
+			held.set(id.toString('base64url'), {
+				id,
+				rpId,
+				userHandle: request.user.id,
+				algorithm,
+				privateKey: keyPair.privateKey,
+				signCount: 0,
+			});
+
+			const credentialId = id.toString('base64url');
+			return {
+				id: credentialId,
+				rawId: credentialId,
+				type: 'public-key',
+				response: {
+					clientDataJSON: clientDataJSON.toString('base64url'),
+					attestationObject: Buffer.from(
+						encodeCbor(
+							new Map<CborValue, CborValue>([
+								['fmt', attestation === 'none' ? 'none' : 'packed'],
+								['attStmt', statement],
+								['authData', authData],
+							])
+						)
+					).toString('base64url'),
+					transports: ['internal'],
+				},
+			};
+		},
+
+		authenticate: (request, overrides = {}) => {
+			const allowed = new Set(
+				request.allowCredentials.map((entry) => entry.id)
+			);
+			const credential = [...held.values()].find(
+				(candidate) =>
+					candidate.rpId === request.rpId &&
+					(allowed.size === 0 ||
+						allowed.has(candidate.id.toString('base64url')))
+			);
+			if (credential === undefined) {
+				throw new Error('NotAllowedError: no matching credential.');
+			}
+
+			if (counter) credential.signCount += 1;
+			const authData = header(
+				overrides.rpId ?? request.rpId,
+				flagsFor(overrides),
+				overrides.signCount ?? (counter ? credential.signCount : 0)
+			);
+			const clientDataJSON = clientData(
+				'webauthn.get',
+				request.challenge,
+				overrides
+			);
+			const signer =
+				overrides.foreignKey === true
+					? generateKey(credential.algorithm).privateKey
+					: credential.privateKey;
+			const signature = finishSignature(
+				signWith(
+					credential.algorithm,
+					signer,
+					Buffer.concat([authData, sha256(clientDataJSON)])
+				),
+				overrides
+			);
+
+			const credentialId = credential.id.toString('base64url');
+			return {
+				id: credentialId,
+				rawId: credentialId,
+				type: 'public-key',
+				response: {
+					clientDataJSON: clientDataJSON.toString('base64url'),
+					authenticatorData: authData.toString('base64url'),
+					signature: signature.toString('base64url'),
+					userHandle:
+						overrides.userHandle === undefined
+							? credential.userHandle
+							: overrides.userHandle,
+				},
+			};
+		},
+
+		credentials: () =>
+			[...held.values()].map((credential) => ({
+				credentialId: credential.id.toString('base64url'),
+				rpId: credential.rpId,
+				userHandle: credential.userHandle,
+				signCount: credential.signCount,
+			})),
+
+		setSignCount: (credentialId, signCount) => {
+			const credential = held.get(credentialId);
+			if (credential === undefined) {
+				throw new Error(`Unknown credential "${credentialId}".`);
+			}
+			credential.signCount = signCount;
+		},
+	};
+};
@@ -26,6 +26,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { resolve } from 'node:path';
 import { writeFileSync, mkdirSync, rmSync, readFileSync, readdirSync, existsSync } from 'node:fs';
 import { DEFAULT_CONFIG, PRESETS } from '../constants.js';
+import { resolveWithin } from '../utils/index.js';
 
 const TEST_DIR = resolve(process.cwd(), '.build-test-tmp');
 
@@ -355,4 +356,25 @@ describe('BuildService build output', () => {
 			expect(options.preset).toBe('netlify');
 		});
 	});
-});
\ No newline at end of file
+});
+describe('BuildService prerendering', () => {
+	it('should place page files inside the client output', () => {
+		const clientRoot = resolve(TEST_DIR, DEFAULT_CONFIG.outDirClient);
+
+		expect(resolveWithin(clientRoot, 'about/index.html')).toBe(
+			resolve(clientRoot, 'about/index.html')
+		);
+		expect(resolveWithin(clientRoot, 'blog/../index.html')).toBe(
+			resolve(clientRoot, 'index.html')
+		);
+	});
+
+	it('should refuse page files that escape the client output', () => {
+		const clientRoot = resolve(TEST_DIR, DEFAULT_CONFIG.outDirClient);
+
+		expect(resolveWithin(clientRoot, '../escape.html')).toBe('');
+		expect(resolveWithin(clientRoot, 'about/../../escape.html')).toBe('');
+		expect(resolveWithin(clientRoot, '/etc/passwd')).toBe('');
+		expect(resolveWithin(clientRoot, '.')).toBe('');
+	});
+});
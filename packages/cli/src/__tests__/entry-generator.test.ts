@@ -69,11 +69,16 @@ describe('EntryGenerator', () => {
 		);
 		expect(serverContent).toContain("import { app } from '../src/app.ts'");
 		expect(serverContent).toContain(
-			"import type { AssetManifest } from '@effuse/core'"
+			"import type { AssetManifest, PrerenderHandler } from '@effuse/core'"
 		);
 		expect(serverContent).toContain('export async function handleRequest');
-		expect(serverContent).toContain('app.handleRequest');
+		expect(serverContent).toContain('prerendered?: PrerenderHandler');
+		expect(serverContent).toContain(
+			'app.handleRequest(request, { ...(manifest ? { manifest } : {}), prerendered })'
+		);
 		expect(serverContent).toContain('manifest');
+		expect(serverContent).toContain('export function prerender');
+		expect(serverContent).toContain('app.prerender(');
 	});
 
 	it('should only generate missing entries when one exists', () => {
@@ -95,6 +100,37 @@ describe('EntryGenerator', () => {
 		expect(existsSync(resolve(tempDir, '.effuse/entry-server.ts'))).toBe(true);
 	});
 
+	it('should hydrate islands only when src/islands exists', () => {
+		mkdirSync(resolve(tempDir, 'src/islands'), { recursive: true });
+		writeFileSync(
+			resolve(tempDir, 'src/app.ts'),
+			'export const app = {};',
+			'utf-8'
+		);
+
+		generator.generate(tempDir);
+
+		const clientContent = readFileSync(
+			resolve(tempDir, '.effuse/entry-client.ts'),
+			'utf-8'
+		);
+		expect(clientContent).toContain(
+			"await app.hydrateIslands(import.meta.glob('../src/islands/*.{ts,tsx}'))"
+		);
+		expect(clientContent).not.toContain('app.mount');
+
+		const serverContent = readFileSync(
+			resolve(tempDir, '.effuse/entry-server.ts'),
+			'utf-8'
+		);
+		expect(serverContent).toContain(
+			'app.handleRequest(request, { ...(manifest ? { manifest } : {}), islands: true, prerendered })'
+		);
+		expect(serverContent).toContain(
+			'app.prerender({ server: { ...(manifest ? { manifest } : {}), islands: true } })'
+		);
+	});
+
 	it('should not generate anything when app.ts is missing', () => {
 		const result = generator.generate(tempDir);
 
@@ -114,7 +150,7 @@ describe('EntryGenerator', () => {
 			const content = readFileSync(resolve(tempDir, bootstrap), 'utf-8');
 
 			expect(content).toContain(
-				"import { createNodeServer, withStaticFiles } from '@effuse/server/node'"
+				"import {\n\tcreateNodeServer,\n\tcreatePrerenderFileStore,\n\twithStaticFiles,\n} from '@effuse/server/node'"
 			);
 			expect(content).toContain(
 				"import { handleRequest } from './entry-server.ts'"
@@ -123,7 +159,20 @@ describe('EntryGenerator', () => {
 				"const clientRoot = new URL('../client/', import.meta.url)"
 			);
 			expect(content).toContain(
-				'createNodeServer(withStaticFiles(handleRequest, { root: clientRoot }))'
+				"new URL('./prerender-manifest.json', import.meta.url)"
+			);
+			// Prerendered pages are served from inside the entry's handler, and
+			// regenerate under the configured origin rather than the request's.
+			expect(content).toContain(
+				'const appHandler = (request: Request) => handleRequest(request, prerendered)'
+			);
+			expect(content).not.toContain('prerendered.handle(');
+			expect(content).toContain(
+				'const origin = process.env.ORIGIN ?? `http://localhost:${port}`'
+			);
+			expect(content).toContain('\t\t\torigin,\n');
+			expect(content).toContain(
+				'createNodeServer(withStaticFiles(appHandler, { root: clientRoot }))'
 			);
 			expect(content).toContain('server.listen({ port, host })');
 			expect(content).toContain('server\n\t\t.close()');
@@ -142,10 +191,10 @@ describe('EntryGenerator', () => {
 			const content = readFileSync(resolve(tempDir, bootstrap), 'utf-8');
 
 			expect(content).toContain(
-				"import { createBunServer, withStaticFiles } from '@effuse/server/bun'"
+				"import {\n\tcreateBunServer,\n\tcreatePrerenderFileStore,\n\twithStaticFiles,\n} from '@effuse/server/bun'"
 			);
 			expect(content).toContain(
-				'createBunServer(withStaticFiles(handleRequest, { root: clientRoot }))'
+				'createBunServer(withStaticFiles(appHandler, { root: clientRoot }))'
 			);
 		});
 
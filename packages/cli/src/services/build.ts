@@ -1,13 +1,14 @@
 import { build as viteBuild, type InlineConfig } from 'vite';
 import { existsSync, readFileSync, writeFileSync } from 'node:fs';
-import { copyFile, mkdir } from 'node:fs/promises';
+import { copyFile, mkdir, writeFile } from 'node:fs/promises';
 import { readdir } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import { dirname, resolve } from 'node:path';
 import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
 import { Console } from 'effect';
 import { BuildError } from '../errors/index.js';
 import { APP_NAME, DEFAULT_CONFIG, PRESETS } from '../constants.js';
-import { fileExists } from '../utils/index.js';
+import { fileExists, resolveWithin } from '../utils/index.js';
 import { EntryGenerator } from './entry-generator.js';
 import { ManifestResolver } from './manifest.js';
 import { effuseServerRegistryPlugin } from '../plugins/server-registry.js';
@@ -21,6 +22,21 @@ export interface BuildOptions {
 /** The bundled listener entry emitted for the self-hosted node/bun presets. */
 const SERVER_LISTENER_FILE = 'server.js';
 
+/** Written beside the server bundle; the listener reads it at startup. */
+const PRERENDER_MANIFEST_FILE = 'prerender-manifest.json';
+
+/** The slice of `EffuseApp.prerender()`'s result the build writes out. */
+interface PrerenderBuildResult {
+	readonly pages: readonly { readonly file: string; readonly html: string }[];
+	readonly manifest: unknown;
+	readonly skipped: readonly { readonly layer: string; readonly route: string }[];
+	readonly unmatched: readonly string[];
+}
+
+interface PrerenderEntryModule {
+	readonly prerender?: () => Promise<PrerenderBuildResult>;
+}
+
 // Resolve from the running CLI entry (its bin path) so the lookup works in both
 // the CJS and ESM builds — `import.meta.url` is not populated in the CJS bundle.
 const requireFromCli = createRequire(process.argv[1] ?? process.cwd());
@@ -163,6 +179,60 @@ const generateEcosystemConfig = (cwd: string) => {
 	writeFileSync(resolve(cwd, 'ecosystem.config.js'), config);
 };
 
+/**
+ * Renders every page whose server policy declares `prerender` by importing the
+ * built SSR entry and calling its `prerender()` export. Pages land in the
+ * client output, where the listener serves them; the manifest lands beside
+ * the server bundle. Entries without the export (hand-written ones predating
+ * it) are skipped.
+ */
+const prerenderPages = async (cwd: string): Promise<void> => {
+	const serverEntry = resolve(cwd, DEFAULT_CONFIG.outDirServer, 'index.js');
+	if (!existsSync(serverEntry)) return;
+
+	const entry = (await import(
+		pathToFileURL(serverEntry).href
+	)) as PrerenderEntryModule;
+	if (typeof entry.prerender !== 'function') return;
+
+	let result: PrerenderBuildResult;
+	try {
+		result = await entry.prerender();
+	} catch (err) {
+		throw new BuildError({ message: 'Prerendering failed', cause: err });
+	}
+
+	const clientRoot = resolve(cwd, DEFAULT_CONFIG.outDirClient);
+	// Every path is checked before anything is written, so a bad one leaves no
+	// partial output behind.
+	const targets = result.pages.map((page) => {
+		const target = resolveWithin(clientRoot, page.file);
+		if (target === '') {
+			throw new BuildError({
+				message: `Prerendered file "${page.file}" is outside the client output`,
+			});
+		}
+		return { target, html: page.html };
+	});
+	for (const { target, html } of targets) {
+		await mkdir(dirname(target), { recursive: true });
+		await writeFile(target, html, 'utf-8');
+	}
+	writeFileSync(
+		resolve(cwd, DEFAULT_CONFIG.outDirServer, PRERENDER_MANIFEST_FILE),
+		JSON.stringify(result.manifest, null, 2),
+		'utf-8'
+	);
+
+	Console.log(`[${APP_NAME}] Prerendered ${result.pages.length} page(s)`);
+	for (const { layer, route } of result.skipped) {
+		Console.warn(`  Skipped ${route} (${layer}): dynamic route with no paths`);
+	}
+	for (const path of result.unmatched) {
+		Console.warn(`  Unmatched prerender path: ${path}`);
+	}
+};
+
 const copyPublicDir = (cwd: string, outDir: string) => {
 	const publicDir = resolve(cwd, 'public');
 	if (!existsSync(publicDir)) return;
@@ -304,6 +374,13 @@ export class BuildService {
 			Console.warn(`Warning: Server build completed but no output in ${DEFAULT_CONFIG.outDirServer}`);
 		}
 
+		// Prerendered pages are served by the self-hosted listener; other
+		// presets bundle for runtimes the build cannot import.
+		if (selfHosted) {
+			Console.log(`[${APP_NAME}] Prerendering...`);
+			await prerenderPages(cwd);
+		}
+
 		if (options.analyze) {
 			Console.log(`[${APP_NAME}] Generating bundle analysis...`);
 			await generateBundleAnalysis(DEFAULT_CONFIG.outDirClient);
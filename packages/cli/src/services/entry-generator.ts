@@ -35,14 +35,44 @@ const renderServerBootstrap = (
 // This file is recreated on every build. It binds the shared @effuse/server
 // adapter to the SSR handler and listens on the configured host/port.
 
-import { ${factory}, withStaticFiles } from '${module}';
+import { readFile } from 'node:fs/promises';
+import { createPrerenderHandler, type PrerenderManifest } from '@effuse/core';
+import {
+	${factory},
+	createPrerenderFileStore,
+	withStaticFiles,
+} from '${module}';
 import { handleRequest } from '${handlerImport}';
 
 const port = Number(process.env.PORT ?? 3000);
 const host = process.env.HOST ?? '0.0.0.0';
+// The public origin pages are regenerated under. Never the request's Host
+// header: any client can set it, and a regenerated page is served to everyone.
+const origin = process.env.ORIGIN ?? \`http://localhost:\${port}\`;
 
 const clientRoot = new URL('../client/', import.meta.url);
-const server = ${factory}(withStaticFiles(handleRequest, { root: clientRoot }));
+
+// Pages prerendered by \`effuse build\` are handed to \`handleRequest\`, which
+// serves them from the client output in place of the render, so everything
+// it runs before rendering still runs for them. Pages declared with
+// \`prerender: { revalidate }\` are regenerated in the background once their
+// window expires. A handler that ignores the argument renders every page.
+const prerenderManifest = await readFile(
+	new URL('./prerender-manifest.json', import.meta.url),
+	'utf-8'
+)
+	.then((source) => JSON.parse(source) as PrerenderManifest)
+	.catch(() => undefined);
+const prerendered = prerenderManifest
+	? createPrerenderHandler({
+			manifest: prerenderManifest,
+			store: createPrerenderFileStore({ root: clientRoot }),
+			origin,
+		})
+	: undefined;
+const appHandler = (request: Request) => handleRequest(request, prerendered);
+
+const server = ${factory}(withStaticFiles(appHandler, { root: clientRoot }));
 
 const address = await server.listen({ port, host });
 console.log(\`[effuse] ${label} server listening on \${address.url}\`);
@@ -79,12 +109,40 @@ bootstrap().catch((err) => {
 });
 `;
 
-const SERVER_ENTRY_TEMPLATE = `// Auto-generated by @effuse/cli
+/**
+ * Client entry for an islands app (one with `src/islands/`): the page stays
+ * server HTML, and only the islands in it hydrate, each module loaded on its
+ * island's trigger.
+ */
+const ISLANDS_CLIENT_ENTRY_TEMPLATE = `// Auto-generated by @effuse/cli
+// This file is recreated on every dev/build start.
+// To use a custom entry, create src/entry-client.ts
+
+import { app } from '../src/app.ts';
+import '@effuse/core/hmr/global';
+
+async function bootstrap() {
+	await app.hydrateIslands(import.meta.glob('../src/islands/*.{ts,tsx}'));
+}
+
+bootstrap().catch((err) => {
+	console.error('[effuse] Client bootstrap failed:', err);
+});
+`;
+
+const renderServerEntry = (islands: boolean): string => {
+	const serverOptions = islands
+		? '{ ...(manifest ? { manifest } : {}), islands: true }'
+		: '(manifest ? { manifest } : {})';
+	const requestOptions = islands
+		? '{ ...(manifest ? { manifest } : {}), islands: true, prerendered }'
+		: '{ ...(manifest ? { manifest } : {}), prerendered }';
+	return `// Auto-generated by @effuse/cli
 // This file is recreated on every dev/build start.
 // To use a custom entry, create src/entry-server.ts
 
 import { app } from '../src/app.ts';
-import type { AssetManifest } from '@effuse/core';
+import type { AssetManifest, PrerenderHandler } from '@effuse/core';
 
 let manifest: AssetManifest | undefined;
 
@@ -99,9 +157,24 @@ try {
 	// No manifest available — dev mode or client-only build
 }
 
-export async function handleRequest(request: Request): Promise<Response> {
+/**
+ * Called by \`effuse build\` to render every page whose server policy declares
+ * \`prerender\`.
+ */
+export function prerender() {
+	return app.prerender({ server: ${serverOptions} });
+}
+
+/**
+ * \`prerendered\`, passed by the generated production server, answers pages
+ * built by \`effuse build\` in place of their render.
+ */
+export async function handleRequest(
+	request: Request,
+	prerendered?: PrerenderHandler
+): Promise<Response> {
 	try {
-		return app.handleRequest(request, manifest ? { manifest } : {});
+		return app.handleRequest(request, ${requestOptions});
 	} catch (error) {
 		console.error('[effuse] SSR render error:', error);
 		return new Response(
@@ -111,6 +184,7 @@ export async function handleRequest(request: Request): Promise<Response> {
 	}
 }
 `;
+};
 
 export class EntryGenerator {
 	generate(cwd: string): GeneratedEntryPaths {
@@ -121,6 +195,7 @@ export class EntryGenerator {
 		const hasUserClient = existsSync(userClientEntry);
 		const hasUserServer = existsSync(userServerEntry);
 		const hasAppFile = existsSync(resolve(cwd, 'src/app.ts'));
+		const hasIslands = existsSync(resolve(cwd, 'src/islands'));
 
 		// If user has custom entries, use them
 		if (hasUserClient && hasUserServer) {
@@ -149,11 +224,15 @@ export class EntryGenerator {
 		const generatedServer = resolve(generatedDir, 'entry-server.ts');
 
 		if (!hasUserClient) {
-			writeFileSync(generatedClient, CLIENT_ENTRY_TEMPLATE, 'utf-8');
+			writeFileSync(
+				generatedClient,
+				hasIslands ? ISLANDS_CLIENT_ENTRY_TEMPLATE : CLIENT_ENTRY_TEMPLATE,
+				'utf-8'
+			);
 		}
 
 		if (!hasUserServer) {
-			writeFileSync(generatedServer, SERVER_ENTRY_TEMPLATE, 'utf-8');
+			writeFileSync(generatedServer, renderServerEntry(hasIslands), 'utf-8');
 		}
 
 		return {
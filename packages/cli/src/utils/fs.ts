@@ -1,4 +1,4 @@
-import { resolve, extname } from 'node:path';
+import { resolve, extname, isAbsolute, relative } from 'node:path';
 import { existsSync, statSync } from 'node:fs';
 
 export const PUBLIC_EXTENSIONS = [
@@ -32,6 +32,13 @@ export const resolveFilePath = (cwd: string, file: string): string => {
 	return stat.isFile() ? path : '';
 };
 
+export const resolveWithin = (root: string, file: string): string => {
+	const path = resolve(root, file);
+	const inside = relative(root, path);
+	if (inside === '' || inside.startsWith('..') || isAbsolute(inside)) return '';
+	return path;
+};
+
 export const getFileExtension = (filename: string): string => {
 	return extname(filename).toLowerCase();
 };
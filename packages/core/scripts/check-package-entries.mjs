@@ -81,8 +81,8 @@ const browserEntryBytes = Buffer.byteLength(
 	await readFile(resolve(root, 'dist/client.js'))
 );
 assert.ok(
-	browserEntryBytes <= 310_000,
-	`client.js exceeds its 310 kB uncompressed budget (${browserEntryBytes} bytes)`
+	browserEntryBytes <= 316_000,
+	`client.js exceeds its 316 kB uncompressed budget (${browserEntryBytes} bytes)`
 );
 
 const InteropLayer = rootEsm.defineLayer({
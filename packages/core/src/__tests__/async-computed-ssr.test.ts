@@ -248,6 +248,44 @@ describe('server collection', () => {
 		// The request ended; in-flight work must not outlive it.
 		expect(captured?.aborted).toBe(true);
 	});
+
+	it('adopts a seeded value instead of loading it again', async () => {
+		// A streamed boundary's second pass recreates its computations; the seed
+		// carries what the first pass already waited for.
+		const collector = createAsyncCollector({ seed: { user: 'Ada' } });
+		let loads = 0;
+
+		const [seeded, other] = runWithAsyncCollector(collector, () => [
+			asyncComputed({
+				source: () => 1,
+				hydrationKey: 'user',
+				load: () => {
+					loads += 1;
+					return Promise.resolve('fetched');
+				},
+			}),
+			// Consumed by the first claimant, so a second computation loads.
+			asyncComputed({
+				source: () => 1,
+				hydrationKey: 'user',
+				load: () => {
+					loads += 1;
+					return Promise.resolve('fetched');
+				},
+			}),
+		]);
+
+		expect(seeded.value).toBe('Ada');
+		expect(seeded.settled).toBe(true);
+		expect(collector.hasPending()).toBe(true);
+
+		await collector.settle();
+		expect(other.value).toBe('fetched');
+		expect(loads).toBe(1);
+		expect(collector.hasPending()).toBe(false);
+
+		collector.dispose();
+	});
 });
 
 describe('request isolation', () => {
@@ -0,0 +1,261 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { defineLayer } from '../../layers/api/defineLayer.js';
+import { clearGlobalLayerContext } from '../../layers/context.js';
+import { clearGlobalTracing } from '../../layers/tracing/index.js';
+import { defineServerRequest } from '../../ssr/request-contract.js';
+import { defineServerRoute } from '../../ssr/route-contract.js';
+import { serverSchema } from '../../ssr/server-schema.js';
+import {
+	createEventStreamResponse,
+	eventStreamResponse,
+	formatServerEvent,
+} from '../../ssr/event-stream.js';
+import { subscribeEventStream } from '../../ssr/event-stream-client.js';
+import { createTypedRouteClient } from '../../ssr/typed-route-client.js';
+import { createInProcessRouteFetch } from '../../ssr/in-process-route-client.js';
+import { LayerServerClientError } from '../../ssr/client.js';
+
+afterEach(() => {
+	clearGlobalLayerContext();
+	clearGlobalTracing();
+	vi.restoreAllMocks();
+});
+
+const progress = serverSchema.object({ percent: serverSchema.number });
+
+/** Emits 25, 50, 75, 100 — two per connection — resuming after `Last-Event-ID`. */
+const progressRoute = defineServerRoute({
+	path: '/api/jobs/:id/progress',
+	request: defineServerRequest({
+		params: serverSchema.object({ id: serverSchema.string }),
+	}),
+	response: serverSchema.eventStream(progress),
+	GET: (ctx) => {
+		const after = Number(ctx.request.headers.get('last-event-id') ?? 0);
+		if (after >= 100) return new Response(null, { status: 204 });
+		return ctx.response.sse(
+			(stream) => {
+				stream.send({ percent: after + 25 }, { id: String(after + 25) });
+				stream.send({ percent: after + 50 }, { id: String(after + 50) });
+			},
+			{ events: progress, retryMs: 0 }
+		);
+	},
+});
+
+const clientFor = () =>
+	createTypedRouteClient(
+		{ progress: progressRoute },
+		{
+			baseUrl: 'http://ssr.local',
+			fetch: createInProcessRouteFetch([
+				defineLayer({ name: 'jobs', server: { routes: [progressRoute] } }),
+			]),
+		}
+	);
+
+describe('formatServerEvent', () => {
+	it('frames id, event and multi-line data', () => {
+		expect(formatServerEvent('a\nb', { id: '7', event: 'tick' })).toBe(
+			'id: 7\nevent: tick\ndata: a\ndata: b\n\n'
+		);
+	});
+
+	it('keeps a field value on one line', () => {
+		expect(formatServerEvent('x', { id: '1\n2' })).toBe('id: 12\ndata: x\n\n');
+	});
+});
+
+describe('ctx.response.sse', () => {
+	it('streams validated events with event-stream headers', async () => {
+		const response = await createInProcessRouteFetch([
+			defineLayer({ name: 'jobs', server: { routes: [progressRoute] } }),
+		])('http://ssr.local/api/jobs/1/progress');
+
+		expect(response.headers.get('Content-Type')).toBe(
+			'text/event-stream; charset=utf-8'
+		);
+		expect(response.headers.get('Cache-Control')).toBe('no-cache');
+		expect(await response.text()).toBe(
+			'retry: 0\n\n' +
+				'id: 25\ndata: {"percent":25}\n\n' +
+				'id: 50\ndata: {"percent":50}\n\n'
+		);
+	});
+
+	it('ends the stream rather than send an event that fails its schema', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		const response = createEventStreamResponse<{ percent: number }>(
+			new Request('http://ssr.local/'),
+			(stream) => {
+				stream.send({ percent: 1 });
+				stream.send({ percent: 'lots' } as never);
+				stream.send({ percent: 2 });
+			},
+			{ events: progress }
+		);
+
+		expect(await response.text()).toBe('data: {"percent":1}\n\n');
+	});
+
+	it('reports a producer failure and ends the stream', async () => {
+		const errors = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => undefined);
+		const failure = new Error('feed unavailable');
+		const response = createEventStreamResponse(
+			new Request('http://ssr.local/'),
+			async (stream) => {
+				stream.send({ percent: 1 });
+				await Promise.resolve();
+				throw failure;
+			}
+		);
+
+		expect(await response.text()).toBe('data: {"percent":1}\n\n');
+		expect(errors).toHaveBeenCalledWith(
+			'[effuse] Event stream producer failed:',
+			failure
+		);
+	});
+
+	it('sends heartbeats and cleans up when the client disconnects', async () => {
+		const client = new AbortController();
+		let cleaned = false;
+		let producerSignal: AbortSignal | undefined;
+		const response = createEventStreamResponse(
+			new Request('http://ssr.local/', { signal: client.signal }),
+			(stream) => {
+				producerSignal = stream.signal;
+				return () => {
+					cleaned = true;
+				};
+			},
+			{ heartbeatMs: 5 }
+		);
+		const reader = response.body!.getReader();
+
+		const { value } = await reader.read();
+		expect(new TextDecoder().decode(value)).toBe(':\n\n');
+
+		client.abort();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(cleaned).toBe(true);
+		expect(producerSignal?.aborted).toBe(true);
+		expect((await reader.read()).done).toBe(true);
+	});
+});
+
+describe('subscribeEventStream', () => {
+	it('resumes from the last event delivered when a connection drops mid-event', async () => {
+		const resumedFrom: (string | null)[] = [];
+		const encoder = new TextEncoder();
+		const connect = (headers: Headers): Promise<Response> => {
+			resumedFrom.push(headers.get('Last-Event-ID'));
+			if (resumedFrom.length > 1) {
+				return Promise.resolve(new Response(null, { status: 204 }));
+			}
+			const chunks = [
+				'retry: 0\n\nid: 1\ndata: {"percent":25}\n\n',
+				'id: 2\ndata: {"per',
+			];
+			const body = new ReadableStream<Uint8Array>({
+				pull(controller) {
+					const chunk = chunks.shift();
+					if (chunk === undefined) {
+						controller.error(new Error('connection reset'));
+					} else {
+						controller.enqueue(encoder.encode(chunk));
+					}
+				},
+			});
+			return Promise.resolve(new Response(body));
+		};
+		const seen: number[] = [];
+
+		for await (const message of subscribeEventStream<{ percent: number }>(
+			connect
+		)) {
+			seen.push(message.data.percent);
+		}
+
+		expect(seen).toEqual([25]);
+		expect(resumedFrom).toEqual([null, '1']);
+	});
+});
+
+describe('typed subscribe()', () => {
+	it('yields typed events and resumes from the last id until a 204', async () => {
+		const client = clientFor();
+		const seen: number[] = [];
+		const ids: (string | undefined)[] = [];
+
+		for await (const message of client.progress.subscribe({
+			params: { id: 'job-1' },
+		})) {
+			// Typed from the route's eventStream contract.
+			const percent: number = message.data.percent;
+			seen.push(percent);
+			ids.push(message.id);
+		}
+
+		expect(seen).toEqual([25, 50, 75, 100]);
+		expect(ids).toEqual(['25', '50', '75', '100']);
+	});
+
+	it('stops reconnecting when asked', async () => {
+		const client = clientFor();
+		const seen: number[] = [];
+
+		for await (const message of client.progress.subscribe(
+			{ params: { id: 'job-1' } },
+			{ reconnect: false, lastEventId: '50' }
+		)) {
+			seen.push(message.data.percent);
+		}
+
+		expect(seen).toEqual([75, 100]);
+	});
+
+	it('ends the subscription when the consumer breaks out', async () => {
+		const client = clientFor();
+		const seen: number[] = [];
+
+		for await (const message of client.progress.subscribe({
+			params: { id: 'job-1' },
+		})) {
+			seen.push(message.data.percent);
+			break;
+		}
+
+		expect(seen).toEqual([25]);
+	});
+
+	it('throws the client error for a non-2xx response', async () => {
+		const failing = defineServerRoute({
+			path: '/api/failing',
+			request: defineServerRequest({}),
+			response: eventStreamResponse(progress),
+			GET: () => new Response('nope', { status: 403 }),
+		});
+		const client = createTypedRouteClient(
+			{ failing },
+			{
+				baseUrl: 'http://ssr.local',
+				fetch: createInProcessRouteFetch([
+					defineLayer({ name: 'jobs', server: { routes: [failing] } }),
+				]),
+			}
+		);
+
+		const iterator = client.failing.subscribe()[Symbol.asyncIterator]();
+
+		await expect(iterator.next()).rejects.toBeInstanceOf(
+			LayerServerClientError
+		);
+	});
+
+	it('is exposed on serverSchema for ergonomic declaration', () => {
+		expect(serverSchema.eventStream).toBe(eventStreamResponse);
+	});
+});
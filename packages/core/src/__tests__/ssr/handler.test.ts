@@ -16,6 +16,7 @@ import { CreateTextNode, type Component } from '../../render/node.js';
 import { EFFUSE_NODE } from '../../constants.js';
 import type { ServerTraceEvent } from '../../ssr/observability.js';
 import { RenderError } from '../../ssr/errors.js';
+import { createPrerenderHandler } from '../../ssr/prerender.js';
 
 afterEach(() => {
 	clearGlobalLayerContext();
@@ -1168,6 +1169,52 @@ describe('SSR handler', () => {
 			expect(await response.json()).toEqual({ ok: true });
 		});
 
+		it('should serve prerendered pages where the render would run', async () => {
+			const ApiLayer = defineLayer({
+				name: 'stream-prerender-api',
+				server: {
+					api: {
+						'/api/stream': () => ({ ok: true }),
+					},
+				},
+			});
+			const prerendered = createPrerenderHandler({
+				manifest: {
+					version: 1,
+					pages: {
+						'/about': { file: 'about/index.html', generatedAt: 0 },
+						'/api/stream': { file: 'api/stream/index.html', generatedAt: 0 },
+					},
+				},
+				store: {
+					read: (file) => Promise.resolve(`<p>${file}</p>`),
+					write: () => Promise.resolve(),
+				},
+				origin: 'http://localhost:3000',
+			});
+			const handler = createStreamingHandler({
+				root: createRoot() as any,
+				layers: [ApiLayer],
+				// Stands in for anything that must see a request first.
+				transform: (request) =>
+					new Request(request.url.replace('/legacy-about', '/about')),
+				prerendered,
+			});
+
+			const page = await handler(
+				new Request('http://localhost:3000/legacy-about')
+			);
+			const api = await handler(
+				new Request('http://localhost:3000/api/stream')
+			);
+			const rendered = await handler(new Request('http://localhost:3000/'));
+
+			expect(await page.text()).toBe('<p>about/index.html</p>');
+			expect(page.headers.get('X-Effuse-Prerender')).toBe('hit');
+			expect(await api.json()).toEqual({ ok: true });
+			expect(await rendered.text()).toContain('Hello SSR');
+		});
+
 		it('should report duplicate layer names through streaming onError', async () => {
 			const onError = vi.fn();
 			const FirstLayer = defineLayer({
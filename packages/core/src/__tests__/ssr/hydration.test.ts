@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { serializeHydrationData, getHydrationData } from '../../ssr/hydration.js';
+import {
+	serializeHydrationData,
+	getHydrationData,
+	getStreamedBoundaryState,
+} from '../../ssr/hydration.js';
 
 describe('serializeHydrationData', () => {
 	it('should escape </script to prevent HTML break-out', () => {
@@ -87,3 +91,27 @@ describe('getHydrationData', () => {
 		expect(getHydrationData()).toBeNull();
 	});
 });
+
+describe('getStreamedBoundaryState', () => {
+	it('should return an empty record when document is undefined', () => {
+		expect(getStreamedBoundaryState()).toEqual({});
+	});
+
+	it('should merge every boundary payload and skip malformed ones', () => {
+		const payloads = ['{"a":1}', 'not json', '{"b":[2]}', '"scalar"'];
+		const globals = globalThis as { document?: unknown };
+		globals.document = {
+			querySelectorAll: (selector: string) => {
+				expect(selector).toBe(
+					'script[type="application/json"][data-effuse-boundary]'
+				);
+				return payloads.map((textContent) => ({ textContent }));
+			},
+		};
+		try {
+			expect(getStreamedBoundaryState()).toEqual({ a: 1, b: [2] });
+		} finally {
+			delete globals.document;
+		}
+	});
+});
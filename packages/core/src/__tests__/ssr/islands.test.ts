@@ -0,0 +1,217 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { define } from '../../blueprint/define.js';
+import { IslandNameRequiredError } from '../../blueprint/island.js';
+import { signal } from '../../reactivity/signal.js';
+import {
+	CreateBlueprintNode,
+	CreateElementNode,
+	EFFUSE_NODE,
+	type Component,
+} from '../../render/node.js';
+import { renderToFragment } from '../../ssr/render.js';
+import { createSSRRuntime } from '../../ssr/runtime.js';
+import { createServerApp } from '../../ssr/server-app.js';
+import { hydrateIslands } from '../../canvas/islands.js';
+import { clearGlobalLayerContext } from '../../layers/context.js';
+import { clearGlobalTracing } from '../../layers/tracing/index.js';
+
+afterEach(() => {
+	document.body.innerHTML = '';
+	clearGlobalLayerContext();
+	clearGlobalTracing();
+});
+
+const flush = async (): Promise<void> => {
+	for (let i = 0; i < 6; i++) await Promise.resolve();
+};
+
+const el = (tag: string, props: Record<string, unknown>, children: unknown[]) =>
+	CreateElementNode({
+		[EFFUSE_NODE]: true,
+		tag,
+		props,
+		children: children as never,
+	});
+
+const use = (blueprint: unknown, props: Record<string, unknown> = {}) =>
+	CreateBlueprintNode({
+		[EFFUSE_NODE]: true,
+		blueprint: blueprint as never,
+		props,
+		portals: null,
+	});
+
+const Counter = define({
+	name: 'Counter',
+	hydrate: 'load',
+	script: ({ props }) => {
+		const count = signal((props as { start?: number }).start ?? 0);
+		return {
+			count,
+			increment: () => {
+				count.value += 1;
+			},
+		};
+	},
+	template: ({ count, increment }) =>
+		el('button', { onClick: increment }, [() => count.value]),
+});
+
+const Static = define({
+	name: 'Static',
+	hydrate: 'never',
+	script: () => ({}),
+	template: () => el('p', {}, ['static']),
+});
+
+const Outer = define({
+	name: 'Outer',
+	hydrate: 'idle',
+	script: () => ({}),
+	template: () => el('section', {}, [use(Counter)]),
+});
+
+const renderMarkup = async (
+	root: Component,
+	islands: boolean
+): Promise<string> => {
+	const runtime = await createSSRRuntime([]);
+	try {
+		return runtime.run(() => renderToFragment(root, runtime, '/', { islands }));
+	} finally {
+		await runtime.dispose();
+	}
+};
+
+const page = (...children: unknown[]) =>
+	define({
+		script: () => ({}),
+		template: () => el('main', {}, children),
+	}) as Component;
+
+describe('islands on the server', () => {
+	it('requires a name on a component declared with hydrate', () => {
+		expect(() =>
+			define({
+				hydrate: 'visible',
+				script: () => ({}),
+				template: () => el('div', {}, []),
+			})
+		).toThrow(IslandNameRequiredError);
+	});
+
+	it('wraps an island with its name, trigger and props', async () => {
+		const html = await renderMarkup(
+			page(
+				use(Counter, {
+					start: signal(3),
+					label: 'a "quoted" label',
+					onChange: () => {},
+				})
+			),
+			true
+		);
+
+		expect(html).toContain(
+			'<effuse-island data-island="Counter" data-hydrate="load" data-props="{&quot;start&quot;:3,&quot;label&quot;:&quot;a \\&quot;quoted\\&quot; label&quot;}" style="display:contents"><button>3</button></effuse-island>'
+		);
+	});
+
+	it('renders nested islands inline in the outermost one', async () => {
+		const html = await renderMarkup(page(use(Outer)), true);
+
+		expect(html.match(/<effuse-island/g)).toHaveLength(1);
+		expect(html).toContain(
+			'<effuse-island data-island="Outer" data-hydrate="idle" style="display:contents"><section><button>0</button></section></effuse-island>'
+		);
+	});
+
+	it('leaves hydrate: never components and islands-off renders unwrapped', async () => {
+		expect(await renderMarkup(page(use(Static)), true)).not.toContain(
+			'effuse-island'
+		);
+		expect(await renderMarkup(page(use(Counter)), false)).not.toContain(
+			'effuse-island'
+		);
+	});
+
+	it('wraps islands in a server app rendering with islands on', async () => {
+		const result = await createServerApp(page(use(Counter)))
+			.configure({ islands: true })
+			.renderToString('/');
+		expect(result.html).toContain('<effuse-island data-island="Counter"');
+	});
+});
+
+describe('hydrateIslands', () => {
+	const seed = async (root: Component): Promise<void> => {
+		document.body.innerHTML = `<div id="app">${await renderMarkup(root, true)}</div>`;
+	};
+
+	it('hydrates each island with its server props, leaving the page static', async () => {
+		await seed(page(el('h1', {}, ['title']), use(Counter, { start: 5 })));
+		const button = document.querySelector('button')!;
+		const heading = document.querySelector('h1');
+
+		const handle = hydrateIslands({
+			'./islands/Counter.tsx': () => Promise.resolve({ default: Counter }),
+		});
+		await flush();
+
+		expect(document.querySelector('button')).toBe(button);
+		button.click();
+		await flush();
+		expect(button.textContent).toBe('6');
+		expect(document.querySelector('h1')).toBe(heading);
+
+		handle.dispose();
+	});
+
+	it('loads an interaction island only once it is interacted with', async () => {
+		const Lazy = define({
+			name: 'Lazy',
+			hydrate: 'interaction',
+			script: () => ({}),
+			template: () => el('span', {}, ['lazy']),
+		});
+		await seed(page(use(Lazy)));
+		let loads = 0;
+
+		const handle = hydrateIslands({
+			'./islands/Lazy.ts': () => {
+				loads += 1;
+				return Promise.resolve({ Lazy });
+			},
+		});
+		await flush();
+		expect(loads).toBe(0);
+
+		document
+			.querySelector('span')!
+			.dispatchEvent(new Event('pointerover', { bubbles: true }));
+		document
+			.querySelector('span')!
+			.dispatchEvent(new Event('pointerdown', { bubbles: true }));
+		await flush();
+		expect(loads).toBe(1);
+
+		handle.dispose();
+	});
+
+	it('reports an island with no module', async () => {
+		await seed(page(use(Counter)));
+		const errors: string[] = [];
+
+		hydrateIslands(
+			{},
+			{
+				onError: (_error, island) => {
+					errors.push(island);
+				},
+			}
+		).dispose();
+
+		expect(errors).toEqual(['Counter']);
+	});
+});
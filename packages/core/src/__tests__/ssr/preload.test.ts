@@ -0,0 +1,130 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, expect, it } from 'vitest';
+import { define } from '../../blueprint/define.js';
+import { CreateElementNode } from '../../render/node.js';
+import { EFFUSE_NODE } from '../../constants.js';
+import { createServerApp } from '../../ssr/server-app.js';
+import { getServerRenderState } from '../../render/render-context.js';
+
+/** A root that renders whatever `read` returns during the render. */
+const rootReading = (read: () => unknown) =>
+	define({
+		script: () => ({ seen: String(read()) }),
+		template: ({ seen }) =>
+			CreateElementNode({
+				[EFFUSE_NODE]: true,
+				tag: 'p',
+				props: {},
+				children: [seen] as never,
+			}),
+	}) as never;
+
+const readStream = async (
+	stream: ReadableStream<Uint8Array>
+): Promise<string> => {
+	const decoder = new TextDecoder();
+	let html = '';
+	for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+		html += decoder.decode(chunk);
+	}
+	return html;
+};
+
+describe('server preloads', () => {
+	it('finish before the render reads them', async () => {
+		const result = await createServerApp(
+			rootReading(() => getServerRenderState('greeting'))
+		)
+			.configure({
+				preload: [
+					async ({ url }) => {
+						await new Promise((resolve) => setTimeout(resolve, 5));
+						return { greeting: `hello ${url}` };
+					},
+				],
+			})
+			.renderToString('/docs');
+
+		expect(result.html).toContain('<p>hello /docs</p>');
+		expect(result.state).toEqual({ greeting: 'hello /docs' });
+	});
+
+	it('run concurrently', async () => {
+		const started: string[] = [];
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		const rendered = createServerApp(rootReading(() => null))
+			.configure({
+				preload: [
+					async () => {
+						started.push('a');
+						await gate;
+						return { a: 1 };
+					},
+					() => {
+						started.push('b');
+						release();
+						return Promise.resolve({ b: 2 });
+					},
+				],
+			})
+			.renderToString('/');
+
+		expect((await rendered).state).toEqual({ a: 1, b: 2 });
+		expect(started).toEqual(['a', 'b']);
+	});
+
+	it('abort the others when one fails', async () => {
+		let signal: AbortSignal | undefined;
+
+		const rendered = createServerApp(rootReading(() => null))
+			.configure({
+				preload: [
+					(context) => {
+						signal = context.signal;
+						return new Promise(() => undefined);
+					},
+					() => Promise.reject(new Error('preload failed')),
+				],
+			})
+			.renderToString('/');
+
+		await expect(rendered).rejects.toThrow('preload failed');
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it('may contribute nothing', async () => {
+		const result = await createServerApp(rootReading(() => null))
+			.configure({ preload: [() => Promise.resolve(undefined)] })
+			.renderToString('/');
+
+		expect(result.state).toEqual({});
+	});
+
+	it('ship in the streamed hydration payload', async () => {
+		const stream = await createServerApp(
+			rootReading(() => getServerRenderState('greeting'))
+		)
+			.configure({
+				preload: [() => Promise.resolve({ greeting: 'streamed' })],
+			})
+			.renderToStream('/');
+
+		const html = await readStream(stream);
+
+		expect(html).toContain('<p>streamed</p>');
+		expect(html).toContain('"greeting":"streamed"');
+	});
+
+	it('are not visible outside a render', () => {
+		expect(getServerRenderState('greeting')).toBeUndefined();
+	});
+});
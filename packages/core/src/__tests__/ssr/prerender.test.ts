@@ -0,0 +1,335 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+	createPrerenderHandler,
+	planPrerender,
+	prerenderFileFor,
+	renderPrerenderPlan,
+	type PrerenderEvent,
+	type PrerenderManifest,
+	type PrerenderPageStore,
+} from '../../ssr/prerender.js';
+import { createServerApp } from '../../ssr/server-app.js';
+import { compileServerPolicy } from '../../ssr/policy-compiler.js';
+import { defineLayer } from '../../layers/api/defineLayer.js';
+import { clearGlobalLayerContext } from '../../layers/context.js';
+import { clearGlobalTracing } from '../../layers/tracing/index.js';
+import { CreateTextNode, type Component } from '../../render/node.js';
+import { EFFUSE_NODE } from '../../constants.js';
+import { HYDRATION_SCRIPT_ID } from '../../ssr/hydration.js';
+
+afterEach(() => {
+	clearGlobalLayerContext();
+	clearGlobalTracing();
+});
+
+const createRootComponent = (text = 'Prerendered'): Component => {
+	const textNode = CreateTextNode({ [EFFUSE_NODE]: true, text });
+	return Object.assign(() => textNode, {
+		_tag: 'Blueprint',
+		view: () => textNode,
+	}) as Component;
+};
+
+const createMemoryStore = (
+	files: Record<string, string> = {}
+): PrerenderPageStore & { readonly files: Record<string, string> } => ({
+	files,
+	read: (file) => Promise.resolve(files[file]),
+	write: (file, html) => {
+		files[file] = html;
+		return Promise.resolve();
+	},
+});
+
+const manifestOf = (
+	pages: PrerenderManifest['pages']
+): PrerenderManifest => ({ version: 1, pages });
+
+describe('compileServerPolicy pages', () => {
+	it('folds page policies over the layer chain with the domain prefix', () => {
+		const Docs = defineLayer({
+			name: 'docs',
+			domain: 'docs',
+			server: { metadata: { prerender: true } },
+			routes: [
+				{
+					path: '/',
+					component: createRootComponent(),
+					children: [
+						{
+							path: '/intro',
+							component: createRootComponent(),
+							policy: { prerender: { revalidate: 30 } },
+						},
+					],
+				},
+			],
+		});
+
+		const manifest = compileServerPolicy([Docs]);
+
+		expect(manifest.pages).toEqual([
+			expect.objectContaining({
+				layer: 'docs',
+				path: '/docs',
+				policy: { prerender: true },
+			}),
+			expect.objectContaining({
+				layer: 'docs',
+				path: '/docs/intro',
+				policy: { prerender: { revalidate: 30 } },
+			}),
+		]);
+	});
+});
+
+describe('planPrerender', () => {
+	it('targets static pages whose merged policy declares prerender', () => {
+		const Site = defineLayer({
+			name: 'site',
+			routes: [
+				{ path: '/', component: createRootComponent(), policy: { prerender: true } },
+				{
+					path: '/pricing',
+					component: createRootComponent(),
+					policy: { prerender: { revalidate: 60 } },
+				},
+				{ path: '/account', component: createRootComponent() },
+				{
+					path: '/draft',
+					component: createRootComponent(),
+					policy: { prerender: false },
+				},
+			],
+		});
+
+		const plan = planPrerender([Site]);
+
+		expect(plan.targets).toEqual([
+			{ layer: 'site', path: '/', route: '/' },
+			{ layer: 'site', path: '/pricing', route: '/pricing', revalidate: 60 },
+		]);
+		expect(plan.skipped).toEqual([]);
+	});
+
+	it('renders dynamic routes only for listed paths and reports the rest', () => {
+		const Blog = defineLayer({
+			name: 'blog',
+			server: { metadata: { prerender: { revalidate: 300 } } },
+			routes: [
+				{ path: '/blog/:slug', component: createRootComponent() },
+				{ path: '/tags/:tag', component: createRootComponent() },
+			],
+		});
+
+		const plan = planPrerender([Blog], {
+			paths: ['/blog/hello', '/unknown/page'],
+		});
+
+		expect(plan.targets).toEqual([
+			{
+				layer: 'blog',
+				path: '/blog/hello',
+				route: '/blog/:slug',
+				revalidate: 300,
+			},
+		]);
+		expect(plan.skipped).toEqual([{ layer: 'blog', route: '/tags/:tag' }]);
+		expect(plan.unmatched).toEqual(['/unknown/page']);
+	});
+});
+
+describe('prerenderFileFor', () => {
+	it('maps pathnames to directory index files', () => {
+		expect(prerenderFileFor('/')).toBe('index.html');
+		expect(prerenderFileFor('/docs/intro/')).toBe('docs/intro/index.html');
+	});
+
+	it('rejects paths that escape the output directory', () => {
+		expect(() => prerenderFileFor('/a/../../etc')).toThrow(TypeError);
+	});
+});
+
+describe('renderPrerenderPlan', () => {
+	it('renders each target with its hydration payload and builds the manifest', async () => {
+		const app = createServerApp(createRootComponent('Static page'));
+
+		const result = await renderPrerenderPlan(
+			app,
+			[
+				{ layer: 'site', path: '/', route: '/' },
+				{ layer: 'site', path: '/pricing', route: '/pricing', revalidate: 60 },
+			],
+			{ now: () => 1_000 }
+		);
+
+		expect(result.pages.map((page) => page.file)).toEqual([
+			'index.html',
+			'pricing/index.html',
+		]);
+		expect(result.pages[0]?.html).toContain('Static page');
+		expect(result.pages[0]?.html).toContain(HYDRATION_SCRIPT_ID);
+		expect(result.manifest).toEqual({
+			version: 1,
+			pages: {
+				'/': { file: 'index.html', generatedAt: 1_000 },
+				'/pricing': {
+					file: 'pricing/index.html',
+					revalidate: 60,
+					generatedAt: 1_000,
+				},
+			},
+		});
+	});
+});
+
+describe('createPrerenderHandler', () => {
+	it('serves prerendered pages before falling back to SSR', async () => {
+		const store = createMemoryStore({ 'about/index.html': '<p>about</p>' });
+		const handler = createPrerenderHandler({
+			manifest: manifestOf({
+				'/about': { file: 'about/index.html', generatedAt: 0 },
+			}),
+			store,
+			origin: 'https://x.test',
+		});
+		let fallbacks = 0;
+		const fallback = () => {
+			fallbacks += 1;
+			return new Response('ssr');
+		};
+
+		const page = await handler.handle(
+			new Request('https://x.test/about/'),
+			fallback
+		);
+		const other = await handler.handle(
+			new Request('https://x.test/contact'),
+			fallback
+		);
+		const post = await handler.handle(
+			new Request('https://x.test/about', { method: 'POST' }),
+			fallback
+		);
+
+		expect(await page.text()).toBe('<p>about</p>');
+		expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+		expect(page.headers.get('X-Effuse-Prerender')).toBe('hit');
+		expect(await other.text()).toBe('ssr');
+		expect(await post.text()).toBe('ssr');
+		expect(fallbacks).toBe(2);
+	});
+
+	it('answers a matching If-None-Match with 304', async () => {
+		const handler = createPrerenderHandler({
+			manifest: manifestOf({ '/': { file: 'index.html', generatedAt: 0 } }),
+			store: createMemoryStore({ 'index.html': '<p>home</p>' }),
+			origin: 'https://x.test',
+		});
+		const fallback = () => new Response('ssr');
+
+		const first = await handler.handle(new Request('https://x.test/'), fallback);
+		const etag = first.headers.get('ETag');
+		const second = await handler.handle(
+			new Request('https://x.test/', { headers: { 'If-None-Match': etag! } }),
+			fallback
+		);
+
+		expect(etag).toBeTruthy();
+		expect(second.status).toBe(304);
+	});
+
+	it('serves stale and regenerates exactly once after the revalidate window', async () => {
+		let time = 0;
+		const events: PrerenderEvent[] = [];
+		const store = createMemoryStore({ 'news/index.html': 'v1' });
+		const handler = createPrerenderHandler({
+			manifest: manifestOf({
+				'/news': { file: 'news/index.html', revalidate: 10, generatedAt: 0 },
+			}),
+			store,
+			origin: 'https://x.test',
+			now: () => time,
+			onEvent: (event) => events.push(event),
+		});
+		const seen: Request[] = [];
+		const fallback = async (request: Request) => {
+			seen.push(request);
+			await Promise.resolve();
+			return new Response('v2', { status: 200 });
+		};
+
+		expect(await (await handler.handle(new Request('https://x.test/news'), fallback)).text()).toBe('v1');
+		time = 10_000;
+		const stale = await Promise.all([
+			handler.handle(
+				new Request('https://x.test/news', { headers: { Cookie: 'sid=secret' } }),
+				fallback
+			),
+			handler.handle(new Request('https://x.test/news'), fallback),
+		]);
+		await handler.idle();
+		const fresh = await handler.handle(new Request('https://x.test/news'), fallback);
+
+		expect(await stale[0]!.text()).toBe('v1');
+		expect(stale[0]!.headers.get('X-Effuse-Prerender')).toBe('stale');
+		expect(seen).toHaveLength(1);
+		// Regeneration never renders with the visitor's credentials.
+		expect(seen[0]!.headers.get('Cookie')).toBeNull();
+		expect(store.files['news/index.html']).toBe('v2');
+		expect(await fresh.text()).toBe('v2');
+		expect(fresh.headers.get('X-Effuse-Prerender')).toBe('hit');
+		expect(events.map((event) => event.type)).toContain('regenerated');
+	});
+
+	it('regenerates under the configured origin, not the request host', async () => {
+		const store = createMemoryStore({ 'news/index.html': 'v1' });
+		const handler = createPrerenderHandler({
+			manifest: manifestOf({
+				'/news': { file: 'news/index.html', revalidate: 1, generatedAt: 0 },
+			}),
+			store,
+			origin: 'https://x.test',
+			now: () => 5_000,
+		});
+		const seen: string[] = [];
+
+		await handler.handle(
+			new Request('https://attacker.test/news'),
+			(request) => {
+				seen.push(request.url);
+				return new Response('v2', { status: 200 });
+			}
+		);
+		await handler.idle();
+
+		expect(seen).toEqual(['https://x.test/news']);
+	});
+
+	it('keeps serving the stale page when regeneration fails', async () => {
+		const events: PrerenderEvent[] = [];
+		const store = createMemoryStore({ 'index.html': 'old' });
+		const handler = createPrerenderHandler({
+			manifest: manifestOf({
+				'/': { file: 'index.html', revalidate: 1, generatedAt: 0 },
+			}),
+			store,
+			origin: 'https://x.test',
+			now: () => 5_000,
+			onEvent: (event) => events.push(event),
+		});
+
+		const response = await handler.handle(
+			new Request('https://x.test/'),
+			() => new Response('boom', { status: 500 })
+		);
+		await handler.idle();
+
+		expect(await response.text()).toBe('old');
+		expect(store.files['index.html']).toBe('old');
+		expect(events.map((event) => event.type)).toEqual([
+			'stale',
+			'regenerate_failed',
+		]);
+	});
+});
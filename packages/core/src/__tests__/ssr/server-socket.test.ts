@@ -0,0 +1,231 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { handleLayerServerRequest } from '../../ssr/server-routing.js';
+import {
+	defineServerSocket,
+	takeServerSocketUpgrade,
+	type ServerSocketHandlers,
+	type ServerSocketPeer,
+	type ServerSocketOptions,
+} from '../../ssr/server-socket.js';
+import { serverSchema } from '../../ssr/server-schema.js';
+import { defineLayer } from '../../layers/api/defineLayer.js';
+import { clearGlobalLayerContext } from '../../layers/context.js';
+import { clearGlobalTracing } from '../../layers/tracing/index.js';
+
+afterEach(() => {
+	clearGlobalLayerContext();
+	clearGlobalTracing();
+});
+
+const upgrade = (path: string, headers: Record<string, string> = {}) =>
+	new Request(`http://localhost:3000${path}`, {
+		headers: {
+			upgrade: 'websocket',
+			connection: 'Upgrade',
+			'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+			'sec-websocket-version': '13',
+			...headers,
+		},
+	});
+
+const serve = (
+	request: Request,
+	options: ServerSocketOptions<{ text: string }, { echo: string }>
+) =>
+	handleLayerServerRequest(request, [
+		defineLayer({
+			name: 'app',
+			server: {
+				api: [
+					defineServerSocket('/ws/:room', {
+						message: serverSchema.object({ text: serverSchema.string }),
+						reply: serverSchema.object({ echo: serverSchema.string }),
+						...options,
+					}),
+				],
+			},
+		}),
+	]);
+
+const accept = async (
+	request: Request,
+	options: ServerSocketOptions<{ text: string }, { echo: string }>
+): Promise<ServerSocketHandlers> => {
+	const response = await serve(request, options);
+	const accepted = response && takeServerSocketUpgrade(response);
+	if (!accepted) throw new Error('expected an upgrade');
+	return accepted.handlers;
+};
+
+const createPeer = () => {
+	const sent: string[] = [];
+	const closes: { code?: number; reason?: string }[] = [];
+	const peer: ServerSocketPeer = {
+		send: (data) => sent.push(String(data)),
+		close: (code, reason) => closes.push({ code, reason }),
+	};
+	return { peer, sent, closes };
+};
+
+describe('defineServerSocket', () => {
+	it('answers a plain request with 426', async () => {
+		const response = await serve(
+			new Request('http://localhost:3000/ws/lobby'),
+			{}
+		);
+
+		expect(response?.status).toBe(426);
+		expect(response?.headers.get('upgrade')).toBe('websocket');
+	});
+
+	it('hands an upgrade to the adapter exactly once', async () => {
+		const response = await serve(upgrade('/ws/lobby'), {});
+
+		expect(response?.status).toBe(501);
+		const accepted = response && takeServerSocketUpgrade(response);
+		expect(accepted?.handlers.message).toBeTypeOf('function');
+		expect(accepted?.headers.has('x-effuse-socket')).toBe(false);
+		expect(response && takeServerSocketUpgrade(response)).toBeUndefined();
+	});
+
+	it('refuses an upgrade from another origin', async () => {
+		const response = await serve(
+			upgrade('/ws/lobby', { origin: 'https://evil.example' }),
+			{}
+		);
+
+		expect(response?.status).toBe(403);
+		expect(response && takeServerSocketUpgrade(response)).toBeUndefined();
+	});
+
+	it.each([
+		['its own origin', 'http://localhost:3000', {}],
+		[
+			'an allowed origin',
+			'https://app.example.com',
+			{ allowedOrigins: ['https://app.example.com'] },
+		],
+	])('accepts an upgrade from %s', async (_name, origin, options) => {
+		const response = await serve(upgrade('/ws/lobby', { origin }), options);
+
+		expect(response?.status).toBe(501);
+		expect(response && takeServerSocketUpgrade(response)).toBeDefined();
+	});
+
+	it('refuses an opaque null origin', async () => {
+		const response = await serve(upgrade('/ws/lobby', { origin: 'null' }), {});
+
+		expect(response?.status).toBe(403);
+	});
+
+	it('opens no socket when route middleware rejects the request', async () => {
+		const response = await serve(upgrade('/ws/lobby'), {
+			middleware: [
+				(ctx, next) =>
+					ctx.request.headers.get('authorization') === 'Bearer ok'
+						? next()
+						: new Response('Unauthorized', { status: 401 }),
+			],
+		});
+
+		expect(response?.status).toBe(401);
+		expect(response && takeServerSocketUpgrade(response)).toBeUndefined();
+	});
+
+	it('validates messages and replies with the upgrade context', async () => {
+		const handlers = await accept(upgrade('/ws/lobby'), {
+			onOpen: (socket) => socket.send({ echo: 'hello' }),
+			onMessage: (message, socket, ctx) =>
+				socket.send({ echo: `${String(ctx.params.room)}:${message.text}` }),
+		});
+		const { peer, sent, closes } = createPeer();
+
+		await handlers.open?.(peer);
+		await handlers.message?.(peer, JSON.stringify({ text: 'hi' }));
+
+		expect(sent.map((data) => JSON.parse(data) as unknown)).toEqual([
+			{ echo: 'hello' },
+			{ echo: 'lobby:hi' },
+		]);
+		expect(closes).toEqual([]);
+	});
+
+	it('closes with 1007 on a message that fails its schema', async () => {
+		const received: unknown[] = [];
+		const handlers = await accept(upgrade('/ws/lobby'), {
+			onMessage: (message) => {
+				received.push(message);
+			},
+		});
+		const { peer, closes } = createPeer();
+
+		await handlers.open?.(peer);
+		await handlers.message?.(peer, JSON.stringify({ text: 42 }));
+		await handlers.message?.(peer, JSON.stringify({ text: 'late' }));
+
+		expect(closes).toEqual([{ code: 1007, reason: 'Invalid message' }]);
+		expect(received).toEqual([]);
+	});
+
+	it('closes with 1003 on a binary message', async () => {
+		const handlers = await accept(upgrade('/ws/lobby'), {});
+		const { peer, closes } = createPeer();
+
+		await handlers.open?.(peer);
+		await handlers.message?.(peer, new Uint8Array([1, 2]));
+
+		expect(closes[0]?.code).toBe(1003);
+	});
+
+	it('closes with 1011 when a hook throws and no onError is given', async () => {
+		const handlers = await accept(upgrade('/ws/lobby'), {
+			onMessage: (_message, socket) =>
+				socket.send({ echo: 1 } as unknown as { echo: string }),
+		});
+		const { peer, sent, closes } = createPeer();
+
+		await handlers.open?.(peer);
+		await handlers.message?.(peer, JSON.stringify({ text: 'hi' }));
+
+		expect(sent).toEqual([]);
+		expect(closes[0]?.code).toBe(1011);
+	});
+
+	it('handles messages one at a time, in order', async () => {
+		const order: string[] = [];
+		const handlers = await accept(upgrade('/ws/lobby'), {
+			onMessage: async (message) => {
+				order.push(`start ${message.text}`);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				order.push(`end ${message.text}`);
+			},
+		});
+		const { peer } = createPeer();
+
+		await handlers.open?.(peer);
+		void handlers.message?.(peer, JSON.stringify({ text: 'a' }));
+		await handlers.message?.(peer, JSON.stringify({ text: 'b' }));
+
+		expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+	});
+
+	it('reports the close after pending messages settle', async () => {
+		const events: string[] = [];
+		const handlers = await accept(upgrade('/ws/lobby'), {
+			onMessage: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				events.push('message');
+			},
+			onClose: (socket, event) => {
+				events.push(`close ${String(event.code)} ${String(socket.closed)}`);
+			},
+		});
+		const { peer } = createPeer();
+
+		await handlers.open?.(peer);
+		void handlers.message?.(peer, JSON.stringify({ text: 'a' }));
+		await handlers.close?.(peer, 1000, '');
+
+		expect(events).toEqual(['message', 'close 1000 true']);
+	});
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import { createDataCache } from '../../ssr/data-cache.js';
+import { createResponseCache } from '../../ssr/response-cache.js';
+import {
+	createMemoryInvalidationHub,
+	type CacheStore,
+} from '../../ssr/cache-store.js';
+
+/** A store that serialises like a remote backend would. */
+const createJsonStore = (): CacheStore & { readonly size: () => number } => {
+	const entries = new Map<string, string>();
+	return {
+		get: (key) => {
+			const raw = entries.get(key);
+			return Promise.resolve(
+				raw === undefined ? undefined : (JSON.parse(raw) as never)
+			);
+		},
+		set: (key, value) => {
+			entries.set(key, JSON.stringify(value));
+			return Promise.resolve();
+		},
+		delete: (key) => {
+			entries.delete(key);
+			return Promise.resolve();
+		},
+		size: () => entries.size,
+	};
+};
+
+describe('createMemoryInvalidationHub', () => {
+	it('delivers to every other participant, never the sender', () => {
+		const hub = createMemoryInvalidationHub();
+		const a = hub.connect();
+		const b = hub.connect();
+		const seenByA: string[][] = [];
+		const seenByB: string[][] = [];
+		a.subscribe((tags) => seenByA.push([...tags]));
+		b.subscribe((tags) => seenByB.push([...tags]));
+
+		a.publish(['posts']);
+
+		expect(seenByA).toEqual([]);
+		expect(seenByB).toEqual([['posts']]);
+
+		b.close();
+		expect(hub.size()).toBe(1);
+	});
+});
+
+describe('shared data cache', () => {
+	const instances = () => {
+		const store = createJsonStore();
+		const hub = createMemoryInvalidationHub();
+		let clock = 0;
+		const now = () => clock;
+		const make = () =>
+			createDataCache({ store, invalidation: hub.connect(), now });
+		return {
+			a: make(),
+			b: make(),
+			make,
+			store,
+			advance: (ms: number) => {
+				clock += ms;
+			},
+		};
+	};
+
+	it('serves a value computed on one instance from another', async () => {
+		const { a, b } = instances();
+		let calls = 0;
+		const load = async (id: string) => {
+			calls += 1;
+			return { id, calls };
+		};
+		const onA = a.cached(load, { name: 'post', life: { stale: 60 } });
+		const onB = b.cached(load, { name: 'post', life: { stale: 60 } });
+
+		expect(await onA('1')).toEqual({ id: '1', calls: 1 });
+		expect(await onB('1')).toEqual({ id: '1', calls: 1 });
+		expect(calls).toBe(1);
+	});
+
+	it('invalidates a tag on every instance', async () => {
+		const { a, b } = instances();
+		let version = 1;
+		const load = async () => version;
+		const options = { name: 'list', life: { stale: 60 }, tags: ['posts'] };
+		const onA = a.cached(load, options);
+		const onB = b.cached(load, options);
+
+		expect(await onA()).toBe(1);
+		expect(await onB()).toBe(1);
+
+		version = 2;
+		a.invalidateTags(['posts']);
+		await a.idle();
+
+		expect(b.size).toBe(0);
+		expect(await onB()).toBe(2);
+		expect(await onA()).toBe(2);
+	});
+
+	it('serves a stale shared value while one instance refreshes it', async () => {
+		const { a, b, make, advance } = instances();
+		let version = 1;
+		let calls = 0;
+		const load = async () => {
+			calls += 1;
+			return version;
+		};
+		const options = { name: 'feed', life: { stale: 10, expire: 60 } };
+		const onA = a.cached(load, options);
+		const onB = b.cached(load, options);
+
+		expect(await onA()).toBe(1);
+		advance(20_000);
+		version = 2;
+
+		// B has never run it: the stale shared value is served at once.
+		expect(await onB()).toBe(1);
+		await b.idle();
+		expect(calls).toBe(2);
+
+		// The refresh reached the store, not just B.
+		const onC = make().cached(load, options);
+		expect(await onC()).toBe(2);
+		expect(calls).toBe(2);
+	});
+
+	it('keeps unnamed functions in their own process', async () => {
+		const { a, b, store } = instances();
+		let calls = 0;
+		const load = async () => (calls += 1);
+
+		await a.cached(load, { life: { stale: 60 } })();
+		await b.cached(load, { life: { stale: 60 } })();
+
+		expect(calls).toBe(2);
+		expect(store.size()).toBe(0);
+	});
+
+	it('falls back to computing when the store fails', async () => {
+		const errors: unknown[] = [];
+		const failing: CacheStore = {
+			get: () => Promise.reject(new Error('down')),
+			set: () => Promise.reject(new Error('down')),
+			delete: () => Promise.reject(new Error('down')),
+		};
+		const cache = createDataCache({
+			store: failing,
+			onStoreError: (error) => errors.push(error),
+		});
+		const wrapped = cache.cached(async (id: string) => `v-${id}`, {
+			name: 'fallback',
+			life: { stale: 60 },
+			tags: ['t'],
+		});
+
+		expect(await wrapped('x')).toBe('v-x');
+		expect(errors.length).toBeGreaterThan(0);
+	});
+
+	it('writes nothing once the entry is past serving', async () => {
+		const store = createJsonStore();
+		// Every read moves two seconds on, so the entry is already gone by the
+		// time it would be written.
+		let clock = 0;
+		const cache = createDataCache({ store, now: () => (clock += 2000) });
+		const wrapped = cache.cached(async (id: string) => `v-${id}`, {
+			name: 'expired',
+			life: { stale: 1 },
+		});
+
+		expect(await wrapped('x')).toBe('v-x');
+		expect(store.size()).toBe(0);
+	});
+});
+
+describe('shared response cache', () => {
+	const req = (url: string) => new Request(url);
+
+	it('serves a response rendered on one instance from another', async () => {
+		const store = createJsonStore();
+		const a = createResponseCache({ store });
+		const b = createResponseCache({ store });
+		let calls = 0;
+		const handler = () => {
+			calls += 1;
+			return new Response('page', {
+				status: 200,
+				headers: { 'Content-Type': 'text/html' },
+			});
+		};
+
+		await a.handle(req('https://x.test/p'), { revalidate: 60 }, handler);
+		const served = await b.handle(
+			req('https://x.test/p'),
+			{ revalidate: 60 },
+			handler
+		);
+
+		expect(calls).toBe(1);
+		expect(await served.text()).toBe('page');
+		expect(served.headers.get('Content-Type')).toBe('text/html');
+	});
+
+	it('shares the Vary rule a response taught', async () => {
+		const store = createJsonStore();
+		const a = createResponseCache({ store });
+		const b = createResponseCache({ store });
+		let calls = 0;
+		const handler = (request: Request) => () => {
+			calls += 1;
+			return new Response(request.headers.get('accept-language') ?? '', {
+				status: 200,
+				headers: { Vary: 'Accept-Language' },
+			});
+		};
+		const request = (language: string) =>
+			new Request('https://x.test/v', {
+				headers: { 'Accept-Language': language },
+			});
+
+		await a.handle(request('en'), { revalidate: 60 }, handler(request('en')));
+		const en = await b.handle(
+			request('en'),
+			{ revalidate: 60 },
+			handler(request('en'))
+		);
+		const es = await b.handle(
+			request('es'),
+			{ revalidate: 60 },
+			handler(request('es'))
+		);
+
+		expect(await en.text()).toBe('en');
+		expect(await es.text()).toBe('es');
+		expect(calls).toBe(2);
+	});
+
+	it('invalidates a tag on every instance', async () => {
+		const store = createJsonStore();
+		const hub = createMemoryInvalidationHub();
+		const a = createResponseCache({ store, invalidation: hub.connect() });
+		const b = createResponseCache({ store, invalidation: hub.connect() });
+		let version = 1;
+		const handler = () => new Response(`v${String(version)}`, { status: 200 });
+		const policy = { revalidate: 60, tags: ['page'] };
+
+		await a.handle(req('https://x.test/t'), policy, handler);
+		await b.handle(req('https://x.test/t'), policy, handler);
+		expect(b.size).toBe(1);
+
+		version = 2;
+		a.invalidateTags(['page']);
+		await a.idle();
+
+		expect(b.size).toBe(0);
+		const served = await b.handle(req('https://x.test/t'), policy, handler);
+		expect(await served.text()).toBe('v2');
+	});
+
+	it('writes nothing once the response is past serving', async () => {
+		const store = createJsonStore();
+		let clock = 0;
+		const cache = createResponseCache({ store, now: () => (clock += 2000) });
+
+		const served = await cache.handle(
+			req('https://x.test/e'),
+			{ revalidate: 1 },
+			() => new Response('page', { status: 200 })
+		);
+
+		expect(await served.text()).toBe('page');
+		expect(store.size()).toBe(0);
+	});
+});
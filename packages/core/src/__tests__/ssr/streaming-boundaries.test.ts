@@ -0,0 +1,278 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServerApp } from '../../ssr/server-app.js';
+import { clearGlobalLayerContext } from '../../layers/context.js';
+import { clearGlobalTracing } from '../../layers/tracing/index.js';
+import {
+	CreateBlueprintNode,
+	CreateElementNode,
+	CreateTextNode,
+	EFFUSE_NODE,
+	type BlueprintDef,
+	type Component,
+	type EffuseChild,
+} from '../../render/node.js';
+import { define } from '../../blueprint/define.js';
+import { AsyncBoundary } from '../../components/AsyncBoundary.js';
+import { Suspense, type SuspendToken } from '../../suspense/Suspense.js';
+import { SUSPEND_TOKEN } from '../../constants.js';
+import { asyncComputed } from '../../reactivity/async-computed.js';
+import { renderBoundaryChunk } from '../../ssr/streaming-boundary.js';
+
+afterEach(() => {
+	clearGlobalLayerContext();
+	clearGlobalTracing();
+});
+
+const text = (value: string) =>
+	CreateTextNode({ [EFFUSE_NODE]: true, text: value });
+
+const element = (tag: string, children: unknown[]) =>
+	CreateElementNode({
+		[EFFUSE_NODE]: true,
+		tag,
+		props: {},
+		children: children as never,
+	});
+
+const node = (blueprint: unknown, props: Record<string, unknown> = {}) =>
+	CreateBlueprintNode({
+		[EFFUSE_NODE]: true,
+		blueprint: blueprint as BlueprintDef,
+		props,
+		portals: null,
+	});
+
+const page = (view: () => unknown) =>
+	define({
+		props: {},
+		script: () => ({}),
+		template: view as never,
+	}) as Component;
+
+const deferred = <T>() => {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((done) => {
+		resolve = done;
+	});
+	return { promise, resolve };
+};
+
+/** A widget whose text comes from an asyncComputed loading `load()`. */
+const widget = (key: string, load: () => Promise<string>) =>
+	node(
+		define({
+			props: {},
+			script: () => ({
+				data: asyncComputed({ source: () => key, hydrationKey: key, load }),
+			}),
+			template: (({ data }: { data: { value: string | undefined } }) =>
+				element('p', [() => data.value ?? 'pending'])) as never,
+		})
+	);
+
+const drain = async (
+	stream: ReadableStream<Uint8Array>,
+	onChunk?: (chunk: string, index: number) => void
+): Promise<{ chunks: string[]; html: string }> => {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	const chunks: string[] = [];
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		const chunk = decoder.decode(value, { stream: true });
+		onChunk?.(chunk, chunks.length);
+		chunks.push(chunk);
+	}
+	return { chunks, html: chunks.join('') };
+};
+
+describe('out-of-order boundary streaming', () => {
+	it('sends the fallback with the body and the content once it resolves', async () => {
+		const slow = deferred<string>();
+		const root = page(() =>
+			element('main', [
+				text('fast'),
+				AsyncBoundary({
+					loading: () => text('loading…'),
+					children: widget('slow', () => slow.promise) as EffuseChild,
+				}),
+			])
+		);
+
+		const stream = await createServerApp(root).renderToStream('/');
+		const { chunks, html } = await drain(stream, (chunk) => {
+			// The body is out before the slow data exists.
+			if (chunk.includes('fast')) slow.resolve('done');
+		});
+
+		const body = chunks.find((chunk) => chunk.includes('fast'))!;
+		expect(body).toContain('<!--eb:1-->loading…<!--/eb:1-->');
+		expect(body).not.toContain('done');
+
+		expect(html).toContain('<template id="eb-1"><p>done</p></template>');
+		expect(html).toContain(
+			'<script type="application/json" data-effuse-boundary="1">{"slow":"done"}</script>'
+		);
+		expect(html).toContain('$EFB("1")');
+		// The payload describes the document after every swap, so it comes last.
+		expect(html.indexOf('__EFFUSE_DATA__')).toBeGreaterThan(
+			html.indexOf('$EFB("1")')
+		);
+		expect(html.trimEnd().endsWith('</html>')).toBe(true);
+	});
+
+	it('sends boundaries in the order their data arrives', async () => {
+		const first = deferred<string>();
+		const second = deferred<string>();
+		const root = page(() =>
+			element('main', [
+				AsyncBoundary({
+					loading: 'a…',
+					children: widget('a', () => first.promise) as EffuseChild,
+				}),
+				AsyncBoundary({
+					loading: 'b…',
+					children: widget('b', () => second.promise) as EffuseChild,
+				}),
+			])
+		);
+
+		const stream = await createServerApp(root).renderToStream('/');
+		const { html } = await drain(stream, (chunk) => {
+			if (chunk.includes('<main>')) second.resolve('B');
+			if (chunk.includes('eb-2')) first.resolve('A');
+		});
+
+		expect(html.indexOf('<template id="eb-2">')).toBeLessThan(
+			html.indexOf('<template id="eb-1">')
+		);
+		expect(html).toContain('<template id="eb-1"><p>A</p></template>');
+	});
+
+	it('renders a boundary that needs nothing in place', async () => {
+		const root = page(() =>
+			element('main', [AsyncBoundary({ children: text('static') })])
+		);
+
+		const { html } = await drain(await createServerApp(root).renderToStream('/'));
+
+		expect(html).toContain('<main>static</main>');
+		expect(html).not.toContain('eb:');
+		expect(html).not.toContain('$EFB');
+	});
+
+	it('streams a Suspense boundary once its resource settles', async () => {
+		const resource = deferred<void>();
+		let ready = false;
+		void resource.promise.then(() => {
+			ready = true;
+		});
+		const token: SuspendToken = {
+			[SUSPEND_TOKEN]: true,
+			resourceId: 'profile',
+			promise: resource.promise,
+		};
+
+		const root = page(() =>
+			element('main', [
+				node(Suspense, {
+					fallback: 'wait',
+					children: () => {
+						if (!ready) throw token;
+						return text('profile');
+					},
+				}),
+			])
+		);
+
+		const stream = await createServerApp(root).renderToStream('/');
+		const { chunks, html } = await drain(stream, (chunk) => {
+			if (chunk.includes('<main>')) resource.resolve();
+		});
+
+		expect(chunks.find((chunk) => chunk.includes('<main>'))).toContain(
+			'<!--eb:1-->wait<!--/eb:1-->'
+		);
+		expect(html).toContain('<template id="eb-1">profile</template>');
+	});
+
+	it('sends a boundary nested in a deferred one after its parent', async () => {
+		const outer = deferred<string>();
+		const inner = deferred<string>();
+		const root = page(() =>
+			element('main', [
+				AsyncBoundary({
+					loading: 'outer…',
+					children: element('section', [
+						widget('outer', () => outer.promise),
+						AsyncBoundary({
+							loading: 'inner…',
+							children: widget('inner', () => inner.promise) as EffuseChild,
+						}),
+					]) as EffuseChild,
+				}),
+			])
+		);
+
+		const stream = await createServerApp(root).renderToStream('/');
+		const { html } = await drain(stream, (chunk) => {
+			if (chunk.includes('<main>')) outer.resolve('O');
+			if (chunk.includes('<template id="eb-2">')) inner.resolve('I');
+		});
+
+		// The inner boundary deferred by the outer's first pass is thrown away
+		// with that pass, and deferred again when the outer one resolves.
+		expect(html).toContain('<!--eb:2-->outer…<!--/eb:2-->');
+		expect(html).toContain(
+			'<template id="eb-2"><section><p>O</p><!--eb:3-->inner…<!--/eb:3--></section></template>'
+		);
+		expect(html.indexOf('<template id="eb-3"><p>I</p></template>')).toBeGreaterThan(
+			html.indexOf('<template id="eb-2">')
+		);
+		expect(html).not.toContain('eb-1');
+	});
+
+	it('keeps the fallback when the content fails to render', async () => {
+		const slow = deferred<string>();
+		let passes = 0;
+		const flaky = define({
+			props: {},
+			script: () => {
+				passes += 1;
+				if (passes > 1) throw new Error('boom');
+				return {
+					data: asyncComputed({
+						source: () => 1,
+						hydrationKey: 'flaky',
+						load: () => slow.promise,
+					}),
+				};
+			},
+			template: () => text('never'),
+		});
+		const root = page(() =>
+			element('main', [
+				AsyncBoundary({ loading: 'fallback', children: node(flaky) as EffuseChild }),
+			])
+		);
+
+		const errors: unknown[] = [];
+		const original = console.error;
+		console.error = (...args: unknown[]) => errors.push(args);
+		try {
+			const stream = await createServerApp(root).renderToStream('/');
+			const { html } = await drain(stream, (chunk) => {
+				if (chunk.includes('<main>')) slow.resolve('x');
+			});
+
+			expect(html).toContain('<!--eb:1-->fallback<!--/eb:1-->');
+			expect(html).toContain(renderBoundaryChunk('1', null));
+			expect(html).not.toContain('<template id="eb-1">');
+			expect(html.trimEnd().endsWith('</html>')).toBe(true);
+			expect(errors).toHaveLength(1);
+		} finally {
+			console.error = original;
+		}
+	});
+});
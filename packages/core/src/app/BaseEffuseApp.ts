@@ -42,6 +42,11 @@ import {
 	mount as mountComponent,
 	type Canvas,
 } from '../canvas/canvas.js';
+import {
+	hydrateIslands as hydrateIslandsOnPage,
+	type HydrateIslandsOptions,
+	type IslandModules,
+} from '../canvas/islands.js';
 import { getHydrationData, applyHydratedHead } from '../ssr/hydration.js';
 import {
 	installLifecycleErrorHandler,
@@ -87,7 +92,7 @@ export class BaseEffuseApp {
 	protected layers: LayerInputSource = [];
 	protected readonly rootComponent: Component;
 	private layerRuntime: LayerRuntime | null = null;
-	private mountedCanvas: Canvas | null = null;
+	private mountedCanvas: Pick<Canvas, 'dispose'> | null = null;
 	private activeMountId: number | null = null;
 	private nextMountId = 1;
 	private restoreLifecycleErrorHandler: (() => void) | null = null;
@@ -117,6 +122,37 @@ export class BaseEffuseApp {
 	async mount(
 		selector: string,
 		options: MountOptions = {}
+	): Promise<AppInstance> {
+		return this.start(options, () =>
+			this.resolveHydration(selector, options.hydrate)
+				? hydrateComponent(this.rootComponent, selector)
+				: mountComponent(this.rootComponent, selector)
+		);
+	}
+
+	/**
+	 * Hydrate only the islands on a server-rendered page, each on its own
+	 * trigger, leaving the rest of the page as the server sent it. The page
+	 * must have been rendered with `islands: true`.
+	 *
+	 * `modules` maps paths to island modules, as `import.meta.glob` returns
+	 * them; each island loads the module named after it.
+	 */
+	async hydrateIslands(
+		modules: IslandModules,
+		options: LayerRuntimeOptions & HydrateIslandsOptions = {}
+	): Promise<AppInstance> {
+		return this.start(options, () => hydrateIslandsOnPage(modules, options));
+	}
+
+	/**
+	 * Bring up the layer runtime, then attach the app to the page with
+	 * `attach`. Shared by every way of mounting so each one is torn down the
+	 * same way.
+	 */
+	private async start(
+		options: LayerRuntimeOptions,
+		attach: () => Pick<Canvas, 'dispose'>
 	): Promise<AppInstance> {
 		const resolvedLayers = resolveLayerDefinitions(this.layers);
 		await this.cleanup();
@@ -124,7 +160,6 @@ export class BaseEffuseApp {
 		this.activeMountId = mountId;
 		this.layers = resolvedLayers;
 
-		const shouldHydrate = this.resolveHydration(selector, options.hydrate);
 		const runtimeOptions: LayerRuntimeOptions = options.tracing
 			? { tracing: options.tracing }
 			: {};
@@ -139,9 +174,7 @@ export class BaseEffuseApp {
 				resolvedLayers as AnyResolvedLayer[],
 				runtimeOptions
 			);
-			this.mountedCanvas = shouldHydrate
-				? hydrateComponent(this.rootComponent, selector)
-				: mountComponent(this.rootComponent, selector);
+			this.mountedCanvas = attach();
 		} catch (error) {
 			if (this.activeMountId === mountId) {
 				try {
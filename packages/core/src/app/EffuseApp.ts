@@ -25,6 +25,15 @@
 import { createServerApp, type ServerApp } from '../ssr/server-app.js';
 import { createStreamingHandler } from '../ssr/handler.js';
 import type { RenderResult, ServerAppOptions } from '../ssr/types.js';
+import {
+	planPrerender,
+	renderPrerenderPlan,
+	type PrerenderHandler,
+	type PrerenderPlan,
+	type PrerenderPlanOptions,
+	type PrerenderRenderOptions,
+	type PrerenderResult,
+} from '../ssr/prerender.js';
 import {
 	BaseEffuseApp,
 	type AppInstance,
@@ -46,14 +55,34 @@ export type {
 
 type RequestHandler = ReturnType<typeof createStreamingHandler>;
 
-const snapshotServerOptions = (options: ServerAppOptions): ServerAppOptions =>
+export interface AppPrerenderOptions
+	extends PrerenderPlanOptions,
+		PrerenderRenderOptions {
+	/** Render options for every page, e.g. the client build `manifest`. */
+	readonly server?: ServerAppOptions;
+}
+
+export interface AppRequestOptions extends ServerAppOptions {
+	/**
+	 * Pages prerendered by `effuse build`, answered in place of the render once
+	 * the request has passed the app's server routes.
+	 */
+	readonly prerendered?: PrerenderHandler;
+}
+
+export interface AppPrerenderResult extends PrerenderResult {
+	readonly skipped: PrerenderPlan['skipped'];
+	readonly unmatched: PrerenderPlan['unmatched'];
+}
+
+const snapshotServerOptions = (options: AppRequestOptions): AppRequestOptions =>
 	Object.fromEntries(
 		Object.entries(options).filter(([, value]) => value !== undefined)
-	) as ServerAppOptions;
+	) as AppRequestOptions;
 
 const serverOptionsEqual = (
-	left: ServerAppOptions | undefined,
-	right: ServerAppOptions
+	left: AppRequestOptions | undefined,
+	right: AppRequestOptions
 ): boolean => {
 	if (!left) return false;
 	const leftEntries = Object.entries(left);
@@ -62,13 +91,13 @@ const serverOptionsEqual = (
 	);
 	if (leftEntries.length !== rightEntries.length) return false;
 	return rightEntries.every(([key, value]) =>
-		Object.is(left[key as keyof ServerAppOptions], value)
+		Object.is(left[key as keyof AppRequestOptions], value)
 	);
 };
 
 export class EffuseApp extends BaseEffuseApp {
 	private requestHandler: RequestHandler | undefined;
-	private requestHandlerOptions: ServerAppOptions | undefined;
+	private requestHandlerOptions: AppRequestOptions | undefined;
 
 	override async useLayers(layers: AppLayerSource): Promise<this> {
 		await super.useLayers(layers);
@@ -113,24 +142,44 @@ export class EffuseApp extends BaseEffuseApp {
 
 	/**
 	 * Handle a Fetch API request with layer-owned API routes/actions first,
-	 * then stream the app shell as SSR fallback.
+	 * then stream the app shell as SSR fallback, or serve the page from
+	 * `options.prerendered` when it was prerendered.
 	 */
 	handleRequest(
 		request: Request,
-		options: ServerAppOptions = {}
+		options: AppRequestOptions = {}
 	): Promise<Response> {
 		if (!serverOptionsEqual(this.requestHandlerOptions, options)) {
 			const optionsSnapshot = snapshotServerOptions(options);
+			const { prerendered, ...renderOptions } = optionsSnapshot;
 			this.requestHandler = createStreamingHandler({
 				root: this.rootComponent,
 				layers: this.layers,
-				options: optionsSnapshot,
+				options: renderOptions,
+				...(prerendered ? { prerendered } : {}),
 			});
 			this.requestHandlerOptions = optionsSnapshot;
 		}
 		return this.requestHandler!(request);
 	}
 
+	/**
+	 * Render every page whose merged server policy declares `prerender`.
+	 * Called by `effuse build`, which writes the pages into the client output
+	 * and the manifest next to the server bundle.
+	 */
+	async prerender(
+		options: AppPrerenderOptions = {}
+	): Promise<AppPrerenderResult> {
+		const plan = planPrerender(this.layers, options);
+		const result = await renderPrerenderPlan(
+			this.getServerApp().configure(options.server ?? {}),
+			plan.targets,
+			options
+		);
+		return { ...result, skipped: plan.skipped, unmatched: plan.unmatched };
+	}
+
 	/**
 	 * Get the underlying ServerApp for advanced SSR configuration.
 	 */
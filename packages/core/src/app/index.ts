@@ -30,5 +30,8 @@ export {
 	type LazyAppLayerInput,
 	type AppLayerSource,
 	type AppOptions,
+	type AppPrerenderOptions,
+	type AppRequestOptions,
+	type AppPrerenderResult,
 } from './EffuseApp.js';
 export { createApp } from './createApp.js';
@@ -54,6 +54,7 @@ import type {
 	PropSchemaOutput,
 } from './props.js';
 import { PropsSchemaConflictError } from './props.js';
+import { IslandNameRequiredError, type IslandHydration } from './island.js';
 import { devWarn } from '../utils/dev-warnings.js';
 
 export type TemplateArgs<E extends ExposedValues> = E & {
@@ -135,6 +136,8 @@ export interface DefineOptionsWithInferredProps<
 	layers?: L;
 	script: (ctx: ScriptContext<P, L>) => E | undefined;
 	template: (ctx: TemplateContext<E, P>) => EffuseChild;
+	/** Island hydration trigger. See {@link DefineOptions.hydrate}. */
+	hydrate?: IslandHydration;
 	/** HMR module identifier — injected by the Vite dev plugin. */
 	__hmrId?: string;
 }
@@ -151,6 +154,8 @@ export interface DefineOptionsWithDeclaredProps<
 	layers?: L;
 	script: (ctx: ScriptContext<P, L>) => E | undefined;
 	template: (ctx: TemplateContext<E, P>) => EffuseChild;
+	/** Island hydration trigger. See {@link DefineOptions.hydrate}. */
+	hydrate?: IslandHydration;
 	/** HMR module identifier — injected by the Vite dev plugin. */
 	__hmrId?: string;
 }
@@ -166,6 +171,13 @@ export interface DefineOptions<
 	layers?: L;
 	script: (ctx: ScriptContext<P, L>) => E | undefined;
 	template: (ctx: TemplateContext<E, P>) => EffuseChild;
+	/**
+	 * Render this component as an island: the rest of the page stays static
+	 * HTML, and the client hydrates only islands, each on its own trigger.
+	 * Takes effect when the server renders with `islands: true`; requires
+	 * `name`.
+	 */
+	hydrate?: IslandHydration;
 	/** HMR module identifier — injected by the Vite dev plugin. */
 	__hmrId?: string;
 }
@@ -307,6 +319,10 @@ export function define<P, E extends ExposedValues, L extends LayerSource>(
 	) {
 		throw new PropsSchemaConflictError({ componentName });
 	}
+	const hydrate = (options as { hydrate?: IslandHydration }).hydrate;
+	if (hydrate !== undefined && !options.name) {
+		throw new IslandNameRequiredError({ hydrate });
+	}
 	const propsSchema = (declarationSchema ?? options.propsSchema) as
 		| PropSchemaBuilder<Record<string, unknown>>
 		| undefined;
@@ -322,6 +338,7 @@ export function define<P, E extends ExposedValues, L extends LayerSource>(
 		_tag: 'Blueprint',
 		name: (options as { name?: string }).name,
 		__hmrId: (options as { __hmrId?: string }).__hmrId,
+		hydrate,
 
 		state: (props: P) => {
 			const resolvedProps = resolveProps(props);
@@ -77,6 +77,8 @@ export {
 	type PropSchemaOutput,
 } from './props.js';
 
+export { IslandNameRequiredError, type IslandHydration } from './island.js';
+
 export {
 	Portal,
 	PortalOutlet,
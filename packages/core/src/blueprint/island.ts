@@ -0,0 +1,55 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Data } from 'effect';
+
+/**
+ * When an island hydrates on the client.
+ *
+ * - `load` — as soon as the islands entry runs.
+ * - `idle` — once the browser is idle.
+ * - `visible` — when the island scrolls into view.
+ * - `interaction` — on the first pointer, focus or key event inside it.
+ * - `never` — not at all; the server markup is the component.
+ */
+export type IslandHydration =
+	| 'load'
+	| 'idle'
+	| 'visible'
+	| 'interaction'
+	| 'never';
+
+/**
+ * An island is found on the client by name, so a component opting in without
+ * one could be rendered as an island and never hydrated.
+ */
+export class IslandNameRequiredError extends Data.TaggedError(
+	'IslandNameRequiredError'
+)<{
+	readonly hydrate: IslandHydration;
+}> {
+	get message(): string {
+		return `[Effuse] A component declared with hydrate: '${this.hydrate}' needs a name; islands are matched to their module by it.`;
+	}
+}
@@ -22,9 +22,10 @@
  * SOFTWARE.
  */
 
+export { canvas, mount, hydrate, type Canvas } from './canvas.js';
 export {
-	canvas,
-	mount,
-	hydrate,
-	type Canvas,
-} from './canvas.js';
+	hydrateIslands,
+	type HydrateIslandsOptions,
+	type IslandModules,
+	type IslandsHandle,
+} from './islands.js';
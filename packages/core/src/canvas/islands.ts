@@ -0,0 +1,218 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Predicate } from 'effect';
+import type { BlueprintDef, EffuseChild } from '../render/node.js';
+import { el } from '../render/element.js';
+import { hydrate as hydrateNode } from '../render/index.js';
+import { isBlueprint } from '../blueprint/blueprint.js';
+import { ISLAND_TAG } from '../constants.js';
+import type { IslandHydration } from '../blueprint/island.js';
+import { devError } from '../utils/dev-warnings.js';
+
+/**
+ * Island modules by path, as `import.meta.glob` returns them. An island is
+ * matched to the module whose file name is the island's name.
+ */
+export type IslandModules = Readonly<Record<string, () => Promise<unknown>>>;
+
+export interface HydrateIslandsOptions {
+	/** Where to look for islands. Defaults to `document`. */
+	readonly root?: ParentNode;
+	/** Called when an island fails to load or hydrate. */
+	readonly onError?: (error: unknown, island: string) => void;
+}
+
+export interface IslandsHandle {
+	/** Cancel pending triggers and tear down every hydrated island. */
+	dispose: () => void;
+}
+
+const INTERACTION_EVENTS = [
+	'pointerover',
+	'pointerdown',
+	'focusin',
+	'keydown',
+	'touchstart',
+] as const;
+
+const moduleName = (path: string): string => {
+	const file = path.slice(path.lastIndexOf('/') + 1);
+	const dot = file.indexOf('.');
+	return dot === -1 ? file : file.slice(0, dot);
+};
+
+/**
+ * The island's component in its module: the default export, or the export
+ * whose `name` is the island's.
+ */
+const findComponent = (
+	mod: unknown,
+	name: string
+): BlueprintDef | undefined => {
+	if (!Predicate.isObject(mod)) return undefined;
+	const exports = mod as Record<string, unknown>;
+	if (isBlueprint(exports.default)) return exports.default;
+	return Object.values(exports).find(
+		(value): value is BlueprintDef => isBlueprint(value) && value.name === name
+	);
+};
+
+/**
+ * Run `start` when the island's trigger fires. Returns a function that
+ * cancels a trigger which has not fired yet.
+ */
+const schedule = (
+	element: Element,
+	trigger: IslandHydration,
+	start: () => void
+): (() => void) => {
+	switch (trigger) {
+		case 'never':
+			return () => {};
+		case 'idle': {
+			if (typeof requestIdleCallback === 'function') {
+				const id = requestIdleCallback(start);
+				return () => {
+					cancelIdleCallback(id);
+				};
+			}
+			const id = setTimeout(start, 1);
+			return () => {
+				clearTimeout(id);
+			};
+		}
+		case 'visible': {
+			if (typeof IntersectionObserver === 'undefined') {
+				start();
+				return () => {};
+			}
+			const observer = new IntersectionObserver((entries) => {
+				if (entries.some((entry) => entry.isIntersecting)) {
+					observer.disconnect();
+					start();
+				}
+			});
+			// The wrapper is `display: contents` and has no box of its own, so
+			// observe what it lays out instead.
+			const targets = element.children.length
+				? Array.from(element.children)
+				: [element];
+			for (const target of targets) observer.observe(target);
+			return () => {
+				observer.disconnect();
+			};
+		}
+		case 'interaction': {
+			const fire = (): void => {
+				cancel();
+				start();
+			};
+			const cancel = (): void => {
+				for (const type of INTERACTION_EVENTS) {
+					element.removeEventListener(type, fire, true);
+				}
+			};
+			for (const type of INTERACTION_EVENTS) {
+				element.addEventListener(type, fire, { capture: true, passive: true });
+			}
+			return cancel;
+		}
+		default:
+			start();
+			return () => {};
+	}
+};
+
+const parseProps = (element: Element): Record<string, unknown> => {
+	const raw = element.getAttribute('data-props');
+	return raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+};
+
+/**
+ * Hydrate the islands on a server-rendered page.
+ *
+ * Each `<effuse-island>` the server emitted is hydrated on its own trigger,
+ * with its own module loaded only then; everything outside the islands stays
+ * static HTML. Islands are found once, when this is called.
+ */
+export const hydrateIslands = (
+	modules: IslandModules,
+	options: HydrateIslandsOptions = {}
+): IslandsHandle => {
+	const loaders = new Map<string, () => Promise<unknown>>();
+	for (const [path, load] of Object.entries(modules)) {
+		loaders.set(moduleName(path), load);
+	}
+
+	const onError =
+		options.onError ??
+		((error: unknown, island: string) => {
+			devError(`Island "${island}" failed to hydrate: ${String(error)}`);
+		});
+
+	const cancels: (() => void)[] = [];
+	const cleanups: (() => void)[] = [];
+	let disposed = false;
+
+	const root = options.root ?? document;
+	for (const element of Array.from(root.querySelectorAll(ISLAND_TAG))) {
+		const name = element.getAttribute('data-island') ?? '';
+		const trigger = (element.getAttribute('data-hydrate') ??
+			'load') as IslandHydration;
+		const load = loaders.get(name);
+		if (!load) {
+			onError(new Error(`No module found for island "${name}".`), name);
+			continue;
+		}
+
+		const start = (): void => {
+			load()
+				.then((mod) => {
+					if (disposed) return;
+					const component = findComponent(mod, name);
+					if (!component) {
+						throw new Error(
+							`Module for island "${name}" exports no component.`
+						);
+					}
+					const node = el(component, parseProps(element));
+					cleanups.push(hydrateNode(node as EffuseChild, element));
+				})
+				.catch((error: unknown) => {
+					onError(error, name);
+				});
+		};
+
+		cancels.push(schedule(element, trigger, start));
+	}
+
+	return {
+		dispose: () => {
+			disposed = true;
+			for (const cancel of cancels.splice(0)) cancel();
+			for (const cleanup of cleanups.splice(0)) cleanup();
+		},
+	};
+};
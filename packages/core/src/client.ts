@@ -145,6 +145,8 @@ export {
 	PropSchema,
 	PropsValidationError,
 	PropsSchemaConflictError,
+	IslandNameRequiredError,
+	type IslandHydration,
 	type PropDefinition,
 	type PropValueSchema,
 	type PropSchemaBuilder,
@@ -173,7 +175,16 @@ export {
 	type ProvideScope,
 } from './blueprint/index.js';
 
-export { canvas, mount, hydrate, type Canvas } from './canvas/index.js';
+export {
+	canvas,
+	mount,
+	hydrate,
+	hydrateIslands,
+	type Canvas,
+	type HydrateIslandsOptions,
+	type IslandModules,
+	type IslandsHandle,
+} from './canvas/index.js';
 
 export {
 	defineHook,
@@ -419,6 +430,7 @@ export {
 
 export {
 	getHydrationData,
+	getStreamedBoundaryState,
 	initHydration,
 	checkHydrationMatch,
 	applyHydratedHead,
@@ -547,17 +559,53 @@ export {
 	type TypedRouteCaller,
 	type TypedRouteClient,
 	type TypedRouteClientOptions,
+	type TypedRouteSubscribeOptions,
+	type TypedRouteSubscriber,
 	type TypedRouteError,
 	type TypedRouteInput,
 	type TypedRouteResult,
 } from './ssr/typed-route-client.js';
 
+export type {
+	AnyTypedServerSocket,
+	ServerSocket,
+	ServerSocketCloseEvent,
+	ServerSocketOptions,
+	TypedServerSocket,
+} from './ssr/server-socket.js';
+
+export {
+	connectServerSocket,
+	type ServerSocketConnectOptions,
+	type ServerSocketConnection,
+	type ServerSocketReceiveType,
+	type ServerSocketSendType,
+} from './ssr/socket-client.js';
+
 export {
 	streamResponse,
 	isStreamResponse,
 	type ServerStreamResponse,
 } from './ssr/response-contract.js';
 
+export {
+	eventStreamResponse,
+	isEventStreamResponse,
+	type ServerEventOptions,
+	type ServerEventProducer,
+	type ServerEventStream,
+	type ServerEventStreamOptions,
+	type ServerEventStreamResponse,
+} from './ssr/event-stream.js';
+
+export {
+	subscribeEventStream,
+	DEFAULT_SSE_RETRY_MS,
+	type ServerEventConnect,
+	type ServerEventMessage,
+	type ServerEventSubscriptionOptions,
+} from './ssr/event-stream-client.js';
+
 export {
 	generateOpenApiDocument,
 	type OpenApiDocument,
@@ -197,6 +197,11 @@ export const AsyncBoundary = (props: AsyncBoundaryProps): EffuseNode => {
 	return listNode;
 };
 
+/** Whether `node` is the list node `AsyncBoundary` returns. */
+export const isAsyncBoundaryNode = (node: EffuseNode): boolean =>
+	Predicate.hasProperty(node, '_cache') &&
+	Predicate.hasProperty(node, '_handleError');
+
 export const useAsyncBoundary = (
 	node: EffuseNode
 ): {
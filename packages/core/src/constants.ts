@@ -40,6 +40,8 @@ export const SUSPEND_TOKEN = Symbol.for('effuse/SuspendToken');
 export const BOUNDARY_ID_PREFIX = 'suspense-boundary-';
 
 export const HYDRATION_SCRIPT_ID = '__EFFUSE_DATA__';
+export const BOUNDARY_STATE_ATTRIBUTE = 'data-effuse-boundary';
+export const ISLAND_TAG = 'effuse-island';
 
 type NodeTypeInternal = Data.TaggedEnum<{
 	Element: object;
@@ -57,6 +57,7 @@ export {
 	hydrateAsyncState,
 	clearHydratedAsyncState,
 	type AsyncCollector,
+	type AsyncCollectorOptions,
 	type AsyncCollectorSettleOptions,
 	optimistic,
 	type CommitContext,
@@ -164,6 +165,8 @@ export {
 	PropSchema,
 	PropsValidationError,
 	PropsSchemaConflictError,
+	IslandNameRequiredError,
+	type IslandHydration,
 	type PropDefinition,
 	type PropValueSchema,
 	type PropSchemaBuilder,
@@ -192,7 +195,16 @@ export {
 	type ProvideScope,
 } from './blueprint/index.js';
 
-export { canvas, mount, hydrate, type Canvas } from './canvas/index.js';
+export {
+	canvas,
+	mount,
+	hydrate,
+	hydrateIslands,
+	type Canvas,
+	type HydrateIslandsOptions,
+	type IslandModules,
+	type IslandsHandle,
+} from './canvas/index.js';
 
 export {
 	defineHook,
@@ -322,6 +334,9 @@ export {
 	type LazyAppLayerInput,
 	type AppLayerSource,
 	type AppOptions,
+	type AppPrerenderOptions,
+	type AppRequestOptions,
+	type AppPrerenderResult,
 } from './app/index.js';
 
 export {
@@ -392,7 +407,21 @@ export {
 	createInProcessRouteFetch,
 	streamResponse,
 	isStreamResponse,
+	createEventStreamResponse,
+	eventStreamResponse,
+	formatServerEvent,
+	isEventStreamResponse,
+	subscribeEventStream,
+	DEFAULT_SSE_HEARTBEAT_MS,
+	DEFAULT_SSE_RETRY_MS,
 	isRouteError,
+	createServerSocketResponse,
+	defineServerSocket,
+	isWebSocketUpgradeRequest,
+	takeServerSocketUpgrade,
+	connectServerSocket,
+	EFFUSE_SOCKET_HEADER,
+	SOCKET_CLOSE,
 	generateOpenApiDocument,
 	generateLayerServerClientModule,
 	getLayerClientErrorBody,
@@ -410,6 +439,13 @@ export {
 	runServerRequestPipeline,
 	createResponseCache,
 	createDataCache,
+	createMemoryInvalidationHub,
+	createPrerenderHandler,
+	planPrerender,
+	prerenderFileFor,
+	renderPrerenderPlan,
+	PRERENDER_MANIFEST_FILE,
+	PRERENDER_MANIFEST_VERSION,
 	ServerRewriteLimitError,
 	DEFAULT_MAX_REWRITES,
 	isLayerClientError,
@@ -437,6 +473,7 @@ export {
 	headToHtml,
 	mergeLayerHeads,
 	getHydrationData,
+	getStreamedBoundaryState,
 	initHydration,
 	checkHydrationMatch,
 	cleanupHydrationScript,
@@ -451,6 +488,8 @@ export {
 	type RenderResult,
 	type SSRContext,
 	type ServerAppOptions,
+	type ServerPreload,
+	type ServerPreloadContext,
 	type AssetManifest,
 	type AssetManifestChunk,
 	type HydrationData,
@@ -468,6 +507,7 @@ export {
 	type CompiledServerManifest,
 	type CompiledServerRoute,
 	type CompiledServerAction,
+	type CompiledServerPage,
 	type PolicyProvenanceEntry,
 	type PolicySource,
 	type FoldedPolicy,
@@ -512,6 +552,23 @@ export {
 	type DataCacheOptions,
 	type CacheLife,
 	type CachedOptions,
+	type CacheStore,
+	type CacheInvalidationChannel,
+	type MemoryInvalidationHub,
+	type PrerenderEvent,
+	type PrerenderEventType,
+	type PrerenderHandler,
+	type PrerenderHandlerOptions,
+	type PrerenderManifest,
+	type PrerenderManifestEntry,
+	type PrerenderPageStore,
+	type PrerenderPlan,
+	type PrerenderPlanOptions,
+	type PrerenderRenderOptions,
+	type PrerenderResult,
+	type PrerenderSkippedRoute,
+	type PrerenderTarget,
+	type PrerenderedPage,
 	type ServerMiddlewareTrace,
 	type NormalizedServerMiddlewareMatch,
 	type ServerMiddlewareMatchInput,
@@ -554,13 +611,35 @@ export {
 	type OpenApiDocument,
 	type OpenApiInfo,
 	type ServerStreamResponse,
+	type ServerEventConnect,
+	type ServerEventMessage,
+	type ServerEventOptions,
+	type ServerEventProducer,
+	type ServerEventStream,
+	type ServerEventStreamOptions,
+	type ServerEventStreamResponse,
+	type ServerEventSubscriptionOptions,
 	type TypedRouteCallOptions,
 	type TypedRouteCaller,
 	type TypedRouteClient,
 	type TypedRouteClientOptions,
+	type TypedRouteSubscribeOptions,
+	type TypedRouteSubscriber,
 	type TypedRouteError,
 	type TypedRouteInput,
 	type TypedRouteResult,
+	type AnyTypedServerSocket,
+	type ServerSocket,
+	type ServerSocketCloseEvent,
+	type ServerSocketConnectOptions,
+	type ServerSocketConnection,
+	type ServerSocketHandlers,
+	type ServerSocketOptions,
+	type ServerSocketPeer,
+	type ServerSocketReceiveType,
+	type ServerSocketSendType,
+	type ServerSocketUpgrade,
+	type TypedServerSocket,
 	type ServerRequestDefinition,
 	type ServerRequestOutput,
 	type ServerValidationFailure,
@@ -701,5 +780,6 @@ export {
 // Server render context: a router needs the URL of the render in progress.
 export {
 	getServerRenderUrl,
+	getServerRenderState,
 	isServerRendering,
 } from './render/render-context.js';
@@ -30,6 +30,10 @@ import type {
 	ServerValidationHelpers,
 } from '../ssr/validation.js';
 import type { AnyServerRequestContract } from '../ssr/request-contract.js';
+import type {
+	ServerEventProducer,
+	ServerEventStreamOptions,
+} from '../ssr/event-stream.js';
 import type { Signal } from '../reactivity/signal.js';
 
 export type MaybePromise<T> = T | Promise<T>;
@@ -56,6 +60,12 @@ export interface RouteConfig {
 	readonly children?: readonly RouteConfig[];
 	readonly redirect?: string;
 	readonly beforeEnter?: Guard;
+	/**
+	 * Server policy for the page render. Folded over the owning layer's policy
+	 * chain like an API route's `metadata`; a merged `prerender` marks the page
+	 * for static generation at build time.
+	 */
+	readonly policy?: ServerPolicy;
 }
 
 export interface StoreConfig {
@@ -194,6 +204,14 @@ export interface ServerResponseHelpers {
 		message: string,
 		options?: LayerServerErrorOptions<Details>
 	) => Response;
+	/**
+	 * Streams Server-Sent Events. The stream reads `Last-Event-ID` from the
+	 * request and ends when the client disconnects.
+	 */
+	sse: <T = unknown>(
+		producer: ServerEventProducer<T>,
+		options?: ServerEventStreamOptions<T>
+	) => Response;
 }
 
 /**
@@ -235,10 +235,17 @@ export function asyncComputed<Source, Value>(
 
 	// Adopted before any signal is created, so the computation starts settled with
 	// the server's value rather than flashing a loading state and replacing it.
+	// On the server the ambient collector may carry a seed: a streamed boundary
+	// re-rendering with the values its first pass already waited for.
 	const hydrated =
-		hydrationKey !== undefined && !isServerEnvironment()
-			? takeHydratedValue(hydrationKey)
-			: { found: false, value: undefined };
+		hydrationKey === undefined
+			? { found: false, value: undefined }
+			: isServerEnvironment()
+				? (getAsyncCollector()?.takeSeed(hydrationKey) ?? {
+						found: false,
+						value: undefined,
+					})
+				: takeHydratedValue(hydrationKey);
 
 	const valueSignal = signal<Value | undefined>(
 		hydrated.found ? (hydrated.value as Value) : initialValue
@@ -73,8 +73,24 @@ export interface AsyncCollectorSettleOptions {
 	readonly timeoutMs?: number;
 }
 
+export interface AsyncCollectorOptions {
+	/**
+	 * Values a computation with a matching key adopts instead of loading.
+	 *
+	 * A streamed boundary renders twice: once to find out what it is waiting
+	 * for, and again once that has settled. The second render creates fresh
+	 * computations, and without the first render's values they would start
+	 * loading all over again.
+	 */
+	readonly seed?: Record<string, unknown>;
+}
+
 export interface AsyncCollector {
 	register(entry: CollectableAsyncComputed): void;
+	/** Whether any registered computation is still loading. */
+	hasPending(): boolean;
+	/** Takes a seeded value, consuming it so only the first claimant adopts it. */
+	takeSeed(key: string): { readonly found: boolean; readonly value: unknown };
 	/** Awaits every registered computation, including ones created while awaiting. */
 	settle(options?: AsyncCollectorSettleOptions): Promise<void>;
 	/** The values to embed in the hydration payload. */
@@ -96,8 +112,11 @@ const DEFAULT_TIMEOUT_MS = 10_000;
  */
 const collectorStorage = createAsyncContextStorage<AsyncCollector>();
 
-export const createAsyncCollector = (): AsyncCollector => {
+export const createAsyncCollector = (
+	options: AsyncCollectorOptions = {}
+): AsyncCollector => {
 	const entries = new Map<string, CollectableAsyncComputed>();
+	const seed = new Map(Object.entries(options.seed ?? {}));
 
 	return {
 		register: (entry) => {
@@ -108,6 +127,16 @@ export const createAsyncCollector = (): AsyncCollector => {
 			entries.set(entry.hydrationKey, entry);
 		},
 
+		hasPending: () =>
+			[...entries.values()].some((entry) => entry.isLoading()),
+
+		takeSeed: (key) => {
+			if (!seed.has(key)) return { found: false, value: undefined };
+			const value = seed.get(key);
+			seed.delete(key);
+			return { found: true, value };
+		},
+
 		settle: async (options = {}) => {
 			const maxWaves = options.maxWaves ?? DEFAULT_MAX_WAVES;
 			const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
@@ -56,6 +56,7 @@ export {
 	hydrateAsyncState,
 	runWithAsyncCollector,
 	type AsyncCollector,
+	type AsyncCollectorOptions,
 	type AsyncCollectorSettleOptions,
 	type CollectableAsyncComputed,
 } from './async-hydration.js';
@@ -1,6 +1,7 @@
 import { Data, Predicate } from 'effect';
 import type { Signal } from '../types/index.js';
 import type { ElementProps, Portals, PortalFn } from '../schema/index.js';
+import type { IslandHydration } from '../blueprint/island.js';
 import { EFFUSE_NODE, NodeType } from '../constants.js';
 
 export type { ElementProps, Portals, PortalFn };
@@ -32,6 +33,8 @@ export interface BlueprintDef<P = Record<string, unknown>> {
 	view(context: BlueprintContext<P>): EffuseChild;
 	error?(error: Error): EffuseChild;
 	loading?(): EffuseChild;
+	/** Island hydration trigger; set by `define({ hydrate })`. */
+	readonly hydrate?: IslandHydration | undefined;
 }
 
 type ComponentArgs<P> = keyof P extends never
@@ -10,14 +10,48 @@ import { createRuntimeContext } from '../context/runtime-context.js';
  */
 interface ServerRenderState {
 	readonly url?: string;
+	/** Wrap components declared with `hydrate` as islands. */
+	readonly islands?: boolean;
+	/** Inside an island, which the client hydrates whole, nested ones included. */
+	readonly insideIsland?: boolean;
+	/** The hydration state, already holding what the app's preloads returned. */
+	readonly state?: ReadonlyMap<string, unknown>;
+}
+
+export interface ServerRenderOptions {
+	readonly islands?: boolean;
+	readonly state?: ReadonlyMap<string, unknown>;
 }
 
 const serverRenderContext = createRuntimeContext<ServerRenderState>();
 
 export const runWithServerRenderContext = <T>(
 	render: () => T,
-	url?: string
-): T => serverRenderContext.run({ url }, render);
+	url?: string,
+	options: ServerRenderOptions = {}
+): T =>
+	serverRenderContext.run(
+		{ url, islands: options.islands, state: options.state },
+		render
+	);
+
+/**
+ * Whether a component declared with `hydrate` renders as an island here: the
+ * render has islands on, and is not already inside one. A nested island is
+ * part of its parent's markup, and the parent's hydration covers it.
+ */
+export const shouldRenderIsland = (): boolean => {
+	const state = serverRenderContext.current();
+	return state?.islands === true && state.insideIsland !== true;
+};
+
+/** Runs an island's render so the islands nested in it render inline. */
+export const runInsideIsland = <T>(render: () => T): T => {
+	const state = serverRenderContext.current();
+	return state
+		? serverRenderContext.run({ ...state, insideIsland: true }, render)
+		: render();
+};
 
 export const isServerRendering = (): boolean =>
 	serverRenderContext.current() !== undefined;
@@ -30,3 +64,13 @@ export const isServerRendering = (): boolean =>
  */
 export const getServerRenderUrl = (): string | null =>
 	serverRenderContext.current()?.url ?? null;
+
+/**
+ * A value in the hydration state of the render in progress, or undefined.
+ *
+ * Preloads finish before the render starts, so what they returned is readable
+ * here synchronously — a router adopts its loader data this way instead of
+ * fetching it again mid-render.
+ */
+export const getServerRenderState = (key: string): unknown =>
+	serverRenderContext.current()?.state?.get(key);
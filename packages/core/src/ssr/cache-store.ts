@@ -0,0 +1,199 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Shared backing for the data and response caches.
+ *
+ * Each cache keeps its in-process LRU as a first level. A `CacheStore` adds a
+ * second level every instance reads and writes, and a
+ * `CacheInvalidationChannel` tells every instance when tags are invalidated so
+ * each drops its own first-level copies.
+ *
+ * Tag invalidation in the store uses tag versions rather than a shared tag
+ * index. Each tag has a random token in the store; an entry records the tokens
+ * current when it was written and is served only while they still match.
+ * Invalidating writes new tokens, which needs no read-modify-write and no
+ * agreement between clocks. A token that is missing — never written, expired,
+ * evicted — only ever turns a stored entry into a miss, never into a stale hit.
+ */
+
+/**
+ * The storage a shared cache needs. `EffuseStorage` from `@effuse/server`
+ * satisfies it, so any of its backends can be passed directly, usually under
+ * a namespace of its own.
+ */
+export interface CacheStore {
+	get<Value = unknown>(key: string): Promise<Value | undefined>;
+	set(
+		key: string,
+		value: unknown,
+		options?: { readonly ttlMs?: number }
+	): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * Carries tag invalidations between instances: Redis pub/sub, a Postgres
+ * `NOTIFY` channel, or the in-memory hub below.
+ */
+export interface CacheInvalidationChannel {
+	/** Sends to every other instance. Never delivered to the sender. */
+	publish(tags: readonly string[]): void;
+	/** Registers a handler. Returns an unsubscribe function. */
+	subscribe(handler: (tags: readonly string[]) => void): () => void;
+}
+
+/**
+ * An in-process hub the channels of simulated instances share, for tests.
+ * Each channel created against it is one instance.
+ */
+export interface MemoryInvalidationHub {
+	/** Creates a participant. */
+	connect(): CacheInvalidationChannel & { close(): void };
+	/** How many participants are currently open. */
+	readonly size: () => number;
+	/** Closes every participant. */
+	closeAll(): void;
+}
+
+/** Creates a hub for tests. Delivery is synchronous. */
+export const createMemoryInvalidationHub = (): MemoryInvalidationHub => {
+	interface Participant {
+		readonly handlers: Set<(tags: readonly string[]) => void>;
+		open: boolean;
+	}
+
+	const participants = new Set<Participant>();
+
+	return {
+		connect: () => {
+			const self: Participant = { handlers: new Set(), open: true };
+			participants.add(self);
+
+			return {
+				publish: (tags) => {
+					if (!self.open) return;
+
+					for (const peer of [...participants]) {
+						if (peer === self || !peer.open) continue;
+
+						for (const handler of [...peer.handlers]) {
+							try {
+								handler(tags);
+							} catch {
+								// One failing instance must not keep the rest stale.
+							}
+						}
+					}
+				},
+
+				subscribe: (handler) => {
+					self.handlers.add(handler);
+					return () => {
+						self.handlers.delete(handler);
+					};
+				},
+
+				close: () => {
+					self.open = false;
+					self.handlers.clear();
+					participants.delete(self);
+				},
+			};
+		},
+
+		size: () => participants.size,
+
+		closeAll: () => {
+			for (const participant of participants) {
+				participant.open = false;
+				participant.handlers.clear();
+			}
+			participants.clear();
+		},
+	};
+};
+
+/** Tag tokens recorded with a stored entry, by tag. */
+export type TagVersions = Readonly<Record<string, string>>;
+
+export interface TagVersionStore {
+	/** The current tokens for `tags`, creating any not yet written. */
+	current(tags: readonly string[]): Promise<TagVersions>;
+	/** Whether every token recorded with an entry is still current. */
+	matches(recorded: TagVersions): Promise<boolean>;
+	/** Replaces the tokens for `tags`, invalidating every entry recording them. */
+	bump(tags: readonly string[]): Promise<void>;
+}
+
+const TAG_KEY_PREFIX = 'tag:';
+
+const newToken = (): string => {
+	const webCrypto = (globalThis as { crypto?: { randomUUID?: () => string } })
+		.crypto;
+
+	if (typeof webCrypto?.randomUUID === 'function') {
+		return webCrypto.randomUUID();
+	}
+
+	return `${String(Date.now())}-${Math.random().toString(36).slice(2)}`;
+};
+
+export const createTagVersionStore = (store: CacheStore): TagVersionStore => {
+	const read = (tag: string): Promise<string | undefined> =>
+		store.get<string>(`${TAG_KEY_PREFIX}${tag}`);
+
+	const write = async (tag: string): Promise<string> => {
+		const token = newToken();
+		await store.set(`${TAG_KEY_PREFIX}${tag}`, token);
+		return token;
+	};
+
+	return {
+		async current(tags) {
+			const versions: Record<string, string> = {};
+			await Promise.all(
+				tags.map(async (tag) => {
+					// Two instances creating the same token race harmlessly: the
+					// loser's entries stop matching and are refilled on next read.
+					versions[tag] = (await read(tag)) ?? (await write(tag));
+				})
+			);
+			return versions;
+		},
+
+		async matches(recorded) {
+			const checks = await Promise.all(
+				Object.entries(recorded).map(
+					async ([tag, token]) => (await read(tag)) === token
+				)
+			);
+			return checks.every(Boolean);
+		},
+
+		async bump(tags) {
+			await Promise.all(tags.map(write));
+		},
+	};
+};
@@ -39,12 +39,22 @@
  * - Concurrent cold calls are coalesced into one execution, so an expiring hot
  *   key cannot stampede the datastore.
  *
- * Entries live in this process only, the same boundary a directive-based
- * in-memory cache has. Multi-instance deployments must invalidate each
- * instance or front the cache with a shared store.
+ * Entries live in this process by default, the same boundary a
+ * directive-based in-memory cache has. Multi-instance deployments pass a
+ * `store` every instance shares and an `invalidation` channel, so a value
+ * computed on one instance is served by all of them and invalidating a tag
+ * anywhere invalidates it everywhere.
  */
 
+import { createSingleFlight } from './single-flight.js';
 import { runOutsideSSRContext } from './use-head.js';
+import {
+	createTagVersionStore,
+	type CacheInvalidationChannel,
+	type CacheStore,
+	type TagVersions,
+} from './cache-store.js';
+import { devWarn } from '../utils/dev-warnings.js';
 
 /** Freshness window for a cached value, in seconds. */
 export interface CacheLife {
@@ -73,6 +83,13 @@ export interface CachedOptions<Args extends readonly unknown[]> {
 	 * must stay mutable and are never shared.
 	 */
 	readonly freeze?: boolean;
+	/**
+	 * Stable name for this function's entries, the same on every instance.
+	 * Required to share them through the cache's `store`: without one the
+	 * entries stay in this process, since a generated name would differ
+	 * between instances that create their cached functions in another order.
+	 */
+	readonly name?: string;
 }
 
 export interface DataCacheOptions {
@@ -80,6 +97,19 @@ export interface DataCacheOptions {
 	readonly maxEntries?: number;
 	/** Clock injection point; defaults to `Date.now`. */
 	readonly now?: () => number;
+	/**
+	 * Storage shared by every instance, read when an entry is not in this
+	 * process and written whenever one is computed. Values must survive the
+	 * store's serialisation.
+	 */
+	readonly store?: CacheStore;
+	/** Carries `invalidateTags` to and from the other instances. */
+	readonly invalidation?: CacheInvalidationChannel;
+	/**
+	 * Called when the store fails. The call it belonged to carries on as if
+	 * there were no store: a cache outage must not become an outage.
+	 */
+	readonly onStoreError?: (error: unknown) => void;
 }
 
 export interface DataCache {
@@ -88,12 +118,19 @@ export interface DataCache {
 		fn: (...args: Args) => Promise<Result>,
 		options: CachedOptions<Args>
 	): (...args: Args) => Promise<Result>;
-	/** Drops every entry carrying any of `tags`. */
+	/**
+	 * Drops every entry carrying any of `tags`, here, in the store and, through
+	 * the invalidation channel, on every other instance.
+	 */
 	invalidateTags(tags: readonly string[]): void;
-	/** Drops every entry. */
+	/** Drops every entry in this process. */
 	clear(): void;
-	/** Resolves once background revalidation has settled. */
+	/**
+	 * Resolves once background revalidation and invalidation have settled.
+	 */
 	idle(): Promise<void>;
+	/** Stops receiving invalidations from other instances. */
+	dispose(): void;
 	/** Current entry count. */
 	readonly size: number;
 }
@@ -109,7 +146,24 @@ interface CacheEntry {
 	next: CacheEntry | undefined;
 }
 
+/** An entry as the shared store holds it. */
+interface StoredEntry {
+	readonly value: unknown;
+	readonly freshUntil: number;
+	readonly staleUntil: number;
+	readonly tags: readonly string[];
+	/** Tag tokens current when the value was computed. */
+	readonly versions: TagVersions;
+}
+
+/** A value read on a local miss, and whether it needs refreshing. */
+interface Loaded {
+	readonly value: unknown;
+	readonly stale: boolean;
+}
+
 const DEFAULT_MAX_ENTRIES = 1000;
+const ENTRY_KEY_PREFIX = 'entry:';
 
 /**
  * Stable argument serialisation. Object keys are sorted so `{a,b}` and `{b,a}`
@@ -162,13 +216,20 @@ let cacheSequence = 0;
 export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 	const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
 	const now = options.now ?? Date.now;
+	const sharedStore = options.store;
+	const tagVersions = sharedStore
+		? createTagVersionStore(sharedStore)
+		: undefined;
+	const invalidation = options.invalidation;
+	const onStoreError = options.onStoreError ?? (() => undefined);
+	/** Invalidations still writing to the store before they are announced. */
+	const pendingInvalidations = new Set<Promise<void>>();
 
 	const entries = new Map<string, CacheEntry>();
 	/** Inverted tag index: invalidation costs the affected entries, not a scan. */
 	const tagIndex = new Map<string, Set<string>>();
 	/** In-flight runs for single-flight coalescing. */
-	const inflight = new Map<string, Promise<unknown>>();
-	const background = new Set<Promise<unknown>>();
+	const flights = createSingleFlight();
 
 	// LRU list: `head` is most recently used, `tail` is the eviction candidate.
 	let head: CacheEntry | undefined;
@@ -211,18 +272,18 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 	const store = (
 		key: string,
 		value: unknown,
-		life: CacheLife,
+		freshUntil: number,
+		staleUntil: number,
 		tags: readonly string[]
 	): void => {
 		const existing = entries.get(key);
 		if (existing) remove(existing);
 
-		const timestamp = now();
 		const entry: CacheEntry = {
 			key,
 			value,
-			freshUntil: timestamp + life.stale * 1000,
-			staleUntil: timestamp + (life.stale + (life.expire ?? 0)) * 1000,
+			freshUntil,
+			staleUntil,
 			tags,
 			prev: undefined,
 			next: undefined,
@@ -242,25 +303,53 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 		while (entries.size > maxEntries && tail) remove(tail);
 	};
 
-	/**
-	 * Single-flight: concurrent callers for a key share one execution, and the
-	 * in-flight record is always cleared — including on rejection, so a failure
-	 * never poisons the key.
-	 */
-	const coalesce = <Result>(
-		key: string,
-		run: () => Promise<Result>
-	): Promise<Result> => {
-		const existing = inflight.get(key) as Promise<Result> | undefined;
-		if (existing) return existing;
-
-		const pending = run().finally(() => {
-			inflight.delete(key);
-		});
-		inflight.set(key, pending);
-		return pending;
+	const dropTags = (tags: readonly string[]): void => {
+		for (const tag of tags) {
+			const keys = tagIndex.get(tag);
+			if (!keys) continue;
+			// Copy: remove() mutates the index while we iterate.
+			for (const key of [...keys]) {
+				const entry = entries.get(key);
+				if (entry) remove(entry);
+			}
+			tagIndex.delete(tag);
+		}
+	};
+
+	/** Runs a store operation, reporting a failure and answering `fallback`. */
+	const guard = async <T>(
+		operation: () => Promise<T>,
+		fallback: T
+	): Promise<T> => {
+		try {
+			return await operation();
+		} catch (error) {
+			onStoreError(error);
+			return fallback;
+		}
 	};
 
+	/** A live shared entry whose tags have not been invalidated since. */
+	const readShared = (key: string): Promise<StoredEntry | undefined> =>
+		guard(async () => {
+			const stored = await sharedStore!.get<StoredEntry>(
+				`${ENTRY_KEY_PREFIX}${key}`
+			);
+			if (!stored || now() >= stored.staleUntil) return undefined;
+			return (await tagVersions!.matches(stored.versions)) ? stored : undefined;
+		}, undefined);
+
+	const writeShared = (key: string, entry: StoredEntry): Promise<void> =>
+		guard(async () => {
+			const ttlMs = entry.staleUntil - now();
+			// Already past serving. The store reads a non-positive ttl as no
+			// expiry, so writing it would keep a dead entry forever.
+			if (ttlMs <= 0) return;
+			await sharedStore!.set(`${ENTRY_KEY_PREFIX}${key}`, entry, { ttlMs });
+		}, undefined);
+
+	const unsubscribe = invalidation?.subscribe(dropTags);
+
 	const cache: DataCache = {
 		cached<Args extends readonly unknown[], Result>(
 			fn: (...args: Args) => Promise<Result>,
@@ -268,9 +357,15 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 		): (...args: Args) => Promise<Result> {
 			// Namespace by wrapper instance so two functions sharing an argument
 			// shape never collide on one key.
-			const namespace = `fn${String((cacheSequence += 1))}`;
-			const { life, tags, key: keyFn } = cachedOptions;
+			const { life, tags, key: keyFn, name } = cachedOptions;
+			const namespace = name ?? `fn${String((cacheSequence += 1))}`;
 			const shouldFreeze = cachedOptions.freeze !== false;
+			const shared = sharedStore !== undefined && name !== undefined;
+			if (sharedStore && name === undefined) {
+				devWarn(
+					'A cached() function without a name is not shared through the data cache store; give it one stable across instances.'
+				);
+			}
 
 			const resolveTags = (args: Args): readonly string[] =>
 				typeof tags === 'function' ? tags(...args) : (tags ?? []);
@@ -287,6 +382,47 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 				return value;
 			};
 
+			/** Computes the value and stores it here and, when shared, in the store. */
+			const fill = async (key: string, args: Args): Promise<Result> => {
+				const entryTags = resolveTags(args);
+				// Read before computing: an invalidation landing mid-computation
+				// then leaves the entry recording the tokens it replaced.
+				const versions = shared
+					? await guard(() => tagVersions!.current(entryTags), undefined)
+					: undefined;
+				const value = await execute(args);
+				const timestamp = now();
+				const freshUntil = timestamp + life.stale * 1000;
+				const staleUntil = timestamp + (life.stale + (life.expire ?? 0)) * 1000;
+				store(key, value, freshUntil, staleUntil, entryTags);
+				if (versions) {
+					await writeShared(key, {
+						value,
+						freshUntil,
+						staleUntil,
+						tags: entryTags,
+						versions,
+					});
+				}
+				return value;
+			};
+
+			/** A local miss: the shared entry when there is one, else a new value. */
+			const load = async (key: string, args: Args): Promise<Loaded> => {
+				const stored = shared ? await readShared(key) : undefined;
+				if (!stored) return { value: await fill(key, args), stale: false };
+
+				if (shouldFreeze) deepFreeze(stored.value, new WeakSet<object>());
+				store(
+					key,
+					stored.value,
+					stored.freshUntil,
+					stored.staleUntil,
+					stored.tags
+				);
+				return { value: stored.value, stale: now() >= stored.freshUntil };
+			};
+
 			return (...args: Args): Promise<Result> => {
 				const argKey = keyFn ? keyFn(...args) : stableKey(args);
 				const key = `${namespace}:${argKey}`;
@@ -302,39 +438,38 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 						touch(entry);
 						// Refresh behind the stale serve, coalesced so a burst of
 						// stale reads triggers exactly one run.
-						if (!inflight.has(key)) {
-							const refresh = coalesce(key, async () => {
-								const value = await execute(args);
-								store(key, value, life, resolveTags(args));
-								return value;
-							}).catch(() => undefined);
-							background.add(refresh);
-							void refresh.finally(() => background.delete(refresh));
-						}
+						flights.refresh(key, () => fill(key, args));
 						return Promise.resolve(entry.value as Result);
 					}
 					remove(entry);
 				}
 
-				return coalesce(key, async () => {
-					const value = await execute(args);
-					store(key, value, life, resolveTags(args));
-					return value;
-				});
+				return flights
+					.run(key, () => load(key, args))
+					.then((loaded) => {
+						// Stale in the store: serve it, and refresh behind it once the
+						// load has left the flight the refresh coalesces on.
+						if (loaded.stale) flights.refresh(key, () => fill(key, args));
+						return loaded.value as Result;
+					});
 			};
 		},
 
 		invalidateTags(tags) {
-			for (const tag of tags) {
-				const keys = tagIndex.get(tag);
-				if (!keys) continue;
-				// Copy: remove() mutates the index while we iterate.
-				for (const key of [...keys]) {
-					const entry = entries.get(key);
-					if (entry) remove(entry);
-				}
-				tagIndex.delete(tag);
+			dropTags(tags);
+			if (!tagVersions) {
+				invalidation?.publish(tags);
+				return;
 			}
+			// Announced only once the store has the new tokens: a peer dropping
+			// its copy sooner could refill it from the store's stale entry.
+			const pending = guard(() => tagVersions.bump(tags), undefined).then(
+				() => {
+					invalidation?.publish(tags);
+				}
+			);
+			pendingInvalidations.add(pending);
+			void pending.finally(() => pendingInvalidations.delete(pending));
 		},
 
 		clear() {
@@ -345,9 +480,12 @@ export const createDataCache = (options: DataCacheOptions = {}): DataCache => {
 		},
 
 		async idle() {
-			while (background.size > 0) {
-				await Promise.allSettled([...background]);
-			}
+			await Promise.all([...pendingInvalidations]);
+			await flights.idle();
+		},
+
+		dispose() {
+			unsubscribe?.();
 		},
 
 		get size() {
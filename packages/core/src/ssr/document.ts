@@ -217,6 +217,20 @@ export const appendBodyTail = (
 	return `${template}${bodyTailHtml}`;
 };
 
+/**
+ * Split `html` where {@link appendBodyTail} would insert, so a streamed
+ * response can send what precedes the insertion point before the inserted
+ * content is known. `before + x + after` equals `appendBodyTail(html, x)`.
+ */
+export const splitAtBodyTail = (
+	html: string
+): { readonly before: string; readonly after: string } => {
+	let index = html.indexOf('</body>');
+	if (index === -1) index = html.indexOf('</html>');
+	if (index === -1) index = html.length;
+	return { before: html.slice(0, index), after: html.slice(index) };
+};
+
 /**
  * Render the app into a user-supplied HTML template.
  *
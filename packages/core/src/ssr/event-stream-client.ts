@@ -0,0 +1,210 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/** Reconnection delay used until the server sends a `retry` field. */
+export const DEFAULT_SSE_RETRY_MS = 1_000;
+
+/** One event received from a Server-Sent Events stream. */
+export interface ServerEventMessage<T> {
+	readonly data: T;
+	/** The event name; `message` when the server gave none. */
+	readonly event: string;
+	/** The last event id the stream had set when this event arrived. */
+	readonly id: string | undefined;
+}
+
+export interface ServerEventSubscriptionOptions {
+	/** Ends the subscription when aborted. */
+	readonly signal?: AbortSignal;
+	/** Resumes after this id, as if reconnecting. */
+	readonly lastEventId?: string;
+	/** Delay before reconnecting until the server sends its own `retry`. */
+	readonly retryMs?: number;
+	/** Whether to reconnect when the stream ends or drops; defaults to `true`. */
+	readonly reconnect?: boolean;
+}
+
+/**
+ * Opens one connection. It is passed the headers to send (`Accept` and, on a
+ * reconnect, `Last-Event-ID`) and resolves to a successful response, throwing
+ * for any failure that should end the subscription.
+ */
+export type ServerEventConnect = (
+	headers: Headers,
+	signal: AbortSignal
+) => Promise<Response>;
+
+interface ParsedServerEvent {
+	readonly data: string;
+	readonly event: string;
+	readonly id: string | undefined;
+}
+
+/** An incremental `text/event-stream` parser, per the HTML specification. */
+const createEventParser = (
+	lastEventId: string | undefined,
+	onEvent: (event: ParsedServerEvent) => void,
+	onRetry: (ms: number) => void
+) => {
+	let pending = '';
+	let data: string[] = [];
+	let event = '';
+	let id = lastEventId;
+	// Only a dispatched event moves the resume point; an `id:` line alone
+	// belongs to an event that may never finish arriving.
+	let dispatchedId = lastEventId;
+
+	const line = (text: string): void => {
+		if (text === '') {
+			dispatchedId = id;
+			if (data.length > 0) {
+				onEvent({ data: data.join('\n'), event: event || 'message', id });
+			}
+			data = [];
+			event = '';
+			return;
+		}
+		if (text.startsWith(':')) return;
+		const colon = text.indexOf(':');
+		const field = colon === -1 ? text : text.slice(0, colon);
+		let value = colon === -1 ? '' : text.slice(colon + 1);
+		if (value.startsWith(' ')) value = value.slice(1);
+		if (field === 'data') data.push(value);
+		else if (field === 'event') event = value;
+		else if (field === 'id' && !value.includes('\0')) id = value;
+		else if (field === 'retry' && /^\d+$/.test(value)) onRetry(Number(value));
+	};
+
+	return {
+		feed(chunk: string): void {
+			pending += chunk;
+			const lines = pending.split(/\r\n|\r|\n/);
+			pending = lines.pop() ?? '';
+			for (const text of lines) line(text);
+		},
+		get lastEventId(): string | undefined {
+			return dispatchedId;
+		},
+	};
+};
+
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+	new Promise((resolve) => {
+		if (signal.aborted) {
+			resolve();
+			return;
+		}
+		const done = (): void => {
+			clearTimeout(timer);
+			signal.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener('abort', done, { once: true });
+	});
+
+async function* readEventStream<T>(
+	connect: ServerEventConnect,
+	options: ServerEventSubscriptionOptions
+): AsyncGenerator<ServerEventMessage<T>> {
+	const controller = new AbortController();
+	const stop = (): void => {
+		controller.abort();
+	};
+	options.signal?.addEventListener('abort', stop, { once: true });
+	if (options.signal?.aborted) stop();
+	let lastEventId = options.lastEventId;
+	let retryMs = options.retryMs ?? DEFAULT_SSE_RETRY_MS;
+
+	try {
+		while (!controller.signal.aborted) {
+			const headers = new Headers({ Accept: 'text/event-stream' });
+			if (lastEventId !== undefined) headers.set('Last-Event-ID', lastEventId);
+
+			let response: Response;
+			try {
+				response = await connect(headers, controller.signal);
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				throw error;
+			}
+			// 204 is the server's way of saying there is nothing more to resume.
+			if (response.status === 204 || !response.body) return;
+
+			const received: ParsedServerEvent[] = [];
+			const parser = createEventParser(
+				lastEventId,
+				(event) => received.push(event),
+				(ms) => {
+					retryMs = ms;
+				}
+			);
+			const reader = response.body
+				.pipeThrough(new TextDecoderStream())
+				.getReader();
+			try {
+				for (;;) {
+					const { done, value } = await reader.read();
+					if (done) break;
+					parser.feed(value);
+					for (const event of received.splice(0)) {
+						let data: T;
+						try {
+							data = JSON.parse(event.data) as T;
+						} catch {
+							continue;
+						}
+						yield { data, event: event.event, id: event.id };
+					}
+					// Every event dispatched so far has been handed over.
+					lastEventId = parser.lastEventId;
+				}
+			} catch {
+				// A dropped connection is resumed below, like a clean end.
+			} finally {
+				void reader.cancel().catch(() => undefined);
+			}
+
+			if (options.reconnect === false) return;
+			await wait(retryMs, controller.signal);
+		}
+	} finally {
+		options.signal?.removeEventListener('abort', stop);
+		stop();
+	}
+}
+
+/**
+ * Subscribes to a Server-Sent Events stream as an async iterable of parsed
+ * JSON events. When the stream ends or drops it reconnects after the retry
+ * delay, sending the last event id so the server can resume; a 204 ends the
+ * subscription, as does breaking out of the loop. Events whose data is not
+ * JSON are skipped.
+ */
+export const subscribeEventStream = <T>(
+	connect: ServerEventConnect,
+	options: ServerEventSubscriptionOptions = {}
+): AsyncIterable<ServerEventMessage<T>> => ({
+	[Symbol.asyncIterator]: () => readEventStream<T>(connect, options),
+});
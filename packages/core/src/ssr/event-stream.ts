@@ -0,0 +1,250 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { MaybePromise } from '../layers/types.js';
+import {
+	streamResponse,
+	type ServerStreamResponse,
+} from './response-contract.js';
+import { validateServerValue, type ServerValidator } from './validation.js';
+
+const SERVER_EVENT_STREAM = Symbol.for('effuse.server.eventStream');
+
+/** Default interval between heartbeat comments, in milliseconds. */
+export const DEFAULT_SSE_HEARTBEAT_MS = 15_000;
+
+/**
+ * A response contract for Server-Sent Events. It is a streaming contract, so
+ * the response passes through untouched and a plain client call still
+ * resolves to the raw `Response`; the `events` validator types the client's
+ * `subscribe()` instead.
+ *
+ * ```ts
+ * defineServerRoute({
+ *   path: '/api/jobs/:id/progress',
+ *   request: defineServerRequest({}),
+ *   response: serverSchema.eventStream(progressSchema),
+ *   GET: (ctx) =>
+ *     ctx.response.sse((stream) => watchJob(ctx.params.id, stream.send), {
+ *       events: progressSchema,
+ *     }),
+ * });
+ * ```
+ */
+export type ServerEventStreamResponse<T> = ServerStreamResponse & {
+	readonly [SERVER_EVENT_STREAM]: true;
+	readonly events: ServerValidator<T>;
+};
+
+/** Declare an event-stream response contract whose events match `events`. */
+export const eventStreamResponse = <T>(
+	events: ServerValidator<T>
+): ServerEventStreamResponse<T> => ({
+	...streamResponse(),
+	[SERVER_EVENT_STREAM]: true,
+	events,
+});
+
+/** Narrow a route's `response` to the event-stream contract marker. */
+export const isEventStreamResponse = (
+	value: unknown
+): value is ServerEventStreamResponse<unknown> =>
+	typeof value === 'object' && value !== null && SERVER_EVENT_STREAM in value;
+
+export interface ServerEventOptions {
+	/** Stored by the client and sent back as `Last-Event-ID` when it reconnects. */
+	readonly id?: string;
+	/** The event name; omitted events are `message`. */
+	readonly event?: string;
+}
+
+/** The handle a producer writes events through. */
+export interface ServerEventStream<T> {
+	/** Validates `data` when the stream has an `events` schema, then sends it as JSON. */
+	send(data: T, options?: ServerEventOptions): void;
+	/** Sends a comment line, which clients ignore. */
+	comment(text: string): void;
+	/** Ends the stream. The client will reconnect unless told otherwise. */
+	close(): void;
+	/** The `Last-Event-ID` the client reconnected with, if any. */
+	readonly lastEventId: string | undefined;
+	/** Aborts when the stream ends, including when the client disconnects. */
+	readonly signal: AbortSignal;
+}
+
+/**
+ * Writes events to a stream. The stream ends when the producer settles,
+ * unless it returns a cleanup function: then the stream stays open until
+ * `close()` or a client disconnect, and the cleanup runs at that point.
+ */
+export type ServerEventProducer<T> = (
+	stream: ServerEventStream<T>
+) => MaybePromise<void | (() => MaybePromise<void>)>;
+
+export interface ServerEventStreamOptions<T> {
+	/** Validates every event before it is sent, failing closed like a response contract. */
+	readonly events?: ServerValidator<T>;
+	/** Interval between heartbeat comments; `0` disables them. */
+	readonly heartbeatMs?: number;
+	/** Reconnection delay the client should use, sent as the `retry` field. */
+	readonly retryMs?: number;
+	readonly headers?: HeadersInit;
+}
+
+/** Encodes one event in the `text/event-stream` wire format. */
+export const formatServerEvent = (
+	data: string,
+	options: ServerEventOptions = {}
+): string => {
+	let frame = '';
+	if (options.id !== undefined) frame += `id: ${stripNewlines(options.id)}\n`;
+	if (options.event !== undefined) {
+		frame += `event: ${stripNewlines(options.event)}\n`;
+	}
+	for (const line of data.split(/\r\n|\r|\n/)) {
+		frame += `data: ${line}\n`;
+	}
+	return `${frame}\n`;
+};
+
+/** Field values cannot span lines; a newline would start a new field. */
+const stripNewlines = (value: string): string => value.replace(/[\r\n]/g, '');
+
+/**
+ * Creates a `text/event-stream` response driven by `producer`. Heartbeats
+ * keep idle proxies from closing the connection, and everything is torn down
+ * once when the stream ends, the producer fails, or the client goes away. A
+ * producer failure is reported to `console.error`.
+ */
+export const createEventStreamResponse = <T>(
+	request: Request,
+	producer: ServerEventProducer<T>,
+	options: ServerEventStreamOptions<T> = {}
+): Response => {
+	const encoder = new TextEncoder();
+	const controller = new AbortController();
+	const heartbeatMs = options.heartbeatMs ?? DEFAULT_SSE_HEARTBEAT_MS;
+	let sink: ReadableStreamDefaultController<Uint8Array> | undefined;
+	let heartbeat: ReturnType<typeof setInterval> | undefined;
+	let cleanup: (() => MaybePromise<void>) | undefined;
+	let ended = false;
+
+	const write = (chunk: string): void => {
+		if (ended || !sink) return;
+		try {
+			sink.enqueue(encoder.encode(chunk));
+		} catch {
+			end();
+		}
+	};
+
+	const end = (): void => {
+		if (ended) return;
+		ended = true;
+		clearInterval(heartbeat);
+		request.signal.removeEventListener('abort', end);
+		controller.abort();
+		try {
+			sink?.close();
+		} catch {
+			// Already closed by a cancelled reader.
+		}
+		const disposer = cleanup;
+		cleanup = undefined;
+		// Cleanup errors are isolated, as request disposers are.
+		void Promise.resolve()
+			.then(() => disposer?.())
+			.catch(() => undefined);
+	};
+
+	const lastEventId = request.headers.get('last-event-id') ?? undefined;
+	const stream: ServerEventStream<T> = {
+		send(data, eventOptions) {
+			if (ended) return;
+			const value = options.events
+				? validateServerValue('value', data, options.events)
+				: data;
+			write(formatServerEvent(JSON.stringify(value), eventOptions));
+		},
+		comment(text) {
+			write(`: ${stripNewlines(text)}\n\n`);
+		},
+		close: end,
+		lastEventId,
+		signal: controller.signal,
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(current) {
+			sink = current;
+			if (request.signal.aborted) {
+				end();
+				return;
+			}
+			request.signal.addEventListener('abort', end, { once: true });
+			if (options.retryMs !== undefined) {
+				write(`retry: ${String(Math.max(0, Math.floor(options.retryMs)))}\n\n`);
+			}
+			if (heartbeatMs > 0) {
+				heartbeat = setInterval(() => {
+					write(':\n\n');
+				}, heartbeatMs);
+				(heartbeat as { unref?: () => void }).unref?.();
+			}
+			void Promise.resolve()
+				.then(() => producer(stream))
+				.then(
+					(result) => {
+						if (typeof result === 'function' && !ended) {
+							cleanup = result;
+						} else {
+							if (typeof result === 'function') {
+								void Promise.resolve()
+									.then(result)
+									.catch(() => undefined);
+							}
+							end();
+						}
+					},
+					(error: unknown) => {
+						// The client only sees the stream end, as if it finished;
+						// the failure is reported here so it is not lost.
+						// eslint-disable-next-line no-console
+						console.error('[effuse] Event stream producer failed:', error);
+						end();
+					}
+				);
+		},
+		cancel() {
+			end();
+		},
+	});
+
+	const headers = new Headers(options.headers);
+	headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+	if (!headers.has('Cache-Control')) headers.set('Cache-Control', 'no-cache');
+	// Stops nginx and similar proxies from buffering the stream.
+	headers.set('X-Accel-Buffering', 'no');
+	return new Response(body, { status: 200, headers });
+};
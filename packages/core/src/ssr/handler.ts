@@ -31,6 +31,7 @@ import {
 } from '../layers/api/defineLayer.js';
 import type { RequestContext, ServerAppOptions } from './types.js';
 import type { ServerTraceEvent } from './observability.js';
+import type { PrerenderHandler } from './prerender.js';
 import { createServerApp } from './server-app.js';
 import { RenderError, createErrorHtml } from './errors.js';
 import { createHash } from 'node:crypto';
@@ -69,6 +70,13 @@ export interface HandlerConfig {
 	cacheNoStore?: boolean;
 	/** Literal `Cache-Control` value, overriding every option above. */
 	cacheControl?: string;
+	/**
+	 * Pages prerendered at build time, served in place of the render. They are
+	 * answered only once the request has been through the transform and the
+	 * server routes, exactly where a render would be, so serving a page from
+	 * a file skips nothing a rendered one would have gone through.
+	 */
+	prerendered?: PrerenderHandler;
 	/** Optional error handler for logging/monitoring. Called before returning 500. */
 	onError?: (error: unknown, request: Request) => void;
 	onServerTrace?: (event: ServerTraceEvent) => void;
@@ -132,72 +140,77 @@ export const createHandler = (config: HandlerConfig) => {
 		.useLayers(layers)
 		.configure(config.options ?? {});
 
+	const renderPage = async (req: Request): Promise<Response> => {
+		const url = new URL(req.url);
+		// Path plus query: a router resolving the render needs the search
+		// string, and passing the pathname alone dropped it before routing
+		// could see it.
+		const renderTarget = `${url.pathname}${url.search}`;
+
+		let html: string;
+		try {
+			html = (await serverApp.renderToString(renderTarget)).html;
+		} catch (error) {
+			if (!(error instanceof RenderError)) throw error;
+			reportError(config, error, req, 'Render');
+			return new Response(createErrorHtml(error), {
+				status: 500,
+				headers: {
+					'Content-Type': 'text/html; charset=utf-8',
+					'Cache-Control': 'no-store',
+					'X-Content-Type-Options': 'nosniff',
+				},
+			});
+		}
+
+		// Compute ETag from content hash
+		const hash = createHash('md5').update(html).digest('hex');
+		const etag = `"${hash}"`;
+
+		// Check If-None-Match for conditional requests
+		if (ifNoneMatchSatisfied(req.headers.get('If-None-Match'), etag)) {
+			// RFC 7232 4.1: a 304 carries the header fields it would have
+			// sent with a 200. Without Cache-Control a shared cache learns
+			// the entry is still good but gets no directive to refresh its
+			// lifetime with, so it revalidates again on the next request.
+			return new Response(null, {
+				status: 304,
+				headers: { ETag: etag, 'Cache-Control': resolveCacheControl(config) },
+			});
+		}
+
+		const cacheControl = resolveCacheControl(config);
+
+		return new Response(html, {
+			status: 200,
+			headers: {
+				'Content-Type': 'text/html; charset=utf-8',
+				'Content-Length': String(new TextEncoder().encode(html).byteLength),
+				'Cache-Control': cacheControl,
+				ETag: etag,
+				'X-Content-Type-Options': 'nosniff',
+			},
+		});
+	};
+
 	return async (request: Request): Promise<Response> => {
 		let req = request;
 		try {
 			req = config.transform ? config.transform(request) : request;
 
-			const url = new URL(req.url);
-			const pathname = url.pathname;
-			// Path plus query: a router resolving the render needs the search
-			// string, and passing the pathname alone dropped it before routing
-			// could see it.
-			const renderTarget = `${pathname}${url.search}`;
-
 			const serverDispatch = dispatchServerRequest?.(req, config);
 			if (serverDispatch) {
 				const serverResponse = await serverDispatch;
 				if (serverResponse) return serverResponse;
 			}
 
-			if (shouldSkip(pathname)) {
+			if (shouldSkip(new URL(req.url).pathname)) {
 				return new Response(null, { status: 404 });
 			}
 
-			let html: string;
-			try {
-				html = (await serverApp.renderToString(renderTarget)).html;
-			} catch (error) {
-				if (!(error instanceof RenderError)) throw error;
-				reportError(config, error, req, 'Render');
-				return new Response(createErrorHtml(error), {
-					status: 500,
-					headers: {
-						'Content-Type': 'text/html; charset=utf-8',
-						'Cache-Control': 'no-store',
-						'X-Content-Type-Options': 'nosniff',
-					},
-				});
-			}
-
-			// Compute ETag from content hash
-			const hash = createHash('md5').update(html).digest('hex');
-			const etag = `"${hash}"`;
-
-			// Check If-None-Match for conditional requests
-			if (ifNoneMatchSatisfied(req.headers.get('If-None-Match'), etag)) {
-				// RFC 7232 4.1: a 304 carries the header fields it would have
-				// sent with a 200. Without Cache-Control a shared cache learns
-				// the entry is still good but gets no directive to refresh its
-				// lifetime with, so it revalidates again on the next request.
-				return new Response(null, {
-					status: 304,
-					headers: { ETag: etag, 'Cache-Control': resolveCacheControl(config) },
-				});
-			}
-
-			const cacheControl = resolveCacheControl(config);
-
-			return new Response(html, {
-				status: 200,
-				headers: {
-					'Content-Type': 'text/html; charset=utf-8',
-					'Content-Length': String(new TextEncoder().encode(html).byteLength),
-					'Cache-Control': cacheControl,
-					ETag: etag,
-					'X-Content-Type-Options': 'nosniff',
-				},
-			});
+			return await (config.prerendered
+				? config.prerendered.handle(req, renderPage)
+				: renderPage(req));
 		} catch (error) {
 			reportError(config, error, req, 'Render');
 			return new Response(
@@ -229,41 +242,46 @@ export const createStreamingHandler = (config: HandlerConfig) => {
 		.useLayers(layers)
 		.configure(config.options ?? {});
 
+	const renderPage = async (req: Request): Promise<Response> => {
+		const url = new URL(req.url);
+		// Path plus query: a router resolving the render needs the search
+		// string, and passing the pathname alone dropped it before routing
+		// could see it.
+		const stream = await serverApp.renderToStream(
+			`${url.pathname}${url.search}`
+		);
+
+		// No ETag: the body is not known when the headers go out, so there
+		// is nothing to hash and a wrong one is worse than none.
+		return new Response(stream as unknown as BodyInit, {
+			status: 200,
+			headers: {
+				'Content-Type': 'text/html; charset=utf-8',
+				'Transfer-Encoding': 'chunked',
+				'Cache-Control': resolveCacheControl(config),
+				'X-Content-Type-Options': 'nosniff',
+			},
+		});
+	};
+
 	return async (request: Request): Promise<Response> => {
 		let req = request;
 		try {
 			req = config.transform ? config.transform(request) : request;
 
-			const url = new URL(req.url);
-			const pathname = url.pathname;
-			// Path plus query: a router resolving the render needs the search
-			// string, and passing the pathname alone dropped it before routing
-			// could see it.
-			const renderTarget = `${pathname}${url.search}`;
-
 			const serverDispatch = dispatchServerRequest?.(req, config);
 			if (serverDispatch) {
 				const serverResponse = await serverDispatch;
 				if (serverResponse) return serverResponse;
 			}
 
-			if (shouldSkip(pathname)) {
+			if (shouldSkip(new URL(req.url).pathname)) {
 				return new Response(null, { status: 404 });
 			}
 
-			const stream = await serverApp.renderToStream(renderTarget);
-
-			// No ETag: the body is not known when the headers go out, so there
-			// is nothing to hash and a wrong one is worse than none.
-			return new Response(stream as unknown as BodyInit, {
-				status: 200,
-				headers: {
-					'Content-Type': 'text/html; charset=utf-8',
-					'Transfer-Encoding': 'chunked',
-					'Cache-Control': resolveCacheControl(config),
-					'X-Content-Type-Options': 'nosniff',
-				},
-			});
+			return await (config.prerendered
+				? config.prerendered.handle(req, renderPage)
+				: renderPage(req));
 		} catch (error) {
 			reportError(config, error, req, 'Streaming render');
 			return new Response(
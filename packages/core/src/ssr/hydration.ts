@@ -24,7 +24,7 @@
 
 import { Predicate } from 'effect';
 import type { HeadProps } from './types.js';
-import { HYDRATION_SCRIPT_ID } from '../constants.js';
+import { BOUNDARY_STATE_ATTRIBUTE, HYDRATION_SCRIPT_ID } from '../constants.js';
 
 export { HYDRATION_SCRIPT_ID };
 
@@ -85,6 +85,33 @@ export const getHydrationData = (): HydrationData | null => {
 	}
 };
 
+/**
+ * The async state streamed with out-of-order boundaries, merged across them.
+ *
+ * Each boundary resolved after the shell carries the values its render
+ * produced in its own payload. Pass the result to `hydrateAsyncState` before
+ * hydrating, so computations inside those boundaries start settled instead of
+ * refetching what the server already loaded. A payload that fails to parse is
+ * skipped; its computations simply load on the client.
+ */
+export const getStreamedBoundaryState = (): Record<string, unknown> => {
+	const state: Record<string, unknown> = {};
+	if (typeof document === 'undefined') return state;
+
+	const scripts = document.querySelectorAll(
+		`script[type="application/json"][${BOUNDARY_STATE_ATTRIBUTE}]`
+	);
+	for (const script of Array.from(scripts)) {
+		try {
+			const parsed: unknown = JSON.parse(script.textContent ?? '');
+			if (Predicate.isRecord(parsed)) Object.assign(state, parsed);
+		} catch {
+			continue;
+		}
+	}
+	return state;
+};
+
 /**
  * Whether two state objects carry the same content.
  *
@@ -32,6 +32,8 @@ export type {
 	RenderResult,
 	SSRContext,
 	ServerAppOptions,
+	ServerPreload,
+	ServerPreloadContext,
 	AssetManifest,
 	AssetManifestChunk,
 	RequestContext,
@@ -148,6 +150,7 @@ export {
 	compileServerPolicyFromLayers,
 	type CompiledServerAction,
 	type CompiledServerManifest,
+	type CompiledServerPage,
 	type CompiledServerRoute,
 } from './policy-compiler.js';
 
@@ -291,11 +294,38 @@ export {
 	type TypedRouteCaller,
 	type TypedRouteClient,
 	type TypedRouteClientOptions,
+	type TypedRouteSubscribeOptions,
+	type TypedRouteSubscriber,
 	type TypedRouteError,
 	type TypedRouteInput,
 	type TypedRouteResult,
 } from './typed-route-client.js';
 
+export {
+	createServerSocketResponse,
+	defineServerSocket,
+	isWebSocketUpgradeRequest,
+	takeServerSocketUpgrade,
+	EFFUSE_SOCKET_HEADER,
+	SOCKET_CLOSE,
+	type AnyTypedServerSocket,
+	type ServerSocket,
+	type ServerSocketCloseEvent,
+	type ServerSocketHandlers,
+	type ServerSocketOptions,
+	type ServerSocketPeer,
+	type ServerSocketUpgrade,
+	type TypedServerSocket,
+} from './server-socket.js';
+
+export {
+	connectServerSocket,
+	type ServerSocketConnectOptions,
+	type ServerSocketConnection,
+	type ServerSocketReceiveType,
+	type ServerSocketSendType,
+} from './socket-client.js';
+
 export {
 	createInProcessRouteFetch,
 	type InProcessRouteFetchOptions,
@@ -307,6 +337,27 @@ export {
 	type ServerStreamResponse,
 } from './response-contract.js';
 
+export {
+	createEventStreamResponse,
+	eventStreamResponse,
+	formatServerEvent,
+	isEventStreamResponse,
+	DEFAULT_SSE_HEARTBEAT_MS,
+	type ServerEventOptions,
+	type ServerEventProducer,
+	type ServerEventStream,
+	type ServerEventStreamOptions,
+	type ServerEventStreamResponse,
+} from './event-stream.js';
+
+export {
+	subscribeEventStream,
+	DEFAULT_SSE_RETRY_MS,
+	type ServerEventConnect,
+	type ServerEventMessage,
+	type ServerEventSubscriptionOptions,
+} from './event-stream-client.js';
+
 export {
 	generateOpenApiDocument,
 	type OpenApiDocument,
@@ -348,6 +399,7 @@ export {
 
 export {
 	getHydrationData,
+	getStreamedBoundaryState,
 	initHydration,
 	checkHydrationMatch,
 	applyHydratedHead,
@@ -380,6 +432,29 @@ export {
 	type ResponseCacheEventType,
 } from './response-cache.js';
 
+export {
+	createPrerenderHandler,
+	planPrerender,
+	prerenderFileFor,
+	renderPrerenderPlan,
+	PRERENDER_MANIFEST_FILE,
+	PRERENDER_MANIFEST_VERSION,
+	type PrerenderEvent,
+	type PrerenderEventType,
+	type PrerenderHandler,
+	type PrerenderHandlerOptions,
+	type PrerenderManifest,
+	type PrerenderManifestEntry,
+	type PrerenderPageStore,
+	type PrerenderPlan,
+	type PrerenderPlanOptions,
+	type PrerenderRenderOptions,
+	type PrerenderResult,
+	type PrerenderSkippedRoute,
+	type PrerenderTarget,
+	type PrerenderedPage,
+} from './prerender.js';
+
 export {
 	createDataCache,
 	type DataCache,
@@ -387,3 +462,10 @@ export {
 	type CacheLife,
 	type CachedOptions,
 } from './data-cache.js';
+
+export {
+	createMemoryInvalidationHub,
+	type CacheStore,
+	type CacheInvalidationChannel,
+	type MemoryInvalidationHub,
+} from './cache-store.js';
@@ -31,6 +31,7 @@ import {
 import type { HttpMethod } from '../layers/types.js';
 import type { AnyTypedServerRoute } from './route-contract.js';
 import { isStreamResponse } from './response-contract.js';
+import { isEventStreamResponse } from './event-stream.js';
 
 type JsonObject = Record<string, unknown>;
 
@@ -261,7 +262,12 @@ const buildOperation = (
 	const contentType = Object.entries(route.metadata?.headers ?? {}).find(
 		([name]) => name.toLowerCase() === 'content-type'
 	)?.[1];
-	if (isStreamResponse(route.response) && hasResponseBody) {
+	if (isEventStreamResponse(route.response) && hasResponseBody) {
+		responses[successStatus] = {
+			description: 'OK',
+			content: { 'text/event-stream': { schema: { type: 'string' } } },
+		};
+	} else if (isStreamResponse(route.response) && hasResponseBody) {
 		responses[successStatus] = {
 			description: 'OK',
 			content: {
@@ -25,6 +25,7 @@
 import type {
 	AnyResolvedLayer,
 	HttpMethod,
+	RouteConfig,
 	ServerPolicy,
 } from '../layers/types.js';
 import {
@@ -63,9 +64,19 @@ export interface CompiledServerAction {
 	readonly diagnostics?: readonly ServerMetadataDiagnostic[];
 }
 
+/** A page route's effective policy, keyed by its domain-prefixed path. */
+export interface CompiledServerPage {
+	readonly layer: string;
+	readonly path: string;
+	readonly policy: ServerPolicy;
+	readonly provenance: readonly PolicyProvenanceEntry[];
+	readonly diagnostics?: readonly ServerMetadataDiagnostic[];
+}
+
 export interface CompiledServerManifest {
 	readonly routes: readonly CompiledServerRoute[];
 	readonly actions: readonly CompiledServerAction[];
+	readonly pages: readonly CompiledServerPage[];
 	readonly diagnostics: readonly ServerMetadataDiagnostic[];
 }
 
@@ -127,8 +138,34 @@ const collectLayerSources = (
 };
 
 /**
- * Compile every route and action's effective server policy by folding the full
- * hierarchy (parents -> dependencies -> layer -> route). Returns one inspectable
+ * Flatten a layer's page routes, children included, applying the same domain
+ * prefix `mergeLayerConfigs` gives them so compiled paths match what the router
+ * serves.
+ */
+const flattenLayerPages = (layer: AnyResolvedLayer): readonly RouteConfig[] => {
+	const out: RouteConfig[] = [];
+	const visit = (routes: readonly RouteConfig[]): void => {
+		for (const route of routes) {
+			out.push(
+				layer.domain
+					? {
+							...route,
+							path: `/${layer.domain}${route.path === '/' ? '' : route.path}`,
+						}
+					: route
+			);
+			if (route.children) {
+				visit(route.children);
+			}
+		}
+	};
+	visit(layer.routes ?? []);
+	return out;
+};
+
+/**
+ * Compile every route, action, and page's effective server policy by folding
+ * the full hierarchy (parents -> dependencies -> layer -> route). Returns one inspectable
  * manifest — the single artifact the dev server and production adapters read — with
  * per-endpoint effective policy, provenance, and override diagnostics.
  */
@@ -138,6 +175,7 @@ export const compileServerPolicyFromLayers = (
 	const byName = new Map(layers.map((layer) => [layer.name, layer]));
 	const routes: CompiledServerRoute[] = [];
 	const actions: CompiledServerAction[] = [];
+	const pages: CompiledServerPage[] = [];
 
 	for (const layer of layers) {
 		const layerSources = collectLayerSources(byName, layer);
@@ -180,14 +218,32 @@ export const compileServerPolicyFromLayers = (
 					: {}),
 			});
 		}
+
+		for (const route of flattenLayerPages(layer)) {
+			const folded = foldServerPolicy(route.path, [
+				...layerSources,
+				{ kind: 'route', name: route.path, policy: route.policy },
+			]);
+			pages.push({
+				layer: layer.name,
+				path: route.path,
+				policy: folded.policy,
+				provenance: folded.provenance,
+				...(folded.diagnostics.length > 0
+					? { diagnostics: folded.diagnostics }
+					: {}),
+			});
+		}
 	}
 
 	return {
 		routes,
 		actions,
+		pages,
 		diagnostics: [
 			...routes.flatMap((route) => route.diagnostics ?? []),
 			...actions.flatMap((action) => action.diagnostics ?? []),
+			...pages.flatMap((page) => page.diagnostics ?? []),
 		],
 	};
 };
@@ -0,0 +1,464 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Static generation for page routes whose merged server policy declares
+ * `prerender`.
+ *
+ * The build renders each such page once through the same `renderToString` path
+ * SSR uses, so the emitted HTML already carries its hydration payload and the
+ * client hydrates a prerendered page exactly as it would a server render. The
+ * resulting manifest maps request paths to files under the client output.
+ *
+ * At runtime `createPrerenderHandler` answers matching GET/HEAD requests from
+ * those files in place of the SSR render. It is handed to the app's request
+ * handler rather than put in front of it, so whatever the server runs before a
+ * render still runs before a prerendered page. A page declared with
+ * `prerender: { revalidate }` is regenerated in the background once its window
+ * expires (incremental static regeneration): the stale file keeps being served
+ * while exactly one render refreshes it, using the same single-flight coalescing as the response cache.
+ *
+ * Regeneration state lives in this process. A restart re-reads the build
+ * manifest, so a page regenerated before the restart is treated as stale once
+ * and refreshed again; it never serves older HTML than the file on disk.
+ */
+
+import { createHash } from 'node:crypto';
+import { buildCacheControl } from './cache-control.js';
+import { ifNoneMatchSatisfied } from './hydration.js';
+import { compileServerPolicy } from './policy-compiler.js';
+import { createSingleFlight } from './single-flight.js';
+import type { ServerApp } from './server-app.js';
+import type { LayerInputSource } from '../layers/api/defineLayer.js';
+import type { ServerPrerenderMetadata } from '../layers/types.js';
+import {
+	compileRoutePattern,
+	matchRoutePattern,
+	normalizeMatchPathname,
+	type CompiledRoutePattern,
+} from '../routing/route-pattern.js';
+
+/** File name of the prerender manifest written next to the server bundle. */
+export const PRERENDER_MANIFEST_FILE = 'prerender-manifest.json';
+
+export const PRERENDER_MANIFEST_VERSION = 1;
+
+export interface PrerenderManifestEntry {
+	/** Page file, relative to the client output directory. */
+	readonly file: string;
+	/** Seconds before the page is regenerated. Absent for fully static pages. */
+	readonly revalidate?: number;
+	/** Epoch milliseconds at which the file was rendered. */
+	readonly generatedAt: number;
+}
+
+export interface PrerenderManifest {
+	readonly version: typeof PRERENDER_MANIFEST_VERSION;
+	/** Entries keyed by request pathname. */
+	readonly pages: Readonly<Record<string, PrerenderManifestEntry>>;
+}
+
+/** A page selected for static generation. */
+export interface PrerenderTarget {
+	readonly layer: string;
+	/** Concrete request pathname. */
+	readonly path: string;
+	/** The page route pattern `path` was derived from. */
+	readonly route: string;
+	readonly revalidate?: number;
+}
+
+/** A dynamic page route declaring `prerender` without any concrete path. */
+export interface PrerenderSkippedRoute {
+	readonly layer: string;
+	readonly route: string;
+}
+
+export interface PrerenderPlan {
+	readonly targets: readonly PrerenderTarget[];
+	readonly skipped: readonly PrerenderSkippedRoute[];
+	/** Entries of `paths` that matched no prerendered page route. */
+	readonly unmatched: readonly string[];
+}
+
+export interface PrerenderPlanOptions {
+	/**
+	 * Concrete pathnames for dynamic page routes (`/blog/:slug`). Each is
+	 * rendered under the policy of the first prerendered route it matches.
+	 * Dynamic routes without a listed path are reported in `skipped`.
+	 */
+	readonly paths?: readonly string[];
+}
+
+export interface PrerenderedPage {
+	readonly path: string;
+	readonly file: string;
+	/** Full document, hydration payload included. */
+	readonly html: string;
+	/** The serialized hydration state embedded in `html`. */
+	readonly state: Record<string, unknown>;
+	readonly revalidate?: number;
+}
+
+export interface PrerenderResult {
+	readonly pages: readonly PrerenderedPage[];
+	readonly manifest: PrerenderManifest;
+}
+
+export interface PrerenderRenderOptions {
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+}
+
+/**
+ * Revalidation window declared by a merged `prerender` policy, or `null` when
+ * the page is not prerendered. `true`, `{}` and a non-positive window all mean
+ * "render once at build time".
+ */
+const prerenderWindow = (
+	prerender: ServerPrerenderMetadata | undefined
+): { readonly revalidate?: number } | null => {
+	if (!prerender) return null;
+	if (
+		typeof prerender === 'object' &&
+		typeof prerender.revalidate === 'number' &&
+		prerender.revalidate > 0
+	) {
+		return { revalidate: prerender.revalidate };
+	}
+	return {};
+};
+
+const isStaticPattern = (compiled: CompiledRoutePattern): boolean =>
+	compiled.paramNames.length === 0 &&
+	compiled.pattern.urlSegments.every((segment) => segment.kind === 'static');
+
+/**
+ * Select every page route whose merged policy declares `prerender`. Static
+ * routes are targeted directly; dynamic ones only through `options.paths`.
+ * The first layer to claim a pathname wins, matching router precedence.
+ */
+export const planPrerender = (
+	layers: LayerInputSource,
+	options: PrerenderPlanOptions = {}
+): PrerenderPlan => {
+	const targets: PrerenderTarget[] = [];
+	const claimed = new Set<string>();
+	const dynamic: {
+		readonly layer: string;
+		readonly route: string;
+		readonly compiled: CompiledRoutePattern;
+		readonly revalidate?: number;
+		used: boolean;
+	}[] = [];
+
+	const claim = (target: PrerenderTarget): void => {
+		const key = normalizeMatchPathname(target.path);
+		if (claimed.has(key)) return;
+		claimed.add(key);
+		targets.push({ ...target, path: key });
+	};
+
+	for (const page of compileServerPolicy(layers).pages) {
+		const window = prerenderWindow(page.policy.prerender);
+		if (!window) continue;
+		const compiled = compileRoutePattern(page.path);
+		if (isStaticPattern(compiled)) {
+			claim({ layer: page.layer, path: page.path, route: page.path, ...window });
+		} else {
+			dynamic.push({
+				layer: page.layer,
+				route: page.path,
+				compiled,
+				...window,
+				used: false,
+			});
+		}
+	}
+
+	const unmatched: string[] = [];
+	for (const path of options.paths ?? []) {
+		const match = dynamic.find(
+			(candidate) => matchRoutePattern(candidate.compiled, path) !== null
+		);
+		if (!match) {
+			unmatched.push(path);
+			continue;
+		}
+		match.used = true;
+		claim({
+			layer: match.layer,
+			path,
+			route: match.route,
+			...(match.revalidate !== undefined
+				? { revalidate: match.revalidate }
+				: {}),
+		});
+	}
+
+	return {
+		targets,
+		skipped: dynamic
+			.filter((candidate) => !candidate.used)
+			.map(({ layer, route }) => ({ layer, route })),
+		unmatched,
+	};
+};
+
+/**
+ * Output file for a pathname: `/` -> `index.html`, `/docs/intro` ->
+ * `docs/intro/index.html`. Directory-style files keep every page reachable
+ * by its clean URL from a plain static host as well.
+ */
+export const prerenderFileFor = (path: string): string => {
+	const segments = normalizeMatchPathname(path)
+		.split('/')
+		.filter((segment) => segment !== '');
+	if (
+		segments.some(
+			(segment) =>
+				segment === '.' || segment === '..' || segment.includes('\\')
+		)
+	) {
+		throw new TypeError(
+			`[Effuse] Cannot prerender "${path}": the path escapes the output directory.`
+		);
+	}
+	return [...segments, 'index.html'].join('/');
+};
+
+/**
+ * Render every target through `app.renderToString`, one at a time so each
+ * page gets an isolated SSR runtime. A render failure rejects: a build must
+ * not ship a manifest pointing at pages it could not produce.
+ */
+export const renderPrerenderPlan = async (
+	app: ServerApp,
+	targets: readonly PrerenderTarget[],
+	options: PrerenderRenderOptions = {}
+): Promise<PrerenderResult> => {
+	const now = options.now ?? Date.now;
+	const pages: PrerenderedPage[] = [];
+	const entries: Record<string, PrerenderManifestEntry> = {};
+
+	for (const target of targets) {
+		const result = await app.renderToString(target.path);
+		const file = prerenderFileFor(target.path);
+		pages.push({
+			path: target.path,
+			file,
+			html: result.html,
+			state: result.state,
+			...(target.revalidate !== undefined
+				? { revalidate: target.revalidate }
+				: {}),
+		});
+		entries[target.path] = {
+			file,
+			...(target.revalidate !== undefined
+				? { revalidate: target.revalidate }
+				: {}),
+			generatedAt: now(),
+		};
+	}
+
+	return {
+		pages,
+		manifest: { version: PRERENDER_MANIFEST_VERSION, pages: entries },
+	};
+};
+
+/**
+ * Where prerendered page files live at runtime. `@effuse/server` provides a
+ * filesystem implementation with atomic replacement; tests use a map.
+ */
+export interface PrerenderPageStore {
+	read(file: string): Promise<string | undefined>;
+	write(file: string, html: string): Promise<void>;
+}
+
+export type PrerenderEventType =
+	| 'hit'
+	| 'stale'
+	| 'regenerated'
+	| 'regenerate_failed';
+
+export interface PrerenderEvent {
+	readonly type: PrerenderEventType;
+	readonly path: string;
+	readonly error?: unknown;
+}
+
+export interface PrerenderHandlerOptions {
+	readonly manifest: PrerenderManifest;
+	readonly store: PrerenderPageStore;
+	/**
+	 * Origin pages are regenerated under, such as the deployment's public URL.
+	 * Never taken from the triggering request: its Host header is the client's
+	 * to choose, and the page rendered under it is served to every visitor.
+	 */
+	readonly origin: string;
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Observability hook for hits, stale serves, and regenerations. */
+	readonly onEvent?: (event: PrerenderEvent) => void;
+}
+
+export interface PrerenderHandler {
+	/** Serves `request` from a prerendered page when one exists, else runs `fallback`. */
+	handle(
+		request: Request,
+		fallback: (request: Request) => Response | Promise<Response>
+	): Promise<Response>;
+	/** Resolves once background regeneration has settled (test/shutdown aid). */
+	idle(): Promise<void>;
+}
+
+interface PageState {
+	readonly file: string;
+	readonly revalidate?: number;
+	generatedAt: number;
+	html: string | undefined;
+}
+
+const etagFor = (html: string): string =>
+	`"${createHash('md5').update(html).digest('hex')}"`;
+
+export const createPrerenderHandler = (
+	options: PrerenderHandlerOptions
+): PrerenderHandler => {
+	const now = options.now ?? Date.now;
+	const emit = options.onEvent;
+	const store = options.store;
+	const origin = new URL(options.origin).origin;
+	const flights = createSingleFlight();
+
+	const pages = new Map<string, PageState>();
+	for (const [path, entry] of Object.entries(options.manifest.pages)) {
+		pages.set(normalizeMatchPathname(path), {
+			file: entry.file,
+			...(entry.revalidate !== undefined
+				? { revalidate: entry.revalidate }
+				: {}),
+			generatedAt: entry.generatedAt,
+			html: undefined,
+		});
+	}
+
+	const isStale = (page: PageState): boolean =>
+		page.revalidate !== undefined &&
+		now() >= page.generatedAt + page.revalidate * 1000;
+
+	/**
+	 * Re-render through the SSR fallback with a bare request. The triggering
+	 * request may carry cookies or auth headers, and a page rendered for one
+	 * visitor must never be written to the file every visitor is served.
+	 */
+	const regenerate = async (
+		path: string,
+		page: PageState,
+		fallback: (request: Request) => Response | Promise<Response>
+	): Promise<void> => {
+		try {
+			const response = await fallback(
+				new Request(new URL(path, origin), {
+					method: 'GET',
+					headers: { Accept: 'text/html' },
+				})
+			);
+			if (response.status !== 200) {
+				throw new Error(
+					`[Effuse] Regenerating "${path}" returned status ${String(response.status)}.`
+				);
+			}
+			const html = await response.text();
+			await store.write(page.file, html);
+			page.html = html;
+			page.generatedAt = now();
+			emit?.({ type: 'regenerated', path });
+		} catch (error) {
+			// The stale page stays in service; the next request after the window
+			// retries, so a transient failure never takes the page down.
+			emit?.({ type: 'regenerate_failed', path, error });
+		}
+	};
+
+	return {
+		async handle(request, fallback) {
+			const method = request.method.toUpperCase();
+			if (method !== 'GET' && method !== 'HEAD') return fallback(request);
+
+			const url = new URL(request.url);
+			const path = normalizeMatchPathname(url.pathname);
+			const page = pages.get(path);
+			if (!page) return fallback(request);
+
+			page.html ??= await store.read(page.file);
+			const html = page.html;
+			if (html === undefined) return fallback(request);
+
+			const stale = isStale(page);
+			if (stale) {
+				flights.refresh(path, () => regenerate(path, page, fallback));
+			}
+			emit?.({ type: stale ? 'stale' : 'hit', path });
+
+			const etag = etagFor(html);
+			const headers = new Headers({
+				'Cache-Control':
+					page.revalidate !== undefined
+						? buildCacheControl({
+								visibility: 'public',
+								maxAge: 0,
+								sMaxAge: page.revalidate,
+								staleWhileRevalidate: true,
+							})
+						: buildCacheControl({
+								visibility: 'public',
+								maxAge: 0,
+								mustRevalidate: true,
+							}),
+				ETag: etag,
+				'X-Content-Type-Options': 'nosniff',
+				'X-Effuse-Prerender': stale ? 'stale' : 'hit',
+			});
+			if (ifNoneMatchSatisfied(request.headers.get('If-None-Match'), etag)) {
+				return new Response(null, { status: 304, headers });
+			}
+			headers.set('Content-Type', 'text/html; charset=utf-8');
+			headers.set(
+				'Content-Length',
+				String(new TextEncoder().encode(html).byteLength)
+			);
+			return new Response(method === 'HEAD' ? null : html, {
+				status: 200,
+				headers,
+			});
+		},
+
+		idle() {
+			return flights.idle();
+		},
+	};
+};
@@ -23,16 +23,46 @@
  */
 
 import { Predicate } from 'effect';
-import type { EffuseNode, Component, BlueprintDef } from '../render/node.js';
+import type {
+	EffuseNode,
+	Component,
+	BlueprintDef,
+	ListNode,
+} from '../render/node.js';
 import { isEffuseNode } from '../render/node.js';
 import { isSignal } from '../reactivity/index.js';
 import {
+	getCurrentProvideScope,
 	runWithProvideScope,
 	type ProvideScope,
 } from '../blueprint/provide-inject.js';
-import { isSuspendToken } from '../suspense/Suspense.js';
+import {
+	Suspense,
+	isSuspendToken,
+	type SuspenseContext,
+} from '../suspense/Suspense.js';
+import {
+	isAsyncBoundaryNode,
+	useAsyncBoundary,
+} from '../components/AsyncBoundary.js';
+import {
+	createAsyncCollector,
+	runWithAsyncCollector,
+	type AsyncCollector,
+} from '../reactivity/async-hydration.js';
+import {
+	boundaryEndMarker,
+	boundaryStartMarker,
+	createBoundaryStream,
+	getBoundaryStream,
+	runWithBoundaryStream,
+	type BoundaryStream,
+	type ResolvedBoundaryContent,
+	type StreamedBoundary,
+} from './streaming-boundary.js';
 import type { HeadProps, RenderResult, ServerAppOptions } from './types.js';
 import { RenderError } from './errors.js';
+import { ISLAND_TAG } from '../constants.js';
 import { escapeHtml, escapeAttr, escapeAttrName } from './escape.js';
 import { normalizeClassValue } from '../render/class-value.js';
 import { isEventHandlerName } from '../render/event-prop.js';
@@ -50,7 +80,12 @@ import {
 } from './document.js';
 import type { SSRRuntime } from './runtime.js';
 import type { ComponentLifecycle } from '../blueprint/lifecycle.js';
-import { runWithServerRenderContext } from '../render/render-context.js';
+import {
+	runInsideIsland,
+	runWithServerRenderContext,
+	shouldRenderIsland,
+	type ServerRenderOptions,
+} from '../render/render-context.js';
 import {
 	getChildNamespace,
 	getElementNamespace,
@@ -73,7 +108,8 @@ interface ServerErrorBoundary {
 const runServerRender = <T>(
 	ssrRuntime: SSRRuntime,
 	render: () => T,
-	url?: string
+	url?: string,
+	options: ServerRenderOptions = {}
 ): T =>
 	runWithServerRenderContext(
 		() =>
@@ -85,7 +121,8 @@ const runServerRender = <T>(
 				},
 				render
 			),
-		url
+		url,
+		{ ...options, state: ssrRuntime.state }
 	);
 
 /**
@@ -157,7 +194,8 @@ export const renderToString = (
 				});
 			}
 		},
-		url
+		url,
+		{ islands: options.islands }
 	);
 };
 
@@ -168,11 +206,224 @@ export const renderToString = (
 export const renderToFragment = (
 	root: Component | EffuseNode,
 	ssrRuntime: SSRRuntime,
-	url?: string
+	url?: string,
+	options: ServerRenderOptions = {}
+): string => {
+	return runServerRender(
+		ssrRuntime,
+		() => renderNodeToString(root),
+		url,
+		options
+	);
+};
+
+/**
+ * Render a component tree to a body fragment for a streamed response.
+ *
+ * Boundaries still waiting on data render their fallback and are deferred to
+ * `stream`; the caller resolves them with {@link resolveStreamedBoundary} and
+ * sends each one as it completes.
+ */
+export const renderToStreamingFragment = (
+	root: Component | EffuseNode,
+	ssrRuntime: SSRRuntime,
+	stream: BoundaryStream,
+	url?: string,
+	options: ServerRenderOptions = {}
+): string =>
+	runServerRender(
+		ssrRuntime,
+		() => runWithBoundaryStream(stream, () => renderNodeToString(root)),
+		url,
+		options
+	);
+
+/**
+ * Wait for a deferred boundary and render its content. Each render pass runs
+ * inside the request's runtime and render context, exactly as the shell did.
+ */
+export const resolveStreamedBoundary = (
+	boundary: StreamedBoundary,
+	ssrRuntime: SSRRuntime,
+	url?: string,
+	options: ServerRenderOptions = {}
+): Promise<ResolvedBoundaryContent> =>
+	boundary.resolve((render) =>
+		ssrRuntime.run(() => runServerRender(ssrRuntime, render, url, options))
+	);
+
+/** One render of a boundary's content, with what it is still waiting for. */
+interface BoundaryPass {
+	readonly html: string;
+	/** The async computations created directly inside the boundary. */
+	readonly collector: AsyncCollector;
+	/** Resources a `Suspense` is suspended on. */
+	readonly suspended: readonly Promise<void>[];
+	/** Boundaries deferred inside `html`. */
+	readonly nested: readonly StreamedBoundary[];
+}
+
+/** Re-render passes a boundary gets before it is sent as it stands. */
+const MAX_BOUNDARY_PASSES = 5;
+/** Budget for each wait on suspended resources. */
+const BOUNDARY_WAIT_MS = 10_000;
+
+const isPassPending = (pass: BoundaryPass): boolean =>
+	pass.suspended.length > 0 || pass.collector.hasPending();
+
+const discardPass = (pass: BoundaryPass): void => {
+	pass.collector.dispose();
+	for (const nested of pass.nested) nested.discard();
+};
+
+/**
+ * Waits for a pass's resources, bounded: a resource that never settles must
+ * degrade to a boundary sent as it stands, not a response that never ends.
+ */
+const waitForPass = async (pass: BoundaryPass): Promise<void> => {
+	if (pass.suspended.length > 0) {
+		await Promise.race([
+			Promise.allSettled(pass.suspended),
+			new Promise<void>((resolve) => {
+				const timer = setTimeout(resolve, BOUNDARY_WAIT_MS);
+				(timer as unknown as { unref?: () => void }).unref?.();
+			}),
+		]);
+	}
+	await pass.collector.settle();
+};
+
+/**
+ * Render a boundary for a streamed response.
+ *
+ * The first pass decides. Content that needs nothing is returned in place, and
+ * boundaries nested in it are handed to the stream. Content still waiting is
+ * thrown away together with anything nested in it: the boundary renders its
+ * fallback between markers and is deferred, and each later pass re-renders it
+ * seeded with the values the previous one waited for.
+ */
+const renderStreamingBoundary = (
+	stream: BoundaryStream,
+	renderPass: (seed: Record<string, unknown> | undefined) => BoundaryPass,
+	renderFallback: () => string
 ): string => {
-	return runServerRender(ssrRuntime, () => renderNodeToString(root), url);
+	const scope = getCurrentProvideScope();
+	const inScope = <T>(render: () => T): T =>
+		scope ? runWithProvideScope(scope, render) : render();
+
+	const first = renderPass(undefined);
+	if (!isPassPending(first)) {
+		first.collector.dispose();
+		for (const nested of first.nested) stream.defer(nested);
+		return first.html;
+	}
+	for (const nested of first.nested) nested.discard();
+
+	const id = stream.nextId();
+	const fallback = runWithBoundaryStream(null, renderFallback);
+	let current: BoundaryPass | undefined = first;
+
+	stream.defer({
+		id,
+		resolve: async (enterScope) => {
+			let pass = first;
+			for (let attempt = 1; attempt < MAX_BOUNDARY_PASSES; attempt += 1) {
+				await waitForPass(pass);
+				const seed = pass.collector.serialize();
+				discardPass(pass);
+				current = undefined;
+				pass = enterScope(() =>
+					runWithBoundaryStream(stream, () => inScope(() => renderPass(seed)))
+				);
+				current = pass;
+				if (!isPassPending(pass)) break;
+			}
+			const state = pass.collector.serialize();
+			pass.collector.dispose();
+			current = undefined;
+			return { html: pass.html, state, nested: pass.nested };
+		},
+		discard: () => {
+			if (current) discardPass(current);
+			current = undefined;
+		},
+	});
+
+	return `${boundaryStartMarker(id)}${fallback}${boundaryEndMarker(id)}`;
+};
+
+/** Runs one boundary pass under its own collector and a child stream. */
+const runBoundaryPass = (
+	stream: BoundaryStream,
+	seed: Record<string, unknown> | undefined,
+	render: () => string
+): Omit<BoundaryPass, 'suspended'> => {
+	const collector = createAsyncCollector({ seed });
+	const child = createBoundaryStream(stream);
+	const html = runWithBoundaryStream(child, () =>
+		runWithAsyncCollector(collector, render)
+	);
+	return { html, collector, nested: child.takePending() };
 };
 
+const renderStreamedAsyncBoundary = (
+	node: ListNode,
+	stream: BoundaryStream,
+	errorBoundary: ServerErrorBoundary | undefined,
+	namespace: DOMNamespace
+): string => {
+	const boundary = useAsyncBoundary(node);
+	return renderStreamingBoundary(
+		stream,
+		(seed) => ({
+			...runBoundaryPass(stream, seed, () =>
+				renderListNode(node, errorBoundary, namespace)
+			),
+			suspended: [],
+		}),
+		() => {
+			boundary.setLoading();
+			const html = renderListNode(node, errorBoundary, namespace);
+			// Back to rendering the content, which `success` does exactly as
+			// `idle` did: the node is rendered again by every later pass, and by
+			// an enclosing boundary's passes when it is nested in one.
+			boundary.setSuccess();
+			return html;
+		}
+	);
+};
+
+/** The resources a freshly created `Suspense` instance is suspended on. */
+const suspendedResources = (
+	state: Record<string, unknown>
+): readonly Promise<void>[] => {
+	const exposed = state.exposed as { boundary?: SuspenseContext } | undefined;
+	return exposed?.boundary
+		? [...exposed.boundary.pendingResources.values()]
+		: [];
+};
+
+const renderStreamedSuspense = (
+	def: BlueprintDef,
+	props: Record<string, unknown>,
+	stream: BoundaryStream,
+	errorBoundary: ServerErrorBoundary | undefined,
+	namespace: DOMNamespace
+): string =>
+	renderStreamingBoundary(
+		stream,
+		(seed) => {
+			let suspended: readonly Promise<void>[] = [];
+			const pass = runBoundaryPass(stream, seed, () =>
+				renderBlueprint(def, props, errorBoundary, namespace, (state) => {
+					suspended = suspendedResources(state);
+				})
+			);
+			return { ...pass, suspended };
+		},
+		() => renderNodeToString(props.fallback, errorBoundary, namespace)
+	);
+
 const renderNodeToString = (
 	node: unknown,
 	errorBoundary?: ServerErrorBoundary,
@@ -289,73 +540,145 @@ const renderEffuseNode = (
 				getChildNamespace(elementNamespace, tag)
 			)}</${tag}>`;
 		}
-		case 'Blueprint':
-			return renderBlueprint(
-				node.blueprint,
-				node.props,
-				errorBoundary,
-				namespace
-			);
+		case 'Blueprint': {
+			const stream =
+				node.blueprint === (Suspense as BlueprintDef)
+					? getBoundaryStream()
+					: null;
+			if (stream) {
+				return renderStreamedSuspense(
+					node.blueprint,
+					node.props,
+					stream,
+					errorBoundary,
+					namespace
+				);
+			}
+			return isIsland(node.blueprint)
+				? renderIsland(node.blueprint, node.props, errorBoundary, namespace)
+				: renderBlueprint(node.blueprint, node.props, errorBoundary, namespace);
+		}
 		case 'Fragment':
 			return renderChildren(node.children, errorBoundary, namespace);
 		case 'List': {
-			const disposeResource = getNodeResourceDisposer(node);
-			let html = '';
-			let renderFailed = false;
-			let renderError: unknown;
-			try {
-				const controller = getErrorBoundaryController(node);
-				if (!controller || controller.hasError()) {
-					html = renderChildren(node.children, errorBoundary, namespace);
-				} else {
-					try {
-						html = renderChildren(
-							node.children,
-							{ controller, parent: errorBoundary },
-							namespace
-						);
-					} catch (error) {
-						if (isSuspendToken(error)) throw error;
-						controller.capture(normalizeBoundaryError(error), false);
-						html = renderChildren(node.children, errorBoundary, namespace);
-					}
-				}
-			} catch (error) {
-				renderFailed = true;
-				renderError = error;
-			}
+			const stream = isAsyncBoundaryNode(node) ? getBoundaryStream() : null;
+			return stream
+				? renderStreamedAsyncBoundary(node, stream, errorBoundary, namespace)
+				: renderListNode(node, errorBoundary, namespace);
+		}
+		default:
+			return '';
+	}
+};
 
-			let cleanupFailed = false;
-			let cleanupError: unknown;
+const renderListNode = (
+	node: ListNode,
+	errorBoundary?: ServerErrorBoundary,
+	namespace: DOMNamespace = 'html'
+): string => {
+	const disposeResource = getNodeResourceDisposer(node);
+	let html = '';
+	let renderFailed = false;
+	let renderError: unknown;
+	try {
+		const controller = getErrorBoundaryController(node);
+		if (!controller || controller.hasError()) {
+			html = renderChildren(node.children, errorBoundary, namespace);
+		} else {
 			try {
-				disposeResource?.();
+				html = renderChildren(
+					node.children,
+					{ controller, parent: errorBoundary },
+					namespace
+				);
 			} catch (error) {
-				cleanupFailed = true;
-				cleanupError = error;
+				if (isSuspendToken(error)) throw error;
+				controller.capture(normalizeBoundaryError(error), false);
+				html = renderChildren(node.children, errorBoundary, namespace);
 			}
+		}
+	} catch (error) {
+		renderFailed = true;
+		renderError = error;
+	}
 
-			if (renderFailed && cleanupFailed) {
-				throw new AggregateError(
-					[renderError, cleanupError],
-					'[Effuse] Server render and node resource cleanup failed.'
-				);
-			}
-			if (renderFailed) throw renderError;
-			if (cleanupFailed) throw cleanupError;
-			return html;
+	let cleanupFailed = false;
+	let cleanupError: unknown;
+	try {
+		disposeResource?.();
+	} catch (error) {
+		cleanupFailed = true;
+		cleanupError = error;
+	}
+
+	if (renderFailed && cleanupFailed) {
+		throw new AggregateError(
+			[renderError, cleanupError],
+			'[Effuse] Server render and node resource cleanup failed.'
+		);
+	}
+	if (renderFailed) throw renderError;
+	if (cleanupFailed) throw cleanupError;
+	return html;
+};
+
+const isIsland = (def: BlueprintDef): boolean =>
+	def.hydrate !== undefined && def.hydrate !== 'never' && shouldRenderIsland();
+
+/**
+ * The props an island hydrates with. Only data survives the trip: handlers,
+ * symbols and nodes have no JSON form, and `children` is server markup the
+ * client already has. Signals are sent as their current value.
+ */
+const serializeIslandProps = (props: Record<string, unknown>): string => {
+	const data: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(props)) {
+		if (key === 'children') continue;
+		const actual = isSignal(value)
+			? (value as { value: unknown }).value
+			: value;
+		if (
+			Predicate.isFunction(actual) ||
+			Predicate.isSymbol(actual) ||
+			isEffuseNode(actual)
+		) {
+			continue;
 		}
-		default:
-			return '';
+		data[key] = actual;
 	}
+	return Object.keys(data).length > 0 ? JSON.stringify(data) : '';
+};
+
+/**
+ * Render a component as an island: its markup wrapped in an element the
+ * client finds it by, carrying the name, trigger and props to hydrate with.
+ * `display: contents` keeps the wrapper out of layout.
+ */
+const renderIsland = (
+	def: BlueprintDef,
+	props: Record<string, unknown>,
+	errorBoundary: ServerErrorBoundary | undefined,
+	namespace: DOMNamespace
+): string => {
+	const html = runInsideIsland(() =>
+		renderBlueprint(def, props, errorBoundary, namespace)
+	);
+	const serializedProps = serializeIslandProps(props);
+	const propsAttr = serializedProps
+		? ` data-props="${escapeAttr(serializedProps)}"`
+		: '';
+	return `<${ISLAND_TAG} data-island="${escapeAttr(def.name ?? '')}" data-hydrate="${def.hydrate ?? 'load'}"${propsAttr} style="display:contents">${html}</${ISLAND_TAG}>`;
 };
 
 const renderBlueprint = (
 	def: BlueprintDef,
 	props: Record<string, unknown>,
 	errorBoundary?: ServerErrorBoundary,
-	namespace: DOMNamespace = 'html'
+	namespace: DOMNamespace = 'html',
+	inspectState?: (state: Record<string, unknown>) => void
 ): string => {
 	const state = def.state ? def.state(props) : {};
+	inspectState?.(state);
 
 	const context = {
 		props,
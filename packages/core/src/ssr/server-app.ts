@@ -24,23 +24,33 @@
 
 import type { Component } from '../render/node.js';
 import type { LayerInputSource } from '../layers/api/defineLayer.js';
-import type { RenderResult, ServerAppOptions, HeadProps } from './types.js';
-import { renderToString, renderToFragment } from './render.js';
+import type { RenderResult, ServerAppOptions, ServerPreload } from './types.js';
+import {
+	renderToString,
+	renderToStreamingFragment,
+	resolveStreamedBoundary,
+} from './render.js';
 import { RenderError, createErrorHtml } from './errors.js';
 import { headToHtml, mergeLayerHeads } from './head-registry.js';
-import { runWithSSRContext } from './use-head.js';
 import { serializeHydrationData, type HydrationData } from './hydration.js';
 import {
 	appendBodyTail,
 	collectEntryAssets,
 	renderEntryLinkTags,
 	renderEntryScriptTags,
+	splitAtBodyTail,
 	splitTemplate,
 	omitTemplateDeclaredScripts,
 	DEFAULT_CONTAINER_ID,
 } from './document.js';
 import { escapeAttr } from './escape.js';
 import { createSSRRuntime, type SSRRuntime } from './runtime.js';
+import {
+	BOUNDARY_SWAP_RUNTIME,
+	createBoundaryStream,
+	renderBoundaryChunk,
+	type StreamedBoundary,
+} from './streaming-boundary.js';
 
 export interface ServerApp {
 	useLayers(layers: LayerInputSource): ServerApp;
@@ -56,6 +66,9 @@ export interface ServerApp {
 	 * flushes the HTML shell (head + opening tags) immediately,
 	 * then streams the rendered body, then closes with hydration data.
 	 *
+	 * An `AsyncBoundary` or `Suspense` still waiting on data streams its
+	 * fallback with the body; its content follows, out of order, as each one
+	 * resolves.
 	 *
 	 * This optimizes Time-To-First-Byte (TTFB) by sending the
 	 * `<head>` and CSS before the body is fully rendered.
@@ -78,6 +91,78 @@ const yieldMacrotask = (): Promise<void> =>
 		}
 	});
 
+/**
+ * Resolves deferred boundaries concurrently and emits each one's chunk as soon
+ * as it is ready, followed by whatever it deferred in turn. A boundary that
+ * fails keeps its fallback; the page around it is already sent.
+ */
+const streamBoundaries = async (
+	boundaries: readonly StreamedBoundary[],
+	resolve: (
+		boundary: StreamedBoundary
+	) => ReturnType<StreamedBoundary['resolve']>,
+	emit: (chunk: string) => void
+): Promise<void> => {
+	const inFlight = new Set<Promise<void>>();
+
+	const launch = (boundary: StreamedBoundary): void => {
+		const task = resolve(boundary)
+			.then(
+				(content) => {
+					emit(renderBoundaryChunk(boundary.id, content));
+					for (const nested of content.nested) launch(nested);
+				},
+				(error: unknown) => {
+					boundary.discard();
+					// eslint-disable-next-line no-console
+					console.error(
+						`[effuse] Streamed boundary ${boundary.id} failed to render:`,
+						error
+					);
+					emit(renderBoundaryChunk(boundary.id, null));
+				}
+			)
+			.finally(() => {
+				inFlight.delete(task);
+			});
+		inFlight.add(task);
+	};
+
+	for (const boundary of boundaries) launch(boundary);
+	while (inFlight.size > 0) await Promise.race(inFlight);
+};
+
+/**
+ * Runs the app's preloads for `url` and records what they return in the
+ * runtime's hydration state. They run inside the runtime, so they see the same
+ * layer context as the render that follows. One failing fails the render, so
+ * the others are aborted rather than left running.
+ */
+const runPreloads = async (
+	preloads: readonly ServerPreload[] | undefined,
+	url: string,
+	runtime: SSRRuntime
+): Promise<void> => {
+	if (!preloads || preloads.length === 0) return;
+	const controller = new AbortController();
+	const { signal } = controller;
+	let results: Awaited<ReturnType<ServerPreload>>[];
+	try {
+		results = await runtime.run(() =>
+			Promise.all(preloads.map((preload) => preload({ url, signal })))
+		);
+	} catch (error) {
+		controller.abort();
+		throw error;
+	}
+	for (const entries of results) {
+		if (!entries) continue;
+		for (const [key, value] of Object.entries(entries)) {
+			runtime.state.set(key, value);
+		}
+	}
+};
+
 export const createServerApp = (root: Component): ServerApp => {
 	let layers: LayerInputSource = [];
 	let options: ServerAppOptions = { hydrate: true };
@@ -99,6 +184,7 @@ export const createServerApp = (root: Component): ServerApp => {
 			});
 
 			try {
+				await runPreloads(options.preload, url, ssrRuntime);
 				const result = ssrRuntime.run(() =>
 					renderToString(root, url, ssrRuntime, options)
 				);
@@ -136,7 +222,7 @@ export const createServerApp = (root: Component): ServerApp => {
 				});
 
 				const runtime = ssrRuntime;
-
+				await runPreloads(options.preload, url, runtime);
 
 				const containerId = options.containerId ?? DEFAULT_CONTAINER_ID;
 				const assets = omitTemplateDeclaredScripts(
@@ -189,18 +275,41 @@ export const createServerApp = (root: Component): ServerApp => {
 							// portable fallback.
 							await yieldMacrotask();
 
+							const boundaryStream = createBoundaryStream();
 							const bodyHtml = runtime.run(() =>
-								runWithSSRContext(
-									{
-										push: (head: HeadProps) => {
-											runtime.headStack.push(head);
-										},
-									},
-									() => renderToFragment(root, runtime, url)
-								)
+								renderToStreamingFragment(root, runtime, boundaryStream, url, {
+									islands: options.islands,
+								})
 							);
 							controller.enqueue(encoder.encode(bodyHtml));
 
+							// Boundaries still waiting sent their fallback above. Close
+							// the container so the page is complete as it stands, then
+							// send each boundary as it resolves, in whatever order that
+							// is. The hydration payload goes last: it must describe the
+							// document after every swap.
+							const deferred = boundaryStream.takePending();
+							const tailParts = templateParts
+								? splitAtBodyTail(templateParts.tail)
+								: null;
+							if (deferred.length > 0) {
+								controller.enqueue(
+									encoder.encode(
+										`${tailParts ? tailParts.before : `</div>${entryScripts}`}${BOUNDARY_SWAP_RUNTIME}`
+									)
+								);
+								await streamBoundaries(
+									deferred,
+									(boundary) =>
+										resolveStreamedBoundary(boundary, runtime, url, {
+											islands: options.islands,
+										}),
+									(chunk) => {
+										controller.enqueue(encoder.encode(chunk));
+									}
+								);
+							}
+
 							// Full head now includes anything useHead() collected during
 							// render; it ships in the hydration payload for the client.
 							const mergedHead = mergeLayerHeads(runtime.headStack);
@@ -221,9 +330,13 @@ export const createServerApp = (root: Component): ServerApp => {
 
 							controller.enqueue(
 								encoder.encode(
-									templateParts
-										? appendBodyTail(templateParts.tail, hydrationScript)
-										: `</div>${entryScripts}\n\t${hydrationScript}\n</body>\n</html>`
+									deferred.length > 0
+										? tailParts
+											? `${hydrationScript}${tailParts.after}`
+											: `\n\t${hydrationScript}\n</body>\n</html>`
+										: templateParts
+											? appendBodyTail(templateParts.tail, hydrationScript)
+											: `</div>${entryScripts}\n\t${hydrationScript}\n</body>\n</html>`
 								)
 							);
 							controller.close();
@@ -68,6 +68,7 @@ import {
 	serverValidationErrorResponse,
 	validateServerValue,
 } from './validation.js';
+import { createEventStreamResponse } from './event-stream.js';
 import { EFFUSE_ACTION_PREFIX } from './constants.js';
 import type { ResponseCache } from './response-cache.js';
 import type { CompiledServerMiddlewareGraph } from './middleware-graph.js';
@@ -781,6 +782,8 @@ const createContext = (
 				Response.redirect(target, status),
 			error: (code, message, options) =>
 				layerServerErrorResponse(new LayerServerError(code, message, options)),
+			sse: (producer, options) =>
+				createEventStreamResponse(request, producer, options),
 		},
 	};
 };
@@ -5,6 +5,7 @@ import {
 	type PropValueSchema,
 } from '../blueprint/props.js';
 import { streamResponse } from './response-contract.js';
+import { eventStreamResponse } from './event-stream.js';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- schema combinators preserve concrete member types.
 type AnyValueSchema = PropValueSchema<any, any>;
@@ -137,4 +138,7 @@ export const serverSchema = {
 	// A streaming/binary response contract: the route hands its `Response` back
 	// untouched and the typed client surfaces it raw instead of decoding a body.
 	stream: streamResponse,
+	// A Server-Sent Events contract: streamed like `stream`, with typed events
+	// for the client's `subscribe()`.
+	eventStream: eventStreamResponse,
 };
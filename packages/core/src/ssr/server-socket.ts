@@ -0,0 +1,401 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type {
+	MaybePromise,
+	ServerLayerContext,
+	ServerMiddleware,
+	ServerRoute,
+	ServerRouteMetadata,
+} from '../layers/types.js';
+import { validateServerValue, type ServerValidator } from './validation.js';
+
+/**
+ * WebSocket routes.
+ *
+ * A socket route is an ordinary `GET` route, so it is matched, guarded by
+ * middleware and policy, and stamped with metadata exactly as an API route
+ * is. When every guard has passed, its handler answers with an upgrade
+ * response: a marker the runtime adapter recognises and turns into a
+ * WebSocket handshake instead of sending. Anything else a guard returns (a
+ * 401, a redirect) is sent as a plain HTTP response and no socket opens.
+ *
+ * The request context a socket's hooks receive is the upgrade request's.
+ * Request-scoped disposers have run by the time the socket opens, so state a
+ * hook needs for the connection's lifetime should be captured in `onOpen`.
+ */
+
+/** The adapter's side of one connection. */
+export interface ServerSocketPeer {
+	send(data: string | Uint8Array): void;
+	close(code?: number, reason?: string): void;
+}
+
+/** Low-level connection hooks an adapter drives for an accepted upgrade. */
+export interface ServerSocketHandlers {
+	open?(peer: ServerSocketPeer): MaybePromise<void>;
+	message?(
+		peer: ServerSocketPeer,
+		data: string | Uint8Array
+	): MaybePromise<void>;
+	close?(
+		peer: ServerSocketPeer,
+		code: number,
+		reason: string
+	): MaybePromise<void>;
+}
+
+/** An accepted upgrade, as an adapter receives it. */
+export interface ServerSocketUpgrade {
+	readonly handlers: ServerSocketHandlers;
+	/** Headers to send with the handshake, such as cookies middleware set. */
+	readonly headers: Headers;
+}
+
+/** Response header carrying an upgrade's registry id. */
+export const EFFUSE_SOCKET_HEADER = 'x-effuse-socket';
+
+/** Milliseconds an unclaimed upgrade is kept before it is dropped. */
+const UPGRADE_CLAIM_TIMEOUT_MS = 30_000;
+
+/** WebSocket close codes this module sends (RFC 6455 §7.4.1). */
+export const SOCKET_CLOSE = {
+	normal: 1000,
+	goingAway: 1001,
+	unsupportedData: 1003,
+	invalidPayload: 1007,
+	messageTooBig: 1009,
+	internalError: 1011,
+} as const;
+
+interface PendingUpgrade {
+	readonly handlers: ServerSocketHandlers;
+	readonly timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Upgrades awaiting their adapter. On `globalThis`, so a server package that
+ * resolved its own copy of this module still finds what the app registered.
+ */
+const pendingUpgrades = ((
+	globalThis as { [key: symbol]: Map<string, PendingUpgrade> | undefined }
+)[Symbol.for('effuse.server-socket.pending')] ??= new Map<
+	string,
+	PendingUpgrade
+>());
+
+let upgradeSequence = 0;
+
+/** Whether `request` asks to open a WebSocket. */
+export const isWebSocketUpgradeRequest = (request: Request): boolean =>
+	request.method.toUpperCase() === 'GET' &&
+	(request.headers.get('upgrade')?.toLowerCase().includes('websocket') ??
+		false) &&
+	request.headers.has('sec-websocket-key');
+
+/**
+ * The response that accepts an upgrade with `handlers`. An adapter that
+ * supports WebSockets replaces it with the handshake; one that does not, or an
+ * in-process `fetch`, sends it as the 501 it is.
+ */
+export const createServerSocketResponse = (
+	handlers: ServerSocketHandlers,
+	init: { readonly headers?: HeadersInit } = {}
+): Response => {
+	upgradeSequence += 1;
+	const id = `${String(Date.now())}-${String(upgradeSequence)}`;
+	const timer = setTimeout(() => {
+		pendingUpgrades.delete(id);
+	}, UPGRADE_CLAIM_TIMEOUT_MS);
+	(timer as { unref?: () => void }).unref?.();
+	pendingUpgrades.set(id, { handlers, timer });
+
+	const headers = new Headers(init.headers);
+	headers.set(EFFUSE_SOCKET_HEADER, id);
+	headers.set('Content-Type', 'text/plain; charset=utf-8');
+	return new Response('This server does not support WebSocket upgrades.', {
+		status: 501,
+		headers,
+	});
+};
+
+/**
+ * Claims the upgrade `response` carries, for an adapter to perform. Returns
+ * `undefined` for any other response, and for one already claimed.
+ */
+export const takeServerSocketUpgrade = (
+	response: Response
+): ServerSocketUpgrade | undefined => {
+	const id = response.headers.get(EFFUSE_SOCKET_HEADER);
+	if (id === null) return undefined;
+	const pending = pendingUpgrades.get(id);
+	if (!pending) return undefined;
+	pendingUpgrades.delete(id);
+	clearTimeout(pending.timer);
+
+	const headers = new Headers(response.headers);
+	for (const name of [EFFUSE_SOCKET_HEADER, 'content-type', 'content-length']) {
+		headers.delete(name);
+	}
+	return { handlers: pending.handlers, headers };
+};
+
+/** The server's handle on one typed connection. */
+export interface ServerSocket<Outgoing = unknown> {
+	/** Unique per connection within this process. */
+	readonly id: string;
+	/** Sends a message as JSON, validating it first when the route has a `reply` schema. */
+	send(message: Outgoing): void;
+	close(code?: number, reason?: string): void;
+	readonly closed: boolean;
+}
+
+export interface ServerSocketCloseEvent {
+	readonly code: number;
+	readonly reason: string;
+}
+
+export interface ServerSocketOptions<
+	Incoming = unknown,
+	Outgoing = unknown,
+	S extends Record<string, unknown> = Record<string, unknown>,
+> {
+	/**
+	 * Validates each message a client sends. A message that is not JSON, or
+	 * that fails validation, closes the socket with 1007.
+	 */
+	readonly message?: ServerValidator<Incoming>;
+	/** Validates each message the server sends, failing closed like a response contract. */
+	readonly reply?: ServerValidator<Outgoing>;
+	readonly middleware?: readonly ServerMiddleware<S>[];
+	readonly metadata?: ServerRouteMetadata;
+	/**
+	 * Origins besides the server's own whose pages may open this socket, such
+	 * as `'https://app.example.com'`. A browser sends cookies with a cross-site
+	 * upgrade and CSRF checks let a GET through, so an upgrade from any other
+	 * origin is refused with 403. One without an `Origin` header, which every
+	 * browser sends, does not come from a page and is not checked.
+	 */
+	readonly allowedOrigins?: readonly string[];
+	readonly onOpen?: (
+		socket: ServerSocket<Outgoing>,
+		ctx: ServerLayerContext<S>
+	) => MaybePromise<void>;
+	/** Receives messages one at a time, in the order they arrived. */
+	readonly onMessage?: (
+		message: Incoming,
+		socket: ServerSocket<Outgoing>,
+		ctx: ServerLayerContext<S>
+	) => MaybePromise<void>;
+	readonly onClose?: (
+		socket: ServerSocket<Outgoing>,
+		event: ServerSocketCloseEvent,
+		ctx: ServerLayerContext<S>
+	) => MaybePromise<void>;
+	/**
+	 * Called when a hook throws. Without it the socket is closed with 1011;
+	 * with it, the socket stays open unless the handler closes it.
+	 */
+	readonly onError?: (
+		error: unknown,
+		socket: ServerSocket<Outgoing>,
+		ctx: ServerLayerContext<S>
+	) => void;
+}
+
+declare const SOCKET_CONTRACT: unique symbol;
+
+/**
+ * A socket route that remembers its message types. The marker is phantom,
+ * as on `TypedServerRoute`, so a client can recover what it sends and
+ * receives from the route itself.
+ */
+export interface TypedServerSocket<
+	Incoming = unknown,
+	Outgoing = unknown,
+	S extends Record<string, unknown> = Record<string, unknown>,
+> extends ServerRoute<S> {
+	readonly [SOCKET_CONTRACT]?: {
+		readonly incoming: Incoming;
+		readonly outgoing: Outgoing;
+	};
+}
+
+/** Any socket route, whatever its message types. */
+export type AnyTypedServerSocket = TypedServerSocket<
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any -- sockets are consumed structurally.
+	any,
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any -- sockets are consumed structurally.
+	any,
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any -- route services are consumed structurally here.
+	any
+>;
+
+let socketSequence = 0;
+
+const connect = <Incoming, Outgoing, S extends Record<string, unknown>>(
+	options: ServerSocketOptions<Incoming, Outgoing, S>,
+	ctx: ServerLayerContext<S>
+): ServerSocketHandlers => {
+	socketSequence += 1;
+	const id = String(socketSequence);
+	let peer: ServerSocketPeer | undefined;
+	let closed = false;
+	// Messages are handled strictly in order, each after the last settles.
+	let queue: Promise<void> = Promise.resolve();
+
+	const socket: ServerSocket<Outgoing> = {
+		id,
+		send(message) {
+			if (closed || !peer) return;
+			const value = options.reply
+				? validateServerValue('value', message, options.reply)
+				: message;
+			peer.send(JSON.stringify(value));
+		},
+		close(code = SOCKET_CLOSE.normal, reason = '') {
+			if (closed) return;
+			closed = true;
+			peer?.close(code, reason);
+		},
+		get closed() {
+			return closed;
+		},
+	};
+
+	const fail = (error: unknown): void => {
+		if (options.onError) {
+			options.onError(error, socket, ctx);
+			return;
+		}
+		socket.close(SOCKET_CLOSE.internalError, 'Internal error');
+	};
+
+	const receive = async (data: string | Uint8Array): Promise<void> => {
+		if (typeof data !== 'string') {
+			socket.close(SOCKET_CLOSE.unsupportedData, 'Expected a text message');
+			return;
+		}
+		let message: Incoming;
+		try {
+			const parsed: unknown = JSON.parse(data);
+			message = options.message
+				? validateServerValue('value', parsed, options.message)
+				: (parsed as Incoming);
+		} catch {
+			socket.close(SOCKET_CLOSE.invalidPayload, 'Invalid message');
+			return;
+		}
+		try {
+			await options.onMessage?.(message, socket, ctx);
+		} catch (error) {
+			fail(error);
+		}
+	};
+
+	return {
+		open(current) {
+			peer = current;
+			// Messages wait for `onOpen`, so it can set up what they rely on.
+			queue = (async () => {
+				try {
+					await options.onOpen?.(socket, ctx);
+				} catch (error) {
+					fail(error);
+				}
+			})();
+			return queue;
+		},
+		message(_current, data) {
+			queue = queue.then(() => (closed ? undefined : receive(data)));
+			return queue;
+		},
+		async close(_current, code, reason) {
+			// Messages that arrived before the close are still handled.
+			await queue;
+			closed = true;
+			try {
+				await options.onClose?.(socket, { code, reason }, ctx);
+			} catch (error) {
+				options.onError?.(error, socket, ctx);
+			}
+		},
+	};
+};
+
+const isAllowedOrigin = (
+	request: Request,
+	allowedOrigins: readonly string[] = []
+): boolean => {
+	const origin = request.headers.get('origin');
+	if (origin === null || allowedOrigins.includes(origin)) return true;
+	try {
+		const host = request.headers.get('host') ?? new URL(request.url).host;
+		return new URL(origin).host === host;
+	} catch {
+		// An opaque `null` origin, or one that is not a URL, is no one's own.
+		return false;
+	}
+};
+
+/**
+ * Declare a WebSocket route. It matches `path` like an API route, runs the
+ * same layer and route middleware, and opens a socket only for a request that
+ * asks to upgrade and passes every guard; any other request gets a 426.
+ *
+ * ```ts
+ * const chat = defineServerSocket('/chat/:room', {
+ *   message: serverSchema.object({ text: serverSchema.string }),
+ *   reply: serverSchema.object({ from: serverSchema.string, text: serverSchema.string }),
+ *   onMessage: (message, socket, ctx) =>
+ *     socket.send({ from: ctx.params.room, text: message.text }),
+ * });
+ * ```
+ */
+export const defineServerSocket = <
+	Incoming = unknown,
+	Outgoing = unknown,
+	S extends Record<string, unknown> = Record<string, unknown>,
+>(
+	path: string,
+	options: ServerSocketOptions<Incoming, Outgoing, S>
+): TypedServerSocket<Incoming, Outgoing, S> => ({
+	path,
+	methods: {
+		GET: (ctx) => {
+			if (!isWebSocketUpgradeRequest(ctx.request)) {
+				return new Response('Expected a WebSocket upgrade.', {
+					status: 426,
+					headers: { Upgrade: 'websocket' },
+				});
+			}
+			if (!isAllowedOrigin(ctx.request, options.allowedOrigins)) {
+				return new Response('WebSocket origin not allowed.', { status: 403 });
+			}
+			return createServerSocketResponse(connect(options, ctx));
+		},
+	},
+	...(options.metadata ? { metadata: options.metadata } : {}),
+	...(options.middleware ? { middleware: options.middleware } : {}),
+});
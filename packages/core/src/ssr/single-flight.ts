@@ -0,0 +1,87 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Keyed single-flight execution shared by the server caches and prerendered
+ * page regeneration.
+ *
+ * Concurrent callers for one key share a single run, so an expiring hot key
+ * costs the origin one execution instead of a stampede. The in-flight record
+ * is always cleared, including on rejection, so a failed run never poisons the
+ * key. Background refreshes are tracked so tests and shutdown can wait for
+ * them to settle.
+ */
+export interface SingleFlight {
+	/** Runs `task` for `key`, or joins the run already in flight. */
+	run<Result>(key: string, task: () => Promise<Result>): Promise<Result>;
+	/** Whether a run for `key` is currently in flight. */
+	has(key: string): boolean;
+	/**
+	 * Starts `task` detached from the caller unless a run for `key` is already
+	 * in flight. Failures are swallowed: the caller has already been answered.
+	 */
+	refresh(key: string, task: () => Promise<unknown>): void;
+	/** Resolves once every background refresh has settled. */
+	idle(): Promise<void>;
+}
+
+export const createSingleFlight = (): SingleFlight => {
+	const inflight = new Map<string, Promise<unknown>>();
+	const background = new Set<Promise<unknown>>();
+
+	const run = <Result>(
+		key: string,
+		task: () => Promise<Result>
+	): Promise<Result> => {
+		const existing = inflight.get(key) as Promise<Result> | undefined;
+		if (existing) return existing;
+
+		const pending = task().finally(() => {
+			inflight.delete(key);
+		});
+		inflight.set(key, pending);
+		return pending;
+	};
+
+	return {
+		run,
+
+		has(key) {
+			return inflight.has(key);
+		},
+
+		refresh(key, task) {
+			if (inflight.has(key)) return;
+			const pending = run(key, task).catch(() => undefined);
+			background.add(pending);
+			void pending.finally(() => background.delete(pending));
+		},
+
+		async idle() {
+			while (background.size > 0) {
+				await Promise.allSettled([...background]);
+			}
+		},
+	};
+};
@@ -0,0 +1,146 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { createLayerRouteUrl, type LayerRoutePathOptions } from './client.js';
+import type {
+	AnyTypedServerSocket,
+	TypedServerSocket,
+} from './server-socket.js';
+
+type SocketMessagesOf<Route> =
+	Route extends TypedServerSocket<
+		infer Incoming,
+		infer Outgoing,
+		infer Services
+	>
+		? Services extends Record<string, unknown>
+			? { incoming: Incoming; outgoing: Outgoing }
+			: never
+		: never;
+
+/** What the client sends on a socket route: the server's `message` type. */
+export type ServerSocketSendType<Route> = SocketMessagesOf<Route>['incoming'];
+
+/** What the client receives on a socket route: the server's `reply` type. */
+export type ServerSocketReceiveType<Route> =
+	SocketMessagesOf<Route>['outgoing'];
+
+export interface ServerSocketConnectOptions extends LayerRoutePathOptions<string> {
+	/** Defaults to the current page's origin in a browser. */
+	readonly baseUrl?: string | URL;
+	readonly protocols?: string | readonly string[];
+	/** Defaults to the global `WebSocket`. */
+	readonly WebSocket?: typeof WebSocket;
+}
+
+/** A client connection to one socket route. */
+export interface ServerSocketConnection<Send, Receive> {
+	/** Sends a message as JSON. */
+	send(message: Send): void;
+	close(code?: number, reason?: string): void;
+	/** Listens for messages; returns a function that stops listening. */
+	onMessage(listener: (message: Receive) => void): () => void;
+	/** Resolves once the socket is open; rejects if it fails first. */
+	readonly ready: Promise<void>;
+	readonly socket: WebSocket;
+}
+
+const toSocketUrl = (
+	path: string,
+	options: ServerSocketConnectOptions
+): string => {
+	const base =
+		options.baseUrl ??
+		(globalThis as { location?: { href: string } }).location?.href;
+	if (base === undefined) {
+		throw new TypeError(
+			'connectServerSocket needs a baseUrl outside the browser.'
+		);
+	}
+	const url = new URL(createLayerRouteUrl(path, { ...options, baseUrl: base }));
+	if (url.protocol === 'http:') url.protocol = 'ws:';
+	if (url.protocol === 'https:') url.protocol = 'wss:';
+	return url.toString();
+};
+
+/**
+ * Opens a socket to a route declared with `defineServerSocket`, typed by that
+ * route: `send` takes its `message` type and listeners receive its `reply`
+ * type. Messages that are not JSON are dropped.
+ */
+export const connectServerSocket = <Route extends AnyTypedServerSocket>(
+	route: Route,
+	options: ServerSocketConnectOptions = {}
+): ServerSocketConnection<
+	ServerSocketSendType<Route>,
+	ServerSocketReceiveType<Route>
+> => {
+	const Socket = options.WebSocket ?? globalThis.WebSocket;
+	const socket = new Socket(
+		toSocketUrl(route.path, options),
+		options.protocols as string | string[] | undefined
+	);
+	const listeners = new Set<
+		(message: ServerSocketReceiveType<Route>) => void
+	>();
+
+	socket.addEventListener('message', (event: MessageEvent) => {
+		if (typeof event.data !== 'string') return;
+		let message: ServerSocketReceiveType<Route>;
+		try {
+			message = JSON.parse(event.data) as ServerSocketReceiveType<Route>;
+		} catch {
+			return;
+		}
+		for (const listener of listeners) listener(message);
+	});
+
+	const ready = new Promise<void>((resolve, reject) => {
+		socket.addEventListener('open', () => {
+			resolve();
+		});
+		socket.addEventListener('error', () => {
+			reject(new Error(`WebSocket to ${route.path} failed to open.`));
+		});
+	});
+	// A caller that never awaits `ready` should not see an unhandled rejection.
+	ready.catch(() => undefined);
+
+	return {
+		send(message) {
+			socket.send(JSON.stringify(message));
+		},
+		close(code, reason) {
+			socket.close(code, reason);
+		},
+		onMessage(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		ready,
+		socket,
+	};
+};
@@ -0,0 +1,168 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Out-of-order streaming for `AsyncBoundary` and `Suspense`.
+ *
+ * A streamed render used to hold the body until everything inside it was
+ * ready, so one slow widget decided the first byte of the whole page. Here a
+ * boundary that is still waiting renders its fallback in place, between two
+ * comment markers, and is deferred. The stream carries on, and each deferred
+ * boundary is rendered again once what it waited for has settled, then sent as
+ * a `<template>` plus a one-line swap call that moves the markup over the
+ * fallback. Boundaries resolve in whatever order their data arrives.
+ *
+ * Each resolved boundary carries the async state its render produced in its
+ * own JSON script, so the client adopts the values instead of refetching them
+ * — the same contract the document-level payload keeps for the shell.
+ *
+ * The stream lives in async context rather than a module global, for the
+ * reason every other piece of per-request render state does: concurrent
+ * requests interleave, and a shared "current stream" would splice one user's
+ * markup into another's response.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { BOUNDARY_STATE_ATTRIBUTE } from '../constants.js';
+
+export { BOUNDARY_STATE_ATTRIBUTE };
+
+/** What a deferred boundary renders to once it is ready. */
+export interface ResolvedBoundaryContent {
+	readonly html: string;
+	/** Async values the render produced, keyed by hydration key. */
+	readonly state: Record<string, unknown>;
+	/** Boundaries deferred inside `html`; their chunks must follow this one. */
+	readonly nested: readonly StreamedBoundary[];
+}
+
+/**
+ * Enters the request's render context for a synchronous render pass. Waiting
+ * leaves that context, so each pass after an `await` re-enters it.
+ */
+export type BoundaryRenderScope = <T>(render: () => T) => T;
+
+/** A boundary whose content is sent after the shell. */
+export interface StreamedBoundary {
+	readonly id: string;
+	/** Waits for what the boundary is suspended on, then renders its content. */
+	readonly resolve: (
+		scope: BoundaryRenderScope
+	) => Promise<ResolvedBoundaryContent>;
+	/** Releases what the boundary holds when it will never be resolved. */
+	readonly discard: () => void;
+}
+
+export interface BoundaryStream {
+	/** Document-unique id for a boundary deferred during this response. */
+	nextId(): string;
+	defer(boundary: StreamedBoundary): void;
+	/**
+	 * Takes the boundaries deferred since the last call. A resolved boundary
+	 * may defer boundaries nested in it, so the caller drains after each render.
+	 */
+	takePending(): StreamedBoundary[];
+}
+
+/**
+ * Creates a stream. With `parent`, ids come from the parent so they stay
+ * unique across the document, while deferrals are held here until the caller
+ * decides whether the markup they belong to is kept.
+ */
+export const createBoundaryStream = (parent?: BoundaryStream): BoundaryStream => {
+	let sequence = 0;
+	let pending: StreamedBoundary[] = [];
+
+	return {
+		nextId: parent ? parent.nextId : () => String((sequence += 1)),
+		defer: (boundary) => {
+			pending.push(boundary);
+		},
+		takePending: () => {
+			const taken = pending;
+			pending = [];
+			return taken;
+		},
+	};
+};
+
+const streamStorage = new AsyncLocalStorage<BoundaryStream | null>();
+
+/**
+ * Runs `fn` with `stream` as the ambient boundary stream. Pass `null` to
+ * render without deferral, which is what a fallback does: a fallback is
+ * already the thing being shown while waiting.
+ */
+export const runWithBoundaryStream = <T>(
+	stream: BoundaryStream | null,
+	fn: () => T
+): T => streamStorage.run(stream, fn);
+
+/** The ambient stream, or null outside a streamed render. */
+export const getBoundaryStream = (): BoundaryStream | null =>
+	streamStorage.getStore() ?? null;
+
+/** Opening marker of a deferred boundary's fallback. */
+export const boundaryStartMarker = (id: string): string => `<!--eb:${id}-->`;
+
+/** Closing marker of a deferred boundary's fallback. */
+export const boundaryEndMarker = (id: string): string => `<!--/eb:${id}-->`;
+
+/**
+ * Installs `$EFB(id)`, sent once before the first resolved boundary.
+ *
+ * It replaces what lies between the boundary's markers with the template's
+ * content, then removes the markers and the template, so the DOM the client
+ * hydrates is exactly what an in-place render would have produced. Without a
+ * template — a boundary that failed to resolve — it keeps the fallback and
+ * only drops the markers.
+ */
+export const BOUNDARY_SWAP_RUNTIME =
+	'<script>$EFB=function(i){var d=document,t=d.getElementById("eb-"+i),w=d.createTreeWalker(d.body,128),s,e,n;while((n=w.nextNode())){if(n.data==="eb:"+i)s=n;else if(n.data==="/eb:"+i){e=n;break}}if(!s||!e)return;var p=s.parentNode;if(t){while(s.nextSibling!==e)p.removeChild(s.nextSibling);p.insertBefore(t.content,e);t.remove()}p.removeChild(s);p.removeChild(e)}</script>';
+
+const serializeBoundaryState = (
+	id: string,
+	state: Record<string, unknown>
+): string => {
+	// The same break-out guard the document payload uses.
+	const json = JSON.stringify(state).replace(/</g, '\\u003c');
+	return `<script type="application/json" ${BOUNDARY_STATE_ATTRIBUTE}="${id}">${json}</script>`;
+};
+
+/**
+ * The chunk that completes boundary `id`. `content` is null when the boundary
+ * could not be rendered; the fallback then stays, unmarked, for the client to
+ * take over.
+ */
+export const renderBoundaryChunk = (
+	id: string,
+	content: ResolvedBoundaryContent | null
+): string => {
+	if (!content) return `<script>$EFB("${id}")</script>`;
+	const state =
+		Object.keys(content.state).length > 0
+			? serializeBoundaryState(id, content.state)
+			: '';
+	return `<template id="eb-${id}">${content.html}</template>${state}<script>$EFB("${id}")</script>`;
+};
@@ -32,6 +32,12 @@ import type { AnyServerValidator, ServerValidator } from './validation.js';
 import type { ServerSchemaInput, ServerSchemaOutput } from './server-schema.js';
 import { createLayerRoutePath, LayerServerClientError } from './client.js';
 import { isStreamResponse } from './response-contract.js';
+import { isEventStreamResponse } from './event-stream.js';
+import {
+	subscribeEventStream,
+	type ServerEventMessage,
+	type ServerEventSubscriptionOptions,
+} from './event-stream-client.js';
 
 type Simplify<T> = { [K in keyof T]: T[K] };
 
@@ -53,8 +59,11 @@ type SourceField<Key extends string, V> = V extends AnyServerValidator
 	? { readonly [K in Key]: SourceInput<V> }
 	: Record<never, never>;
 
-type RequestDefinitionOf<Contract> =
-	Contract extends { readonly schemas: infer Schemas } ? Schemas : never;
+type RequestDefinitionOf<Contract> = Contract extends {
+	readonly schemas: infer Schemas;
+}
+	? Schemas
+	: never;
 
 /** The typed argument for calling a route, derived from its request contract. */
 export type TypedRouteInput<Contract> =
@@ -112,8 +121,10 @@ export type TypedRouteError<Route> =
 			: undefined
 		: undefined;
 
-export interface TypedRouteCallOptions
-	extends Omit<RequestInit, 'body' | 'method'> {
+export interface TypedRouteCallOptions extends Omit<
+	RequestInit,
+	'body' | 'method'
+> {
 	readonly baseUrl?: string | URL;
 	readonly fetch?: typeof fetch;
 	readonly method?: HttpMethod;
@@ -123,7 +134,10 @@ type HasKeys<T> = keyof T extends never ? false : true;
 
 /** A callable for one route: typed input in, typed result out. */
 export type TypedRouteCaller<Route> =
-	RouteContractOf<Route> extends { request: infer Contract; response: infer Response }
+	RouteContractOf<Route> extends {
+		request: infer Contract;
+		response: infer Response;
+	}
 		? HasKeys<TypedRouteInput<Contract>> extends true
 			? (
 					input: TypedRouteInput<Contract>,
@@ -135,8 +149,41 @@ export type TypedRouteCaller<Route> =
 				) => Promise<TypedRouteResult<Response>>
 		: never;
 
+export interface TypedRouteSubscribeOptions
+	extends
+		ServerEventSubscriptionOptions,
+		Omit<RequestInit, 'body' | 'method' | 'signal'> {
+	readonly baseUrl?: string | URL;
+	readonly fetch?: typeof fetch;
+}
+
+/**
+ * The `subscribe()` an event-stream route adds to its caller. Events are typed
+ * by the route's `serverSchema.eventStream(...)` contract.
+ */
+export type TypedRouteSubscriber<Route> =
+	RouteContractOf<Route> extends {
+		request: infer Contract;
+		response: infer Response;
+	}
+		? Response extends { readonly events: infer Events }
+			? {
+					readonly subscribe: HasKeys<TypedRouteInput<Contract>> extends true
+						? (
+								input: TypedRouteInput<Contract>,
+								options?: TypedRouteSubscribeOptions
+							) => AsyncIterable<ServerEventMessage<TypedRouteResult<Events>>>
+						: (
+								input?: TypedRouteInput<Contract>,
+								options?: TypedRouteSubscribeOptions
+							) => AsyncIterable<ServerEventMessage<TypedRouteResult<Events>>>;
+				}
+			: unknown
+		: unknown;
+
 export type TypedRouteClient<Routes extends Record<string, unknown>> = {
-	readonly [K in keyof Routes]: TypedRouteCaller<Routes[K]>;
+	readonly [K in keyof Routes]: TypedRouteCaller<Routes[K]> &
+		TypedRouteSubscriber<Routes[K]>;
 };
 
 export interface TypedRouteClientOptions {
@@ -246,9 +293,37 @@ export const createTypedRouteClient = <
 ): TypedRouteClient<Routes> => {
 	const client: Record<string, unknown> = {};
 
+	const toUrl = (
+		route: AnyTypedServerRoute,
+		input: CallInput,
+		baseUrl: string | URL | undefined
+	): string | URL => {
+		const path = createLayerRoutePath(route.path, {
+			params: input.params as never,
+			query: toQueryRecord(input.query) as never,
+		});
+		return baseUrl ? new URL(path, baseUrl) : path;
+	};
+
+	const toHeaders = (
+		input: CallInput,
+		init: HeadersInit | undefined
+	): Headers => {
+		const headers = new Headers(options.headers);
+		for (const [key, value] of Object.entries(input.headers ?? {})) {
+			if (value !== undefined && value !== null) {
+				headers.set(key, String(value));
+			}
+		}
+		for (const [key, value] of new Headers(init)) {
+			headers.set(key, value);
+		}
+		return headers;
+	};
+
 	for (const [name, route] of Object.entries(routes)) {
 		const isStream = isStreamResponse(route.response);
-		client[name] = async (
+		const call = async (
 			input: CallInput = {},
 			callOptions: TypedRouteCallOptions = {}
 		): Promise<unknown> => {
@@ -259,21 +334,8 @@ export const createTypedRouteClient = <
 				...init
 			} = callOptions;
 
-			const path = createLayerRoutePath(route.path, {
-				params: input.params as never,
-				query: toQueryRecord(input.query) as never,
-			});
-			const url = baseUrl ? new URL(path, baseUrl) : path;
-
-			const headers = new Headers(options.headers);
-			for (const [key, value] of Object.entries(input.headers ?? {})) {
-				if (value !== undefined && value !== null) {
-					headers.set(key, String(value));
-				}
-			}
-			for (const [key, value] of new Headers(init.headers)) {
-				headers.set(key, value);
-			}
+			const url = toUrl(route, input, baseUrl);
+			const headers = toHeaders(input, init.headers);
 
 			const hasBody = input.body !== undefined;
 			if (hasBody && !headers.has('Content-Type')) {
@@ -289,6 +351,48 @@ export const createTypedRouteClient = <
 
 			return readTypedResponse(response, isStream);
 		};
+
+		client[name] = isEventStreamResponse(route.response)
+			? Object.assign(call, {
+					subscribe: (
+						input: CallInput = {},
+						subscribeOptions: TypedRouteSubscribeOptions = {}
+					) => {
+						const {
+							baseUrl = options.baseUrl,
+							fetch: fetchImpl = options.fetch ?? globalThis.fetch,
+							signal,
+							lastEventId,
+							retryMs,
+							reconnect,
+							...init
+						} = subscribeOptions;
+						const url = toUrl(route, input, baseUrl);
+						return subscribeEventStream(
+							async (streamHeaders, streamSignal) => {
+								const headers = toHeaders(input, init.headers);
+								for (const [key, value] of streamHeaders) {
+									headers.set(key, value);
+								}
+								const response = await fetchImpl(url as never, {
+									...init,
+									headers,
+									method: 'GET',
+									signal: streamSignal,
+								});
+								// Throws the typed client error for a non-2xx response.
+								return (await readTypedResponse(response, true)) as Response;
+							},
+							{
+								...(signal ? { signal } : {}),
+								...(lastEventId === undefined ? {} : { lastEventId }),
+								...(retryMs === undefined ? {} : { retryMs }),
+								...(reconnect === undefined ? {} : { reconnect }),
+							}
+						);
+					},
+				})
+			: call;
 	}
 
 	return client as TypedRouteClient<Routes>;
@@ -131,6 +131,22 @@ export interface AssetManifestChunk {
 
 export type AssetManifest = Record<string, AssetManifestChunk>;
 
+export interface ServerPreloadContext {
+	/** The URL being rendered, as handed to `renderToString`. */
+	readonly url: string;
+	/** Aborts when the render no longer needs this preload: another failed. */
+	readonly signal: AbortSignal;
+}
+
+/**
+ * Asynchronous work a render depends on, done before it starts. The entries
+ * returned join the hydration state under their keys; return nothing to add
+ * none.
+ */
+export type ServerPreload = (
+	context: ServerPreloadContext
+) => Promise<Readonly<Record<string, unknown>> | undefined>;
+
 export interface ServerAppOptions {
 	readonly basePath?: string;
 
@@ -153,6 +169,13 @@ export interface ServerAppOptions {
 
 	readonly hydrate?: boolean;
 
+	/**
+	 * Render components declared with `define({ hydrate })` as islands, each
+	 * wrapped in an `<effuse-island>` element that `hydrateIslands` finds on
+	 * the client. Leave off when the client hydrates the whole app.
+	 */
+	readonly islands?: boolean;
+
 	/**
 	 * URL of the client entry module, emitted as an executing
 	 * `<script type="module">`. Use this when there is no build manifest
@@ -168,6 +191,14 @@ export interface ServerAppOptions {
 	 * `<link rel="stylesheet">` tags for its assets, preventing FOUC.
 	 */
 	readonly manifest?: AssetManifest;
+
+	/**
+	 * Run before every render, concurrently, such as a router's data loaders.
+	 * The render itself is synchronous, so anything it needs from the network
+	 * has to be fetched here; it reads the results with `getServerRenderState`
+	 * and the client receives them in the hydration payload.
+	 */
+	readonly preload?: readonly ServerPreload[];
 }
 
 export interface RequestContext {
@@ -0,0 +1,293 @@
+// @vitest-environment jsdom
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Effect, SubscriptionRef } from 'effect';
+import {
+	CreateBlueprintNode,
+	CreateElementNode,
+	EFFUSE_NODE,
+	HYDRATION_SCRIPT_ID,
+	createApp,
+	define,
+} from '@effuse/core';
+import { createMemoryHistory } from '../core/history.js';
+import { createRouter, installRouter } from '../core/router.js';
+import { clearContext } from '../core/context.js';
+import { ROUTE_LOADER_STATE_KEY } from '../core/loaders.js';
+import type { RouteLoaderContext } from '../core/route.js';
+import { NavigationFailure } from '../navigation/errors.js';
+import { useLoaderData } from '../utils/composables.js';
+import { RouterView } from '../components/RouterView.js';
+
+const Page = define({ script: () => ({}), template: () => 'page' });
+
+/** A loader that resolves when the test says so, recording its calls. */
+const deferredLoader = <T>() => {
+	const calls: RouteLoaderContext[] = [];
+	const pending: ((value: T) => void)[] = [];
+	const loader = (context: RouteLoaderContext): Promise<T> => {
+		calls.push(context);
+		return new Promise<T>((resolve) => pending.push(resolve));
+	};
+	const resolveAll = (value: T): void => {
+		for (const resolve of pending.splice(0)) resolve(value);
+	};
+	return { loader, calls, resolveAll };
+};
+
+const flush = async (): Promise<void> => {
+	for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const currentPath = (router: ReturnType<typeof createRouter>): string =>
+	Effect.runSync(SubscriptionRef.get(router.currentRoute)).fullPath;
+
+const outlet = () =>
+	CreateBlueprintNode({
+		[EFFUSE_NODE]: true,
+		blueprint: RouterView,
+		props: {},
+		portals: null,
+	});
+
+/** A view that prints its record's loader data next to an optional outlet. */
+const showLoaderData = (testId: string, nested = false) =>
+	define({
+		script: () => ({ data: useLoaderData<() => Promise<string>>() }),
+		template: ({ data }) =>
+			CreateElementNode({
+				[EFFUSE_NODE]: true,
+				tag: 'section',
+				props: { 'data-testid': testId },
+				children: [
+					CreateElementNode({
+						[EFFUSE_NODE]: true,
+						tag: 'span',
+						props: {},
+						children: [() => data.value ?? 'none'],
+					}),
+					...(nested ? [outlet()] : []),
+				],
+			}),
+	});
+
+const textOf = (testId: string): string | undefined =>
+	document.querySelector(`[data-testid="${testId}"] > span`)?.textContent ??
+	undefined;
+
+describe('route loaders', () => {
+	beforeEach(() => {
+		clearContext();
+		document.body.innerHTML = '<div id="app"></div>';
+	});
+
+	it('runs every matched loader in parallel before committing', async () => {
+		const account = deferredLoader<string>();
+		const profile = deferredLoader<string>();
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{
+					path: '/account',
+					component: Page,
+					loader: account.loader,
+					children: [
+						{ path: 'profile', component: Page, loader: profile.loader },
+					],
+				},
+			],
+		});
+
+		const pushed = router.push('/account/profile?tab=keys');
+		await flush();
+
+		expect(account.calls).toHaveLength(1);
+		expect(profile.calls).toHaveLength(1);
+		expect(profile.calls[0]?.query).toEqual({ tab: 'keys' });
+		expect(currentPath(router)).toBe('/');
+
+		account.resolveAll('account');
+		profile.resolveAll('profile');
+		await pushed;
+
+		expect(currentPath(router)).toBe('/account/profile?tab=keys');
+	});
+
+	it('passes the route params to the loader', async () => {
+		const user = deferredLoader<string>();
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{ path: '/users/:id', component: Page, loader: user.loader },
+			],
+		});
+
+		const pushed = router.push('/users/42');
+		await flush();
+		user.resolveAll('user');
+		await pushed;
+
+		expect(user.calls[0]?.params).toEqual({ id: '42' });
+	});
+
+	it('aborts the loaders of a superseded navigation', async () => {
+		const slow = deferredLoader<string>();
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{ path: '/slow', component: Page, loader: slow.loader },
+				{ path: '/fast', component: Page },
+			],
+		});
+
+		const first = router.push('/slow');
+		await flush();
+		const second = await router.push('/fast');
+		slow.resolveAll('late');
+
+		expect(slow.calls[0]?.signal.aborted).toBe(true);
+		expect(NavigationFailure.isAborted(await first)).toBe(true);
+		expect(NavigationFailure.isNavigationFailure(second)).toBe(false);
+		expect(currentPath(router)).toBe('/fast');
+	});
+
+	it('fails the navigation when a loader rejects', async () => {
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{
+					path: '/broken',
+					component: Page,
+					loader: () => Promise.reject(new Error('upstream down')),
+				},
+			],
+		});
+
+		const result = await router.push('/broken');
+
+		expect(NavigationFailure.isLoaderFailed(result)).toBe(true);
+		expect(
+			NavigationFailure.isLoaderFailed(result) ? result.error.message : ''
+		).toBe('upstream down');
+		expect(currentPath(router)).toBe('/');
+	});
+
+	it('does not load for a navigation a guard cancels', async () => {
+		const guarded = deferredLoader<string>();
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{
+					path: '/admin',
+					component: Page,
+					loader: guarded.loader,
+					beforeEnter: () => false,
+				},
+			],
+		});
+
+		await router.push('/admin');
+
+		expect(guarded.calls).toEqual([]);
+	});
+
+	it("gives each nested view its own record's data", async () => {
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{
+					path: '/account',
+					component: showLoaderData('layout', true),
+					loader: () => Promise.resolve('layout data'),
+					children: [
+						{
+							path: 'profile',
+							component: showLoaderData('profile'),
+							loader: () => Promise.resolve('profile data'),
+						},
+					],
+				},
+			],
+		});
+		installRouter(router);
+		await router.push('/account/profile');
+
+		await createApp(define({ script: () => ({}), template: outlet })).mount(
+			'#app'
+		);
+		await flush();
+
+		expect(textOf('layout')).toBe('layout data');
+		expect(textOf('profile')).toBe('profile data');
+	});
+
+	it('adopts the data the server rendered with instead of loading again', async () => {
+		const script = document.createElement('script');
+		script.id = HYDRATION_SCRIPT_ID;
+		script.type = 'application/json';
+		script.textContent = JSON.stringify({
+			head: {},
+			url: '/users/42',
+			state: {
+				[ROUTE_LOADER_STATE_KEY]: { url: '/users/42', data: ['from server'] },
+			},
+		});
+		document.body.append(script);
+
+		let loads = 0;
+		const router = createRouter({
+			history: createMemoryHistory('/users/42'),
+			routes: [
+				{
+					path: '/users/:id',
+					component: showLoaderData('user'),
+					loader: () => {
+						loads++;
+						return Promise.resolve('from client');
+					},
+				},
+			],
+		});
+		installRouter(router);
+
+		await createApp(define({ script: () => ({}), template: outlet })).mount(
+			'#app'
+		);
+		await flush();
+
+		expect(loads).toBe(0);
+		expect(textOf('user')).toBe('from server');
+	});
+
+	it('loads on start when the server sent no data for the page', async () => {
+		const router = createRouter({
+			history: createMemoryHistory('/users/42'),
+			routes: [
+				{
+					path: '/users/:id',
+					component: showLoaderData('user'),
+					loader: ({ params }) => Promise.resolve(`user ${params.id ?? ''}`),
+				},
+			],
+		});
+		installRouter(router);
+
+		await createApp(define({ script: () => ({}), template: outlet })).mount(
+			'#app'
+		);
+		await flush();
+
+		expect(textOf('user')).toBe('user 42');
+	});
+});
@@ -0,0 +1,394 @@
+// @vitest-environment jsdom
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	CreateBlueprintNode,
+	EFFUSE_NODE,
+	createApp,
+	define,
+} from '@effuse/core';
+import { Link } from '../components/Link.js';
+import { createMemoryHistory } from '../core/history.js';
+import {
+	createRouter,
+	installRouter,
+	type RouterOptions,
+} from '../core/router.js';
+import { clearContext } from '../core/context.js';
+import { lazyRouteComponent, type RouteRecord } from '../core/route.js';
+import type { PrefetchStrategy } from '../core/prefetch.js';
+
+const Page = define({ script: () => ({}), template: () => 'page' });
+
+const flush = async (): Promise<void> => {
+	for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+/** Routes whose `/users/:id` chunk and loader count how often they run. */
+const countedRoutes = () => {
+	const counts = { chunk: 0, loader: 0 };
+	const routes: RouteRecord[] = [
+		{ path: '/', component: Page },
+		{
+			path: '/users/:id',
+			component: lazyRouteComponent(() => {
+				counts.chunk++;
+				return Promise.resolve({ default: Page });
+			}),
+			loader: ({ params }) => {
+				counts.loader++;
+				return Promise.resolve(`user ${params.id ?? ''}`);
+			},
+		},
+		{ path: '/old', redirect: '/' },
+	];
+	return { counts, routes };
+};
+
+const setSaveData = (saveData: boolean | undefined): void => {
+	Object.defineProperty(navigator, 'connection', {
+		configurable: true,
+		value: saveData === undefined ? undefined : { saveData },
+	});
+};
+
+describe('router.prefetch', () => {
+	beforeEach(() => {
+		clearContext();
+		setSaveData(undefined);
+		vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("warms the target's lazy chunk and runs its loader", async () => {
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({ history: createMemoryHistory('/'), routes });
+
+		await router.prefetch('/users/1');
+
+		expect(counts).toEqual({ chunk: 1, loader: 1 });
+	});
+
+	it('shares one load between prefetches of the same URL', async () => {
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({ history: createMemoryHistory('/'), routes });
+
+		await Promise.all([
+			router.prefetch('/users/1'),
+			router.prefetch('/users/1#bio'),
+			router.prefetch({ path: '/users/1' }),
+		]);
+		await router.prefetch('/users/2');
+
+		expect(counts.loader).toBe(2);
+	});
+
+	it('hands the prefetched data to the navigation instead of loading again', async () => {
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({ history: createMemoryHistory('/'), routes });
+
+		await router.prefetch('/users/1');
+		await router.push('/users/1');
+
+		expect(counts.loader).toBe(1);
+	});
+
+	it('loads again once the data has gone stale', async () => {
+		vi.useFakeTimers();
+		try {
+			const { counts, routes } = countedRoutes();
+			const router = createRouter({
+				history: createMemoryHistory('/'),
+				routes,
+			});
+
+			await router.prefetch('/users/1');
+			vi.advanceTimersByTime(60_000);
+			await router.push('/users/1');
+
+			expect(counts.loader).toBe(2);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('aborts a prefetch that goes stale while still loading', async () => {
+		vi.useFakeTimers();
+		try {
+			const signals: AbortSignal[] = [];
+			const router = createRouter({
+				history: createMemoryHistory('/'),
+				routes: [
+					{ path: '/', component: Page },
+					{
+						path: '/slow',
+						component: Page,
+						loader: ({ signal }) => {
+							signals.push(signal);
+							return signals.length === 1
+								? new Promise(() => undefined)
+								: Promise.resolve('ok');
+						},
+					},
+				],
+			});
+
+			void router.prefetch('/slow');
+			vi.advanceTimersByTime(60_000);
+			await router.push('/slow');
+
+			expect(signals).toHaveLength(2);
+			expect(signals[0]?.aborted).toBe(true);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('aborts the prefetched load when a newer navigation supersedes it', async () => {
+		let prefetched: AbortSignal | undefined;
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{ path: '/other', component: Page },
+				{
+					path: '/slow',
+					component: Page,
+					loader: ({ signal }) => {
+						prefetched = signal;
+						return new Promise((_, reject) => {
+							signal.addEventListener('abort', () => {
+								reject(new Error('aborted'));
+							});
+						});
+					},
+				},
+			],
+		});
+
+		void router.prefetch('/slow');
+		const slow = router.push('/slow');
+		await flush();
+		const other = await router.push('/other');
+		await slow;
+
+		expect(prefetched?.aborted).toBe(true);
+		expect(other).toMatchObject({ fullPath: '/other' });
+	});
+
+	it('lets the navigation load for itself after a failed prefetch', async () => {
+		let attempts = 0;
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes: [
+				{ path: '/', component: Page },
+				{
+					path: '/flaky',
+					component: Page,
+					loader: () =>
+						++attempts === 1
+							? Promise.reject(new Error('offline'))
+							: Promise.resolve('ok'),
+				},
+			],
+		});
+
+		await expect(router.prefetch('/flaky')).resolves.toBeUndefined();
+		const result = await router.push('/flaky');
+
+		expect(attempts).toBe(2);
+		expect(result).toMatchObject({ fullPath: '/flaky' });
+	});
+
+	it('fetches nothing when the browser asks to save data', async () => {
+		setSaveData(true);
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({ history: createMemoryHistory('/'), routes });
+
+		await router.prefetch('/users/1');
+
+		expect(counts).toEqual({ chunk: 0, loader: 0 });
+	});
+
+	it('skips a redirecting route', async () => {
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({ history: createMemoryHistory('/'), routes });
+
+		await router.prefetch('/old');
+
+		expect(counts).toEqual({ chunk: 0, loader: 0 });
+	});
+});
+
+describe('Link prefetch', () => {
+	const mountedApps: Array<{ unmount: () => Promise<void> }> = [];
+	let observed: Element[];
+	let intersect: () => void;
+
+	beforeEach(() => {
+		clearContext();
+		setSaveData(undefined);
+		document.body.innerHTML = '<div id="app"></div>';
+		observed = [];
+		intersect = () => undefined;
+		vi.stubGlobal(
+			'IntersectionObserver',
+			class {
+				constructor(
+					callback: (entries: { isIntersecting: boolean }[]) => void
+				) {
+					intersect = () => {
+						callback([{ isIntersecting: true }]);
+					};
+				}
+				observe(element: Element): void {
+					observed.push(element);
+				}
+				disconnect(): void {
+					intersect = () => undefined;
+				}
+			}
+		);
+	});
+
+	afterEach(async () => {
+		for (const mounted of mountedApps.splice(0)) await mounted.unmount();
+		vi.unstubAllGlobals();
+	});
+
+	const mountLinks = async (
+		prefetch: PrefetchStrategy | undefined,
+		options: Partial<RouterOptions> = {},
+		count = 1
+	) => {
+		const { counts, routes } = countedRoutes();
+		const router = createRouter({
+			history: createMemoryHistory('/'),
+			routes,
+			...options,
+		});
+		installRouter(router);
+		const props = prefetch === undefined ? {} : { prefetch };
+		const Shell = define({
+			script: () => ({}),
+			template: () =>
+				Array.from({ length: count }, () =>
+					CreateBlueprintNode({
+						[EFFUSE_NODE]: true,
+						blueprint: Link,
+						props: { to: '/users/1', children: 'User', ...props },
+						portals: null,
+					})
+				),
+		});
+		mountedApps.push(await createApp(Shell).mount('#app'));
+		await flush();
+		return { counts, anchors: [...document.querySelectorAll('a')] };
+	};
+
+	it('prefetches on hover', async () => {
+		const { counts, anchors } = await mountLinks('hover');
+
+		anchors[0]?.dispatchEvent(new MouseEvent('mouseenter'));
+		await flush();
+
+		expect(counts).toEqual({ chunk: 1, loader: 1 });
+	});
+
+	it.each([
+		['hover', new MouseEvent('mouseenter')],
+		['focus', new FocusEvent('focus')],
+		['touch', new Event('touchstart')],
+	])('prefetches on %s for intent', async (_name, event) => {
+		const { counts, anchors } = await mountLinks('intent');
+
+		anchors[0]?.dispatchEvent(event);
+		await flush();
+
+		expect(counts.loader).toBe(1);
+	});
+
+	it('does not prefetch on focus for hover', async () => {
+		const { counts, anchors } = await mountLinks('hover');
+
+		anchors[0]?.dispatchEvent(new FocusEvent('focus'));
+		await flush();
+
+		expect(counts.loader).toBe(0);
+	});
+
+	it('prefetches once the link scrolls into view', async () => {
+		const { counts, anchors } = await mountLinks('visible');
+
+		expect(observed).toEqual([anchors[0]]);
+		expect(counts.loader).toBe(0);
+		intersect();
+		await flush();
+
+		expect(counts.loader).toBe(1);
+	});
+
+	it("falls back to the router's default strategy", async () => {
+		const { counts, anchors } = await mountLinks(undefined, {
+			prefetch: 'hover',
+		});
+
+		anchors[0]?.dispatchEvent(new MouseEvent('mouseenter'));
+		await flush();
+
+		expect(counts.loader).toBe(1);
+	});
+
+	it('does not prefetch by default', async () => {
+		const { counts, anchors } = await mountLinks(undefined);
+
+		anchors[0]?.dispatchEvent(new MouseEvent('mouseenter'));
+		await flush();
+
+		expect(counts).toEqual({ chunk: 0, loader: 0 });
+	});
+
+	it('loads once for many links to the same route', async () => {
+		const { counts, anchors } = await mountLinks('hover', {}, 3);
+
+		for (const anchor of anchors) {
+			anchor.dispatchEvent(new MouseEvent('mouseenter'));
+		}
+		await flush();
+
+		expect(anchors).toHaveLength(3);
+		expect(counts.loader).toBe(1);
+	});
+
+	it('still calls a handler of its own', async () => {
+		const onMouseEnter = vi.fn();
+		const { counts, routes } = countedRoutes();
+		installRouter(createRouter({ history: createMemoryHistory('/'), routes }));
+		const Shell = define({
+			script: () => ({}),
+			template: () =>
+				CreateBlueprintNode({
+					[EFFUSE_NODE]: true,
+					blueprint: Link,
+					props: { to: '/users/1', prefetch: 'hover', onMouseEnter },
+					portals: null,
+				}),
+		});
+		mountedApps.push(await createApp(Shell).mount('#app'));
+		await flush();
+
+		document.querySelector('a')?.dispatchEvent(new MouseEvent('mouseenter'));
+		await flush();
+
+		expect(onMouseEnter).toHaveBeenCalledOnce();
+		expect(counts.loader).toBe(1);
+	});
+});
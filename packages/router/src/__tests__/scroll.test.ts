@@ -0,0 +1,257 @@
+// @vitest-environment jsdom
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { define } from '@effuse/core';
+import { createMemoryHistory, createWebHistory } from '../core/history.js';
+import { createRouter, type ScrollBehavior } from '../core/router.js';
+import { clearContext } from '../core/context.js';
+import type { ScrollPosition, ScrollTarget } from '../core/scroll.js';
+
+const Page = define({ script: () => ({}), template: () => 'page' });
+
+const routes = [
+	{ path: '/', component: Page },
+	{ path: '/list', component: Page },
+	{ path: '/detail', component: Page },
+];
+
+/** Long enough for the frame the router waits on before scrolling. */
+const afterRender = (): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('scroll restoration', () => {
+	let windowTop: number;
+	let scrolledTo: ScrollToOptions[];
+
+	beforeEach(() => {
+		clearContext();
+		windowTop = 0;
+		scrolledTo = [];
+		Object.defineProperty(window, 'scrollY', {
+			configurable: true,
+			get: () => windowTop,
+		});
+		vi.spyOn(window, 'scrollTo').mockImplementation(((
+			options: ScrollToOptions
+		) => {
+			scrolledTo.push(options);
+			windowTop = options.top ?? 0;
+		}) as typeof window.scrollTo);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	const startRouter = (
+		scrollBehavior: ScrollBehavior,
+		extra: { readonly scrollContainer?: Element } = {}
+	) => {
+		const history = createMemoryHistory('/');
+		const router = createRouter({ history, routes, scrollBehavior, ...extra });
+		router.start();
+		return { history, router };
+	};
+
+	it('returns to where a list was left on back', async () => {
+		const seen: (ScrollPosition | null)[] = [];
+		const { history, router } = startRouter((_to, _from, saved) => {
+			seen.push(saved);
+			return saved ?? { top: 0 };
+		});
+
+		await router.push('/list');
+		await afterRender();
+		windowTop = 1800;
+		await router.push('/detail');
+		await afterRender();
+
+		history.back();
+		await afterRender();
+
+		expect(seen).toEqual([null, null, { left: 0, top: 1800 }]);
+		expect(scrolledTo.at(-1)).toMatchObject({ top: 1800 });
+	});
+
+	it('restores the entry returned to on forward as well', async () => {
+		const { history, router } = startRouter((_to, _from, saved) => saved);
+
+		await router.push('/list');
+		await router.push('/detail');
+		await afterRender();
+		windowTop = 640;
+		history.back();
+		await afterRender();
+		windowTop = 0;
+		history.forward();
+		await afterRender();
+
+		expect(scrolledTo.at(-1)).toMatchObject({ top: 640 });
+	});
+
+	it('waits for the new view before scrolling', async () => {
+		const behavior = vi.fn<ScrollBehavior>(() => ({ top: 0 }));
+		const { router } = startRouter(behavior);
+
+		await router.push('/list');
+
+		expect(behavior).not.toHaveBeenCalled();
+		await afterRender();
+		expect(behavior).toHaveBeenCalledTimes(1);
+	});
+
+	it('leaves the position alone when the behavior returns nothing', async () => {
+		const { router } = startRouter(() => undefined);
+
+		await router.push('/list');
+		await afterRender();
+
+		expect(scrolledTo).toEqual([]);
+	});
+
+	it('scrolls to a hash anchor, offset for a sticky header', async () => {
+		document.body.innerHTML = '<h2 id="1-intro">Intro</h2>';
+		const anchor = document.getElementById('1-intro');
+		vi.spyOn(anchor as Element, 'getBoundingClientRect').mockReturnValue({
+			top: 500,
+			left: 0,
+		} as DOMRect);
+		windowTop = 100;
+		const { router } = startRouter((to): ScrollTarget | undefined =>
+			to.hash ? { el: to.hash, top: 64 } : undefined
+		);
+
+		await router.push('/detail#1-intro');
+		await afterRender();
+
+		expect(scrolledTo.at(-1)).toMatchObject({ top: 500 + 100 - 64 });
+	});
+
+	it('ignores an anchor that is not on the page', async () => {
+		const { router } = startRouter(() => ({ el: '#missing' }));
+
+		await router.push('/detail');
+		await afterRender();
+
+		expect(scrolledTo).toEqual([]);
+	});
+
+	it('restores the position kept in the entry after a reload', async () => {
+		const seen: (ScrollPosition | null)[] = [];
+		const scrollBehavior: ScrollBehavior = (_to, _from, saved) => {
+			seen.push(saved);
+			return saved;
+		};
+		const history = createMemoryHistory('/');
+		const before = createRouter({ history, routes, scrollBehavior });
+		const stop = before.start();
+
+		await before.push('/list');
+		windowTop = 1800;
+		window.dispatchEvent(new Event('pagehide'));
+		stop();
+
+		clearContext();
+		windowTop = 0;
+		createRouter({ history, routes, scrollBehavior }).start();
+		await afterRender();
+
+		expect(seen.at(-1)).toEqual({ left: 0, top: 1800 });
+		expect(scrolledTo.at(-1)).toMatchObject({ top: 1800 });
+	});
+
+	it('keeps positions in the browser entry state with web history', async () => {
+		window.history.replaceState(
+			{ key: 'returning', scroll: { left: 0, top: 500 } },
+			'',
+			'/list'
+		);
+		const seen: (ScrollPosition | null)[] = [];
+		const router = createRouter({
+			history: createWebHistory(),
+			routes,
+			scrollBehavior: (_to, _from, saved) => {
+				seen.push(saved);
+				return saved;
+			},
+		});
+		const stop = router.start();
+		await afterRender();
+
+		expect(seen).toEqual([{ left: 0, top: 500 }]);
+
+		await router.push('/detail');
+		windowTop = 300;
+		window.dispatchEvent(new Event('pagehide'));
+		stop();
+
+		expect(window.history.state).toMatchObject({
+			scroll: { left: 0, top: 300 },
+		});
+		window.history.replaceState(null, '', '/');
+	});
+
+	it('saves and restores a scrollable container instead of the window', async () => {
+		const container = document.createElement('main');
+		document.body.append(container);
+		const containerScrolls: ScrollToOptions[] = [];
+		container.scrollTo = ((options: ScrollToOptions) => {
+			containerScrolls.push(options);
+			container.scrollTop = options.top ?? 0;
+		}) as typeof container.scrollTo;
+		const { history, router } = startRouter((_to, _from, saved) => saved, {
+			scrollContainer: container,
+		});
+
+		await router.push('/list');
+		container.scrollTop = 900;
+		await router.push('/detail');
+		history.back();
+		await afterRender();
+
+		expect(containerScrolls.at(-1)).toMatchObject({ top: 900 });
+		expect(scrolledTo).toEqual([]);
+	});
+});
+
+describe('history entry keys', () => {
+	it('are stable across back and forward in memory history', () => {
+		const history = createMemoryHistory('/');
+		const first = history.getStateKey?.();
+		history.push('/list');
+		const second = history.getStateKey?.();
+
+		history.back();
+		expect(history.getCurrentPath()).toBe('/');
+		expect(history.getStateKey?.()).toBe(first);
+
+		history.forward();
+		expect(history.getCurrentPath()).toBe('/list');
+		expect(history.getStateKey?.()).toBe(second);
+		expect(second).not.toBe(first);
+	});
+
+	it('survive a replace', () => {
+		const history = createMemoryHistory('/');
+		const key = history.getStateKey?.();
+
+		history.replace('/other');
+
+		expect(history.getStateKey?.()).toBe(key);
+	});
+
+	it('are kept in the browser entry state by web history', () => {
+		const history = createWebHistory();
+		history.push('/keyed');
+		const key = history.getStateKey?.();
+
+		expect(key).toEqual(expect.any(String));
+		expect((window.history.state as { key?: string }).key).toBe(key);
+	});
+});
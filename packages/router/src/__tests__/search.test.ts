@@ -0,0 +1,167 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Effect, Schema, SubscriptionRef } from 'effect';
+import { define } from '@effuse/core';
+import { createMemoryHistory } from '../core/history.js';
+import { createRouter, installRouter } from '../core/router.js';
+import { clearContext } from '../core/context.js';
+import { searchArray } from '../core/search.js';
+import { setSearch, useSearch } from '../utils/composables.js';
+import { createTypedNavigator, defineRoutes } from '../types/index.js';
+
+const Page = define({ script: () => ({}), template: () => 'page' });
+
+const itemsSearch = Schema.Struct({
+	page: Schema.optionalWith(Schema.NumberFromString, { default: () => 1 }),
+	archived: Schema.optionalWith(Schema.BooleanFromString, {
+		default: () => false,
+	}),
+	tag: Schema.optionalWith(searchArray(Schema.String), {
+		default: () => [],
+	}),
+	q: Schema.optional(Schema.String),
+});
+
+const routes = defineRoutes([
+	{ path: '/', component: Page },
+	{ path: '/items', name: 'items', component: Page, search: itemsSearch },
+]);
+
+const start = (path: string) => {
+	const history = createMemoryHistory(path);
+	const router = installRouter(createRouter({ history, routes }));
+	return { history, router };
+};
+
+const currentFullPath = (router: ReturnType<typeof createRouter>): string =>
+	Effect.runSync(SubscriptionRef.get(router.currentRoute)).fullPath;
+
+describe('useSearch', () => {
+	beforeEach(() => {
+		clearContext();
+	});
+
+	it("decodes the query with the route's schema", () => {
+		start('/items?page=3&archived=true&tag=a&tag=b&q=lamp');
+
+		expect(useSearch().value).toEqual({
+			page: 3,
+			archived: true,
+			tag: ['a', 'b'],
+			q: 'lamp',
+		});
+	});
+
+	it('fills in defaults for missing keys', () => {
+		start('/items');
+
+		expect(useSearch().value).toEqual({ page: 1, archived: false, tag: [] });
+	});
+
+	it('takes a single value for an array field', () => {
+		start('/items?tag=a');
+
+		expect(useSearch().value).toMatchObject({ tag: ['a'] });
+	});
+
+	it('falls back to the default for a value that does not decode', () => {
+		start('/items?page=abc&archived=true');
+
+		expect(useSearch().value).toMatchObject({ page: 1, archived: true });
+	});
+
+	it('is typed by a schema passed in', () => {
+		start('/items?page=4');
+
+		const page: number = useSearch(itemsSearch).value.page;
+
+		expect(page).toBe(4);
+	});
+
+	it('follows navigation', async () => {
+		const { router } = start('/items?page=2');
+		const search = useSearch(itemsSearch);
+
+		await router.push('/items?page=5');
+
+		expect(search.value.page).toBe(5);
+	});
+
+	it('returns the raw query for a route without a schema', () => {
+		start('/?x=1');
+
+		expect(useSearch().value).toEqual({ x: '1' });
+	});
+});
+
+describe('setSearch', () => {
+	beforeEach(() => {
+		clearContext();
+	});
+
+	it('changes one key and keeps the rest, unknown keys included', async () => {
+		const { router } = start('/items?page=2&q=lamp&utm=mail');
+
+		await setSearch<typeof itemsSearch.Type>({ archived: true });
+
+		expect(currentFullPath(router)).toBe(
+			'/items?page=2&q=lamp&utm=mail&archived=true'
+		);
+	});
+
+	it('drops keys set back to their default', async () => {
+		const { router } = start('/items?page=2&archived=true');
+
+		await setSearch<typeof itemsSearch.Type>({ page: 1 });
+
+		expect(currentFullPath(router)).toBe('/items?archived=true');
+	});
+
+	it('removes an optional key set to undefined', async () => {
+		const { router } = start('/items?q=lamp&page=2');
+
+		await setSearch<typeof itemsSearch.Type>({ q: undefined });
+
+		expect(currentFullPath(router)).toBe('/items?page=2');
+	});
+
+	it('replaces the history entry when asked', async () => {
+		const { history, router } = start('/');
+		await router.push('/items');
+
+		await setSearch<typeof itemsSearch.Type>({ page: 2 }, { replace: true });
+		history.back();
+
+		expect(currentFullPath(router)).toBe('/');
+	});
+});
+
+describe('createTypedNavigator with a search schema', () => {
+	beforeEach(() => {
+		clearContext();
+	});
+
+	const items = createTypedNavigator('items', undefined, itemsSearch);
+
+	it('encodes typed search values into the link', () => {
+		expect(items.to({}, { page: 2, tag: ['a', 'b'] })).toEqual({
+			name: 'items',
+			params: {},
+			query: { page: '2', tag: ['a', 'b'] },
+		});
+	});
+
+	it('reads and updates the search of its route', async () => {
+		const { router } = start('/items?page=2');
+
+		expect(items.useSearch().value.page).toBe(2);
+		await items.setSearch({ tag: ['x'] });
+
+		expect(currentFullPath(router)).toBe('/items?page=2&tag=x');
+	});
+});
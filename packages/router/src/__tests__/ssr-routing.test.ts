@@ -11,6 +11,7 @@ import {
 	CreateElementNode,
 	EFFUSE_NODE,
 	getServerRenderUrl,
+	type ServerAppOptions,
 } from '@effuse/core';
 import { Effect, SubscriptionRef } from 'effect';
 import {
@@ -18,6 +19,10 @@ import {
 	createWebHistory,
 	createMemoryHistory,
 	defineRoutes,
+	preloadRouteData,
+	runWithRouter,
+	useLoaderData,
+	ROUTE_LOADER_STATE_KEY,
 } from '../index.js';
 
 const routes = defineRoutes([
@@ -28,7 +33,8 @@ const routes = defineRoutes([
 /** Render `url`, running `probe` inside the render, and return what it saw. */
 const duringRender = async <T>(
 	url: string,
-	probe: () => T
+	probe: () => T,
+	options: ServerAppOptions = {}
 ): Promise<T> => {
 	let seen!: T;
 	const Root = define({
@@ -44,7 +50,7 @@ const duringRender = async <T>(
 				children: ['x'] as never,
 			}),
 	}) as never;
-	await createServerApp(Root).renderToString(url);
+	await createServerApp(Root).configure(options).renderToString(url);
 	return seen;
 };
 
@@ -98,6 +104,70 @@ describe('web history during a server render', () => {
 	});
 });
 
+describe('loader data during a server render', () => {
+	const loaded: string[] = [];
+	const loaderRoutes = defineRoutes([
+		{ path: '/', name: 'home', component: {} as never },
+		{
+			path: '/users/:id',
+			name: 'user',
+			component: {} as never,
+			loader: ({ params }) => {
+				loaded.push(params.id ?? '');
+				return Promise.resolve({ id: params.id });
+			},
+		},
+	]);
+
+	const readLoaderData = () => {
+		const router = createRouter({
+			history: createWebHistory(),
+			routes: loaderRoutes,
+		});
+		return runWithRouter(router, () => useLoaderData().value);
+	};
+
+	it('is loaded before the render and readable during it', async () => {
+		loaded.length = 0;
+
+		const data = await duringRender('/users/7', readLoaderData, {
+			preload: [preloadRouteData(loaderRoutes)],
+		});
+
+		expect(data).toEqual({ id: '7' });
+		expect(loaded).toEqual(['7']);
+	});
+
+	it('travels in the hydration payload', async () => {
+		const Root = define({
+			script: () => ({}),
+			template: () => 'x',
+		}) as never;
+
+		const result = await createServerApp(Root)
+			.configure({ preload: [preloadRouteData(loaderRoutes)] })
+			.renderToString('/users/7?tab=a');
+
+		expect(result.state[ROUTE_LOADER_STATE_KEY]).toEqual({
+			url: '/users/7?tab=a',
+			data: [{ id: '7' }],
+		});
+	});
+
+	it('adds nothing for a page without loaders', async () => {
+		const Root = define({
+			script: () => ({}),
+			template: () => 'x',
+		}) as never;
+
+		const result = await createServerApp(Root)
+			.configure({ preload: [preloadRouteData(loaderRoutes)] })
+			.renderToString('/');
+
+		expect(result.state).toEqual({});
+	});
+});
+
 describe('unchanged behaviour', () => {
 	it('reports "/" outside a server render', () => {
 		expect(getServerRenderUrl()).toBeNull();
@@ -0,0 +1,219 @@
+// @vitest-environment jsdom
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	CreateBlueprintNode,
+	CreateElementNode,
+	EFFUSE_NODE,
+	createApp,
+	define,
+} from '@effuse/core';
+import { createMemoryHistory } from '../core/history.js';
+import { createRouter, installRouter } from '../core/router.js';
+import { clearContext } from '../core/context.js';
+import type { RouteRecord } from '../core/route.js';
+import { RouterView } from '../components/RouterView.js';
+
+const page = (testId: string) =>
+	define({
+		script: () => ({}),
+		template: () =>
+			CreateElementNode({
+				[EFFUSE_NODE]: true,
+				tag: 'section',
+				props: { 'data-testid': testId },
+				children: [testId],
+			}),
+	});
+
+const routes: RouteRecord[] = [
+	{ path: '/', component: page('home') },
+	{
+		path: '/gallery',
+		component: page('gallery'),
+		meta: { viewTransition: { name: 'gallery', types: ['zoom'] } },
+	},
+	{
+		path: '/photos/:id',
+		component: page('photo'),
+		meta: { viewTransition: 'photo' },
+	},
+];
+
+interface StartedTransition {
+	readonly types: readonly string[] | undefined;
+	readonly before: string | null;
+	after: string | null;
+}
+
+const flush = (): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, 10));
+
+const shownPage = (): string | null =>
+	document.querySelector('section')?.getAttribute('data-testid') ?? null;
+
+const mount = async (viewTransition = true) => {
+	const history = createMemoryHistory('/');
+	const router = createRouter({ history, routes });
+	installRouter(router);
+	const Shell = define({
+		script: () => ({}),
+		template: () =>
+			CreateBlueprintNode({
+				[EFFUSE_NODE]: true,
+				blueprint: RouterView,
+				props: { viewTransition },
+				portals: null,
+			}),
+	});
+	const mounted = await createApp(Shell).mount('#app');
+	await flush();
+	return { history, router, mounted };
+};
+
+describe('RouterView view transitions', () => {
+	let started: StartedTransition[];
+
+	beforeEach(() => {
+		clearContext();
+		document.body.innerHTML = '<div id="app"></div>';
+		vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined);
+		started = [];
+		Object.defineProperty(document, 'startViewTransition', {
+			configurable: true,
+			value: (
+				options:
+					| { update: () => Promise<void>; types?: string[] }
+					| (() => Promise<void>)
+			) => {
+				const { update, types } =
+					typeof options === 'function'
+						? { update: options, types: undefined }
+						: options;
+				const transition: StartedTransition = {
+					types,
+					before: shownPage(),
+					after: null,
+				};
+				started.push(transition);
+				const finished = update().then(() => {
+					transition.after = shownPage();
+				});
+				return { finished };
+			},
+		});
+	});
+
+	afterEach(() => {
+		Reflect.deleteProperty(document, 'startViewTransition');
+		vi.restoreAllMocks();
+	});
+
+	it('swaps the view inside a view transition', async () => {
+		const { router, mounted } = await mount();
+
+		await router.push('/gallery');
+		await flush();
+
+		expect(started).toHaveLength(1);
+		expect(started[0]).toMatchObject({ before: 'home', after: 'gallery' });
+		await mounted.unmount();
+	});
+
+	it("tags the transition with the route's types and the direction", async () => {
+		const { history, router, mounted } = await mount();
+		router.start();
+
+		await router.push('/gallery');
+		await flush();
+		history.back();
+		await flush();
+
+		expect(started.map((transition) => transition.types)).toEqual([
+			['zoom', 'forward'],
+			['back'],
+		]);
+		expect(
+			document.querySelector('.router-view')?.getAttribute('data-navigation')
+		).toBe('back');
+		await mounted.unmount();
+	});
+
+	it('names the view after its route', async () => {
+		const { router, mounted } = await mount();
+
+		await router.push('/photos/1');
+		await flush();
+
+		const content = document.querySelector<HTMLElement>('.router-view-content');
+		expect(content?.style.getPropertyValue('view-transition-name')).toBe(
+			'photo'
+		);
+		await mounted.unmount();
+	});
+
+	it('re-renders in place when only the params change', async () => {
+		const { router, mounted } = await mount();
+		await router.push('/photos/1');
+		await flush();
+
+		await router.push('/photos/2');
+		await flush();
+
+		expect(started).toHaveLength(1);
+		await mounted.unmount();
+	});
+
+	it('leaves the swap alone unless asked', async () => {
+		const { router, mounted } = await mount(false);
+
+		await router.push('/gallery');
+		await flush();
+
+		expect(started).toEqual([]);
+		expect(shownPage()).toBe('gallery');
+		await mounted.unmount();
+	});
+
+	it('falls back to the class-based transition without the API', async () => {
+		Reflect.deleteProperty(document, 'startViewTransition');
+		const { router, mounted } = await mount();
+
+		await router.push('/gallery');
+		await flush();
+
+		const content = document.querySelector('.router-view-content');
+		expect(shownPage()).toBe('gallery');
+		expect(content?.classList.contains('route-enter-active')).toBe(true);
+		expect(content?.querySelector('section')?.textContent).toBe('gallery');
+		await mounted.unmount();
+	});
+});
+
+describe('router.direction', () => {
+	beforeEach(() => {
+		clearContext();
+	});
+
+	it('follows pushes, replaces and traversals', async () => {
+		const history = createMemoryHistory('/');
+		const router = createRouter({ history, routes });
+		router.start();
+
+		expect(router.direction).toBeUndefined();
+		await router.push('/gallery');
+		expect(router.direction).toBe('forward');
+		await router.push('/photos/1');
+		history.back();
+		expect(router.direction).toBe('back');
+		history.forward();
+		expect(router.direction).toBe('forward');
+		await router.replace('/photos/2');
+		expect(router.direction).toBe('replace');
+	});
+});
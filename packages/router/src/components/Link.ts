@@ -32,10 +32,13 @@ import {
 	type Signal,
 	watchEffect,
 	computed,
+	applyRef,
+	type Ref,
 } from '@effuse/core';
 import { getGlobalRouter } from '../core/router.js';
 import { getRouteSignal } from '../core/context.js';
 import type { Route } from '../core/route.js';
+import type { PrefetchStrategy } from '../core/prefetch.js';
 
 interface LinkProps {
 	[key: string]: unknown;
@@ -45,6 +48,8 @@ interface LinkProps {
 	class?: string;
 	className?: string;
 	children?: unknown;
+	/** When to warm the target route; defaults to the router's `prefetch` option. */
+	prefetch?: PrefetchStrategy;
 }
 
 interface LinkState {
@@ -54,6 +59,8 @@ interface LinkState {
 	resolvedActiveClass: string;
 	resolvedExactActiveClass: string;
 	handleClick: (event: MouseEvent) => void;
+	prefetchHandlers: Readonly<Record<string, (event: Event) => void>>;
+	anchorRef: (element: Element | null) => void;
 }
 
 const LINK_CONTROL_PROPS = new Set([
@@ -66,8 +73,17 @@ const LINK_CONTROL_PROPS = new Set([
 	'onClick',
 	'href',
 	'aria-current',
+	'prefetch',
+	'ref',
 ]);
 
+const PREFETCH_EVENTS: Readonly<Record<PrefetchStrategy, readonly string[]>> = {
+	hover: ['onMouseEnter'],
+	intent: ['onMouseEnter', 'onFocus', 'onTouchStart'],
+	visible: [],
+	none: [],
+};
+
 export const Link = define<LinkProps, LinkState>({
 	script: ({ props, signal, onMount, onUnmount }): LinkState => {
 		const router = getGlobalRouter();
@@ -82,6 +98,13 @@ export const Link = define<LinkProps, LinkState>({
 		const isExactActive = signal(false);
 
 		let stopWatch: (() => void) | null = null;
+		let stopObserving: (() => void) | null = null;
+
+		const strategy: PrefetchStrategy =
+			props.prefetch ?? router?.options.prefetch ?? 'none';
+		const prefetch = (): void => {
+			if (router) void router.prefetch(resolveTo());
+		};
 
 		const updateActiveState = (route: Route): void => {
 			const to = resolveTo();
@@ -112,8 +135,49 @@ export const Link = define<LinkProps, LinkState>({
 				stopWatch();
 			}
 			stopWatch = null;
+			stopObserving?.();
+			stopObserving = null;
 		});
 
+		const callUserHandler = (name: string, event: Event): void => {
+			const handler = props[name];
+			if (typeof handler === 'function') {
+				(handler as (event: Event) => void)(event);
+			}
+		};
+
+		const prefetchHandlers = Object.fromEntries(
+			PREFETCH_EVENTS[strategy].map((name) => [
+				name,
+				(event: Event): void => {
+					callUserHandler(name, event);
+					prefetch();
+				},
+			])
+		);
+
+		const anchorRef = (element: Element | null): void => {
+			applyRef(props.ref as Ref | undefined, element);
+			stopObserving?.();
+			stopObserving = null;
+			if (
+				!element ||
+				strategy !== 'visible' ||
+				typeof IntersectionObserver === 'undefined'
+			) {
+				return;
+			}
+			const observer = new IntersectionObserver((entries) => {
+				if (!entries.some((entry) => entry.isIntersecting)) return;
+				observer.disconnect();
+				prefetch();
+			});
+			observer.observe(element);
+			stopObserving = () => {
+				observer.disconnect();
+			};
+		};
+
 		const handleClick = (event: MouseEvent): void => {
 			if (typeof props.onClick === 'function') {
 				(props.onClick as (event: MouseEvent) => void)(event);
@@ -141,6 +205,8 @@ export const Link = define<LinkProps, LinkState>({
 			resolvedActiveClass: activeClass,
 			resolvedExactActiveClass: exactActiveClass,
 			handleClick,
+			prefetchHandlers,
+			anchorRef,
 		};
 	},
 
@@ -181,6 +247,8 @@ export const Link = define<LinkProps, LinkState>({
 			tag: 'a',
 			props: {
 				...anchorProps,
+				...ctx.prefetchHandlers,
+				ref: ctx.anchorRef,
 				href: ctx.href,
 				className: classSig,
 				onClick: ctx.handleClick,
@@ -22,7 +22,7 @@
  * SOFTWARE.
  */
 
-import { Predicate } from 'effect';
+import { Effect, Predicate } from 'effect';
 import {
 	define,
 	watchEffect,
@@ -33,7 +33,7 @@ import {
 	CreateElementNode,
 	CreateBlueprintNode,
 } from '@effuse/core';
-import { getGlobalRouter } from '../core/router.js';
+import { getGlobalRouter, type NavigationDirection } from '../core/router.js';
 import { DEPTH_KEY, getRouteSignal } from '../core/context.js';
 import {
 	isLazyRouteComponent,
@@ -43,6 +43,13 @@ import {
 	type LazyRouteComponent,
 } from '../core/route.js';
 import { InvalidRouterStateError } from '../errors.js';
+import {
+	applyTransition,
+	getRouteTransition,
+	getRouteViewTransition,
+	startViewTransition,
+	supportsViewTransitions,
+} from '../utils/transitions.js';
 
 const getMatchedComponent = (
 	route: Route,
@@ -143,17 +150,25 @@ const createRouteContentNode = (
 	depth: number,
 	viewName: string,
 	route: Route,
-	rendered: EffuseChild
-): EffuseChild =>
-	CreateElementNode({
+	rendered: EffuseChild,
+	viewTransition = false
+): EffuseChild => {
+	const transitionName = viewTransition
+		? getRouteViewTransition(route.matched[depth]).name
+		: undefined;
+	return CreateElementNode({
 		[EFFUSE_NODE]: true,
 		tag: 'div',
 		key: createViewIdentity(depth, viewName, route),
 		props: {
 			class: 'router-view-content',
+			...(transitionName === undefined
+				? {}
+				: { style: `view-transition-name: ${transitionName}` }),
 		},
 		children: [rendered],
 	});
+};
 
 const createDefaultLoadingView = (): EffuseChild =>
 	CreateElementNode({
@@ -205,6 +220,11 @@ const renderErrorFallback = (
 	return errorFallback;
 };
 
+// Route components mount asynchronously after the view signal changes, so a
+// view transition waits a task before capturing the new state.
+const afterViewMount = (): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, 0));
+
 const createViewIdentity = (
 	depth: number,
 	viewName: string,
@@ -231,6 +251,12 @@ export interface RouterViewProps {
 	readonly route?: Route;
 	readonly fallback?: RouterViewFallback;
 	readonly errorFallback?: RouterViewErrorFallback;
+	/**
+	 * Animate swaps from one route's view to another's with the View
+	 * Transitions API, or with the class-based route transition where the
+	 * browser lacks it.
+	 */
+	readonly viewTransition?: boolean;
 	readonly slot?: (
 		component: RouteComponent,
 		route: Route,
@@ -240,6 +266,8 @@ export interface RouterViewProps {
 
 interface RouterViewState {
 	readonly matchedView: Signal<EffuseChild>;
+	readonly navigationDirection: Signal<NavigationDirection | null>;
+	readonly viewRef: (element: Element | null) => void;
 }
 
 export const RouterView = define<RouterViewProps, RouterViewState>({
@@ -270,6 +298,12 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 		const matchedView = createSignal<EffuseChild>(null);
 
 		let lastViewKey: string | null = null;
+		// The route whose view is on screen, and a swap waiting on its transition.
+		let shownRoute: Route | null = null;
+		let pendingViewKey: string | null = null;
+		let viewElement: Element | null = null;
+		const navigationDirection = createSignal<NavigationDirection | null>(null);
+		const viewTransition = viewProps.viewTransition === true;
 
 		const getActiveRoute = (): Route => viewProps.route ?? routeSignal.value;
 		const getActiveViewName = (): string => viewProps.name ?? 'default';
@@ -311,7 +345,8 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 						depth,
 						viewName,
 						route,
-						rendered
+						rendered,
+						viewTransition
 					);
 				})
 				.catch((error: unknown) => {
@@ -336,6 +371,7 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 			if (lastViewKey === currentViewKey) {
 				return;
 			}
+			shownRoute = route;
 
 			const matched = route.matched[depth];
 			const component = getMatchedComponent(route, depth, viewName);
@@ -374,7 +410,8 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 						depth,
 						viewName,
 						route,
-						rendered
+						rendered,
+						viewTransition
 					);
 
 					lastViewKey = currentViewKey;
@@ -395,7 +432,13 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 				}
 
 				// Sync function component
-				const content = createRouteContentNode(depth, viewName, route, result);
+				const content = createRouteContentNode(
+					depth,
+					viewName,
+					route,
+					result,
+					viewTransition
+				);
 
 				lastViewKey = currentViewKey;
 				matchedView.value = content;
@@ -409,12 +452,68 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 				viewProps.slot
 			);
 
-			const content = createRouteContentNode(depth, viewName, route, rendered);
+			const content = createRouteContentNode(
+				depth,
+				viewName,
+				route,
+				rendered,
+				viewTransition
+			);
 
 			lastViewKey = currentViewKey;
 			matchedView.value = content;
 		};
 
+		// Only a swap to another record's view animates; a param or query change
+		// re-renders in place.
+		const swapView = (): void => {
+			const route = getActiveRoute();
+			const viewName = getActiveViewName();
+			const from = shownRoute;
+			if (
+				!viewTransition ||
+				!from ||
+				createViewIdentity(depth, viewName, route) ===
+					createViewIdentity(depth, viewName, from)
+			) {
+				updateView();
+				return;
+			}
+
+			const currentViewKey = createViewUpdateKey(depth, viewName, route);
+			if (pendingViewKey === currentViewKey) return;
+			const direction = router.direction ?? 'forward';
+			const update = (): Promise<void> => {
+				pendingViewKey = null;
+				navigationDirection.value = direction;
+				updateView();
+				return afterViewMount();
+			};
+
+			if (supportsViewTransitions()) {
+				pendingViewKey = currentViewKey;
+				startViewTransition(update, [
+					...(getRouteViewTransition(route.matched[depth]).types ?? []),
+					direction,
+				]);
+				return;
+			}
+
+			void update();
+			const content = viewElement?.querySelector(
+				':scope > .router-view-content'
+			);
+			if (content) {
+				Effect.runFork(
+					applyTransition(
+						content,
+						getRouteTransition(route, from) ?? { name: 'route' },
+						'enter'
+					)
+				);
+			}
+		};
+
 		updateView();
 
 		const checkRouteChange = () => {
@@ -423,7 +522,7 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 			const currentViewKey = createViewUpdateKey(depth, viewName, route);
 
 			if (lastViewKey !== currentViewKey) {
-				queueMicrotask(updateView);
+				queueMicrotask(swapView);
 			}
 		};
 
@@ -431,15 +530,21 @@ export const RouterView = define<RouterViewProps, RouterViewState>({
 
 		return {
 			matchedView,
+			navigationDirection,
+			viewRef: (element) => {
+				viewElement = element;
+			},
 		};
 	},
 
-	template: ({ matchedView }): EffuseChild => {
+	template: ({ matchedView, navigationDirection, viewRef }): EffuseChild => {
 		return CreateElementNode({
 			[EFFUSE_NODE]: true,
 			tag: 'div',
 			props: {
 				class: 'router-view',
+				'data-navigation': navigationDirection,
+				ref: viewRef,
 			},
 			children: [matchedView],
 		});
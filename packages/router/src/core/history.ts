@@ -30,9 +30,24 @@ export interface RouterHistory {
 	readonly forward: () => void;
 	readonly listen: (callback: () => void) => () => void;
 	readonly getCurrentPath: () => string;
+	/**
+	 * Identifies the current history entry, stable across back and forward, so
+	 * the router can remember per-entry state such as the scroll position. A
+	 * replace keeps the key of the entry it replaces.
+	 */
+	readonly getStateKey?: () => string;
+	/**
+	 * Keeps a scroll position in the current entry's state, next to its key.
+	 * It outlasts the document, so a reload or a return from another site
+	 * finds it there. A replace drops it.
+	 */
+	readonly saveScrollPosition?: (position: ScrollPosition) => void;
+	/** The scroll position kept in the current entry's state, if any. */
+	readonly getScrollPosition?: () => ScrollPosition | undefined;
 }
 
 import { getServerRenderUrl } from '@effuse/core';
+import type { ScrollPosition } from './scroll.js';
 
 const isBrowser = (): boolean => typeof window !== 'undefined';
 
@@ -47,18 +62,82 @@ const isBrowser = (): boolean => typeof window !== 'undefined';
  */
 const serverPath = (): string => getServerRenderUrl() ?? '/';
 
+let stateKeyCounter = 0;
+
+const createStateKey = (): string =>
+	`${Date.now().toString(36)}.${(stateKeyCounter++).toString(36)}`;
+
+interface EntryState {
+	readonly key?: unknown;
+	readonly scroll?: unknown;
+}
+
+const readEntryKey = (): string | undefined => {
+	const state = window.history.state as EntryState | null;
+	return typeof state?.key === 'string' ? state.key : undefined;
+};
+
+/**
+ * The key stored in the current browser entry's state, assigned on first use:
+ * the entry the page loaded into, or one the user created by editing the hash,
+ * starts without one.
+ */
+const browserStateKey = (): string => {
+	const existing = readEntryKey();
+	if (existing) return existing;
+	const key = createStateKey();
+	window.history.replaceState(
+		{ ...(window.history.state as object | null), key },
+		''
+	);
+	return key;
+};
+
+const isScrollPosition = (value: unknown): value is ScrollPosition =>
+	typeof value === 'object' &&
+	value !== null &&
+	typeof (value as { left?: unknown }).left === 'number' &&
+	typeof (value as { top?: unknown }).top === 'number';
+
+const saveBrowserScroll = (position: ScrollPosition): void => {
+	if (!isBrowser()) return;
+	const key = browserStateKey();
+	window.history.replaceState(
+		{
+			...(window.history.state as object | null),
+			key,
+			scroll: { left: position.left, top: position.top },
+		},
+		''
+	);
+};
+
+const readBrowserScroll = (): ScrollPosition | undefined => {
+	if (!isBrowser()) return undefined;
+	const state = window.history.state as EntryState | null;
+	return isScrollPosition(state?.scroll) ? state.scroll : undefined;
+};
+
 export const createWebHistory = (base: string = ''): RouterHistory => {
 	const normalizeBase = base.replace(/\/$/, '');
 
 	return {
 		push: (path: string) => {
 			if (!isBrowser()) return;
-			window.history.pushState({}, '', normalizeBase + path);
+			window.history.pushState(
+				{ key: createStateKey() },
+				'',
+				normalizeBase + path
+			);
 			window.dispatchEvent(new PopStateEvent('popstate'));
 		},
 		replace: (path: string) => {
 			if (!isBrowser()) return;
-			window.history.replaceState({}, '', normalizeBase + path);
+			window.history.replaceState(
+				{ key: browserStateKey() },
+				'',
+				normalizeBase + path
+			);
 			window.dispatchEvent(new PopStateEvent('popstate'));
 		},
 		go: (delta: number) => {
@@ -91,6 +170,9 @@ export const createWebHistory = (base: string = ''): RouterHistory => {
 				window.location.hash;
 			return normalizeBase ? path.replace(normalizeBase, '') || '/' : path;
 		},
+		getStateKey: () => (isBrowser() ? browserStateKey() : 'server'),
+		saveScrollPosition: saveBrowserScroll,
+		getScrollPosition: readBrowserScroll,
 	};
 };
 
@@ -104,7 +186,11 @@ export const createHashHistory = (): RouterHistory => {
 			if (!isBrowser()) return;
 			const url = new URL(window.location.href);
 			url.hash = path;
-			window.history.replaceState({}, '', url.toString());
+			window.history.replaceState(
+				{ key: browserStateKey() },
+				'',
+				url.toString()
+			);
 			window.dispatchEvent(new HashChangeEvent('hashchange'));
 		},
 		go: (delta: number) => {
@@ -131,36 +217,65 @@ export const createHashHistory = (): RouterHistory => {
 			const hash = window.location.hash.slice(1) || '/';
 			return hash;
 		},
+		getStateKey: () => (isBrowser() ? browserStateKey() : 'server'),
+		saveScrollPosition: saveBrowserScroll,
+		getScrollPosition: readBrowserScroll,
 	};
 };
 
 /** Memory history for testing and SSR environments. */
 export const createMemoryHistory = (initialPath: string = '/'): RouterHistory => {
-	let currentPath = initialPath;
+	const entries: {
+		path: string;
+		key: string;
+		scroll?: ScrollPosition;
+	}[] = [{ path: initialPath, key: createStateKey() }];
+	let index = 0;
 	const listeners = new Set<() => void>();
 
 	const notify = () => {
 		for (const cb of listeners) cb();
 	};
 
+	const go = (delta: number) => {
+		const target = Math.min(Math.max(index + delta, 0), entries.length - 1);
+		if (target === index) return;
+		index = target;
+		notify();
+	};
+
 	return {
 		push: (path: string) => {
-			currentPath = path;
+			entries.splice(index + 1, entries.length, {
+				path,
+				key: createStateKey(),
+			});
+			index = entries.length - 1;
 			notify();
 		},
 		replace: (path: string) => {
-			currentPath = path;
+			entries[index] = { path, key: entries[index]?.key ?? createStateKey() };
 			notify();
 		},
-		go: () => {},
-		back: () => {},
-		forward: () => {},
+		go,
+		back: () => {
+			go(-1);
+		},
+		forward: () => {
+			go(1);
+		},
 		listen: (callback: () => void) => {
 			listeners.add(callback);
 			return () => {
 				listeners.delete(callback);
 			};
 		},
-		getCurrentPath: () => currentPath,
+		getCurrentPath: () => entries[index]?.path ?? initialPath,
+		getStateKey: () => entries[index]?.key ?? '',
+		saveScrollPosition: (position) => {
+			const entry = entries[index];
+			if (entry) entries[index] = { ...entry, scroll: position };
+		},
+		getScrollPosition: () => entries[index]?.scroll,
 	};
 };
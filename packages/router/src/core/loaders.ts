@@ -0,0 +1,150 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Predicate } from 'effect';
+import {
+	getHydrationData,
+	getServerRenderState,
+	isServerRendering,
+	type ServerPreload,
+} from '@effuse/core';
+import {
+	isLazyRouteComponent,
+	normalizeRoutes,
+	resolveRoute,
+	type ResolvedRoute,
+	type Route,
+	type RouteRecord,
+} from './route.js';
+
+/** Hydration state key the server's loader data travels under. */
+export const ROUTE_LOADER_STATE_KEY = 'effuse.router.loaders';
+
+interface PreloadedRouteData {
+	/** Path and query the data was loaded for; a hash never reaches the server. */
+	readonly url: string;
+	/** One entry per matched record, in `matched` order. */
+	readonly data: readonly unknown[];
+}
+
+// Keyed by the committed route object, so a route carries its data wherever
+// the route signal hands it without widening the public `Route` shape.
+const routeLoaderData = new WeakMap<Route, readonly unknown[]>();
+
+export const getRouteLoaderData = (
+	route: Route
+): readonly unknown[] | undefined => routeLoaderData.get(route);
+
+export const setRouteLoaderData = (
+	route: Route,
+	data: readonly unknown[]
+): void => {
+	routeLoaderData.set(route, data);
+};
+
+export const hasRouteLoaders = (route: ResolvedRoute | Route): boolean =>
+	route.matched.some((record) => record.loader !== undefined);
+
+export const stripHash = (fullPath: string): string => {
+	const hashIndex = fullPath.indexOf('#');
+	return hashIndex === -1 ? fullPath : fullPath.slice(0, hashIndex);
+};
+
+const warmLazyComponents = (record: RouteRecord): void => {
+	const candidates = [
+		record.component,
+		...Object.values(record.components ?? {}),
+	];
+	for (const component of candidates) {
+		// The view renders the chunk and reports its failure; starting it here
+		// only overlaps the download with the loaders.
+		if (isLazyRouteComponent(component)) component().catch(() => undefined);
+	}
+};
+
+/** Starts downloading the lazy chunks of every matched record. */
+export const warmRouteComponents = (route: ResolvedRoute | Route): void => {
+	for (const record of route.matched) warmLazyComponents(record);
+};
+
+/**
+ * Runs the loader of every matched record at once, and starts their lazy
+ * chunks alongside, so nested layouts fetch in parallel instead of each
+ * waiting for its parent to render. Rejects with the first loader failure.
+ */
+export const loadRouteData = (
+	route: ResolvedRoute | Route,
+	signal: AbortSignal
+): Promise<readonly unknown[]> =>
+	Promise.all(
+		route.matched.map((record) => {
+			warmLazyComponents(record);
+			return record.loader
+				? record.loader({
+						params: route.params,
+						query: route.query,
+						signal,
+					})
+				: Promise.resolve(undefined);
+		})
+	);
+
+const isPreloadedRouteData = (value: unknown): value is PreloadedRouteData =>
+	Predicate.isRecord(value) &&
+	Predicate.isString(value.url) &&
+	Array.isArray(value.data);
+
+/**
+ * The loader data the server rendered `fullPath` with, when there is some:
+ * read from the render in progress on the server, and from the hydration
+ * payload in the browser.
+ */
+export const readPreloadedRouteData = (
+	fullPath: string
+): readonly unknown[] | undefined => {
+	const preloaded = isServerRendering()
+		? getServerRenderState(ROUTE_LOADER_STATE_KEY)
+		: getHydrationData()?.state[ROUTE_LOADER_STATE_KEY];
+	if (!isPreloadedRouteData(preloaded)) return undefined;
+	return preloaded.url === stripHash(fullPath) ? preloaded.data : undefined;
+};
+
+/**
+ * A `createServerApp` preload that runs the loaders matched by the request
+ * URL before the render, so the router created during the render starts with
+ * its data and the client hydrates with it instead of fetching again.
+ *
+ * @example
+ * createServerApp(App).configure({ preload: [preloadRouteData(routes)] });
+ */
+export const preloadRouteData =
+	(routes: readonly RouteRecord[]): ServerPreload =>
+	async ({ url, signal }) => {
+		const resolved = resolveRoute(url, normalizeRoutes(routes));
+		if (!hasRouteLoaders(resolved)) return undefined;
+
+		const data = await loadRouteData(resolved, signal);
+		const preloaded: PreloadedRouteData = { url: stripHash(url), data };
+		return { [ROUTE_LOADER_STATE_KEY]: preloaded };
+	};
@@ -0,0 +1,121 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	hasRouteLoaders,
+	loadRouteData,
+	stripHash,
+	warmRouteComponents,
+} from './loaders.js';
+import type { ResolvedRoute } from './route.js';
+
+/**
+ * When a `Link` warms its target: on `'hover'` when the pointer enters it, on
+ * `'intent'` when it is hovered, focused or touched, and on `'visible'` once it
+ * scrolls into view.
+ */
+export type PrefetchStrategy = 'hover' | 'visible' | 'intent' | 'none';
+
+// Loader data older than this is fetched again rather than shown stale.
+const PREFETCH_MAX_AGE = 30_000;
+
+interface PrefetchEntry {
+	readonly data: Promise<readonly unknown[]>;
+	readonly at: number;
+	/** Aborts the loaders once nothing will use their data. */
+	readonly controller: AbortController;
+}
+
+export interface PrefetchCache {
+	/** Warms the route's chunks and starts its loaders, once per URL. */
+	readonly prefetch: (route: ResolvedRoute) => Promise<void>;
+	/**
+	 * The data prefetched for the route, handed over to the navigation. Its
+	 * loaders abort with `signal`, as the navigation's own would.
+	 */
+	readonly take: (
+		route: ResolvedRoute,
+		signal: AbortSignal
+	) => Promise<readonly unknown[]> | undefined;
+}
+
+/** True when the browser asks pages to save data (`Save-Data`). */
+export const prefersReducedData = (): boolean =>
+	typeof navigator !== 'undefined' &&
+	(navigator as Navigator & { connection?: { saveData?: boolean } }).connection
+		?.saveData === true;
+
+export const createPrefetchCache = (): PrefetchCache => {
+	const entries = new Map<string, PrefetchEntry>();
+
+	const fresh = (key: string): PrefetchEntry | undefined => {
+		const entry = entries.get(key);
+		if (entry && Date.now() - entry.at < PREFETCH_MAX_AGE) return entry;
+		// Too old to be used: a loader still running is wasted work.
+		entry?.controller.abort();
+		entries.delete(key);
+		return undefined;
+	};
+
+	return {
+		prefetch: (route) => {
+			warmRouteComponents(route);
+			if (!hasRouteLoaders(route)) return Promise.resolve();
+
+			const key = stripHash(route.fullPath);
+			const existing = fresh(key);
+			if (existing) {
+				return existing.data.then(
+					() => undefined,
+					() => undefined
+				);
+			}
+
+			const controller = new AbortController();
+			const data = loadRouteData(route, controller.signal);
+			const entry: PrefetchEntry = { data, at: Date.now(), controller };
+			entries.set(key, entry);
+			// A failed prefetch is forgotten so the navigation loads on its own.
+			return data.then(
+				() => undefined,
+				() => {
+					if (entries.get(key) === entry) entries.delete(key);
+				}
+			);
+		},
+
+		take: (route, signal) => {
+			const key = stripHash(route.fullPath);
+			const entry = fresh(key);
+			entries.delete(key);
+			if (!entry) return undefined;
+			const abort = (): void => {
+				entry.controller.abort();
+			};
+			if (signal.aborted) abort();
+			else signal.addEventListener('abort', abort, { once: true });
+			return entry.data;
+		},
+	};
+};
@@ -35,6 +35,7 @@ import {
 } from '@effuse/core';
 import { RouteNotFoundError } from '../errors.js';
 import type { NavigationGuard } from '../navigation/guards.js';
+import type { SearchSchema } from './search.js';
 
 export type RouteComponent =
 	| ((props?: Record<string, unknown>) => EffuseChild)
@@ -101,6 +102,17 @@ export const lazyRouteComponent = (
 
 export const lazyRoute = lazyRouteComponent;
 
+export interface RouteLoaderContext {
+	readonly params: Record<string, string>;
+	readonly query: Record<string, string | string[]>;
+	/** Aborted when a later navigation supersedes the one loading. */
+	readonly signal: AbortSignal;
+}
+
+export type RouteLoader<T = unknown> = (
+	context: RouteLoaderContext
+) => Promise<T>;
+
 export interface RouteRecord {
 	readonly path: string;
 	readonly component?: RouteComponent | LazyRouteComponent;
@@ -126,6 +138,18 @@ export interface RouteRecord {
 		| Record<string, unknown>
 		| ((route: Route) => Record<string, unknown>);
 	readonly beforeEnter?: NavigationGuard;
+	/**
+	 * Fetches the record's data. Every matched record's loader runs in parallel
+	 * once the guards pass, and the navigation commits when all have settled;
+	 * read the result with `useLoaderData()`.
+	 */
+	readonly loader?: RouteLoader;
+	/**
+	 * Schema for the record's query string. `useSearch()` decodes the query
+	 * with the deepest matched record's schema, and a value that does not
+	 * decode falls back to its field's default.
+	 */
+	readonly search?: SearchSchema;
 }
 
 export interface RouteGroupMetadata {
@@ -151,11 +175,15 @@ export interface NormalizedRouteRecord
 
 export type RouteLocation =
 	| string
-	| { path: string; query?: Record<string, string>; hash?: string }
+	| {
+			path: string;
+			query?: Record<string, string | string[]>;
+			hash?: string;
+	  }
 	| {
 			name: string;
 			params?: Record<string, string>;
-			query?: Record<string, string>;
+			query?: Record<string, string | string[]>;
 			hash?: string;
 	  };
 
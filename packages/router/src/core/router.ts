@@ -22,7 +22,7 @@
  * SOFTWARE.
  */
 
-import { Effect, SubscriptionRef, Predicate } from 'effect';
+import { Effect, Either, SubscriptionRef, Predicate } from 'effect';
 import { setGlobalRouter as setCoreGlobalRouter } from '@effuse/core';
 import type { RouterHistory } from './history.js';
 import { createWebHistory, createHashHistory } from './history.js';
@@ -48,6 +48,25 @@ import {
 } from '../navigation/guards.js';
 import { NavigationFailure } from '../navigation/errors.js';
 import { loadRouterConfig } from './RouterConfig.js';
+import {
+	hasRouteLoaders,
+	loadRouteData,
+	readPreloadedRouteData,
+	setRouteLoaderData,
+} from './loaders.js';
+import {
+	createPrefetchCache,
+	prefersReducedData,
+	type PrefetchStrategy,
+} from './prefetch.js';
+import {
+	afterViewRender,
+	applyScrollTarget,
+	readScrollPosition,
+	type ScrollContainer,
+	type ScrollPosition,
+	type ScrollTarget,
+} from './scroll.js';
 import {
 	getOrCreateRouteSignal,
 	injectRouter,
@@ -77,26 +96,41 @@ const getConfig = () => {
 	return cachedConfig;
 };
 
+/**
+ * Decides where the page scrolls after a navigation, once the new view has
+ * rendered. `savedPosition` is where the entry was left, on back and forward
+ * only. Return nothing, or `false`, to leave the scroll position alone.
+ */
 export type ScrollBehavior = (
 	to: Route,
 	from: Route,
-	savedPosition: { left: number; top: number } | null
+	savedPosition: ScrollPosition | null
 ) =>
-	| {
-			left?: number;
-			top?: number;
-			el?: string;
-			behavior?: ScrollBehavior;
-	  }
-	| undefined;
+	| ScrollTarget
+	| false
+	| undefined
+	| Promise<ScrollTarget | false | undefined>;
 
 export interface RouterOptions {
 	readonly routes: readonly RouteRecord[];
 	readonly history?: RouterHistory;
 	readonly base?: string;
 	readonly scrollBehavior?: ScrollBehavior;
+	/**
+	 * The element that scrolls, for layouts whose content scrolls inside a
+	 * container rather than the window. Positions are saved and restored on it.
+	 */
+	readonly scrollContainer?: ScrollContainer;
+	/** When a `Link` without its own `prefetch` warms its target. Defaults to `'none'`. */
+	readonly prefetch?: PrefetchStrategy;
 }
 
+/**
+ * How the route on screen was reached: a push, a replace, or a back/forward
+ * traversal, told apart by where its history entry sits relative to the last.
+ */
+export type NavigationDirection = 'forward' | 'back' | 'replace';
+
 export interface NavigateOptions {
 	readonly replace?: boolean;
 }
@@ -117,6 +151,13 @@ export interface RouterInstance {
 	readonly afterEach: (hook: AfterEachHook) => () => void;
 
 	readonly resolve: (to: RouteLocation) => ResolvedRoute;
+	/**
+	 * Downloads the lazy chunks of the route `to` leads to and starts its
+	 * loaders, so following a link to it later does not wait. Repeated calls for
+	 * one URL share a load, and nothing is fetched when the browser asks to save
+	 * data. Resolves when done, and never rejects.
+	 */
+	readonly prefetch: (to: RouteLocation) => Promise<void>;
 	readonly hasRoute: (name: string) => boolean;
 	readonly addRoute: (route: RouteRecord, parentName?: string) => void;
 	readonly removeRoute: (name: string) => void;
@@ -124,6 +165,13 @@ export interface RouterInstance {
 
 	readonly start: () => () => void;
 	readonly isReady: boolean;
+	/** How the current route was reached; undefined before any navigation. */
+	readonly direction: NavigationDirection | undefined;
+}
+
+interface LoadedRouteData {
+	readonly fullPath: string;
+	readonly data: readonly unknown[];
 }
 
 export const createRouter = (options: RouterOptions): RouterInstance => {
@@ -149,8 +197,95 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 		fullPath: initialPath,
 	});
 
+	const initialData = readPreloadedRouteData(initialPath);
+	if (initialData) setRouteLoaderData(initialRoute, initialData);
+
 	const routeRef = Effect.runSync(SubscriptionRef.make(initialRoute));
 	let navigationId = 0;
+	// The data most recently loaded, so the history notification a push
+	// triggers, which builds its own route object, commits it too.
+	let lastLoaded: LoadedRouteData | undefined = initialData
+		? { fullPath: initialPath, data: initialData }
+		: undefined;
+	let activeLoad: AbortController | undefined;
+	const prefetchCache = createPrefetchCache();
+
+	const beginLoad = (): AbortController => {
+		activeLoad?.abort();
+		activeLoad = new AbortController();
+		return activeLoad;
+	};
+
+	const finishLoad = (controller: AbortController): void => {
+		if (activeLoad === controller) activeLoad = undefined;
+	};
+
+	// Position of each history entry seen, by key, to tell back from forward.
+	const entryPositions = new Map<string, number>();
+	let entryPosition = 0;
+	let direction: NavigationDirection | undefined;
+
+	const recordEntry = (): void => {
+		const key = history.getStateKey?.();
+		if (key !== undefined) entryPositions.set(key, entryPosition);
+	};
+
+	// An entry the router has not seen, such as one from before a reload, is
+	// taken as a step back: the usual way to land on one.
+	const traversalDirection = (): NavigationDirection => {
+		const key = history.getStateKey?.();
+		const target = key === undefined ? undefined : entryPositions.get(key);
+		const next =
+			target !== undefined && target > entryPosition ? 'forward' : 'back';
+		entryPosition = target ?? entryPosition - 1;
+		recordEntry();
+		return next;
+	};
+
+	// Scroll positions by history entry key, recorded as each entry is left.
+	const savedPositions = new Map<string, ScrollPosition>();
+	let currentEntryKey: string | undefined;
+	// Set while the router writes history itself, so the notification that
+	// write triggers is not mistaken for a back/forward traversal.
+	let writingHistory = false;
+
+	const managesScroll = (): boolean =>
+		options.scrollBehavior !== undefined && typeof window !== 'undefined';
+
+	const rememberScroll = (): void => {
+		if (!managesScroll()) return;
+		const key = currentEntryKey ?? history.getStateKey?.();
+		if (key === undefined) return;
+		savedPositions.set(key, readScrollPosition(options.scrollContainer));
+	};
+
+	// Also kept in the entry itself, which outlasts this document. Only
+	// possible while the browser is still on that entry, so it is written
+	// before the router moves on and when the page goes away.
+	const persistScroll = (): void => {
+		if (!managesScroll()) return;
+		history.saveScrollPosition?.(readScrollPosition(options.scrollContainer));
+	};
+
+	const scrollAfterRender = (
+		to: Route,
+		from: Route,
+		savedPosition: ScrollPosition | null
+	): void => {
+		const scrollBehavior = options.scrollBehavior;
+		if (!scrollBehavior || !managesScroll()) return;
+		const scrollNavId = navigationId;
+		afterViewRender()
+			.then(async () => {
+				if (scrollNavId !== navigationId) return;
+				const target = await scrollBehavior(to, from, savedPosition);
+				if (!target || scrollNavId !== navigationId) return;
+				applyScrollTarget(target, options.scrollContainer);
+			})
+			// The navigation has already committed; a failing scrollBehavior only
+			// costs the scroll.
+			.catch(() => undefined);
+	};
 	const navigate = (
 		to: RouteLocation,
 		opts: NavigateOptions = {},
@@ -158,6 +293,7 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 	): Effect.Effect<Route | NavigationFailure> =>
 		Effect.gen(function* () {
 			const currentNavId = ++navigationId;
+			activeLoad?.abort();
 			const from = yield* SubscriptionRef.get(routeRef);
 
 			let resolved: ResolvedRoute;
@@ -292,17 +428,59 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 				return NavigationFailure.aborted(resolved, from as ResolvedRoute);
 			}
 
+			let loaderData: readonly unknown[] | undefined;
+			if (hasRouteLoaders(resolved)) {
+				const controller = beginLoad();
+				const loaded = yield* Effect.either(
+					Effect.tryPromise({
+						try: () =>
+							prefetchCache.take(resolved, controller.signal) ??
+							loadRouteData(resolved, controller.signal),
+						catch: (error) =>
+							error instanceof Error ? error : new Error(String(error)),
+					})
+				);
+				finishLoad(controller);
+				if (currentNavId !== navigationId) {
+					return NavigationFailure.aborted(resolved, from as ResolvedRoute);
+				}
+				if (Either.isLeft(loaded)) {
+					return NavigationFailure.loaderFailed(
+						resolved,
+						from as ResolvedRoute,
+						loaded.left
+					);
+				}
+				loaderData = loaded.right;
+			}
+
 			const newRoute = createRoute({
 				...resolved,
 				query: resolved.query,
 				hash: resolved.hash,
 			});
+			if (loaderData) {
+				setRouteLoaderData(newRoute, loaderData);
+				lastLoaded = { fullPath: newRoute.fullPath, data: loaderData };
+			}
 
-			if (opts.replace) {
-				history.replace(resolved.fullPath);
-			} else {
-				history.push(resolved.fullPath);
+			rememberScroll();
+			persistScroll();
+			if (entryPositions.size === 0) recordEntry();
+			direction = opts.replace ? 'replace' : 'forward';
+			writingHistory = true;
+			try {
+				if (opts.replace) {
+					history.replace(resolved.fullPath);
+				} else {
+					history.push(resolved.fullPath);
+					entryPosition++;
+				}
+			} finally {
+				writingHistory = false;
 			}
+			recordEntry();
+			if (managesScroll()) currentEntryKey = history.getStateKey?.();
 
 			yield* SubscriptionRef.set(routeRef, newRoute);
 
@@ -316,7 +494,13 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 
 			Effect.runSync(runAfterHooks(guards.afterEach, newRoute, from));
 
-			if (config.scrollToTop && !opts.replace && typeof window !== 'undefined') {
+			if (managesScroll()) {
+				scrollAfterRender(newRoute, from, null);
+			} else if (
+				config.scrollToTop &&
+				!opts.replace &&
+				typeof window !== 'undefined'
+			) {
 				window.scrollTo(0, 0);
 			}
 
@@ -363,6 +547,21 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 			return resolveRoute(to, normalizedRoutes, from);
 		},
 
+		prefetch: (to) => {
+			if (typeof window === 'undefined' || prefersReducedData()) {
+				return Promise.resolve();
+			}
+			let resolved: ResolvedRoute;
+			try {
+				resolved = router.resolve(to);
+			} catch {
+				return Promise.resolve();
+			}
+			const lastMatched = resolved.matched[resolved.matched.length - 1];
+			if (lastMatched?.redirect !== undefined) return Promise.resolve();
+			return prefetchCache.prefetch(resolved);
+		},
+
 		hasRoute: (name) =>
 			normalizedRoutes.some(
 				(r) => r.name === name && r.aliasOf === undefined
@@ -415,7 +614,36 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 			if (isStarted) return () => {};
 			isStarted = true;
 
-			const syncRoute = () => {
+			const commit = (route: Route): void => {
+				Effect.runSync(SubscriptionRef.set(routeRef, route));
+				updateCurrentRouteSignal(route);
+			};
+
+			// A back/forward traversal: the URL has moved to another entry. Leaving
+			// the old entry records its scroll position under the old key.
+			const traverse = (): ScrollPosition | null => {
+				rememberScroll();
+				currentEntryKey = history.getStateKey?.();
+				const remembered =
+					currentEntryKey === undefined
+						? undefined
+						: savedPositions.get(currentEntryKey);
+				return remembered ?? history.getScrollPosition?.() ?? null;
+			};
+
+			const commitAndScroll = (
+				route: Route,
+				savedPosition: ScrollPosition | null
+			): void => {
+				const from = Effect.runSync(SubscriptionRef.get(routeRef));
+				commit(route);
+				scrollAfterRender(route, from, savedPosition);
+			};
+
+			const syncRoute = (
+				traversal: boolean,
+				restored: ScrollPosition | null = null
+			) => {
 				const path = history.getCurrentPath();
 				const { pathname, query, hash } = parseUrl(path);
 				const resolved = resolveRoute(pathname, normalizedRoutes);
@@ -425,18 +653,82 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 					hash,
 					fullPath: path,
 				});
-				Effect.runSync(SubscriptionRef.set(routeRef, newRoute));
-				updateCurrentRouteSignal(newRoute);
+				if (traversal) direction = traversalDirection();
+				const savedPosition =
+					traversal && managesScroll() ? traverse() : restored;
+				const settle =
+					traversal || restored !== null
+						? (route: Route) => {
+								commitAndScroll(route, savedPosition);
+							}
+						: commit;
+
+				const known =
+					lastLoaded?.fullPath === path ? lastLoaded.data : undefined;
+				if (known) setRouteLoaderData(newRoute, known);
+				if (known || !hasRouteLoaders(newRoute)) {
+					settle(newRoute);
+					return;
+				}
+
+				// Back/forward and the first sync without server data load here.
+				// The route already showing this URL stays up while it loads; a
+				// traversal elsewhere waits for its data, as a push does.
+				const current = Effect.runSync(SubscriptionRef.get(routeRef));
+				if (current.fullPath === path) commit(newRoute);
+
+				const currentNavId = ++navigationId;
+				const controller = beginLoad();
+				loadRouteData(newRoute, controller.signal).then(
+					(data) => {
+						finishLoad(controller);
+						if (currentNavId !== navigationId) return;
+						const loadedRoute = createRoute(newRoute);
+						setRouteLoaderData(loadedRoute, data);
+						lastLoaded = { fullPath: path, data };
+						settle(loadedRoute);
+					},
+					() => {
+						finishLoad(controller);
+						if (currentNavId !== navigationId) return;
+						settle(newRoute);
+					}
+				);
 			};
 
-			const cleanupHistory = history.listen(syncRoute);
-			syncRoute();
+			const cleanupHistory = history.listen(() => {
+				syncRoute(!writingHistory);
+			});
+			// A reload, or a return from another site, starts with no positions
+			// in memory; the entry's own is restored like a traversal's.
+			syncRoute(
+				false,
+				managesScroll() ? (history.getScrollPosition?.() ?? null) : null
+			);
+			if (entryPositions.size === 0) recordEntry();
+			if (managesScroll()) currentEntryKey = history.getStateKey?.();
+			if (managesScroll()) window.addEventListener('pagehide', persistScroll);
+
+			// The router restores positions itself, after the new view renders;
+			// the browser's own attempt runs before that and lands short.
+			const previousRestoration = managesScroll()
+				? window.history.scrollRestoration
+				: undefined;
+			if (previousRestoration !== undefined) {
+				window.history.scrollRestoration = 'manual';
+			}
 
 			let stopped = false;
 			return () => {
 				if (stopped) return;
 				stopped = true;
 				cleanupHistory();
+				if (typeof window !== 'undefined') {
+					window.removeEventListener('pagehide', persistScroll);
+				}
+				if (previousRestoration !== undefined) {
+					window.history.scrollRestoration = previousRestoration;
+				}
 				isStarted = false;
 			};
 		},
@@ -444,6 +736,10 @@ export const createRouter = (options: RouterOptions): RouterInstance => {
 		get isReady() {
 			return isStarted;
 		},
+
+		get direction() {
+			return direction;
+		},
 	};
 
 	return router;
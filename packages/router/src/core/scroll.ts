@@ -0,0 +1,123 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Predicate } from 'effect';
+
+export interface ScrollPosition {
+	readonly left: number;
+	readonly top: number;
+}
+
+export interface ScrollTarget {
+	readonly left?: number;
+	readonly top?: number;
+	/**
+	 * Element to bring into view: an element, a selector, or a URL hash such as
+	 * `route.hash`. `left` and `top` then offset from it, which leaves room for a
+	 * sticky header.
+	 */
+	readonly el?: string | Element;
+	readonly behavior?: 'auto' | 'smooth' | 'instant';
+}
+
+/** The element the router scrolls instead of the window: itself, a selector, or a getter. */
+export type ScrollContainer = string | Element | (() => Element | null);
+
+const resolveContainer = (
+	container: ScrollContainer | undefined
+): Element | null => {
+	if (container === undefined) return null;
+	if (Predicate.isString(container)) return document.querySelector(container);
+	if (Predicate.isFunction(container)) return container();
+	return container;
+};
+
+const findElement = (el: string | Element): Element | null => {
+	if (!Predicate.isString(el)) return el;
+	// Hash ids need not be valid selectors (`#1-intro`), so look them up by id.
+	if (el.startsWith('#')) {
+		const byId = document.getElementById(decodeURIComponent(el.slice(1)));
+		if (byId) return byId;
+	}
+	try {
+		return document.querySelector(el);
+	} catch {
+		return null;
+	}
+};
+
+/** Where the container, or the window when there is none, is scrolled to now. */
+export const readScrollPosition = (
+	container: ScrollContainer | undefined
+): ScrollPosition => {
+	const element = resolveContainer(container);
+	return element
+		? { left: element.scrollLeft, top: element.scrollTop }
+		: { left: window.scrollX, top: window.scrollY };
+};
+
+/**
+ * Scrolls the container, or the window, to `target`. A target naming an
+ * element that is not in the document is ignored rather than sending the page
+ * to the top.
+ */
+export const applyScrollTarget = (
+	target: ScrollTarget,
+	container: ScrollContainer | undefined
+): void => {
+	const element = resolveContainer(container);
+	let left = target.left ?? 0;
+	let top = target.top ?? 0;
+
+	if (target.el !== undefined) {
+		const anchor = findElement(target.el);
+		if (!anchor) return;
+		const anchorRect = anchor.getBoundingClientRect();
+		const origin = element
+			? element.getBoundingClientRect()
+			: { left: 0, top: 0 };
+		const current = readScrollPosition(container);
+		left = anchorRect.left - origin.left + current.left - left;
+		top = anchorRect.top - origin.top + current.top - top;
+	}
+
+	const options = { left, top, behavior: target.behavior } as ScrollToOptions;
+	if (element) element.scrollTo(options);
+	else window.scrollTo(options);
+};
+
+/**
+ * Resolves once the view has painted the route just committed, so a restored
+ * position is measured against the new page rather than the old one.
+ */
+export const afterViewRender = (): Promise<void> =>
+	new Promise((resolve) => {
+		if (typeof requestAnimationFrame === 'function') {
+			requestAnimationFrame(() => {
+				resolve();
+			});
+		} else {
+			setTimeout(resolve, 0);
+		}
+	});
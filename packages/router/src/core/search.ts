@@ -0,0 +1,192 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	Array as Arr,
+	Either,
+	Option,
+	ParseResult,
+	Predicate,
+	Schema,
+} from 'effect';
+import type { Route } from './route.js';
+
+export type RouteQuery = Record<string, string | string[]>;
+
+/**
+ * Decodes query string values into typed ones. Any encoded side is accepted:
+ * schemas are invariant in it, and a `Struct` of `NumberFromString` fields
+ * encodes to its own exact record type.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SearchSchema<A = any> = Schema.Schema<A, any>;
+
+/**
+ * A search field that takes every occurrence of its key: `?tag=a&tag=b`
+ * decodes to `['a', 'b']`, and a single `?tag=a` to `['a']`.
+ *
+ * @example
+ * search: Schema.Struct({
+ *   tag: Schema.optionalWith(searchArray(Schema.String), { default: () => [] }),
+ * })
+ */
+export const searchArray = <A>(
+	item: Schema.Schema<A, string>
+): Schema.Schema<readonly A[], string | readonly string[]> =>
+	Schema.transform(
+		Schema.Union(Schema.String, Schema.Array(Schema.String)),
+		Schema.Array(item),
+		{
+			strict: true,
+			decode: (value) => (Predicate.isString(value) ? [value] : value),
+			encode: (value) => value,
+		}
+	);
+
+/** The schema of the deepest matched record that declares one. */
+export const findSearchSchema = (route: Route): SearchSchema | undefined =>
+	Option.getOrUndefined(
+		Arr.findLast(route.matched, (record) => record.search !== undefined)
+	)?.search;
+
+/**
+ * Decodes `query` with `schema`, dropping each key whose value does not decode
+ * so that field falls back to its default: a hand-edited `?page=abc` leaves
+ * the page at its default instead of failing the whole search. Undefined only
+ * when the schema cannot decode even an empty query, which means a field has
+ * neither a default nor `optional`.
+ */
+export const decodeSearch = <A>(
+	schema: SearchSchema<A>,
+	query: RouteQuery
+): A | undefined => {
+	const decode = Schema.decodeUnknownEither(schema, {
+		errors: 'all',
+		onExcessProperty: 'ignore',
+	});
+	const dropped = new Set<string>();
+
+	for (;;) {
+		const input = Object.fromEntries(
+			Object.entries(query).filter(([key]) => !dropped.has(key))
+		);
+		const result = decode(input);
+		if (Either.isRight(result)) return result.right;
+
+		const invalid = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+			.map((issue) => issue.path[0])
+			.filter((key): key is string => Predicate.isString(key) && key in input);
+		if (invalid.length === 0) return undefined;
+		for (const key of invalid) dropped.add(key);
+	}
+};
+
+const toQueryScalar = (value: unknown): string =>
+	Predicate.isString(value)
+		? value
+		: Predicate.isNumber(value) ||
+			  Predicate.isBoolean(value) ||
+			  Predicate.isBigInt(value)
+			? String(value)
+			: JSON.stringify(value);
+
+/** A value as it goes in the query string; undefined when it leaves it. */
+const toQueryValue = (value: unknown): string | string[] | undefined =>
+	value === undefined || value === null
+		? undefined
+		: Array.isArray(value)
+			? value.map(toQueryScalar)
+			: toQueryScalar(value);
+
+/**
+ * `query` with `changes` applied: each key set to its value, or removed when
+ * the value is undefined. Keys not in `changes` are kept as they are.
+ */
+export const applySearch = (
+	query: RouteQuery,
+	changes: Readonly<Record<string, unknown>>
+): RouteQuery => {
+	// Keys keep their place in the URL; new ones go at the end.
+	const next: RouteQuery = {};
+	for (const key of new Set([...Object.keys(query), ...Object.keys(changes)])) {
+		const value = key in changes ? toQueryValue(changes[key]) : query[key];
+		if (value !== undefined) next[key] = value;
+	}
+	return next;
+};
+
+/** Encodes typed search values back to the values they take in a query string. */
+export const encodeSearch = <A>(
+	schema: SearchSchema<A>,
+	search: A
+): Readonly<Record<string, unknown>> => {
+	const encoded: unknown = Schema.encodeSync(schema)(search);
+	return Predicate.isRecord(encoded) ? encoded : {};
+};
+
+const sameQueryValue = (a: unknown, b: unknown): boolean =>
+	JSON.stringify(toQueryValue(a)) === JSON.stringify(toQueryValue(b));
+
+/**
+ * The query after setting `partial` on top of what `query` currently decodes
+ * to. Keys the schema does not know about are kept as they are, and keys left
+ * at their default are dropped so URLs only carry what differs.
+ */
+export const mergeSearch = <A extends object>(
+	schema: SearchSchema<A>,
+	query: RouteQuery,
+	partial: Partial<A>
+): RouteQuery | undefined => {
+	const current = decodeSearch(schema, query);
+	if (current === undefined) return undefined;
+	const defaults = decodeSearch(schema, {});
+	const encodedDefaults =
+		defaults === undefined ? {} : encodeSearch(schema, defaults);
+
+	const changes: Record<string, unknown> = {
+		...encodeSearch(schema, { ...current, ...partial }),
+		// An optional field set to undefined may be left out of the encoding.
+		...Object.fromEntries(
+			Object.entries(partial).filter(([, value]) => value === undefined)
+		),
+	};
+	for (const [key, value] of Object.entries(changes)) {
+		if (key in encodedDefaults && sameQueryValue(value, encodedDefaults[key])) {
+			changes[key] = undefined;
+		}
+	}
+	return applySearch(query, changes);
+};
+
+/**
+ * The query for a link to a route with `schema`: `search` over the schema's
+ * defaults. A schema without defaults for every field encodes `search` as is,
+ * so it has to be complete.
+ */
+export const searchToQuery = <A extends object>(
+	schema: SearchSchema<A>,
+	search: Partial<A>
+): RouteQuery =>
+	mergeSearch(schema, {}, search) ??
+	applySearch({}, encodeSearch(schema, search as A));
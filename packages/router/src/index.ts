@@ -31,8 +31,18 @@ export {
 	type RouterInstance,
 	type RouterOptions,
 	type NavigateOptions,
+	type NavigationDirection,
+	type ScrollBehavior,
 } from './core/router.js';
 
+export {
+	type ScrollContainer,
+	type ScrollPosition,
+	type ScrollTarget,
+} from './core/scroll.js';
+
+export { type PrefetchStrategy } from './core/prefetch.js';
+
 export {
 	createWebHistory,
 	createHashHistory,
@@ -48,15 +58,26 @@ export {
 	type RouteComponent,
 	type LazyRouteComponent,
 	type LazyRouteComponentOptions,
+	type RouteLoader,
+	type RouteLoaderContext,
 	EFFUSE_LAZY_ROUTE,
 	isLazyRouteComponent,
 	lazyRoute,
 	lazyRouteComponent,
 } from './core/route.js';
 
+export { preloadRouteData, ROUTE_LOADER_STATE_KEY } from './core/loaders.js';
+
+export { searchArray, type SearchSchema } from './core/search.js';
+
 export {
 	useRouter,
 	useRoute,
+	useLoaderData,
+	useSearch,
+	setSearch,
+	type LoaderData,
+	type SetSearchOptions,
 	onRouteChange,
 	navigateTo,
 	goBack,
@@ -82,6 +103,7 @@ export {
 export {
 	type TransitionConfig,
 	type TransitionMode,
+	type ViewTransitionConfig,
 	transitions,
 } from './utils/transitions.js';
 
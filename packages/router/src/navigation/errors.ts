@@ -45,6 +45,9 @@ export type NavigationFailure = Data.TaggedEnum<{
 		readonly paths: readonly string[];
 	};
 	NavigationDuplicated: NavigationFailureBase;
+	NavigationLoaderFailed: NavigationFailureBase & {
+		readonly error: Error;
+	};
 }>;
 
 const {
@@ -54,6 +57,7 @@ const {
 	NavigationRedirect,
 	NavigationRedirectLoop,
 	NavigationDuplicated,
+	NavigationLoaderFailed,
 	$is,
 	$match,
 } = Data.taggedEnum<NavigationFailure>();
@@ -65,6 +69,7 @@ export {
 	NavigationRedirect,
 	NavigationRedirectLoop,
 	NavigationDuplicated,
+	NavigationLoaderFailed,
 	$is as NavigationFailure$is,
 	$match as NavigationFailure$match,
 };
@@ -100,6 +105,12 @@ export const NavigationFailure = {
 	duplicated: (to: ResolvedRoute, from: ResolvedRoute): NavigationFailure =>
 		NavigationDuplicated({ to, from }),
 
+	loaderFailed: (
+		to: ResolvedRoute,
+		from: ResolvedRoute,
+		error: Error
+	): NavigationFailure => NavigationLoaderFailed({ to, from, error }),
+
 	isNavigationFailure: (value: unknown): value is NavigationFailure =>
 		Predicate.isObject(value) &&
 		Predicate.hasProperty(value, '_tag') &&
@@ -111,6 +122,7 @@ export const NavigationFailure = {
 			'NavigationRedirect',
 			'NavigationRedirectLoop',
 			'NavigationDuplicated',
+			'NavigationLoaderFailed',
 		].includes(value._tag),
 
 	isAborted: $is('NavigationAborted'),
@@ -119,6 +131,7 @@ export const NavigationFailure = {
 	isRedirect: $is('NavigationRedirect'),
 	isRedirectLoop: $is('NavigationRedirectLoop'),
 	isDuplicated: $is('NavigationDuplicated'),
+	isLoaderFailed: $is('NavigationLoaderFailed'),
 
 	match: $match,
 };
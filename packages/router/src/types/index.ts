@@ -25,6 +25,12 @@
 import { Schema } from 'effect';
 import type { RouteParamInput } from '@effuse/core';
 import type { RouteRecord, Route, RouteLocation } from '../core/route.js';
+import { searchToQuery, type SearchSchema } from '../core/search.js';
+import {
+	setSearch,
+	useSearch,
+	type SetSearchOptions,
+} from '../utils/composables.js';
 
 export interface TypedRouteRecord<
 	Params extends Record<string, string> = Record<string, string>,
@@ -54,7 +60,7 @@ export type TypedRouteLocation<
 > = {
 	name: Name;
 	params?: Params extends Record<string, never> ? undefined : Params;
-	query?: Record<string, string>;
+	query?: Record<string, string | string[]>;
 	hash?: string;
 };
 
@@ -62,22 +68,49 @@ export const defineRoutes = <const Routes extends readonly TypedRouteRecord[]>(
 	routes: Routes
 ): Routes => routes;
 
+/**
+ * Typed helpers for one named route. With a search schema, `to` encodes typed
+ * search values into the query, and `useSearch`/`setSearch` read and update
+ * them.
+ */
 export const createTypedNavigator = <
 	Params extends Record<string, string>,
-	Query extends Record<string, string> = Record<string, string>,
+	Query extends object = Record<string, string>,
 >(
 	name: string,
 	_paramsSchema?: Schema.Schema<Params>,
-	_querySchema?: Schema.Schema<Query>
+	searchSchema?: SearchSchema<Query>
 ) => ({
-	to: (params: Params, query?: Query): RouteLocation => ({
+	to: (params: Params, query?: Partial<Query>): RouteLocation => ({
 		name,
 		params: params as Record<string, string>,
-		query: query as Record<string, string>,
+		query: (query === undefined || searchSchema === undefined
+			? query
+			: searchToQuery(searchSchema, query)) as Record<
+			string,
+			string | string[]
+		>,
 	}),
 
-	matches: (route: Route): route is TypedRoute<Params, Query> =>
-		route.name === name,
+	matches: (
+		route: Route
+	): route is TypedRoute<
+		Params,
+		Query extends Record<string, string> ? Query : Record<string, string>
+	> => route.name === name,
+
+	useSearch: () => useSearch<Query>(searchSchema),
+
+	setSearch: (
+		partial: Partial<Query>,
+		options: Omit<SetSearchOptions<Query>, 'schema'> = {}
+	) =>
+		setSearch<Query>(
+			partial,
+			searchSchema === undefined
+				? options
+				: { ...options, schema: searchSchema }
+		),
 });
 
 export const validateParams = <A>(
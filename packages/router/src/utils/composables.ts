@@ -22,13 +22,27 @@
  * SOFTWARE.
  */
 
-import { Predicate } from 'effect';
-import { markRaw, watchEffect, computed } from '@effuse/core';
+import { Effect, Predicate, SubscriptionRef } from 'effect';
+import {
+	markRaw,
+	watchEffect,
+	computed,
+	inject,
+	type ReadonlySignal,
+} from '@effuse/core';
 import { getGlobalRouter, type RouterInstance } from '../core/router.js';
-import type { Route, RouteLocation } from '../core/route.js';
+import type { Route, RouteLoader, RouteLocation } from '../core/route.js';
 import type { NavigationFailure } from '../navigation/errors.js';
-import { RouterNotInstalledError } from '../errors.js';
-import { getRouteSignal } from '../core/context.js';
+import { InvalidRouterStateError, RouterNotInstalledError } from '../errors.js';
+import { DEPTH_KEY, getRouteSignal } from '../core/context.js';
+import { getRouteLoaderData } from '../core/loaders.js';
+import {
+	applySearch,
+	decodeSearch,
+	findSearchSchema,
+	mergeSearch,
+	type SearchSchema,
+} from '../core/search.js';
 
 export const useRouter = (): RouterInstance => {
 	const router = getGlobalRouter();
@@ -116,6 +130,94 @@ export const useRoute = (): Route => {
 	});
 };
 
+/** The data a loader resolves to, or `T` itself when it is not a loader. */
+export type LoaderData<T> = T extends RouteLoader<infer Data> ? Data : T;
+
+/**
+ * The data loaded for the route record rendering the calling component — the
+ * record its `RouterView` matched — or for the deepest matched record when
+ * called outside any view. Pass the loader's type, or its data's:
+ * `useLoaderData<typeof loadUser>()`. Holds undefined while a page the server
+ * did not render loads on start.
+ */
+export const useLoaderData = <T = unknown>(): ReadonlySignal<
+	LoaderData<T> | undefined
+> => {
+	const routeSignal = getRouteSignal();
+	if (!routeSignal) {
+		throw new RouterNotInstalledError({ operation: 'useLoaderData' });
+	}
+
+	// RouterView provides the depth of the view below it, so a routed component
+	// sees its own record's index plus one.
+	const depth = inject<number>(DEPTH_KEY, 0) ?? 0;
+
+	return computed(() => {
+		const route = routeSignal.value;
+		const index = depth > 0 ? depth - 1 : route.matched.length - 1;
+		if (route.matched[index]?.loader === undefined) return undefined;
+		return getRouteLoaderData(route)?.[index] as LoaderData<T> | undefined;
+	});
+};
+
+/**
+ * The current query decoded with `schema`, or with the `search` schema of the
+ * deepest matched record when none is given; the raw query when neither
+ * exists. Values that fail to decode fall back to their field's default.
+ */
+export const useSearch = <A = Record<string, unknown>>(
+	schema?: SearchSchema<A>
+): ReadonlySignal<A> => {
+	const routeSignal = getRouteSignal();
+	if (!routeSignal) {
+		throw new RouterNotInstalledError({ operation: 'useSearch' });
+	}
+
+	return computed(() => {
+		const route = routeSignal.value;
+		const active = schema ?? findSearchSchema(route);
+		if (!active) return route.query as A;
+		const decoded = decodeSearch<A>(active, route.query);
+		if (decoded === undefined) {
+			throw new InvalidRouterStateError({
+				message: `The search schema for "${route.path}" cannot decode an empty query. Give each field a default or make it optional.`,
+			});
+		}
+		return decoded;
+	});
+};
+
+export interface SetSearchOptions<A> {
+	readonly replace?: boolean;
+	/** Defaults to the deepest matched record's `search` schema. */
+	readonly schema?: SearchSchema<A>;
+}
+
+/**
+ * Navigates to the current path with the given search keys changed, keeping
+ * the others. Setting a key to undefined removes it from the URL.
+ */
+export const setSearch = <A extends object = Record<string, unknown>>(
+	partial: Partial<A>,
+	options: SetSearchOptions<A> = {}
+): Promise<Route | NavigationFailure> => {
+	const router = useRouter();
+	const route = Effect.runSync(SubscriptionRef.get(router.currentRoute));
+	const schema = options.schema ?? findSearchSchema(route);
+	const query = schema
+		? mergeSearch<A>(schema, route.query, partial)
+		: applySearch(route.query, partial);
+	if (!query) {
+		return Promise.reject(
+			new InvalidRouterStateError({
+				message: `The search schema for "${route.path}" cannot decode the current query.`,
+			})
+		);
+	}
+	const to = { path: route.path, query, hash: route.hash };
+	return options.replace === true ? router.replace(to) : router.push(to);
+};
+
 export const onRouteChange = (
 	callback: (route: Route) => void
 ): (() => void) => {
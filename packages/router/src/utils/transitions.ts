@@ -23,7 +23,7 @@
  */
 
 import { Effect } from 'effect';
-import type { Route } from '../core/route.js';
+import type { NormalizedRouteRecord, Route } from '../core/route.js';
 
 export type TransitionMode = 'in-out' | 'out-in' | 'default';
 
@@ -156,3 +156,58 @@ export const transitions = {
 	} as TransitionConfig,
 	scale: { name: 'scale', duration: 200 } as TransitionConfig,
 };
+
+/**
+ * What a route record declares under `meta.viewTransition`: the
+ * `view-transition-name` of its view, and the transition types added to a swap
+ * into it. A string is shorthand for the name.
+ */
+export interface ViewTransitionConfig {
+	readonly name?: string;
+	readonly types?: readonly string[];
+}
+
+export const getRouteViewTransition = (
+	record: NormalizedRouteRecord | undefined
+): ViewTransitionConfig => {
+	const declared = record?.meta?.viewTransition as
+		| ViewTransitionConfig
+		| string
+		| undefined;
+	return typeof declared === 'string' ? { name: declared } : (declared ?? {});
+};
+
+type ViewTransitionUpdate = () => void | Promise<void>;
+
+interface ViewTransitionDocument {
+	readonly startViewTransition?: (
+		update:
+			| ViewTransitionUpdate
+			| {
+					readonly update: ViewTransitionUpdate;
+					readonly types: string[];
+			  }
+	) => unknown;
+}
+
+export const supportsViewTransitions = (): boolean =>
+	typeof document !== 'undefined' &&
+	typeof (document as ViewTransitionDocument).startViewTransition ===
+		'function';
+
+/**
+ * Runs `update` inside `document.startViewTransition`, tagged with `types` for
+ * `:active-view-transition-type()`. Browsers that predate transition types
+ * only take the callback, and run it untyped.
+ */
+export const startViewTransition = (
+	update: ViewTransitionUpdate,
+	types: readonly string[]
+): void => {
+	const doc = document as ViewTransitionDocument;
+	try {
+		doc.startViewTransition?.({ update, types: [...types] });
+	} catch {
+		doc.startViewTransition?.(update);
+	}
+};
@@ -14,6 +14,7 @@ const FEATURES = [
 	['multipart', 'Multipart bodies', 'Accepts `multipart/form-data` request bodies.'],
 	['setCookieMultiValue', 'Multiple Set-Cookie', 'Preserves multiple `Set-Cookie` response headers.'],
 	['ephemeralPort', 'Ephemeral port', 'Binds an OS-assigned port via `port: 0`.'],
+	['webSockets', 'WebSockets', 'Upgrades requests the handler accepts with `createServerSocketResponse`.'],
 ];
 
 const runtimes = Object.values(adapterCapabilities);
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron } from '../cron.js';
+
+const at = (iso: string): number => Date.parse(iso);
+const iso = (ms: number | undefined): string | undefined =>
+	ms === undefined ? undefined : new Date(ms).toISOString();
+
+describe('parseCron', () => {
+	it('finds the next daily occurrence', () => {
+		const nightly = parseCron('0 3 * * *');
+
+		expect(iso(nightly.next(at('2025-06-01T01:00:00Z')))).toBe(
+			'2025-06-01T03:00:00.000Z'
+		);
+		// Strictly after: an occurrence at `after` itself is not returned.
+		expect(iso(nightly.next(at('2025-06-01T03:00:00Z')))).toBe(
+			'2025-06-02T03:00:00.000Z'
+		);
+	});
+
+	it('supports steps, ranges, lists and names', () => {
+		expect(
+			iso(parseCron('*/15 * * * *').next(at('2025-06-01T10:07:30Z')))
+		).toBe('2025-06-01T10:15:00.000Z');
+		expect(
+			iso(parseCron('0 9-17/4 * * mon-fri').next(at('2025-06-06T18:00:00Z')))
+		).toBe('2025-06-09T09:00:00.000Z');
+		expect(
+			iso(parseCron('30 8 1,15 jan,jul *').next(at('2025-06-20T00:00:00Z')))
+		).toBe('2025-07-01T08:30:00.000Z');
+	});
+
+	it('accepts shorthands and Sunday as 7', () => {
+		expect(iso(parseCron('@monthly').next(at('2025-06-20T00:00:00Z')))).toBe(
+			'2025-07-01T00:00:00.000Z'
+		);
+		// 2025-06-22 is a Sunday.
+		expect(iso(parseCron('0 0 * * 7').next(at('2025-06-20T00:00:00Z')))).toBe(
+			'2025-06-22T00:00:00.000Z'
+		);
+	});
+
+	it('matches either day field when both are restricted', () => {
+		// The 13th, or any Friday: Friday 2025-06-06 comes first.
+		expect(
+			iso(parseCron('0 0 13 * fri').next(at('2025-06-02T00:00:00Z')))
+		).toBe('2025-06-06T00:00:00.000Z');
+	});
+
+	it('reads the schedule in a time zone', () => {
+		const nightly = parseCron('0 3 * * *');
+
+		// 03:00 in New York is 07:00 UTC in summer, 08:00 UTC in winter.
+		expect(
+			iso(nightly.next(at('2025-06-01T00:00:00Z'), 'America/New_York'))
+		).toBe('2025-06-01T07:00:00.000Z');
+		expect(
+			iso(nightly.next(at('2025-01-10T00:00:00Z'), 'America/New_York'))
+		).toBe('2025-01-10T08:00:00.000Z');
+	});
+
+	it('moves a wall time skipped by daylight saving past the gap', () => {
+		// 2025-03-09 02:30 does not exist in New York; it fires at 03:30 EDT.
+		expect(
+			iso(
+				parseCron('30 2 * * *').next(
+					at('2025-03-09T05:00:00Z'),
+					'America/New_York'
+				)
+			)
+		).toBe('2025-03-09T07:30:00.000Z');
+	});
+
+	it('fires a repeated wall time once', () => {
+		const schedule = parseCron('30 1 * * *');
+		// 2025-11-02 01:30 happens twice in New York; the first is 05:30 UTC.
+		const first = schedule.next(at('2025-11-02T04:00:00Z'), 'America/New_York');
+
+		expect(iso(first)).toBe('2025-11-02T05:30:00.000Z');
+		expect(iso(schedule.next(first ?? 0, 'America/New_York'))).toBe(
+			'2025-11-03T06:30:00.000Z'
+		);
+	});
+
+	it('reports a schedule that never fires', () => {
+		expect(parseCron('0 0 31 2 *').next(at('2025-01-01T00:00:00Z'))).toBe(
+			undefined
+		);
+	});
+
+	it('rejects malformed expressions', () => {
+		expect(() => parseCron('* * * *')).toThrow(/5 fields/);
+		expect(() => parseCron('60 * * * *')).toThrow(/minute "60"/);
+		expect(() => parseCron('0 0 * foo *')).toThrow(/month "foo"/);
+		expect(() => parseCron('*/0 * * * *')).toThrow(/step/);
+		expect(() => parseCron('0 10-2 * * *')).toThrow(/reversed/);
+	});
+});
@@ -29,4 +29,14 @@ describe('@effuse/server public conversion helpers', () => {
 		expect(bunSubpath.withStaticFiles).toBe(nodeSubpath.withStaticFiles);
 		expect(pkg.withStaticFiles).toBe(nodeSubpath.withStaticFiles);
 	});
+
+	it('exposes the prerendered page store from both runtime subpaths', () => {
+		expect(typeof nodeSubpath.createPrerenderFileStore).toBe('function');
+		expect(bunSubpath.createPrerenderFileStore).toBe(
+			nodeSubpath.createPrerenderFileStore
+		);
+		expect(pkg.createPrerenderFileStore).toBe(
+			nodeSubpath.createPrerenderFileStore
+		);
+	});
 });
@@ -0,0 +1,86 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { afterAll, describe, it, expect } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileStorage } from '../file-storage.js';
+import { runStorageConformance } from '../storage-conformance.js';
+
+const dirs: string[] = [];
+const freshDir = (): string => {
+	const dir = mkdtempSync(join(tmpdir(), 'effuse-storage-'));
+	dirs.push(dir);
+	return dir;
+};
+
+afterAll(() => {
+	for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+});
+
+runStorageConformance('file', () => createFileStorage({ dir: freshDir() }), {
+	describe,
+	it,
+	expect,
+});
+
+describe('createFileStorage specifics', () => {
+	it('keeps entries across instances on the same directory', async () => {
+		const dir = freshDir();
+		await createFileStorage({ dir }).namespace('sessions').set('s1', {
+			user: 'u1',
+		});
+
+		const reopened = createFileStorage({ dir }).namespace('sessions');
+		expect(await reopened.get('s1')).toEqual({ user: 'u1' });
+	});
+
+	it('expires a TTL entry using the injected clock', async () => {
+		let now = 1_000_000;
+		const storage = createFileStorage({ dir: freshDir(), now: () => now });
+
+		await storage.set('k', 'v', { ttlMs: 1000 });
+		expect(await storage.get('k')).toBe('v');
+
+		now += 1500;
+		expect(await storage.get('k')).toBeUndefined();
+		expect(await storage.keys()).toEqual([]);
+	});
+
+	it('sweeps expired entries lazily, without reading them', async () => {
+		let now = 1_000_000;
+		const dir = freshDir();
+		const storage = createFileStorage({
+			dir,
+			now: () => now,
+			sweepIntervalMs: 10_000,
+		});
+
+		await storage.set('short', 1, { ttlMs: 1000 });
+		await storage.set('long', 2);
+		now += 20_000;
+		// Any operation past the interval starts a sweep.
+		await storage.has('long');
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(readdirSync(dir)).toHaveLength(1);
+	});
+
+	it('leaves no temporary files behind a write', async () => {
+		const dir = freshDir();
+		const storage = createFileStorage({ dir });
+
+		await Promise.all(
+			Array.from({ length: 10 }, (_, index) => storage.set('k', index))
+		);
+
+		expect(readdirSync(dir).filter((name) => name.endsWith('.tmp'))).toEqual(
+			[]
+		);
+		expect(typeof (await storage.get('k'))).toBe('number');
+	});
+});
@@ -28,6 +28,13 @@ import {
 	isLayerServerErrorBody,
 	layerServerErrorResponse,
 } from '@effuse/core/server';
+import {
+	connectServerSocket,
+	defineLayer,
+	defineServerSocket,
+	handleLayerServerRequest,
+	serverSchema,
+} from '@effuse/core';
 import { createNodeServer } from '../node/index.js';
 import type { EffuseServer } from '../contract.js';
 
@@ -76,3 +83,86 @@ describe('integration: core typed errors over the Node adapter', () => {
 		expect(isLayerServerErrorBody(body)).toBe(true);
 	});
 });
+
+describe('integration: layer WebSocket routes over the Node adapter', () => {
+	let server: EffuseServer | null = null;
+
+	afterEach(async () => {
+		if (server) {
+			await server.close({ timeoutMs: 2000 });
+			server = null;
+		}
+	});
+
+	const echo = defineServerSocket('/ws/:room', {
+		message: serverSchema.object({ text: serverSchema.string }),
+		reply: serverSchema.object({
+			room: serverSchema.string,
+			text: serverSchema.string,
+		}),
+		onMessage: (message, socket, ctx) => {
+			socket.send({ room: String(ctx.params.room), text: message.text });
+		},
+	});
+
+	const start = async (maxBodyBytes?: number) => {
+		const layer = defineLayer({ name: 'app', server: { api: [echo] } });
+		server = createNodeServer(
+			async (request) =>
+				(await handleLayerServerRequest(request, [layer])) ??
+				new Response('Not Found', { status: 404 }),
+			maxBodyBytes === undefined ? {} : { maxBodyBytes }
+		);
+		return (await server.listen({ port: 0 })).url;
+	};
+
+	const closeCode = (socket: WebSocket): Promise<number> =>
+		new Promise((resolve) => {
+			socket.addEventListener('close', (event: CloseEvent) => {
+				resolve(event.code);
+			});
+		});
+
+	it('round-trips typed messages with the route params', async () => {
+		const connection = connectServerSocket(echo, {
+			baseUrl: await start(),
+			params: { room: 'lobby' },
+		});
+		await connection.ready;
+
+		const reply = new Promise((resolve) => {
+			connection.onMessage(resolve);
+		});
+		connection.send({ text: 'hi' });
+
+		expect(await reply).toEqual({ room: 'lobby', text: 'hi' });
+		connection.close();
+	});
+
+	it('closes with 1009 when a message exceeds the body limit', async () => {
+		const connection = connectServerSocket(echo, {
+			baseUrl: await start(64),
+			params: { room: 'lobby' },
+		});
+		await connection.ready;
+		const closed = closeCode(connection.socket);
+
+		connection.send({ text: 'x'.repeat(128) });
+
+		expect(await closed).toBe(1009);
+	});
+
+	it('closes open sockets with 1001 on shutdown', async () => {
+		const connection = connectServerSocket(echo, {
+			baseUrl: await start(),
+			params: { room: 'lobby' },
+		});
+		await connection.ready;
+		const closed = closeCode(connection.socket);
+
+		await server?.close({ timeoutMs: 2000 });
+		server = null;
+
+		expect(await closed).toBe(1001);
+	});
+});
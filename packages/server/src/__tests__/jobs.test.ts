@@ -0,0 +1,479 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isServerValidationError, serverSchema } from '@effuse/core';
+import { createJobQueue, defineJob, jobQueuePlugin } from '../jobs.js';
+import { createPluginHost } from '../plugins.js';
+import { createMemoryStorage } from '../storage.js';
+import type { JobEvent } from '../jobs.js';
+import type { EffuseStorage } from '../storage.js';
+
+const tick = async (ms: number): Promise<void> => {
+	await vi.advanceTimersByTimeAsync(ms);
+};
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+const sendEmail = (sent: string[]) =>
+	defineJob({
+		name: 'send-email',
+		input: serverSchema.object({ to: serverSchema.string }),
+		run: (input) => {
+			sent.push(input.to);
+		},
+	});
+
+/** `storage` with every write taking `ms`, as over a network. */
+const slowWrites = (storage: EffuseStorage, ms: number): EffuseStorage => {
+	const delay = (): Promise<void> =>
+		new Promise((resolve) => setTimeout(resolve, ms));
+	return {
+		...storage,
+		get: (key) => storage.get(key),
+		has: (key) => storage.has(key),
+		delete: (key) => storage.delete(key),
+		increment: (key, by, options) => storage.increment(key, by, options),
+		take: (key) => storage.take(key),
+		keys: () => storage.keys(),
+		clear: () => storage.clear(),
+		set: async (key, value, options) => {
+			await delay();
+			await storage.set(key, value, options);
+		},
+		compareAndSet: async (key, expected, next, options) => {
+			await delay();
+			return storage.compareAndSet(key, expected, next, options);
+		},
+		namespace: (name) => slowWrites(storage.namespace(name), ms),
+	};
+};
+
+describe('createJobQueue', () => {
+	it('runs an enqueued job with its validated input', async () => {
+		vi.useFakeTimers();
+		const sent: string[] = [];
+		const job = sendEmail(sent);
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(job);
+		queue.start();
+
+		await queue.enqueue(job, { to: 'ada@example.com' });
+		await tick(0);
+
+		expect(sent).toEqual(['ada@example.com']);
+		await queue.stop();
+	});
+
+	it('stores the input as given and decodes it for each run', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const seen: number[] = [];
+		const job = defineJob({
+			name: 'resize',
+			input: serverSchema.object({ width: serverSchema.numberFromString }),
+			run: (input) => {
+				seen.push(input.width);
+			},
+		});
+		const queue = createJobQueue({ storage });
+		queue.register(job);
+
+		const { id } = await queue.enqueue(job, { width: '640' });
+		expect(await storage.namespace('jobs').get(id)).toMatchObject({
+			input: { width: '640' },
+		});
+
+		queue.start();
+		await tick(0);
+
+		expect(seen).toEqual([640]);
+		expect(await queue.deadLetters()).toEqual([]);
+		await queue.stop();
+	});
+
+	it('rejects invalid input at enqueue', async () => {
+		const job = sendEmail([]);
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+
+		const error = await queue
+			.enqueue(job, { to: 42 } as never)
+			.catch((caught: unknown) => caught);
+
+		expect(isServerValidationError(error)).toBe(true);
+	});
+
+	it('keeps jobs in storage for the next worker', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const sent: string[] = [];
+		const job = sendEmail(sent);
+
+		// Enqueued by a process that never ran it, as before a deploy.
+		await createJobQueue({ storage }).enqueue(job, { to: 'later@example.com' });
+
+		const worker = createJobQueue({ storage });
+		worker.register(job);
+		worker.start();
+		await tick(0);
+
+		expect(sent).toEqual(['later@example.com']);
+		await worker.stop();
+	});
+
+	it('waits out delayMs before running', async () => {
+		vi.useFakeTimers();
+		const sent: string[] = [];
+		const job = sendEmail(sent);
+		const queue = createJobQueue({
+			storage: createMemoryStorage(),
+			pollIntervalMs: 100,
+		});
+		queue.register(job);
+		queue.start();
+
+		await queue.enqueue(job, { to: 'a@example.com' }, { delayMs: 1000 });
+		await tick(900);
+		expect(sent).toEqual([]);
+		await tick(200);
+		expect(sent).toEqual(['a@example.com']);
+
+		await queue.stop();
+	});
+
+	it('collapses enqueues sharing a dedupeKey while one is queued', async () => {
+		vi.useFakeTimers();
+		const sent: string[] = [];
+		const job = sendEmail(sent);
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(job);
+
+		const first = await queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		const second = await queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		expect(second).toEqual({ id: first.id, deduplicated: true });
+
+		queue.start();
+		await tick(0);
+		expect(sent).toHaveLength(1);
+
+		// Once it has run, the key is free again.
+		const third = await queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		expect(third.deduplicated).toBe(false);
+
+		await queue.stop();
+	});
+
+	it('collapses enqueues sharing a dedupeKey while the first is still storing', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const queue = createJobQueue({ storage: slowWrites(storage, 20) });
+		const job = sendEmail([]);
+
+		const first = queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		await tick(5);
+		const second = queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		await tick(100);
+
+		const { id } = await first;
+		expect(await second).toEqual({ id, deduplicated: true });
+		expect(await storage.namespace('jobs').keys()).toEqual([id]);
+	});
+
+	it('takes over a dedupeKey left by an enqueue that died', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		await storage
+			.namespace('job-dedupe')
+			.set('welcome:1', { id: 'lost', reservedAt: Date.now() });
+		const queue = createJobQueue({ storage, leaseMs: 1000 });
+		const job = sendEmail([]);
+
+		const early = await queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		expect(early).toEqual({ id: 'lost', deduplicated: true });
+
+		await tick(1000);
+		const late = await queue.enqueue(
+			job,
+			{ to: 'a@example.com' },
+			{ dedupeKey: 'welcome:1' }
+		);
+		expect(late.deduplicated).toBe(false);
+		expect(await storage.namespace('jobs').keys()).toEqual([late.id]);
+	});
+
+	it('retries with exponential backoff, then dead-letters', async () => {
+		vi.useFakeTimers();
+		const events: JobEvent[] = [];
+		const attempts: number[] = [];
+		const job = defineJob({
+			name: 'flaky',
+			maxAttempts: 3,
+			backoff: { baseMs: 1000 },
+			run: (_input, ctx) => {
+				attempts.push(Date.now());
+				throw new Error(`attempt ${String(ctx.attempt)} failed`);
+			},
+		});
+		const queue = createJobQueue({
+			storage: createMemoryStorage(),
+			pollIntervalMs: 10_000,
+			random: () => 0.999,
+			onEvent: (event) => events.push(event),
+		});
+		queue.register(job);
+		queue.start();
+		const start = Date.now();
+
+		await queue.enqueue(job, undefined);
+		await tick(10_000);
+
+		// Just under 1s, then just under 2s, after the failure before.
+		expect(attempts.map((at) => at - start)).toEqual([0, 999, 2998]);
+		expect(events.filter((event) => event.type === 'retry')).toHaveLength(2);
+
+		const letters = await queue.deadLetters();
+		expect(letters).toHaveLength(1);
+		expect(letters[0]?.attempts).toBe(3);
+		expect(letters[0]?.error).toBe('attempt 3 failed');
+
+		await queue.stop();
+	});
+
+	it('retries a dead letter on request', async () => {
+		vi.useFakeTimers();
+		let fail = true;
+		let succeeded = 0;
+		const job = defineJob({
+			name: 'fixable',
+			maxAttempts: 1,
+			run: () => {
+				if (fail) throw new Error('broken');
+				succeeded += 1;
+			},
+		});
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(job);
+		queue.start();
+
+		const { id } = await queue.enqueue(job, undefined);
+		await tick(0);
+		expect(await queue.deadLetters()).toHaveLength(1);
+
+		fail = false;
+		expect(await queue.retryDeadLetter(id)).toBe(true);
+		await tick(0);
+
+		expect(succeeded).toBe(1);
+		expect(await queue.deadLetters()).toEqual([]);
+		await queue.stop();
+	});
+
+	it('dead-letters stored input that no longer validates without retrying', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		let runs = 0;
+		const before = defineJob({ name: 'report', run: () => undefined });
+		const after = defineJob({
+			name: 'report',
+			input: serverSchema.object({ month: serverSchema.string }),
+			run: () => {
+				runs += 1;
+			},
+		});
+
+		await createJobQueue({ storage }).enqueue(before, { year: 2025 });
+		const queue = createJobQueue({ storage });
+		queue.register(after);
+		queue.start();
+		await tick(0);
+
+		expect(runs).toBe(0);
+		const letters = await queue.deadLetters();
+		expect(letters).toHaveLength(1);
+		expect(letters[0]?.attempts).toBe(1);
+		await queue.stop();
+	});
+
+	it('bounds concurrency across the queue and per job', async () => {
+		vi.useFakeTimers();
+		let running = 0;
+		let peak = 0;
+		let peakSingle = 0;
+		let single = 0;
+		const hold = (ms: number) =>
+			new Promise<void>((resolve) => setTimeout(resolve, ms));
+		const wide = defineJob({
+			name: 'wide',
+			run: async () => {
+				running += 1;
+				peak = Math.max(peak, running);
+				await hold(100);
+				running -= 1;
+			},
+		});
+		const narrow = defineJob({
+			name: 'narrow',
+			concurrency: 1,
+			run: async () => {
+				single += 1;
+				peakSingle = Math.max(peakSingle, single);
+				await hold(100);
+				single -= 1;
+			},
+		});
+		const queue = createJobQueue({
+			storage: createMemoryStorage(),
+			concurrency: 3,
+		});
+		queue.register(wide);
+		queue.register(narrow);
+
+		for (let index = 0; index < 6; index += 1) {
+			await queue.enqueue(wide, undefined);
+			await queue.enqueue(narrow, undefined);
+		}
+		queue.start();
+		await tick(2000);
+
+		expect(peak).toBeLessThanOrEqual(3);
+		expect(peakSingle).toBe(1);
+		await queue.stop();
+	});
+
+	it('runs a job once when two workers share storage', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const sent: string[] = [];
+		const job = sendEmail(sent);
+		const a = createJobQueue({ storage });
+		const b = createJobQueue({ storage });
+		a.register(job);
+		b.register(job);
+
+		for (let index = 0; index < 10; index += 1) {
+			await a.enqueue(job, { to: `user${String(index)}@example.com` });
+		}
+		a.start();
+		b.start();
+		await tick(1000);
+
+		expect(sent).toHaveLength(10);
+		expect(new Set(sent).size).toBe(10);
+		await a.stop();
+		await b.stop();
+	});
+
+	it('runs a job again when its worker dies holding the claim', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		let runs = 0;
+		const job = defineJob({
+			name: 'resumable',
+			run: async () => {
+				runs += 1;
+				// The first worker never finishes.
+				if (runs === 1) await new Promise<void>(() => undefined);
+			},
+		});
+		const dying = createJobQueue({ storage, leaseMs: 1000 });
+		dying.register(job);
+		dying.start();
+		await dying.enqueue(job, undefined);
+		await tick(0);
+		// Gone without draining: no renewals, the claim simply lapses.
+		const dead = dying.stop({ timeoutMs: 0 });
+		await tick(0);
+		await dead;
+
+		const survivor = createJobQueue({ storage, leaseMs: 1000 });
+		survivor.register(job);
+		survivor.start();
+		await tick(500);
+		expect(runs).toBe(1);
+		await tick(2000);
+		expect(runs).toBe(2);
+
+		await survivor.stop();
+	});
+
+	it('drains in-flight runs on stop', async () => {
+		vi.useFakeTimers();
+		let finished = false;
+		const job = defineJob({
+			name: 'drained',
+			run: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 500));
+				finished = true;
+			},
+		});
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(job);
+		queue.start();
+		await queue.enqueue(job, undefined);
+		await tick(0);
+
+		const stopping = queue.stop();
+		await tick(500);
+		await stopping;
+
+		expect(finished).toBe(true);
+	});
+
+	it('drains through a plugin host on shutdown', async () => {
+		vi.useFakeTimers();
+		let finished = false;
+		const job = defineJob({
+			name: 'export',
+			run: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 500));
+				finished = true;
+			},
+		});
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(job);
+		const host = createPluginHost().use(jobQueuePlugin(queue));
+		await host.start();
+		expect(queue.running).toBe(true);
+
+		await queue.enqueue(job, undefined);
+		await tick(0);
+		const stopping = host.stop();
+		await tick(500);
+		await stopping;
+
+		expect(finished).toBe(true);
+		expect(queue.running).toBe(false);
+	});
+
+	it('rejects a duplicate job name', () => {
+		const queue = createJobQueue({ storage: createMemoryStorage() });
+		queue.register(defineJob({ name: 'dup', run: () => undefined }));
+
+		expect(() =>
+			queue.register(defineJob({ name: 'dup', run: () => undefined }))
+		).toThrow(/duplicate/i);
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createPrerenderFileStore } from '../internal/prerender-files.js';
+
+describe('createPrerenderFileStore', () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), 'effuse-prerender-'));
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	it('writes pages beneath the root and reads them back', async () => {
+		const store = createPrerenderFileStore({
+			root: pathToFileURL(`${root}/`),
+		});
+
+		await store.write('docs/intro/index.html', '<p>v1</p>');
+		await store.write('docs/intro/index.html', '<p>v2</p>');
+
+		expect(await store.read('docs/intro/index.html')).toBe('<p>v2</p>');
+		expect(
+			readFileSync(join(root, 'docs', 'intro', 'index.html'), 'utf8')
+		).toBe('<p>v2</p>');
+		// The temporary file is renamed over the page, never left behind.
+		expect(readdirSync(join(root, 'docs', 'intro'))).toEqual(['index.html']);
+	});
+
+	it('reports a missing page as undefined', async () => {
+		const store = createPrerenderFileStore({ root });
+
+		expect(await store.read('missing/index.html')).toBeUndefined();
+	});
+
+	it('rejects files outside the root', async () => {
+		const store = createPrerenderFileStore({ root });
+
+		await expect(store.read('../escape.html')).rejects.toThrow(TypeError);
+		await expect(store.write('../escape.html', 'x')).rejects.toThrow(
+			TypeError
+		);
+	});
+});
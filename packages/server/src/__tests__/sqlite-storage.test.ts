@@ -0,0 +1,77 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { afterAll, describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSqliteStorage } from '../sqlite-storage.js';
+import { runStorageConformance } from '../storage-conformance.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'effuse-sqlite-'));
+
+afterAll(() => {
+	rmSync(dir, { recursive: true, force: true });
+});
+
+runStorageConformance(
+	'sqlite',
+	() => createSqliteStorage({ path: ':memory:' }),
+	{ describe, it, expect }
+);
+
+describe('createSqliteStorage specifics', () => {
+	it('keeps entries across connections to the same file', async () => {
+		const path = join(dir, 'persist.db');
+		const first = createSqliteStorage({ path });
+		await first.namespace('sessions').set('s1', { user: 'u1' });
+		await first.close();
+
+		const second = createSqliteStorage({ path });
+		expect(await second.namespace('sessions').get('s1')).toEqual({
+			user: 'u1',
+		});
+		await second.close();
+	});
+
+	it('expires a TTL entry using the injected clock', async () => {
+		let now = 1_000_000;
+		const storage = createSqliteStorage({ path: ':memory:', now: () => now });
+
+		await storage.set('k', 'v', { ttlMs: 1000 });
+		expect(await storage.get('k')).toBe('v');
+
+		now += 1500;
+		expect(await storage.get('k')).toBeUndefined();
+		expect(await storage.keys()).toEqual([]);
+		await storage.close();
+	});
+
+	it('lists keys containing any character, namespace by namespace', async () => {
+		const storage = createSqliteStorage({ path: ':memory:' });
+		const scoped = storage.namespace('ns');
+
+		await scoped.set('ünïcode/ключ', 1);
+		await storage.namespace('nsx').set('other', 2);
+
+		expect(await scoped.keys()).toEqual(['ünïcode/ключ']);
+		await storage.close();
+	});
+
+	it('rejects a table name that is not a plain identifier', () => {
+		expect(() =>
+			createSqliteStorage({ path: ':memory:', table: 'x"; DROP TABLE y' })
+		).toThrow(TypeError);
+	});
+
+	it('rejects operations after close', async () => {
+		const storage = createSqliteStorage({ path: ':memory:' });
+		await storage.set('k', 1);
+		await storage.close();
+
+		await expect(storage.get('k')).rejects.toThrow('closed');
+	});
+});
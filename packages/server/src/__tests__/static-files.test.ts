@@ -8,6 +8,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
 	mkdtempSync,
 	mkdirSync,
+	renameSync,
 	rmSync,
 	symlinkSync,
 	writeFileSync,
@@ -110,6 +111,37 @@ describe('withStaticFiles', () => {
 		);
 	});
 
+	it('serves a regenerated page with its current size and validators', async () => {
+		mkdirSync(join(root, 'about'), { recursive: true });
+		writeFileSync(join(root, 'about', 'index.html'), '<p>first</p>');
+		const handler = withStaticFiles(fallback, { root });
+		const first = await handler(
+			new Request('https://example.test/about/index.html')
+		);
+		const staleEtag = first.headers.get('etag');
+		await first.text();
+
+		// As regeneration does: a sibling file renamed over the page.
+		const regenerated = '<p>regenerated, and longer</p>';
+		writeFileSync(join(root, 'about', 'next.tmp'), regenerated);
+		renameSync(
+			join(root, 'about', 'next.tmp'),
+			join(root, 'about', 'index.html')
+		);
+		const revalidated = await handler(
+			new Request('https://example.test/about/index.html', {
+				headers: { 'If-None-Match': staleEtag! },
+			})
+		);
+
+		expect(revalidated.status).toBe(200);
+		expect(revalidated.headers.get('etag')).not.toBe(staleEtag);
+		expect(revalidated.headers.get('content-length')).toBe(
+			String(regenerated.length)
+		);
+		expect(await revalidated.text()).toBe(regenerated);
+	});
+
 	it('cancels an open file stream when the request aborts', async () => {
 		writeFileSync(join(root, 'large.bin'), Buffer.alloc(1024 * 1024, 1));
 		const controller = new AbortController();
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { createDataCache } from '@effuse/core';
 import { createMemoryStorage } from '../storage.js';
 import { runStorageConformance } from '../storage-conformance.js';
 
@@ -37,6 +38,21 @@ describe('createMemoryStorage specifics', () => {
 		expect(await storage.keys()).toEqual([]);
 	});
 
+	it('applies an increment TTL only when it creates the counter', async () => {
+		let now = 1_000_000;
+		const storage = createMemoryStorage({ now: () => now });
+
+		await storage.increment('window', 1, { ttlMs: 1000 });
+		now += 600;
+		await storage.increment('window', 1, { ttlMs: 1000 });
+		expect(await storage.get('window')).toBe(2);
+
+		// The second increment did not push the expiry out.
+		now += 600;
+		expect(await storage.get('window')).toBeUndefined();
+		expect(await storage.increment('window')).toBe(1);
+	});
+
 	it('isolates a stored value from later caller mutation', async () => {
 		const storage = createMemoryStorage();
 		const value = { roles: ['user'] };
@@ -60,3 +76,25 @@ describe('createMemoryStorage specifics', () => {
 		});
 	});
 });
+
+describe('EffuseStorage as a shared cache store', () => {
+	it('shares data cache entries between instances', async () => {
+		const store = createMemoryStorage().namespace('data-cache');
+		const first = createDataCache({ store });
+		const second = createDataCache({ store });
+		let calls = 0;
+		const load = async (id: string) => {
+			calls += 1;
+			return { id };
+		};
+
+		await first.cached(load, { name: 'item', life: { stale: 60 } })('a');
+		const served = await second.cached(load, {
+			name: 'item',
+			life: { stale: 60 },
+		})('a');
+
+		expect(served).toEqual({ id: 'a' });
+		expect(calls).toBe(1);
+	});
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { createTaskScheduler } from '../tasks.js';
+import { createMemoryStorage } from '../storage.js';
 import type { TaskEvent } from '../tasks.js';
 
 const tick = async (ms: number): Promise<void> => {
@@ -279,4 +280,306 @@ describe('createTaskScheduler', () => {
 
 		await scheduler.stop();
 	});
+
+	it('rejects a task with both or neither of intervalMs and schedule', () => {
+		const scheduler = createTaskScheduler();
+
+		expect(() =>
+			scheduler.register({ name: 'neither', run: () => undefined })
+		).toThrow(/exactly one/);
+		expect(() =>
+			scheduler.register({
+				name: 'both',
+				intervalMs: 100,
+				schedule: '* * * * *',
+				run: () => undefined,
+			})
+		).toThrow(/exactly one/);
+	});
+
+	it('rejects a schedule that never fires or an unknown time zone', () => {
+		const scheduler = createTaskScheduler();
+
+		expect(() =>
+			scheduler.register({
+				name: 'never',
+				schedule: '0 0 30 2 *',
+				run: () => undefined,
+			})
+		).toThrow(/never fires/);
+		expect(() =>
+			scheduler.register({
+				name: 'nowhere',
+				schedule: '0 3 * * *',
+				timeZone: 'Mars/Olympus_Mons',
+				run: () => undefined,
+			})
+		).toThrow(/timeZone/);
+	});
+
+	it('rejects lock without storage', () => {
+		const scheduler = createTaskScheduler();
+
+		expect(() =>
+			scheduler.register({
+				name: 'locked',
+				intervalMs: 100,
+				lock: true,
+				run: () => undefined,
+			})
+		).toThrow(/storage/);
+	});
+});
+
+describe('createTaskScheduler schedules', () => {
+	it('runs a cron task at each occurrence', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-06-01T02:00:00Z'));
+		const scheduler = createTaskScheduler();
+		const runs: string[] = [];
+
+		scheduler.register({
+			name: 'nightly',
+			schedule: '0 3 * * *',
+			run: () => {
+				runs.push(new Date().toISOString());
+			},
+		});
+		scheduler.start();
+
+		await tick(59 * 60_000);
+		expect(runs).toEqual([]);
+		await tick(60_000);
+		await tick(24 * 60 * 60_000);
+		expect(runs).toEqual([
+			'2025-06-01T03:00:00.000Z',
+			'2025-06-02T03:00:00.000Z',
+		]);
+
+		await scheduler.stop();
+	});
+
+	it('reads a cron schedule in its time zone', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+		const scheduler = createTaskScheduler();
+		const runs: string[] = [];
+
+		scheduler.register({
+			name: 'tokyo',
+			schedule: '0 9 * * *',
+			timeZone: 'Asia/Tokyo',
+			run: () => {
+				runs.push(new Date().toISOString());
+			},
+		});
+		scheduler.start();
+
+		await tick(24 * 60 * 60_000);
+		expect(runs).toEqual(['2025-06-02T00:00:00.000Z']);
+
+		await scheduler.stop();
+	});
+
+	it('waits out occurrences further away than one timer can', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-01-02T00:00:00Z'));
+		const scheduler = createTaskScheduler();
+		let runs = 0;
+
+		scheduler.register({
+			name: 'yearly',
+			schedule: '@yearly',
+			run: () => {
+				runs += 1;
+			},
+		});
+		scheduler.start();
+
+		await tick(363 * 24 * 60 * 60_000);
+		expect(runs).toBe(0);
+		await tick(2 * 24 * 60 * 60_000);
+		expect(runs).toBe(1);
+
+		await scheduler.stop();
+	});
+
+	it('delays each run by its jitter', async () => {
+		vi.useFakeTimers();
+		const scheduler = createTaskScheduler({ random: () => 0.5 });
+		let runs = 0;
+
+		scheduler.register({
+			name: 'spread',
+			intervalMs: 1000,
+			jitterMs: 400,
+			run: () => {
+				runs += 1;
+			},
+		});
+		scheduler.start();
+
+		await tick(1100);
+		expect(runs).toBe(0);
+		await tick(100);
+		expect(runs).toBe(1);
+		// Jitter shifts a run, not the cadence after it.
+		await tick(1000);
+		expect(runs).toBe(2);
+
+		await scheduler.stop();
+	});
+});
+
+describe('createTaskScheduler locks', () => {
+	it('runs a locked cron task once across instances', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-06-01T02:59:00Z'));
+		const storage = createMemoryStorage();
+		const runs: string[] = [];
+		const events: TaskEvent[] = [];
+
+		const instance = (id: string, skewMs: number) => {
+			const scheduler = createTaskScheduler({
+				storage,
+				instanceId: id,
+				now: () => Date.now() + skewMs,
+				onEvent: (event) => events.push(event),
+			});
+			scheduler.register({
+				name: 'billing-export',
+				schedule: '0 3 * * *',
+				lock: true,
+				run: async () => {
+					runs.push(id);
+					await new Promise((resolve) => setTimeout(resolve, 2000));
+				},
+			});
+			return scheduler;
+		};
+		// B's clock runs five seconds ahead, so it fires first and finishes
+		// before A fires: the occurrence must still not run twice.
+		const a = instance('a', 0);
+		const b = instance('b', 5000);
+		a.start();
+		b.start();
+
+		await tick(2 * 60_000);
+
+		expect(runs).toEqual(['b']);
+		expect(
+			events.filter((event) => event.reason === 'locked').map((e) => e.type)
+		).toEqual(['skip']);
+
+		await a.stop();
+		await b.stop();
+	});
+
+	it('renews a lease for as long as the run lasts', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const events: TaskEvent[] = [];
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		let started = 0;
+
+		const instance = () => {
+			const scheduler = createTaskScheduler({
+				storage,
+				onEvent: (event) => events.push(event),
+			});
+			scheduler.register({
+				name: 'long',
+				intervalMs: 1000,
+				lock: { leaseMs: 3000 },
+				run: async () => {
+					started += 1;
+					await gate;
+				},
+			});
+			return scheduler;
+		};
+		const a = instance();
+		const b = instance();
+		a.start();
+		b.start();
+
+		// Well past several lease lifetimes, the first run still holds it.
+		await tick(10_000);
+		expect(started).toBe(1);
+		expect(events.some((event) => event.type === 'lease-lost')).toBe(false);
+
+		// Released, the lease is free for the next tick again.
+		release();
+		await tick(1000);
+		expect(started).toBeGreaterThan(1);
+
+		await a.stop();
+		await b.stop();
+	});
+
+	it('aborts a run whose lease was taken over', async () => {
+		vi.useFakeTimers();
+		const storage = createMemoryStorage();
+		const events: TaskEvent[] = [];
+		let aborted = false;
+		const scheduler = createTaskScheduler({
+			storage,
+			onEvent: (event) => events.push(event),
+		});
+
+		scheduler.register({
+			name: 'contested',
+			intervalMs: 1000,
+			lock: { leaseMs: 3000 },
+			run: (ctx) =>
+				new Promise<void>((resolve) => {
+					ctx.signal.addEventListener('abort', () => {
+						aborted = true;
+						resolve();
+					});
+				}),
+		});
+		scheduler.start();
+		await tick(1000);
+
+		// Another holder overwrote the lease, as after a long pause.
+		await storage.namespace('tasks').set('lease:contested', {
+			owner: 'other',
+			token: 99,
+			expiresAt: Date.now() + 60_000,
+			due: 0,
+		});
+		await tick(1000);
+
+		expect(aborted).toBe(true);
+		expect(events.map((event) => event.type)).toContain('lease-lost');
+
+		await scheduler.stop();
+	});
+
+	it('hands each run a larger fencing token', async () => {
+		vi.useFakeTimers();
+		const scheduler = createTaskScheduler({ storage: createMemoryStorage() });
+		const tokens: (number | undefined)[] = [];
+
+		scheduler.register({
+			name: 'fenced',
+			intervalMs: 100,
+			lock: true,
+			run: (ctx) => {
+				tokens.push(ctx.fencingToken);
+			},
+		});
+		scheduler.start();
+		await tick(300);
+
+		expect(tokens).toHaveLength(3);
+		expect(tokens).toEqual([...tokens].sort((x = 0, y = 0) => x - y));
+		expect(new Set(tokens).size).toBe(3);
+
+		await scheduler.stop();
+	});
 });
@@ -22,6 +22,11 @@
  * SOFTWARE.
  */
 
+import {
+	takeServerSocketUpgrade,
+	type ServerSocketHandlers,
+	type ServerSocketPeer,
+} from '@effuse/core';
 import {
 	DEFAULT_CLOSE_TIMEOUT_MS,
 	DEFAULT_MAX_BODY_BYTES,
@@ -43,20 +48,53 @@ export {
 	withStaticFiles,
 	type StaticFileOptions,
 } from '../internal/static-files.js';
+export {
+	createPrerenderFileStore,
+	type PrerenderFileStore,
+	type PrerenderFileStoreOptions,
+} from '../internal/prerender-files.js';
 
 const DEFAULT_HOST = '127.0.0.1';
 
+/** What the adapter attaches to each upgraded socket. */
+interface BunSocketData {
+	readonly handlers: ServerSocketHandlers;
+	readonly request: Request;
+	peer?: ServerSocketPeer;
+}
+
+interface BunWebSocket {
+	readonly data: BunSocketData;
+	send(data: string | Uint8Array): number;
+	close(code?: number, reason?: string): void;
+}
+
+interface BunWebSocketHandler {
+	readonly maxPayloadLength?: number;
+	open(ws: BunWebSocket): void;
+	message(ws: BunWebSocket, message: string | Uint8Array): void;
+	close(ws: BunWebSocket, code: number, reason: string): void;
+}
+
 /** The subset of `Bun.serve` this adapter relies on. */
 interface BunServeOptions {
 	readonly port?: number;
 	readonly hostname?: string;
-	readonly fetch: (request: Request) => Response | Promise<Response>;
+	readonly fetch: (
+		request: Request,
+		server: BunServerHandle
+	) => Response | undefined | Promise<Response | undefined>;
+	readonly websocket?: BunWebSocketHandler;
 }
 
 interface BunServerHandle {
 	readonly port: number;
 	readonly hostname: string;
 	stop(closeActiveConnections?: boolean): void | Promise<void>;
+	upgrade(
+		request: Request,
+		options: { readonly data: BunSocketData; readonly headers?: Headers }
+	): boolean;
 }
 
 interface BunGlobal {
@@ -86,10 +124,9 @@ export const createBunServer = (
 	let closing = false;
 	let closePromise: Promise<void> | null = null;
 
-	const respond = async (request: Request): Promise<Response> => {
-		if (closing) {
-			return shuttingDownResponse();
-		}
+	const sockets = new Set<BunWebSocket>();
+
+	const dispatch = async (request: Request): Promise<Response> => {
 		try {
 			return await boundHandler(request);
 		} catch (error) {
@@ -98,6 +135,80 @@ export const createBunServer = (
 		}
 	};
 
+	const report = (error: unknown, data: BunSocketData): void => {
+		options.onError?.(error, data.request);
+	};
+
+	/**
+	 * Answers a request, upgrading it when the handler accepted a WebSocket.
+	 * `undefined` tells Bun the upgrade took over the connection.
+	 */
+	const respond = async (
+		request: Request,
+		server: BunServerHandle
+	): Promise<Response | undefined> => {
+		if (closing) {
+			return shuttingDownResponse();
+		}
+		const response = await dispatch(request);
+		const upgrade = takeServerSocketUpgrade(response);
+		if (!upgrade) {
+			return response;
+		}
+
+		const data: BunSocketData = { handlers: upgrade.handlers, request };
+		if (server.upgrade(request, { data, headers: upgrade.headers })) {
+			return undefined;
+		}
+		void Promise.resolve(
+			upgrade.handlers.close?.(
+				{ send: () => undefined, close: () => undefined },
+				1006,
+				''
+			)
+		).catch((error: unknown) => {
+			report(error, data);
+		});
+		return response;
+	};
+
+	const peerOf = (ws: BunWebSocket): ServerSocketPeer =>
+		(ws.data.peer ??= {
+			send: (message) => {
+				ws.send(message);
+			},
+			close: (code, reason) => {
+				ws.close(code, reason);
+			},
+		});
+
+	const websocket: BunWebSocketHandler = {
+		maxPayloadLength: maxBodyBytes,
+		open: (ws) => {
+			sockets.add(ws);
+			void Promise.resolve(ws.data.handlers.open?.(peerOf(ws))).catch(
+				(error: unknown) => {
+					report(error, ws.data);
+				}
+			);
+		},
+		message: (ws, message) => {
+			void Promise.resolve(
+				ws.data.handlers.message?.(peerOf(ws), message)
+			).catch((error: unknown) => {
+				report(error, ws.data);
+			});
+		},
+		close: (ws, code, reason) => {
+			sockets.delete(ws);
+			void Promise.resolve(
+				ws.data.handlers.close?.(peerOf(ws), code, reason)
+			).catch((error: unknown) => {
+				report(error, ws.data);
+			});
+		},
+	};
+
 	const listen = (
 		listenOptions: ListenOptions = {}
 	): Promise<ServerAddress> => {
@@ -111,7 +222,8 @@ export const createBunServer = (
 		handle = bun.serve({
 			port: listenOptions.port ?? 0,
 			hostname,
-			fetch: (request: Request) => respond(request),
+			fetch: (request, server) => respond(request, server),
+			websocket,
 		});
 		address = {
 			host: hostname,
@@ -130,6 +242,9 @@ export const createBunServer = (
 
 		closePromise = (async () => {
 			const current = handle;
+			for (const ws of sockets) {
+				ws.close(1001, 'Server shutting down');
+			}
 			if (current) {
 				// Graceful stop drains in-flight requests; a forced stop after the
 				// timeout closes any that outlasted the drain budget.
@@ -151,14 +266,7 @@ export const createBunServer = (
 		return closePromise;
 	};
 
-	const fetch = async (request: Request): Promise<Response> => {
-		try {
-			return await boundHandler(request);
-		} catch (error) {
-			options.onError?.(error, request);
-			return internalErrorResponse();
-		}
-	};
+	const fetch = (request: Request): Promise<Response> => dispatch(request);
 
 	return {
 		runtime: 'bun',
@@ -41,6 +41,7 @@ export const adapterCapabilities: Readonly<
 		multipart: true,
 		setCookieMultiValue: true,
 		ephemeralPort: true,
+		webSockets: true,
 	},
 	bun: {
 		runtime: 'bun',
@@ -50,6 +51,7 @@ export const adapterCapabilities: Readonly<
 		multipart: true,
 		setCookieMultiValue: true,
 		ephemeralPort: true,
+		webSockets: true,
 	},
 };
 
@@ -22,6 +22,10 @@
  * SOFTWARE.
  */
 
+import {
+	createServerSocketResponse,
+	isWebSocketUpgradeRequest,
+} from '@effuse/core';
 import type {
 	EffuseServer,
 	FetchHandler,
@@ -302,6 +306,73 @@ export const runConformance = (
 			);
 		});
 
+		it('upgrades an accepted WebSocket and leaves other requests alone', async () => {
+			const closes: number[] = [];
+			await withServer(
+				(request) => {
+					if (!isWebSocketUpgradeRequest(request)) {
+						return new Response('plain');
+					}
+					if (new URL(request.url).searchParams.get('token') !== 'ok') {
+						return new Response('Unauthorized', { status: 401 });
+					}
+					return createServerSocketResponse({
+						open: (peer) => {
+							peer.send('ready');
+						},
+						message: (peer, data) => {
+							peer.send(`echo:${String(data)}`);
+						},
+						close: (_peer, code) => {
+							closes.push(code);
+						},
+					});
+				},
+				async (baseUrl) => {
+					const plain = await fetch(baseUrl);
+					expect(await plain.text()).toBe('plain');
+
+					const wsUrl = baseUrl.replace('http://', 'ws://');
+					const rejected = new WebSocket(`${wsUrl}/?token=no`);
+					const opened = await new Promise<boolean>((resolve) => {
+						rejected.addEventListener('open', () => {
+							resolve(true);
+						});
+						rejected.addEventListener('error', () => {
+							resolve(false);
+						});
+					});
+					expect(opened).toBe(false);
+
+					const socket = new WebSocket(`${wsUrl}/?token=ok`);
+					const received: string[] = [];
+					await new Promise<void>((resolve, reject) => {
+						socket.addEventListener('message', (event: MessageEvent) => {
+							received.push(String(event.data));
+							if (received.length === 1) socket.send('hi');
+							if (received.length === 2) resolve();
+						});
+						socket.addEventListener('error', () => {
+							reject(new Error('WebSocket failed'));
+						});
+					});
+					expect(received).toEqual(['ready', 'echo:hi']);
+
+					const closed = new Promise<number>((resolve) => {
+						socket.addEventListener('close', (event: CloseEvent) => {
+							resolve(event.code);
+						});
+					});
+					socket.close(1000, 'done');
+					expect(await closed).toBe(1000);
+					for (let waited = 0; closes.length === 0 && waited < 50; waited++) {
+						await sleep(10);
+					}
+					expect(closes).toEqual([1000]);
+				}
+			);
+		});
+
 		it('invokes the handler in-process via fetch() without a socket', async () => {
 			const server = adapter.create((request) =>
 				Response.json({ path: new URL(request.url).pathname })
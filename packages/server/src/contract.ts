@@ -111,6 +111,8 @@ export interface AdapterCapabilities {
 	readonly setCookieMultiValue: boolean;
 	/** Supports binding an ephemeral port via `port: 0`. */
 	readonly ephemeralPort: boolean;
+	/** Performs WebSocket upgrades the handler accepts. */
+	readonly webSockets: boolean;
 }
 
 /** Default maximum request body size: 10 MiB. */
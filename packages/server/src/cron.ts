@@ -0,0 +1,291 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Five-field cron expressions for `createTaskScheduler`, evaluated in any IANA
+ * time zone through `Intl`, so there is no time-zone database to ship.
+ *
+ * - **Fields** are minute, hour, day of month, month and day of week, each a
+ *   `*`, a value, a range `a-b`, a step `*\/n` or `a-b/n`, or a comma list of
+ *   those. Months and weekdays also take three-letter names; Sunday is 0 or 7.
+ *   `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` are shorthands.
+ * - **Day matching follows cron**: when both day fields are restricted, a day
+ *   matching either one fires; otherwise both must match.
+ * - **Daylight saving.** A wall time skipped by a spring-forward gap fires at
+ *   the same offset past the gap (02:30 becomes 03:30), and a wall time that
+ *   occurs twice fires once, at its first occurrence.
+ */
+
+export interface CronSchedule {
+	/** The expression this schedule was parsed from. */
+	readonly expression: string;
+	/**
+	 * The first matching instant strictly after `after`, in epoch milliseconds,
+	 * or `undefined` if the expression never fires (`0 0 31 2 *`).
+	 */
+	next(after: number, timeZone?: string): number | undefined;
+}
+
+interface FieldSpec {
+	readonly name: string;
+	readonly min: number;
+	readonly max: number;
+	readonly names?: readonly string[];
+}
+
+const FIELDS: readonly FieldSpec[] = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of month', min: 1, max: 31 },
+	{
+		name: 'month',
+		min: 1,
+		max: 12,
+		names: [
+			'jan',
+			'feb',
+			'mar',
+			'apr',
+			'may',
+			'jun',
+			'jul',
+			'aug',
+			'sep',
+			'oct',
+			'nov',
+			'dec',
+		],
+	},
+	{
+		name: 'day of week',
+		min: 0,
+		max: 7,
+		names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+	},
+];
+
+const SHORTHANDS: Readonly<Record<string, string>> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+/** Search horizon: long enough for `29 2` to meet a leap year past 2100. */
+const SEARCH_YEARS = 9;
+
+const invalid = (expression: string, reason: string): TypeError =>
+	new TypeError(`Invalid cron expression "${expression}": ${reason}.`);
+
+const parseValue = (
+	expression: string,
+	spec: FieldSpec,
+	token: string
+): number => {
+	const named = spec.names?.indexOf(token.toLowerCase()) ?? -1;
+	if (named >= 0) return named + spec.min;
+	const value = Number(token);
+	if (!/^\d+$/.test(token) || value < spec.min || value > spec.max) {
+		throw invalid(
+			expression,
+			`${spec.name} "${token}" is outside ${String(spec.min)}-${String(spec.max)}`
+		);
+	}
+	return value;
+};
+
+const parseField = (
+	expression: string,
+	spec: FieldSpec,
+	field: string
+): Set<number> => {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const [range = '', stepText, extra] = part.split('/');
+		if (extra !== undefined || range === '') {
+			throw invalid(expression, `${spec.name} "${part}" is malformed`);
+		}
+		let step = 1;
+		if (stepText !== undefined) {
+			step = Number(stepText);
+			if (!/^\d+$/.test(stepText) || step < 1) {
+				throw invalid(
+					expression,
+					`${spec.name} step "${stepText}" is not positive`
+				);
+			}
+		}
+
+		let low: number;
+		let high: number;
+		if (range === '*') {
+			low = spec.min;
+			high = spec.max;
+		} else {
+			const [from = '', to, beyond] = range.split('-');
+			if (beyond !== undefined) {
+				throw invalid(expression, `${spec.name} "${part}" is malformed`);
+			}
+			low = parseValue(expression, spec, from);
+			// `5/15` steps from 5 to the end of the field, as in cron.
+			high =
+				to !== undefined
+					? parseValue(expression, spec, to)
+					: stepText !== undefined
+						? spec.max
+						: low;
+			if (high < low) {
+				throw invalid(expression, `${spec.name} range "${range}" is reversed`);
+			}
+		}
+		for (let value = low; value <= high; value += step) values.add(value);
+	}
+	return values;
+};
+
+/** Offset of `timeZone` from UTC at `instant`, in milliseconds. */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const zoneOffset = (instant: number, timeZone: string): number => {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		});
+		formatters.set(timeZone, formatter);
+	}
+	const parts: Record<string, number> = {};
+	for (const part of formatter.formatToParts(instant)) {
+		if (part.type !== 'literal') parts[part.type] = Number(part.value);
+	}
+	const wall = Date.UTC(
+		parts.year ?? 1970,
+		(parts.month ?? 1) - 1,
+		parts.day ?? 1,
+		parts.hour ?? 0,
+		parts.minute ?? 0,
+		parts.second ?? 0
+	);
+	return wall - (instant - (instant % 1000));
+};
+
+/**
+ * The instants at which `wall` (a wall-clock time encoded as if UTC) occurs
+ * in `timeZone`: none in a gap, two in an overlap. A gap maps to the instant
+ * the pre-transition offset gives, which lands just past the gap.
+ */
+const wallToInstants = (wall: number, timeZone: string): number[] => {
+	const before = zoneOffset(wall - DAY_MS, timeZone);
+	const after = zoneOffset(wall + DAY_MS, timeZone);
+	const instants = [...new Set([before, after])]
+		.map((offset) => wall - offset)
+		.filter((instant) => wall - zoneOffset(instant, timeZone) === instant)
+		.sort((a, b) => a - b);
+	return instants.length > 0 ? instants : [wall - before];
+};
+
+/**
+ * Parses a cron expression, throwing a `TypeError` naming the offending field
+ * when it is malformed.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+	const source = expression.trim();
+	const fields = (SHORTHANDS[source.toLowerCase()] ?? source).split(/\s+/);
+	if (fields.length !== FIELDS.length) {
+		throw invalid(
+			expression,
+			`expected ${String(FIELDS.length)} fields, got ${String(fields.length)}`
+		);
+	}
+	const [minutes, hours, days, months, weekdays] = FIELDS.map((spec, index) =>
+		parseField(expression, spec, fields[index] ?? '')
+	) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+	// Sunday is both 0 and 7.
+	if (weekdays.has(7)) weekdays.add(0);
+	const daysRestricted = !fields[2]?.startsWith('*');
+	const weekdaysRestricted = !fields[4]?.startsWith('*');
+
+	const dayMatches = (date: Date): boolean => {
+		const byDay = days.has(date.getUTCDate());
+		const byWeekday = weekdays.has(date.getUTCDay());
+		if (daysRestricted && weekdaysRestricted) return byDay || byWeekday;
+		return byDay && byWeekday;
+	};
+
+	/** The first matching wall time at or after `start`, searched field by field. */
+	const nextWall = (start: number): number | undefined => {
+		const limit = new Date(start).getUTCFullYear() + SEARCH_YEARS;
+		const date = new Date(start);
+		while (date.getUTCFullYear() <= limit) {
+			if (!months.has(date.getUTCMonth() + 1)) {
+				date.setUTCMonth(date.getUTCMonth() + 1, 1);
+				date.setUTCHours(0, 0, 0, 0);
+			} else if (!dayMatches(date)) {
+				date.setUTCDate(date.getUTCDate() + 1);
+				date.setUTCHours(0, 0, 0, 0);
+			} else if (!hours.has(date.getUTCHours())) {
+				date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+			} else if (!minutes.has(date.getUTCMinutes())) {
+				date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+			} else {
+				return date.getTime();
+			}
+		}
+		return undefined;
+	};
+
+	return {
+		expression,
+
+		next(after, timeZone = 'UTC') {
+			const offset = zoneOffset(after, timeZone);
+			// Start at the wall-clock minute following `after`.
+			let wall =
+				Math.floor((after + offset) / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+			for (;;) {
+				const candidate = nextWall(wall);
+				if (candidate === undefined) return undefined;
+				// The first occurrence after `after`; in an overlap `after` may
+				// already sit past the earlier of the two.
+				const instant = wallToInstants(candidate, timeZone).find(
+					(value) => value > after
+				);
+				if (instant !== undefined) return instant;
+				wall = candidate + MINUTE_MS;
+			}
+		},
+	};
+};
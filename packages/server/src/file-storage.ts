@@ -0,0 +1,333 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Filesystem `EffuseStorage`: entries survive a restart without a database.
+ *
+ * - **One file per key**, named by the SHA-256 of the full key, so any key is
+ *   a safe file name on any filesystem and two keys never differ only by case.
+ *   The record holds the key itself, which `keys()` and `clear()` read back.
+ * - **Atomic writes.** A record is written to a sibling temporary file and
+ *   renamed over the old one, so a reader sees the old value or the new one,
+ *   never a torn write, even across processes sharing the directory.
+ * - **Lazy expiry.** An expired entry is dropped when it is read, and at most
+ *   once per `sweepIntervalMs` an operation also sweeps the directory in the
+ *   background. No timer is left running, so the store never holds a process
+ *   open.
+ * - **JSON values.** Records are JSON, so a value comes back as JSON would
+ *   give it: a `Date` as its string, a `Map` as `{}`.
+ * - **Atomic operations lock the key.** `increment`, `compareAndSet` and
+ *   `take` hold a lock file beside the record, created exclusively, so they
+ *   exclude each other across processes as well as within one. A lock left by
+ *   a crashed process is broken once it is older than `LOCK_STALE_MS`.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+	mkdir,
+	open,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+	incrementedValue,
+	NAMESPACE_SEPARATOR,
+	storageValuesEqual,
+	type EffuseStorage,
+	type StorageSetOptions,
+} from './storage.js';
+
+export interface FileStorageOptions {
+	/** Directory holding the entries. Created on first write. */
+	readonly dir: string | URL;
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Minimum milliseconds between sweeps of expired entries. Defaults to 60 000. */
+	readonly sweepIntervalMs?: number;
+}
+
+interface FileRecord {
+	readonly key: string;
+	readonly value: unknown;
+	/** Absolute expiry, or null when the entry does not expire. */
+	readonly expiresAt: number | null;
+}
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+const RECORD_EXTENSION = '.json';
+const LOCK_EXTENSION = '.lock';
+/** Age past which a lock is taken to belong to a process that died holding it. */
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 5;
+
+const errorCode = (error: unknown): unknown =>
+	(error as { code?: unknown } | null)?.code;
+
+const isMissingFileError = (error: unknown): boolean => {
+	const code = errorCode(error);
+	return code === 'ENOENT' || code === 'ENOTDIR';
+};
+
+const delay = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, ms));
+
+let writeSequence = 0;
+
+export const createFileStorage = (
+	options: FileStorageOptions
+): EffuseStorage => {
+	const dir = resolve(
+		options.dir instanceof URL ? fileURLToPath(options.dir) : options.dir
+	);
+	const now = options.now ?? Date.now;
+	const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+
+	let lastSweep = now();
+	let sweeping: Promise<void> | undefined;
+	/** Per-file queues, so this process does not contend with itself. */
+	const queues = new Map<string, Promise<unknown>>();
+
+	const fileFor = (key: string): string =>
+		join(
+			dir,
+			`${createHash('sha256').update(key).digest('hex')}${RECORD_EXTENSION}`
+		);
+
+	const isExpired = (record: FileRecord): boolean =>
+		record.expiresAt !== null && now() >= record.expiresAt;
+
+	const readRecord = async (file: string): Promise<FileRecord | undefined> => {
+		try {
+			return JSON.parse(await readFile(file, 'utf8')) as FileRecord;
+		} catch (error) {
+			if (isMissingFileError(error)) return undefined;
+			throw error;
+		}
+	};
+
+	/** Every record file, skipping temporary files mid-write. */
+	const recordFiles = async (): Promise<readonly string[]> => {
+		try {
+			return (await readdir(dir))
+				.filter((name) => name.endsWith(RECORD_EXTENSION))
+				.map((name) => join(dir, name));
+		} catch (error) {
+			if (isMissingFileError(error)) return [];
+			throw error;
+		}
+	};
+
+	/** Live records whose key starts with `prefix`, dropping expired ones. */
+	const scan = async (prefix: string): Promise<readonly FileRecord[]> => {
+		const records: FileRecord[] = [];
+		for (const file of await recordFiles()) {
+			const record = await readRecord(file);
+			if (!record) continue;
+			if (isExpired(record)) {
+				await rm(file, { force: true });
+				continue;
+			}
+			if (record.key.startsWith(prefix)) records.push(record);
+		}
+		return records;
+	};
+
+	/** Starts a background sweep when the last one is old enough. */
+	const maybeSweep = (): void => {
+		if (sweeping || now() - lastSweep < sweepIntervalMs) return;
+		lastSweep = now();
+		sweeping = scan('')
+			.then(() => undefined)
+			// A failed sweep only delays cleanup; the next one retries.
+			.catch(() => undefined)
+			.finally(() => {
+				sweeping = undefined;
+			});
+	};
+
+	const live = async (key: string): Promise<FileRecord | undefined> => {
+		maybeSweep();
+		const file = fileFor(key);
+		const record = await readRecord(file);
+		if (!record || record.key !== key) return undefined;
+		if (isExpired(record)) {
+			await rm(file, { force: true });
+			return undefined;
+		}
+		return record;
+	};
+
+	const expiryFor = (options: StorageSetOptions | undefined): number | null => {
+		const ttlMs = options?.ttlMs;
+		return ttlMs !== undefined && ttlMs > 0 ? now() + ttlMs : null;
+	};
+
+	const writeRecord = async (record: FileRecord): Promise<void> => {
+		const target = fileFor(record.key);
+		writeSequence += 1;
+		const temporary = `${target}.${String(process.pid)}-${String(writeSequence)}.tmp`;
+		await mkdir(dir, { recursive: true });
+		try {
+			await writeFile(temporary, JSON.stringify(record), 'utf8');
+			await rename(temporary, target);
+		} catch (error) {
+			await rm(temporary, { force: true });
+			throw error;
+		}
+	};
+
+	const acquireLock = async (lock: string): Promise<void> => {
+		await mkdir(dir, { recursive: true });
+		for (;;) {
+			try {
+				await (await open(lock, 'wx')).close();
+				return;
+			} catch (error) {
+				if (errorCode(error) !== 'EEXIST') throw error;
+			}
+			try {
+				if (Date.now() - (await stat(lock)).mtimeMs > LOCK_STALE_MS) {
+					await rm(lock, { force: true });
+					continue;
+				}
+			} catch (error) {
+				// Released between our attempt and the stat: try again at once.
+				if (isMissingFileError(error)) continue;
+				throw error;
+			}
+			await delay(LOCK_RETRY_MS);
+		}
+	};
+
+	/** Runs `task` holding the lock on `key`'s record. */
+	const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+		const file = fileFor(key);
+		const run = async (): Promise<T> => {
+			const lock = `${file}${LOCK_EXTENSION}`;
+			await acquireLock(lock);
+			try {
+				return await task();
+			} finally {
+				await rm(lock, { force: true });
+			}
+		};
+		const previous = queues.get(file) ?? Promise.resolve();
+		const result = previous.then(run, run);
+		const settled = result.catch(() => undefined);
+		queues.set(file, settled);
+		void settled.then(() => {
+			if (queues.get(file) === settled) queues.delete(file);
+		});
+		return result;
+	};
+
+	const view = (prefix: string): EffuseStorage => {
+		const full = (key: string): string => `${prefix}${key}`;
+
+		return {
+			async get<Value = unknown>(key: string) {
+				return (await live(full(key)))?.value as Value | undefined;
+			},
+
+			async set(key, value, setOptions) {
+				maybeSweep();
+				await writeRecord({
+					key: full(key),
+					value,
+					expiresAt: expiryFor(setOptions),
+				});
+			},
+
+			async delete(key) {
+				await rm(fileFor(full(key)), { force: true });
+			},
+
+			async has(key) {
+				return (await live(full(key))) !== undefined;
+			},
+
+			increment(key, by = 1, setOptions) {
+				const storageKey = full(key);
+				return withLock(storageKey, async () => {
+					const record = await live(storageKey);
+					const value = incrementedValue(key, record?.value, by);
+					await writeRecord({
+						key: storageKey,
+						value,
+						expiresAt: record ? record.expiresAt : expiryFor(setOptions),
+					});
+					return value;
+				});
+			},
+
+			compareAndSet(key, expected, next, setOptions) {
+				const storageKey = full(key);
+				return withLock(storageKey, async () => {
+					const record = await live(storageKey);
+					if (!storageValuesEqual(record?.value, expected)) return false;
+					await writeRecord({
+						key: storageKey,
+						value: next,
+						expiresAt: expiryFor(setOptions),
+					});
+					return true;
+				});
+			},
+
+			take<Value = unknown>(key: string) {
+				const storageKey = full(key);
+				return withLock(storageKey, async () => {
+					const record = await live(storageKey);
+					if (!record) return undefined;
+					await rm(fileFor(storageKey), { force: true });
+					return record.value as Value;
+				});
+			},
+
+			async keys() {
+				return (await scan(prefix)).map((record) =>
+					record.key.slice(prefix.length)
+				);
+			},
+
+			async clear() {
+				for (const record of await scan(prefix)) {
+					await rm(fileFor(record.key), { force: true });
+				}
+			},
+
+			namespace(name) {
+				return view(`${prefix}${name}${NAMESPACE_SEPARATOR}`);
+			},
+		};
+	};
+
+	return view('');
+};
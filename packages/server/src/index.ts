@@ -45,6 +45,12 @@ export {
 	type StaticFileOptions,
 } from './internal/static-files.js';
 
+export {
+	createPrerenderFileStore,
+	type PrerenderFileStore,
+	type PrerenderFileStoreOptions,
+} from './internal/prerender-files.js';
+
 export { adapterCapabilities, getCapabilities } from './capabilities.js';
 
 export { runConformance, type ConformanceHarness } from './conformance.js';
@@ -52,6 +58,7 @@ export { runConformance, type ConformanceHarness } from './conformance.js';
 export {
 	createTaskScheduler,
 	DEFAULT_TASK_STOP_TIMEOUT_MS,
+	DEFAULT_TASK_LEASE_MS,
 	type TaskScheduler,
 	type TaskSchedulerOptions,
 	type TaskDefinition,
@@ -59,8 +66,31 @@ export {
 	type TaskEvent,
 	type TaskEventType,
 	type TaskStopOptions,
+	type TaskLockOptions,
 } from './tasks.js';
 
+export { parseCron, type CronSchedule } from './cron.js';
+
+export {
+	createJobQueue,
+	defineJob,
+	jobQueuePlugin,
+	DEFAULT_JOB_STOP_TIMEOUT_MS,
+	type JobQueue,
+	type JobQueueOptions,
+	type JobQueuePluginOptions,
+	type JobDefinition,
+	type JobEnqueueInput,
+	type JobContext,
+	type JobBackoffOptions,
+	type JobEvent,
+	type JobEventType,
+	type JobStopOptions,
+	type EnqueueOptions,
+	type EnqueueResult,
+	type DeadLetter,
+} from './jobs.js';
+
 export {
 	createMemoryStorage,
 	type EffuseStorage,
@@ -68,6 +98,14 @@ export {
 	type StorageSetOptions,
 } from './storage.js';
 
+export { createFileStorage, type FileStorageOptions } from './file-storage.js';
+
+export {
+	createSqliteStorage,
+	type SqliteStorage,
+	type SqliteStorageOptions,
+} from './sqlite-storage.js';
+
 export {
 	runStorageConformance,
 	type StorageConformanceHarness,
@@ -0,0 +1,82 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export interface PrerenderFileStoreOptions {
+	/** Client build directory the prerender manifest's files are relative to. */
+	readonly root: string | URL;
+}
+
+/**
+ * Filesystem backing for `@effuse/core`'s `createPrerenderHandler`. The shape
+ * is structural, so this package does not depend on core at runtime.
+ */
+export interface PrerenderFileStore {
+	read(file: string): Promise<string | undefined>;
+	write(file: string, html: string): Promise<void>;
+}
+
+const isMissingFileError = (error: unknown): boolean => {
+	const code = (error as { code?: unknown } | null)?.code;
+	return code === 'ENOENT' || code === 'ENOTDIR';
+};
+
+let writeSequence = 0;
+
+/**
+ * Reads and atomically replaces prerendered pages beneath `root`.
+ *
+ * A regenerated page is written to a sibling temporary file and renamed over
+ * the original, so a concurrent static-file read sees either the old or the
+ * new document and never a truncated one. Manifest paths are resolved inside
+ * the root; one that escapes it is rejected rather than followed.
+ */
+export const createPrerenderFileStore = (
+	options: PrerenderFileStoreOptions
+): PrerenderFileStore => {
+	const root = resolve(
+		options.root instanceof URL ? fileURLToPath(options.root) : options.root
+	);
+
+	const locate = (file: string): string => {
+		const target = resolve(root, file);
+		const path = relative(root, target);
+		if (path === '' || path.startsWith('..') || isAbsolute(path)) {
+			throw new TypeError(
+				`[effuse-server] Prerendered file "${file}" is outside the client root.`
+			);
+		}
+		return target;
+	};
+
+	return {
+		async read(file) {
+			try {
+				return await readFile(locate(file), 'utf8');
+			} catch (error) {
+				if (isMissingFileError(error)) return undefined;
+				throw error;
+			}
+		},
+
+		async write(file, html) {
+			const target = locate(file);
+			writeSequence += 1;
+			const temporary = `${target}.${String(process.pid)}-${String(writeSequence)}.tmp`;
+			await mkdir(dirname(target), { recursive: true });
+			try {
+				await writeFile(temporary, html, 'utf8');
+				await rename(temporary, target);
+			} catch (error) {
+				await rm(temporary, { force: true });
+				throw error;
+			}
+		},
+	};
+};
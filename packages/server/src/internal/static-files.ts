@@ -4,8 +4,14 @@
  * Copyright (c) 2025 Chris M. Perez
  */
 
-import { createReadStream } from 'node:fs';
-import { readdir, realpath, stat } from 'node:fs/promises';
+import { createReadStream, type ReadStream } from 'node:fs';
+import {
+	open,
+	readdir,
+	realpath,
+	stat,
+	type FileHandle,
+} from 'node:fs/promises';
 import { extname, isAbsolute, join, relative, resolve } from 'node:path';
 import { Readable } from 'node:stream';
 import { fileURLToPath } from 'node:url';
@@ -173,11 +179,48 @@ const buildStaticFileIndex = async (
 	return files;
 };
 
+// Prerendered pages are the one part of the output that changes while the
+// server runs: regeneration renames a new file over the old one. Their size
+// and validators are read from the file being sent, not from the index.
+const isRegeneratedPage = (file: StaticFile): boolean =>
+	extname(file.path).toLowerCase() === '.html';
+
+interface OpenedPage {
+	readonly file: StaticFile;
+	readonly handle: FileHandle;
+}
+
+const openCurrentPage = async (
+	file: StaticFile
+): Promise<OpenedPage | undefined> => {
+	let handle: FileHandle;
+	try {
+		handle = await open(file.path, 'r');
+	} catch (error) {
+		if (isMissingFileError(error)) return undefined;
+		throw error;
+	}
+	try {
+		const fileStat = await handle.stat();
+		return {
+			handle,
+			file: {
+				...file,
+				etag: etagFor(fileStat.size, fileStat.mtimeMs),
+				lastModified: fileStat.mtime.toUTCString(),
+				size: fileStat.size,
+			},
+		};
+	} catch (error) {
+		await handle.close();
+		throw error;
+	}
+};
+
 const createBody = (
-	path: string,
+	source: ReadStream,
 	signal: AbortSignal
 ): ReadableStream<Uint8Array> => {
-	const source = createReadStream(path);
 	const abort = (): void => {
 		source.destroy(new DOMException('The request was aborted.', 'AbortError'));
 	};
@@ -193,8 +236,9 @@ const createBody = (
 
 /**
  * Serves exact files from a client build before falling through to the app.
- * The immutable output tree is indexed once by real path. Requests then use an
- * exact in-memory lookup, so application routes do not incur filesystem work.
+ * The output tree is indexed once by real path. Requests then use an exact
+ * in-memory lookup, so application routes do not incur filesystem work; only
+ * prerendered HTML, which regeneration rewrites, is stat'ed as it is served.
  */
 export const withStaticFiles = (
 	handler: FetchHandler,
@@ -208,8 +252,14 @@ export const withStaticFiles = (
 	return async (request): Promise<Response> => {
 		const pathname = decodeStaticPath(request);
 		if (!pathname) return handler(request);
-		const file = (await filesPromise).get(pathname);
-		if (!file) return handler(request);
+		const indexed = (await filesPromise).get(pathname);
+		if (!indexed) return handler(request);
+		let page: OpenedPage | undefined;
+		if (isRegeneratedPage(indexed)) {
+			page = await openCurrentPage(indexed);
+			if (!page) return handler(request);
+		}
+		const file = page?.file ?? indexed;
 
 		const headers = new Headers({
 			'Cache-Control': cacheControl(pathname),
@@ -220,12 +270,20 @@ export const withStaticFiles = (
 			'X-Content-Type-Options': 'nosniff',
 		});
 		if (request.headers.get('If-None-Match') === file.etag) {
+			await page?.handle.close();
 			headers.delete('Content-Length');
 			return new Response(null, { status: 304, headers });
 		}
-		return new Response(
-			request.method === 'HEAD' ? null : createBody(file.path, request.signal),
-			{ status: 200, headers }
-		);
+		if (request.method === 'HEAD') {
+			await page?.handle.close();
+			return new Response(null, { status: 200, headers });
+		}
+		const source = page
+			? page.handle.createReadStream()
+			: createReadStream(file.path);
+		return new Response(createBody(source, request.signal), {
+			status: 200,
+			headers,
+		});
 	};
 };
@@ -0,0 +1,718 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Durable background jobs: work a request handler hands off and returns,
+ * persisted through `EffuseStorage` so a deploy or crash does not lose it.
+ *
+ * - **Validated at both ends.** `enqueue` validates the input against the
+ *   job's schema and rejects with `ServerValidationError`, so a handler learns
+ *   of bad input while it can still answer. The input is stored as given, in
+ *   the schema's input form, and decoded before each run; a job whose input an
+ *   older deploy wrote and this one no longer accepts goes straight to the
+ *   dead letters. Inputs are stored as JSON, so they should be JSON data.
+ * - **At least once.** A worker claims a job with a lease it renews while the
+ *   run lasts. A job whose worker dies is claimed again once the lease runs
+ *   out, so a run can repeat; a run must be safe to repeat.
+ * - **Retry, then dead-letter.** A failed run is retried after an exponential
+ *   backoff with jitter, up to `maxAttempts`. A job that exhausts its attempts
+ *   is kept in the dead letters, with its last error, until retried or
+ *   dropped.
+ * - **Bounded concurrency**, across the queue and per job.
+ * - **Graceful drain.** `stop()` claims nothing new and awaits in-flight runs
+ *   within a budget, then aborts their signal. A run still going after that
+ *   keeps its lease until it lapses, and is picked up again by the next
+ *   worker. `jobQueuePlugin` puts this on a plugin host's shutdown path.
+ *
+ * Pending jobs are found by listing keys, so a queue is meant for the volume
+ * a key-value store lists comfortably, not as a message broker.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+	validateServerValue,
+	type ServerSchemaInput,
+	type ServerValidator,
+} from '@effuse/core';
+import type { Plugin } from './plugins.js';
+import type { EffuseStorage } from './storage.js';
+
+export interface JobContext {
+	/** Aborted when a drain runs out of time, so a run can exit cooperatively. */
+	readonly signal: AbortSignal;
+	readonly id: string;
+	readonly name: string;
+	/** 1 on the first run, 2 on the first retry, and so on. */
+	readonly attempt: number;
+}
+
+export interface JobBackoffOptions {
+	/** Delay before the first retry. Defaults to 1 000. */
+	readonly baseMs?: number;
+	/** Cap on any one delay. Defaults to 300 000. */
+	readonly maxMs?: number;
+}
+
+export interface JobDefinition<
+	Input = unknown,
+	Schema extends ServerValidator<Input> = ServerValidator<Input>,
+> {
+	readonly name: string;
+	/**
+	 * Validates the input on enqueue and decodes it before each run. Kept as
+	 * `Schema` so `enqueue` is typed with the schema's input form.
+	 */
+	readonly input?: Schema & ServerValidator<Input>;
+	/** Runs before a job is dead-lettered. Defaults to 5. */
+	readonly maxAttempts?: number;
+	readonly backoff?: JobBackoffOptions;
+	/** Runs of this job in flight at once on one queue. Defaults to unbounded. */
+	readonly concurrency?: number;
+	readonly run: (input: Input, context: JobContext) => void | Promise<void>;
+}
+
+/**
+ * What `enqueue` takes for a job. Schemas describe an input and an output
+ * form — a `numberFromString` field accepts the string and yields a number —
+ * and a job is stored in its input form. Non-schema validators have no
+ * distinct input form and fall back to their output type.
+ */
+export type JobEnqueueInput<Input, Schema> = [
+	ServerSchemaInput<Schema>,
+] extends [never]
+	? Input
+	: ServerSchemaInput<Schema>;
+
+export interface EnqueueOptions {
+	/** Milliseconds to wait before the first run. */
+	readonly delayMs?: number;
+	/**
+	 * While a job enqueued with this key is pending or running, enqueueing
+	 * another with it returns the first job's id instead.
+	 */
+	readonly dedupeKey?: string;
+}
+
+export interface EnqueueResult {
+	readonly id: string;
+	/** `true` when `dedupeKey` matched a job already queued. */
+	readonly deduplicated: boolean;
+}
+
+export interface DeadLetter {
+	readonly id: string;
+	readonly name: string;
+	readonly input: unknown;
+	readonly attempts: number;
+	readonly enqueuedAt: number;
+	readonly failedAt: number;
+	/** The last run's error, as its message. */
+	readonly error: string;
+}
+
+export type JobEventType =
+	| 'enqueue'
+	| 'start'
+	| 'success'
+	| 'retry'
+	| 'dead-letter';
+
+export interface JobEvent {
+	readonly type: JobEventType;
+	readonly name: string;
+	readonly id: string;
+	readonly attempt?: number;
+	readonly durationMs?: number;
+	readonly error?: unknown;
+}
+
+export interface JobQueueOptions {
+	/** Where jobs and dead letters are kept. */
+	readonly storage: EffuseStorage;
+	/** Runs in flight at once across every job. Defaults to 4. */
+	readonly concurrency?: number;
+	/** Milliseconds between checks for due jobs. Defaults to 1 000. */
+	readonly pollIntervalMs?: number;
+	/** Milliseconds a claim lasts without renewal. Defaults to 30 000. */
+	readonly leaseMs?: number;
+	/** Identifies this worker in its claims. Defaults to a random UUID. */
+	readonly workerId?: string;
+	readonly onEvent?: (event: JobEvent) => void;
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Source of backoff jitter in `[0, 1)`; defaults to `Math.random`. */
+	readonly random?: () => number;
+}
+
+export interface JobStopOptions {
+	/** Milliseconds to await in-flight runs before returning anyway. */
+	readonly timeoutMs?: number;
+}
+
+export interface JobQueue {
+	/** Registers a job this queue runs. Enqueueing does not require it. */
+	register<Input, Schema extends ServerValidator<Input>>(
+		job: JobDefinition<Input, Schema>
+	): void;
+	enqueue<Input, Schema extends ServerValidator<Input>>(
+		job: JobDefinition<Input, Schema>,
+		input: JobEnqueueInput<Input, Schema>,
+		options?: EnqueueOptions
+	): Promise<EnqueueResult>;
+	start(): void;
+	stop(options?: JobStopOptions): Promise<void>;
+	/** Jobs that exhausted their attempts, oldest failure first. */
+	deadLetters(): Promise<readonly DeadLetter[]>;
+	/** Moves a dead letter back into the queue with fresh attempts. */
+	retryDeadLetter(id: string): Promise<boolean>;
+	/** Drops a dead letter for good. */
+	discardDeadLetter(id: string): Promise<void>;
+	readonly running: boolean;
+}
+
+/** Default budget for awaiting in-flight job runs during shutdown. */
+export const DEFAULT_JOB_STOP_TIMEOUT_MS = 10_000;
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_LEASE_MS = 30_000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_BASE_MS = 1000;
+const DEFAULT_BACKOFF_MAX_MS = 300_000;
+
+/** A queued job as stored. Optional fields are omitted, never `undefined`. */
+interface JobRecord {
+	readonly id: string;
+	readonly name: string;
+	readonly input: unknown;
+	readonly attempts: number;
+	readonly runAt: number;
+	readonly enqueuedAt: number;
+	readonly dedupeKey?: string;
+	readonly lastError?: string;
+	readonly claimedBy?: string;
+	readonly leaseUntil?: number;
+}
+
+/** Who holds a dedupe key, and since when. */
+interface DedupeReservation {
+	readonly id: string;
+	readonly reservedAt: number;
+}
+
+interface RunOutcome {
+	readonly failed: boolean;
+	readonly error: unknown;
+	/** Failed in a way retrying cannot fix, such as invalid stored input. */
+	readonly permanent: boolean;
+	readonly durationMs: number;
+}
+
+const errorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+const unref = (timer: ReturnType<typeof setTimeout>): void => {
+	// Never hold the process open for a background timer.
+	(timer as { unref?: () => void }).unref?.();
+};
+
+/**
+ * Identity helper that types a job's `run` from its `input` schema, the way
+ * route helpers type handlers from their contract.
+ */
+export const defineJob = <
+	Input = unknown,
+	Schema extends ServerValidator<Input> = ServerValidator<Input>,
+>(
+	definition: JobDefinition<Input, Schema>
+): JobDefinition<Input, Schema> => definition;
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+	const pending = options.storage.namespace('jobs');
+	const dead = options.storage.namespace('dead-jobs');
+	const dedupe = options.storage.namespace('job-dedupe');
+	const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+	const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+	const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+	const workerId = options.workerId ?? randomUUID();
+	const emit = options.onEvent;
+	const now = options.now ?? Date.now;
+	const random = options.random ?? Math.random;
+
+	const jobs = new Map<string, JobDefinition>();
+	const active = new Map<string, number>();
+	const inFlight = new Set<Promise<void>>();
+	let started = false;
+	let controller: AbortController | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let pumping: Promise<void> | undefined;
+	let pumpAgain = false;
+
+	const activeCount = (): number => inFlight.size;
+
+	const hasCapacity = (name: string): boolean => {
+		const limit = jobs.get(name)?.concurrency ?? Infinity;
+		return activeCount() < concurrency && (active.get(name) ?? 0) < limit;
+	};
+
+	const backoffMs = (job: JobDefinition, attempts: number): number => {
+		const base = job.backoff?.baseMs ?? DEFAULT_BACKOFF_BASE_MS;
+		const max = job.backoff?.maxMs ?? DEFAULT_BACKOFF_MAX_MS;
+		const delay = Math.min(max, base * 2 ** (attempts - 1));
+		// Half fixed, half random: retries spread out but never come early.
+		return Math.floor(delay / 2 + (random() * delay) / 2);
+	};
+
+	/** Claims `record` for this worker, or `undefined` if another got there. */
+	const claim = async (record: JobRecord): Promise<JobRecord | undefined> => {
+		const claimed: JobRecord = {
+			...record,
+			attempts: record.attempts + 1,
+			claimedBy: workerId,
+			leaseUntil: now() + leaseMs,
+		};
+		return (await pending.compareAndSet(record.id, record, claimed))
+			? claimed
+			: undefined;
+	};
+
+	const releaseDedupe = async (record: JobRecord): Promise<void> => {
+		if (record.dedupeKey === undefined) return;
+		// Only this job's id is released; while it holds the key, no enqueue
+		// can replace it between the read and the delete.
+		const holder = await dedupe.get<DedupeReservation>(record.dedupeKey);
+		if (holder?.id === record.id) {
+			await dedupe.delete(record.dedupeKey);
+		}
+	};
+
+	/**
+	 * Reserves `dedupeKey` for `id`, or returns the id of the job that holds
+	 * it. A holder not yet in `pending` may be an enqueue still storing its
+	 * job, so its key is only taken over once a lease has passed; by then the
+	 * enqueue has stored the job or died.
+	 */
+	const reserve = async (
+		dedupeKey: string,
+		id: string
+	): Promise<string | undefined> => {
+		const reservation: DedupeReservation = { id, reservedAt: now() };
+		for (;;) {
+			if (await dedupe.compareAndSet(dedupeKey, undefined, reservation))
+				return undefined;
+			const existing = await dedupe.get<DedupeReservation>(dedupeKey);
+			if (existing === undefined) continue;
+			if (
+				now() - existing.reservedAt < leaseMs ||
+				(await pending.has(existing.id))
+			) {
+				return existing.id;
+			}
+			if (await dedupe.compareAndSet(dedupeKey, existing, reservation))
+				return undefined;
+		}
+	};
+
+	/** Records a finished run, compared against the claim it ran under. */
+	const settle = async (
+		record: JobRecord,
+		job: JobDefinition,
+		outcome: RunOutcome
+	): Promise<void> => {
+		const current = await pending.get<JobRecord>(record.id);
+		// The claim lapsed and another worker, or a later claim, owns it now.
+		if (
+			!current ||
+			current.claimedBy !== workerId ||
+			current.attempts !== record.attempts
+		) {
+			return;
+		}
+
+		if (!outcome.failed) {
+			await pending.delete(record.id);
+			await releaseDedupe(record);
+			emit?.({
+				type: 'success',
+				name: record.name,
+				id: record.id,
+				attempt: record.attempts,
+				durationMs: outcome.durationMs,
+			});
+			return;
+		}
+
+		const maxAttempts = job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+		const message = errorMessage(outcome.error);
+		if (outcome.permanent || record.attempts >= maxAttempts) {
+			const letter: DeadLetter = {
+				id: record.id,
+				name: record.name,
+				input: record.input,
+				attempts: record.attempts,
+				enqueuedAt: record.enqueuedAt,
+				failedAt: now(),
+				error: message,
+			};
+			await dead.set(record.id, letter);
+			await pending.delete(record.id);
+			await releaseDedupe(record);
+			emit?.({
+				type: 'dead-letter',
+				name: record.name,
+				id: record.id,
+				attempt: record.attempts,
+				durationMs: outcome.durationMs,
+				error: outcome.error,
+			});
+			return;
+		}
+
+		// Back in the queue, unclaimed, once the backoff has passed.
+		await pending.compareAndSet(record.id, current, {
+			id: record.id,
+			name: record.name,
+			input: record.input,
+			attempts: record.attempts,
+			runAt: now() + backoffMs(job, record.attempts),
+			enqueuedAt: record.enqueuedAt,
+			...(record.dedupeKey !== undefined
+				? { dedupeKey: record.dedupeKey }
+				: {}),
+			lastError: message,
+		} satisfies JobRecord);
+		emit?.({
+			type: 'retry',
+			name: record.name,
+			id: record.id,
+			attempt: record.attempts,
+			durationMs: outcome.durationMs,
+			error: outcome.error,
+		});
+	};
+
+	/**
+	 * Extends the claim every third of the lease until the run settles, or
+	 * until `signal` aborts: a run outliving the drain is left to lapse.
+	 */
+	const keepClaim = (record: JobRecord, signal: AbortSignal) => {
+		let held = record;
+		let renewing: ReturnType<typeof setTimeout> | undefined;
+		const renew = async (): Promise<void> => {
+			if (signal.aborted) return;
+			const next = { ...held, leaseUntil: now() + leaseMs };
+			try {
+				if (await pending.compareAndSet(held.id, held, next)) held = next;
+			} catch {
+				// The next renewal tries again; a lapsed claim is only a repeat.
+			}
+			if (renewing !== undefined) schedule();
+		};
+		const schedule = (): void => {
+			renewing = setTimeout(() => {
+				void renew();
+			}, leaseMs / 3);
+			unref(renewing);
+		};
+		schedule();
+		return {
+			current: () => held,
+			stop: () => {
+				if (renewing !== undefined) clearTimeout(renewing);
+				renewing = undefined;
+			},
+		};
+	};
+
+	const execute = (record: JobRecord, job: JobDefinition): void => {
+		active.set(job.name, (active.get(job.name) ?? 0) + 1);
+		const signal = controller?.signal ?? new AbortController().signal;
+
+		// Deferred a microtask, so the run is in `inFlight` before it can end.
+		const run = Promise.resolve().then(async () => {
+			const claimHandle = keepClaim(record, signal);
+			const startedAt = now();
+			emit?.({
+				type: 'start',
+				name: job.name,
+				id: record.id,
+				attempt: record.attempts,
+			});
+			let failure: { readonly error: unknown } | undefined;
+			let permanent = false;
+			try {
+				let input: unknown;
+				try {
+					input = job.input
+						? validateServerValue('value', record.input, job.input)
+						: record.input;
+				} catch (error) {
+					// Retrying cannot make stored input valid.
+					permanent = true;
+					throw error;
+				}
+				await job.run(input, {
+					signal,
+					id: record.id,
+					name: job.name,
+					attempt: record.attempts,
+				});
+			} catch (error) {
+				failure = { error };
+			} finally {
+				claimHandle.stop();
+			}
+			try {
+				await settle(claimHandle.current(), job, {
+					failed: failure !== undefined,
+					error: failure?.error,
+					permanent,
+					durationMs: now() - startedAt,
+				});
+			} catch {
+				// The claim lapses and the job runs again: at least once.
+			}
+		});
+
+		inFlight.add(run);
+		void run.finally(() => {
+			inFlight.delete(run);
+			active.set(job.name, (active.get(job.name) ?? 1) - 1);
+			if (started) pump();
+		});
+	};
+
+	/** Claims due jobs up to capacity, oldest first. */
+	const fill = async (): Promise<void> => {
+		const ids = await pending.keys();
+		const records = (
+			await Promise.all(ids.map((id) => pending.get<JobRecord>(id)))
+		).filter((record): record is JobRecord => record !== undefined);
+		records.sort((a, b) => a.runAt - b.runAt || a.enqueuedAt - b.enqueuedAt);
+
+		let nextRunAt = Infinity;
+		for (const record of records) {
+			if (!started || activeCount() >= concurrency) break;
+			const job = jobs.get(record.name);
+			// Registered on another worker, or waiting on a lease or backoff.
+			if (!job) continue;
+			const due = Math.max(record.runAt, record.leaseUntil ?? 0);
+			if (due > now()) {
+				nextRunAt = Math.min(nextRunAt, due);
+				continue;
+			}
+			if (!hasCapacity(record.name)) continue;
+			const claimed = await claim(record);
+			if (claimed) execute(claimed, job);
+		}
+		arm(nextRunAt);
+	};
+
+	const arm = (at: number): void => {
+		if (!started) return;
+		if (timer !== undefined) clearTimeout(timer);
+		const delay = Math.min(Math.max(0, at - now()), pollIntervalMs);
+		timer = setTimeout(() => {
+			timer = undefined;
+			pump();
+		}, delay);
+		unref(timer);
+	};
+
+	/** Runs `fill`, coalescing calls made while one is under way. */
+	const pump = (): void => {
+		if (!started) return;
+		if (pumping) {
+			pumpAgain = true;
+			return;
+		}
+		pumping = fill()
+			.catch(() => {
+				// Storage unavailable: the poll timer tries again.
+				arm(Infinity);
+			})
+			.finally(() => {
+				pumping = undefined;
+				if (pumpAgain) {
+					pumpAgain = false;
+					pump();
+				}
+			});
+	};
+
+	return {
+		register(job) {
+			if (jobs.has(job.name)) {
+				throw new TypeError(`Duplicate job name "${job.name}".`);
+			}
+			if (
+				job.maxAttempts !== undefined &&
+				(!Number.isInteger(job.maxAttempts) || job.maxAttempts < 1)
+			) {
+				throw new TypeError(
+					`Job "${job.name}" requires a positive integer maxAttempts.`
+				);
+			}
+			if (
+				job.concurrency !== undefined &&
+				(!Number.isInteger(job.concurrency) || job.concurrency < 1)
+			) {
+				throw new TypeError(
+					`Job "${job.name}" requires a positive integer concurrency.`
+				);
+			}
+			jobs.set(job.name, job as JobDefinition);
+			pump();
+		},
+
+		async enqueue(job, input, enqueueOptions = {}) {
+			// Decoded only to reject bad input now; the run decodes its own copy.
+			if (job.input) validateServerValue('value', input, job.input);
+			const id = randomUUID();
+			const { dedupeKey } = enqueueOptions;
+			if (dedupeKey !== undefined) {
+				const existing = await reserve(dedupeKey, id);
+				if (existing !== undefined) {
+					return { id: existing, deduplicated: true };
+				}
+			}
+
+			const enqueuedAt = now();
+			const record: JobRecord = {
+				id,
+				name: job.name,
+				// `undefined` has no JSON form; store absence uniformly.
+				input: (input as unknown) ?? null,
+				attempts: 0,
+				runAt: enqueuedAt + Math.max(0, enqueueOptions.delayMs ?? 0),
+				enqueuedAt,
+				...(dedupeKey !== undefined ? { dedupeKey } : {}),
+			};
+			await pending.set(id, record);
+			emit?.({ type: 'enqueue', name: job.name, id });
+			pump();
+			return { id, deduplicated: false };
+		},
+
+		start() {
+			if (started) return;
+			started = true;
+			controller = new AbortController();
+			pump();
+		},
+
+		async stop(stopOptions = {}) {
+			if (!started) return;
+			started = false;
+			if (timer !== undefined) clearTimeout(timer);
+			timer = undefined;
+			// A claim under way finishes first, so its run is awaited too.
+			await pumping;
+
+			const runs = [...inFlight];
+			const signal = controller;
+			controller = undefined;
+			if (runs.length === 0) return;
+
+			const timeoutMs = stopOptions.timeoutMs ?? DEFAULT_JOB_STOP_TIMEOUT_MS;
+			let budgetTimer: ReturnType<typeof setTimeout> | undefined;
+			const budget = new Promise<void>((resolve) => {
+				budgetTimer = setTimeout(() => {
+					// Out of time: ask the remaining runs to wind down.
+					signal?.abort();
+					resolve();
+				}, timeoutMs);
+				unref(budgetTimer);
+			});
+
+			try {
+				await Promise.race([Promise.allSettled(runs), budget]);
+			} finally {
+				if (budgetTimer !== undefined) clearTimeout(budgetTimer);
+			}
+		},
+
+		async deadLetters() {
+			const ids = await dead.keys();
+			const letters = (
+				await Promise.all(ids.map((id) => dead.get<DeadLetter>(id)))
+			).filter((letter): letter is DeadLetter => letter !== undefined);
+			return letters.sort((a, b) => a.failedAt - b.failedAt);
+		},
+
+		async retryDeadLetter(id) {
+			const letter = await dead.take<DeadLetter>(id);
+			if (!letter) return false;
+			const record: JobRecord = {
+				id: letter.id,
+				name: letter.name,
+				input: letter.input,
+				attempts: 0,
+				runAt: now(),
+				enqueuedAt: letter.enqueuedAt,
+			};
+			await pending.set(id, record);
+			pump();
+			return true;
+		},
+
+		async discardDeadLetter(id) {
+			await dead.delete(id);
+		},
+
+		get running() {
+			return started;
+		},
+	};
+};
+
+export interface JobQueuePluginOptions {
+	/** Plugin name. Defaults to `'jobs'`. */
+	readonly name?: string;
+	/** Budget handed to `queue.stop()` on teardown. */
+	readonly stopTimeoutMs?: number;
+}
+
+/**
+ * Starts `queue` with a plugin host and drains it on the host's shutdown,
+ * in reverse order with the other plugins, so the storage it uses is still
+ * open while the last runs settle.
+ */
+export const jobQueuePlugin = (
+	queue: JobQueue,
+	pluginOptions: JobQueuePluginOptions = {}
+): Plugin<JobQueue> => ({
+	name: pluginOptions.name ?? 'jobs',
+	setup(context) {
+		queue.start();
+		context.onTeardown(() =>
+			queue.stop(
+				pluginOptions.stopTimeoutMs === undefined
+					? {}
+					: { timeoutMs: pluginOptions.stopTimeoutMs }
+			)
+		);
+		return queue;
+	},
+});
@@ -29,6 +29,8 @@ import {
 	type ServerResponse,
 } from 'node:http';
 import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { takeServerSocketUpgrade } from '@effuse/core';
 import {
 	DEFAULT_CLOSE_TIMEOUT_MS,
 	DEFAULT_MAX_BODY_BYTES,
@@ -46,11 +48,21 @@ import {
 	shuttingDownResponse,
 } from '../internal/envelopes.js';
 import { toWebRequest, writeEnvelope, writeWebResponse } from './convert.js';
+import {
+	acceptWebSocket,
+	writeRawResponse,
+	type NodeWebSocket,
+} from './websocket.js';
 
 export {
 	withStaticFiles,
 	type StaticFileOptions,
 } from '../internal/static-files.js';
+export {
+	createPrerenderFileStore,
+	type PrerenderFileStore,
+	type PrerenderFileStoreOptions,
+} from '../internal/prerender-files.js';
 
 const DEFAULT_HOST = '127.0.0.1';
 
@@ -122,6 +134,60 @@ export const createNodeServer = (
 		}
 	};
 
+	const sockets = new Set<NodeWebSocket>();
+
+	/**
+	 * Runs an upgrade request through the handler like any other request. The
+	 * socket is upgraded only when the handler accepted it; any other response
+	 * is written to the raw connection as plain HTTP.
+	 */
+	const handleUpgrade = async (
+		req: IncomingMessage,
+		socket: Duplex,
+		head: Buffer,
+		host: string
+	): Promise<void> => {
+		const controller = new AbortController();
+		socket.once('close', () => {
+			controller.abort();
+		});
+		const request = toWebRequest(req, host, controller.signal);
+		let response: Response;
+		try {
+			response = await boundHandler(request);
+		} catch (error) {
+			options.onError?.(error, request);
+			response = internalErrorResponse();
+		}
+
+		const upgrade = takeServerSocketUpgrade(response);
+		if (!upgrade) {
+			await writeRawResponse(socket, response);
+			return;
+		}
+		const key = req.headers['sec-websocket-key'];
+		if (closing || controller.signal.aborted || typeof key !== 'string') {
+			void Promise.resolve(
+				upgrade.handlers.close?.(
+					{ send: () => undefined, close: () => undefined },
+					1006,
+					''
+				)
+			).catch((error: unknown) => {
+				options.onError?.(error, request);
+			});
+			await writeRawResponse(socket, shuttingDownResponse());
+			return;
+		}
+
+		const connection = acceptWebSocket(socket, head, key, upgrade, {
+			maxMessageBytes: maxBodyBytes,
+			onError: (error) => options.onError?.(error, request),
+		});
+		sockets.add(connection);
+		void connection.closed.then(() => sockets.delete(connection));
+	};
+
 	const server: Server = createServer((req, res) => {
 		if (closing) {
 			void writeEnvelope(res, shuttingDownResponse()).catch(() => {
@@ -137,6 +203,26 @@ export const createNodeServer = (
 		void handleRequest(req, res, host).finally(settleInFlight);
 	});
 
+	server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+		socket.on('error', () => {
+			socket.destroy();
+		});
+		if (closing) {
+			void writeRawResponse(socket, shuttingDownResponse()).catch(() => {
+				socket.destroy();
+			});
+			return;
+		}
+
+		inFlight += 1;
+		const host = address?.host ?? DEFAULT_HOST;
+		void handleUpgrade(req, socket, head, host)
+			.catch(() => {
+				socket.destroy();
+			})
+			.finally(settleInFlight);
+	});
+
 	const listen = (
 		listenOptions: ListenOptions = {}
 	): Promise<ServerAddress> => {
@@ -203,6 +289,25 @@ export const createNodeServer = (
 				}
 			}
 
+			// Open WebSockets are told the server is going away, then dropped
+			// if they do not finish the close handshake in time.
+			if (sockets.size > 0) {
+				for (const connection of sockets) {
+					connection.close(1001, 'Server shutting down');
+				}
+				let timer: NodeJS.Timeout | undefined;
+				await Promise.race([
+					Promise.all([...sockets].map((connection) => connection.closed)),
+					new Promise<void>((resolve) => {
+						timer = setTimeout(resolve, timeoutMs);
+					}),
+				]);
+				clearTimeout(timer);
+				for (const connection of sockets) {
+					connection.destroy();
+				}
+			}
+
 			// Close idle keep-alive sockets (and any that outlasted the timeout)
 			// so the underlying server can fully shut down.
 			server.closeAllConnections();
@@ -0,0 +1,365 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { createHash } from 'node:crypto';
+import { STATUS_CODES } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { ServerSocketPeer, ServerSocketUpgrade } from '@effuse/core';
+
+/**
+ * A minimal RFC 6455 server endpoint over an upgraded Node socket: the
+ * handshake, framing, fragmentation, ping/pong and the close handshake.
+ * Extensions such as permessage-deflate are not negotiated.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Milliseconds to wait for the peer to answer a close frame. */
+const CLOSE_REPLY_TIMEOUT_MS = 1_000;
+
+const OPCODE = {
+	continuation: 0x0,
+	text: 0x1,
+	binary: 0x2,
+	close: 0x8,
+	ping: 0x9,
+	pong: 0xa,
+} as const;
+
+/** Close codes that must never appear on the wire (RFC 6455 §7.4.1). */
+const NO_STATUS = 1005;
+const ABNORMAL = 1006;
+
+export interface NodeWebSocketOptions {
+	/** Largest message accepted, after reassembling fragments. */
+	readonly maxMessageBytes: number;
+	readonly onError?: (error: unknown) => void;
+}
+
+/** The adapter's handle on an open connection. */
+export interface NodeWebSocket {
+	/** Starts the close handshake. */
+	close(code: number, reason: string): void;
+	/** Resolves once the underlying socket has closed. */
+	readonly closed: Promise<void>;
+	destroy(): void;
+}
+
+/** The `Sec-WebSocket-Accept` value for a client's key. */
+export const webSocketAccept = (key: string): string =>
+	createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+
+const encodeFrame = (opcode: number, payload: Uint8Array): Buffer => {
+	const length = payload.byteLength;
+	const headerLength = length < 126 ? 2 : length < 0x10000 ? 4 : 10;
+	const frame = Buffer.alloc(headerLength + length);
+	frame[0] = 0x80 | opcode;
+	if (length < 126) {
+		frame[1] = length;
+	} else if (length < 0x10000) {
+		frame[1] = 126;
+		frame.writeUInt16BE(length, 2);
+	} else {
+		frame[1] = 127;
+		frame.writeBigUInt64BE(BigInt(length), 2);
+	}
+	frame.set(payload, headerLength);
+	return frame;
+};
+
+const closePayload = (code: number, reason: string): Uint8Array => {
+	const text = Buffer.from(reason, 'utf8').subarray(0, 123);
+	const payload = Buffer.alloc(2 + text.byteLength);
+	payload.writeUInt16BE(code, 0);
+	payload.set(text, 2);
+	return payload;
+};
+
+const writeHandshake = (
+	socket: Duplex,
+	key: string,
+	headers: Headers
+): void => {
+	const lines = [
+		'HTTP/1.1 101 Switching Protocols',
+		'Upgrade: websocket',
+		'Connection: Upgrade',
+		`Sec-WebSocket-Accept: ${webSocketAccept(key)}`,
+	];
+	for (const cookie of headers.getSetCookie()) {
+		lines.push(`Set-Cookie: ${cookie}`);
+	}
+	headers.forEach((value, name) => {
+		if (name !== 'set-cookie') lines.push(`${name}: ${value}`);
+	});
+	socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+};
+
+/**
+ * Completes the handshake on `socket` and drives `upgrade`'s handlers until
+ * the connection closes. `head` is whatever the client sent after its request.
+ */
+export const acceptWebSocket = (
+	socket: Duplex,
+	head: Buffer,
+	key: string,
+	upgrade: ServerSocketUpgrade,
+	options: NodeWebSocketOptions
+): NodeWebSocket => {
+	const { handlers } = upgrade;
+	const decoder = new TextDecoder('utf-8', { fatal: true });
+	let buffered: Buffer = Buffer.alloc(0);
+	let fragments: Buffer[] = [];
+	let fragmentBytes = 0;
+	let fragmentOpcode = 0;
+	let closeSent = false;
+	let reported = false;
+	let closeTimer: NodeJS.Timeout | undefined;
+
+	const report = (error: unknown): void => {
+		options.onError?.(error);
+	};
+
+	const closed = new Promise<void>((resolve) => {
+		socket.once('close', () => {
+			clearTimeout(closeTimer);
+			finish(ABNORMAL, '');
+			resolve();
+		});
+	});
+
+	const write = (opcode: number, payload: Uint8Array): void => {
+		if (socket.destroyed || !socket.writable) return;
+		socket.write(encodeFrame(opcode, payload));
+	};
+
+	const finish = (code: number, reason: string): void => {
+		if (reported) return;
+		reported = true;
+		void Promise.resolve(handlers.close?.(peer, code, reason)).catch(report);
+	};
+
+	const sendClose = (code: number, reason: string): void => {
+		if (closeSent) return;
+		closeSent = true;
+		write(OPCODE.close, closePayload(code, reason));
+		closeTimer = setTimeout(() => socket.destroy(), CLOSE_REPLY_TIMEOUT_MS);
+		closeTimer.unref();
+	};
+
+	/** Closes because the peer broke the protocol or a limit. */
+	const fail = (code: number, reason: string): void => {
+		sendClose(code, reason);
+		finish(code, reason);
+		fragments = [];
+		buffered = Buffer.alloc(0);
+	};
+
+	const peer: ServerSocketPeer = {
+		send(data) {
+			if (closeSent) return;
+			if (typeof data === 'string') {
+				write(OPCODE.text, Buffer.from(data, 'utf8'));
+			} else {
+				write(OPCODE.binary, data);
+			}
+		},
+		close(code = 1000, reason = '') {
+			sendClose(code, reason);
+		},
+	};
+
+	const deliver = (opcode: number, payload: Buffer): void => {
+		let data: string | Uint8Array = payload;
+		if (opcode === OPCODE.text) {
+			try {
+				data = decoder.decode(payload);
+			} catch {
+				fail(1007, 'Invalid UTF-8');
+				return;
+			}
+		}
+		void Promise.resolve(handlers.message?.(peer, data)).catch(report);
+	};
+
+	const onControl = (opcode: number, payload: Buffer): void => {
+		if (opcode === OPCODE.ping) {
+			write(OPCODE.pong, payload);
+			return;
+		}
+		if (opcode !== OPCODE.close) return;
+		const code = payload.byteLength >= 2 ? payload.readUInt16BE(0) : NO_STATUS;
+		let reason = '';
+		try {
+			reason = decoder.decode(payload.subarray(2));
+		} catch {
+			fail(1007, 'Invalid UTF-8');
+			return;
+		}
+		if (closeSent) {
+			// The peer answered our close; the handshake is complete.
+			socket.end();
+		} else {
+			sendClose(code === NO_STATUS ? 1000 : code, '');
+			socket.end();
+		}
+		finish(code, reason);
+	};
+
+	/** Parses as many complete frames as `buffered` holds. */
+	const drain = (): void => {
+		while (buffered.byteLength >= 2) {
+			const first = buffered[0] ?? 0;
+			const second = buffered[1] ?? 0;
+			const fin = (first & 0x80) !== 0;
+			const opcode = first & 0x0f;
+			if ((first & 0x70) !== 0 || (second & 0x80) === 0) {
+				// Reserved bits without an extension, or an unmasked client frame.
+				fail(1002, 'Protocol error');
+				return;
+			}
+
+			let length = second & 0x7f;
+			let offset = 2;
+			if (length === 126) {
+				if (buffered.byteLength < 4) return;
+				length = buffered.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (buffered.byteLength < 10) return;
+				const long = buffered.readBigUInt64BE(2);
+				if (long > BigInt(options.maxMessageBytes)) {
+					fail(1009, 'Message too big');
+					return;
+				}
+				length = Number(long);
+				offset = 10;
+			}
+
+			const isControl = (opcode & 0x08) !== 0;
+			if (isControl && (!fin || length > 125)) {
+				fail(1002, 'Protocol error');
+				return;
+			}
+			if (!isControl && fragmentBytes + length > options.maxMessageBytes) {
+				fail(1009, 'Message too big');
+				return;
+			}
+			if (buffered.byteLength < offset + 4 + length) return;
+
+			const mask = buffered.subarray(offset, offset + 4);
+			const payload = Buffer.from(
+				buffered.subarray(offset + 4, offset + 4 + length)
+			);
+			for (let index = 0; index < payload.byteLength; index += 1) {
+				payload[index] = (payload[index] ?? 0) ^ (mask[index % 4] ?? 0);
+			}
+			buffered = buffered.subarray(offset + 4 + length);
+
+			if (isControl) {
+				onControl(opcode, payload);
+				continue;
+			}
+			if (closeSent) continue;
+
+			if (opcode === OPCODE.continuation) {
+				if (fragments.length === 0) {
+					fail(1002, 'Unexpected continuation frame');
+					return;
+				}
+			} else if (opcode === OPCODE.text || opcode === OPCODE.binary) {
+				if (fragments.length > 0) {
+					fail(1002, 'Expected a continuation frame');
+					return;
+				}
+				fragmentOpcode = opcode;
+			} else {
+				fail(1002, 'Unknown opcode');
+				return;
+			}
+
+			fragments.push(payload);
+			fragmentBytes += length;
+			if (fin) {
+				const message =
+					fragments.length === 1
+						? payload
+						: Buffer.concat(fragments, fragmentBytes);
+				fragments = [];
+				fragmentBytes = 0;
+				deliver(fragmentOpcode, message);
+			}
+		}
+	};
+
+	writeHandshake(socket, key, upgrade.headers);
+	socket.on('error', () => {
+		socket.destroy();
+	});
+	socket.on('data', (chunk: Buffer) => {
+		buffered =
+			buffered.byteLength === 0 ? chunk : Buffer.concat([buffered, chunk]);
+		drain();
+	});
+
+	void Promise.resolve(handlers.open?.(peer)).catch(report);
+	if (head.byteLength > 0) {
+		buffered = Buffer.from(head);
+		drain();
+	}
+
+	return {
+		close: (code, reason) => {
+			sendClose(code, reason);
+		},
+		closed,
+		destroy: () => socket.destroy(),
+	};
+};
+
+/**
+ * Writes `response` straight to an upgrade socket that will not be upgraded,
+ * such as when middleware rejected the request, then ends the connection.
+ */
+export const writeRawResponse = async (
+	socket: Duplex,
+	response: Response
+): Promise<void> => {
+	const body = Buffer.from(await response.arrayBuffer());
+	const lines = [
+		`HTTP/1.1 ${String(response.status)} ${STATUS_CODES[response.status] ?? ''}`,
+	];
+	for (const cookie of response.headers.getSetCookie()) {
+		lines.push(`Set-Cookie: ${cookie}`);
+	}
+	response.headers.forEach((value, name) => {
+		if (name !== 'set-cookie' && name !== 'content-length') {
+			lines.push(`${name}: ${value}`);
+		}
+	});
+	lines.push(`Content-Length: ${String(body.byteLength)}`, 'Connection: close');
+	socket.end(
+		Buffer.concat([Buffer.from(`${lines.join('\r\n')}\r\n\r\n`), body])
+	);
+};
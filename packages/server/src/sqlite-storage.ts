@@ -0,0 +1,318 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Chris M. Perez
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * SQLite `EffuseStorage` on the runtime's built-in driver: `node:sqlite` on
+ * Node, `bun:sqlite` on Bun. Nothing to install, and one file that several
+ * processes on one box can share.
+ *
+ * - **One table**, keyed by the hex of the full key. Namespaced keys contain a
+ *   NUL separator, which SQLite text functions stop at; hex keeps a namespace a
+ *   plain key range, so `keys()` and `clear()` are index scans.
+ * - **Lazy expiry.** An expired row is dropped when it is read, and at most
+ *   once per `sweepIntervalMs` an operation deletes every expired row.
+ * - **JSON values**, as the filesystem adapter stores them.
+ * - **Atomic operations are transactions.** `increment`, `compareAndSet` and
+ *   `take` read and write inside `BEGIN IMMEDIATE`, which takes the write lock
+ *   up front, so other processes sharing the file wait rather than interleave.
+ * - **Opened on first use**, because the driver is imported for the runtime
+ *   actually running, so creating the storage never throws.
+ */
+
+import {
+	incrementedValue,
+	NAMESPACE_SEPARATOR,
+	storageValuesEqual,
+	type EffuseStorage,
+	type StorageSetOptions,
+} from './storage.js';
+
+export interface SqliteStorageOptions {
+	/** Database file path, or `:memory:`. */
+	readonly path: string;
+	/** Table holding the entries. Defaults to `effuse_storage`. */
+	readonly table?: string;
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Minimum milliseconds between sweeps of expired rows. Defaults to 60 000. */
+	readonly sweepIntervalMs?: number;
+}
+
+export interface SqliteStorage extends EffuseStorage {
+	/** Closes the database. Operations after this reject. */
+	close(): Promise<void>;
+}
+
+/** The subset of `node:sqlite` and `bun:sqlite` this adapter relies on. */
+interface SqliteStatement {
+	get(...params: unknown[]): unknown;
+	all(...params: unknown[]): unknown[];
+	run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+	exec(sql: string): unknown;
+	prepare(sql: string): SqliteStatement;
+	close(): void;
+}
+
+interface StorageRow {
+	readonly key: string;
+	readonly value: string;
+	readonly expires_at: number | null;
+}
+
+const DEFAULT_TABLE = 'effuse_storage';
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const openDatabase = async (path: string): Promise<SqliteDatabase> => {
+	if ((globalThis as { Bun?: unknown }).Bun !== undefined) {
+		// Through a variable, so type-checking and bundling for Node never
+		// try to resolve a module only Bun provides.
+		const specifier = 'bun:sqlite';
+		const { Database } = (await import(specifier)) as {
+			Database: new (path: string) => SqliteDatabase;
+		};
+		return new Database(path);
+	}
+	const { DatabaseSync } = await import('node:sqlite');
+	return new DatabaseSync(path) as unknown as SqliteDatabase;
+};
+
+const encodeKey = (key: string): string =>
+	Buffer.from(key, 'utf8').toString('hex');
+
+const decodeKey = (key: string): string =>
+	Buffer.from(key, 'hex').toString('utf8');
+
+export const createSqliteStorage = (
+	options: SqliteStorageOptions
+): SqliteStorage => {
+	const table = options.table ?? DEFAULT_TABLE;
+	if (!TABLE_NAME_PATTERN.test(table)) {
+		throw new TypeError(
+			`[effuse-server] SQLite storage table "${table}" is not a plain identifier.`
+		);
+	}
+	const now = options.now ?? Date.now;
+	const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+
+	let lastSweep = now();
+
+	const open = async () => {
+		const db = await openDatabase(options.path);
+		db.exec('PRAGMA journal_mode = WAL');
+		db.exec('PRAGMA busy_timeout = 5000');
+		db.exec(
+			`CREATE TABLE IF NOT EXISTS "${table}" (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER) WITHOUT ROWID`
+		);
+		db.exec(
+			`CREATE INDEX IF NOT EXISTS "${table}_expires_at" ON "${table}" (expires_at)`
+		);
+		return {
+			db,
+			select: db.prepare(
+				`SELECT key, value, expires_at FROM "${table}" WHERE key = ?`
+			),
+			upsert: db.prepare(
+				`INSERT INTO "${table}" (key, value, expires_at) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+			),
+			remove: db.prepare(`DELETE FROM "${table}" WHERE key = ?`),
+			range: db.prepare(
+				`SELECT key, value, expires_at FROM "${table}" WHERE key >= ? AND key < ? AND (expires_at IS NULL OR expires_at > ?)`
+			),
+			clearRange: db.prepare(
+				`DELETE FROM "${table}" WHERE key >= ? AND key < ?`
+			),
+			sweep: db.prepare(
+				`DELETE FROM "${table}" WHERE expires_at IS NOT NULL AND expires_at <= ?`
+			),
+		};
+	};
+
+	let opened: ReturnType<typeof open> | undefined;
+	let closed = false;
+
+	const connection = async () => {
+		if (closed) {
+			throw new Error('[effuse-server] SQLite storage is closed.');
+		}
+		opened ??= open();
+		const statements = await opened;
+		const timestamp = now();
+		if (timestamp - lastSweep >= sweepIntervalMs) {
+			lastSweep = timestamp;
+			statements.sweep.run(timestamp);
+		}
+		return statements;
+	};
+
+	type Statements = Awaited<ReturnType<typeof open>>;
+
+	const expiryFor = (options: StorageSetOptions | undefined): number | null => {
+		const ttlMs = options?.ttlMs;
+		return ttlMs !== undefined && ttlMs > 0 ? now() + ttlMs : null;
+	};
+
+	const serialize = (value: unknown): string =>
+		// `undefined` has no JSON form; it reads back as null.
+		(JSON.stringify(value) as string | undefined) ?? 'null';
+
+	const liveRow = (
+		statements: Statements,
+		encoded: string
+	): StorageRow | undefined => {
+		const row = (statements.select.get(encoded) ?? undefined) as
+			| StorageRow
+			| undefined;
+		if (!row) return undefined;
+		if (row.expires_at !== null && now() >= row.expires_at) {
+			statements.remove.run(encoded);
+			return undefined;
+		}
+		return row;
+	};
+
+	/** Runs `task` in a write transaction, rolling back if it throws. */
+	const transaction = async <T>(
+		task: (statements: Statements) => T
+	): Promise<T> => {
+		const statements = await connection();
+		statements.db.exec('BEGIN IMMEDIATE');
+		try {
+			const result = task(statements);
+			statements.db.exec('COMMIT');
+			return result;
+		} catch (error) {
+			statements.db.exec('ROLLBACK');
+			throw error;
+		}
+	};
+
+	const live = async (key: string): Promise<StorageRow | undefined> =>
+		liveRow(await connection(), encodeKey(key));
+	/** Hex key bounds covering every key that starts with `prefix`. */
+	const bounds = (prefix: string): [string, string] => {
+		const lower = encodeKey(prefix);
+		// 'g' sorts after every hex digit, so this bounds the prefix range.
+		return [lower, `${lower}g`];
+	};
+
+	const view = (prefix: string): EffuseStorage => {
+		const full = (key: string): string => `${prefix}${key}`;
+
+		return {
+			async get<Value = unknown>(key: string) {
+				const row = await live(full(key));
+				return row ? (JSON.parse(row.value) as Value) : undefined;
+			},
+
+			async set(key, value, setOptions) {
+				(await connection()).upsert.run(
+					encodeKey(full(key)),
+					serialize(value),
+					expiryFor(setOptions)
+				);
+			},
+
+			async delete(key) {
+				(await connection()).remove.run(encodeKey(full(key)));
+			},
+
+			async has(key) {
+				return (await live(full(key))) !== undefined;
+			},
+
+			increment(key, by = 1, setOptions) {
+				const encoded = encodeKey(full(key));
+				return transaction((statements) => {
+					const row = liveRow(statements, encoded);
+					const value = incrementedValue(
+						key,
+						row ? JSON.parse(row.value) : undefined,
+						by
+					);
+					statements.upsert.run(
+						encoded,
+						serialize(value),
+						row ? row.expires_at : expiryFor(setOptions)
+					);
+					return value;
+				});
+			},
+
+			compareAndSet(key, expected, next, setOptions) {
+				const encoded = encodeKey(full(key));
+				return transaction((statements) => {
+					const row = liveRow(statements, encoded);
+					const current: unknown = row ? JSON.parse(row.value) : undefined;
+					if (!storageValuesEqual(current, expected)) return false;
+					statements.upsert.run(
+						encoded,
+						serialize(next),
+						expiryFor(setOptions)
+					);
+					return true;
+				});
+			},
+
+			take<Value = unknown>(key: string) {
+				const encoded = encodeKey(full(key));
+				return transaction((statements) => {
+					const row = liveRow(statements, encoded);
+					if (!row) return undefined;
+					statements.remove.run(encoded);
+					return JSON.parse(row.value) as Value;
+				});
+			},
+
+			async keys() {
+				const rows = (await connection()).range.all(
+					...bounds(prefix),
+					now()
+				) as StorageRow[];
+				return rows.map((row) => decodeKey(row.key).slice(prefix.length));
+			},
+
+			async clear() {
+				(await connection()).clearRange.run(...bounds(prefix));
+			},
+
+			namespace(name) {
+				return view(`${prefix}${name}${NAMESPACE_SEPARATOR}`);
+			},
+		};
+	};
+
+	return {
+		...view(''),
+
+		async close() {
+			if (closed) return;
+			closed = true;
+			if (opened) (await opened).db.close();
+		},
+	};
+};
@@ -177,5 +177,89 @@ export const runStorageConformance = (
 			expect(await nested.get('k')).toBe('deep');
 			expect(await storage.namespace('outer').get('k')).toBeUndefined();
 		});
+
+		it('increments from zero and by a step', async () => {
+			const storage = create();
+			expect(await storage.increment('n')).toBe(1);
+			expect(await storage.increment('n', 5)).toBe(6);
+			expect(await storage.increment('n', -2)).toBe(4);
+			expect(await storage.get('n')).toBe(4);
+		});
+
+		it('loses no concurrent increments', async () => {
+			const storage = create();
+			await Promise.all(
+				Array.from({ length: 50 }, () => storage.increment('hits'))
+			);
+			expect(await storage.get('hits')).toBe(50);
+		});
+
+		it('rejects incrementing a value that is not a number', async () => {
+			const storage = create();
+			await storage.set('k', 'text');
+			let rejected = false;
+			try {
+				await storage.increment('k');
+			} catch {
+				rejected = true;
+			}
+			expect(rejected).toBe(true);
+			expect(await storage.get('k')).toBe('text');
+		});
+
+		it('sets only when the current value matches', async () => {
+			const storage = create();
+			await storage.set('k', { v: 1 });
+
+			expect(await storage.compareAndSet('k', { v: 2 }, { v: 3 })).toBe(false);
+			expect(await storage.get('k')).toEqual({ v: 1 });
+			expect(await storage.compareAndSet('k', { v: 1 }, { v: 3 })).toBe(true);
+			expect(await storage.get('k')).toEqual({ v: 3 });
+		});
+
+		it('treats an expected undefined as absence', async () => {
+			const storage = create();
+			expect(await storage.compareAndSet('k', undefined, 'claimed')).toBe(true);
+			expect(await storage.compareAndSet('k', undefined, 'again')).toBe(false);
+			expect(await storage.get('k')).toBe('claimed');
+		});
+
+		it('lets exactly one concurrent compareAndSet win', async () => {
+			const storage = create();
+			const results = await Promise.all(
+				Array.from({ length: 10 }, (_, index) =>
+					storage.compareAndSet('lock', undefined, index)
+				)
+			);
+			expect(results.filter(Boolean)).toHaveLength(1);
+		});
+
+		it('takes a value, leaving the key absent', async () => {
+			const storage = create();
+			await storage.set('k', 'once');
+			expect(await storage.take('k')).toBe('once');
+			expect(await storage.has('k')).toBe(false);
+			expect(await storage.take('k')).toBeUndefined();
+		});
+
+		it('hands a value to exactly one concurrent take', async () => {
+			const storage = create();
+			await storage.set('k', 'once');
+			const taken = await Promise.all(
+				Array.from({ length: 10 }, () => storage.take('k'))
+			);
+			expect(taken.filter((value) => value !== undefined)).toEqual(['once']);
+		});
+
+		it('keeps atomic operations within their namespace', async () => {
+			const storage = create();
+			const a = storage.namespace('a');
+			const b = storage.namespace('b');
+
+			await a.increment('n');
+			await b.increment('n', 10);
+			expect(await b.take('n')).toBe(10);
+			expect(await a.get('n')).toBe(1);
+		});
 	});
 };
@@ -39,38 +39,87 @@
  * - **Observability.** Every run reports start, success, failure, or skip with
  *   a duration, so a task that quietly stopped working is visible.
  *
- * Multi-instance boundary: without a shared lock, N instances run a task N
- * times. Applications that need exactly-once semantics across instances must
- * supply their own lock. This is a documented property, not an oversight —
- * silently running a billing job N times would be worse than not shipping it.
+ * A task runs every `intervalMs`, or on a cron `schedule` in a chosen time
+ * zone. `jitterMs` delays each run by a random amount up to that bound, so a
+ * fleet started together does not hit a dependency in lockstep.
+ *
+ * Multi-instance boundary: without a lock, N instances run a task N times.
+ * A task declaring `lock` takes a lease in the scheduler's `storage` before
+ * each run and skips the run when another instance holds it:
+ *
+ * - **Lease, not mutex.** The lease expires after `leaseMs`, so an instance
+ *   that dies mid-run cannot block the task forever. While the run lasts it is
+ *   renewed every third of `leaseMs`; if a renewal fails the run's signal is
+ *   aborted, because another instance may now be running it.
+ * - **One run per occurrence.** A cron occurrence that has run anywhere is not
+ *   run again, so replicas whose clocks disagree by a few seconds still run a
+ *   nightly job once.
+ * - **Fencing token.** Each lease carries a number that only increases, handed
+ *   to the run as `fencingToken`. A downstream system that remembers the
+ *   highest token it has seen can refuse writes from a holder whose lease
+ *   lapsed while it was paused.
  */
 
+import { randomUUID } from 'node:crypto';
+import { parseCron, type CronSchedule } from './cron.js';
+import type { EffuseStorage } from './storage.js';
+
 export interface TaskContext {
 	/** Aborted when the scheduler stops, so a run can exit cooperatively. */
 	readonly signal: AbortSignal;
 	readonly name: string;
+	/** The lease's fencing token, for tasks that declare `lock`. */
+	readonly fencingToken?: number;
+}
+
+export interface TaskLockOptions {
+	/** Milliseconds a lease lasts without renewal. Defaults to 30 000. */
+	readonly leaseMs?: number;
 }
 
 export interface TaskDefinition {
 	readonly name: string;
-	/** Milliseconds between runs. Must be positive. */
-	readonly intervalMs: number;
+	/** Milliseconds between runs. Must be positive. Exclusive with `schedule`. */
+	readonly intervalMs?: number;
+	/** Cron expression such as `'0 3 * * *'`. Exclusive with `intervalMs`. */
+	readonly schedule?: string;
+	/** IANA time zone `schedule` is read in. Defaults to `'UTC'`. */
+	readonly timeZone?: string;
+	/** Upper bound, in milliseconds, of a random delay added to each run. */
+	readonly jitterMs?: number;
+	/** Run at most once across every scheduler sharing `storage`. */
+	readonly lock?: boolean | TaskLockOptions;
 	/** Run once immediately on `start()` instead of after one interval. */
 	readonly runOnStart?: boolean;
 	readonly run: (context: TaskContext) => void | Promise<void>;
 }
 
-export type TaskEventType = 'start' | 'success' | 'failure' | 'skip';
+export type TaskEventType =
+	| 'start'
+	| 'success'
+	| 'failure'
+	| 'skip'
+	| 'lease-lost';
 
 export interface TaskEvent {
 	readonly type: TaskEventType;
 	readonly name: string;
 	readonly durationMs?: number;
 	readonly error?: unknown;
+	/** Why a run was skipped: still in flight here, or locked elsewhere. */
+	readonly reason?: 'overlap' | 'locked';
 }
 
 export interface TaskSchedulerOptions {
 	readonly onEvent?: (event: TaskEvent) => void;
+	/** Where tasks declaring `lock` keep their leases. */
+	readonly storage?: EffuseStorage;
+	/** Identifies this scheduler in its leases. Defaults to a random UUID. */
+	readonly instanceId?: string;
+	/** Clock injection point; defaults to `Date.now`. */
+	readonly now?: () => number;
+	/** Source of jitter in `[0, 1)`; defaults to `Math.random`. */
+	readonly random?: () => number;
 }
 
 export interface TaskStopOptions {
@@ -88,56 +137,218 @@ export interface TaskScheduler {
 /** Default budget for awaiting in-flight task runs during shutdown. */
 export const DEFAULT_TASK_STOP_TIMEOUT_MS = 10_000;
 
+/** Default lifetime of a task lease between renewals. */
+export const DEFAULT_TASK_LEASE_MS = 30_000;
+
+/** `setTimeout` overflows past this; longer waits are taken in steps. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/** What a lease stores: who holds it, until when, and for which occurrence. */
+interface LeaseRecord {
+	readonly owner: string;
+	readonly token: number;
+	readonly expiresAt: number;
+	readonly due: number;
+}
+
 interface TaskState {
 	readonly definition: TaskDefinition;
-	timer: ReturnType<typeof setInterval> | undefined;
+	readonly cron: CronSchedule | undefined;
+	readonly leaseMs: number | undefined;
+	timer: ReturnType<typeof setTimeout> | undefined;
 	inFlight: Promise<void> | undefined;
+	/** When the armed timer's occurrence is due, before jitter. */
+	due: number;
 }
 
+const unref = (timer: ReturnType<typeof setTimeout>): void => {
+	// Never hold the process open for a background timer.
+	(timer as { unref?: () => void }).unref?.();
+};
+
 export const createTaskScheduler = (
 	options: TaskSchedulerOptions = {}
 ): TaskScheduler => {
 	const tasks = new Map<string, TaskState>();
 	const emit = options.onEvent;
+	const now = options.now ?? Date.now;
+	const random = options.random ?? Math.random;
+	const storage = options.storage?.namespace('tasks');
+	const instanceId = options.instanceId ?? randomUUID();
 	let started = false;
 	let controller: AbortController | undefined;
 
-	const runOnce = (state: TaskState): void => {
+	/** The occurrence after `from`, or `undefined` for a cron that never fires. */
+	const nextDue = (state: TaskState, from: number): number | undefined => {
+		if (state.cron) {
+			return state.cron.next(from, state.definition.timeZone);
+		}
+		const intervalMs = state.definition.intervalMs ?? 0;
+		// Keep to the cadence, but skip occurrences missed while suspended
+		// rather than firing them back to back.
+		const next = from + intervalMs;
+		return next > now() ? next : now() + intervalMs;
+	};
+
+	const arm = (state: TaskState, at: number): void => {
+		const delay = Math.min(Math.max(0, at - now()), MAX_TIMER_DELAY_MS);
+		state.timer = setTimeout(() => {
+			state.timer = undefined;
+			if (!started) return;
+			// Not there yet: a wait longer than one timer allows, or a clock
+			// that disagrees with the timer.
+			if (now() < at) {
+				arm(state, at);
+				return;
+			}
+			const due = state.due;
+			scheduleNext(state, due);
+			runOnce(state, due);
+		}, delay);
+		unref(state.timer);
+	};
+
+	const scheduleNext = (state: TaskState, from: number): void => {
+		const due = nextDue(state, from);
+		if (due === undefined) return;
+		state.due = due;
+		const jitterMs = state.definition.jitterMs ?? 0;
+		arm(state, due + Math.floor(random() * jitterMs));
+	};
+
+	const leaseKey = (state: TaskState): string =>
+		`lease:${state.definition.name}`;
+
+	/** Takes the lease for occurrence `due`, or `undefined` if it is not ours. */
+	const acquire = async (
+		state: TaskState,
+		due: number
+	): Promise<LeaseRecord | undefined> => {
+		if (!storage || state.leaseMs === undefined) return undefined;
+		const key = leaseKey(state);
+		const current = await storage.get<LeaseRecord>(key);
+		if (current && current.expiresAt > now()) return undefined;
+		// A cron occurrence some instance already ran is done.
+		if (current && state.cron && current.due >= due) return undefined;
+
+		const lease: LeaseRecord = {
+			owner: instanceId,
+			// Drawn before claiming, so a later claim always holds a larger one.
+			token: await storage.increment(`fence:${state.definition.name}`),
+			expiresAt: now() + state.leaseMs,
+			due,
+		};
+		const claimed = await storage.compareAndSet(key, current, lease);
+		return claimed ? lease : undefined;
+	};
+
+	/**
+	 * Extends `lease` every third of its lifetime until `stopRenewing` is
+	 * called, calling `onLost` if another holder has taken it.
+	 */
+	const keepAlive = (
+		state: TaskState,
+		lease: LeaseRecord,
+		onLost: (error?: unknown) => void
+	): { current: () => LeaseRecord; stopRenewing: () => void } => {
+		const leaseMs = state.leaseMs ?? DEFAULT_TASK_LEASE_MS;
+		let held = lease;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const renew = async (): Promise<void> => {
+			const next = { ...held, expiresAt: now() + leaseMs };
+			try {
+				if (!(await storage?.compareAndSet(leaseKey(state), held, next))) {
+					onLost();
+					return;
+				}
+			} catch (error) {
+				onLost(error);
+				return;
+			}
+			held = next;
+			if (timer !== undefined) schedule();
+		};
+		const schedule = (): void => {
+			timer = setTimeout(() => {
+				void renew();
+			}, leaseMs / 3);
+			unref(timer);
+		};
+		schedule();
+		return {
+			current: () => held,
+			stopRenewing: () => {
+				if (timer !== undefined) clearTimeout(timer);
+				timer = undefined;
+			},
+		};
+	};
+
+	/** Gives the lease up early by expiring it, keeping its occurrence. */
+	const release = async (state: TaskState, lease: LeaseRecord) => {
+		await storage?.compareAndSet(leaseKey(state), lease, {
+			...lease,
+			expiresAt: now(),
+		});
+	};
+
+	const runOnce = (state: TaskState, due: number): void => {
+		const name = state.definition.name;
 		// Overlap guard: skip rather than queue.
 		if (state.inFlight) {
-			emit?.({ type: 'skip', name: state.definition.name });
+			emit?.({ type: 'skip', name, reason: 'overlap' });
 			return;
 		}
 
-		const signal = controller?.signal ?? new AbortController().signal;
-		const startedAt = Date.now();
-		emit?.({ type: 'start', name: state.definition.name });
+		const stopSignal = controller?.signal ?? new AbortController().signal;
 
 		// Defer the body by a microtask so `state.inFlight` is assigned before
 		// anything can clear it. An async IIFE would run synchronously through
 		// its `finally` when `run` throws synchronously, clearing the flag
 		// before the assignment below and wedging the task permanently.
 		const settle = Promise.resolve().then(async () => {
+			let startedAt = now();
+			let lease: LeaseRecord | undefined;
+			let renewal: ReturnType<typeof keepAlive> | undefined;
 			try {
+				let signal = stopSignal;
+				if (state.leaseMs !== undefined) {
+					lease = await acquire(state, due);
+					if (!lease) {
+						emit?.({ type: 'skip', name, reason: 'locked' });
+						return;
+					}
+					const lost = new AbortController();
+					signal = AbortSignal.any([stopSignal, lost.signal]);
+					renewal = keepAlive(state, lease, (error) => {
+						emit?.({ type: 'lease-lost', name, error });
+						lost.abort();
+					});
+				}
+
+				startedAt = now();
+				emit?.({ type: 'start', name });
 				await state.definition.run({
 					signal,
-					name: state.definition.name,
-				});
-				emit?.({
-					type: 'success',
-					name: state.definition.name,
-					durationMs: Date.now() - startedAt,
+					name,
+					...(lease ? { fencingToken: lease.token } : {}),
 				});
+				emit?.({ type: 'success', name, durationMs: now() - startedAt });
 			} catch (error) {
 				// Isolated: reported, never rethrown into the timer callback,
 				// so one task cannot take down the process or its siblings.
 				emit?.({
 					type: 'failure',
-					name: state.definition.name,
-					durationMs: Date.now() - startedAt,
+					name,
+					durationMs: now() - startedAt,
 					error,
 				});
 			} finally {
+				if (renewal) {
+					renewal.stopRenewing();
+					// Best effort: an unreleased lease simply runs out.
+					await release(state, renewal.current()).catch(() => undefined);
+				}
 				state.inFlight = undefined;
 			}
 		});
@@ -150,15 +361,70 @@ export const createTaskScheduler = (
 			if (tasks.has(task.name)) {
 				throw new TypeError(`Duplicate scheduled task name "${task.name}".`);
 			}
-			if (!Number.isFinite(task.intervalMs) || task.intervalMs <= 0) {
+			if ((task.intervalMs === undefined) === (task.schedule === undefined)) {
+				throw new TypeError(
+					`Scheduled task "${task.name}" requires exactly one of intervalMs and schedule.`
+				);
+			}
+			if (
+				task.intervalMs !== undefined &&
+				(!Number.isFinite(task.intervalMs) || task.intervalMs <= 0)
+			) {
 				throw new TypeError(
 					`Scheduled task "${task.name}" requires a positive intervalMs.`
 				);
 			}
+			if (
+				task.jitterMs !== undefined &&
+				(!Number.isFinite(task.jitterMs) || task.jitterMs < 0)
+			) {
+				throw new TypeError(
+					`Scheduled task "${task.name}" requires a non-negative jitterMs.`
+				);
+			}
+
+			const cron =
+				task.schedule === undefined ? undefined : parseCron(task.schedule);
+			if (cron) {
+				let first: number | undefined;
+				try {
+					first = cron.next(now(), task.timeZone);
+				} catch {
+					throw new TypeError(
+						`Scheduled task "${task.name}" has an unknown timeZone "${String(task.timeZone)}".`
+					);
+				}
+				if (first === undefined) {
+					throw new TypeError(
+						`Scheduled task "${task.name}" has a schedule that never fires.`
+					);
+				}
+			}
+
+			let leaseMs: number | undefined;
+			if (task.lock) {
+				if (!storage) {
+					throw new TypeError(
+						`Scheduled task "${task.name}" declares lock, which requires the scheduler's storage option.`
+					);
+				}
+				leaseMs =
+					(typeof task.lock === 'object' ? task.lock.leaseMs : undefined) ??
+					DEFAULT_TASK_LEASE_MS;
+				if (!Number.isFinite(leaseMs) || leaseMs <= 0) {
+					throw new TypeError(
+						`Scheduled task "${task.name}" requires a positive leaseMs.`
+					);
+				}
+			}
+
 			tasks.set(task.name, {
 				definition: task,
+				cron,
+				leaseMs,
 				timer: undefined,
 				inFlight: undefined,
+				due: 0,
 			});
 		},
 
@@ -168,12 +434,9 @@ export const createTaskScheduler = (
 			controller = new AbortController();
 
 			for (const state of tasks.values()) {
-				if (state.definition.runOnStart) runOnce(state);
-				state.timer = setInterval(() => {
-					runOnce(state);
-				}, state.definition.intervalMs);
-				// Never hold the process open for a background timer.
-				(state.timer as { unref?: () => void }).unref?.();
+				const startedAt = now();
+				if (state.definition.runOnStart) runOnce(state, startedAt);
+				scheduleNext(state, startedAt);
 			}
 		},
 
@@ -182,7 +445,7 @@ export const createTaskScheduler = (
 			started = false;
 
 			for (const state of tasks.values()) {
-				if (state.timer !== undefined) clearInterval(state.timer);
+				if (state.timer !== undefined) clearTimeout(state.timer);
 				state.timer = undefined;
 			}
 
@@ -199,7 +462,7 @@ export const createTaskScheduler = (
 			let timer: ReturnType<typeof setTimeout> | undefined;
 			const budget = new Promise<void>((resolve) => {
 				timer = setTimeout(resolve, timeoutMs);
-				(timer as { unref?: () => void }).unref?.();
+				unref(timer);
 			});
 
 			try {